@@ -0,0 +1,41 @@
+-- CreateEnum
+CREATE TYPE "ShippingRateBasis" AS ENUM ('weight', 'subtotal');
+
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN     "shippingCost" DECIMAL(10,2) NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "Product" ADD COLUMN     "weight" DECIMAL(10,3);
+
+-- CreateTable
+CREATE TABLE "ShippingZone" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "country" TEXT NOT NULL,
+    "states" TEXT[],
+    "zipCodePrefixes" TEXT[],
+    "rateBasis" "ShippingRateBasis" NOT NULL DEFAULT 'weight',
+    "freeShippingThreshold" DECIMAL(10,2),
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ShippingZone_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ShippingRate" (
+    "id" TEXT NOT NULL,
+    "zoneId" TEXT NOT NULL,
+    "minValue" DECIMAL(10,3) NOT NULL DEFAULT 0,
+    "maxValue" DECIMAL(10,3),
+    "cost" DECIMAL(10,2) NOT NULL,
+
+    CONSTRAINT "ShippingRate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ShippingRate_zoneId_idx" ON "ShippingRate"("zoneId");
+
+-- AddForeignKey
+ALTER TABLE "ShippingRate" ADD CONSTRAINT "ShippingRate_zoneId_fkey" FOREIGN KEY ("zoneId") REFERENCES "ShippingZone"("id") ON DELETE CASCADE ON UPDATE CASCADE;
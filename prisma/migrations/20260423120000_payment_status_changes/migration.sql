@@ -0,0 +1,25 @@
+-- CreateEnum
+CREATE TYPE "PaymentStatusSource" AS ENUM ('provider', 'webhook', 'admin');
+
+-- CreateTable
+CREATE TABLE "PaymentStatusChange" (
+    "id" TEXT NOT NULL,
+    "transactionId" TEXT NOT NULL,
+    "previousStatus" "PaymentStatus" NOT NULL,
+    "newStatus" "PaymentStatus" NOT NULL,
+    "source" "PaymentStatusSource" NOT NULL,
+    "changedById" TEXT,
+    "note" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PaymentStatusChange_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "PaymentStatusChange_transactionId_idx" ON "PaymentStatusChange"("transactionId");
+
+-- AddForeignKey
+ALTER TABLE "PaymentStatusChange" ADD CONSTRAINT "PaymentStatusChange_transactionId_fkey" FOREIGN KEY ("transactionId") REFERENCES "PaymentTransaction"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PaymentStatusChange" ADD CONSTRAINT "PaymentStatusChange_changedById_fkey" FOREIGN KEY ("changedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
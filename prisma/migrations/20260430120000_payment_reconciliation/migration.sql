@@ -0,0 +1,51 @@
+-- AlterEnum
+ALTER TYPE "PaymentStatusSource" ADD VALUE 'system';
+
+-- CreateEnum
+CREATE TYPE "ReconciliationResult" AS ENUM ('matched', 'mismatched_amount', 'missing', 'error');
+
+-- CreateTable
+CREATE TABLE "ReconciliationRun" (
+    "id" TEXT NOT NULL,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "finishedAt" TIMESTAMP(3),
+    "checkedCount" INTEGER NOT NULL DEFAULT 0,
+    "matchedCount" INTEGER NOT NULL DEFAULT 0,
+    "mismatchedCount" INTEGER NOT NULL DEFAULT 0,
+    "missingCount" INTEGER NOT NULL DEFAULT 0,
+    "updatedCount" INTEGER NOT NULL DEFAULT 0,
+    "expiredCount" INTEGER NOT NULL DEFAULT 0,
+    "errorCount" INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "ReconciliationRun_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ReconciliationItem" (
+    "id" TEXT NOT NULL,
+    "runId" TEXT NOT NULL,
+    "transactionId" TEXT NOT NULL,
+    "provider" "PaymentProvider" NOT NULL,
+    "result" "ReconciliationResult" NOT NULL,
+    "localStatus" "PaymentStatus" NOT NULL,
+    "newStatus" "PaymentStatus",
+    "providerStatus" TEXT,
+    "localAmount" DECIMAL(10,2) NOT NULL,
+    "providerAmount" DECIMAL(10,2),
+    "note" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ReconciliationItem_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ReconciliationItem_runId_idx" ON "ReconciliationItem"("runId");
+
+-- CreateIndex
+CREATE INDEX "ReconciliationItem_transactionId_idx" ON "ReconciliationItem"("transactionId");
+
+-- AddForeignKey
+ALTER TABLE "ReconciliationItem" ADD CONSTRAINT "ReconciliationItem_runId_fkey" FOREIGN KEY ("runId") REFERENCES "ReconciliationRun"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ReconciliationItem" ADD CONSTRAINT "ReconciliationItem_transactionId_fkey" FOREIGN KEY ("transactionId") REFERENCES "PaymentTransaction"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,41 @@
+-- CreateEnum
+CREATE TYPE "CryptoAsset" AS ENUM ('USDT', 'BTC');
+
+-- CreateEnum
+CREATE TYPE "CryptoPaymentStatus" AS ENUM ('awaiting_payment', 'confirming', 'confirmed', 'underpaid', 'expired');
+
+-- CreateTable
+CREATE TABLE "CryptoPayment" (
+    "id" TEXT NOT NULL,
+    "transactionId" TEXT NOT NULL,
+    "asset" "CryptoAsset" NOT NULL,
+    "network" TEXT NOT NULL,
+    "depositAddress" TEXT NOT NULL,
+    "memo" TEXT,
+    "amountUsd" DECIMAL(10,2) NOT NULL,
+    "rate" DECIMAL(18,8) NOT NULL,
+    "cryptoAmount" DECIMAL(24,8) NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "status" "CryptoPaymentStatus" NOT NULL DEFAULT 'awaiting_payment',
+    "txHash" TEXT,
+    "receivedAmount" DECIMAL(24,8),
+    "confirmations" INTEGER NOT NULL DEFAULT 0,
+    "detectedAt" TIMESTAMP(3),
+    "confirmedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "CryptoPayment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CryptoPayment_transactionId_key" ON "CryptoPayment"("transactionId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CryptoPayment_txHash_key" ON "CryptoPayment"("txHash");
+
+-- CreateIndex
+CREATE INDEX "CryptoPayment_status_expiresAt_idx" ON "CryptoPayment"("status", "expiresAt");
+
+-- AddForeignKey
+ALTER TABLE "CryptoPayment" ADD CONSTRAINT "CryptoPayment_transactionId_fkey" FOREIGN KEY ("transactionId") REFERENCES "PaymentTransaction"("id") ON DELETE CASCADE ON UPDATE CASCADE;
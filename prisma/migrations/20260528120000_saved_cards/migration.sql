@@ -0,0 +1,12 @@
+-- Los tokens guardados hasta ahora los enviaba el cliente sin verificar y no
+-- sirven para cobrar: se eliminan y el usuario vuelve a guardar la tarjeta
+DELETE FROM "PaymentMethod";
+
+-- AlterTable
+ALTER TABLE "PaymentMethod" DROP COLUMN "gatewayToken",
+ADD COLUMN     "provider" "PaymentProvider" NOT NULL,
+ADD COLUMN     "providerCardId" TEXT NOT NULL,
+ADD COLUMN     "providerCustomerId" TEXT NOT NULL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PaymentMethod_provider_providerCardId_key" ON "PaymentMethod"("provider", "providerCardId");
@@ -0,0 +1,49 @@
+-- AlterTable
+ALTER TABLE "PaymentTransaction" ADD COLUMN     "chargedAmount" DECIMAL(14,2),
+ADD COLUMN     "chargedCurrency" TEXT,
+ADD COLUMN     "exchangeRate" DECIMAL(18,6),
+ADD COLUMN     "exchangeRateId" TEXT;
+
+-- CreateTable
+CREATE TABLE "CountryCurrency" (
+    "id" TEXT NOT NULL,
+    "country" TEXT NOT NULL,
+    "currency" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "CountryCurrency_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ExchangeRate" (
+    "id" TEXT NOT NULL,
+    "baseCurrency" TEXT NOT NULL,
+    "currency" TEXT NOT NULL,
+    "rate" DECIMAL(18,6) NOT NULL,
+    "source" TEXT NOT NULL,
+    "isOverride" BOOLEAN NOT NULL DEFAULT false,
+    "expiresAt" TIMESTAMP(3),
+    "note" TEXT,
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ExchangeRate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CountryCurrency_country_key" ON "CountryCurrency"("country");
+
+-- CreateIndex
+CREATE INDEX "ExchangeRate_baseCurrency_currency_createdAt_idx" ON "ExchangeRate"("baseCurrency", "currency", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "PaymentTransaction" ADD CONSTRAINT "PaymentTransaction_exchangeRateId_fkey" FOREIGN KEY ("exchangeRateId") REFERENCES "ExchangeRate"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ExchangeRate" ADD CONSTRAINT "ExchangeRate_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Monedas que antes estaban fijas en el código
+INSERT INTO "CountryCurrency" ("id", "country", "currency", "updatedAt") VALUES
+    (gen_random_uuid(), 'Argentina', 'ARS', CURRENT_TIMESTAMP),
+    (gen_random_uuid(), 'Ecuador', 'USD', CURRENT_TIMESTAMP);
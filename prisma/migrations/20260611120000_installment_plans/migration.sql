@@ -0,0 +1,30 @@
+-- AlterTable
+ALTER TABLE "PaymentTransaction" ADD COLUMN     "installmentPlanId" TEXT,
+ADD COLUMN     "installments" INTEGER NOT NULL DEFAULT 1;
+
+-- CreateTable
+CREATE TABLE "InstallmentPlan" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "provider" "PaymentProvider" NOT NULL,
+    "installments" INTEGER NOT NULL,
+    "interestRate" DECIMAL(5,2) NOT NULL DEFAULT 0,
+    "minAmount" DECIMAL(10,2),
+    "categoryId" TEXT,
+    "startsAt" TIMESTAMP(3),
+    "expiresAt" TIMESTAMP(3),
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "InstallmentPlan_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "InstallmentPlan_provider_isActive_idx" ON "InstallmentPlan"("provider", "isActive");
+
+-- AddForeignKey
+ALTER TABLE "PaymentTransaction" ADD CONSTRAINT "PaymentTransaction_installmentPlanId_fkey" FOREIGN KEY ("installmentPlanId") REFERENCES "InstallmentPlan"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "InstallmentPlan" ADD CONSTRAINT "InstallmentPlan_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "Category"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "CartItem" ADD COLUMN     "priceSnapshot" DECIMAL(10,2);
+
+-- AlterTable
+ALTER TABLE "GuestCartItem" ADD COLUMN     "priceSnapshot" DECIMAL(10,2);
@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "CartRecoveryEmail" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "step" INTEGER NOT NULL,
+    "cartUpdatedAt" TIMESTAMP(3) NOT NULL,
+    "items" JSONB NOT NULL,
+    "token" TEXT NOT NULL,
+    "sentAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "restoredAt" TIMESTAMP(3),
+
+    CONSTRAINT "CartRecoveryEmail_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CartRecoveryEmail_token_key" ON "CartRecoveryEmail"("token");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CartRecoveryEmail_userId_cartUpdatedAt_step_key" ON "CartRecoveryEmail"("userId", "cartUpdatedAt", "step");
+
+-- AddForeignKey
+ALTER TABLE "CartRecoveryEmail" ADD CONSTRAINT "CartRecoveryEmail_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
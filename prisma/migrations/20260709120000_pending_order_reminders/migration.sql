@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN     "lastPaymentReminderAt" TIMESTAMP(3),
+ADD COLUMN     "paymentRemindersSent" INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "PaymentTransaction" ADD COLUMN     "requiresReview" BOOLEAN NOT NULL DEFAULT false;
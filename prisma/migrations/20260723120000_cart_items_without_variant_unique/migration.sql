@@ -0,0 +1,50 @@
+-- Los índices únicos con "variantId" no evitan duplicados cuando es NULL
+-- (PostgreSQL considera distintos los NULL). Se agregan índices parciales
+-- para los items sin variante (Prisma no modela índices parciales, por lo
+-- que solo existen en esta migración).
+
+-- Unificar los items duplicados sin variante: se conserva el más antiguo
+-- con la suma de las cantidades
+WITH "ranked" AS (
+  SELECT "id",
+    ROW_NUMBER() OVER (PARTITION BY "userId", "productId" ORDER BY "createdAt", "id") AS "position",
+    SUM("quantity") OVER (PARTITION BY "userId", "productId") AS "totalQuantity"
+  FROM "CartItem"
+  WHERE "variantId" IS NULL
+)
+UPDATE "CartItem" SET "quantity" = "ranked"."totalQuantity"
+FROM "ranked"
+WHERE "CartItem"."id" = "ranked"."id" AND "ranked"."position" = 1;
+
+DELETE FROM "CartItem" a
+USING "CartItem" b
+WHERE a."variantId" IS NULL
+  AND b."variantId" IS NULL
+  AND a."userId" = b."userId"
+  AND a."productId" = b."productId"
+  AND (a."createdAt", a."id") > (b."createdAt", b."id");
+
+WITH "ranked" AS (
+  SELECT "id",
+    ROW_NUMBER() OVER (PARTITION BY "guestCartId", "productId" ORDER BY "createdAt", "id") AS "position",
+    SUM("quantity") OVER (PARTITION BY "guestCartId", "productId") AS "totalQuantity"
+  FROM "GuestCartItem"
+  WHERE "variantId" IS NULL
+)
+UPDATE "GuestCartItem" SET "quantity" = "ranked"."totalQuantity"
+FROM "ranked"
+WHERE "GuestCartItem"."id" = "ranked"."id" AND "ranked"."position" = 1;
+
+DELETE FROM "GuestCartItem" a
+USING "GuestCartItem" b
+WHERE a."variantId" IS NULL
+  AND b."variantId" IS NULL
+  AND a."guestCartId" = b."guestCartId"
+  AND a."productId" = b."productId"
+  AND (a."createdAt", a."id") > (b."createdAt", b."id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CartItem_userId_productId_no_variant_key" ON "CartItem"("userId", "productId") WHERE "variantId" IS NULL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "GuestCartItem_guestCartId_productId_no_variant_key" ON "GuestCartItem"("guestCartId", "productId") WHERE "variantId" IS NULL;
@@ -0,0 +1,9 @@
+-- Los reembolsos aceptados por el proveedor se registran como definitivos:
+-- el estado "pending" no tenía cómo resolverse. El estado que informa el
+-- proveedor queda en "providerData".
+
+-- AlterTable
+ALTER TABLE "Refund" DROP COLUMN "status";
+
+-- DropEnum
+DROP TYPE "RefundStatus";
@@ -213,7 +213,17 @@ async function main() {
 
       for (const productoData of productosEjemplo) {
         await prisma.product.create({
-          data: productoData,
+          data: {
+            ...productoData,
+            stock: 25,
+            stockMovements: {
+              create: {
+                type: 'initial',
+                quantity: 25,
+                reason: 'Stock inicial (seed)',
+              },
+            },
+          },
         });
       }
 
@@ -15,6 +15,15 @@ import { PaymentsModule } from './payments/payments.module.js';
 import { DashboardModule } from './dashboard/dashboard.module.js';
 import { PaymentMethodsModule } from './payment-methods/payment-methods.module.js';
 import { OrdersSchedulerModule } from './orders/orders-scheduler.module.js';
+import { InventoryModule } from './inventory/inventory.module.js';
+import { CouponsModule } from './coupons/coupons.module.js';
+import { ShipmentsModule } from './shipments/shipments.module.js';
+import { ShippingModule } from './shipping/shipping.module.js';
+import { TaxesModule } from './taxes/taxes.module.js';
+import { ReviewsModule } from './reviews/reviews.module.js';
+import { WishlistModule } from './wishlist/wishlist.module.js';
+import { CurrenciesModule } from './currencies/currencies.module.js';
+import { GuestCheckoutModule } from './guest-checkout/guest-checkout.module.js';
 import { APP_GUARD } from '@nestjs/core';
 import { JwtAuthGuard } from './auth/guards/jwt-auth.guard.js';
 
@@ -36,6 +45,15 @@ import { JwtAuthGuard } from './auth/guards/jwt-auth.guard.js';
     DashboardModule,
     PaymentMethodsModule,
     OrdersSchedulerModule,
+    InventoryModule,
+    CouponsModule,
+    ShipmentsModule,
+    ShippingModule,
+    TaxesModule,
+    ReviewsModule,
+    WishlistModule,
+    CurrenciesModule,
+    GuestCheckoutModule,
   ],
   controllers: [],
   providers: [
@@ -26,6 +26,10 @@ import type {
   GoogleAuthRequest,
 } from '../interfaces/authenticated-user.interface.js';
 import geoip from 'geoip-lite';
+import {
+  GuestCartToken,
+  GUEST_CART_COOKIE,
+} from '../cart/decorators/guest-cart-token.decorator.js';
 
 @Controller('auth')
 export class AuthController {
@@ -36,9 +40,11 @@ export class AuthController {
   @HttpCode(HttpStatus.OK)
   async login(
     @Body() data: LoginDto,
+    @GuestCartToken() guestCartToken: string | undefined,
     @Res({ passthrough: true }) response: Response,
   ) {
-    const result = await this.authService.login(data);
+    const result = await this.authService.login(data, guestCartToken);
+    response.clearCookie(GUEST_CART_COOKIE);
     response.cookie('refreshToken', result.data.refreshToken, {
       httpOnly: true,
       secure: process.env.NODE_ENV === 'production',
@@ -53,9 +59,11 @@ export class AuthController {
   @HttpCode(HttpStatus.CREATED)
   async register(
     @Body() data: RegisterUserDto,
+    @GuestCartToken() guestCartToken: string | undefined,
     @Res({ passthrough: true }) response: Response,
   ) {
-    const result = await this.authService.register(data);
+    const result = await this.authService.register(data, guestCartToken);
+    response.clearCookie(GUEST_CART_COOKIE);
     response.cookie('refreshToken', result.data.refreshToken, {
       httpOnly: true,
       secure: process.env.NODE_ENV !== 'development',
@@ -82,6 +90,7 @@ export class AuthController {
       headers?: any;
       socket?: any;
     },
+    @GuestCartToken() guestCartToken: string | undefined,
     @Res({ passthrough: true }) response: Response,
   ) {
     // Detectar país por IP
@@ -136,7 +145,12 @@ export class AuthController {
 
     // Agregar país detectado al googleUser
     const googleUser = { ...req.user, country };
-    const result = await this.authService.googleLogin(googleUser);
+    // El carrito anónimo llega en la cookie: el callback es una redirección de Google
+    const result = await this.authService.googleLogin(
+      googleUser,
+      guestCartToken,
+    );
+    response.clearCookie(GUEST_CART_COOKIE);
     response.cookie('refreshToken', result.data.refreshToken, {
       httpOnly: true,
       secure: process.env.NODE_ENV === 'production',
@@ -20,6 +20,10 @@ import { v4 as uuidv4 } from 'uuid';
 import { ChangePasswordDto } from './dto/change-password.dto.js';
 import type { StringValue } from 'ms';
 import type { GoogleUser } from '../interfaces/authenticated-user.interface.js';
+import {
+  mergeGuestCart,
+  verifyGuestCartToken,
+} from '../cart/helpers/guest-cart.helper.js';
 
 type Tokens = {
   accessToken: string;
@@ -83,6 +87,50 @@ export class AuthService {
     };
   }
 
+  private async sendVerificationEmail(
+    user: { email: string; firstName: string },
+    verificationToken: string,
+  ) {
+    const verificationLink = `${this.configService.get<string>(
+      'FRONTEND_URL',
+    )}/verify-email/${verificationToken}`;
+
+    await this.emailService.sendEmail({
+      to: user.email,
+      subject: `¡Bienvenido a Mercado Copado, ${user.firstName}!`,
+      templateName: 'user-verification',
+      replacements: {
+        name: user.firstName,
+        email: user.email,
+        verificationLink,
+      },
+    });
+  }
+
+  /**
+   * Pasa el carrito anónimo (carrito de invitado) al carrito del usuario que
+   * inicia sesión y lo elimina. Un token inválido o vencido se ignora: no
+   * debe impedir el login.
+   */
+  private async mergeGuestCart(userId: string, guestCartToken?: string) {
+    const guestCartId = await verifyGuestCartToken(
+      this.jwtService,
+      this.configService,
+      guestCartToken,
+    );
+    if (!guestCartId) return;
+
+    try {
+      await mergeGuestCart(this.prisma, guestCartId, userId);
+      await this.prisma.guestCart.deleteMany({ where: { id: guestCartId } });
+    } catch (error) {
+      console.error(
+        `[Carrito anónimo] No se pudo pasar el carrito ${guestCartId} al usuario ${userId}:`,
+        error,
+      );
+    }
+  }
+
   async updateRefreshToken(
     userId: string,
     refreshToken: string,
@@ -94,13 +142,20 @@ export class AuthService {
     });
   }
 
-  async login(userDto: LoginDto) {
+  async login(userDto: LoginDto, guestCartToken?: string) {
     const user = await this.prisma.user.findUnique({
       where: { email: userDto.email },
     });
 
     if (!user) throw new NotFoundException('User not found');
 
+    // Los invitados no tienen contraseña hasta que completan su cuenta
+    if (user.isGuest) {
+      throw new ForbiddenException(
+        'Este email se usó para comprar como invitado. Crea tu cuenta desde el link de tu pedido.',
+      );
+    }
+
     if (!user.password) {
       throw new ForbiddenException('Please login with Google');
     }
@@ -115,6 +170,7 @@ export class AuthService {
     // user.id and user.email are guaranteed to be non-null (required fields in schema)
     const tokens = await this.getTokens(user.id, user.email, user.role);
     await this.updateRefreshToken(user.id, tokens.refreshToken);
+    await this.mergeGuestCart(user.id, guestCartToken);
 
     return {
       message: 'Login exitoso',
@@ -126,7 +182,7 @@ export class AuthService {
     };
   }
 
-  async register(userDto: RegisterUserDto) {
+  async register(userDto: RegisterUserDto, guestCartToken?: string) {
     const { email, password, firstName, lastName, country } = userDto;
 
     const foundUser = await this.prisma.user.findUnique({ where: { email } });
@@ -160,21 +216,10 @@ export class AuthService {
       newUser.role,
     );
     await this.updateRefreshToken(newUser.id, tokens.refreshToken);
-    const verificationLink = `${this.configService.get<string>(
-      'FRONTEND_URL',
-    )}/verify-email/${verificationToken}`;
+    await this.mergeGuestCart(newUser.id, guestCartToken);
 
     try {
-      await this.emailService.sendEmail({
-        to: newUser.email,
-        subject: `¡Bienvenido a Mercado Copado, ${newUser.firstName}!`,
-        templateName: 'user-verification',
-        replacements: {
-          name: newUser.firstName,
-          email: newUser.email,
-          verificationLink,
-        },
-      });
+      await this.sendVerificationEmail(newUser, verificationToken);
     } catch (emailError) {
       console.error(
         `[Registro] No se pudo enviar el correo a ${newUser.email}:`,
@@ -192,7 +237,66 @@ export class AuthService {
     };
   }
 
-  async googleLogin(googleUser: GoogleUser) {
+  /**
+   * Convierte un usuario invitado (creado al comprar sin cuenta) en una
+   * cuenta con contraseña, con sus pedidos y direcciones. Como en el
+   * registro, se envía el correo de verificación, se inicia la sesión y se
+   * pasa el carrito anónimo, si lo hay, a la cuenta.
+   */
+  async convertGuest(
+    userId: string,
+    password: string,
+    guestCartToken?: string,
+  ) {
+    const user = await this.prisma.user.findUnique({ where: { id: userId } });
+
+    if (!user) throw new NotFoundException('User not found');
+
+    if (!user.isGuest) {
+      throw new ConflictException(
+        'La cuenta ya fue creada. Inicia sesión para continuar.',
+      );
+    }
+
+    const verificationToken = uuidv4();
+    const updatedUser = await this.prisma.user.update({
+      where: { id: user.id },
+      data: {
+        password: await this.hashData(password),
+        isGuest: false,
+        verificationToken,
+        verificationTokenExpiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000),
+      },
+    });
+
+    const tokens = await this.getTokens(
+      updatedUser.id,
+      updatedUser.email,
+      updatedUser.role,
+    );
+    await this.updateRefreshToken(updatedUser.id, tokens.refreshToken);
+    await this.mergeGuestCart(updatedUser.id, guestCartToken);
+
+    try {
+      await this.sendVerificationEmail(updatedUser, verificationToken);
+    } catch (emailError) {
+      console.error(
+        `[Cuenta de invitado] No se pudo enviar el correo a ${updatedUser.email}:`,
+        emailError,
+      );
+    }
+
+    return {
+      message:
+        'Cuenta creada exitosamente. Por favor, revisa tu correo para verificar tu cuenta.',
+      data: {
+        accessToken: tokens.accessToken,
+        refreshToken: tokens.refreshToken,
+      },
+    };
+  }
+
+  async googleLogin(googleUser: GoogleUser, guestCartToken?: string) {
     const { googleId, email, firstName, lastName, country } = googleUser;
 
     let user = await this.prisma.user.findFirst({
@@ -216,13 +320,16 @@ export class AuthService {
       });
     } else if (!user.googleId) {
       // Actualizar usuario existente con googleId
+      // Un invitado que entra con Google pasa a tener cuenta: Google verifica el email
       const updateData: {
         googleId: string;
         isVerified: boolean;
+        isGuest: boolean;
         country?: string;
       } = {
         googleId,
         isVerified: true,
+        isGuest: false,
       };
 
       // Solo actualizar país si no tiene uno asignado
@@ -239,6 +346,7 @@ export class AuthService {
     // user fields are guaranteed to be non-null after find/create
     const tokens = await this.getTokens(user.id, user.email, user.role);
     await this.updateRefreshToken(user.id, tokens.refreshToken);
+    await this.mergeGuestCart(user.id, guestCartToken);
 
     return {
       message: 'Login exitoso con Google',
@@ -309,21 +417,8 @@ export class AuthService {
       },
     });
 
-    const verificationLink = `${this.configService.get<string>(
-      'FRONTEND_URL',
-    )}/verify-email/${verificationToken}`;
-
     try {
-      await this.emailService.sendEmail({
-        to: user.email,
-        subject: `¡Bienvenido a Mercado Copado, ${user.firstName}!`,
-        templateName: 'user-verification',
-        replacements: {
-          name: user.firstName,
-          email: user.email,
-          verificationLink,
-        },
-      });
+      await this.sendVerificationEmail(user, verificationToken);
 
       return {
         message:
@@ -492,6 +587,8 @@ export class AuthService {
       where: { id: user.id },
       data: {
         password: hashedPassword,
+        // Un invitado que define su contraseña desde el correo pasa a tener cuenta
+        isGuest: false,
         resetPasswordToken: null,
         resetPasswordTokenExpiresAt: null,
         resetPasswordRequestedAt: null,
@@ -0,0 +1,256 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { v4 as uuidv4 } from 'uuid';
+import { PrismaService } from '../prisma/prisma.service.js';
+import { Prisma } from '../generated/client.js';
+import { EmailService } from '../email/email.service.js';
+import { calculateCartItemPrice } from '../payments/helpers/cart.helper.js';
+import { escapeHtml } from '../common/helpers/html.helper.js';
+import type { CartRecoveryItem } from './interfaces/cart-recovery-item.interface.js';
+
+// Horas sin actividad en el carrito para cada recordatorio (default: 1, 3 y 7 días)
+const DEFAULT_REMINDER_HOURS = [24, 72, 168];
+// Horas después del último recordatorio en las que un carrito sigue
+// considerándose; los más antiguos no reciben recordatorios
+const REMINDER_WINDOW_HOURS = 24;
+
+const HOUR = 60 * 60 * 1000;
+
+@Injectable()
+export class CartRecoverySchedulerService {
+  private readonly logger = new Logger(CartRecoverySchedulerService.name);
+  private readonly frontendUrl: string;
+
+  constructor(
+    private prisma: PrismaService,
+    private emailService: EmailService,
+    private configService: ConfigService,
+  ) {
+    this.frontendUrl =
+      this.configService.get<string>('FRONTEND_URL') || 'http://localhost:3000';
+  }
+
+  /**
+   * Ejecuta cada hora para enviar recordatorios de carritos abandonados.
+   * La última actividad de un carrito es la última modificación de sus
+   * items; cada recordatorio de la secuencia se envía una sola vez por
+   * actividad, así un carrito que cambia vuelve a empezar la secuencia.
+   * Si se atrasó más de un recordatorio, solo se envía el último que
+   * corresponde.
+   */
+  @Cron(CronExpression.EVERY_HOUR)
+  async handleAbandonedCarts() {
+    const reminderHours = this.getReminderHours();
+    const now = Date.now();
+    const oldestActivity = new Date(
+      now -
+        (reminderHours[reminderHours.length - 1] + REMINDER_WINDOW_HOURS) *
+          HOUR,
+    );
+
+    try {
+      const carts = await this.prisma.cartItem.groupBy({
+        by: ['userId'],
+        where: { user: { isGuest: false } },
+        _max: { updatedAt: true },
+        having: {
+          updatedAt: {
+            _max: {
+              lte: new Date(now - reminderHours[0] * HOUR),
+              gt: oldestActivity,
+            },
+          },
+        },
+      });
+
+      let sent = 0;
+
+      for (const cart of carts) {
+        const lastActivity = cart._max.updatedAt;
+        if (!lastActivity) continue;
+
+        const elapsedHours = (now - lastActivity.getTime()) / HOUR;
+        const step = reminderHours.filter(
+          (hours) => elapsedHours >= hours,
+        ).length;
+
+        const lastSent = await this.prisma.cartRecoveryEmail.findFirst({
+          where: { userId: cart.userId, cartUpdatedAt: lastActivity },
+          orderBy: { step: 'desc' },
+        });
+        if (lastSent && lastSent.step >= step) continue;
+
+        if (
+          await this.sendReminder(
+            cart.userId,
+            lastActivity,
+            step,
+            step === reminderHours.length,
+          )
+        ) {
+          sent++;
+        }
+      }
+
+      if (sent > 0) {
+        this.logger.log(`Enviados ${sent} recordatorios de carrito abandonado`);
+      }
+    } catch (error) {
+      this.logger.error(`Error al procesar carritos abandonados: ${error}`);
+    }
+  }
+
+  /**
+   * Registra y envía un recordatorio. El registro se crea antes del envío
+   * para que dos ejecuciones no envíen el mismo recordatorio; si el envío
+   * falla se elimina, así se reintenta en la próxima ejecución.
+   *
+   * @returns true si el recordatorio se envió
+   */
+  private async sendReminder(
+    userId: string,
+    cartUpdatedAt: Date,
+    step: number,
+    isLastReminder: boolean,
+  ): Promise<boolean> {
+    const [user, items] = await Promise.all([
+      this.prisma.user.findUnique({
+        where: { id: userId },
+        select: { email: true, firstName: true },
+      }),
+      this.prisma.cartItem.findMany({
+        where: { userId },
+        include: {
+          product: {
+            include: {
+              images: {
+                orderBy: { order: 'asc' },
+                take: 1,
+              },
+            },
+          },
+          variant: true,
+        },
+        orderBy: { createdAt: 'desc' },
+      }),
+    ]);
+
+    const availableItems = items.filter(
+      (item) => item.product.isActive && (item.variant?.isActive ?? true),
+    );
+    if (!user || availableItems.length === 0) {
+      return false;
+    }
+
+    const recoveryItems: CartRecoveryItem[] = items.map((item) => ({
+      productId: item.productId,
+      variantId: item.variantId,
+      quantity: item.quantity,
+      priceSnapshot:
+        item.priceSnapshot == null ? null : Number(item.priceSnapshot),
+    }));
+
+    let recovery: { id: string; token: string };
+    try {
+      recovery = await this.prisma.cartRecoveryEmail.create({
+        data: {
+          userId,
+          step,
+          cartUpdatedAt,
+          items: recoveryItems as object[],
+          token: uuidv4(),
+        },
+      });
+    } catch (error) {
+      // Otra ejecución ya registró este recordatorio
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2002'
+      ) {
+        return false;
+      }
+      throw error;
+    }
+
+    try {
+      await this.emailService.sendAbandonedCartEmail({
+        to: user.email,
+        firstName: user.firstName,
+        itemsList: availableItems
+          .map((item) => this.buildItemRow(item))
+          .join(''),
+        cartUrl: `${this.frontendUrl}/cart/recover/${recovery.token}`,
+        reminderNumber: step,
+        isLastReminder,
+      });
+    } catch (error) {
+      this.logger.error(
+        `Error al enviar el recordatorio ${step} del carrito de ${user.email}: ${error}`,
+      );
+      await this.prisma.cartRecoveryEmail.delete({
+        where: { id: recovery.id },
+      });
+      return false;
+    }
+
+    this.logger.log(
+      `Recordatorio ${step} de carrito abandonado enviado a ${user.email}`,
+    );
+    return true;
+  }
+
+  /**
+   * Fila del email para un item: imagen, nombre, variante, cantidad y precio.
+   */
+  private buildItemRow(item: {
+    quantity: number;
+    product: {
+      id: string;
+      name: string;
+      price: number | { toNumber(): number };
+      discount: number | { toNumber(): number } | null;
+      images: { url: string }[];
+    };
+    variant: {
+      price: number | { toNumber(): number } | null;
+      size: string | null;
+      color: string | null;
+      imageUrl: string | null;
+    } | null;
+  }): string {
+    const imageUrl = item.variant?.imageUrl ?? item.product.images[0]?.url;
+    const productUrl = escapeHtml(
+      `${this.frontendUrl}/products/${item.product.id}`,
+    );
+    const variantName = [item.variant?.size, item.variant?.color]
+      .filter(Boolean)
+      .join(' / ');
+    const price = calculateCartItemPrice(item).toFixed(2);
+
+    const image = imageUrl
+      ? `<img src="${escapeHtml(imageUrl)}" alt="${escapeHtml(item.product.name)}" width="64" height="64" style="border-radius: 5px; object-fit: cover;" />`
+      : '';
+    const variant = variantName
+      ? `<br /><span style="color: #666; font-size: 14px;">${escapeHtml(variantName)}</span>`
+      : '';
+
+    return `<tr><td style="padding: 10px; width: 64px;">${image}</td><td style="padding: 10px;"><a href="${productUrl}" style="color: #6b4423; font-weight: bold;">${escapeHtml(item.product.name)}</a>${variant}</td><td style="padding: 10px; text-align: right; white-space: nowrap;">${item.quantity} × $${price}</td></tr>`;
+  }
+
+  /**
+   * Horas de inactividad de cada recordatorio, de ABANDONED_CART_REMINDER_HOURS
+   * (ej: "24,72,168").
+   */
+  private getReminderHours(): number[] {
+    const hours = (
+      this.configService.get<string>('ABANDONED_CART_REMINDER_HOURS') ?? ''
+    )
+      .split(',')
+      .map((value) => Number(value.trim()))
+      .filter((value) => Number.isFinite(value) && value > 0)
+      .sort((a, b) => a - b);
+
+    return hours.length > 0 ? hours : DEFAULT_REMINDER_HOURS;
+  }
+}
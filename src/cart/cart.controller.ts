@@ -11,20 +11,63 @@ import {
 import { CartService } from './cart.service.js';
 import { AddToCartDto } from './dto/add-to-cart.dto.js';
 import { UpdateCartItemDto } from './dto/update-cart-item.dto.js';
+import { ApplyCouponDto } from '../coupons/dto/apply-coupon.dto.js';
+import { CouponsService } from '../coupons/coupons.service.js';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard.js';
 import { CurrentUser } from '../auth/decorators/current-user.decorator.js';
+import { Public } from '../auth/decorators/public.decorator.js';
 import type { LoggedInUserData } from '../interfaces/authenticated-user.interface.js';
 
 @Controller('cart')
 @UseGuards(JwtAuthGuard)
 export class CartController {
-  constructor(private readonly cartService: CartService) {}
+  constructor(
+    private readonly cartService: CartService,
+    private readonly couponsService: CouponsService,
+  ) {}
 
   @Get()
   findAll(@CurrentUser() user: LoggedInUserData) {
     return this.cartService.findAll(user.id);
   }
 
+  /**
+   * Cambios de precio, stock o disponibilidad desde que se agregaron los
+   * productos. Deben aceptarse antes de crear la orden.
+   */
+  @Get('changes')
+  findChanges(@CurrentUser() user: LoggedInUserData) {
+    return this.cartService.findChanges(user.id);
+  }
+
+  @Post('changes/acknowledge')
+  acknowledgeChanges(@CurrentUser() user: LoggedInUserData) {
+    return this.cartService.acknowledgeChanges(user.id);
+  }
+
+  /**
+   * Link de los recordatorios de carrito abandonado: vuelve a agregar los
+   * productos al carrito del usuario del recordatorio, sin iniciar sesión.
+   */
+  @Public()
+  @Post('recover/:token')
+  restoreFromRecovery(@Param('token') token: string) {
+    return this.cartService.restoreFromRecovery(token);
+  }
+
+  @Post('coupon')
+  applyCoupon(
+    @CurrentUser() user: LoggedInUserData,
+    @Body() applyCouponDto: ApplyCouponDto,
+  ) {
+    return this.couponsService.applyToCart(user.id, applyCouponDto.code);
+  }
+
+  @Delete('coupon')
+  removeCoupon(@CurrentUser() user: LoggedInUserData) {
+    return this.couponsService.removeFromCart(user.id);
+  }
+
   @Post()
   addToCart(
     @CurrentUser() user: LoggedInUserData,
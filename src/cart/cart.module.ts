@@ -1,12 +1,24 @@
 import { Module } from '@nestjs/common';
+import { JwtModule } from '@nestjs/jwt';
 import { CartService } from './cart.service.js';
 import { CartController } from './cart.controller.js';
+import { CartRecoverySchedulerService } from './cart-recovery-scheduler.service.js';
 import { PrismaModule } from '../prisma/prisma.module.js';
+import { InventoryModule } from '../inventory/inventory.module.js';
+import { CouponsModule } from '../coupons/coupons.module.js';
+import { EmailModule } from '../email/email.module.js';
 
 @Module({
-  imports: [PrismaModule],
+  imports: [
+    PrismaModule,
+    InventoryModule,
+    CouponsModule,
+    EmailModule,
+    // Tokens del carrito de invitado, firmados con GUEST_TOKEN_SECRET
+    JwtModule.register({}),
+  ],
   controllers: [CartController],
-  providers: [CartService],
+  providers: [CartService, CartRecoverySchedulerService],
   exports: [CartService],
 })
 export class CartModule {}
@@ -1,12 +1,64 @@
-import { Injectable, NotFoundException } from '@nestjs/common';
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import type { StringValue } from 'ms';
 import { PrismaService } from '../prisma/prisma.service.js';
 import { AddToCartDto } from './dto/add-to-cart.dto.js';
 import { UpdateCartItemDto } from './dto/update-cart-item.dto.js';
 import { Prisma } from '../generated/client.js';
+import { InventoryService } from '../inventory/inventory.service.js';
+import {
+  calculateCartItemPrice,
+  calculateFinalPrice,
+} from '../payments/helpers/cart.helper.js';
+import { roundAmount } from '../coupons/helpers/coupon.helper.js';
+import { getGuestTokenSecret } from '../common/helpers/guest-token.helper.js';
+import {
+  GUEST_CART_TOKEN_TYPE,
+  mergeGuestCart,
+  verifyGuestCartToken,
+} from './helpers/guest-cart.helper.js';
+import {
+  cartChangesInclude,
+  detectCartChanges,
+  detectCartItemChanges,
+  getCurrentItemPrice,
+  type CartChange,
+  type CartItemForChanges,
+} from './helpers/cart-changes.helper.js';
+import type { CartRecoveryItem } from './interfaces/cart-recovery-item.interface.js';
+
+// Días desde el envío en los que se puede usar el link de un recordatorio de
+// carrito abandonado (default: 7)
+const DEFAULT_RECOVERY_LINK_TTL_DAYS = 7;
+
+const cartItemInclude = {
+  product: {
+    include: {
+      images: {
+        orderBy: {
+          order: 'asc' as const,
+        },
+        take: 1,
+      },
+    },
+  },
+  variant: true,
+};
 
 @Injectable()
 export class CartService {
-  constructor(private prisma: PrismaService) {}
+  constructor(
+    private prisma: PrismaService,
+    private inventoryService: InventoryService,
+    private jwtService: JwtService,
+    private configService: ConfigService,
+  ) {}
 
   findAll(userId: string) {
     return this.prisma.cartItem.findMany({
@@ -24,6 +76,7 @@ export class CartService {
             subcategory: true,
           },
         },
+        variant: true,
       },
       orderBy: {
         createdAt: 'desc',
@@ -50,71 +103,76 @@ export class CartService {
       throw new NotFoundException('Producto no encontrado');
     }
 
-    // Usar upsert para evitar condiciones de carrera y errores de restricción única
-    // upsert es atómico: crea si no existe, actualiza si existen
-    // Si falla por condición de carrera, intentamos actualizar directamente
-    try {
-      return await this.prisma.cartItem.upsert({
-        where: {
-          userId_productId: {
-            userId,
-            productId: addToCartDto.productId,
-          },
-        },
-        update: {
+    // Si el producto tiene variantes activas, se debe elegir una de ellas
+    const variantId = await this.resolveVariantId(
+      product.id,
+      addToCartDto.variantId,
+    );
+
+    const include = cartItemInclude;
+    const priceSnapshot = await this.getPriceSnapshot(product, variantId);
+
+    // Validar el stock contra la cantidad total que quedaría en el carrito
+    // (no se usa upsert porque variantId es nullable dentro de la clave única)
+    const existingItem = await this.prisma.cartItem.findFirst({
+      where: {
+        userId,
+        productId: addToCartDto.productId,
+        variantId,
+      },
+    });
+    await this.inventoryService.assertAvailable(
+      product.id,
+      (existingItem?.quantity ?? 0) + addToCartDto.quantity,
+      variantId,
+    );
+
+    if (existingItem) {
+      return this.prisma.cartItem.update({
+        where: { id: existingItem.id },
+        data: {
           quantity: {
             increment: addToCartDto.quantity,
           },
+          priceSnapshot,
         },
-        create: {
+        include,
+      });
+    }
+
+    try {
+      return await this.prisma.cartItem.create({
+        data: {
           userId,
           productId: addToCartDto.productId,
+          variantId,
           quantity: addToCartDto.quantity,
+          priceSnapshot,
         },
-        include: {
-          product: {
-            include: {
-              images: {
-                orderBy: {
-                  order: 'asc',
-                },
-                take: 1,
-              },
-            },
-          },
-        },
+        include,
       });
     } catch (error) {
-      // Si hay un error de restricción única (condición de carrera), intentar actualizar
+      // Si hay un error de restricción única (condición de carrera), actualizar el existente
       if (
         error instanceof Prisma.PrismaClientKnownRequestError &&
         error.code === 'P2002'
       ) {
-        // El item ya existe, actualizarlo directamente
-        return await this.prisma.cartItem.update({
+        const concurrentItem = await this.prisma.cartItem.findFirstOrThrow({
           where: {
-            userId_productId: {
-              userId,
-              productId: addToCartDto.productId,
-            },
+            userId,
+            productId: addToCartDto.productId,
+            variantId,
           },
+        });
+        return await this.prisma.cartItem.update({
+          where: { id: concurrentItem.id },
           data: {
             quantity: {
               increment: addToCartDto.quantity,
             },
+            priceSnapshot,
           },
-          include: {
-            product: {
-              include: {
-                images: {
-                  orderBy: {
-                    order: 'asc',
-                  },
-                  take: 1,
-                },
-              },
-            },
-          },
+          include,
         });
       }
       // Si hay un error de clave foránea (usuario no existe), lanzar error más claro
@@ -144,6 +202,12 @@ export class CartService {
       throw new NotFoundException('Item del carrito no encontrado');
     }
 
+    await this.inventoryService.assertAvailable(
+      item.productId,
+      updateCartItemDto.quantity,
+      item.variantId,
+    );
+
     // item.id is guaranteed to be non-null after findFirst check
     return this.prisma.cartItem.update({
       where: { id },
@@ -159,6 +223,7 @@ export class CartService {
             },
           },
         },
+        variant: true,
       },
     });
   }
@@ -177,7 +242,475 @@ export class CartService {
     });
   }
 
-  clearCart(userId: string) {
+  /**
+   * Cambios del carrito desde que se agregaron los productos: precios que
+   * subieron o bajaron, stock insuficiente y productos discontinuados.
+   * Mientras haya cambios no se puede crear la orden.
+   */
+  async findChanges(userId: string) {
+    const items = await this.prisma.cartItem.findMany({
+      where: { userId },
+      include: cartChangesInclude,
+    });
+    const changes = detectCartChanges(items);
+
+    return { hasChanges: changes.length > 0, changes };
+  }
+
+  /**
+   * Acepta los cambios del carrito (ver acceptItemChanges) y devuelve los
+   * cambios aceptados con el carrito actualizado.
+   */
+  async acknowledgeChanges(userId: string) {
+    const items = await this.prisma.cartItem.findMany({
+      where: { userId },
+      include: cartChangesInclude,
+    });
+
+    const changes = await this.acceptItemChanges(
+      items,
+      (id, data) => this.prisma.cartItem.update({ where: { id }, data }),
+      (id) => this.prisma.cartItem.delete({ where: { id } }),
+    );
+
+    return {
+      message: 'Cambios del carrito aceptados',
+      data: { changes, items: await this.findAll(userId) },
+    };
+  }
+
+  /**
+   * Aplica los cambios aceptados por el usuario: los productos discontinuados
+   * o sin stock se quitan, la cantidad se ajusta al stock disponible y el
+   * precio guardado pasa a ser el actual.
+   */
+  private async acceptItemChanges(
+    items: CartItemForChanges[],
+    updateItem: (
+      id: string,
+      data: { priceSnapshot: number; quantity?: number },
+    ) => Promise<unknown>,
+    removeItem: (id: string) => Promise<unknown>,
+  ): Promise<CartChange[]> {
+    const accepted: CartChange[] = [];
+
+    for (const item of items) {
+      const changes = detectCartItemChanges(item);
+      accepted.push(...changes);
+
+      const discontinued = changes.some((c) => c.type === 'discontinued');
+      const unavailable = changes.find((c) => c.type === 'unavailable');
+
+      if (discontinued || (unavailable && unavailable.availableStock <= 0)) {
+        await removeItem(item.id);
+      } else if (changes.length > 0 || item.priceSnapshot == null) {
+        await updateItem(item.id, {
+          priceSnapshot: getCurrentItemPrice(item),
+          quantity: unavailable?.availableStock,
+        });
+      }
+    }
+
+    return accepted;
+  }
+
+  /**
+   * Precio final unitario actual de un producto (o de la variante elegida),
+   * que se guarda en el item para detectar cambios de precio.
+   */
+  private async getPriceSnapshot(
+    product: {
+      price: number | { toNumber(): number };
+      discount: number | { toNumber(): number } | null;
+    },
+    variantId: string | null,
+  ) {
+    const variant = variantId
+      ? await this.prisma.productVariant.findUnique({
+          where: { id: variantId },
+          select: { price: true },
+        })
+      : null;
+
+    return roundAmount(
+      calculateFinalPrice(variant?.price ?? product.price, product.discount),
+    );
+  }
+
+  /**
+   * Valida la variante elegida para un producto.
+   * Devuelve null si el producto no maneja variantes.
+   */
+  private async resolveVariantId(
+    productId: string,
+    variantId?: string,
+  ): Promise<string | null> {
+    const activeVariants = await this.prisma.productVariant.count({
+      where: { productId, isActive: true },
+    });
+
+    if (!variantId) {
+      if (activeVariants > 0) {
+        throw new BadRequestException(
+          'Debes seleccionar una variante del producto',
+        );
+      }
+      return null;
+    }
+
+    const variant = await this.prisma.productVariant.findFirst({
+      where: { id: variantId, productId, isActive: true },
+    });
+
+    if (!variant) {
+      throw new NotFoundException('Variante de producto no encontrada');
+    }
+
+    return variant.id;
+  }
+
+  // ============================================
+  // CARRITO DE INVITADO
+  // ============================================
+
+  /**
+   * Crea un carrito de invitado y devuelve el token firmado que lo identifica.
+   * El token se envía en el header X-Guest-Token o en la cookie guestCartToken.
+   */
+  async createGuestCart() {
+    const guestCart = await this.prisma.guestCart.create({ data: {} });
+
+    const token = await this.jwtService.signAsync(
+      { sub: guestCart.id, type: GUEST_CART_TOKEN_TYPE },
+      {
+        secret: getGuestTokenSecret(this.configService),
+        expiresIn: (this.configService.get<string>('GUEST_CART_EXPIRES_IN') ||
+          '30d') as StringValue,
+      },
+    );
+
+    return { guestCartId: guestCart.id, token };
+  }
+
+  /**
+   * Valida el token de un carrito de invitado y devuelve el id del carrito.
+   *
+   * @throws UnauthorizedException si el token no es válido, expiró o el
+   * carrito ya no existe (ej: se usó en una compra)
+   */
+  async resolveGuestCart(token?: string): Promise<string> {
+    if (!token) {
+      throw new UnauthorizedException('Falta el token del carrito de invitado');
+    }
+
+    const guestCartId = await verifyGuestCartToken(
+      this.jwtService,
+      this.configService,
+      token,
+    );
+    const guestCart = guestCartId
+      ? await this.prisma.guestCart.findUnique({ where: { id: guestCartId } })
+      : null;
+
+    if (!guestCart) {
+      throw new UnauthorizedException(
+        'El carrito de invitado no es válido o expiró',
+      );
+    }
+
+    return guestCart.id;
+  }
+
+  /**
+   * Items del carrito de invitado y su subtotal con los precios actuales.
+   * El envío, los impuestos y los cupones se calculan al finalizar la compra.
+   */
+  async findGuestCart(guestCartId: string) {
+    const items = await this.prisma.guestCartItem.findMany({
+      where: { guestCartId },
+      include: {
+        product: {
+          include: {
+            images: {
+              orderBy: {
+                order: 'asc',
+              },
+              take: 1,
+            },
+            category: true,
+            subcategory: true,
+          },
+        },
+        variant: true,
+      },
+      orderBy: {
+        createdAt: 'desc',
+      },
+    });
+
+    const subtotal = items.reduce(
+      (sum, item) => sum + calculateCartItemPrice(item) * item.quantity,
+      0,
+    );
+
+    return { items, subtotal: roundAmount(subtotal) };
+  }
+
+  async addToGuestCart(guestCartId: string, addToCartDto: AddToCartDto) {
+    const product = await this.prisma.product.findUnique({
+      where: { id: addToCartDto.productId },
+    });
+
+    if (!product) {
+      throw new NotFoundException('Producto no encontrado');
+    }
+
+    const variantId = await this.resolveVariantId(
+      product.id,
+      addToCartDto.variantId,
+    );
+
+    const priceSnapshot = await this.getPriceSnapshot(product, variantId);
+    const existingItem = await this.prisma.guestCartItem.findFirst({
+      where: { guestCartId, productId: product.id, variantId },
+    });
+    await this.inventoryService.assertAvailable(
+      product.id,
+      (existingItem?.quantity ?? 0) + addToCartDto.quantity,
+      variantId,
+    );
+
+    if (existingItem) {
+      return this.prisma.guestCartItem.update({
+        where: { id: existingItem.id },
+        data: {
+          quantity: { increment: addToCartDto.quantity },
+          priceSnapshot,
+        },
+        include: cartItemInclude,
+      });
+    }
+
+    try {
+      return await this.prisma.guestCartItem.create({
+        data: {
+          guestCartId,
+          productId: product.id,
+          variantId,
+          quantity: addToCartDto.quantity,
+          priceSnapshot,
+        },
+        include: cartItemInclude,
+      });
+    } catch (error) {
+      // Condición de carrera: otro request agregó el mismo item
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2002'
+      ) {
+        const concurrentItem = await this.prisma.guestCartItem.findFirstOrThrow(
+          {
+            where: { guestCartId, productId: product.id, variantId },
+          },
+        );
+        return this.prisma.guestCartItem.update({
+          where: { id: concurrentItem.id },
+          data: {
+            quantity: { increment: addToCartDto.quantity },
+            priceSnapshot,
+          },
+          include: cartItemInclude,
+        });
+      }
+      throw error;
+    }
+  }
+
+  async updateGuestItem(
+    id: string,
+    guestCartId: string,
+    updateCartItemDto: UpdateCartItemDto,
+  ) {
+    const item = await this.prisma.guestCartItem.findFirst({
+      where: { id, guestCartId },
+    });
+
+    if (!item) {
+      throw new NotFoundException('Item del carrito no encontrado');
+    }
+
+    await this.inventoryService.assertAvailable(
+      item.productId,
+      updateCartItemDto.quantity,
+      item.variantId,
+    );
+
+    return this.prisma.guestCartItem.update({
+      where: { id },
+      data: updateCartItemDto,
+      include: cartItemInclude,
+    });
+  }
+
+  async removeGuestItem(id: string, guestCartId: string) {
+    const item = await this.prisma.guestCartItem.findFirst({
+      where: { id, guestCartId },
+    });
+
+    if (!item) {
+      throw new NotFoundException('Item del carrito no encontrado');
+    }
+
+    return this.prisma.guestCartItem.delete({
+      where: { id },
+    });
+  }
+
+  /**
+   * Cambios del carrito de invitado (ver findChanges).
+   */
+  async findGuestChanges(guestCartId: string) {
+    const items = await this.prisma.guestCartItem.findMany({
+      where: { guestCartId },
+      include: cartChangesInclude,
+    });
+    const changes = detectCartChanges(items);
+
+    return { hasChanges: changes.length > 0, changes };
+  }
+
+  /**
+   * Acepta los cambios del carrito de invitado (ver acknowledgeChanges).
+   */
+  async acknowledgeGuestChanges(guestCartId: string) {
+    const items = await this.prisma.guestCartItem.findMany({
+      where: { guestCartId },
+      include: cartChangesInclude,
+    });
+
+    const changes = await this.acceptItemChanges(
+      items,
+      (id, data) => this.prisma.guestCartItem.update({ where: { id }, data }),
+      (id) => this.prisma.guestCartItem.delete({ where: { id } }),
+    );
+
+    return {
+      message: 'Cambios del carrito aceptados',
+      data: { changes, ...(await this.findGuestCart(guestCartId)) },
+    };
+  }
+
+  /**
+   * Pasa los items del carrito de invitado al carrito del usuario
+   * (ver mergeGuestCart en guest-cart.helper).
+   */
+  mergeGuestCart(guestCartId: string, userId: string) {
+    return mergeGuestCart(this.prisma, guestCartId, userId);
+  }
+
+  async deleteGuestCart(guestCartId: string) {
+    await this.prisma.guestCart.deleteMany({
+      where: { id: guestCartId },
+    });
+  }
+
+  /**
+   * Restaura el carrito desde el link de un recordatorio de carrito
+   * abandonado: vuelve a agregar los items del recordatorio que ya no están
+   * en el carrito, salvo los productos discontinuados. Conservan el precio
+   * con el que se habían agregado, así los cambios se informan antes de pagar.
+   *
+   * El link vence a los CART_RECOVERY_LINK_TTL_DAYS días de enviado y solo
+   * puede usarse una vez.
+   */
+  async restoreFromRecovery(token: string) {
+    const recovery = await this.prisma.cartRecoveryEmail.findUnique({
+      where: { token },
+    });
+
+    if (!recovery) {
+      throw new NotFoundException(
+        'El link para recuperar el carrito no es válido',
+      );
+    }
+
+    const ttlDays =
+      Number(this.configService.get<string>('CART_RECOVERY_LINK_TTL_DAYS')) ||
+      DEFAULT_RECOVERY_LINK_TTL_DAYS;
+    if (
+      recovery.sentAt.getTime() + ttlDays * 24 * 60 * 60 * 1000 <
+      Date.now()
+    ) {
+      throw new BadRequestException('El link para recuperar el carrito expiró');
+    }
+
+    const items = recovery.items as unknown as CartRecoveryItem[];
+    let restoredItems = 0;
+
+    await this.prisma.$transaction(async (tx) => {
+      // Consumir el link antes de restaurar: dos usos simultáneos no pasan
+      const consumed = await tx.cartRecoveryEmail.updateMany({
+        where: { id: recovery.id, restoredAt: null },
+        data: { restoredAt: new Date() },
+      });
+
+      if (consumed.count === 0) {
+        throw new BadRequestException(
+          'El link para recuperar el carrito ya se usó',
+        );
+      }
+
+      for (const item of items) {
+        const existingItem = await tx.cartItem.findFirst({
+          where: {
+            userId: recovery.userId,
+            productId: item.productId,
+            variantId: item.variantId,
+          },
+        });
+        const product = await tx.product.findFirst({
+          where: { id: item.productId, isActive: true },
+          select: { id: true },
+        });
+        const variant = item.variantId
+          ? await tx.productVariant.findFirst({
+              where: { id: item.variantId, isActive: true },
+              select: { id: true },
+            })
+          : null;
+
+        if (existingItem || !product || (item.variantId && !variant)) {
+          continue;
+        }
+
+        await tx.cartItem.create({
+          data: {
+            userId: recovery.userId,
+            productId: item.productId,
+            variantId: item.variantId,
+            quantity: item.quantity,
+            priceSnapshot: item.priceSnapshot,
+          },
+        });
+        restoredItems++;
+      }
+    });
+
+    return {
+      message:
+        restoredItems > 0
+          ? 'Carrito restaurado exitosamente'
+          : 'Tu carrito ya tiene los productos del recordatorio',
+      data: { restoredItems },
+    };
+  }
+
+  async clearCart(userId: string) {
+    // Un carrito vacío no conserva el cupón aplicado
+    await this.prisma.cartCoupon.deleteMany({
+      where: { userId },
+    });
+
     return this.prisma.cartItem.deleteMany({
       where: { userId },
     });
@@ -0,0 +1,21 @@
+import { createParamDecorator, ExecutionContext } from '@nestjs/common';
+import type { Request } from 'express';
+
+export const GUEST_CART_HEADER = 'x-guest-token';
+export const GUEST_CART_COOKIE = 'guestCartToken';
+
+/**
+ * Token del carrito de invitado: header X-Guest-Token o cookie guestCartToken.
+ * No lo valida; ver CartService.resolveGuestCart.
+ */
+export const GuestCartToken = createParamDecorator(
+  (data: unknown, ctx: ExecutionContext): string | undefined => {
+    const request = ctx.switchToHttp().getRequest<Request>();
+    const header = request.headers[GUEST_CART_HEADER];
+
+    return (
+      (typeof header === 'string' ? header : undefined) ||
+      (request.cookies?.[GUEST_CART_COOKIE] as string | undefined)
+    );
+  },
+);
@@ -1,10 +1,17 @@
-import { IsNotEmpty, IsUUID, IsNumber, Min } from 'class-validator';
+import { IsNotEmpty, IsUUID, IsNumber, Min, IsOptional } from 'class-validator';
 
 export class AddToCartDto {
   @IsUUID()
   @IsNotEmpty()
   productId: string;
 
+  /**
+   * Variante elegida. Obligatoria si el producto tiene variantes activas.
+   */
+  @IsUUID()
+  @IsOptional()
+  variantId?: string;
+
   @IsNumber()
   @Min(1)
   quantity: number;
@@ -0,0 +1,171 @@
+import { ConflictException } from '@nestjs/common';
+import { PrismaService } from '../../prisma/prisma.service.js';
+import { calculateFinalPrice } from '../../payments/helpers/cart.helper.js';
+import { roundAmount } from '../../coupons/helpers/coupon.helper.js';
+
+/**
+ * Helper de cambios del carrito.
+ * Compara cada item con el precio que tenía al agregarse (priceSnapshot) y
+ * con el stock y el estado actuales del producto. Lo usan CartService, la
+ * compra como invitado y la creación de la orden, que no avanza mientras el
+ * usuario no acepte los cambios.
+ */
+
+export type CartChangeType =
+  | 'price_increased'
+  | 'price_decreased'
+  | 'unavailable'
+  | 'discontinued';
+
+/**
+ * Cambio de un item del carrito desde que se agregó.
+ */
+export interface CartChange {
+  type: CartChangeType;
+  cartItemId: string;
+  productId: string;
+  variantId: string | null;
+  productName: string;
+  quantity: number;
+  /** Precio final unitario al agregarse; null si no se guardó */
+  previousPrice: number | null;
+  currentPrice: number;
+  availableStock: number;
+}
+
+type Decimalish = number | { toNumber(): number };
+
+/**
+ * Datos de un item del carrito (de usuario o de invitado) necesarios para
+ * detectar cambios.
+ */
+export interface CartItemForChanges {
+  id: string;
+  productId: string;
+  variantId: string | null;
+  quantity: number;
+  priceSnapshot: Decimalish | null;
+  product: {
+    name: string;
+    price: Decimalish;
+    discount: Decimalish | null;
+    isActive: boolean;
+    stock: number;
+  };
+  variant: {
+    price: Decimalish | null;
+    isActive: boolean;
+    stock: number;
+  } | null;
+}
+
+// Include para cargar los items con los datos que usa detectCartChanges
+export const cartChangesInclude = {
+  product: {
+    select: {
+      name: true,
+      price: true,
+      discount: true,
+      isActive: true,
+      stock: true,
+    },
+  },
+  variant: {
+    select: { price: true, isActive: true, stock: true },
+  },
+};
+
+/**
+ * Precio final unitario actual de un item, redondeado como el precio guardado.
+ */
+export function getCurrentItemPrice(
+  item: Pick<CartItemForChanges, 'product' | 'variant'>,
+): number {
+  return roundAmount(
+    calculateFinalPrice(
+      item.variant?.price ?? item.product.price,
+      item.product.discount,
+    ),
+  );
+}
+
+/**
+ * Cambios de un item del carrito.
+ * Un producto o variante desactivados solo informan `discontinued`. Los
+ * items sin precio guardado (agregados antes de guardarlo) no informan
+ * cambios de precio.
+ */
+export function detectCartItemChanges(item: CartItemForChanges): CartChange[] {
+  const currentPrice = getCurrentItemPrice(item);
+  const previousPrice =
+    item.priceSnapshot == null ? null : Number(item.priceSnapshot);
+  const availableStock = item.variant?.stock ?? item.product.stock;
+
+  const change = (type: CartChangeType): CartChange => ({
+    type,
+    cartItemId: item.id,
+    productId: item.productId,
+    variantId: item.variantId,
+    productName: item.product.name,
+    quantity: item.quantity,
+    previousPrice,
+    currentPrice,
+    availableStock,
+  });
+
+  if (!item.product.isActive || (item.variant && !item.variant.isActive)) {
+    return [change('discontinued')];
+  }
+
+  const changes: CartChange[] = [];
+
+  if (previousPrice !== null && currentPrice > previousPrice) {
+    changes.push(change('price_increased'));
+  } else if (previousPrice !== null && currentPrice < previousPrice) {
+    changes.push(change('price_decreased'));
+  }
+
+  if (availableStock < item.quantity) {
+    changes.push(change('unavailable'));
+  }
+
+  return changes;
+}
+
+export function detectCartChanges(items: CartItemForChanges[]): CartChange[] {
+  return items.flatMap((item) => detectCartItemChanges(item));
+}
+
+/**
+ * Impide continuar con la compra si el carrito tiene cambios sin aceptar.
+ *
+ * @throws ConflictException con la lista de cambios
+ */
+export function assertNoCartChanges(changes: CartChange[]) {
+  if (changes.length > 0) {
+    throw new ConflictException({
+      message:
+        'Hay cambios en tu carrito desde que agregaste los productos. Revísalos y acéptalos para continuar.',
+      error: 'Conflict',
+      statusCode: 409,
+      changes,
+    });
+  }
+}
+
+/**
+ * Impide crear una orden o cobrar desde el carrito del usuario mientras
+ * tenga cambios sin aceptar (ver CartService.acknowledgeChanges).
+ *
+ * @throws ConflictException con la lista de cambios
+ */
+export async function assertCartUnchanged(
+  prisma: PrismaService,
+  userId: string,
+): Promise<void> {
+  const cartItems = await prisma.cartItem.findMany({
+    where: { userId },
+    include: cartChangesInclude,
+  });
+  assertNoCartChanges(detectCartChanges(cartItems));
+}
@@ -0,0 +1,95 @@
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { PrismaService } from '../../prisma/prisma.service.js';
+import { getGuestTokenSecret } from '../../common/helpers/guest-token.helper.js';
+
+/**
+ * Helper del carrito anónimo (carrito de invitado).
+ * Lo usan CartService y el login, que pasa el carrito anónimo al carrito
+ * del usuario al iniciar sesión.
+ */
+
+// Tipo de token del carrito de invitado (distingue de otros tokens firmados)
+export const GUEST_CART_TOKEN_TYPE = 'guest-cart';
+
+/**
+ * Obtiene el id del carrito de un token de carrito de invitado.
+ *
+ * @returns null si no hay token, no es válido o expiró
+ */
+export async function verifyGuestCartToken(
+  jwtService: JwtService,
+  configService: ConfigService,
+  token?: string,
+): Promise<string | null> {
+  if (!token) {
+    return null;
+  }
+
+  try {
+    const payload = await jwtService.verifyAsync<{
+      sub?: string;
+      type?: string;
+    }>(token, { secret: getGuestTokenSecret(configService) });
+
+    return payload.type === GUEST_CART_TOKEN_TYPE && payload.sub
+      ? payload.sub
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Pasa los items del carrito de invitado al carrito del usuario. Si el
+ * usuario ya tenía el producto (con la misma variante) se suman las
+ * cantidades en su CartItem, que conserva el precio con el que se agregó
+ * primero. El stock se valida al crear la orden.
+ * El carrito de invitado no se elimina.
+ *
+ * @returns Cantidad de items pasados al carrito del usuario
+ */
+export async function mergeGuestCart(
+  prisma: PrismaService,
+  guestCartId: string,
+  userId: string,
+): Promise<number> {
+  const guestItems = await prisma.guestCartItem.findMany({
+    where: { guestCartId },
+  });
+
+  await prisma.$transaction(async (tx) => {
+    for (const item of guestItems) {
+      // No se usa upsert porque variantId es nullable dentro de la clave única
+      const existingItem = await tx.cartItem.findFirst({
+        where: {
+          userId,
+          productId: item.productId,
+          variantId: item.variantId,
+        },
+      });
+
+      if (existingItem) {
+        await tx.cartItem.update({
+          where: { id: existingItem.id },
+          data: {
+            quantity: { increment: item.quantity },
+            priceSnapshot: existingItem.priceSnapshot ?? item.priceSnapshot,
+          },
+        });
+      } else {
+        await tx.cartItem.create({
+          data: {
+            userId,
+            productId: item.productId,
+            variantId: item.variantId,
+            quantity: item.quantity,
+            priceSnapshot: item.priceSnapshot,
+          },
+        });
+      }
+    }
+  });
+
+  return guestItems.length;
+}
@@ -0,0 +1,11 @@
+/**
+ * Item del carrito guardado en un recordatorio de carrito abandonado, para
+ * restaurarlo desde el link del email.
+ */
+export interface CartRecoveryItem {
+  productId: string;
+  variantId: string | null;
+  quantity: number;
+  /** Precio final unitario con el que se había agregado */
+  priceSnapshot: number | null;
+}
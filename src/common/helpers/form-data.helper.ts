@@ -0,0 +1,99 @@
+/**
+ * Helpers para DTOs que se reciben por multipart/form-data.
+ * En FormData los campos compuestos (arrays de objetos) llegan como JSON serializado.
+ */
+import { BadRequestException } from '@nestjs/common';
+import { plainToInstance, type ClassConstructor } from 'class-transformer';
+import { validate } from 'class-validator';
+
+/**
+ * Crea una función para `@Transform` que parsea un array enviado como JSON
+ * y convierte cada elemento a la clase DTO indicada para que `@ValidateNested`
+ * pueda validarlo.
+ * @param dtoClass Clase DTO de los elementos del array
+ */
+export function parseJsonArrayOf<T>(dtoClass: ClassConstructor<T>) {
+  return ({ value }: { value: unknown }): unknown => {
+    let parsed = value;
+    if (typeof value === 'string') {
+      try {
+        parsed = JSON.parse(value);
+      } catch {
+        return value;
+      }
+    }
+
+    if (!Array.isArray(parsed)) {
+      return parsed;
+    }
+
+    return plainToInstance(dtoClass, parsed, {
+      enableImplicitConversion: true,
+    });
+  };
+}
+
+/**
+ * Parsea un campo enviado como JSON serializado. Los valores que no son
+ * string se devuelven sin cambios.
+ * @param value Valor recibido en el body
+ * @param field Nombre del campo, para el mensaje de error
+ * @throws BadRequestException si el JSON es inválido
+ */
+export function parseJsonField(value: unknown, field: string): unknown {
+  if (typeof value !== 'string') {
+    return value;
+  }
+
+  try {
+    return JSON.parse(value);
+  } catch {
+    throw new BadRequestException(`El campo ${field} debe ser un JSON válido`);
+  }
+}
+
+/**
+ * Parsea un array de objetos enviado como JSON serializado y valida cada
+ * elemento con la clase DTO indicada. Para los bodies que no pasan por el
+ * ValidationPipe (ej: se arman a mano en el controlador).
+ * @param value Valor recibido en el body
+ * @param field Nombre del campo, para los mensajes de error
+ * @param dtoClass Clase DTO de los elementos del array
+ * @throws BadRequestException si el JSON es inválido, no es un array o algún
+ * elemento no cumple las validaciones del DTO
+ */
+export async function parseJsonArrayField<T extends object>(
+  value: unknown,
+  field: string,
+  dtoClass: ClassConstructor<T>,
+): Promise<T[] | undefined> {
+  const parsed = parseJsonField(value, field);
+
+  if (parsed === undefined || parsed === null) {
+    return undefined;
+  }
+
+  if (!Array.isArray(parsed)) {
+    throw new BadRequestException(`El campo ${field} debe ser un array`);
+  }
+
+  const items = plainToInstance(dtoClass, parsed as object[], {
+    enableImplicitConversion: true,
+  });
+  const messages: string[] = [];
+
+  for (const [index, item] of items.entries()) {
+    const errors = await validate(item);
+    for (const error of errors) {
+      for (const constraint of Object.values(error.constraints ?? {})) {
+        messages.push(`${field}.${index}.${constraint}`);
+      }
+    }
+  }
+
+  if (messages.length > 0) {
+    throw new BadRequestException(messages);
+  }
+
+  return items;
+}
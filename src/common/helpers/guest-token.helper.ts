@@ -0,0 +1,20 @@
+import { ConfigService } from '@nestjs/config';
+
+/**
+ * Helper para los tokens de invitado (carrito y link del pedido).
+ * Se firman con GUEST_TOKEN_SECRET, distinto de JWT_SECRET, para que no
+ * sirvan como tokens de sesión.
+ */
+
+/**
+ * Clave con la que se firman los tokens de invitado.
+ */
+export function getGuestTokenSecret(configService: ConfigService): string {
+  const secret = configService.get<string>('GUEST_TOKEN_SECRET');
+
+  if (!secret) {
+    throw new Error('GUEST_TOKEN_SECRET is not configured');
+  }
+
+  return secret;
+}
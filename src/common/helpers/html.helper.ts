@@ -0,0 +1,10 @@
+/**
+ * Escapa un texto para incluirlo en el HTML de un email.
+ */
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
@@ -0,0 +1,52 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  UseGuards,
+  Query,
+} from '@nestjs/common';
+import { CouponsService } from './coupons.service.js';
+import { CreateCouponDto } from './dto/create-coupon.dto.js';
+import { UpdateCouponDto } from './dto/update-coupon.dto.js';
+import { AdminGuard } from '../auth/guards/admin.guard.js';
+
+@Controller('coupons')
+@UseGuards(AdminGuard)
+export class CouponsController {
+  constructor(private readonly couponsService: CouponsService) {}
+
+  @Post()
+  create(@Body() createCouponDto: CreateCouponDto) {
+    return this.couponsService.create(createCouponDto);
+  }
+
+  @Get()
+  findAll(
+    @Query('search') search?: string,
+    @Query('page') page?: string,
+    @Query('limit') limit?: string,
+  ) {
+    const pageNumber = page ? parseInt(page, 10) : 1;
+    const limitNumber = limit ? parseInt(limit, 10) : 10;
+    return this.couponsService.findAll(search, pageNumber, limitNumber);
+  }
+
+  @Get(':id')
+  findOne(@Param('id') id: string) {
+    return this.couponsService.findOne(id);
+  }
+
+  @Patch(':id')
+  update(@Param('id') id: string, @Body() updateCouponDto: UpdateCouponDto) {
+    return this.couponsService.update(id, updateCouponDto);
+  }
+
+  @Delete(':id')
+  remove(@Param('id') id: string) {
+    return this.couponsService.remove(id);
+  }
+}
@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { CouponsService } from './coupons.service.js';
+import { CouponsController } from './coupons.controller.js';
+import { PrismaModule } from '../prisma/prisma.module.js';
+import { AuthModule } from '../auth/auth.module.js';
+import { UsersModule } from '../users/users.module.js';
+
+@Module({
+  imports: [PrismaModule, AuthModule, UsersModule],
+  controllers: [CouponsController],
+  providers: [CouponsService],
+  exports: [CouponsService],
+})
+export class CouponsModule {}
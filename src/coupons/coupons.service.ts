@@ -0,0 +1,326 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+} from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service.js';
+import { CreateCouponDto } from './dto/create-coupon.dto.js';
+import { UpdateCouponDto } from './dto/update-coupon.dto.js';
+import { CouponType } from '../generated/enums.js';
+import type { Prisma } from '../generated/client.js';
+import { createPaginationResponse } from '../common/helpers/pagination.helper.js';
+import {
+  assertCouponUsable,
+  couponScopeInclude,
+  normalizeCouponCode,
+} from './helpers/coupon.helper.js';
+import {
+  calculateCartTotal,
+  type CartTotal,
+} from '../payments/helpers/cart.helper.js';
+
+/**
+ * Servicio de cupones.
+ * Responsabilidad única: administrar los códigos promocionales, aplicarlos
+ * al carrito y registrar su uso en las órdenes.
+ */
+@Injectable()
+export class CouponsService {
+  constructor(private prisma: PrismaService) {}
+
+  async create(createCouponDto: CreateCouponDto) {
+    const { categoryIds, productIds, ...data } = createCouponDto;
+    const code = normalizeCouponCode(data.code);
+
+    this.assertValidCouponValue(data.type, data.value);
+    this.assertValidDates(data.startsAt, data.expiresAt);
+
+    const existing = await this.prisma.coupon.findUnique({
+      where: { code },
+    });
+
+    if (existing) {
+      throw new ConflictException(`Ya existe un cupón con el código ${code}`);
+    }
+
+    return this.prisma.coupon.create({
+      data: {
+        ...data,
+        code,
+        categories: {
+          connect: (categoryIds || []).map((id) => ({ id })),
+        },
+        products: {
+          connect: (productIds || []).map((id) => ({ id })),
+        },
+      },
+      include: couponScopeInclude,
+    });
+  }
+
+  async findAll(search?: string, page: number = 1, limit: number = 10) {
+    const where = search
+      ? { code: { contains: search, mode: 'insensitive' as const } }
+      : {};
+    const skip = (page - 1) * limit;
+
+    const [coupons, total] = await Promise.all([
+      this.prisma.coupon.findMany({
+        where,
+        include: couponScopeInclude,
+        orderBy: { createdAt: 'desc' },
+        skip,
+        take: limit,
+      }),
+      this.prisma.coupon.count({ where }),
+    ]);
+
+    return createPaginationResponse(coupons, total, page, limit);
+  }
+
+  async findOne(id: string) {
+    const coupon = await this.prisma.coupon.findUnique({
+      where: { id },
+      include: {
+        ...couponScopeInclude,
+        _count: { select: { redemptions: true } },
+      },
+    });
+
+    if (!coupon) {
+      throw new NotFoundException(`Cupón con id ${id} no encontrado`);
+    }
+
+    return coupon;
+  }
+
+  async update(id: string, updateCouponDto: UpdateCouponDto) {
+    const coupon = await this.findOne(id);
+    const { categoryIds, productIds, ...data } = updateCouponDto;
+
+    this.assertValidCouponValue(
+      data.type ?? coupon.type,
+      data.value ?? Number(coupon.value),
+    );
+    this.assertValidDates(
+      data.startsAt ?? coupon.startsAt ?? undefined,
+      data.expiresAt ?? coupon.expiresAt ?? undefined,
+    );
+
+    if (data.code) {
+      data.code = normalizeCouponCode(data.code);
+
+      if (data.code !== coupon.code) {
+        const existing = await this.prisma.coupon.findUnique({
+          where: { code: data.code },
+        });
+
+        if (existing) {
+          throw new ConflictException(
+            `Ya existe un cupón con el código ${data.code}`,
+          );
+        }
+      }
+    }
+
+    return this.prisma.coupon.update({
+      where: { id },
+      data: {
+        ...data,
+        ...(categoryIds && {
+          categories: {
+            set: categoryIds.map((categoryId) => ({ id: categoryId })),
+          },
+        }),
+        ...(productIds && {
+          products: { set: productIds.map((productId) => ({ id: productId })) },
+        }),
+      },
+      include: couponScopeInclude,
+    });
+  }
+
+  async remove(id: string) {
+    const coupon = await this.findOne(id);
+
+    // Los cupones ya usados se desactivan para conservar el historial de órdenes
+    if (coupon._count.redemptions > 0) {
+      await this.prisma.coupon.update({
+        where: { id },
+        data: { isActive: false },
+      });
+      return {
+        message: 'El cupón tiene usos registrados, por lo que fue desactivado',
+      };
+    }
+
+    await this.prisma.coupon.delete({
+      where: { id },
+    });
+
+    return { message: 'Cupón eliminado exitosamente' };
+  }
+
+  /**
+   * Aplica un cupón al carrito del usuario y devuelve el total recalculado.
+   * Si el cupón no es válido para el carrito actual, no se guarda.
+   */
+  async applyToCart(userId: string, code: string): Promise<CartTotal> {
+    const coupon = await this.prisma.coupon.findUnique({
+      where: { code: normalizeCouponCode(code) },
+      include: couponScopeInclude,
+    });
+
+    if (!coupon) {
+      throw new NotFoundException('Cupón no encontrado');
+    }
+
+    await assertCouponUsable(this.prisma, coupon, userId);
+
+    const previous = await this.prisma.cartCoupon.findUnique({
+      where: { userId },
+    });
+
+    await this.prisma.cartCoupon.upsert({
+      where: { userId },
+      update: { couponId: coupon.id },
+      create: { userId, couponId: coupon.id },
+    });
+
+    try {
+      // Calcula el total con el cupón nuevo; lanza si no aplica al carrito
+      return await calculateCartTotal(this.prisma, userId);
+    } catch (error) {
+      // Restaurar el cupón anterior para no dejar uno inválido en el carrito
+      if (previous) {
+        await this.prisma.cartCoupon.update({
+          where: { userId },
+          data: { couponId: previous.couponId },
+        });
+      } else {
+        await this.prisma.cartCoupon.deleteMany({ where: { userId } });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Quita el cupón del carrito y devuelve el total recalculado.
+   */
+  async removeFromCart(userId: string) {
+    await this.prisma.cartCoupon.deleteMany({
+      where: { userId },
+    });
+
+    const itemsCount = await this.prisma.cartItem.count({
+      where: { userId },
+    });
+
+    if (itemsCount === 0) {
+      return { message: 'Cupón removido del carrito' };
+    }
+
+    return calculateCartTotal(this.prisma, userId);
+  }
+
+  /**
+   * Registra el uso del cupón del carrito en una orden dentro de una transacción.
+   * El incremento de usos es condicional para que dos compras simultáneas
+   * no puedan superar el límite global del cupón.
+   *
+   * @param tx Cliente de la transacción en curso
+   * @param orderId Orden creada con el cupón
+   * @param userId Usuario que realiza la compra
+   * @param cartTotal Total calculado del carrito (incluye el cupón aplicado)
+   */
+  async redeemForOrder(
+    tx: Prisma.TransactionClient,
+    orderId: string,
+    userId: string,
+    cartTotal: CartTotal,
+  ): Promise<void> {
+    if (!cartTotal.coupon) {
+      return;
+    }
+
+    const coupon = await tx.coupon.findUniqueOrThrow({
+      where: { id: cartTotal.coupon.id },
+      include: couponScopeInclude,
+    });
+
+    await assertCouponUsable(tx, coupon, userId);
+
+    const claimed = await tx.coupon.updateMany({
+      where: {
+        id: coupon.id,
+        OR: [
+          { maxUses: null },
+          { usedCount: { lt: tx.coupon.fields.maxUses } },
+        ],
+      },
+      data: { usedCount: { increment: 1 } },
+    });
+
+    if (claimed.count === 0) {
+      throw new BadRequestException(
+        `El cupón ${coupon.code} alcanzó su límite de usos`,
+      );
+    }
+
+    await tx.couponRedemption.create({
+      data: {
+        couponId: coupon.id,
+        userId,
+        orderId,
+        discountAmount: cartTotal.discount,
+      },
+    });
+  }
+
+  /**
+   * Libera el uso del cupón de una orden cancelada o eliminada.
+   * Es idempotente: si la orden no tiene un uso registrado no hace nada.
+   */
+  async releaseForOrder(orderId: string): Promise<void> {
+    await this.prisma.$transaction(async (tx) => {
+      const redemption = await tx.couponRedemption.findUnique({
+        where: { orderId },
+      });
+
+      if (!redemption) {
+        return;
+      }
+
+      await tx.couponRedemption.delete({
+        where: { id: redemption.id },
+      });
+      await tx.coupon.update({
+        where: { id: redemption.couponId },
+        data: { usedCount: { decrement: 1 } },
+      });
+    });
+  }
+
+  /**
+   * Un cupón porcentual no puede superar el 100%.
+   */
+  private assertValidCouponValue(type: CouponType, value: number) {
+    if (type === CouponType.percentage && value > 100) {
+      throw new BadRequestException(
+        'El porcentaje de descuento no puede ser mayor a 100',
+      );
+    }
+  }
+
+  private assertValidDates(
+    startsAt?: string | Date,
+    expiresAt?: string | Date,
+  ) {
+    if (startsAt && expiresAt && new Date(startsAt) >= new Date(expiresAt)) {
+      throw new BadRequestException(
+        'La fecha de expiración debe ser posterior a la fecha de inicio',
+      );
+    }
+  }
+}
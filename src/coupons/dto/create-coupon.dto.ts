@@ -0,0 +1,77 @@
+import {
+  IsArray,
+  IsBoolean,
+  IsDateString,
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Min,
+} from 'class-validator';
+import { CouponType } from '../../generated/enums.js';
+
+export class CreateCouponDto {
+  @IsString()
+  @IsNotEmpty()
+  code: string;
+
+  @IsString()
+  @IsOptional()
+  description?: string;
+
+  @IsEnum(CouponType)
+  type: CouponType;
+
+  /**
+   * Porcentaje (1-100) si el tipo es percentage, o monto fijo si es fixed.
+   */
+  @IsNumber()
+  @Min(0.01)
+  value: number;
+
+  @IsNumber()
+  @Min(0)
+  @IsOptional()
+  minOrderTotal?: number;
+
+  @IsDateString()
+  @IsOptional()
+  startsAt?: string;
+
+  @IsDateString()
+  @IsOptional()
+  expiresAt?: string;
+
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  maxUses?: number;
+
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  maxUsesPerUser?: number;
+
+  @IsBoolean()
+  @IsOptional()
+  isActive?: boolean;
+
+  /**
+   * Categorías a las que se limita el cupón. Vacío = aplica a todo el carrito.
+   */
+  @IsArray()
+  @IsUUID('all', { each: true })
+  @IsOptional()
+  categoryIds?: string[];
+
+  /**
+   * Productos a los que se limita el cupón. Vacío = aplica a todo el carrito.
+   */
+  @IsArray()
+  @IsUUID('all', { each: true })
+  @IsOptional()
+  productIds?: string[];
+}
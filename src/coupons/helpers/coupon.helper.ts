@@ -0,0 +1,149 @@
+import { BadRequestException } from '@nestjs/common';
+import type { Prisma } from '../../generated/client.js';
+import { CouponType } from '../../generated/enums.js';
+
+/**
+ * Relaciones necesarias para evaluar el alcance de un cupón.
+ */
+export const couponScopeInclude = {
+  categories: { select: { id: true } },
+  products: { select: { id: true } },
+} as const;
+
+/**
+ * Cupón con las categorías y productos a los que aplica.
+ */
+export interface CouponWithScope {
+  id: string;
+  code: string;
+  type: CouponType;
+  value: number | { toNumber(): number };
+  minOrderTotal: number | { toNumber(): number } | null;
+  startsAt: Date | null;
+  expiresAt: Date | null;
+  maxUses: number | null;
+  maxUsesPerUser: number | null;
+  usedCount: number;
+  isActive: boolean;
+  categories: Array<{ id: string }>;
+  products: Array<{ id: string }>;
+}
+
+/**
+ * Línea del carrito considerada para calcular el descuento.
+ */
+export interface CouponCartLine {
+  productId: string;
+  categoryId: string;
+  lineTotal: number;
+}
+
+/**
+ * Redondea un monto a 2 decimales.
+ */
+export function roundAmount(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Normaliza el código de un cupón (sin espacios y en mayúsculas).
+ */
+export function normalizeCouponCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+/**
+ * Verifica que un cupón pueda ser usado por el usuario:
+ * activo, vigente y sin exceder los límites de uso global y por usuario.
+ * Lanza BadRequestException con el motivo si no es válido.
+ */
+export async function assertCouponUsable(
+  client: Prisma.TransactionClient,
+  coupon: CouponWithScope,
+  userId: string,
+): Promise<void> {
+  const now = new Date();
+
+  if (!coupon.isActive) {
+    throw new BadRequestException(`El cupón ${coupon.code} no está activo`);
+  }
+
+  if (coupon.startsAt && coupon.startsAt > now) {
+    throw new BadRequestException(
+      `El cupón ${coupon.code} aún no está vigente`,
+    );
+  }
+
+  if (coupon.expiresAt && coupon.expiresAt <= now) {
+    throw new BadRequestException(`El cupón ${coupon.code} ha expirado`);
+  }
+
+  if (coupon.maxUses !== null && coupon.usedCount >= coupon.maxUses) {
+    throw new BadRequestException(
+      `El cupón ${coupon.code} alcanzó su límite de usos`,
+    );
+  }
+
+  if (coupon.maxUsesPerUser !== null) {
+    const userRedemptions = await client.couponRedemption.count({
+      where: { couponId: coupon.id, userId },
+    });
+
+    if (userRedemptions >= coupon.maxUsesPerUser) {
+      throw new BadRequestException(
+        `Ya usaste el cupón ${coupon.code} el máximo de veces permitido`,
+      );
+    }
+  }
+}
+
+/**
+ * Calcula el descuento de un cupón sobre las líneas del carrito.
+ * Si el cupón está limitado a categorías o productos, solo esas líneas
+ * suman a la base del descuento. El mínimo de compra se evalúa contra
+ * el subtotal completo.
+ */
+export function calculateCouponDiscount(
+  coupon: CouponWithScope,
+  lines: CouponCartLine[],
+  subtotal: number,
+): number {
+  const minOrderTotal =
+    coupon.minOrderTotal == null ? 0 : Number(coupon.minOrderTotal);
+
+  if (subtotal < minOrderTotal) {
+    throw new BadRequestException(
+      `El cupón ${coupon.code} requiere una compra mínima de $${minOrderTotal.toFixed(2)}`,
+    );
+  }
+
+  const categoryIds = new Set(coupon.categories.map((c) => c.id));
+  const productIds = new Set(coupon.products.map((p) => p.id));
+  const isScoped = categoryIds.size > 0 || productIds.size > 0;
+
+  const eligibleLines = isScoped
+    ? lines.filter(
+        (line) =>
+          productIds.has(line.productId) || categoryIds.has(line.categoryId),
+      )
+    : lines;
+
+  if (eligibleLines.length === 0) {
+    throw new BadRequestException(
+      `El cupón ${coupon.code} no aplica a los productos del carrito`,
+    );
+  }
+
+  const eligibleTotal = eligibleLines.reduce(
+    (sum, line) => sum + line.lineTotal,
+    0,
+  );
+  const value = Number(coupon.value);
+
+  const discount =
+    coupon.type === CouponType.percentage
+      ? (eligibleTotal * value) / 100
+      : Math.min(value, eligibleTotal);
+
+  return roundAmount(discount);
+}
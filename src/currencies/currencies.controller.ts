@@ -0,0 +1,77 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { CurrenciesService } from './currencies.service.js';
+import { UpsertCountryCurrencyDto } from './dto/upsert-country-currency.dto.js';
+import { CreateRateOverrideDto } from './dto/create-rate-override.dto.js';
+import { AdminGuard } from '../auth/guards/admin.guard.js';
+import { Public } from '../auth/decorators/public.decorator.js';
+import { CurrentUser } from '../auth/decorators/current-user.decorator.js';
+import type { LoggedInUserData } from '../interfaces/authenticated-user.interface.js';
+
+@Controller('currencies')
+export class CurrenciesController {
+  constructor(private readonly currenciesService: CurrenciesService) {}
+
+  /**
+   * Moneda y tasa para mostrar los precios en un país.
+   */
+  @Get('quote')
+  @Public()
+  getQuote(@Query('country') country?: string) {
+    return this.currenciesService.getQuoteForCountry(country);
+  }
+
+  @Get('countries')
+  @UseGuards(AdminGuard)
+  findCountryCurrencies() {
+    return this.currenciesService.findCountryCurrencies();
+  }
+
+  @Put('countries')
+  @UseGuards(AdminGuard)
+  upsertCountryCurrency(@Body() dto: UpsertCountryCurrencyDto) {
+    return this.currenciesService.upsertCountryCurrency(dto);
+  }
+
+  @Delete('countries/:id')
+  @UseGuards(AdminGuard)
+  removeCountryCurrency(@Param('id') id: string) {
+    return this.currenciesService.removeCountryCurrency(id);
+  }
+
+  @Get('rates')
+  @UseGuards(AdminGuard)
+  findRates(
+    @Query('currency') currency?: string,
+    @Query('page') page?: string,
+    @Query('limit') limit?: string,
+  ) {
+    const pageNumber = page ? parseInt(page, 10) : 1;
+    const limitNumber = limit ? parseInt(limit, 10) : 20;
+    return this.currenciesService.findRates(currency, pageNumber, limitNumber);
+  }
+
+  @Post('rates/overrides')
+  @UseGuards(AdminGuard)
+  createOverride(
+    @CurrentUser() user: LoggedInUserData,
+    @Body() dto: CreateRateOverrideDto,
+  ) {
+    return this.currenciesService.createOverride(user.id, dto);
+  }
+
+  @Delete('rates/overrides/:id')
+  @UseGuards(AdminGuard)
+  removeOverride(@Param('id') id: string) {
+    return this.currenciesService.removeOverride(id);
+  }
+}
@@ -0,0 +1,30 @@
+import { Module } from '@nestjs/common';
+import { CurrenciesService } from './currencies.service.js';
+import { CurrenciesController } from './currencies.controller.js';
+import { DolarApiRateProvider } from './providers/dolarapi-rate.provider.js';
+import { ManualRateProvider } from './providers/manual-rate.provider.js';
+import {
+  EXCHANGE_RATE_SOURCES,
+  type IExchangeRateSource,
+} from './interfaces/exchange-rate-source.interface.js';
+import { PrismaModule } from '../prisma/prisma.module.js';
+import { AuthModule } from '../auth/auth.module.js';
+import { UsersModule } from '../users/users.module.js';
+
+@Module({
+  imports: [PrismaModule, AuthModule, UsersModule],
+  controllers: [CurrenciesController],
+  providers: [
+    // Fuentes de tasas: para agregar una, sumarla también a EXCHANGE_RATE_SOURCES
+    DolarApiRateProvider,
+    ManualRateProvider,
+    {
+      provide: EXCHANGE_RATE_SOURCES,
+      useFactory: (...sources: IExchangeRateSource[]) => sources,
+      inject: [DolarApiRateProvider, ManualRateProvider],
+    },
+    CurrenciesService,
+  ],
+  exports: [CurrenciesService],
+})
+export class CurrenciesModule {}
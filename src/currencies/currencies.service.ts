@@ -0,0 +1,338 @@
+import {
+  Injectable,
+  Inject,
+  Logger,
+  NotFoundException,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PrismaService } from '../prisma/prisma.service.js';
+import {
+  EXCHANGE_RATE_SOURCES,
+  type IExchangeRateSource,
+} from './interfaces/exchange-rate-source.interface.js';
+import { UpsertCountryCurrencyDto } from './dto/upsert-country-currency.dto.js';
+import { CreateRateOverrideDto } from './dto/create-rate-override.dto.js';
+import { createPaginationResponse } from '../common/helpers/pagination.helper.js';
+
+// Moneda en la que están los precios si no se configura BASE_CURRENCY
+const DEFAULT_BASE_CURRENCY = 'USD';
+// Orden de consulta de las fuentes si no se configura EXCHANGE_RATE_SOURCES
+const DEFAULT_SOURCE_ORDER = ['dolarapi', 'manual'];
+// Duración de la cache de tasas obtenidas de las fuentes (1 hora)
+const CACHE_DURATION = 60 * 60 * 1000;
+
+/**
+ * Tasa de cambio usada para convertir un monto.
+ */
+export interface ExchangeQuote {
+  baseCurrency: string;
+  currency: string;
+  /** Unidades de `currency` por cada unidad de `baseCurrency` */
+  rate: number;
+  /** Fuente de la tasa (dolarapi, manual, override, etc.) */
+  source: string;
+  /** Registro del historial con la tasa; null si no hay conversión */
+  exchangeRateId: string | null;
+  fetchedAt: Date;
+}
+
+/**
+ * Servicio de monedas.
+ * Responsabilidad única: resolver la moneda de cada país y la tasa de cambio
+ * desde la moneda base, guardando el historial de tasas usadas.
+ */
+@Injectable()
+export class CurrenciesService {
+  private readonly logger = new Logger(CurrenciesService.name);
+  private readonly sources: IExchangeRateSource[];
+  private readonly cache = new Map<string, ExchangeQuote>();
+
+  constructor(
+    private prisma: PrismaService,
+    private configService: ConfigService,
+    @Inject(EXCHANGE_RATE_SOURCES) sources: IExchangeRateSource[],
+  ) {
+    const order =
+      this.configService
+        .get<string>('EXCHANGE_RATE_SOURCES')
+        ?.split(',')
+        .map((name) => name.trim())
+        .filter(Boolean) ?? DEFAULT_SOURCE_ORDER;
+
+    this.sources = order.flatMap((name) => {
+      const source = sources.find((s) => s.name === name);
+      if (!source) {
+        this.logger.warn(`Fuente de tasas de cambio desconocida: ${name}`);
+      }
+      return source ? [source] : [];
+    });
+  }
+
+  /**
+   * Moneda en la que están expresados los precios de la tienda.
+   */
+  get baseCurrency(): string {
+    return (
+      this.configService.get<string>('BASE_CURRENCY')?.toUpperCase() ||
+      DEFAULT_BASE_CURRENCY
+    );
+  }
+
+  /**
+   * Obtiene la tasa de cambio de la moneda base a `currency`.
+   *
+   * Orden de resolución:
+   * 1. Tasa fijada por un administrador (vigente)
+   * 2. Cache de la última tasa obtenida (1 hora)
+   * 3. Fuentes configuradas, en orden; la tasa se guarda en el historial
+   * 4. Última tasa del historial, si ninguna fuente responde
+   */
+  async getRate(
+    currency: string,
+    baseCurrency: string = this.baseCurrency,
+  ): Promise<ExchangeQuote> {
+    const quote = currency.toUpperCase();
+    const base = baseCurrency.toUpperCase();
+
+    if (quote === base) {
+      return {
+        baseCurrency: base,
+        currency: quote,
+        rate: 1,
+        source: 'base',
+        exchangeRateId: null,
+        fetchedAt: new Date(),
+      };
+    }
+
+    const now = new Date();
+    const override = await this.prisma.exchangeRate.findFirst({
+      where: {
+        baseCurrency: base,
+        currency: quote,
+        isOverride: true,
+        OR: [{ expiresAt: null }, { expiresAt: { gt: now } }],
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    if (override) {
+      return this.toQuote(override);
+    }
+
+    const cacheKey = `${base}:${quote}`;
+    const cached = this.cache.get(cacheKey);
+    if (cached && now.getTime() - cached.fetchedAt.getTime() < CACHE_DURATION) {
+      return cached;
+    }
+
+    for (const source of this.sources) {
+      try {
+        const rate = await source.fetchRate(base, quote);
+        if (rate === null) continue;
+
+        const record = await this.prisma.exchangeRate.create({
+          data: {
+            baseCurrency: base,
+            currency: quote,
+            rate,
+            source: source.name,
+          },
+        });
+        const fetched = this.toQuote(record);
+        this.cache.set(cacheKey, fetched);
+        this.logger.log(`Tasa ${base} → ${quote} (${source.name}): ${rate}`);
+        return fetched;
+      } catch (error) {
+        this.logger.warn(
+          `Error al obtener la tasa ${base} → ${quote} de ${source.name}: ${error}`,
+        );
+      }
+    }
+
+    const latest = await this.prisma.exchangeRate.findFirst({
+      where: { baseCurrency: base, currency: quote, isOverride: false },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    if (latest) {
+      this.logger.warn(
+        `Ninguna fuente respondió; usando la última tasa ${base} → ${quote} registrada (${latest.createdAt.toISOString()})`,
+      );
+      return this.toQuote(latest);
+    }
+
+    throw new ServiceUnavailableException(
+      `No hay una tasa de cambio disponible para ${base} → ${quote}`,
+    );
+  }
+
+  /**
+   * Convierte un monto en moneda base a `currency`, redondeado a centavos.
+   */
+  async convert(amount: number, currency: string) {
+    const quote = await this.getRate(currency);
+
+    return {
+      ...quote,
+      amount: Math.round(amount * quote.rate * 100) / 100,
+    };
+  }
+
+  /**
+   * Moneda configurada para un país; la moneda base si no tiene.
+   */
+  async getCurrencyForCountry(country?: string | null): Promise<string> {
+    if (!country) {
+      return this.baseCurrency;
+    }
+
+    const countryCurrency = await this.prisma.countryCurrency.findFirst({
+      where: { country: { equals: country.trim(), mode: 'insensitive' } },
+    });
+
+    return countryCurrency?.currency ?? this.baseCurrency;
+  }
+
+  /**
+   * Moneda y tasa para mostrar los precios en un país.
+   */
+  async getQuoteForCountry(country?: string) {
+    const currency = await this.getCurrencyForCountry(country);
+    const { baseCurrency, rate, source, fetchedAt } =
+      await this.getRate(currency);
+
+    return {
+      country: country ?? null,
+      baseCurrency,
+      currency,
+      rate,
+      source,
+      fetchedAt,
+    };
+  }
+
+  findCountryCurrencies() {
+    return this.prisma.countryCurrency.findMany({
+      orderBy: { country: 'asc' },
+    });
+  }
+
+  /**
+   * Configura la moneda de un país (la crea o la reemplaza).
+   */
+  upsertCountryCurrency(dto: UpsertCountryCurrencyDto) {
+    const country = dto.country.trim();
+    const currency = dto.currency.toUpperCase();
+
+    return this.prisma.countryCurrency.upsert({
+      where: { country },
+      create: { country, currency },
+      update: { currency },
+    });
+  }
+
+  async removeCountryCurrency(id: string) {
+    const countryCurrency = await this.prisma.countryCurrency.findUnique({
+      where: { id },
+    });
+
+    if (!countryCurrency) {
+      throw new NotFoundException(`Moneda de país con id ${id} no encontrada`);
+    }
+
+    return this.prisma.countryCurrency.delete({ where: { id } });
+  }
+
+  /**
+   * Historial de tasas (paginado), de la más reciente a la más antigua.
+   */
+  async findRates(currency?: string, page: number = 1, limit: number = 20) {
+    const where = currency ? { currency: currency.toUpperCase() } : {};
+    const skip = (page - 1) * limit;
+
+    const [rates, total] = await Promise.all([
+      this.prisma.exchangeRate.findMany({
+        where,
+        include: {
+          createdBy: { select: { id: true, email: true, firstName: true } },
+        },
+        orderBy: { createdAt: 'desc' },
+        skip,
+        take: limit,
+      }),
+      this.prisma.exchangeRate.count({ where }),
+    ]);
+
+    return createPaginationResponse(rates, total, page, limit);
+  }
+
+  /**
+   * Fija una tasa que reemplaza a las fuentes hasta que vence o se quita.
+   */
+  async createOverride(adminId: string, dto: CreateRateOverrideDto) {
+    const baseCurrency = (dto.baseCurrency ?? this.baseCurrency).toUpperCase();
+    const currency = dto.currency.toUpperCase();
+
+    const override = await this.prisma.exchangeRate.create({
+      data: {
+        baseCurrency,
+        currency,
+        rate: dto.rate,
+        source: 'override',
+        isOverride: true,
+        expiresAt: dto.expiresAt ? new Date(dto.expiresAt) : null,
+        note: dto.note,
+        createdById: adminId,
+      },
+    });
+
+    return {
+      message: 'Tasa de cambio fijada exitosamente',
+      data: override,
+    };
+  }
+
+  /**
+   * Quita una tasa fijada: vuelven a usarse las fuentes configuradas.
+   * El registro se conserva en el historial.
+   */
+  async removeOverride(id: string) {
+    const override = await this.prisma.exchangeRate.findFirst({
+      where: { id, isOverride: true },
+    });
+
+    if (!override) {
+      throw new NotFoundException(`Tasa fijada con id ${id} no encontrada`);
+    }
+
+    const updated = await this.prisma.exchangeRate.update({
+      where: { id },
+      data: { expiresAt: new Date() },
+    });
+
+    return {
+      message: 'Tasa fijada quitada exitosamente',
+      data: updated,
+    };
+  }
+
+  private toQuote(record: {
+    id: string;
+    baseCurrency: string;
+    currency: string;
+    rate: number | { toNumber(): number };
+    source: string;
+    createdAt: Date;
+  }): ExchangeQuote {
+    return {
+      baseCurrency: record.baseCurrency,
+      currency: record.currency,
+      rate: Number(record.rate),
+      source: record.source,
+      exchangeRateId: record.id,
+      fetchedAt: record.createdAt,
+    };
+  }
+}
@@ -0,0 +1,40 @@
+import {
+  IsDateString,
+  IsISO4217CurrencyCode,
+  IsNumber,
+  IsOptional,
+  IsPositive,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+
+export class CreateRateOverrideDto {
+  @IsISO4217CurrencyCode()
+  currency: string;
+
+  /**
+   * Moneda base de la tasa. Por defecto, la moneda base de la tienda.
+   */
+  @IsISO4217CurrencyCode()
+  @IsOptional()
+  baseCurrency?: string;
+
+  /**
+   * Unidades de `currency` por cada unidad de la moneda base.
+   */
+  @IsNumber()
+  @IsPositive()
+  rate: number;
+
+  /**
+   * Hasta cuándo rige la tasa. Sin fecha, hasta que se quite manualmente.
+   */
+  @IsDateString()
+  @IsOptional()
+  expiresAt?: string;
+
+  @IsString()
+  @IsOptional()
+  @MaxLength(500)
+  note?: string;
+}
@@ -0,0 +1,13 @@
+import { IsISO4217CurrencyCode, IsNotEmpty, IsString } from 'class-validator';
+
+export class UpsertCountryCurrencyDto {
+  @IsString()
+  @IsNotEmpty()
+  country: string;
+
+  /**
+   * Moneda en la que se muestran los precios y se cobra en el país (ej: ARS).
+   */
+  @IsISO4217CurrencyCode()
+  currency: string;
+}
@@ -0,0 +1,24 @@
+/**
+ * Token de inyección con las fuentes de tasas de cambio registradas.
+ */
+export const EXCHANGE_RATE_SOURCES = Symbol('EXCHANGE_RATE_SOURCES');
+
+/**
+ * Fuente de tasas de cambio.
+ *
+ * El CurrenciesService consulta las fuentes en el orden de
+ * EXCHANGE_RATE_SOURCES (variable de entorno) hasta obtener una tasa.
+ * Para agregar una fuente:
+ * 1. Implementar esta interfaz
+ * 2. Agregarla a la lista EXCHANGE_RATE_SOURCES en CurrenciesModule
+ */
+export interface IExchangeRateSource {
+  /** Nombre con el que se configura y se registra en el historial */
+  readonly name: string;
+
+  /**
+   * Obtiene cuántas unidades de `currency` vale una unidad de `baseCurrency`.
+   * @returns La tasa, o null si la fuente no cotiza ese par
+   */
+  fetchRate(baseCurrency: string, currency: string): Promise<number | null>;
+}
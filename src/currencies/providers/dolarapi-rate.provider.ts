@@ -0,0 +1,45 @@
+import { Injectable } from '@nestjs/common';
+import type { IExchangeRateSource } from '../interfaces/exchange-rate-source.interface.js';
+
+interface DolarApiResponse {
+  compra: number;
+  venta: number;
+  casa: string;
+  nombre: string;
+  moneda: string;
+  fechaActualizacion: string;
+}
+
+/**
+ * Fuente de la cotización del dólar blue (USD → ARS) desde dolarapi.com.
+ */
+@Injectable()
+export class DolarApiRateProvider implements IExchangeRateSource {
+  readonly name = 'dolarapi';
+
+  async fetchRate(
+    baseCurrency: string,
+    currency: string,
+  ): Promise<number | null> {
+    if (baseCurrency !== 'USD' || currency !== 'ARS') {
+      return null;
+    }
+
+    const response = await fetch('https://dolarapi.com/v1/dolares/blue');
+
+    if (!response.ok) {
+      throw new Error(
+        `Error al obtener tasa de dólar blue: ${response.status}`,
+      );
+    }
+
+    const data = (await response.json()) as DolarApiResponse;
+    const rate = data.venta || data.compra || 0;
+
+    if (rate <= 0) {
+      throw new Error('Tasa inválida recibida de dolarapi.com');
+    }
+
+    return rate;
+  }
+}
@@ -0,0 +1,38 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { readFile } from 'fs/promises';
+import type { IExchangeRateSource } from '../interfaces/exchange-rate-source.interface.js';
+
+/**
+ * Fuente manual de tasas leídas de un archivo JSON, para trabajar sin
+ * conexión o cuando las APIs públicas no están disponibles.
+ *
+ * El archivo se indica en EXCHANGE_RATES_FILE y tiene el formato
+ * `{ "USD": { "ARS": 1250.5 } }` (moneda base → moneda → tasa).
+ */
+@Injectable()
+export class ManualRateProvider implements IExchangeRateSource {
+  readonly name = 'manual';
+
+  constructor(private configService: ConfigService) {}
+
+  async fetchRate(
+    baseCurrency: string,
+    currency: string,
+  ): Promise<number | null> {
+    const filePath = this.configService.get<string>('EXCHANGE_RATES_FILE');
+
+    if (!filePath) {
+      return null;
+    }
+
+    // Se lee en cada consulta para tomar los cambios sin reiniciar
+    const rates = JSON.parse(await readFile(filePath, 'utf-8')) as Record<
+      string,
+      Record<string, number> | undefined
+    >;
+    const rate = Number(rates[baseCurrency]?.[currency]);
+
+    return rate > 0 ? rate : null;
+  }
+}
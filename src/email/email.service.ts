@@ -83,6 +83,8 @@ export class EmailService {
     total,
     paymentLink,
     dayNumber,
+    instructions = '',
+    actionLabel = 'Pagar Ahora',
   }: {
     to: string;
     firstName: string;
@@ -90,6 +92,9 @@ export class EmailService {
     total: string;
     paymentLink: string;
     dayNumber: number;
+    /** HTML con las instrucciones del medio de pago (depósito, cripto) */
+    instructions?: string;
+    actionLabel?: string;
   }) {
     const subject = `Recordatorio de Pago - Orden #${orderId.slice(0, 8)}`;
     const replacements = {
@@ -98,6 +103,8 @@ export class EmailService {
       total,
       paymentLink,
       dayNumber: dayNumber.toString(),
+      instructions,
+      actionLabel,
     };
 
     return this.sendEmail({
@@ -107,4 +114,122 @@ export class EmailService {
       replacements,
     });
   }
+
+  async sendWishlistAlertEmail({
+    to,
+    firstName,
+    productsList,
+    wishlistUrl,
+  }: {
+    to: string;
+    firstName: string;
+    productsList: string;
+    wishlistUrl: string;
+  }) {
+    return this.sendEmail({
+      to,
+      subject: 'Novedades en tu lista de deseos - Mercado Copado',
+      templateName: 'wishlist-alert',
+      replacements: { firstName, productsList, wishlistUrl },
+    });
+  }
+
+  /**
+   * Recordatorio de carrito abandonado. El texto cambia entre el primer
+   * recordatorio, los intermedios y el último de la secuencia.
+   */
+  async sendAbandonedCartEmail({
+    to,
+    firstName,
+    itemsList,
+    cartUrl,
+    reminderNumber,
+    isLastReminder,
+  }: {
+    to: string;
+    firstName: string;
+    itemsList: string;
+    cartUrl: string;
+    reminderNumber: number;
+    isLastReminder: boolean;
+  }) {
+    let heading = 'Dejaste productos en tu carrito';
+    let message =
+      'Guardamos los productos que agregaste a tu carrito. Puedes retomar tu compra cuando quieras:';
+
+    if (isLastReminder && reminderNumber > 1) {
+      heading = 'Último recordatorio: tu carrito te espera';
+      message =
+        'Este es el último aviso sobre los productos de tu carrito. No te quedes sin ellos:';
+    } else if (reminderNumber > 1) {
+      heading = 'Tus productos te siguen esperando';
+      message =
+        'Los productos de tu carrito siguen disponibles. Termina tu compra antes de que se agoten:';
+    }
+
+    return this.sendEmail({
+      to,
+      subject: `${heading} - Mercado Copado`,
+      templateName: 'abandoned-cart',
+      replacements: { heading, firstName, message, itemsList, cartUrl },
+    });
+  }
+
+  async sendDepositRejectedEmail({
+    to,
+    firstName,
+    orderId,
+    total,
+    reason,
+    orderUrl,
+  }: {
+    to: string;
+    firstName: string;
+    orderId: string;
+    total: string;
+    reason: string;
+    orderUrl: string;
+  }) {
+    return this.sendEmail({
+      to,
+      subject: `Tu depósito fue rechazado - Orden #${orderId.slice(0, 8)}`,
+      templateName: 'deposit-rejected',
+      replacements: {
+        firstName,
+        orderId: orderId.slice(0, 8),
+        total,
+        reason,
+        orderUrl,
+      },
+    });
+  }
+
+  async sendGuestOrderEmail({
+    to,
+    firstName,
+    orderId,
+    total,
+    orderUrl,
+    accountUrl,
+  }: {
+    to: string;
+    firstName: string;
+    orderId: string;
+    total: string;
+    orderUrl: string;
+    accountUrl: string;
+  }) {
+    return this.sendEmail({
+      to,
+      subject: `Tu pedido #${orderId.slice(0, 8)} - Mercado Copado`,
+      templateName: 'guest-order',
+      replacements: {
+        firstName,
+        orderId: orderId.slice(0, 8),
+        total,
+        orderUrl,
+        accountUrl,
+      },
+    });
+  }
 }
@@ -59,6 +59,11 @@ export type Subcategory = Prisma.SubcategoryModel
  * 
  */
 export type Product = Prisma.ProductModel
+/**
+ * Model ProductVariant
+ * 
+ */
+export type ProductVariant = Prisma.ProductVariantModel
 /**
  * Model ProductImage
  * 
@@ -74,6 +79,21 @@ export type Address = Prisma.AddressModel
  * 
  */
 export type CartItem = Prisma.CartItemModel
+/**
+ * Model GuestCart
+ * 
+ */
+export type GuestCart = Prisma.GuestCartModel
+/**
+ * Model GuestCartItem
+ * 
+ */
+export type GuestCartItem = Prisma.GuestCartItemModel
+/**
+ * Model CartRecoveryEmail
+ * 
+ */
+export type CartRecoveryEmail = Prisma.CartRecoveryEmailModel
 /**
  * Model Order
  * 
@@ -89,8 +109,123 @@ export type OrderItem = Prisma.OrderItemModel
  * 
  */
 export type PaymentTransaction = Prisma.PaymentTransactionModel
+/**
+ * Model InstallmentPlan
+ * 
+ */
+export type InstallmentPlan = Prisma.InstallmentPlanModel
+/**
+ * Model CountryCurrency
+ * 
+ */
+export type CountryCurrency = Prisma.CountryCurrencyModel
+/**
+ * Model ExchangeRate
+ * 
+ */
+export type ExchangeRate = Prisma.ExchangeRateModel
 /**
  * Model PaymentMethod
  * 
  */
 export type PaymentMethod = Prisma.PaymentMethodModel
+/**
+ * Model StockMovement
+ * 
+ */
+export type StockMovement = Prisma.StockMovementModel
+/**
+ * Model Coupon
+ * 
+ */
+export type Coupon = Prisma.CouponModel
+/**
+ * Model CouponRedemption
+ * 
+ */
+export type CouponRedemption = Prisma.CouponRedemptionModel
+/**
+ * Model CartCoupon
+ * 
+ */
+export type CartCoupon = Prisma.CartCouponModel
+/**
+ * Model Refund
+ * 
+ */
+export type Refund = Prisma.RefundModel
+/**
+ * Model RefundItem
+ * 
+ */
+export type RefundItem = Prisma.RefundItemModel
+/**
+ * Model OrderStatusHistory
+ * 
+ */
+export type OrderStatusHistory = Prisma.OrderStatusHistoryModel
+/**
+ * Model Shipment
+ * 
+ */
+export type Shipment = Prisma.ShipmentModel
+/**
+ * Model ShipmentEvent
+ * 
+ */
+export type ShipmentEvent = Prisma.ShipmentEventModel
+/**
+ * Model ShippingZone
+ * 
+ */
+export type ShippingZone = Prisma.ShippingZoneModel
+/**
+ * Model ShippingRate
+ * 
+ */
+export type ShippingRate = Prisma.ShippingRateModel
+/**
+ * Model TaxRate
+ * 
+ */
+export type TaxRate = Prisma.TaxRateModel
+/**
+ * Model Review
+ * 
+ */
+export type Review = Prisma.ReviewModel
+/**
+ * Model ReviewImage
+ * 
+ */
+export type ReviewImage = Prisma.ReviewImageModel
+/**
+ * Model WishlistItem
+ * 
+ */
+export type WishlistItem = Prisma.WishlistItemModel
+/**
+ * Model WebhookEvent
+ * 
+ */
+export type WebhookEvent = Prisma.WebhookEventModel
+/**
+ * Model PaymentStatusChange
+ * 
+ */
+export type PaymentStatusChange = Prisma.PaymentStatusChangeModel
+/**
+ * Model ReconciliationRun
+ * 
+ */
+export type ReconciliationRun = Prisma.ReconciliationRunModel
+/**
+ * Model ReconciliationItem
+ * 
+ */
+export type ReconciliationItem = Prisma.ReconciliationItemModel
+/**
+ * Model CryptoPayment
+ * 
+ */
+export type CryptoPayment = Prisma.CryptoPaymentModel
@@ -30,20 +30,115 @@ export const OrderStatus = {
 export type OrderStatus = (typeof OrderStatus)[keyof typeof OrderStatus]
 
 
+export const OrderStatusActor = {
+  admin: 'admin',
+  customer: 'customer',
+  system: 'system'
+} as const
+
+export type OrderStatusActor = (typeof OrderStatusActor)[keyof typeof OrderStatusActor]
+
+
 export const PaymentStatus = {
   pending: 'pending',
   completed: 'completed',
-  failed: 'failed'
+  failed: 'failed',
+  refunded: 'refunded',
+  partially_refunded: 'partially_refunded'
 } as const
 
 export type PaymentStatus = (typeof PaymentStatus)[keyof typeof PaymentStatus]
 
 
+export const CouponType = {
+  percentage: 'percentage',
+  fixed: 'fixed'
+} as const
+
+export type CouponType = (typeof CouponType)[keyof typeof CouponType]
+
+
+export const ShippingRateBasis = {
+  weight: 'weight',
+  subtotal: 'subtotal'
+} as const
+
+export type ShippingRateBasis = (typeof ShippingRateBasis)[keyof typeof ShippingRateBasis]
+
+
+export const StockMovementType = {
+  initial: 'initial',
+  adjustment: 'adjustment',
+  reservation: 'reservation',
+  release: 'release'
+} as const
+
+export type StockMovementType = (typeof StockMovementType)[keyof typeof StockMovementType]
+
+
 export const PaymentProvider = {
   PAYPHONE: 'PAYPHONE',
   MERCADOPAGO: 'MERCADOPAGO',
   CRYPTO: 'CRYPTO',
-  CASH_DEPOSIT: 'CASH_DEPOSIT'
+  CASH_DEPOSIT: 'CASH_DEPOSIT',
+  STRIPE: 'STRIPE'
 } as const
 
 export type PaymentProvider = (typeof PaymentProvider)[keyof typeof PaymentProvider]
+
+
+export const ReviewStatus = {
+  pending: 'pending',
+  approved: 'approved',
+  rejected: 'rejected'
+} as const
+
+export type ReviewStatus = (typeof ReviewStatus)[keyof typeof ReviewStatus]
+
+
+export const WebhookEventStatus = {
+  received: 'received',
+  processed: 'processed',
+  failed: 'failed'
+} as const
+
+export type WebhookEventStatus = (typeof WebhookEventStatus)[keyof typeof WebhookEventStatus]
+
+
+export const PaymentStatusSource = {
+  provider: 'provider',
+  webhook: 'webhook',
+  admin: 'admin',
+  system: 'system'
+} as const
+
+export type PaymentStatusSource = (typeof PaymentStatusSource)[keyof typeof PaymentStatusSource]
+
+
+export const ReconciliationResult = {
+  matched: 'matched',
+  mismatched_amount: 'mismatched_amount',
+  missing: 'missing',
+  error: 'error'
+} as const
+
+export type ReconciliationResult = (typeof ReconciliationResult)[keyof typeof ReconciliationResult]
+
+
+export const CryptoAsset = {
+  USDT: 'USDT',
+  BTC: 'BTC'
+} as const
+
+export type CryptoAsset = (typeof CryptoAsset)[keyof typeof CryptoAsset]
+
+
+export const CryptoPaymentStatus = {
+  awaiting_payment: 'awaiting_payment',
+  confirming: 'confirming',
+  confirmed: 'confirmed',
+  underpaid: 'underpaid',
+  expired: 'expired'
+} as const
+
+export type CryptoPaymentStatus = (typeof CryptoPaymentStatus)[keyof typeof CryptoPaymentStatus]
@@ -20,7 +20,7 @@ const config: runtime.GetPrismaClientConfig = {
   "clientVersion": "7.1.0",
   "engineVersion": "ab635e6b9d606fa5c8fb8b1a7f909c3c3c1c98ba",
   "activeProvider": "postgresql",
-  "inlineSchema": "generator client {\n  provider     = \"prisma-client\"\n  output       = \"../src/generated\"\n  moduleFormat = \"esm\"\n}\n\ndatasource db {\n  provider = \"postgresql\"\n}\n\nenum UserRole {\n  USER\n  ADMIN\n}\n\nenum OrderStatus {\n  pending\n  processing\n  cancelled\n  created\n  shipping\n  delivered\n  paid_pending_review\n}\n\nenum PaymentStatus {\n  pending\n  completed\n  failed\n}\n\nmodel User {\n  id                          String               @id @default(uuid())\n  email                       String               @unique\n  password                    String?\n  firstName                   String\n  lastName                    String?\n  phoneNumber                 String?\n  country                     String?\n  documentId                  String?              @unique\n  role                        UserRole             @default(USER)\n  googleId                    String?              @unique\n  isVerified                  Boolean              @default(false)\n  verificationToken           String?\n  verificationTokenExpiresAt  DateTime?\n  resetPasswordToken          String?\n  resetPasswordTokenExpiresAt DateTime?\n  resetPasswordRequestedAt    DateTime?\n  hashedRefreshToken          String?\n  createdAt                   DateTime             @default(now())\n  updatedAt                   DateTime             @updatedAt\n  addresses                   Address[]\n  cartItems                   CartItem[]\n  orders                      Order[]\n  paymentTransactions         PaymentTransaction[]\n  paymentMethods              PaymentMethod[]\n}\n\nmodel Category {\n  id            String        @id @default(uuid())\n  name          String\n  createdAt     DateTime      @default(now())\n  updatedAt     DateTime      @updatedAt\n  subcategories Subcategory[]\n  products      Product[]\n}\n\nmodel Subcategory {\n  id         String    @id @default(uuid())\n  name       String\n  categoryId String\n  category   Category  @relation(fields: [categoryId], references: [id], onDelete: Cascade)\n  createdAt  DateTime  @default(now())\n  updatedAt  DateTime  @updatedAt\n  products   Product[]\n}\n\nmodel Product {\n  id            String         @id @default(uuid())\n  name          String\n  description   String\n  price         Decimal        @db.Decimal(10, 2)\n  discount      Decimal        @default(0) @db.Decimal(5, 2)\n  country       String?\n  isActive      Boolean        @default(true)\n  categoryId    String\n  subcategoryId String\n  category      Category       @relation(fields: [categoryId], references: [id], onDelete: Cascade)\n  subcategory   Subcategory    @relation(fields: [subcategoryId], references: [id], onDelete: Cascade)\n  createdAt     DateTime       @default(now())\n  updatedAt     DateTime       @updatedAt\n  images        ProductImage[]\n  cartItems     CartItem[]\n  orderItems    OrderItem[]\n}\n\nmodel ProductImage {\n  id        String   @id @default(uuid())\n  productId String\n  product   Product  @relation(fields: [productId], references: [id], onDelete: Cascade)\n  url       String\n  order     Int      @default(0)\n  createdAt DateTime @default(now())\n}\n\nmodel Address {\n  id        String   @id @default(uuid())\n  userId    String\n  user      User     @relation(fields: [userId], references: [id], onDelete: Cascade)\n  street    String\n  city      String\n  state     String\n  zipCode   String\n  country   String\n  reference String?\n  isDefault Boolean  @default(false)\n  createdAt DateTime @default(now())\n  updatedAt DateTime @updatedAt\n  orders    Order[]\n}\n\nmodel CartItem {\n  id        String   @id @default(uuid())\n  userId    String\n  user      User     @relation(fields: [userId], references: [id], onDelete: Cascade)\n  productId String\n  product   Product  @relation(fields: [productId], references: [id], onDelete: Cascade)\n  quantity  Int      @default(1)\n  createdAt DateTime @default(now())\n  updatedAt DateTime @updatedAt\n\n  @@unique([userId, productId])\n}\n\nmodel Order {\n  id              String               @id @default(uuid())\n  userId          String\n  user            User                 @relation(fields: [userId], references: [id], onDelete: Cascade)\n  addressId       String\n  address         Address              @relation(fields: [addressId], references: [id])\n  total           Decimal              @db.Decimal(10, 2)\n  status          OrderStatus          @default(pending)\n  depositImageUrl String?\n  createdAt       DateTime             @default(now())\n  updatedAt       DateTime             @updatedAt\n  items           OrderItem[]\n  payments        PaymentTransaction[]\n}\n\nmodel OrderItem {\n  id        String   @id @default(uuid())\n  orderId   String\n  order     Order    @relation(fields: [orderId], references: [id], onDelete: Cascade)\n  productId String\n  product   Product  @relation(fields: [productId], references: [id])\n  quantity  Int\n  price     Decimal  @db.Decimal(10, 2)\n  createdAt DateTime @default(now())\n}\n\nenum PaymentProvider {\n  PAYPHONE\n  MERCADOPAGO\n  CRYPTO\n  CASH_DEPOSIT\n}\n\nmodel PaymentTransaction {\n  id                  String          @id @default(uuid())\n  orderId             String?\n  order               Order?          @relation(fields: [orderId], references: [id], onDelete: Cascade)\n  userId              String\n  user                User            @relation(fields: [userId], references: [id], onDelete: Cascade)\n  clientTransactionId String          @unique\n  amount              Decimal         @db.Decimal(10, 2)\n  status              PaymentStatus   @default(pending)\n  paymentProvider     PaymentProvider @default(PAYPHONE)\n  addressId           String?\n  paymentMethodId     String?\n  payphoneData        Json?\n  createdAt           DateTime        @default(now())\n  updatedAt           DateTime        @updatedAt\n}\n\nmodel PaymentMethod {\n  id              String   @id @default(uuid())\n  userId          String\n  user            User     @relation(fields: [userId], references: [id], onDelete: Cascade)\n  gatewayToken    String\n  cardBrand       String\n  last4Digits     String\n  expirationMonth Int\n  expirationYear  Int\n  isDefault       Boolean  @default(false)\n  createdAt       DateTime @default(now())\n  updatedAt       DateTime @updatedAt\n}\n",
+  "inlineSchema": "generator client {\n  provider     = \"prisma-client\"\n  output       = \"../src/generated\"\n  moduleFormat = \"esm\"\n}\n\ndatasource db {\n  provider = \"postgresql\"\n}\n\nenum UserRole {\n  USER\n  ADMIN\n}\n\nenum OrderStatus {\n  pending\n  processing\n  cancelled\n  created\n  shipping\n  delivered\n  paid_pending_review\n}\n\nenum OrderStatusActor {\n  admin\n  customer\n  system\n}\n\nenum PaymentStatus {\n  pending\n  completed\n  failed\n  refunded\n  partially_refunded\n}\n\nenum CouponType {\n  percentage\n  fixed\n}\n\nenum ShippingRateBasis {\n  weight\n  subtotal\n}\n\nenum StockMovementType {\n  initial\n  adjustment\n  reservation\n  release\n}\n\nmodel User {\n  id                          String                @id @default(uuid())\n  email                       String                @unique\n  password                    String?\n  firstName                   String\n  lastName                    String?\n  phoneNumber                 String?\n  country                     String?\n  documentId                  String?               @unique\n  role                        UserRole              @default(USER)\n  googleId                    String?               @unique\n  isVerified                  Boolean               @default(false)\n  isGuest                     Boolean               @default(false)\n  verificationToken           String?\n  verificationTokenExpiresAt  DateTime?\n  resetPasswordToken          String?\n  resetPasswordTokenExpiresAt DateTime?\n  resetPasswordRequestedAt    DateTime?\n  hashedRefreshToken          String?\n  createdAt                   DateTime              @default(now())\n  updatedAt                   DateTime              @updatedAt\n  addresses                   Address[]\n  cartItems                   CartItem[]\n  orders                      Order[]\n  paymentTransactions         PaymentTransaction[]\n  paymentMethods              PaymentMethod[]\n  cartCoupon                  CartCoupon?\n  couponRedemptions           CouponRedemption[]\n  processedRefunds            Refund[]\n  orderStatusChanges          OrderStatusHistory[]\n  reviews                     Review[]\n  moderatedReviews            Review[]              @relation(\"ReviewModerator\")\n  wishlistItems               WishlistItem[]\n  paymentStatusChanges        PaymentStatusChange[]\n  reviewedDeposits            PaymentTransaction[]  @relation(\"DepositReviewer\")\n  exchangeRateOverrides       ExchangeRate[]\n  cartRecoveryEmails          CartRecoveryEmail[]\n}\n\nmodel Category {\n  id               String            @id @default(uuid())\n  name             String\n  createdAt        DateTime          @default(now())\n  updatedAt        DateTime          @updatedAt\n  subcategories    Subcategory[]\n  products         Product[]\n  coupons          Coupon[]\n  taxRates         TaxRate[]\n  installmentPlans InstallmentPlan[]\n}\n\nmodel Subcategory {\n  id         String    @id @default(uuid())\n  name       String\n  categoryId String\n  category   Category  @relation(fields: [categoryId], references: [id], onDelete: Cascade)\n  createdAt  DateTime  @default(now())\n  updatedAt  DateTime  @updatedAt\n  products   Product[]\n}\n\nmodel Product {\n  id             String           @id @default(uuid())\n  name           String\n  description    String\n  price          Decimal          @db.Decimal(10, 2)\n  discount       Decimal          @default(0) @db.Decimal(5, 2)\n  country        String?\n  isActive       Boolean          @default(true)\n  stock          Int              @default(0)\n  weight         Decimal?         @db.Decimal(10, 3)\n  averageRating  Decimal          @default(0) @db.Decimal(3, 2)\n  reviewCount    Int              @default(0)\n  categoryId     String\n  subcategoryId  String\n  category       Category         @relation(fields: [categoryId], references: [id], onDelete: Cascade)\n  subcategory    Subcategory      @relation(fields: [subcategoryId], references: [id], onDelete: Cascade)\n  createdAt      DateTime         @default(now())\n  updatedAt      DateTime         @updatedAt\n  images         ProductImage[]\n  cartItems      CartItem[]\n  guestCartItems GuestCartItem[]\n  orderItems     OrderItem[]\n  stockMovements StockMovement[]\n  variants       ProductVariant[]\n  coupons        Coupon[]\n  reviews        Review[]\n  wishlistItems  WishlistItem[]\n}\n\nmodel ProductVariant {\n  id             String          @id @default(uuid())\n  productId      String\n  product        Product         @relation(fields: [productId], references: [id], onDelete: Cascade)\n  sku            String          @unique\n  size           String?\n  color          String?\n  price          Decimal?        @db.Decimal(10, 2)\n  stock          Int             @default(0)\n  imageUrl       String?\n  isActive       Boolean         @default(true)\n  createdAt      DateTime        @default(now())\n  updatedAt      DateTime        @updatedAt\n  cartItems      CartItem[]\n  guestCartItems GuestCartItem[]\n  orderItems     OrderItem[]\n  stockMovements StockMovement[]\n\n  @@index([productId])\n}\n\nmodel ProductImage {\n  id        String   @id @default(uuid())\n  productId String\n  product   Product  @relation(fields: [productId], references: [id], onDelete: Cascade)\n  url       String\n  order     Int      @default(0)\n  createdAt DateTime @default(now())\n}\n\nmodel Address {\n  id        String   @id @default(uuid())\n  userId    String\n  user      User     @relation(fields: [userId], references: [id], onDelete: Cascade)\n  street    String\n  city      String\n  state     String\n  zipCode   String\n  country   String\n  reference String?\n  isDefault Boolean  @default(false)\n  createdAt DateTime @default(now())\n  updatedAt DateTime @updatedAt\n  orders    Order[]\n}\n\nmodel CartItem {\n  id            String          @id @default(uuid())\n  userId        String\n  user          User            @relation(fields: [userId], references: [id], onDelete: Cascade)\n  productId     String\n  product       Product         @relation(fields: [productId], references: [id], onDelete: Cascade)\n  variantId     String?\n  variant       ProductVariant? @relation(fields: [variantId], references: [id], onDelete: Cascade)\n  quantity      Int             @default(1)\n  priceSnapshot Decimal?        @db.Decimal(10, 2)\n  createdAt     DateTime        @default(now())\n  updatedAt     DateTime        @updatedAt\n\n  // Los NULL de variantId no cuentan para este índice: los items sin variante\n  // los protege el índice parcial \"CartItem_userId_productId_no_variant_key\"\n  // (WHERE \"variantId\" IS NULL), creado en la migración\n  // 20260723120000_cart_items_without_variant_unique. Prisma no modela índices\n  // parciales: quita el DROP INDEX que genere `prisma migrate dev`.\n  @@unique([userId, productId, variantId])\n}\n\nmodel GuestCart {\n  id        String          @id @default(uuid())\n  createdAt DateTime        @default(now())\n  updatedAt DateTime        @updatedAt\n  items     GuestCartItem[]\n}\n\nmodel GuestCartItem {\n  id            String          @id @default(uuid())\n  guestCartId   String\n  guestCart     GuestCart       @relation(fields: [guestCartId], references: [id], onDelete: Cascade)\n  productId     String\n  product       Product         @relation(fields: [productId], references: [id], onDelete: Cascade)\n  variantId     String?\n  variant       ProductVariant? @relation(fields: [variantId], references: [id], onDelete: Cascade)\n  quantity      Int             @default(1)\n  priceSnapshot Decimal?        @db.Decimal(10, 2)\n  createdAt     DateTime        @default(now())\n  updatedAt     DateTime        @updatedAt\n\n  // Los NULL de variantId no cuentan para este índice: los items sin variante\n  // los protege el índice parcial\n  // \"GuestCartItem_guestCartId_productId_no_variant_key\" (WHERE \"variantId\"\n  // IS NULL), creado en la migración\n  // 20260723120000_cart_items_without_variant_unique. Prisma no modela índices\n  // parciales: quita el DROP INDEX que genere `prisma migrate dev`.\n  @@unique([guestCartId, productId, variantId])\n}\n\nmodel CartRecoveryEmail {\n  id            String    @id @default(uuid())\n  userId        String\n  user          User      @relation(fields: [userId], references: [id], onDelete: Cascade)\n  step          Int\n  cartUpdatedAt DateTime\n  items         Json\n  token         String    @unique\n  sentAt        DateTime  @default(now())\n  restoredAt    DateTime?\n\n  @@unique([userId, cartUpdatedAt, step])\n}\n\nmodel Order {\n  id                    String               @id @default(uuid())\n  userId                String\n  user                  User                 @relation(fields: [userId], references: [id], onDelete: Cascade)\n  addressId             String\n  address               Address              @relation(fields: [addressId], references: [id])\n  subtotal              Decimal              @default(0) @db.Decimal(10, 2)\n  taxAmount             Decimal              @default(0) @db.Decimal(10, 2)\n  taxableAmount         Decimal              @default(0) @db.Decimal(10, 2)\n  total                 Decimal              @db.Decimal(10, 2)\n  status                OrderStatus          @default(pending)\n  depositImageUrl       String?\n  stockReserved         Boolean              @default(false)\n  couponId              String?\n  coupon                Coupon?              @relation(fields: [couponId], references: [id], onDelete: SetNull)\n  couponCode            String?\n  discountAmount        Decimal              @default(0) @db.Decimal(10, 2)\n  shippingCost          Decimal              @default(0) @db.Decimal(10, 2)\n  paymentRemindersSent  Int                  @default(0)\n  lastPaymentReminderAt DateTime?\n  createdAt             DateTime             @default(now())\n  updatedAt             DateTime             @updatedAt\n  items                 OrderItem[]\n  payments              PaymentTransaction[]\n  stockMovements        StockMovement[]\n  couponRedemption      CouponRedemption?\n  refunds               Refund[]\n  statusHistory         OrderStatusHistory[]\n  shipment              Shipment?\n}\n\nmodel OrderItem {\n  id          String          @id @default(uuid())\n  orderId     String\n  order       Order           @relation(fields: [orderId], references: [id], onDelete: Cascade)\n  productId   String\n  product     Product         @relation(fields: [productId], references: [id])\n  variantId   String?\n  variant     ProductVariant? @relation(fields: [variantId], references: [id])\n  quantity    Int\n  price       Decimal         @db.Decimal(10, 2)\n  taxRate     Decimal         @default(0) @db.Decimal(5, 2)\n  taxAmount   Decimal         @default(0) @db.Decimal(10, 2)\n  createdAt   DateTime        @default(now())\n  refundItems RefundItem[]\n}\n\nenum PaymentProvider {\n  PAYPHONE\n  MERCADOPAGO\n  CRYPTO\n  CASH_DEPOSIT\n  STRIPE\n}\n\nmodel PaymentTransaction {\n  id                  String                @id @default(uuid())\n  orderId             String?\n  order               Order?                @relation(fields: [orderId], references: [id], onDelete: Cascade)\n  userId              String\n  user                User                  @relation(fields: [userId], references: [id], onDelete: Cascade)\n  clientTransactionId String                @unique\n  amount              Decimal               @db.Decimal(10, 2)\n  taxAmount           Decimal               @default(0) @db.Decimal(10, 2)\n  taxableAmount       Decimal               @default(0) @db.Decimal(10, 2)\n  status              PaymentStatus         @default(pending)\n  paymentProvider     PaymentProvider       @default(PAYPHONE)\n  addressId           String?\n  paymentMethodId     String?\n  payphoneData        Json?\n  refundedAmount      Decimal               @default(0) @db.Decimal(10, 2)\n  reviewedById        String?\n  reviewedBy          User?                 @relation(\"DepositReviewer\", fields: [reviewedById], references: [id], onDelete: SetNull)\n  reviewedAt          DateTime?\n  reviewNote          String?\n  requiresReview      Boolean               @default(false)\n  chargedCurrency     String?\n  chargedAmount       Decimal?              @db.Decimal(14, 2)\n  exchangeRate        Decimal?              @db.Decimal(18, 6)\n  exchangeRateId      String?\n  exchangeRateRecord  ExchangeRate?         @relation(fields: [exchangeRateId], references: [id], onDelete: SetNull)\n  installments        Int                   @default(1)\n  installmentPlanId   String?\n  installmentPlan     InstallmentPlan?      @relation(fields: [installmentPlanId], references: [id], onDelete: SetNull)\n  createdAt           DateTime              @default(now())\n  updatedAt           DateTime              @updatedAt\n  refunds             Refund[]\n  statusChanges       PaymentStatusChange[]\n  reconciliationItems ReconciliationItem[]\n  cryptoPayment       CryptoPayment?\n}\n\nmodel InstallmentPlan {\n  id           String               @id @default(uuid())\n  name         String\n  provider     PaymentProvider\n  installments Int\n  interestRate Decimal              @default(0) @db.Decimal(5, 2)\n  minAmount    Decimal?             @db.Decimal(10, 2)\n  categoryId   String?\n  category     Category?            @relation(fields: [categoryId], references: [id], onDelete: Cascade)\n  startsAt     DateTime?\n  expiresAt    DateTime?\n  isActive     Boolean              @default(true)\n  createdAt    DateTime             @default(now())\n  updatedAt    DateTime             @updatedAt\n  transactions PaymentTransaction[]\n\n  @@index([provider, isActive])\n}\n\nmodel CountryCurrency {\n  id        String   @id @default(uuid())\n  country   String   @unique\n  currency  String\n  createdAt DateTime @default(now())\n  updatedAt DateTime @updatedAt\n}\n\nmodel ExchangeRate {\n  id           String               @id @default(uuid())\n  baseCurrency String\n  currency     String\n  rate         Decimal              @db.Decimal(18, 6)\n  source       String\n  isOverride   Boolean              @default(false)\n  expiresAt    DateTime?\n  note         String?\n  createdById  String?\n  createdBy    User?                @relation(fields: [createdById], references: [id], onDelete: SetNull)\n  createdAt    DateTime             @default(now())\n  transactions PaymentTransaction[]\n\n  @@index([baseCurrency, currency, createdAt])\n}\n\nmodel PaymentMethod {\n  id                 String          @id @default(uuid())\n  userId             String\n  user               User            @relation(fields: [userId], references: [id], onDelete: Cascade)\n  provider           PaymentProvider\n  providerCustomerId String\n  providerCardId     String\n  cardBrand          String\n  last4Digits        String\n  expirationMonth    Int\n  expirationYear     Int\n  isDefault          Boolean         @default(false)\n  createdAt          DateTime        @default(now())\n  updatedAt          DateTime        @updatedAt\n\n  @@unique([provider, providerCardId])\n}\n\nmodel StockMovement {\n  id        String            @id @default(uuid())\n  productId String\n  product   Product           @relation(fields: [productId], references: [id], onDelete: Cascade)\n  variantId String?\n  variant   ProductVariant?   @relation(fields: [variantId], references: [id], onDelete: Cascade)\n  orderId   String?\n  order     Order?            @relation(fields: [orderId], references: [id], onDelete: SetNull)\n  userId    String?\n  type      StockMovementType\n  quantity  Int\n  reason    String?\n  createdAt DateTime          @default(now())\n\n  @@index([productId])\n}\n\nmodel Coupon {\n  id             String             @id @default(uuid())\n  code           String             @unique\n  description    String?\n  type           CouponType\n  value          Decimal            @db.Decimal(10, 2)\n  minOrderTotal  Decimal?           @db.Decimal(10, 2)\n  startsAt       DateTime?\n  expiresAt      DateTime?\n  maxUses        Int?\n  maxUsesPerUser Int?\n  usedCount      Int                @default(0)\n  isActive       Boolean            @default(true)\n  createdAt      DateTime           @default(now())\n  updatedAt      DateTime           @updatedAt\n  categories     Category[]\n  products       Product[]\n  orders         Order[]\n  redemptions    CouponRedemption[]\n  cartCoupons    CartCoupon[]\n}\n\nmodel CouponRedemption {\n  id             String   @id @default(uuid())\n  couponId       String\n  coupon         Coupon   @relation(fields: [couponId], references: [id], onDelete: Cascade)\n  userId         String\n  user           User     @relation(fields: [userId], references: [id], onDelete: Cascade)\n  orderId        String   @unique\n  order          Order    @relation(fields: [orderId], references: [id], onDelete: Cascade)\n  discountAmount Decimal  @db.Decimal(10, 2)\n  createdAt      DateTime @default(now())\n\n  @@index([couponId, userId])\n}\n\nmodel CartCoupon {\n  id        String   @id @default(uuid())\n  userId    String   @unique\n  user      User     @relation(fields: [userId], references: [id], onDelete: Cascade)\n  couponId  String\n  coupon    Coupon   @relation(fields: [couponId], references: [id], onDelete: Cascade)\n  createdAt DateTime @default(now())\n}\n\nmodel Refund {\n  id               String             @id @default(uuid())\n  transactionId    String\n  transaction      PaymentTransaction @relation(fields: [transactionId], references: [id], onDelete: Cascade)\n  orderId          String\n  order            Order              @relation(fields: [orderId], references: [id], onDelete: Cascade)\n  amount           Decimal            @db.Decimal(10, 2)\n  reason           String\n  isManual         Boolean            @default(false)\n  providerRefundId String?\n  providerData     Json?\n  processedById    String?\n  processedBy      User?              @relation(fields: [processedById], references: [id], onDelete: SetNull)\n  createdAt        DateTime           @default(now())\n  items            RefundItem[]\n\n  @@index([orderId])\n}\n\nmodel RefundItem {\n  id          String    @id @default(uuid())\n  refundId    String\n  refund      Refund    @relation(fields: [refundId], references: [id], onDelete: Cascade)\n  orderItemId String\n  orderItem   OrderItem @relation(fields: [orderItemId], references: [id], onDelete: Cascade)\n  quantity    Int\n  amount      Decimal   @db.Decimal(10, 2)\n}\n\nmodel OrderStatusHistory {\n  id             String           @id @default(uuid())\n  orderId        String\n  order          Order            @relation(fields: [orderId], references: [id], onDelete: Cascade)\n  previousStatus OrderStatus?\n  newStatus      OrderStatus\n  actor          OrderStatusActor\n  changedById    String?\n  changedBy      User?            @relation(fields: [changedById], references: [id], onDelete: SetNull)\n  note           String?\n  createdAt      DateTime         @default(now())\n\n  @@index([orderId])\n}\n\nmodel Shipment {\n  id             String          @id @default(uuid())\n  orderId        String          @unique\n  order          Order           @relation(fields: [orderId], references: [id], onDelete: Cascade)\n  carrier        String\n  trackingNumber String\n  trackingUrl    String?\n  shippedAt      DateTime?\n  deliveredAt    DateTime?\n  createdAt      DateTime        @default(now())\n  updatedAt      DateTime        @updatedAt\n  events         ShipmentEvent[]\n}\n\nmodel ShipmentEvent {\n  id          String   @id @default(uuid())\n  shipmentId  String\n  shipment    Shipment @relation(fields: [shipmentId], references: [id], onDelete: Cascade)\n  description String\n  location    String?\n  occurredAt  DateTime @default(now())\n  createdAt   DateTime @default(now())\n\n  @@index([shipmentId])\n}\n\nmodel ShippingZone {\n  id                    String            @id @default(uuid())\n  name                  String\n  country               String\n  states                String[]\n  zipCodePrefixes       String[]\n  rateBasis             ShippingRateBasis @default(weight)\n  freeShippingThreshold Decimal?          @db.Decimal(10, 2)\n  isActive              Boolean           @default(true)\n  createdAt             DateTime          @default(now())\n  updatedAt             DateTime          @updatedAt\n  rates                 ShippingRate[]\n}\n\nmodel ShippingRate {\n  id       String       @id @default(uuid())\n  zoneId   String\n  zone     ShippingZone @relation(fields: [zoneId], references: [id], onDelete: Cascade)\n  minValue Decimal      @default(0) @db.Decimal(10, 3)\n  maxValue Decimal?     @db.Decimal(10, 3)\n  cost     Decimal      @db.Decimal(10, 2)\n\n  @@index([zoneId])\n}\n\nmodel TaxRate {\n  id               String    @id @default(uuid())\n  name             String\n  country          String\n  categoryId       String?\n  category         Category? @relation(fields: [categoryId], references: [id], onDelete: Cascade)\n  rate             Decimal   @db.Decimal(5, 2)\n  priceIncludesTax Boolean   @default(true)\n  isActive         Boolean   @default(true)\n  createdAt        DateTime  @default(now())\n  updatedAt        DateTime  @updatedAt\n\n  @@index([country])\n}\n\nenum ReviewStatus {\n  pending\n  approved\n  rejected\n}\n\nmodel Review {\n  id             String        @id @default(uuid())\n  productId      String\n  product        Product       @relation(fields: [productId], references: [id], onDelete: Cascade)\n  userId         String\n  user           User          @relation(fields: [userId], references: [id], onDelete: Cascade)\n  rating         Int\n  comment        String\n  status         ReviewStatus  @default(pending)\n  moderationNote String?\n  moderatedById  String?\n  moderatedBy    User?         @relation(\"ReviewModerator\", fields: [moderatedById], references: [id])\n  moderatedAt    DateTime?\n  createdAt      DateTime      @default(now())\n  updatedAt      DateTime      @updatedAt\n  images         ReviewImage[]\n\n  @@unique([productId, userId])\n  @@index([productId, status])\n}\n\nmodel ReviewImage {\n  id        String   @id @default(uuid())\n  reviewId  String\n  review    Review   @relation(fields: [reviewId], references: [id], onDelete: Cascade)\n  url       String\n  order     Int      @default(0)\n  createdAt DateTime @default(now())\n}\n\nmodel WishlistItem {\n  id               String   @id @default(uuid())\n  userId           String\n  user             User     @relation(fields: [userId], references: [id], onDelete: Cascade)\n  productId        String\n  product          Product  @relation(fields: [productId], references: [id], onDelete: Cascade)\n  lastSeenDiscount Decimal  @default(0) @db.Decimal(5, 2)\n  lastSeenActive   Boolean  @default(true)\n  createdAt        DateTime @default(now())\n\n  @@unique([userId, productId])\n}\n\nenum WebhookEventStatus {\n  received\n  processed\n  failed\n}\n\nmodel WebhookEvent {\n  id          String             @id @default(uuid())\n  provider    PaymentProvider\n  eventId     String\n  type        String\n  resourceId  String\n  payload     Json\n  status      WebhookEventStatus @default(received)\n  attempts    Int                @default(0)\n  lastError   String?\n  processedAt DateTime?\n  createdAt   DateTime           @default(now())\n  updatedAt   DateTime           @updatedAt\n\n  @@unique([provider, eventId])\n  @@index([status])\n}\n\nenum PaymentStatusSource {\n  provider\n  webhook\n  admin\n  system\n}\n\nmodel PaymentStatusChange {\n  id             String              @id @default(uuid())\n  transactionId  String\n  transaction    PaymentTransaction  @relation(fields: [transactionId], references: [id], onDelete: Cascade)\n  previousStatus PaymentStatus\n  newStatus      PaymentStatus\n  source         PaymentStatusSource\n  changedById    String?\n  changedBy      User?               @relation(fields: [changedById], references: [id], onDelete: SetNull)\n  note           String?\n  createdAt      DateTime            @default(now())\n\n  @@index([transactionId])\n}\n\nenum ReconciliationResult {\n  matched\n  mismatched_amount\n  missing\n  error\n}\n\nmodel ReconciliationRun {\n  id              String               @id @default(uuid())\n  startedAt       DateTime             @default(now())\n  finishedAt      DateTime?\n  checkedCount    Int                  @default(0)\n  matchedCount    Int                  @default(0)\n  mismatchedCount Int                  @default(0)\n  missingCount    Int                  @default(0)\n  updatedCount    Int                  @default(0)\n  expiredCount    Int                  @default(0)\n  errorCount      Int                  @default(0)\n  items           ReconciliationItem[]\n}\n\nmodel ReconciliationItem {\n  id             String               @id @default(uuid())\n  runId          String\n  run            ReconciliationRun    @relation(fields: [runId], references: [id], onDelete: Cascade)\n  transactionId  String\n  transaction    PaymentTransaction   @relation(fields: [transactionId], references: [id], onDelete: Cascade)\n  provider       PaymentProvider\n  result         ReconciliationResult\n  localStatus    PaymentStatus\n  newStatus      PaymentStatus?\n  providerStatus String?\n  localAmount    Decimal              @db.Decimal(10, 2)\n  providerAmount Decimal?             @db.Decimal(10, 2)\n  note           String?\n  createdAt      DateTime             @default(now())\n\n  @@index([runId])\n  @@index([transactionId])\n}\n\nenum CryptoAsset {\n  USDT\n  BTC\n}\n\nenum CryptoPaymentStatus {\n  awaiting_payment\n  confirming\n  confirmed\n  underpaid\n  expired\n}\n\nmodel CryptoPayment {\n  id             String              @id @default(uuid())\n  transactionId  String              @unique\n  transaction    PaymentTransaction  @relation(fields: [transactionId], references: [id], onDelete: Cascade)\n  asset          CryptoAsset\n  network        String\n  depositAddress String\n  memo           String?\n  amountUsd      Decimal             @db.Decimal(10, 2)\n  rate           Decimal             @db.Decimal(18, 8)\n  cryptoAmount   Decimal             @db.Decimal(24, 8)\n  expiresAt      DateTime\n  status         CryptoPaymentStatus @default(awaiting_payment)\n  txHash         String?             @unique\n  receivedAmount Decimal?            @db.Decimal(24, 8)\n  confirmations  Int                 @default(0)\n  detectedAt     DateTime?\n  confirmedAt    DateTime?\n  createdAt      DateTime            @default(now())\n  updatedAt      DateTime            @updatedAt\n\n  @@index([status, expiresAt])\n}\n",
   "runtimeDataModel": {
     "models": {},
     "enums": {},
@@ -28,7 +28,7 @@ const config: runtime.GetPrismaClientConfig = {
   }
 }
 
-config.runtimeDataModel = JSON.parse("{\"models\":{\"User\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"email\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"password\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"firstName\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"lastName\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"phoneNumber\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"country\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"documentId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"role\",\"kind\":\"enum\",\"type\":\"UserRole\"},{\"name\":\"googleId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"isVerified\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"verificationToken\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"verificationTokenExpiresAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"resetPasswordToken\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"resetPasswordTokenExpiresAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"resetPasswordRequestedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"hashedRefreshToken\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"addresses\",\"kind\":\"object\",\"type\":\"Address\",\"relationName\":\"AddressToUser\"},{\"name\":\"cartItems\",\"kind\":\"object\",\"type\":\"CartItem\",\"relationName\":\"CartItemToUser\"},{\"name\":\"orders\",\"kind\":\"object\",\"type\":\"Order\",\"relationName\":\"OrderToUser\"},{\"name\":\"paymentTransactions\",\"kind\":\"object\",\"type\":\"PaymentTransaction\",\"relationName\":\"PaymentTransactionToUser\"},{\"name\":\"paymentMethods\",\"kind\":\"object\",\"type\":\"PaymentMethod\",\"relationName\":\"PaymentMethodToUser\"}],\"dbName\":null},\"Category\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"subcategories\",\"kind\":\"object\",\"type\":\"Subcategory\",\"relationName\":\"CategoryToSubcategory\"},{\"name\":\"products\",\"kind\":\"object\",\"type\":\"Product\",\"relationName\":\"CategoryToProduct\"}],\"dbName\":null},\"Subcategory\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"categoryId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"category\",\"kind\":\"object\",\"type\":\"Category\",\"relationName\":\"CategoryToSubcategory\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"products\",\"kind\":\"object\",\"type\":\"Product\",\"relationName\":\"ProductToSubcategory\"}],\"dbName\":null},\"Product\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"description\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"price\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"discount\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"country\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"isActive\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"categoryId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"subcategoryId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"category\",\"kind\":\"object\",\"type\":\"Category\",\"relationName\":\"CategoryToProduct\"},{\"name\":\"subcategory\",\"kind\":\"object\",\"type\":\"Subcategory\",\"relationName\":\"ProductToSubcategory\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"images\",\"kind\":\"object\",\"type\":\"ProductImage\",\"relationName\":\"ProductToProductImage\"},{\"name\":\"cartItems\",\"kind\":\"object\",\"type\":\"CartItem\",\"relationName\":\"CartItemToProduct\"},{\"name\":\"orderItems\",\"kind\":\"object\",\"type\":\"OrderItem\",\"relationName\":\"OrderItemToProduct\"}],\"dbName\":null},\"ProductImage\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"productId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"product\",\"kind\":\"object\",\"type\":\"Product\",\"relationName\":\"ProductToProductImage\"},{\"name\":\"url\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"order\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"Address\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"AddressToUser\"},{\"name\":\"street\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"city\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"state\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"zipCode\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"country\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"reference\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"isDefault\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"orders\",\"kind\":\"object\",\"type\":\"Order\",\"relationName\":\"AddressToOrder\"}],\"dbName\":null},\"CartItem\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"CartItemToUser\"},{\"name\":\"productId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"product\",\"kind\":\"object\",\"type\":\"Product\",\"relationName\":\"CartItemToProduct\"},{\"name\":\"quantity\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"Order\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"OrderToUser\"},{\"name\":\"addressId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"address\",\"kind\":\"object\",\"type\":\"Address\",\"relationName\":\"AddressToOrder\"},{\"name\":\"total\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"OrderStatus\"},{\"name\":\"depositImageUrl\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"items\",\"kind\":\"object\",\"type\":\"OrderItem\",\"relationName\":\"OrderToOrderItem\"},{\"name\":\"payments\",\"kind\":\"object\",\"type\":\"PaymentTransaction\",\"relationName\":\"OrderToPaymentTransaction\"}],\"dbName\":null},\"OrderItem\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"orderId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"order\",\"kind\":\"object\",\"type\":\"Order\",\"relationName\":\"OrderToOrderItem\"},{\"name\":\"productId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"product\",\"kind\":\"object\",\"type\":\"Product\",\"relationName\":\"OrderItemToProduct\"},{\"name\":\"quantity\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"price\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"PaymentTransaction\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"orderId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"order\",\"kind\":\"object\",\"type\":\"Order\",\"relationName\":\"OrderToPaymentTransaction\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"PaymentTransactionToUser\"},{\"name\":\"clientTransactionId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"amount\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"PaymentStatus\"},{\"name\":\"paymentProvider\",\"kind\":\"enum\",\"type\":\"PaymentProvider\"},{\"name\":\"addressId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"paymentMethodId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"payphoneData\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"PaymentMethod\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"PaymentMethodToUser\"},{\"name\":\"gatewayToken\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"cardBrand\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"last4Digits\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"expirationMonth\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"expirationYear\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"isDefault\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null}},\"enums\":{},\"types\":{}}")
+config.runtimeDataModel = JSON.parse("{\"models\":{\"User\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"email\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"password\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"firstName\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"lastName\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"phoneNumber\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"country\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"documentId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"role\",\"kind\":\"enum\",\"type\":\"UserRole\"},{\"name\":\"googleId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"isVerified\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"isGuest\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"verificationToken\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"verificationTokenExpiresAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"resetPasswordToken\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"resetPasswordTokenExpiresAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"resetPasswordRequestedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"hashedRefreshToken\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"addresses\",\"kind\":\"object\",\"type\":\"Address\",\"relationName\":\"AddressToUser\"},{\"name\":\"cartItems\",\"kind\":\"object\",\"type\":\"CartItem\",\"relationName\":\"CartItemToUser\"},{\"name\":\"orders\",\"kind\":\"object\",\"type\":\"Order\",\"relationName\":\"OrderToUser\"},{\"name\":\"paymentTransactions\",\"kind\":\"object\",\"type\":\"PaymentTransaction\",\"relationName\":\"PaymentTransactionToUser\"},{\"name\":\"paymentMethods\",\"kind\":\"object\",\"type\":\"PaymentMethod\",\"relationName\":\"PaymentMethodToUser\"},{\"name\":\"cartCoupon\",\"kind\":\"object\",\"type\":\"CartCoupon\",\"relationName\":\"CartCouponToUser\"},{\"name\":\"couponRedemptions\",\"kind\":\"object\",\"type\":\"CouponRedemption\",\"relationName\":\"CouponRedemptionToUser\"},{\"name\":\"processedRefunds\",\"kind\":\"object\",\"type\":\"Refund\",\"relationName\":\"RefundToUser\"},{\"name\":\"orderStatusChanges\",\"kind\":\"object\",\"type\":\"OrderStatusHistory\",\"relationName\":\"OrderStatusHistoryToUser\"},{\"name\":\"reviews\",\"kind\":\"object\",\"type\":\"Review\",\"relationName\":\"ReviewToUser\"},{\"name\":\"moderatedReviews\",\"kind\":\"object\",\"type\":\"Review\",\"relationName\":\"ReviewModerator\"},{\"name\":\"wishlistItems\",\"kind\":\"object\",\"type\":\"WishlistItem\",\"relationName\":\"UserToWishlistItem\"},{\"name\":\"paymentStatusChanges\",\"kind\":\"object\",\"type\":\"PaymentStatusChange\",\"relationName\":\"PaymentStatusChangeToUser\"},{\"name\":\"reviewedDeposits\",\"kind\":\"object\",\"type\":\"PaymentTransaction\",\"relationName\":\"DepositReviewer\"},{\"name\":\"exchangeRateOverrides\",\"kind\":\"object\",\"type\":\"ExchangeRate\",\"relationName\":\"ExchangeRateToUser\"},{\"name\":\"cartRecoveryEmails\",\"kind\":\"object\",\"type\":\"CartRecoveryEmail\",\"relationName\":\"CartRecoveryEmailToUser\"}],\"dbName\":null},\"Category\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"subcategories\",\"kind\":\"object\",\"type\":\"Subcategory\",\"relationName\":\"CategoryToSubcategory\"},{\"name\":\"products\",\"kind\":\"object\",\"type\":\"Product\",\"relationName\":\"CategoryToProduct\"},{\"name\":\"coupons\",\"kind\":\"object\",\"type\":\"Coupon\",\"relationName\":\"CategoryToCoupon\"},{\"name\":\"taxRates\",\"kind\":\"object\",\"type\":\"TaxRate\",\"relationName\":\"CategoryToTaxRate\"},{\"name\":\"installmentPlans\",\"kind\":\"object\",\"type\":\"InstallmentPlan\",\"relationName\":\"CategoryToInstallmentPlan\"}],\"dbName\":null},\"Subcategory\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"categoryId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"category\",\"kind\":\"object\",\"type\":\"Category\",\"relationName\":\"CategoryToSubcategory\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"products\",\"kind\":\"object\",\"type\":\"Product\",\"relationName\":\"ProductToSubcategory\"}],\"dbName\":null},\"Product\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"description\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"price\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"discount\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"country\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"isActive\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"stock\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"weight\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"averageRating\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"reviewCount\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"categoryId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"subcategoryId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"category\",\"kind\":\"object\",\"type\":\"Category\",\"relationName\":\"CategoryToProduct\"},{\"name\":\"subcategory\",\"kind\":\"object\",\"type\":\"Subcategory\",\"relationName\":\"ProductToSubcategory\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"images\",\"kind\":\"object\",\"type\":\"ProductImage\",\"relationName\":\"ProductToProductImage\"},{\"name\":\"cartItems\",\"kind\":\"object\",\"type\":\"CartItem\",\"relationName\":\"CartItemToProduct\"},{\"name\":\"guestCartItems\",\"kind\":\"object\",\"type\":\"GuestCartItem\",\"relationName\":\"GuestCartItemToProduct\"},{\"name\":\"orderItems\",\"kind\":\"object\",\"type\":\"OrderItem\",\"relationName\":\"OrderItemToProduct\"},{\"name\":\"stockMovements\",\"kind\":\"object\",\"type\":\"StockMovement\",\"relationName\":\"ProductToStockMovement\"},{\"name\":\"variants\",\"kind\":\"object\",\"type\":\"ProductVariant\",\"relationName\":\"ProductToProductVariant\"},{\"name\":\"coupons\",\"kind\":\"object\",\"type\":\"Coupon\",\"relationName\":\"CouponToProduct\"},{\"name\":\"reviews\",\"kind\":\"object\",\"type\":\"Review\",\"relationName\":\"ProductToReview\"},{\"name\":\"wishlistItems\",\"kind\":\"object\",\"type\":\"WishlistItem\",\"relationName\":\"ProductToWishlistItem\"}],\"dbName\":null},\"ProductVariant\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"productId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"product\",\"kind\":\"object\",\"type\":\"Product\",\"relationName\":\"ProductToProductVariant\"},{\"name\":\"sku\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"size\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"color\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"price\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"stock\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"imageUrl\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"isActive\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"cartItems\",\"kind\":\"object\",\"type\":\"CartItem\",\"relationName\":\"CartItemToProductVariant\"},{\"name\":\"guestCartItems\",\"kind\":\"object\",\"type\":\"GuestCartItem\",\"relationName\":\"GuestCartItemToProductVariant\"},{\"name\":\"orderItems\",\"kind\":\"object\",\"type\":\"OrderItem\",\"relationName\":\"OrderItemToProductVariant\"},{\"name\":\"stockMovements\",\"kind\":\"object\",\"type\":\"StockMovement\",\"relationName\":\"ProductVariantToStockMovement\"}],\"dbName\":null},\"ProductImage\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"productId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"product\",\"kind\":\"object\",\"type\":\"Product\",\"relationName\":\"ProductToProductImage\"},{\"name\":\"url\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"order\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"Address\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"AddressToUser\"},{\"name\":\"street\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"city\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"state\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"zipCode\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"country\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"reference\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"isDefault\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"orders\",\"kind\":\"object\",\"type\":\"Order\",\"relationName\":\"AddressToOrder\"}],\"dbName\":null},\"CartItem\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"CartItemToUser\"},{\"name\":\"productId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"product\",\"kind\":\"object\",\"type\":\"Product\",\"relationName\":\"CartItemToProduct\"},{\"name\":\"variantId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"variant\",\"kind\":\"object\",\"type\":\"ProductVariant\",\"relationName\":\"CartItemToProductVariant\"},{\"name\":\"quantity\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"priceSnapshot\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"GuestCart\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"items\",\"kind\":\"object\",\"type\":\"GuestCartItem\",\"relationName\":\"GuestCartToGuestCartItem\"}],\"dbName\":null},\"GuestCartItem\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"guestCartId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"guestCart\",\"kind\":\"object\",\"type\":\"GuestCart\",\"relationName\":\"GuestCartToGuestCartItem\"},{\"name\":\"productId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"product\",\"kind\":\"object\",\"type\":\"Product\",\"relationName\":\"GuestCartItemToProduct\"},{\"name\":\"variantId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"variant\",\"kind\":\"object\",\"type\":\"ProductVariant\",\"relationName\":\"GuestCartItemToProductVariant\"},{\"name\":\"quantity\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"priceSnapshot\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"CartRecoveryEmail\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"CartRecoveryEmailToUser\"},{\"name\":\"step\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"cartUpdatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"items\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"token\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"sentAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"restoredAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"Order\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"OrderToUser\"},{\"name\":\"addressId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"address\",\"kind\":\"object\",\"type\":\"Address\",\"relationName\":\"AddressToOrder\"},{\"name\":\"subtotal\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"taxAmount\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"taxableAmount\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"total\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"OrderStatus\"},{\"name\":\"depositImageUrl\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"stockReserved\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"couponId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"coupon\",\"kind\":\"object\",\"type\":\"Coupon\",\"relationName\":\"CouponToOrder\"},{\"name\":\"couponCode\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"discountAmount\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"shippingCost\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"paymentRemindersSent\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"lastPaymentReminderAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"items\",\"kind\":\"object\",\"type\":\"OrderItem\",\"relationName\":\"OrderToOrderItem\"},{\"name\":\"payments\",\"kind\":\"object\",\"type\":\"PaymentTransaction\",\"relationName\":\"OrderToPaymentTransaction\"},{\"name\":\"stockMovements\",\"kind\":\"object\",\"type\":\"StockMovement\",\"relationName\":\"OrderToStockMovement\"},{\"name\":\"couponRedemption\",\"kind\":\"object\",\"type\":\"CouponRedemption\",\"relationName\":\"CouponRedemptionToOrder\"},{\"name\":\"refunds\",\"kind\":\"object\",\"type\":\"Refund\",\"relationName\":\"OrderToRefund\"},{\"name\":\"statusHistory\",\"kind\":\"object\",\"type\":\"OrderStatusHistory\",\"relationName\":\"OrderToOrderStatusHistory\"},{\"name\":\"shipment\",\"kind\":\"object\",\"type\":\"Shipment\",\"relationName\":\"OrderToShipment\"}],\"dbName\":null},\"OrderItem\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"orderId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"order\",\"kind\":\"object\",\"type\":\"Order\",\"relationName\":\"OrderToOrderItem\"},{\"name\":\"productId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"product\",\"kind\":\"object\",\"type\":\"Product\",\"relationName\":\"OrderItemToProduct\"},{\"name\":\"variantId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"variant\",\"kind\":\"object\",\"type\":\"ProductVariant\",\"relationName\":\"OrderItemToProductVariant\"},{\"name\":\"quantity\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"price\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"taxRate\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"taxAmount\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"refundItems\",\"kind\":\"object\",\"type\":\"RefundItem\",\"relationName\":\"OrderItemToRefundItem\"}],\"dbName\":null},\"PaymentTransaction\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"orderId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"order\",\"kind\":\"object\",\"type\":\"Order\",\"relationName\":\"OrderToPaymentTransaction\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"PaymentTransactionToUser\"},{\"name\":\"clientTransactionId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"amount\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"taxAmount\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"taxableAmount\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"PaymentStatus\"},{\"name\":\"paymentProvider\",\"kind\":\"enum\",\"type\":\"PaymentProvider\"},{\"name\":\"addressId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"paymentMethodId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"payphoneData\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"refundedAmount\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"reviewedById\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"reviewedBy\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"DepositReviewer\"},{\"name\":\"reviewedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"reviewNote\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"requiresReview\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"chargedCurrency\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"chargedAmount\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"exchangeRate\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"exchangeRateId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"exchangeRateRecord\",\"kind\":\"object\",\"type\":\"ExchangeRate\",\"relationName\":\"ExchangeRateToPaymentTransaction\"},{\"name\":\"installments\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"installmentPlanId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"installmentPlan\",\"kind\":\"object\",\"type\":\"InstallmentPlan\",\"relationName\":\"InstallmentPlanToPaymentTransaction\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"refunds\",\"kind\":\"object\",\"type\":\"Refund\",\"relationName\":\"PaymentTransactionToRefund\"},{\"name\":\"statusChanges\",\"kind\":\"object\",\"type\":\"PaymentStatusChange\",\"relationName\":\"PaymentStatusChangeToPaymentTransaction\"},{\"name\":\"reconciliationItems\",\"kind\":\"object\",\"type\":\"ReconciliationItem\",\"relationName\":\"PaymentTransactionToReconciliationItem\"},{\"name\":\"cryptoPayment\",\"kind\":\"object\",\"type\":\"CryptoPayment\",\"relationName\":\"CryptoPaymentToPaymentTransaction\"}],\"dbName\":null},\"InstallmentPlan\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"provider\",\"kind\":\"enum\",\"type\":\"PaymentProvider\"},{\"name\":\"installments\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"interestRate\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"minAmount\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"categoryId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"category\",\"kind\":\"object\",\"type\":\"Category\",\"relationName\":\"CategoryToInstallmentPlan\"},{\"name\":\"startsAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"expiresAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"isActive\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"transactions\",\"kind\":\"object\",\"type\":\"PaymentTransaction\",\"relationName\":\"InstallmentPlanToPaymentTransaction\"}],\"dbName\":null},\"CountryCurrency\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"country\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"currency\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"ExchangeRate\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"baseCurrency\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"currency\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"rate\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"source\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"isOverride\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"expiresAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"note\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdById\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdBy\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"ExchangeRateToUser\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"transactions\",\"kind\":\"object\",\"type\":\"PaymentTransaction\",\"relationName\":\"ExchangeRateToPaymentTransaction\"}],\"dbName\":null},\"PaymentMethod\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"PaymentMethodToUser\"},{\"name\":\"provider\",\"kind\":\"enum\",\"type\":\"PaymentProvider\"},{\"name\":\"providerCustomerId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"providerCardId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"cardBrand\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"last4Digits\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"expirationMonth\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"expirationYear\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"isDefault\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"StockMovement\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"productId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"product\",\"kind\":\"object\",\"type\":\"Product\",\"relationName\":\"ProductToStockMovement\"},{\"name\":\"variantId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"variant\",\"kind\":\"object\",\"type\":\"ProductVariant\",\"relationName\":\"ProductVariantToStockMovement\"},{\"name\":\"orderId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"order\",\"kind\":\"object\",\"type\":\"Order\",\"relationName\":\"OrderToStockMovement\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"type\",\"kind\":\"enum\",\"type\":\"StockMovementType\"},{\"name\":\"quantity\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"reason\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"Coupon\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"code\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"description\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"type\",\"kind\":\"enum\",\"type\":\"CouponType\"},{\"name\":\"value\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"minOrderTotal\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"startsAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"expiresAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"maxUses\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"maxUsesPerUser\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"usedCount\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"isActive\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"categories\",\"kind\":\"object\",\"type\":\"Category\",\"relationName\":\"CategoryToCoupon\"},{\"name\":\"products\",\"kind\":\"object\",\"type\":\"Product\",\"relationName\":\"CouponToProduct\"},{\"name\":\"orders\",\"kind\":\"object\",\"type\":\"Order\",\"relationName\":\"CouponToOrder\"},{\"name\":\"redemptions\",\"kind\":\"object\",\"type\":\"CouponRedemption\",\"relationName\":\"CouponToCouponRedemption\"},{\"name\":\"cartCoupons\",\"kind\":\"object\",\"type\":\"CartCoupon\",\"relationName\":\"CartCouponToCoupon\"}],\"dbName\":null},\"CouponRedemption\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"couponId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"coupon\",\"kind\":\"object\",\"type\":\"Coupon\",\"relationName\":\"CouponToCouponRedemption\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"CouponRedemptionToUser\"},{\"name\":\"orderId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"order\",\"kind\":\"object\",\"type\":\"Order\",\"relationName\":\"CouponRedemptionToOrder\"},{\"name\":\"discountAmount\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"CartCoupon\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"CartCouponToUser\"},{\"name\":\"couponId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"coupon\",\"kind\":\"object\",\"type\":\"Coupon\",\"relationName\":\"CartCouponToCoupon\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"Refund\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"transactionId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"transaction\",\"kind\":\"object\",\"type\":\"PaymentTransaction\",\"relationName\":\"PaymentTransactionToRefund\"},{\"name\":\"orderId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"order\",\"kind\":\"object\",\"type\":\"Order\",\"relationName\":\"OrderToRefund\"},{\"name\":\"amount\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"reason\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"isManual\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"providerRefundId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"providerData\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"processedById\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"processedBy\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"RefundToUser\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"items\",\"kind\":\"object\",\"type\":\"RefundItem\",\"relationName\":\"RefundToRefundItem\"}],\"dbName\":null},\"RefundItem\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"refundId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"refund\",\"kind\":\"object\",\"type\":\"Refund\",\"relationName\":\"RefundToRefundItem\"},{\"name\":\"orderItemId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"orderItem\",\"kind\":\"object\",\"type\":\"OrderItem\",\"relationName\":\"OrderItemToRefundItem\"},{\"name\":\"quantity\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"amount\",\"kind\":\"scalar\",\"type\":\"Decimal\"}],\"dbName\":null},\"OrderStatusHistory\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"orderId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"order\",\"kind\":\"object\",\"type\":\"Order\",\"relationName\":\"OrderToOrderStatusHistory\"},{\"name\":\"previousStatus\",\"kind\":\"enum\",\"type\":\"OrderStatus\"},{\"name\":\"newStatus\",\"kind\":\"enum\",\"type\":\"OrderStatus\"},{\"name\":\"actor\",\"kind\":\"enum\",\"type\":\"OrderStatusActor\"},{\"name\":\"changedById\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"changedBy\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"OrderStatusHistoryToUser\"},{\"name\":\"note\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"Shipment\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"orderId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"order\",\"kind\":\"object\",\"type\":\"Order\",\"relationName\":\"OrderToShipment\"},{\"name\":\"carrier\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"trackingNumber\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"trackingUrl\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"shippedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"deliveredAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"events\",\"kind\":\"object\",\"type\":\"ShipmentEvent\",\"relationName\":\"ShipmentToShipmentEvent\"}],\"dbName\":null},\"ShipmentEvent\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"shipmentId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"shipment\",\"kind\":\"object\",\"type\":\"Shipment\",\"relationName\":\"ShipmentToShipmentEvent\"},{\"name\":\"description\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"location\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"occurredAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"ShippingZone\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"country\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"states\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"zipCodePrefixes\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"rateBasis\",\"kind\":\"enum\",\"type\":\"ShippingRateBasis\"},{\"name\":\"freeShippingThreshold\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"isActive\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"rates\",\"kind\":\"object\",\"type\":\"ShippingRate\",\"relationName\":\"ShippingRateToShippingZone\"}],\"dbName\":null},\"ShippingRate\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"zoneId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"zone\",\"kind\":\"object\",\"type\":\"ShippingZone\",\"relationName\":\"ShippingRateToShippingZone\"},{\"name\":\"minValue\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"maxValue\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"cost\",\"kind\":\"scalar\",\"type\":\"Decimal\"}],\"dbName\":null},\"TaxRate\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"country\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"categoryId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"category\",\"kind\":\"object\",\"type\":\"Category\",\"relationName\":\"CategoryToTaxRate\"},{\"name\":\"rate\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"priceIncludesTax\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"isActive\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"Review\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"productId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"product\",\"kind\":\"object\",\"type\":\"Product\",\"relationName\":\"ProductToReview\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"ReviewToUser\"},{\"name\":\"rating\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"comment\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"ReviewStatus\"},{\"name\":\"moderationNote\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"moderatedById\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"moderatedBy\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"ReviewModerator\"},{\"name\":\"moderatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"images\",\"kind\":\"object\",\"type\":\"ReviewImage\",\"relationName\":\"ReviewToReviewImage\"}],\"dbName\":null},\"ReviewImage\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"reviewId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"review\",\"kind\":\"object\",\"type\":\"Review\",\"relationName\":\"ReviewToReviewImage\"},{\"name\":\"url\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"order\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"WishlistItem\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"UserToWishlistItem\"},{\"name\":\"productId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"product\",\"kind\":\"object\",\"type\":\"Product\",\"relationName\":\"ProductToWishlistItem\"},{\"name\":\"lastSeenDiscount\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"lastSeenActive\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"WebhookEvent\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"provider\",\"kind\":\"enum\",\"type\":\"PaymentProvider\"},{\"name\":\"eventId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"type\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"resourceId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"payload\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"WebhookEventStatus\"},{\"name\":\"attempts\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"lastError\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"processedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"PaymentStatusChange\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"transactionId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"transaction\",\"kind\":\"object\",\"type\":\"PaymentTransaction\",\"relationName\":\"PaymentStatusChangeToPaymentTransaction\"},{\"name\":\"previousStatus\",\"kind\":\"enum\",\"type\":\"PaymentStatus\"},{\"name\":\"newStatus\",\"kind\":\"enum\",\"type\":\"PaymentStatus\"},{\"name\":\"source\",\"kind\":\"enum\",\"type\":\"PaymentStatusSource\"},{\"name\":\"changedById\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"changedBy\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"PaymentStatusChangeToUser\"},{\"name\":\"note\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"ReconciliationRun\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"startedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"finishedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"checkedCount\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"matchedCount\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"mismatchedCount\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"missingCount\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"updatedCount\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"expiredCount\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"errorCount\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"items\",\"kind\":\"object\",\"type\":\"ReconciliationItem\",\"relationName\":\"ReconciliationItemToReconciliationRun\"}],\"dbName\":null},\"ReconciliationItem\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"runId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"run\",\"kind\":\"object\",\"type\":\"ReconciliationRun\",\"relationName\":\"ReconciliationItemToReconciliationRun\"},{\"name\":\"transactionId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"transaction\",\"kind\":\"object\",\"type\":\"PaymentTransaction\",\"relationName\":\"PaymentTransactionToReconciliationItem\"},{\"name\":\"provider\",\"kind\":\"enum\",\"type\":\"PaymentProvider\"},{\"name\":\"result\",\"kind\":\"enum\",\"type\":\"ReconciliationResult\"},{\"name\":\"localStatus\",\"kind\":\"enum\",\"type\":\"PaymentStatus\"},{\"name\":\"newStatus\",\"kind\":\"enum\",\"type\":\"PaymentStatus\"},{\"name\":\"providerStatus\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"localAmount\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"providerAmount\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"note\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"CryptoPayment\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"transactionId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"transaction\",\"kind\":\"object\",\"type\":\"PaymentTransaction\",\"relationName\":\"CryptoPaymentToPaymentTransaction\"},{\"name\":\"asset\",\"kind\":\"enum\",\"type\":\"CryptoAsset\"},{\"name\":\"network\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"depositAddress\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"memo\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"amountUsd\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"rate\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"cryptoAmount\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"expiresAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"CryptoPaymentStatus\"},{\"name\":\"txHash\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"receivedAmount\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"confirmations\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"detectedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"confirmedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null}},\"enums\":{},\"types\":{}}")
 
 async function decodeBase64AsWasm(wasmBase64: string): Promise<WebAssembly.Module> {
   const { Buffer } = await import('node:buffer')
@@ -214,6 +214,16 @@ export interface PrismaClient<
     */
   get product(): Prisma.ProductDelegate<ExtArgs, { omit: OmitOpts }>;
 
+  /**
+   * `prisma.productVariant`: Exposes CRUD operations for the **ProductVariant** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more ProductVariants
+    * const productVariants = await prisma.productVariant.findMany()
+    * ```
+    */
+  get productVariant(): Prisma.ProductVariantDelegate<ExtArgs, { omit: OmitOpts }>;
+
   /**
    * `prisma.productImage`: Exposes CRUD operations for the **ProductImage** model.
     * Example usage:
@@ -244,6 +254,36 @@ export interface PrismaClient<
     */
   get cartItem(): Prisma.CartItemDelegate<ExtArgs, { omit: OmitOpts }>;
 
+  /**
+   * `prisma.guestCart`: Exposes CRUD operations for the **GuestCart** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more GuestCarts
+    * const guestCarts = await prisma.guestCart.findMany()
+    * ```
+    */
+  get guestCart(): Prisma.GuestCartDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.guestCartItem`: Exposes CRUD operations for the **GuestCartItem** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more GuestCartItems
+    * const guestCartItems = await prisma.guestCartItem.findMany()
+    * ```
+    */
+  get guestCartItem(): Prisma.GuestCartItemDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.cartRecoveryEmail`: Exposes CRUD operations for the **CartRecoveryEmail** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more CartRecoveryEmails
+    * const cartRecoveryEmails = await prisma.cartRecoveryEmail.findMany()
+    * ```
+    */
+  get cartRecoveryEmail(): Prisma.CartRecoveryEmailDelegate<ExtArgs, { omit: OmitOpts }>;
+
   /**
    * `prisma.order`: Exposes CRUD operations for the **Order** model.
     * Example usage:
@@ -274,6 +314,36 @@ export interface PrismaClient<
     */
   get paymentTransaction(): Prisma.PaymentTransactionDelegate<ExtArgs, { omit: OmitOpts }>;
 
+  /**
+   * `prisma.installmentPlan`: Exposes CRUD operations for the **InstallmentPlan** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more InstallmentPlans
+    * const installmentPlans = await prisma.installmentPlan.findMany()
+    * ```
+    */
+  get installmentPlan(): Prisma.InstallmentPlanDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.countryCurrency`: Exposes CRUD operations for the **CountryCurrency** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more CountryCurrencies
+    * const countryCurrencies = await prisma.countryCurrency.findMany()
+    * ```
+    */
+  get countryCurrency(): Prisma.CountryCurrencyDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.exchangeRate`: Exposes CRUD operations for the **ExchangeRate** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more ExchangeRates
+    * const exchangeRates = await prisma.exchangeRate.findMany()
+    * ```
+    */
+  get exchangeRate(): Prisma.ExchangeRateDelegate<ExtArgs, { omit: OmitOpts }>;
+
   /**
    * `prisma.paymentMethod`: Exposes CRUD operations for the **PaymentMethod** model.
     * Example usage:
@@ -283,6 +353,206 @@ export interface PrismaClient<
     * ```
     */
   get paymentMethod(): Prisma.PaymentMethodDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.stockMovement`: Exposes CRUD operations for the **StockMovement** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more StockMovements
+    * const stockMovements = await prisma.stockMovement.findMany()
+    * ```
+    */
+  get stockMovement(): Prisma.StockMovementDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.coupon`: Exposes CRUD operations for the **Coupon** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more Coupons
+    * const coupons = await prisma.coupon.findMany()
+    * ```
+    */
+  get coupon(): Prisma.CouponDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.couponRedemption`: Exposes CRUD operations for the **CouponRedemption** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more CouponRedemptions
+    * const couponRedemptions = await prisma.couponRedemption.findMany()
+    * ```
+    */
+  get couponRedemption(): Prisma.CouponRedemptionDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.cartCoupon`: Exposes CRUD operations for the **CartCoupon** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more CartCoupons
+    * const cartCoupons = await prisma.cartCoupon.findMany()
+    * ```
+    */
+  get cartCoupon(): Prisma.CartCouponDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.refund`: Exposes CRUD operations for the **Refund** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more Refunds
+    * const refunds = await prisma.refund.findMany()
+    * ```
+    */
+  get refund(): Prisma.RefundDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.refundItem`: Exposes CRUD operations for the **RefundItem** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more RefundItems
+    * const refundItems = await prisma.refundItem.findMany()
+    * ```
+    */
+  get refundItem(): Prisma.RefundItemDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.orderStatusHistory`: Exposes CRUD operations for the **OrderStatusHistory** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more OrderStatusHistories
+    * const orderStatusHistories = await prisma.orderStatusHistory.findMany()
+    * ```
+    */
+  get orderStatusHistory(): Prisma.OrderStatusHistoryDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.shipment`: Exposes CRUD operations for the **Shipment** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more Shipments
+    * const shipments = await prisma.shipment.findMany()
+    * ```
+    */
+  get shipment(): Prisma.ShipmentDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.shipmentEvent`: Exposes CRUD operations for the **ShipmentEvent** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more ShipmentEvents
+    * const shipmentEvents = await prisma.shipmentEvent.findMany()
+    * ```
+    */
+  get shipmentEvent(): Prisma.ShipmentEventDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.shippingZone`: Exposes CRUD operations for the **ShippingZone** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more ShippingZones
+    * const shippingZones = await prisma.shippingZone.findMany()
+    * ```
+    */
+  get shippingZone(): Prisma.ShippingZoneDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.shippingRate`: Exposes CRUD operations for the **ShippingRate** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more ShippingRates
+    * const shippingRates = await prisma.shippingRate.findMany()
+    * ```
+    */
+  get shippingRate(): Prisma.ShippingRateDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.taxRate`: Exposes CRUD operations for the **TaxRate** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more TaxRates
+    * const taxRates = await prisma.taxRate.findMany()
+    * ```
+    */
+  get taxRate(): Prisma.TaxRateDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.review`: Exposes CRUD operations for the **Review** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more Reviews
+    * const reviews = await prisma.review.findMany()
+    * ```
+    */
+  get review(): Prisma.ReviewDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.reviewImage`: Exposes CRUD operations for the **ReviewImage** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more ReviewImages
+    * const reviewImages = await prisma.reviewImage.findMany()
+    * ```
+    */
+  get reviewImage(): Prisma.ReviewImageDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.wishlistItem`: Exposes CRUD operations for the **WishlistItem** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more WishlistItems
+    * const wishlistItems = await prisma.wishlistItem.findMany()
+    * ```
+    */
+  get wishlistItem(): Prisma.WishlistItemDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.webhookEvent`: Exposes CRUD operations for the **WebhookEvent** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more WebhookEvents
+    * const webhookEvents = await prisma.webhookEvent.findMany()
+    * ```
+    */
+  get webhookEvent(): Prisma.WebhookEventDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.paymentStatusChange`: Exposes CRUD operations for the **PaymentStatusChange** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more PaymentStatusChanges
+    * const paymentStatusChanges = await prisma.paymentStatusChange.findMany()
+    * ```
+    */
+  get paymentStatusChange(): Prisma.PaymentStatusChangeDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.reconciliationRun`: Exposes CRUD operations for the **ReconciliationRun** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more ReconciliationRuns
+    * const reconciliationRuns = await prisma.reconciliationRun.findMany()
+    * ```
+    */
+  get reconciliationRun(): Prisma.ReconciliationRunDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.reconciliationItem`: Exposes CRUD operations for the **ReconciliationItem** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more ReconciliationItems
+    * const reconciliationItems = await prisma.reconciliationItem.findMany()
+    * ```
+    */
+  get reconciliationItem(): Prisma.ReconciliationItemDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.cryptoPayment`: Exposes CRUD operations for the **CryptoPayment** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more CryptoPayments
+    * const cryptoPayments = await prisma.cryptoPayment.findMany()
+    * ```
+    */
+  get cryptoPayment(): Prisma.CryptoPaymentDelegate<ExtArgs, { omit: OmitOpts }>;
 }
 
 export function getPrismaClientClass(): PrismaClientConstructor {
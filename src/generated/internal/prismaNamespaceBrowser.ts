@@ -55,13 +55,40 @@ export const ModelName = {
   Category: 'Category',
   Subcategory: 'Subcategory',
   Product: 'Product',
+  ProductVariant: 'ProductVariant',
   ProductImage: 'ProductImage',
   Address: 'Address',
   CartItem: 'CartItem',
+  GuestCart: 'GuestCart',
+  GuestCartItem: 'GuestCartItem',
+  CartRecoveryEmail: 'CartRecoveryEmail',
   Order: 'Order',
   OrderItem: 'OrderItem',
   PaymentTransaction: 'PaymentTransaction',
-  PaymentMethod: 'PaymentMethod'
+  InstallmentPlan: 'InstallmentPlan',
+  CountryCurrency: 'CountryCurrency',
+  ExchangeRate: 'ExchangeRate',
+  PaymentMethod: 'PaymentMethod',
+  StockMovement: 'StockMovement',
+  Coupon: 'Coupon',
+  CouponRedemption: 'CouponRedemption',
+  CartCoupon: 'CartCoupon',
+  Refund: 'Refund',
+  RefundItem: 'RefundItem',
+  OrderStatusHistory: 'OrderStatusHistory',
+  Shipment: 'Shipment',
+  ShipmentEvent: 'ShipmentEvent',
+  ShippingZone: 'ShippingZone',
+  ShippingRate: 'ShippingRate',
+  TaxRate: 'TaxRate',
+  Review: 'Review',
+  ReviewImage: 'ReviewImage',
+  WishlistItem: 'WishlistItem',
+  WebhookEvent: 'WebhookEvent',
+  PaymentStatusChange: 'PaymentStatusChange',
+  ReconciliationRun: 'ReconciliationRun',
+  ReconciliationItem: 'ReconciliationItem',
+  CryptoPayment: 'CryptoPayment'
 } as const
 
 export type ModelName = (typeof ModelName)[keyof typeof ModelName]
@@ -92,6 +119,7 @@ export const UserScalarFieldEnum = {
   role: 'role',
   googleId: 'googleId',
   isVerified: 'isVerified',
+  isGuest: 'isGuest',
   verificationToken: 'verificationToken',
   verificationTokenExpiresAt: 'verificationTokenExpiresAt',
   resetPasswordToken: 'resetPasswordToken',
@@ -134,6 +162,10 @@ export const ProductScalarFieldEnum = {
   discount: 'discount',
   country: 'country',
   isActive: 'isActive',
+  stock: 'stock',
+  weight: 'weight',
+  averageRating: 'averageRating',
+  reviewCount: 'reviewCount',
   categoryId: 'categoryId',
   subcategoryId: 'subcategoryId',
   createdAt: 'createdAt',
@@ -143,6 +175,23 @@ export const ProductScalarFieldEnum = {
 export type ProductScalarFieldEnum = (typeof ProductScalarFieldEnum)[keyof typeof ProductScalarFieldEnum]
 
 
+export const ProductVariantScalarFieldEnum = {
+  id: 'id',
+  productId: 'productId',
+  sku: 'sku',
+  size: 'size',
+  color: 'color',
+  price: 'price',
+  stock: 'stock',
+  imageUrl: 'imageUrl',
+  isActive: 'isActive',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type ProductVariantScalarFieldEnum = (typeof ProductVariantScalarFieldEnum)[keyof typeof ProductVariantScalarFieldEnum]
+
+
 export const ProductImageScalarFieldEnum = {
   id: 'id',
   productId: 'productId',
@@ -175,7 +224,9 @@ export const CartItemScalarFieldEnum = {
   id: 'id',
   userId: 'userId',
   productId: 'productId',
+  variantId: 'variantId',
   quantity: 'quantity',
+  priceSnapshot: 'priceSnapshot',
   createdAt: 'createdAt',
   updatedAt: 'updatedAt'
 } as const
@@ -183,13 +234,60 @@ export const CartItemScalarFieldEnum = {
 export type CartItemScalarFieldEnum = (typeof CartItemScalarFieldEnum)[keyof typeof CartItemScalarFieldEnum]
 
 
+export const GuestCartScalarFieldEnum = {
+  id: 'id',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type GuestCartScalarFieldEnum = (typeof GuestCartScalarFieldEnum)[keyof typeof GuestCartScalarFieldEnum]
+
+
+export const GuestCartItemScalarFieldEnum = {
+  id: 'id',
+  guestCartId: 'guestCartId',
+  productId: 'productId',
+  variantId: 'variantId',
+  quantity: 'quantity',
+  priceSnapshot: 'priceSnapshot',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type GuestCartItemScalarFieldEnum = (typeof GuestCartItemScalarFieldEnum)[keyof typeof GuestCartItemScalarFieldEnum]
+
+
+export const CartRecoveryEmailScalarFieldEnum = {
+  id: 'id',
+  userId: 'userId',
+  step: 'step',
+  cartUpdatedAt: 'cartUpdatedAt',
+  items: 'items',
+  token: 'token',
+  sentAt: 'sentAt',
+  restoredAt: 'restoredAt'
+} as const
+
+export type CartRecoveryEmailScalarFieldEnum = (typeof CartRecoveryEmailScalarFieldEnum)[keyof typeof CartRecoveryEmailScalarFieldEnum]
+
+
 export const OrderScalarFieldEnum = {
   id: 'id',
   userId: 'userId',
   addressId: 'addressId',
+  subtotal: 'subtotal',
+  taxAmount: 'taxAmount',
+  taxableAmount: 'taxableAmount',
   total: 'total',
   status: 'status',
   depositImageUrl: 'depositImageUrl',
+  stockReserved: 'stockReserved',
+  couponId: 'couponId',
+  couponCode: 'couponCode',
+  discountAmount: 'discountAmount',
+  shippingCost: 'shippingCost',
+  paymentRemindersSent: 'paymentRemindersSent',
+  lastPaymentReminderAt: 'lastPaymentReminderAt',
   createdAt: 'createdAt',
   updatedAt: 'updatedAt'
 } as const
@@ -201,8 +299,11 @@ export const OrderItemScalarFieldEnum = {
   id: 'id',
   orderId: 'orderId',
   productId: 'productId',
+  variantId: 'variantId',
   quantity: 'quantity',
   price: 'price',
+  taxRate: 'taxRate',
+  taxAmount: 'taxAmount',
   createdAt: 'createdAt'
 } as const
 
@@ -215,11 +316,24 @@ export const PaymentTransactionScalarFieldEnum = {
   userId: 'userId',
   clientTransactionId: 'clientTransactionId',
   amount: 'amount',
+  taxAmount: 'taxAmount',
+  taxableAmount: 'taxableAmount',
   status: 'status',
   paymentProvider: 'paymentProvider',
   addressId: 'addressId',
   paymentMethodId: 'paymentMethodId',
   payphoneData: 'payphoneData',
+  refundedAmount: 'refundedAmount',
+  reviewedById: 'reviewedById',
+  reviewedAt: 'reviewedAt',
+  reviewNote: 'reviewNote',
+  requiresReview: 'requiresReview',
+  chargedCurrency: 'chargedCurrency',
+  chargedAmount: 'chargedAmount',
+  exchangeRate: 'exchangeRate',
+  exchangeRateId: 'exchangeRateId',
+  installments: 'installments',
+  installmentPlanId: 'installmentPlanId',
   createdAt: 'createdAt',
   updatedAt: 'updatedAt'
 } as const
@@ -227,10 +341,57 @@ export const PaymentTransactionScalarFieldEnum = {
 export type PaymentTransactionScalarFieldEnum = (typeof PaymentTransactionScalarFieldEnum)[keyof typeof PaymentTransactionScalarFieldEnum]
 
 
+export const InstallmentPlanScalarFieldEnum = {
+  id: 'id',
+  name: 'name',
+  provider: 'provider',
+  installments: 'installments',
+  interestRate: 'interestRate',
+  minAmount: 'minAmount',
+  categoryId: 'categoryId',
+  startsAt: 'startsAt',
+  expiresAt: 'expiresAt',
+  isActive: 'isActive',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type InstallmentPlanScalarFieldEnum = (typeof InstallmentPlanScalarFieldEnum)[keyof typeof InstallmentPlanScalarFieldEnum]
+
+
+export const CountryCurrencyScalarFieldEnum = {
+  id: 'id',
+  country: 'country',
+  currency: 'currency',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type CountryCurrencyScalarFieldEnum = (typeof CountryCurrencyScalarFieldEnum)[keyof typeof CountryCurrencyScalarFieldEnum]
+
+
+export const ExchangeRateScalarFieldEnum = {
+  id: 'id',
+  baseCurrency: 'baseCurrency',
+  currency: 'currency',
+  rate: 'rate',
+  source: 'source',
+  isOverride: 'isOverride',
+  expiresAt: 'expiresAt',
+  note: 'note',
+  createdById: 'createdById',
+  createdAt: 'createdAt'
+} as const
+
+export type ExchangeRateScalarFieldEnum = (typeof ExchangeRateScalarFieldEnum)[keyof typeof ExchangeRateScalarFieldEnum]
+
+
 export const PaymentMethodScalarFieldEnum = {
   id: 'id',
   userId: 'userId',
-  gatewayToken: 'gatewayToken',
+  provider: 'provider',
+  providerCustomerId: 'providerCustomerId',
+  providerCardId: 'providerCardId',
   cardBrand: 'cardBrand',
   last4Digits: 'last4Digits',
   expirationMonth: 'expirationMonth',
@@ -243,6 +404,303 @@ export const PaymentMethodScalarFieldEnum = {
 export type PaymentMethodScalarFieldEnum = (typeof PaymentMethodScalarFieldEnum)[keyof typeof PaymentMethodScalarFieldEnum]
 
 
+export const StockMovementScalarFieldEnum = {
+  id: 'id',
+  productId: 'productId',
+  variantId: 'variantId',
+  orderId: 'orderId',
+  userId: 'userId',
+  type: 'type',
+  quantity: 'quantity',
+  reason: 'reason',
+  createdAt: 'createdAt'
+} as const
+
+export type StockMovementScalarFieldEnum = (typeof StockMovementScalarFieldEnum)[keyof typeof StockMovementScalarFieldEnum]
+
+
+export const CouponScalarFieldEnum = {
+  id: 'id',
+  code: 'code',
+  description: 'description',
+  type: 'type',
+  value: 'value',
+  minOrderTotal: 'minOrderTotal',
+  startsAt: 'startsAt',
+  expiresAt: 'expiresAt',
+  maxUses: 'maxUses',
+  maxUsesPerUser: 'maxUsesPerUser',
+  usedCount: 'usedCount',
+  isActive: 'isActive',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type CouponScalarFieldEnum = (typeof CouponScalarFieldEnum)[keyof typeof CouponScalarFieldEnum]
+
+
+export const CouponRedemptionScalarFieldEnum = {
+  id: 'id',
+  couponId: 'couponId',
+  userId: 'userId',
+  orderId: 'orderId',
+  discountAmount: 'discountAmount',
+  createdAt: 'createdAt'
+} as const
+
+export type CouponRedemptionScalarFieldEnum = (typeof CouponRedemptionScalarFieldEnum)[keyof typeof CouponRedemptionScalarFieldEnum]
+
+
+export const CartCouponScalarFieldEnum = {
+  id: 'id',
+  userId: 'userId',
+  couponId: 'couponId',
+  createdAt: 'createdAt'
+} as const
+
+export type CartCouponScalarFieldEnum = (typeof CartCouponScalarFieldEnum)[keyof typeof CartCouponScalarFieldEnum]
+
+
+export const RefundScalarFieldEnum = {
+  id: 'id',
+  transactionId: 'transactionId',
+  orderId: 'orderId',
+  amount: 'amount',
+  reason: 'reason',
+  isManual: 'isManual',
+  providerRefundId: 'providerRefundId',
+  providerData: 'providerData',
+  processedById: 'processedById',
+  createdAt: 'createdAt'
+} as const
+
+export type RefundScalarFieldEnum = (typeof RefundScalarFieldEnum)[keyof typeof RefundScalarFieldEnum]
+
+
+export const RefundItemScalarFieldEnum = {
+  id: 'id',
+  refundId: 'refundId',
+  orderItemId: 'orderItemId',
+  quantity: 'quantity',
+  amount: 'amount'
+} as const
+
+export type RefundItemScalarFieldEnum = (typeof RefundItemScalarFieldEnum)[keyof typeof RefundItemScalarFieldEnum]
+
+
+export const OrderStatusHistoryScalarFieldEnum = {
+  id: 'id',
+  orderId: 'orderId',
+  previousStatus: 'previousStatus',
+  newStatus: 'newStatus',
+  actor: 'actor',
+  changedById: 'changedById',
+  note: 'note',
+  createdAt: 'createdAt'
+} as const
+
+export type OrderStatusHistoryScalarFieldEnum = (typeof OrderStatusHistoryScalarFieldEnum)[keyof typeof OrderStatusHistoryScalarFieldEnum]
+
+
+export const ShipmentScalarFieldEnum = {
+  id: 'id',
+  orderId: 'orderId',
+  carrier: 'carrier',
+  trackingNumber: 'trackingNumber',
+  trackingUrl: 'trackingUrl',
+  shippedAt: 'shippedAt',
+  deliveredAt: 'deliveredAt',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type ShipmentScalarFieldEnum = (typeof ShipmentScalarFieldEnum)[keyof typeof ShipmentScalarFieldEnum]
+
+
+export const ShipmentEventScalarFieldEnum = {
+  id: 'id',
+  shipmentId: 'shipmentId',
+  description: 'description',
+  location: 'location',
+  occurredAt: 'occurredAt',
+  createdAt: 'createdAt'
+} as const
+
+export type ShipmentEventScalarFieldEnum = (typeof ShipmentEventScalarFieldEnum)[keyof typeof ShipmentEventScalarFieldEnum]
+
+
+export const ShippingZoneScalarFieldEnum = {
+  id: 'id',
+  name: 'name',
+  country: 'country',
+  states: 'states',
+  zipCodePrefixes: 'zipCodePrefixes',
+  rateBasis: 'rateBasis',
+  freeShippingThreshold: 'freeShippingThreshold',
+  isActive: 'isActive',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type ShippingZoneScalarFieldEnum = (typeof ShippingZoneScalarFieldEnum)[keyof typeof ShippingZoneScalarFieldEnum]
+
+
+export const ShippingRateScalarFieldEnum = {
+  id: 'id',
+  zoneId: 'zoneId',
+  minValue: 'minValue',
+  maxValue: 'maxValue',
+  cost: 'cost'
+} as const
+
+export type ShippingRateScalarFieldEnum = (typeof ShippingRateScalarFieldEnum)[keyof typeof ShippingRateScalarFieldEnum]
+
+
+export const TaxRateScalarFieldEnum = {
+  id: 'id',
+  name: 'name',
+  country: 'country',
+  categoryId: 'categoryId',
+  rate: 'rate',
+  priceIncludesTax: 'priceIncludesTax',
+  isActive: 'isActive',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type TaxRateScalarFieldEnum = (typeof TaxRateScalarFieldEnum)[keyof typeof TaxRateScalarFieldEnum]
+
+
+export const ReviewScalarFieldEnum = {
+  id: 'id',
+  productId: 'productId',
+  userId: 'userId',
+  rating: 'rating',
+  comment: 'comment',
+  status: 'status',
+  moderationNote: 'moderationNote',
+  moderatedById: 'moderatedById',
+  moderatedAt: 'moderatedAt',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type ReviewScalarFieldEnum = (typeof ReviewScalarFieldEnum)[keyof typeof ReviewScalarFieldEnum]
+
+
+export const ReviewImageScalarFieldEnum = {
+  id: 'id',
+  reviewId: 'reviewId',
+  url: 'url',
+  order: 'order',
+  createdAt: 'createdAt'
+} as const
+
+export type ReviewImageScalarFieldEnum = (typeof ReviewImageScalarFieldEnum)[keyof typeof ReviewImageScalarFieldEnum]
+
+
+export const WishlistItemScalarFieldEnum = {
+  id: 'id',
+  userId: 'userId',
+  productId: 'productId',
+  lastSeenDiscount: 'lastSeenDiscount',
+  lastSeenActive: 'lastSeenActive',
+  createdAt: 'createdAt'
+} as const
+
+export type WishlistItemScalarFieldEnum = (typeof WishlistItemScalarFieldEnum)[keyof typeof WishlistItemScalarFieldEnum]
+
+
+export const WebhookEventScalarFieldEnum = {
+  id: 'id',
+  provider: 'provider',
+  eventId: 'eventId',
+  type: 'type',
+  resourceId: 'resourceId',
+  payload: 'payload',
+  status: 'status',
+  attempts: 'attempts',
+  lastError: 'lastError',
+  processedAt: 'processedAt',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type WebhookEventScalarFieldEnum = (typeof WebhookEventScalarFieldEnum)[keyof typeof WebhookEventScalarFieldEnum]
+
+
+export const PaymentStatusChangeScalarFieldEnum = {
+  id: 'id',
+  transactionId: 'transactionId',
+  previousStatus: 'previousStatus',
+  newStatus: 'newStatus',
+  source: 'source',
+  changedById: 'changedById',
+  note: 'note',
+  createdAt: 'createdAt'
+} as const
+
+export type PaymentStatusChangeScalarFieldEnum = (typeof PaymentStatusChangeScalarFieldEnum)[keyof typeof PaymentStatusChangeScalarFieldEnum]
+
+
+export const ReconciliationRunScalarFieldEnum = {
+  id: 'id',
+  startedAt: 'startedAt',
+  finishedAt: 'finishedAt',
+  checkedCount: 'checkedCount',
+  matchedCount: 'matchedCount',
+  mismatchedCount: 'mismatchedCount',
+  missingCount: 'missingCount',
+  updatedCount: 'updatedCount',
+  expiredCount: 'expiredCount',
+  errorCount: 'errorCount'
+} as const
+
+export type ReconciliationRunScalarFieldEnum = (typeof ReconciliationRunScalarFieldEnum)[keyof typeof ReconciliationRunScalarFieldEnum]
+
+
+export const ReconciliationItemScalarFieldEnum = {
+  id: 'id',
+  runId: 'runId',
+  transactionId: 'transactionId',
+  provider: 'provider',
+  result: 'result',
+  localStatus: 'localStatus',
+  newStatus: 'newStatus',
+  providerStatus: 'providerStatus',
+  localAmount: 'localAmount',
+  providerAmount: 'providerAmount',
+  note: 'note',
+  createdAt: 'createdAt'
+} as const
+
+export type ReconciliationItemScalarFieldEnum = (typeof ReconciliationItemScalarFieldEnum)[keyof typeof ReconciliationItemScalarFieldEnum]
+
+
+export const CryptoPaymentScalarFieldEnum = {
+  id: 'id',
+  transactionId: 'transactionId',
+  asset: 'asset',
+  network: 'network',
+  depositAddress: 'depositAddress',
+  memo: 'memo',
+  amountUsd: 'amountUsd',
+  rate: 'rate',
+  cryptoAmount: 'cryptoAmount',
+  expiresAt: 'expiresAt',
+  status: 'status',
+  txHash: 'txHash',
+  receivedAmount: 'receivedAmount',
+  confirmations: 'confirmations',
+  detectedAt: 'detectedAt',
+  confirmedAt: 'confirmedAt',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type CryptoPaymentScalarFieldEnum = (typeof CryptoPaymentScalarFieldEnum)[keyof typeof CryptoPaymentScalarFieldEnum]
+
+
 export const SortOrder = {
   asc: 'asc',
   desc: 'desc'
@@ -251,6 +709,13 @@ export const SortOrder = {
 export type SortOrder = (typeof SortOrder)[keyof typeof SortOrder]
 
 
+export const JsonNullValueInput = {
+  JsonNull: 'JsonNull'
+} as const
+
+export type JsonNullValueInput = (typeof JsonNullValueInput)[keyof typeof JsonNullValueInput]
+
+
 export const NullableJsonNullValueInput = {
   DbNull: 'DbNull',
   JsonNull: 'JsonNull'
@@ -12,11 +12,38 @@ export type * from './models/User.js'
 export type * from './models/Category.js'
 export type * from './models/Subcategory.js'
 export type * from './models/Product.js'
+export type * from './models/ProductVariant.js'
 export type * from './models/ProductImage.js'
 export type * from './models/Address.js'
 export type * from './models/CartItem.js'
+export type * from './models/GuestCart.js'
+export type * from './models/GuestCartItem.js'
+export type * from './models/CartRecoveryEmail.js'
 export type * from './models/Order.js'
 export type * from './models/OrderItem.js'
 export type * from './models/PaymentTransaction.js'
+export type * from './models/InstallmentPlan.js'
+export type * from './models/CountryCurrency.js'
+export type * from './models/ExchangeRate.js'
 export type * from './models/PaymentMethod.js'
+export type * from './models/StockMovement.js'
+export type * from './models/Coupon.js'
+export type * from './models/CouponRedemption.js'
+export type * from './models/CartCoupon.js'
+export type * from './models/Refund.js'
+export type * from './models/RefundItem.js'
+export type * from './models/OrderStatusHistory.js'
+export type * from './models/Shipment.js'
+export type * from './models/ShipmentEvent.js'
+export type * from './models/ShippingZone.js'
+export type * from './models/ShippingRate.js'
+export type * from './models/TaxRate.js'
+export type * from './models/Review.js'
+export type * from './models/ReviewImage.js'
+export type * from './models/WishlistItem.js'
+export type * from './models/WebhookEvent.js'
+export type * from './models/PaymentStatusChange.js'
+export type * from './models/ReconciliationRun.js'
+export type * from './models/ReconciliationItem.js'
+export type * from './models/CryptoPayment.js'
 export type * from './commonInputTypes.js'
\ No newline at end of file
@@ -0,0 +1,1490 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `CartRecoveryEmail` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums.js"
+import type * as Prisma from "../internal/prismaNamespace.js"
+
+/**
+ * Model CartRecoveryEmail
+ * 
+ */
+export type CartRecoveryEmailModel = runtime.Types.Result.DefaultSelection<Prisma.$CartRecoveryEmailPayload>
+
+export type AggregateCartRecoveryEmail = {
+  _count: CartRecoveryEmailCountAggregateOutputType | null
+  _avg: CartRecoveryEmailAvgAggregateOutputType | null
+  _sum: CartRecoveryEmailSumAggregateOutputType | null
+  _min: CartRecoveryEmailMinAggregateOutputType | null
+  _max: CartRecoveryEmailMaxAggregateOutputType | null
+}
+
+export type CartRecoveryEmailAvgAggregateOutputType = {
+  step: number | null
+}
+
+export type CartRecoveryEmailSumAggregateOutputType = {
+  step: number | null
+}
+
+export type CartRecoveryEmailMinAggregateOutputType = {
+  id: string | null
+  userId: string | null
+  step: number | null
+  cartUpdatedAt: Date | null
+  token: string | null
+  sentAt: Date | null
+  restoredAt: Date | null
+}
+
+export type CartRecoveryEmailMaxAggregateOutputType = {
+  id: string | null
+  userId: string | null
+  step: number | null
+  cartUpdatedAt: Date | null
+  token: string | null
+  sentAt: Date | null
+  restoredAt: Date | null
+}
+
+export type CartRecoveryEmailCountAggregateOutputType = {
+  id: number
+  userId: number
+  step: number
+  cartUpdatedAt: number
+  items: number
+  token: number
+  sentAt: number
+  restoredAt: number
+  _all: number
+}
+
+
+export type CartRecoveryEmailAvgAggregateInputType = {
+  step?: true
+}
+
+export type CartRecoveryEmailSumAggregateInputType = {
+  step?: true
+}
+
+export type CartRecoveryEmailMinAggregateInputType = {
+  id?: true
+  userId?: true
+  step?: true
+  cartUpdatedAt?: true
+  token?: true
+  sentAt?: true
+  restoredAt?: true
+}
+
+export type CartRecoveryEmailMaxAggregateInputType = {
+  id?: true
+  userId?: true
+  step?: true
+  cartUpdatedAt?: true
+  token?: true
+  sentAt?: true
+  restoredAt?: true
+}
+
+export type CartRecoveryEmailCountAggregateInputType = {
+  id?: true
+  userId?: true
+  step?: true
+  cartUpdatedAt?: true
+  items?: true
+  token?: true
+  sentAt?: true
+  restoredAt?: true
+  _all?: true
+}
+
+export type CartRecoveryEmailAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which CartRecoveryEmail to aggregate.
+   */
+  where?: Prisma.CartRecoveryEmailWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of CartRecoveryEmails to fetch.
+   */
+  orderBy?: Prisma.CartRecoveryEmailOrderByWithRelationInput | Prisma.CartRecoveryEmailOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.CartRecoveryEmailWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` CartRecoveryEmails from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` CartRecoveryEmails.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned CartRecoveryEmails
+  **/
+  _count?: true | CartRecoveryEmailCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: CartRecoveryEmailAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: CartRecoveryEmailSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: CartRecoveryEmailMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: CartRecoveryEmailMaxAggregateInputType
+}
+
+export type GetCartRecoveryEmailAggregateType<T extends CartRecoveryEmailAggregateArgs> = {
+      [P in keyof T & keyof AggregateCartRecoveryEmail]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateCartRecoveryEmail[P]>
+    : Prisma.GetScalarType<T[P], AggregateCartRecoveryEmail[P]>
+}
+
+
+
+
+export type CartRecoveryEmailGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.CartRecoveryEmailWhereInput
+  orderBy?: Prisma.CartRecoveryEmailOrderByWithAggregationInput | Prisma.CartRecoveryEmailOrderByWithAggregationInput[]
+  by: Prisma.CartRecoveryEmailScalarFieldEnum[] | Prisma.CartRecoveryEmailScalarFieldEnum
+  having?: Prisma.CartRecoveryEmailScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: CartRecoveryEmailCountAggregateInputType | true
+  _avg?: CartRecoveryEmailAvgAggregateInputType
+  _sum?: CartRecoveryEmailSumAggregateInputType
+  _min?: CartRecoveryEmailMinAggregateInputType
+  _max?: CartRecoveryEmailMaxAggregateInputType
+}
+
+export type CartRecoveryEmailGroupByOutputType = {
+  id: string
+  userId: string
+  step: number
+  cartUpdatedAt: Date
+  items: runtime.JsonValue
+  token: string
+  sentAt: Date
+  restoredAt: Date | null
+  _count: CartRecoveryEmailCountAggregateOutputType | null
+  _avg: CartRecoveryEmailAvgAggregateOutputType | null
+  _sum: CartRecoveryEmailSumAggregateOutputType | null
+  _min: CartRecoveryEmailMinAggregateOutputType | null
+  _max: CartRecoveryEmailMaxAggregateOutputType | null
+}
+
+type GetCartRecoveryEmailGroupByPayload<T extends CartRecoveryEmailGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<CartRecoveryEmailGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof CartRecoveryEmailGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], CartRecoveryEmailGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], CartRecoveryEmailGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type CartRecoveryEmailWhereInput = {
+  AND?: Prisma.CartRecoveryEmailWhereInput | Prisma.CartRecoveryEmailWhereInput[]
+  OR?: Prisma.CartRecoveryEmailWhereInput[]
+  NOT?: Prisma.CartRecoveryEmailWhereInput | Prisma.CartRecoveryEmailWhereInput[]
+  id?: Prisma.StringFilter<"CartRecoveryEmail"> | string
+  userId?: Prisma.StringFilter<"CartRecoveryEmail"> | string
+  step?: Prisma.IntFilter<"CartRecoveryEmail"> | number
+  cartUpdatedAt?: Prisma.DateTimeFilter<"CartRecoveryEmail"> | Date | string
+  items?: Prisma.JsonFilter<"CartRecoveryEmail">
+  token?: Prisma.StringFilter<"CartRecoveryEmail"> | string
+  sentAt?: Prisma.DateTimeFilter<"CartRecoveryEmail"> | Date | string
+  restoredAt?: Prisma.DateTimeNullableFilter<"CartRecoveryEmail"> | Date | string | null
+  user?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
+}
+
+export type CartRecoveryEmailOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  step?: Prisma.SortOrder
+  cartUpdatedAt?: Prisma.SortOrder
+  items?: Prisma.SortOrder
+  token?: Prisma.SortOrder
+  sentAt?: Prisma.SortOrder
+  restoredAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  user?: Prisma.UserOrderByWithRelationInput
+}
+
+export type CartRecoveryEmailWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  token?: string
+  userId_cartUpdatedAt_step?: Prisma.CartRecoveryEmailUserIdCartUpdatedAtStepCompoundUniqueInput
+  AND?: Prisma.CartRecoveryEmailWhereInput | Prisma.CartRecoveryEmailWhereInput[]
+  OR?: Prisma.CartRecoveryEmailWhereInput[]
+  NOT?: Prisma.CartRecoveryEmailWhereInput | Prisma.CartRecoveryEmailWhereInput[]
+  userId?: Prisma.StringFilter<"CartRecoveryEmail"> | string
+  step?: Prisma.IntFilter<"CartRecoveryEmail"> | number
+  cartUpdatedAt?: Prisma.DateTimeFilter<"CartRecoveryEmail"> | Date | string
+  items?: Prisma.JsonFilter<"CartRecoveryEmail">
+  sentAt?: Prisma.DateTimeFilter<"CartRecoveryEmail"> | Date | string
+  restoredAt?: Prisma.DateTimeNullableFilter<"CartRecoveryEmail"> | Date | string | null
+  user?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
+}, "id" | "token" | "userId_cartUpdatedAt_step">
+
+export type CartRecoveryEmailOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  step?: Prisma.SortOrder
+  cartUpdatedAt?: Prisma.SortOrder
+  items?: Prisma.SortOrder
+  token?: Prisma.SortOrder
+  sentAt?: Prisma.SortOrder
+  restoredAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  _count?: Prisma.CartRecoveryEmailCountOrderByAggregateInput
+  _avg?: Prisma.CartRecoveryEmailAvgOrderByAggregateInput
+  _max?: Prisma.CartRecoveryEmailMaxOrderByAggregateInput
+  _min?: Prisma.CartRecoveryEmailMinOrderByAggregateInput
+  _sum?: Prisma.CartRecoveryEmailSumOrderByAggregateInput
+}
+
+export type CartRecoveryEmailScalarWhereWithAggregatesInput = {
+  AND?: Prisma.CartRecoveryEmailScalarWhereWithAggregatesInput | Prisma.CartRecoveryEmailScalarWhereWithAggregatesInput[]
+  OR?: Prisma.CartRecoveryEmailScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.CartRecoveryEmailScalarWhereWithAggregatesInput | Prisma.CartRecoveryEmailScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"CartRecoveryEmail"> | string
+  userId?: Prisma.StringWithAggregatesFilter<"CartRecoveryEmail"> | string
+  step?: Prisma.IntWithAggregatesFilter<"CartRecoveryEmail"> | number
+  cartUpdatedAt?: Prisma.DateTimeWithAggregatesFilter<"CartRecoveryEmail"> | Date | string
+  items?: Prisma.JsonWithAggregatesFilter<"CartRecoveryEmail">
+  token?: Prisma.StringWithAggregatesFilter<"CartRecoveryEmail"> | string
+  sentAt?: Prisma.DateTimeWithAggregatesFilter<"CartRecoveryEmail"> | Date | string
+  restoredAt?: Prisma.DateTimeNullableWithAggregatesFilter<"CartRecoveryEmail"> | Date | string | null
+}
+
+export type CartRecoveryEmailCreateInput = {
+  id?: string
+  step: number
+  cartUpdatedAt: Date | string
+  items: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  token: string
+  sentAt?: Date | string
+  restoredAt?: Date | string | null
+  user: Prisma.UserCreateNestedOneWithoutCartRecoveryEmailsInput
+}
+
+export type CartRecoveryEmailUncheckedCreateInput = {
+  id?: string
+  userId: string
+  step: number
+  cartUpdatedAt: Date | string
+  items: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  token: string
+  sentAt?: Date | string
+  restoredAt?: Date | string | null
+}
+
+export type CartRecoveryEmailUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  step?: Prisma.IntFieldUpdateOperationsInput | number
+  cartUpdatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  items?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  token?: Prisma.StringFieldUpdateOperationsInput | string
+  sentAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  restoredAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  user?: Prisma.UserUpdateOneRequiredWithoutCartRecoveryEmailsNestedInput
+}
+
+export type CartRecoveryEmailUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  step?: Prisma.IntFieldUpdateOperationsInput | number
+  cartUpdatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  items?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  token?: Prisma.StringFieldUpdateOperationsInput | string
+  sentAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  restoredAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+}
+
+export type CartRecoveryEmailCreateManyInput = {
+  id?: string
+  userId: string
+  step: number
+  cartUpdatedAt: Date | string
+  items: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  token: string
+  sentAt?: Date | string
+  restoredAt?: Date | string | null
+}
+
+export type CartRecoveryEmailUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  step?: Prisma.IntFieldUpdateOperationsInput | number
+  cartUpdatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  items?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  token?: Prisma.StringFieldUpdateOperationsInput | string
+  sentAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  restoredAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+}
+
+export type CartRecoveryEmailUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  step?: Prisma.IntFieldUpdateOperationsInput | number
+  cartUpdatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  items?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  token?: Prisma.StringFieldUpdateOperationsInput | string
+  sentAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  restoredAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+}
+
+export type CartRecoveryEmailListRelationFilter = {
+  every?: Prisma.CartRecoveryEmailWhereInput
+  some?: Prisma.CartRecoveryEmailWhereInput
+  none?: Prisma.CartRecoveryEmailWhereInput
+}
+
+export type CartRecoveryEmailOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type CartRecoveryEmailUserIdCartUpdatedAtStepCompoundUniqueInput = {
+  userId: string
+  cartUpdatedAt: Date | string
+  step: number
+}
+
+export type CartRecoveryEmailCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  step?: Prisma.SortOrder
+  cartUpdatedAt?: Prisma.SortOrder
+  items?: Prisma.SortOrder
+  token?: Prisma.SortOrder
+  sentAt?: Prisma.SortOrder
+  restoredAt?: Prisma.SortOrder
+}
+
+export type CartRecoveryEmailAvgOrderByAggregateInput = {
+  step?: Prisma.SortOrder
+}
+
+export type CartRecoveryEmailMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  step?: Prisma.SortOrder
+  cartUpdatedAt?: Prisma.SortOrder
+  token?: Prisma.SortOrder
+  sentAt?: Prisma.SortOrder
+  restoredAt?: Prisma.SortOrder
+}
+
+export type CartRecoveryEmailMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  step?: Prisma.SortOrder
+  cartUpdatedAt?: Prisma.SortOrder
+  token?: Prisma.SortOrder
+  sentAt?: Prisma.SortOrder
+  restoredAt?: Prisma.SortOrder
+}
+
+export type CartRecoveryEmailSumOrderByAggregateInput = {
+  step?: Prisma.SortOrder
+}
+
+export type CartRecoveryEmailCreateNestedManyWithoutUserInput = {
+  create?: Prisma.XOR<Prisma.CartRecoveryEmailCreateWithoutUserInput, Prisma.CartRecoveryEmailUncheckedCreateWithoutUserInput> | Prisma.CartRecoveryEmailCreateWithoutUserInput[] | Prisma.CartRecoveryEmailUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.CartRecoveryEmailCreateOrConnectWithoutUserInput | Prisma.CartRecoveryEmailCreateOrConnectWithoutUserInput[]
+  createMany?: Prisma.CartRecoveryEmailCreateManyUserInputEnvelope
+  connect?: Prisma.CartRecoveryEmailWhereUniqueInput | Prisma.CartRecoveryEmailWhereUniqueInput[]
+}
+
+export type CartRecoveryEmailUncheckedCreateNestedManyWithoutUserInput = {
+  create?: Prisma.XOR<Prisma.CartRecoveryEmailCreateWithoutUserInput, Prisma.CartRecoveryEmailUncheckedCreateWithoutUserInput> | Prisma.CartRecoveryEmailCreateWithoutUserInput[] | Prisma.CartRecoveryEmailUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.CartRecoveryEmailCreateOrConnectWithoutUserInput | Prisma.CartRecoveryEmailCreateOrConnectWithoutUserInput[]
+  createMany?: Prisma.CartRecoveryEmailCreateManyUserInputEnvelope
+  connect?: Prisma.CartRecoveryEmailWhereUniqueInput | Prisma.CartRecoveryEmailWhereUniqueInput[]
+}
+
+export type CartRecoveryEmailUpdateManyWithoutUserNestedInput = {
+  create?: Prisma.XOR<Prisma.CartRecoveryEmailCreateWithoutUserInput, Prisma.CartRecoveryEmailUncheckedCreateWithoutUserInput> | Prisma.CartRecoveryEmailCreateWithoutUserInput[] | Prisma.CartRecoveryEmailUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.CartRecoveryEmailCreateOrConnectWithoutUserInput | Prisma.CartRecoveryEmailCreateOrConnectWithoutUserInput[]
+  upsert?: Prisma.CartRecoveryEmailUpsertWithWhereUniqueWithoutUserInput | Prisma.CartRecoveryEmailUpsertWithWhereUniqueWithoutUserInput[]
+  createMany?: Prisma.CartRecoveryEmailCreateManyUserInputEnvelope
+  set?: Prisma.CartRecoveryEmailWhereUniqueInput | Prisma.CartRecoveryEmailWhereUniqueInput[]
+  disconnect?: Prisma.CartRecoveryEmailWhereUniqueInput | Prisma.CartRecoveryEmailWhereUniqueInput[]
+  delete?: Prisma.CartRecoveryEmailWhereUniqueInput | Prisma.CartRecoveryEmailWhereUniqueInput[]
+  connect?: Prisma.CartRecoveryEmailWhereUniqueInput | Prisma.CartRecoveryEmailWhereUniqueInput[]
+  update?: Prisma.CartRecoveryEmailUpdateWithWhereUniqueWithoutUserInput | Prisma.CartRecoveryEmailUpdateWithWhereUniqueWithoutUserInput[]
+  updateMany?: Prisma.CartRecoveryEmailUpdateManyWithWhereWithoutUserInput | Prisma.CartRecoveryEmailUpdateManyWithWhereWithoutUserInput[]
+  deleteMany?: Prisma.CartRecoveryEmailScalarWhereInput | Prisma.CartRecoveryEmailScalarWhereInput[]
+}
+
+export type CartRecoveryEmailUncheckedUpdateManyWithoutUserNestedInput = {
+  create?: Prisma.XOR<Prisma.CartRecoveryEmailCreateWithoutUserInput, Prisma.CartRecoveryEmailUncheckedCreateWithoutUserInput> | Prisma.CartRecoveryEmailCreateWithoutUserInput[] | Prisma.CartRecoveryEmailUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.CartRecoveryEmailCreateOrConnectWithoutUserInput | Prisma.CartRecoveryEmailCreateOrConnectWithoutUserInput[]
+  upsert?: Prisma.CartRecoveryEmailUpsertWithWhereUniqueWithoutUserInput | Prisma.CartRecoveryEmailUpsertWithWhereUniqueWithoutUserInput[]
+  createMany?: Prisma.CartRecoveryEmailCreateManyUserInputEnvelope
+  set?: Prisma.CartRecoveryEmailWhereUniqueInput | Prisma.CartRecoveryEmailWhereUniqueInput[]
+  disconnect?: Prisma.CartRecoveryEmailWhereUniqueInput | Prisma.CartRecoveryEmailWhereUniqueInput[]
+  delete?: Prisma.CartRecoveryEmailWhereUniqueInput | Prisma.CartRecoveryEmailWhereUniqueInput[]
+  connect?: Prisma.CartRecoveryEmailWhereUniqueInput | Prisma.CartRecoveryEmailWhereUniqueInput[]
+  update?: Prisma.CartRecoveryEmailUpdateWithWhereUniqueWithoutUserInput | Prisma.CartRecoveryEmailUpdateWithWhereUniqueWithoutUserInput[]
+  updateMany?: Prisma.CartRecoveryEmailUpdateManyWithWhereWithoutUserInput | Prisma.CartRecoveryEmailUpdateManyWithWhereWithoutUserInput[]
+  deleteMany?: Prisma.CartRecoveryEmailScalarWhereInput | Prisma.CartRecoveryEmailScalarWhereInput[]
+}
+
+export type CartRecoveryEmailCreateWithoutUserInput = {
+  id?: string
+  step: number
+  cartUpdatedAt: Date | string
+  items: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  token: string
+  sentAt?: Date | string
+  restoredAt?: Date | string | null
+}
+
+export type CartRecoveryEmailUncheckedCreateWithoutUserInput = {
+  id?: string
+  step: number
+  cartUpdatedAt: Date | string
+  items: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  token: string
+  sentAt?: Date | string
+  restoredAt?: Date | string | null
+}
+
+export type CartRecoveryEmailCreateOrConnectWithoutUserInput = {
+  where: Prisma.CartRecoveryEmailWhereUniqueInput
+  create: Prisma.XOR<Prisma.CartRecoveryEmailCreateWithoutUserInput, Prisma.CartRecoveryEmailUncheckedCreateWithoutUserInput>
+}
+
+export type CartRecoveryEmailCreateManyUserInputEnvelope = {
+  data: Prisma.CartRecoveryEmailCreateManyUserInput | Prisma.CartRecoveryEmailCreateManyUserInput[]
+  skipDuplicates?: boolean
+}
+
+export type CartRecoveryEmailUpsertWithWhereUniqueWithoutUserInput = {
+  where: Prisma.CartRecoveryEmailWhereUniqueInput
+  update: Prisma.XOR<Prisma.CartRecoveryEmailUpdateWithoutUserInput, Prisma.CartRecoveryEmailUncheckedUpdateWithoutUserInput>
+  create: Prisma.XOR<Prisma.CartRecoveryEmailCreateWithoutUserInput, Prisma.CartRecoveryEmailUncheckedCreateWithoutUserInput>
+}
+
+export type CartRecoveryEmailUpdateWithWhereUniqueWithoutUserInput = {
+  where: Prisma.CartRecoveryEmailWhereUniqueInput
+  data: Prisma.XOR<Prisma.CartRecoveryEmailUpdateWithoutUserInput, Prisma.CartRecoveryEmailUncheckedUpdateWithoutUserInput>
+}
+
+export type CartRecoveryEmailUpdateManyWithWhereWithoutUserInput = {
+  where: Prisma.CartRecoveryEmailScalarWhereInput
+  data: Prisma.XOR<Prisma.CartRecoveryEmailUpdateManyMutationInput, Prisma.CartRecoveryEmailUncheckedUpdateManyWithoutUserInput>
+}
+
+export type CartRecoveryEmailScalarWhereInput = {
+  AND?: Prisma.CartRecoveryEmailScalarWhereInput | Prisma.CartRecoveryEmailScalarWhereInput[]
+  OR?: Prisma.CartRecoveryEmailScalarWhereInput[]
+  NOT?: Prisma.CartRecoveryEmailScalarWhereInput | Prisma.CartRecoveryEmailScalarWhereInput[]
+  id?: Prisma.StringFilter<"CartRecoveryEmail"> | string
+  userId?: Prisma.StringFilter<"CartRecoveryEmail"> | string
+  step?: Prisma.IntFilter<"CartRecoveryEmail"> | number
+  cartUpdatedAt?: Prisma.DateTimeFilter<"CartRecoveryEmail"> | Date | string
+  items?: Prisma.JsonFilter<"CartRecoveryEmail">
+  token?: Prisma.StringFilter<"CartRecoveryEmail"> | string
+  sentAt?: Prisma.DateTimeFilter<"CartRecoveryEmail"> | Date | string
+  restoredAt?: Prisma.DateTimeNullableFilter<"CartRecoveryEmail"> | Date | string | null
+}
+
+export type CartRecoveryEmailCreateManyUserInput = {
+  id?: string
+  step: number
+  cartUpdatedAt: Date | string
+  items: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  token: string
+  sentAt?: Date | string
+  restoredAt?: Date | string | null
+}
+
+export type CartRecoveryEmailUpdateWithoutUserInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  step?: Prisma.IntFieldUpdateOperationsInput | number
+  cartUpdatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  items?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  token?: Prisma.StringFieldUpdateOperationsInput | string
+  sentAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  restoredAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+}
+
+export type CartRecoveryEmailUncheckedUpdateWithoutUserInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  step?: Prisma.IntFieldUpdateOperationsInput | number
+  cartUpdatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  items?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  token?: Prisma.StringFieldUpdateOperationsInput | string
+  sentAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  restoredAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+}
+
+export type CartRecoveryEmailUncheckedUpdateManyWithoutUserInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  step?: Prisma.IntFieldUpdateOperationsInput | number
+  cartUpdatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  items?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  token?: Prisma.StringFieldUpdateOperationsInput | string
+  sentAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  restoredAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+}
+
+
+
+export type CartRecoveryEmailSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  userId?: boolean
+  step?: boolean
+  cartUpdatedAt?: boolean
+  items?: boolean
+  token?: boolean
+  sentAt?: boolean
+  restoredAt?: boolean
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["cartRecoveryEmail"]>
+
+export type CartRecoveryEmailSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  userId?: boolean
+  step?: boolean
+  cartUpdatedAt?: boolean
+  items?: boolean
+  token?: boolean
+  sentAt?: boolean
+  restoredAt?: boolean
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["cartRecoveryEmail"]>
+
+export type CartRecoveryEmailSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  userId?: boolean
+  step?: boolean
+  cartUpdatedAt?: boolean
+  items?: boolean
+  token?: boolean
+  sentAt?: boolean
+  restoredAt?: boolean
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["cartRecoveryEmail"]>
+
+export type CartRecoveryEmailSelectScalar = {
+  id?: boolean
+  userId?: boolean
+  step?: boolean
+  cartUpdatedAt?: boolean
+  items?: boolean
+  token?: boolean
+  sentAt?: boolean
+  restoredAt?: boolean
+}
+
+export type CartRecoveryEmailOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "userId" | "step" | "cartUpdatedAt" | "items" | "token" | "sentAt" | "restoredAt", ExtArgs["result"]["cartRecoveryEmail"]>
+export type CartRecoveryEmailInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}
+export type CartRecoveryEmailIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}
+export type CartRecoveryEmailIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}
+
+export type $CartRecoveryEmailPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "CartRecoveryEmail"
+  objects: {
+    user: Prisma.$UserPayload<ExtArgs>
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    userId: string
+    step: number
+    cartUpdatedAt: Date
+    items: runtime.JsonValue
+    token: string
+    sentAt: Date
+    restoredAt: Date | null
+  }, ExtArgs["result"]["cartRecoveryEmail"]>
+  composites: {}
+}
+
+export type CartRecoveryEmailGetPayload<S extends boolean | null | undefined | CartRecoveryEmailDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$CartRecoveryEmailPayload, S>
+
+export type CartRecoveryEmailCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<CartRecoveryEmailFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: CartRecoveryEmailCountAggregateInputType | true
+  }
+
+export interface CartRecoveryEmailDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['CartRecoveryEmail'], meta: { name: 'CartRecoveryEmail' } }
+  /**
+   * Find zero or one CartRecoveryEmail that matches the filter.
+   * @param {CartRecoveryEmailFindUniqueArgs} args - Arguments to find a CartRecoveryEmail
+   * @example
+   * // Get one CartRecoveryEmail
+   * const cartRecoveryEmail = await prisma.cartRecoveryEmail.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends CartRecoveryEmailFindUniqueArgs>(args: Prisma.SelectSubset<T, CartRecoveryEmailFindUniqueArgs<ExtArgs>>): Prisma.Prisma__CartRecoveryEmailClient<runtime.Types.Result.GetResult<Prisma.$CartRecoveryEmailPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one CartRecoveryEmail that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {CartRecoveryEmailFindUniqueOrThrowArgs} args - Arguments to find a CartRecoveryEmail
+   * @example
+   * // Get one CartRecoveryEmail
+   * const cartRecoveryEmail = await prisma.cartRecoveryEmail.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends CartRecoveryEmailFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, CartRecoveryEmailFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__CartRecoveryEmailClient<runtime.Types.Result.GetResult<Prisma.$CartRecoveryEmailPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first CartRecoveryEmail that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CartRecoveryEmailFindFirstArgs} args - Arguments to find a CartRecoveryEmail
+   * @example
+   * // Get one CartRecoveryEmail
+   * const cartRecoveryEmail = await prisma.cartRecoveryEmail.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends CartRecoveryEmailFindFirstArgs>(args?: Prisma.SelectSubset<T, CartRecoveryEmailFindFirstArgs<ExtArgs>>): Prisma.Prisma__CartRecoveryEmailClient<runtime.Types.Result.GetResult<Prisma.$CartRecoveryEmailPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first CartRecoveryEmail that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CartRecoveryEmailFindFirstOrThrowArgs} args - Arguments to find a CartRecoveryEmail
+   * @example
+   * // Get one CartRecoveryEmail
+   * const cartRecoveryEmail = await prisma.cartRecoveryEmail.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends CartRecoveryEmailFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, CartRecoveryEmailFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__CartRecoveryEmailClient<runtime.Types.Result.GetResult<Prisma.$CartRecoveryEmailPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more CartRecoveryEmails that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CartRecoveryEmailFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all CartRecoveryEmails
+   * const cartRecoveryEmails = await prisma.cartRecoveryEmail.findMany()
+   * 
+   * // Get first 10 CartRecoveryEmails
+   * const cartRecoveryEmails = await prisma.cartRecoveryEmail.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const cartRecoveryEmailWithIdOnly = await prisma.cartRecoveryEmail.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends CartRecoveryEmailFindManyArgs>(args?: Prisma.SelectSubset<T, CartRecoveryEmailFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$CartRecoveryEmailPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a CartRecoveryEmail.
+   * @param {CartRecoveryEmailCreateArgs} args - Arguments to create a CartRecoveryEmail.
+   * @example
+   * // Create one CartRecoveryEmail
+   * const CartRecoveryEmail = await prisma.cartRecoveryEmail.create({
+   *   data: {
+   *     // ... data to create a CartRecoveryEmail
+   *   }
+   * })
+   * 
+   */
+  create<T extends CartRecoveryEmailCreateArgs>(args: Prisma.SelectSubset<T, CartRecoveryEmailCreateArgs<ExtArgs>>): Prisma.Prisma__CartRecoveryEmailClient<runtime.Types.Result.GetResult<Prisma.$CartRecoveryEmailPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many CartRecoveryEmails.
+   * @param {CartRecoveryEmailCreateManyArgs} args - Arguments to create many CartRecoveryEmails.
+   * @example
+   * // Create many CartRecoveryEmails
+   * const cartRecoveryEmail = await prisma.cartRecoveryEmail.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends CartRecoveryEmailCreateManyArgs>(args?: Prisma.SelectSubset<T, CartRecoveryEmailCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many CartRecoveryEmails and returns the data saved in the database.
+   * @param {CartRecoveryEmailCreateManyAndReturnArgs} args - Arguments to create many CartRecoveryEmails.
+   * @example
+   * // Create many CartRecoveryEmails
+   * const cartRecoveryEmail = await prisma.cartRecoveryEmail.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many CartRecoveryEmails and only return the `id`
+   * const cartRecoveryEmailWithIdOnly = await prisma.cartRecoveryEmail.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends CartRecoveryEmailCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, CartRecoveryEmailCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$CartRecoveryEmailPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a CartRecoveryEmail.
+   * @param {CartRecoveryEmailDeleteArgs} args - Arguments to delete one CartRecoveryEmail.
+   * @example
+   * // Delete one CartRecoveryEmail
+   * const CartRecoveryEmail = await prisma.cartRecoveryEmail.delete({
+   *   where: {
+   *     // ... filter to delete one CartRecoveryEmail
+   *   }
+   * })
+   * 
+   */
+  delete<T extends CartRecoveryEmailDeleteArgs>(args: Prisma.SelectSubset<T, CartRecoveryEmailDeleteArgs<ExtArgs>>): Prisma.Prisma__CartRecoveryEmailClient<runtime.Types.Result.GetResult<Prisma.$CartRecoveryEmailPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one CartRecoveryEmail.
+   * @param {CartRecoveryEmailUpdateArgs} args - Arguments to update one CartRecoveryEmail.
+   * @example
+   * // Update one CartRecoveryEmail
+   * const cartRecoveryEmail = await prisma.cartRecoveryEmail.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends CartRecoveryEmailUpdateArgs>(args: Prisma.SelectSubset<T, CartRecoveryEmailUpdateArgs<ExtArgs>>): Prisma.Prisma__CartRecoveryEmailClient<runtime.Types.Result.GetResult<Prisma.$CartRecoveryEmailPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more CartRecoveryEmails.
+   * @param {CartRecoveryEmailDeleteManyArgs} args - Arguments to filter CartRecoveryEmails to delete.
+   * @example
+   * // Delete a few CartRecoveryEmails
+   * const { count } = await prisma.cartRecoveryEmail.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends CartRecoveryEmailDeleteManyArgs>(args?: Prisma.SelectSubset<T, CartRecoveryEmailDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more CartRecoveryEmails.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CartRecoveryEmailUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many CartRecoveryEmails
+   * const cartRecoveryEmail = await prisma.cartRecoveryEmail.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends CartRecoveryEmailUpdateManyArgs>(args: Prisma.SelectSubset<T, CartRecoveryEmailUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more CartRecoveryEmails and returns the data updated in the database.
+   * @param {CartRecoveryEmailUpdateManyAndReturnArgs} args - Arguments to update many CartRecoveryEmails.
+   * @example
+   * // Update many CartRecoveryEmails
+   * const cartRecoveryEmail = await prisma.cartRecoveryEmail.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more CartRecoveryEmails and only return the `id`
+   * const cartRecoveryEmailWithIdOnly = await prisma.cartRecoveryEmail.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends CartRecoveryEmailUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, CartRecoveryEmailUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$CartRecoveryEmailPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one CartRecoveryEmail.
+   * @param {CartRecoveryEmailUpsertArgs} args - Arguments to update or create a CartRecoveryEmail.
+   * @example
+   * // Update or create a CartRecoveryEmail
+   * const cartRecoveryEmail = await prisma.cartRecoveryEmail.upsert({
+   *   create: {
+   *     // ... data to create a CartRecoveryEmail
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the CartRecoveryEmail we want to update
+   *   }
+   * })
+   */
+  upsert<T extends CartRecoveryEmailUpsertArgs>(args: Prisma.SelectSubset<T, CartRecoveryEmailUpsertArgs<ExtArgs>>): Prisma.Prisma__CartRecoveryEmailClient<runtime.Types.Result.GetResult<Prisma.$CartRecoveryEmailPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of CartRecoveryEmails.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CartRecoveryEmailCountArgs} args - Arguments to filter CartRecoveryEmails to count.
+   * @example
+   * // Count the number of CartRecoveryEmails
+   * const count = await prisma.cartRecoveryEmail.count({
+   *   where: {
+   *     // ... the filter for the CartRecoveryEmails we want to count
+   *   }
+   * })
+  **/
+  count<T extends CartRecoveryEmailCountArgs>(
+    args?: Prisma.Subset<T, CartRecoveryEmailCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], CartRecoveryEmailCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a CartRecoveryEmail.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CartRecoveryEmailAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends CartRecoveryEmailAggregateArgs>(args: Prisma.Subset<T, CartRecoveryEmailAggregateArgs>): Prisma.PrismaPromise<GetCartRecoveryEmailAggregateType<T>>
+
+  /**
+   * Group by CartRecoveryEmail.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CartRecoveryEmailGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends CartRecoveryEmailGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: CartRecoveryEmailGroupByArgs['orderBy'] }
+      : { orderBy?: CartRecoveryEmailGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, CartRecoveryEmailGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetCartRecoveryEmailGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the CartRecoveryEmail model
+ */
+readonly fields: CartRecoveryEmailFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for CartRecoveryEmail.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__CartRecoveryEmailClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  user<T extends Prisma.UserDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.UserDefaultArgs<ExtArgs>>): Prisma.Prisma__UserClient<runtime.Types.Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the CartRecoveryEmail model
+ */
+export interface CartRecoveryEmailFieldRefs {
+  readonly id: Prisma.FieldRef<"CartRecoveryEmail", 'String'>
+  readonly userId: Prisma.FieldRef<"CartRecoveryEmail", 'String'>
+  readonly step: Prisma.FieldRef<"CartRecoveryEmail", 'Int'>
+  readonly cartUpdatedAt: Prisma.FieldRef<"CartRecoveryEmail", 'DateTime'>
+  readonly items: Prisma.FieldRef<"CartRecoveryEmail", 'Json'>
+  readonly token: Prisma.FieldRef<"CartRecoveryEmail", 'String'>
+  readonly sentAt: Prisma.FieldRef<"CartRecoveryEmail", 'DateTime'>
+  readonly restoredAt: Prisma.FieldRef<"CartRecoveryEmail", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * CartRecoveryEmail findUnique
+ */
+export type CartRecoveryEmailFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CartRecoveryEmail
+   */
+  select?: Prisma.CartRecoveryEmailSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CartRecoveryEmail
+   */
+  omit?: Prisma.CartRecoveryEmailOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CartRecoveryEmailInclude<ExtArgs> | null
+  /**
+   * Filter, which CartRecoveryEmail to fetch.
+   */
+  where: Prisma.CartRecoveryEmailWhereUniqueInput
+}
+
+/**
+ * CartRecoveryEmail findUniqueOrThrow
+ */
+export type CartRecoveryEmailFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CartRecoveryEmail
+   */
+  select?: Prisma.CartRecoveryEmailSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CartRecoveryEmail
+   */
+  omit?: Prisma.CartRecoveryEmailOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CartRecoveryEmailInclude<ExtArgs> | null
+  /**
+   * Filter, which CartRecoveryEmail to fetch.
+   */
+  where: Prisma.CartRecoveryEmailWhereUniqueInput
+}
+
+/**
+ * CartRecoveryEmail findFirst
+ */
+export type CartRecoveryEmailFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CartRecoveryEmail
+   */
+  select?: Prisma.CartRecoveryEmailSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CartRecoveryEmail
+   */
+  omit?: Prisma.CartRecoveryEmailOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CartRecoveryEmailInclude<ExtArgs> | null
+  /**
+   * Filter, which CartRecoveryEmail to fetch.
+   */
+  where?: Prisma.CartRecoveryEmailWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of CartRecoveryEmails to fetch.
+   */
+  orderBy?: Prisma.CartRecoveryEmailOrderByWithRelationInput | Prisma.CartRecoveryEmailOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for CartRecoveryEmails.
+   */
+  cursor?: Prisma.CartRecoveryEmailWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` CartRecoveryEmails from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` CartRecoveryEmails.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of CartRecoveryEmails.
+   */
+  distinct?: Prisma.CartRecoveryEmailScalarFieldEnum | Prisma.CartRecoveryEmailScalarFieldEnum[]
+}
+
+/**
+ * CartRecoveryEmail findFirstOrThrow
+ */
+export type CartRecoveryEmailFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CartRecoveryEmail
+   */
+  select?: Prisma.CartRecoveryEmailSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CartRecoveryEmail
+   */
+  omit?: Prisma.CartRecoveryEmailOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CartRecoveryEmailInclude<ExtArgs> | null
+  /**
+   * Filter, which CartRecoveryEmail to fetch.
+   */
+  where?: Prisma.CartRecoveryEmailWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of CartRecoveryEmails to fetch.
+   */
+  orderBy?: Prisma.CartRecoveryEmailOrderByWithRelationInput | Prisma.CartRecoveryEmailOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for CartRecoveryEmails.
+   */
+  cursor?: Prisma.CartRecoveryEmailWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` CartRecoveryEmails from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` CartRecoveryEmails.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of CartRecoveryEmails.
+   */
+  distinct?: Prisma.CartRecoveryEmailScalarFieldEnum | Prisma.CartRecoveryEmailScalarFieldEnum[]
+}
+
+/**
+ * CartRecoveryEmail findMany
+ */
+export type CartRecoveryEmailFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CartRecoveryEmail
+   */
+  select?: Prisma.CartRecoveryEmailSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CartRecoveryEmail
+   */
+  omit?: Prisma.CartRecoveryEmailOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CartRecoveryEmailInclude<ExtArgs> | null
+  /**
+   * Filter, which CartRecoveryEmails to fetch.
+   */
+  where?: Prisma.CartRecoveryEmailWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of CartRecoveryEmails to fetch.
+   */
+  orderBy?: Prisma.CartRecoveryEmailOrderByWithRelationInput | Prisma.CartRecoveryEmailOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing CartRecoveryEmails.
+   */
+  cursor?: Prisma.CartRecoveryEmailWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` CartRecoveryEmails from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` CartRecoveryEmails.
+   */
+  skip?: number
+  distinct?: Prisma.CartRecoveryEmailScalarFieldEnum | Prisma.CartRecoveryEmailScalarFieldEnum[]
+}
+
+/**
+ * CartRecoveryEmail create
+ */
+export type CartRecoveryEmailCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CartRecoveryEmail
+   */
+  select?: Prisma.CartRecoveryEmailSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CartRecoveryEmail
+   */
+  omit?: Prisma.CartRecoveryEmailOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CartRecoveryEmailInclude<ExtArgs> | null
+  /**
+   * The data needed to create a CartRecoveryEmail.
+   */
+  data: Prisma.XOR<Prisma.CartRecoveryEmailCreateInput, Prisma.CartRecoveryEmailUncheckedCreateInput>
+}
+
+/**
+ * CartRecoveryEmail createMany
+ */
+export type CartRecoveryEmailCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many CartRecoveryEmails.
+   */
+  data: Prisma.CartRecoveryEmailCreateManyInput | Prisma.CartRecoveryEmailCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * CartRecoveryEmail createManyAndReturn
+ */
+export type CartRecoveryEmailCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CartRecoveryEmail
+   */
+  select?: Prisma.CartRecoveryEmailSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the CartRecoveryEmail
+   */
+  omit?: Prisma.CartRecoveryEmailOmit<ExtArgs> | null
+  /**
+   * The data used to create many CartRecoveryEmails.
+   */
+  data: Prisma.CartRecoveryEmailCreateManyInput | Prisma.CartRecoveryEmailCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CartRecoveryEmailIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * CartRecoveryEmail update
+ */
+export type CartRecoveryEmailUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CartRecoveryEmail
+   */
+  select?: Prisma.CartRecoveryEmailSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CartRecoveryEmail
+   */
+  omit?: Prisma.CartRecoveryEmailOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CartRecoveryEmailInclude<ExtArgs> | null
+  /**
+   * The data needed to update a CartRecoveryEmail.
+   */
+  data: Prisma.XOR<Prisma.CartRecoveryEmailUpdateInput, Prisma.CartRecoveryEmailUncheckedUpdateInput>
+  /**
+   * Choose, which CartRecoveryEmail to update.
+   */
+  where: Prisma.CartRecoveryEmailWhereUniqueInput
+}
+
+/**
+ * CartRecoveryEmail updateMany
+ */
+export type CartRecoveryEmailUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update CartRecoveryEmails.
+   */
+  data: Prisma.XOR<Prisma.CartRecoveryEmailUpdateManyMutationInput, Prisma.CartRecoveryEmailUncheckedUpdateManyInput>
+  /**
+   * Filter which CartRecoveryEmails to update
+   */
+  where?: Prisma.CartRecoveryEmailWhereInput
+  /**
+   * Limit how many CartRecoveryEmails to update.
+   */
+  limit?: number
+}
+
+/**
+ * CartRecoveryEmail updateManyAndReturn
+ */
+export type CartRecoveryEmailUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CartRecoveryEmail
+   */
+  select?: Prisma.CartRecoveryEmailSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the CartRecoveryEmail
+   */
+  omit?: Prisma.CartRecoveryEmailOmit<ExtArgs> | null
+  /**
+   * The data used to update CartRecoveryEmails.
+   */
+  data: Prisma.XOR<Prisma.CartRecoveryEmailUpdateManyMutationInput, Prisma.CartRecoveryEmailUncheckedUpdateManyInput>
+  /**
+   * Filter which CartRecoveryEmails to update
+   */
+  where?: Prisma.CartRecoveryEmailWhereInput
+  /**
+   * Limit how many CartRecoveryEmails to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CartRecoveryEmailIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * CartRecoveryEmail upsert
+ */
+export type CartRecoveryEmailUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CartRecoveryEmail
+   */
+  select?: Prisma.CartRecoveryEmailSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CartRecoveryEmail
+   */
+  omit?: Prisma.CartRecoveryEmailOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CartRecoveryEmailInclude<ExtArgs> | null
+  /**
+   * The filter to search for the CartRecoveryEmail to update in case it exists.
+   */
+  where: Prisma.CartRecoveryEmailWhereUniqueInput
+  /**
+   * In case the CartRecoveryEmail found by the `where` argument doesn't exist, create a new CartRecoveryEmail with this data.
+   */
+  create: Prisma.XOR<Prisma.CartRecoveryEmailCreateInput, Prisma.CartRecoveryEmailUncheckedCreateInput>
+  /**
+   * In case the CartRecoveryEmail was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.CartRecoveryEmailUpdateInput, Prisma.CartRecoveryEmailUncheckedUpdateInput>
+}
+
+/**
+ * CartRecoveryEmail delete
+ */
+export type CartRecoveryEmailDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CartRecoveryEmail
+   */
+  select?: Prisma.CartRecoveryEmailSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CartRecoveryEmail
+   */
+  omit?: Prisma.CartRecoveryEmailOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CartRecoveryEmailInclude<ExtArgs> | null
+  /**
+   * Filter which CartRecoveryEmail to delete.
+   */
+  where: Prisma.CartRecoveryEmailWhereUniqueInput
+}
+
+/**
+ * CartRecoveryEmail deleteMany
+ */
+export type CartRecoveryEmailDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which CartRecoveryEmails to delete
+   */
+  where?: Prisma.CartRecoveryEmailWhereInput
+  /**
+   * Limit how many CartRecoveryEmails to delete.
+   */
+  limit?: number
+}
+
+/**
+ * CartRecoveryEmail without action
+ */
+export type CartRecoveryEmailDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CartRecoveryEmail
+   */
+  select?: Prisma.CartRecoveryEmailSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CartRecoveryEmail
+   */
+  omit?: Prisma.CartRecoveryEmailOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CartRecoveryEmailInclude<ExtArgs> | null
+}
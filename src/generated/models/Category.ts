@@ -176,6 +176,9 @@ export type CategoryWhereInput = {
   updatedAt?: Prisma.DateTimeFilter<"Category"> | Date | string
   subcategories?: Prisma.SubcategoryListRelationFilter
   products?: Prisma.ProductListRelationFilter
+  coupons?: Prisma.CouponListRelationFilter
+  taxRates?: Prisma.TaxRateListRelationFilter
+  installmentPlans?: Prisma.InstallmentPlanListRelationFilter
 }
 
 export type CategoryOrderByWithRelationInput = {
@@ -185,6 +188,9 @@ export type CategoryOrderByWithRelationInput = {
   updatedAt?: Prisma.SortOrder
   subcategories?: Prisma.SubcategoryOrderByRelationAggregateInput
   products?: Prisma.ProductOrderByRelationAggregateInput
+  coupons?: Prisma.CouponOrderByRelationAggregateInput
+  taxRates?: Prisma.TaxRateOrderByRelationAggregateInput
+  installmentPlans?: Prisma.InstallmentPlanOrderByRelationAggregateInput
 }
 
 export type CategoryWhereUniqueInput = Prisma.AtLeast<{
@@ -197,6 +203,9 @@ export type CategoryWhereUniqueInput = Prisma.AtLeast<{
   updatedAt?: Prisma.DateTimeFilter<"Category"> | Date | string
   subcategories?: Prisma.SubcategoryListRelationFilter
   products?: Prisma.ProductListRelationFilter
+  coupons?: Prisma.CouponListRelationFilter
+  taxRates?: Prisma.TaxRateListRelationFilter
+  installmentPlans?: Prisma.InstallmentPlanListRelationFilter
 }, "id">
 
 export type CategoryOrderByWithAggregationInput = {
@@ -226,6 +235,9 @@ export type CategoryCreateInput = {
   updatedAt?: Date | string
   subcategories?: Prisma.SubcategoryCreateNestedManyWithoutCategoryInput
   products?: Prisma.ProductCreateNestedManyWithoutCategoryInput
+  coupons?: Prisma.CouponCreateNestedManyWithoutCategoriesInput
+  taxRates?: Prisma.TaxRateCreateNestedManyWithoutCategoryInput
+  installmentPlans?: Prisma.InstallmentPlanCreateNestedManyWithoutCategoryInput
 }
 
 export type CategoryUncheckedCreateInput = {
@@ -235,6 +247,9 @@ export type CategoryUncheckedCreateInput = {
   updatedAt?: Date | string
   subcategories?: Prisma.SubcategoryUncheckedCreateNestedManyWithoutCategoryInput
   products?: Prisma.ProductUncheckedCreateNestedManyWithoutCategoryInput
+  coupons?: Prisma.CouponUncheckedCreateNestedManyWithoutCategoriesInput
+  taxRates?: Prisma.TaxRateUncheckedCreateNestedManyWithoutCategoryInput
+  installmentPlans?: Prisma.InstallmentPlanUncheckedCreateNestedManyWithoutCategoryInput
 }
 
 export type CategoryUpdateInput = {
@@ -244,6 +259,9 @@ export type CategoryUpdateInput = {
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   subcategories?: Prisma.SubcategoryUpdateManyWithoutCategoryNestedInput
   products?: Prisma.ProductUpdateManyWithoutCategoryNestedInput
+  coupons?: Prisma.CouponUpdateManyWithoutCategoriesNestedInput
+  taxRates?: Prisma.TaxRateUpdateManyWithoutCategoryNestedInput
+  installmentPlans?: Prisma.InstallmentPlanUpdateManyWithoutCategoryNestedInput
 }
 
 export type CategoryUncheckedUpdateInput = {
@@ -253,6 +271,9 @@ export type CategoryUncheckedUpdateInput = {
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   subcategories?: Prisma.SubcategoryUncheckedUpdateManyWithoutCategoryNestedInput
   products?: Prisma.ProductUncheckedUpdateManyWithoutCategoryNestedInput
+  coupons?: Prisma.CouponUncheckedUpdateManyWithoutCategoriesNestedInput
+  taxRates?: Prisma.TaxRateUncheckedUpdateManyWithoutCategoryNestedInput
+  installmentPlans?: Prisma.InstallmentPlanUncheckedUpdateManyWithoutCategoryNestedInput
 }
 
 export type CategoryCreateManyInput = {
@@ -302,6 +323,21 @@ export type CategoryScalarRelationFilter = {
   isNot?: Prisma.CategoryWhereInput
 }
 
+export type CategoryNullableScalarRelationFilter = {
+  is?: Prisma.CategoryWhereInput | null
+  isNot?: Prisma.CategoryWhereInput | null
+}
+
+export type CategoryListRelationFilter = {
+  every?: Prisma.CategoryWhereInput
+  some?: Prisma.CategoryWhereInput
+  none?: Prisma.CategoryWhereInput
+}
+
+export type CategoryOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
 export type CategoryCreateNestedOneWithoutSubcategoriesInput = {
   create?: Prisma.XOR<Prisma.CategoryCreateWithoutSubcategoriesInput, Prisma.CategoryUncheckedCreateWithoutSubcategoriesInput>
   connectOrCreate?: Prisma.CategoryCreateOrConnectWithoutSubcategoriesInput
@@ -330,12 +366,85 @@ export type CategoryUpdateOneRequiredWithoutProductsNestedInput = {
   update?: Prisma.XOR<Prisma.XOR<Prisma.CategoryUpdateToOneWithWhereWithoutProductsInput, Prisma.CategoryUpdateWithoutProductsInput>, Prisma.CategoryUncheckedUpdateWithoutProductsInput>
 }
 
+export type CategoryCreateNestedOneWithoutInstallmentPlansInput = {
+  create?: Prisma.XOR<Prisma.CategoryCreateWithoutInstallmentPlansInput, Prisma.CategoryUncheckedCreateWithoutInstallmentPlansInput>
+  connectOrCreate?: Prisma.CategoryCreateOrConnectWithoutInstallmentPlansInput
+  connect?: Prisma.CategoryWhereUniqueInput
+}
+
+export type CategoryUpdateOneWithoutInstallmentPlansNestedInput = {
+  create?: Prisma.XOR<Prisma.CategoryCreateWithoutInstallmentPlansInput, Prisma.CategoryUncheckedCreateWithoutInstallmentPlansInput>
+  connectOrCreate?: Prisma.CategoryCreateOrConnectWithoutInstallmentPlansInput
+  upsert?: Prisma.CategoryUpsertWithoutInstallmentPlansInput
+  disconnect?: Prisma.CategoryWhereInput | boolean
+  delete?: Prisma.CategoryWhereInput | boolean
+  connect?: Prisma.CategoryWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.CategoryUpdateToOneWithWhereWithoutInstallmentPlansInput, Prisma.CategoryUpdateWithoutInstallmentPlansInput>, Prisma.CategoryUncheckedUpdateWithoutInstallmentPlansInput>
+}
+
+export type CategoryCreateNestedManyWithoutCouponsInput = {
+  create?: Prisma.XOR<Prisma.CategoryCreateWithoutCouponsInput, Prisma.CategoryUncheckedCreateWithoutCouponsInput> | Prisma.CategoryCreateWithoutCouponsInput[] | Prisma.CategoryUncheckedCreateWithoutCouponsInput[]
+  connectOrCreate?: Prisma.CategoryCreateOrConnectWithoutCouponsInput | Prisma.CategoryCreateOrConnectWithoutCouponsInput[]
+  connect?: Prisma.CategoryWhereUniqueInput | Prisma.CategoryWhereUniqueInput[]
+}
+
+export type CategoryUncheckedCreateNestedManyWithoutCouponsInput = {
+  create?: Prisma.XOR<Prisma.CategoryCreateWithoutCouponsInput, Prisma.CategoryUncheckedCreateWithoutCouponsInput> | Prisma.CategoryCreateWithoutCouponsInput[] | Prisma.CategoryUncheckedCreateWithoutCouponsInput[]
+  connectOrCreate?: Prisma.CategoryCreateOrConnectWithoutCouponsInput | Prisma.CategoryCreateOrConnectWithoutCouponsInput[]
+  connect?: Prisma.CategoryWhereUniqueInput | Prisma.CategoryWhereUniqueInput[]
+}
+
+export type CategoryUpdateManyWithoutCouponsNestedInput = {
+  create?: Prisma.XOR<Prisma.CategoryCreateWithoutCouponsInput, Prisma.CategoryUncheckedCreateWithoutCouponsInput> | Prisma.CategoryCreateWithoutCouponsInput[] | Prisma.CategoryUncheckedCreateWithoutCouponsInput[]
+  connectOrCreate?: Prisma.CategoryCreateOrConnectWithoutCouponsInput | Prisma.CategoryCreateOrConnectWithoutCouponsInput[]
+  upsert?: Prisma.CategoryUpsertWithWhereUniqueWithoutCouponsInput | Prisma.CategoryUpsertWithWhereUniqueWithoutCouponsInput[]
+  set?: Prisma.CategoryWhereUniqueInput | Prisma.CategoryWhereUniqueInput[]
+  disconnect?: Prisma.CategoryWhereUniqueInput | Prisma.CategoryWhereUniqueInput[]
+  delete?: Prisma.CategoryWhereUniqueInput | Prisma.CategoryWhereUniqueInput[]
+  connect?: Prisma.CategoryWhereUniqueInput | Prisma.CategoryWhereUniqueInput[]
+  update?: Prisma.CategoryUpdateWithWhereUniqueWithoutCouponsInput | Prisma.CategoryUpdateWithWhereUniqueWithoutCouponsInput[]
+  updateMany?: Prisma.CategoryUpdateManyWithWhereWithoutCouponsInput | Prisma.CategoryUpdateManyWithWhereWithoutCouponsInput[]
+  deleteMany?: Prisma.CategoryScalarWhereInput | Prisma.CategoryScalarWhereInput[]
+}
+
+export type CategoryUncheckedUpdateManyWithoutCouponsNestedInput = {
+  create?: Prisma.XOR<Prisma.CategoryCreateWithoutCouponsInput, Prisma.CategoryUncheckedCreateWithoutCouponsInput> | Prisma.CategoryCreateWithoutCouponsInput[] | Prisma.CategoryUncheckedCreateWithoutCouponsInput[]
+  connectOrCreate?: Prisma.CategoryCreateOrConnectWithoutCouponsInput | Prisma.CategoryCreateOrConnectWithoutCouponsInput[]
+  upsert?: Prisma.CategoryUpsertWithWhereUniqueWithoutCouponsInput | Prisma.CategoryUpsertWithWhereUniqueWithoutCouponsInput[]
+  set?: Prisma.CategoryWhereUniqueInput | Prisma.CategoryWhereUniqueInput[]
+  disconnect?: Prisma.CategoryWhereUniqueInput | Prisma.CategoryWhereUniqueInput[]
+  delete?: Prisma.CategoryWhereUniqueInput | Prisma.CategoryWhereUniqueInput[]
+  connect?: Prisma.CategoryWhereUniqueInput | Prisma.CategoryWhereUniqueInput[]
+  update?: Prisma.CategoryUpdateWithWhereUniqueWithoutCouponsInput | Prisma.CategoryUpdateWithWhereUniqueWithoutCouponsInput[]
+  updateMany?: Prisma.CategoryUpdateManyWithWhereWithoutCouponsInput | Prisma.CategoryUpdateManyWithWhereWithoutCouponsInput[]
+  deleteMany?: Prisma.CategoryScalarWhereInput | Prisma.CategoryScalarWhereInput[]
+}
+
+export type CategoryCreateNestedOneWithoutTaxRatesInput = {
+  create?: Prisma.XOR<Prisma.CategoryCreateWithoutTaxRatesInput, Prisma.CategoryUncheckedCreateWithoutTaxRatesInput>
+  connectOrCreate?: Prisma.CategoryCreateOrConnectWithoutTaxRatesInput
+  connect?: Prisma.CategoryWhereUniqueInput
+}
+
+export type CategoryUpdateOneWithoutTaxRatesNestedInput = {
+  create?: Prisma.XOR<Prisma.CategoryCreateWithoutTaxRatesInput, Prisma.CategoryUncheckedCreateWithoutTaxRatesInput>
+  connectOrCreate?: Prisma.CategoryCreateOrConnectWithoutTaxRatesInput
+  upsert?: Prisma.CategoryUpsertWithoutTaxRatesInput
+  disconnect?: Prisma.CategoryWhereInput | boolean
+  delete?: Prisma.CategoryWhereInput | boolean
+  connect?: Prisma.CategoryWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.CategoryUpdateToOneWithWhereWithoutTaxRatesInput, Prisma.CategoryUpdateWithoutTaxRatesInput>, Prisma.CategoryUncheckedUpdateWithoutTaxRatesInput>
+}
+
 export type CategoryCreateWithoutSubcategoriesInput = {
   id?: string
   name: string
   createdAt?: Date | string
   updatedAt?: Date | string
   products?: Prisma.ProductCreateNestedManyWithoutCategoryInput
+  coupons?: Prisma.CouponCreateNestedManyWithoutCategoriesInput
+  taxRates?: Prisma.TaxRateCreateNestedManyWithoutCategoryInput
+  installmentPlans?: Prisma.InstallmentPlanCreateNestedManyWithoutCategoryInput
 }
 
 export type CategoryUncheckedCreateWithoutSubcategoriesInput = {
@@ -344,6 +453,9 @@ export type CategoryUncheckedCreateWithoutSubcategoriesInput = {
   createdAt?: Date | string
   updatedAt?: Date | string
   products?: Prisma.ProductUncheckedCreateNestedManyWithoutCategoryInput
+  coupons?: Prisma.CouponUncheckedCreateNestedManyWithoutCategoriesInput
+  taxRates?: Prisma.TaxRateUncheckedCreateNestedManyWithoutCategoryInput
+  installmentPlans?: Prisma.InstallmentPlanUncheckedCreateNestedManyWithoutCategoryInput
 }
 
 export type CategoryCreateOrConnectWithoutSubcategoriesInput = {
@@ -368,6 +480,9 @@ export type CategoryUpdateWithoutSubcategoriesInput = {
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   products?: Prisma.ProductUpdateManyWithoutCategoryNestedInput
+  coupons?: Prisma.CouponUpdateManyWithoutCategoriesNestedInput
+  taxRates?: Prisma.TaxRateUpdateManyWithoutCategoryNestedInput
+  installmentPlans?: Prisma.InstallmentPlanUpdateManyWithoutCategoryNestedInput
 }
 
 export type CategoryUncheckedUpdateWithoutSubcategoriesInput = {
@@ -376,6 +491,9 @@ export type CategoryUncheckedUpdateWithoutSubcategoriesInput = {
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   products?: Prisma.ProductUncheckedUpdateManyWithoutCategoryNestedInput
+  coupons?: Prisma.CouponUncheckedUpdateManyWithoutCategoriesNestedInput
+  taxRates?: Prisma.TaxRateUncheckedUpdateManyWithoutCategoryNestedInput
+  installmentPlans?: Prisma.InstallmentPlanUncheckedUpdateManyWithoutCategoryNestedInput
 }
 
 export type CategoryCreateWithoutProductsInput = {
@@ -384,6 +502,9 @@ export type CategoryCreateWithoutProductsInput = {
   createdAt?: Date | string
   updatedAt?: Date | string
   subcategories?: Prisma.SubcategoryCreateNestedManyWithoutCategoryInput
+  coupons?: Prisma.CouponCreateNestedManyWithoutCategoriesInput
+  taxRates?: Prisma.TaxRateCreateNestedManyWithoutCategoryInput
+  installmentPlans?: Prisma.InstallmentPlanCreateNestedManyWithoutCategoryInput
 }
 
 export type CategoryUncheckedCreateWithoutProductsInput = {
@@ -392,6 +513,9 @@ export type CategoryUncheckedCreateWithoutProductsInput = {
   createdAt?: Date | string
   updatedAt?: Date | string
   subcategories?: Prisma.SubcategoryUncheckedCreateNestedManyWithoutCategoryInput
+  coupons?: Prisma.CouponUncheckedCreateNestedManyWithoutCategoriesInput
+  taxRates?: Prisma.TaxRateUncheckedCreateNestedManyWithoutCategoryInput
+  installmentPlans?: Prisma.InstallmentPlanUncheckedCreateNestedManyWithoutCategoryInput
 }
 
 export type CategoryCreateOrConnectWithoutProductsInput = {
@@ -416,6 +540,9 @@ export type CategoryUpdateWithoutProductsInput = {
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   subcategories?: Prisma.SubcategoryUpdateManyWithoutCategoryNestedInput
+  coupons?: Prisma.CouponUpdateManyWithoutCategoriesNestedInput
+  taxRates?: Prisma.TaxRateUpdateManyWithoutCategoryNestedInput
+  installmentPlans?: Prisma.InstallmentPlanUpdateManyWithoutCategoryNestedInput
 }
 
 export type CategoryUncheckedUpdateWithoutProductsInput = {
@@ -424,6 +551,211 @@ export type CategoryUncheckedUpdateWithoutProductsInput = {
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   subcategories?: Prisma.SubcategoryUncheckedUpdateManyWithoutCategoryNestedInput
+  coupons?: Prisma.CouponUncheckedUpdateManyWithoutCategoriesNestedInput
+  taxRates?: Prisma.TaxRateUncheckedUpdateManyWithoutCategoryNestedInput
+  installmentPlans?: Prisma.InstallmentPlanUncheckedUpdateManyWithoutCategoryNestedInput
+}
+
+export type CategoryCreateWithoutInstallmentPlansInput = {
+  id?: string
+  name: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  subcategories?: Prisma.SubcategoryCreateNestedManyWithoutCategoryInput
+  products?: Prisma.ProductCreateNestedManyWithoutCategoryInput
+  coupons?: Prisma.CouponCreateNestedManyWithoutCategoriesInput
+  taxRates?: Prisma.TaxRateCreateNestedManyWithoutCategoryInput
+}
+
+export type CategoryUncheckedCreateWithoutInstallmentPlansInput = {
+  id?: string
+  name: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  subcategories?: Prisma.SubcategoryUncheckedCreateNestedManyWithoutCategoryInput
+  products?: Prisma.ProductUncheckedCreateNestedManyWithoutCategoryInput
+  coupons?: Prisma.CouponUncheckedCreateNestedManyWithoutCategoriesInput
+  taxRates?: Prisma.TaxRateUncheckedCreateNestedManyWithoutCategoryInput
+}
+
+export type CategoryCreateOrConnectWithoutInstallmentPlansInput = {
+  where: Prisma.CategoryWhereUniqueInput
+  create: Prisma.XOR<Prisma.CategoryCreateWithoutInstallmentPlansInput, Prisma.CategoryUncheckedCreateWithoutInstallmentPlansInput>
+}
+
+export type CategoryUpsertWithoutInstallmentPlansInput = {
+  update: Prisma.XOR<Prisma.CategoryUpdateWithoutInstallmentPlansInput, Prisma.CategoryUncheckedUpdateWithoutInstallmentPlansInput>
+  create: Prisma.XOR<Prisma.CategoryCreateWithoutInstallmentPlansInput, Prisma.CategoryUncheckedCreateWithoutInstallmentPlansInput>
+  where?: Prisma.CategoryWhereInput
+}
+
+export type CategoryUpdateToOneWithWhereWithoutInstallmentPlansInput = {
+  where?: Prisma.CategoryWhereInput
+  data: Prisma.XOR<Prisma.CategoryUpdateWithoutInstallmentPlansInput, Prisma.CategoryUncheckedUpdateWithoutInstallmentPlansInput>
+}
+
+export type CategoryUpdateWithoutInstallmentPlansInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  subcategories?: Prisma.SubcategoryUpdateManyWithoutCategoryNestedInput
+  products?: Prisma.ProductUpdateManyWithoutCategoryNestedInput
+  coupons?: Prisma.CouponUpdateManyWithoutCategoriesNestedInput
+  taxRates?: Prisma.TaxRateUpdateManyWithoutCategoryNestedInput
+}
+
+export type CategoryUncheckedUpdateWithoutInstallmentPlansInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  subcategories?: Prisma.SubcategoryUncheckedUpdateManyWithoutCategoryNestedInput
+  products?: Prisma.ProductUncheckedUpdateManyWithoutCategoryNestedInput
+  coupons?: Prisma.CouponUncheckedUpdateManyWithoutCategoriesNestedInput
+  taxRates?: Prisma.TaxRateUncheckedUpdateManyWithoutCategoryNestedInput
+}
+
+export type CategoryCreateWithoutCouponsInput = {
+  id?: string
+  name: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  subcategories?: Prisma.SubcategoryCreateNestedManyWithoutCategoryInput
+  products?: Prisma.ProductCreateNestedManyWithoutCategoryInput
+  taxRates?: Prisma.TaxRateCreateNestedManyWithoutCategoryInput
+  installmentPlans?: Prisma.InstallmentPlanCreateNestedManyWithoutCategoryInput
+}
+
+export type CategoryUncheckedCreateWithoutCouponsInput = {
+  id?: string
+  name: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  subcategories?: Prisma.SubcategoryUncheckedCreateNestedManyWithoutCategoryInput
+  products?: Prisma.ProductUncheckedCreateNestedManyWithoutCategoryInput
+  taxRates?: Prisma.TaxRateUncheckedCreateNestedManyWithoutCategoryInput
+  installmentPlans?: Prisma.InstallmentPlanUncheckedCreateNestedManyWithoutCategoryInput
+}
+
+export type CategoryCreateOrConnectWithoutCouponsInput = {
+  where: Prisma.CategoryWhereUniqueInput
+  create: Prisma.XOR<Prisma.CategoryCreateWithoutCouponsInput, Prisma.CategoryUncheckedCreateWithoutCouponsInput>
+}
+
+export type CategoryUpsertWithWhereUniqueWithoutCouponsInput = {
+  where: Prisma.CategoryWhereUniqueInput
+  update: Prisma.XOR<Prisma.CategoryUpdateWithoutCouponsInput, Prisma.CategoryUncheckedUpdateWithoutCouponsInput>
+  create: Prisma.XOR<Prisma.CategoryCreateWithoutCouponsInput, Prisma.CategoryUncheckedCreateWithoutCouponsInput>
+}
+
+export type CategoryUpdateWithWhereUniqueWithoutCouponsInput = {
+  where: Prisma.CategoryWhereUniqueInput
+  data: Prisma.XOR<Prisma.CategoryUpdateWithoutCouponsInput, Prisma.CategoryUncheckedUpdateWithoutCouponsInput>
+}
+
+export type CategoryUpdateManyWithWhereWithoutCouponsInput = {
+  where: Prisma.CategoryScalarWhereInput
+  data: Prisma.XOR<Prisma.CategoryUpdateManyMutationInput, Prisma.CategoryUncheckedUpdateManyWithoutCouponsInput>
+}
+
+export type CategoryScalarWhereInput = {
+  AND?: Prisma.CategoryScalarWhereInput | Prisma.CategoryScalarWhereInput[]
+  OR?: Prisma.CategoryScalarWhereInput[]
+  NOT?: Prisma.CategoryScalarWhereInput | Prisma.CategoryScalarWhereInput[]
+  id?: Prisma.StringFilter<"Category"> | string
+  name?: Prisma.StringFilter<"Category"> | string
+  createdAt?: Prisma.DateTimeFilter<"Category"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"Category"> | Date | string
+}
+
+export type CategoryCreateWithoutTaxRatesInput = {
+  id?: string
+  name: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  subcategories?: Prisma.SubcategoryCreateNestedManyWithoutCategoryInput
+  products?: Prisma.ProductCreateNestedManyWithoutCategoryInput
+  coupons?: Prisma.CouponCreateNestedManyWithoutCategoriesInput
+  installmentPlans?: Prisma.InstallmentPlanCreateNestedManyWithoutCategoryInput
+}
+
+export type CategoryUncheckedCreateWithoutTaxRatesInput = {
+  id?: string
+  name: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  subcategories?: Prisma.SubcategoryUncheckedCreateNestedManyWithoutCategoryInput
+  products?: Prisma.ProductUncheckedCreateNestedManyWithoutCategoryInput
+  coupons?: Prisma.CouponUncheckedCreateNestedManyWithoutCategoriesInput
+  installmentPlans?: Prisma.InstallmentPlanUncheckedCreateNestedManyWithoutCategoryInput
+}
+
+export type CategoryCreateOrConnectWithoutTaxRatesInput = {
+  where: Prisma.CategoryWhereUniqueInput
+  create: Prisma.XOR<Prisma.CategoryCreateWithoutTaxRatesInput, Prisma.CategoryUncheckedCreateWithoutTaxRatesInput>
+}
+
+export type CategoryUpsertWithoutTaxRatesInput = {
+  update: Prisma.XOR<Prisma.CategoryUpdateWithoutTaxRatesInput, Prisma.CategoryUncheckedUpdateWithoutTaxRatesInput>
+  create: Prisma.XOR<Prisma.CategoryCreateWithoutTaxRatesInput, Prisma.CategoryUncheckedCreateWithoutTaxRatesInput>
+  where?: Prisma.CategoryWhereInput
+}
+
+export type CategoryUpdateToOneWithWhereWithoutTaxRatesInput = {
+  where?: Prisma.CategoryWhereInput
+  data: Prisma.XOR<Prisma.CategoryUpdateWithoutTaxRatesInput, Prisma.CategoryUncheckedUpdateWithoutTaxRatesInput>
+}
+
+export type CategoryUpdateWithoutTaxRatesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  subcategories?: Prisma.SubcategoryUpdateManyWithoutCategoryNestedInput
+  products?: Prisma.ProductUpdateManyWithoutCategoryNestedInput
+  coupons?: Prisma.CouponUpdateManyWithoutCategoriesNestedInput
+  installmentPlans?: Prisma.InstallmentPlanUpdateManyWithoutCategoryNestedInput
+}
+
+export type CategoryUncheckedUpdateWithoutTaxRatesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  subcategories?: Prisma.SubcategoryUncheckedUpdateManyWithoutCategoryNestedInput
+  products?: Prisma.ProductUncheckedUpdateManyWithoutCategoryNestedInput
+  coupons?: Prisma.CouponUncheckedUpdateManyWithoutCategoriesNestedInput
+  installmentPlans?: Prisma.InstallmentPlanUncheckedUpdateManyWithoutCategoryNestedInput
+}
+
+export type CategoryUpdateWithoutCouponsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  subcategories?: Prisma.SubcategoryUpdateManyWithoutCategoryNestedInput
+  products?: Prisma.ProductUpdateManyWithoutCategoryNestedInput
+  taxRates?: Prisma.TaxRateUpdateManyWithoutCategoryNestedInput
+  installmentPlans?: Prisma.InstallmentPlanUpdateManyWithoutCategoryNestedInput
+}
+
+export type CategoryUncheckedUpdateWithoutCouponsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  subcategories?: Prisma.SubcategoryUncheckedUpdateManyWithoutCategoryNestedInput
+  products?: Prisma.ProductUncheckedUpdateManyWithoutCategoryNestedInput
+  taxRates?: Prisma.TaxRateUncheckedUpdateManyWithoutCategoryNestedInput
+  installmentPlans?: Prisma.InstallmentPlanUncheckedUpdateManyWithoutCategoryNestedInput
+}
+
+export type CategoryUncheckedUpdateManyWithoutCouponsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
 
 
@@ -434,11 +766,17 @@ export type CategoryUncheckedUpdateWithoutProductsInput = {
 export type CategoryCountOutputType = {
   subcategories: number
   products: number
+  coupons: number
+  taxRates: number
+  installmentPlans: number
 }
 
 export type CategoryCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   subcategories?: boolean | CategoryCountOutputTypeCountSubcategoriesArgs
   products?: boolean | CategoryCountOutputTypeCountProductsArgs
+  coupons?: boolean | CategoryCountOutputTypeCountCouponsArgs
+  taxRates?: boolean | CategoryCountOutputTypeCountTaxRatesArgs
+  installmentPlans?: boolean | CategoryCountOutputTypeCountInstallmentPlansArgs
 }
 
 /**
@@ -465,6 +803,27 @@ export type CategoryCountOutputTypeCountProductsArgs<ExtArgs extends runtime.Typ
   where?: Prisma.ProductWhereInput
 }
 
+/**
+ * CategoryCountOutputType without action
+ */
+export type CategoryCountOutputTypeCountCouponsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.CouponWhereInput
+}
+
+/**
+ * CategoryCountOutputType without action
+ */
+export type CategoryCountOutputTypeCountTaxRatesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.TaxRateWhereInput
+}
+
+/**
+ * CategoryCountOutputType without action
+ */
+export type CategoryCountOutputTypeCountInstallmentPlansArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.InstallmentPlanWhereInput
+}
+
 
 export type CategorySelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
   id?: boolean
@@ -473,6 +832,9 @@ export type CategorySelect<ExtArgs extends runtime.Types.Extensions.InternalArgs
   updatedAt?: boolean
   subcategories?: boolean | Prisma.Category$subcategoriesArgs<ExtArgs>
   products?: boolean | Prisma.Category$productsArgs<ExtArgs>
+  coupons?: boolean | Prisma.Category$couponsArgs<ExtArgs>
+  taxRates?: boolean | Prisma.Category$taxRatesArgs<ExtArgs>
+  installmentPlans?: boolean | Prisma.Category$installmentPlansArgs<ExtArgs>
   _count?: boolean | Prisma.CategoryCountOutputTypeDefaultArgs<ExtArgs>
 }, ExtArgs["result"]["category"]>
 
@@ -501,6 +863,9 @@ export type CategoryOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs =
 export type CategoryInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   subcategories?: boolean | Prisma.Category$subcategoriesArgs<ExtArgs>
   products?: boolean | Prisma.Category$productsArgs<ExtArgs>
+  coupons?: boolean | Prisma.Category$couponsArgs<ExtArgs>
+  taxRates?: boolean | Prisma.Category$taxRatesArgs<ExtArgs>
+  installmentPlans?: boolean | Prisma.Category$installmentPlansArgs<ExtArgs>
   _count?: boolean | Prisma.CategoryCountOutputTypeDefaultArgs<ExtArgs>
 }
 export type CategoryIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {}
@@ -511,6 +876,9 @@ export type $CategoryPayload<ExtArgs extends runtime.Types.Extensions.InternalAr
   objects: {
     subcategories: Prisma.$SubcategoryPayload<ExtArgs>[]
     products: Prisma.$ProductPayload<ExtArgs>[]
+    coupons: Prisma.$CouponPayload<ExtArgs>[]
+    taxRates: Prisma.$TaxRatePayload<ExtArgs>[]
+    installmentPlans: Prisma.$InstallmentPlanPayload<ExtArgs>[]
   }
   scalars: runtime.Types.Extensions.GetPayloadResult<{
     id: string
@@ -913,6 +1281,9 @@ export interface Prisma__CategoryClient<T, Null = never, ExtArgs extends runtime
   readonly [Symbol.toStringTag]: "PrismaPromise"
   subcategories<T extends Prisma.Category$subcategoriesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Category$subcategoriesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$SubcategoryPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   products<T extends Prisma.Category$productsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Category$productsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ProductPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  coupons<T extends Prisma.Category$couponsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Category$couponsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$CouponPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  taxRates<T extends Prisma.Category$taxRatesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Category$taxRatesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$TaxRatePayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  installmentPlans<T extends Prisma.Category$installmentPlansArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Category$installmentPlansArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$InstallmentPlanPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   /**
    * Attaches callbacks for the resolution and/or rejection of the Promise.
    * @param onfulfilled The callback to execute when the Promise is resolved.
@@ -1381,6 +1752,78 @@ export type Category$productsArgs<ExtArgs extends runtime.Types.Extensions.Inter
   distinct?: Prisma.ProductScalarFieldEnum | Prisma.ProductScalarFieldEnum[]
 }
 
+/**
+ * Category.coupons
+ */
+export type Category$couponsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Coupon
+   */
+  select?: Prisma.CouponSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Coupon
+   */
+  omit?: Prisma.CouponOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CouponInclude<ExtArgs> | null
+  where?: Prisma.CouponWhereInput
+  orderBy?: Prisma.CouponOrderByWithRelationInput | Prisma.CouponOrderByWithRelationInput[]
+  cursor?: Prisma.CouponWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.CouponScalarFieldEnum | Prisma.CouponScalarFieldEnum[]
+}
+
+/**
+ * Category.taxRates
+ */
+export type Category$taxRatesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TaxRate
+   */
+  select?: Prisma.TaxRateSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TaxRate
+   */
+  omit?: Prisma.TaxRateOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TaxRateInclude<ExtArgs> | null
+  where?: Prisma.TaxRateWhereInput
+  orderBy?: Prisma.TaxRateOrderByWithRelationInput | Prisma.TaxRateOrderByWithRelationInput[]
+  cursor?: Prisma.TaxRateWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.TaxRateScalarFieldEnum | Prisma.TaxRateScalarFieldEnum[]
+}
+
+/**
+ * Category.installmentPlans
+ */
+export type Category$installmentPlansArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InstallmentPlan
+   */
+  select?: Prisma.InstallmentPlanSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the InstallmentPlan
+   */
+  omit?: Prisma.InstallmentPlanOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InstallmentPlanInclude<ExtArgs> | null
+  where?: Prisma.InstallmentPlanWhereInput
+  orderBy?: Prisma.InstallmentPlanOrderByWithRelationInput | Prisma.InstallmentPlanOrderByWithRelationInput[]
+  cursor?: Prisma.InstallmentPlanWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.InstallmentPlanScalarFieldEnum | Prisma.InstallmentPlanScalarFieldEnum[]
+}
+
 /**
  * Category without action
  */
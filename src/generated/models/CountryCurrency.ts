@@ -0,0 +1,1144 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `CountryCurrency` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums.js"
+import type * as Prisma from "../internal/prismaNamespace.js"
+
+/**
+ * Model CountryCurrency
+ * 
+ */
+export type CountryCurrencyModel = runtime.Types.Result.DefaultSelection<Prisma.$CountryCurrencyPayload>
+
+export type AggregateCountryCurrency = {
+  _count: CountryCurrencyCountAggregateOutputType | null
+  _min: CountryCurrencyMinAggregateOutputType | null
+  _max: CountryCurrencyMaxAggregateOutputType | null
+}
+
+export type CountryCurrencyMinAggregateOutputType = {
+  id: string | null
+  country: string | null
+  currency: string | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type CountryCurrencyMaxAggregateOutputType = {
+  id: string | null
+  country: string | null
+  currency: string | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type CountryCurrencyCountAggregateOutputType = {
+  id: number
+  country: number
+  currency: number
+  createdAt: number
+  updatedAt: number
+  _all: number
+}
+
+
+export type CountryCurrencyMinAggregateInputType = {
+  id?: true
+  country?: true
+  currency?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type CountryCurrencyMaxAggregateInputType = {
+  id?: true
+  country?: true
+  currency?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type CountryCurrencyCountAggregateInputType = {
+  id?: true
+  country?: true
+  currency?: true
+  createdAt?: true
+  updatedAt?: true
+  _all?: true
+}
+
+export type CountryCurrencyAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which CountryCurrency to aggregate.
+   */
+  where?: Prisma.CountryCurrencyWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of CountryCurrencies to fetch.
+   */
+  orderBy?: Prisma.CountryCurrencyOrderByWithRelationInput | Prisma.CountryCurrencyOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.CountryCurrencyWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` CountryCurrencies from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` CountryCurrencies.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned CountryCurrencies
+  **/
+  _count?: true | CountryCurrencyCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: CountryCurrencyMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: CountryCurrencyMaxAggregateInputType
+}
+
+export type GetCountryCurrencyAggregateType<T extends CountryCurrencyAggregateArgs> = {
+      [P in keyof T & keyof AggregateCountryCurrency]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateCountryCurrency[P]>
+    : Prisma.GetScalarType<T[P], AggregateCountryCurrency[P]>
+}
+
+
+
+
+export type CountryCurrencyGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.CountryCurrencyWhereInput
+  orderBy?: Prisma.CountryCurrencyOrderByWithAggregationInput | Prisma.CountryCurrencyOrderByWithAggregationInput[]
+  by: Prisma.CountryCurrencyScalarFieldEnum[] | Prisma.CountryCurrencyScalarFieldEnum
+  having?: Prisma.CountryCurrencyScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: CountryCurrencyCountAggregateInputType | true
+  _min?: CountryCurrencyMinAggregateInputType
+  _max?: CountryCurrencyMaxAggregateInputType
+}
+
+export type CountryCurrencyGroupByOutputType = {
+  id: string
+  country: string
+  currency: string
+  createdAt: Date
+  updatedAt: Date
+  _count: CountryCurrencyCountAggregateOutputType | null
+  _min: CountryCurrencyMinAggregateOutputType | null
+  _max: CountryCurrencyMaxAggregateOutputType | null
+}
+
+type GetCountryCurrencyGroupByPayload<T extends CountryCurrencyGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<CountryCurrencyGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof CountryCurrencyGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], CountryCurrencyGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], CountryCurrencyGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type CountryCurrencyWhereInput = {
+  AND?: Prisma.CountryCurrencyWhereInput | Prisma.CountryCurrencyWhereInput[]
+  OR?: Prisma.CountryCurrencyWhereInput[]
+  NOT?: Prisma.CountryCurrencyWhereInput | Prisma.CountryCurrencyWhereInput[]
+  id?: Prisma.StringFilter<"CountryCurrency"> | string
+  country?: Prisma.StringFilter<"CountryCurrency"> | string
+  currency?: Prisma.StringFilter<"CountryCurrency"> | string
+  createdAt?: Prisma.DateTimeFilter<"CountryCurrency"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"CountryCurrency"> | Date | string
+}
+
+export type CountryCurrencyOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  country?: Prisma.SortOrder
+  currency?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type CountryCurrencyWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  country?: string
+  AND?: Prisma.CountryCurrencyWhereInput | Prisma.CountryCurrencyWhereInput[]
+  OR?: Prisma.CountryCurrencyWhereInput[]
+  NOT?: Prisma.CountryCurrencyWhereInput | Prisma.CountryCurrencyWhereInput[]
+  currency?: Prisma.StringFilter<"CountryCurrency"> | string
+  createdAt?: Prisma.DateTimeFilter<"CountryCurrency"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"CountryCurrency"> | Date | string
+}, "id" | "country">
+
+export type CountryCurrencyOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  country?: Prisma.SortOrder
+  currency?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  _count?: Prisma.CountryCurrencyCountOrderByAggregateInput
+  _max?: Prisma.CountryCurrencyMaxOrderByAggregateInput
+  _min?: Prisma.CountryCurrencyMinOrderByAggregateInput
+}
+
+export type CountryCurrencyScalarWhereWithAggregatesInput = {
+  AND?: Prisma.CountryCurrencyScalarWhereWithAggregatesInput | Prisma.CountryCurrencyScalarWhereWithAggregatesInput[]
+  OR?: Prisma.CountryCurrencyScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.CountryCurrencyScalarWhereWithAggregatesInput | Prisma.CountryCurrencyScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"CountryCurrency"> | string
+  country?: Prisma.StringWithAggregatesFilter<"CountryCurrency"> | string
+  currency?: Prisma.StringWithAggregatesFilter<"CountryCurrency"> | string
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"CountryCurrency"> | Date | string
+  updatedAt?: Prisma.DateTimeWithAggregatesFilter<"CountryCurrency"> | Date | string
+}
+
+export type CountryCurrencyCreateInput = {
+  id?: string
+  country: string
+  currency: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type CountryCurrencyUncheckedCreateInput = {
+  id?: string
+  country: string
+  currency: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type CountryCurrencyUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  country?: Prisma.StringFieldUpdateOperationsInput | string
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type CountryCurrencyUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  country?: Prisma.StringFieldUpdateOperationsInput | string
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type CountryCurrencyCreateManyInput = {
+  id?: string
+  country: string
+  currency: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type CountryCurrencyUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  country?: Prisma.StringFieldUpdateOperationsInput | string
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type CountryCurrencyUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  country?: Prisma.StringFieldUpdateOperationsInput | string
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type CountryCurrencyCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  country?: Prisma.SortOrder
+  currency?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type CountryCurrencyMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  country?: Prisma.SortOrder
+  currency?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type CountryCurrencyMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  country?: Prisma.SortOrder
+  currency?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+
+
+export type CountryCurrencySelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  country?: boolean
+  currency?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}, ExtArgs["result"]["countryCurrency"]>
+
+export type CountryCurrencySelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  country?: boolean
+  currency?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}, ExtArgs["result"]["countryCurrency"]>
+
+export type CountryCurrencySelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  country?: boolean
+  currency?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}, ExtArgs["result"]["countryCurrency"]>
+
+export type CountryCurrencySelectScalar = {
+  id?: boolean
+  country?: boolean
+  currency?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}
+
+export type CountryCurrencyOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "country" | "currency" | "createdAt" | "updatedAt", ExtArgs["result"]["countryCurrency"]>
+
+export type $CountryCurrencyPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "CountryCurrency"
+  objects: {}
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    country: string
+    currency: string
+    createdAt: Date
+    updatedAt: Date
+  }, ExtArgs["result"]["countryCurrency"]>
+  composites: {}
+}
+
+export type CountryCurrencyGetPayload<S extends boolean | null | undefined | CountryCurrencyDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$CountryCurrencyPayload, S>
+
+export type CountryCurrencyCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<CountryCurrencyFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: CountryCurrencyCountAggregateInputType | true
+  }
+
+export interface CountryCurrencyDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['CountryCurrency'], meta: { name: 'CountryCurrency' } }
+  /**
+   * Find zero or one CountryCurrency that matches the filter.
+   * @param {CountryCurrencyFindUniqueArgs} args - Arguments to find a CountryCurrency
+   * @example
+   * // Get one CountryCurrency
+   * const countryCurrency = await prisma.countryCurrency.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends CountryCurrencyFindUniqueArgs>(args: Prisma.SelectSubset<T, CountryCurrencyFindUniqueArgs<ExtArgs>>): Prisma.Prisma__CountryCurrencyClient<runtime.Types.Result.GetResult<Prisma.$CountryCurrencyPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one CountryCurrency that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {CountryCurrencyFindUniqueOrThrowArgs} args - Arguments to find a CountryCurrency
+   * @example
+   * // Get one CountryCurrency
+   * const countryCurrency = await prisma.countryCurrency.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends CountryCurrencyFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, CountryCurrencyFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__CountryCurrencyClient<runtime.Types.Result.GetResult<Prisma.$CountryCurrencyPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first CountryCurrency that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CountryCurrencyFindFirstArgs} args - Arguments to find a CountryCurrency
+   * @example
+   * // Get one CountryCurrency
+   * const countryCurrency = await prisma.countryCurrency.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends CountryCurrencyFindFirstArgs>(args?: Prisma.SelectSubset<T, CountryCurrencyFindFirstArgs<ExtArgs>>): Prisma.Prisma__CountryCurrencyClient<runtime.Types.Result.GetResult<Prisma.$CountryCurrencyPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first CountryCurrency that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CountryCurrencyFindFirstOrThrowArgs} args - Arguments to find a CountryCurrency
+   * @example
+   * // Get one CountryCurrency
+   * const countryCurrency = await prisma.countryCurrency.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends CountryCurrencyFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, CountryCurrencyFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__CountryCurrencyClient<runtime.Types.Result.GetResult<Prisma.$CountryCurrencyPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more CountryCurrencies that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CountryCurrencyFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all CountryCurrencies
+   * const countryCurrencies = await prisma.countryCurrency.findMany()
+   * 
+   * // Get first 10 CountryCurrencies
+   * const countryCurrencies = await prisma.countryCurrency.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const countryCurrencyWithIdOnly = await prisma.countryCurrency.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends CountryCurrencyFindManyArgs>(args?: Prisma.SelectSubset<T, CountryCurrencyFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$CountryCurrencyPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a CountryCurrency.
+   * @param {CountryCurrencyCreateArgs} args - Arguments to create a CountryCurrency.
+   * @example
+   * // Create one CountryCurrency
+   * const CountryCurrency = await prisma.countryCurrency.create({
+   *   data: {
+   *     // ... data to create a CountryCurrency
+   *   }
+   * })
+   * 
+   */
+  create<T extends CountryCurrencyCreateArgs>(args: Prisma.SelectSubset<T, CountryCurrencyCreateArgs<ExtArgs>>): Prisma.Prisma__CountryCurrencyClient<runtime.Types.Result.GetResult<Prisma.$CountryCurrencyPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many CountryCurrencies.
+   * @param {CountryCurrencyCreateManyArgs} args - Arguments to create many CountryCurrencies.
+   * @example
+   * // Create many CountryCurrencies
+   * const countryCurrency = await prisma.countryCurrency.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends CountryCurrencyCreateManyArgs>(args?: Prisma.SelectSubset<T, CountryCurrencyCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many CountryCurrencies and returns the data saved in the database.
+   * @param {CountryCurrencyCreateManyAndReturnArgs} args - Arguments to create many CountryCurrencies.
+   * @example
+   * // Create many CountryCurrencies
+   * const countryCurrency = await prisma.countryCurrency.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many CountryCurrencies and only return the `id`
+   * const countryCurrencyWithIdOnly = await prisma.countryCurrency.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends CountryCurrencyCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, CountryCurrencyCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$CountryCurrencyPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a CountryCurrency.
+   * @param {CountryCurrencyDeleteArgs} args - Arguments to delete one CountryCurrency.
+   * @example
+   * // Delete one CountryCurrency
+   * const CountryCurrency = await prisma.countryCurrency.delete({
+   *   where: {
+   *     // ... filter to delete one CountryCurrency
+   *   }
+   * })
+   * 
+   */
+  delete<T extends CountryCurrencyDeleteArgs>(args: Prisma.SelectSubset<T, CountryCurrencyDeleteArgs<ExtArgs>>): Prisma.Prisma__CountryCurrencyClient<runtime.Types.Result.GetResult<Prisma.$CountryCurrencyPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one CountryCurrency.
+   * @param {CountryCurrencyUpdateArgs} args - Arguments to update one CountryCurrency.
+   * @example
+   * // Update one CountryCurrency
+   * const countryCurrency = await prisma.countryCurrency.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends CountryCurrencyUpdateArgs>(args: Prisma.SelectSubset<T, CountryCurrencyUpdateArgs<ExtArgs>>): Prisma.Prisma__CountryCurrencyClient<runtime.Types.Result.GetResult<Prisma.$CountryCurrencyPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more CountryCurrencies.
+   * @param {CountryCurrencyDeleteManyArgs} args - Arguments to filter CountryCurrencies to delete.
+   * @example
+   * // Delete a few CountryCurrencies
+   * const { count } = await prisma.countryCurrency.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends CountryCurrencyDeleteManyArgs>(args?: Prisma.SelectSubset<T, CountryCurrencyDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more CountryCurrencies.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CountryCurrencyUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many CountryCurrencies
+   * const countryCurrency = await prisma.countryCurrency.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends CountryCurrencyUpdateManyArgs>(args: Prisma.SelectSubset<T, CountryCurrencyUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more CountryCurrencies and returns the data updated in the database.
+   * @param {CountryCurrencyUpdateManyAndReturnArgs} args - Arguments to update many CountryCurrencies.
+   * @example
+   * // Update many CountryCurrencies
+   * const countryCurrency = await prisma.countryCurrency.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more CountryCurrencies and only return the `id`
+   * const countryCurrencyWithIdOnly = await prisma.countryCurrency.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends CountryCurrencyUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, CountryCurrencyUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$CountryCurrencyPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one CountryCurrency.
+   * @param {CountryCurrencyUpsertArgs} args - Arguments to update or create a CountryCurrency.
+   * @example
+   * // Update or create a CountryCurrency
+   * const countryCurrency = await prisma.countryCurrency.upsert({
+   *   create: {
+   *     // ... data to create a CountryCurrency
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the CountryCurrency we want to update
+   *   }
+   * })
+   */
+  upsert<T extends CountryCurrencyUpsertArgs>(args: Prisma.SelectSubset<T, CountryCurrencyUpsertArgs<ExtArgs>>): Prisma.Prisma__CountryCurrencyClient<runtime.Types.Result.GetResult<Prisma.$CountryCurrencyPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of CountryCurrencies.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CountryCurrencyCountArgs} args - Arguments to filter CountryCurrencies to count.
+   * @example
+   * // Count the number of CountryCurrencies
+   * const count = await prisma.countryCurrency.count({
+   *   where: {
+   *     // ... the filter for the CountryCurrencies we want to count
+   *   }
+   * })
+  **/
+  count<T extends CountryCurrencyCountArgs>(
+    args?: Prisma.Subset<T, CountryCurrencyCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], CountryCurrencyCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a CountryCurrency.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CountryCurrencyAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends CountryCurrencyAggregateArgs>(args: Prisma.Subset<T, CountryCurrencyAggregateArgs>): Prisma.PrismaPromise<GetCountryCurrencyAggregateType<T>>
+
+  /**
+   * Group by CountryCurrency.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CountryCurrencyGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends CountryCurrencyGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: CountryCurrencyGroupByArgs['orderBy'] }
+      : { orderBy?: CountryCurrencyGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, CountryCurrencyGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetCountryCurrencyGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the CountryCurrency model
+ */
+readonly fields: CountryCurrencyFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for CountryCurrency.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__CountryCurrencyClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the CountryCurrency model
+ */
+export interface CountryCurrencyFieldRefs {
+  readonly id: Prisma.FieldRef<"CountryCurrency", 'String'>
+  readonly country: Prisma.FieldRef<"CountryCurrency", 'String'>
+  readonly currency: Prisma.FieldRef<"CountryCurrency", 'String'>
+  readonly createdAt: Prisma.FieldRef<"CountryCurrency", 'DateTime'>
+  readonly updatedAt: Prisma.FieldRef<"CountryCurrency", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * CountryCurrency findUnique
+ */
+export type CountryCurrencyFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CountryCurrency
+   */
+  select?: Prisma.CountryCurrencySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CountryCurrency
+   */
+  omit?: Prisma.CountryCurrencyOmit<ExtArgs> | null
+  /**
+   * Filter, which CountryCurrency to fetch.
+   */
+  where: Prisma.CountryCurrencyWhereUniqueInput
+}
+
+/**
+ * CountryCurrency findUniqueOrThrow
+ */
+export type CountryCurrencyFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CountryCurrency
+   */
+  select?: Prisma.CountryCurrencySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CountryCurrency
+   */
+  omit?: Prisma.CountryCurrencyOmit<ExtArgs> | null
+  /**
+   * Filter, which CountryCurrency to fetch.
+   */
+  where: Prisma.CountryCurrencyWhereUniqueInput
+}
+
+/**
+ * CountryCurrency findFirst
+ */
+export type CountryCurrencyFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CountryCurrency
+   */
+  select?: Prisma.CountryCurrencySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CountryCurrency
+   */
+  omit?: Prisma.CountryCurrencyOmit<ExtArgs> | null
+  /**
+   * Filter, which CountryCurrency to fetch.
+   */
+  where?: Prisma.CountryCurrencyWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of CountryCurrencies to fetch.
+   */
+  orderBy?: Prisma.CountryCurrencyOrderByWithRelationInput | Prisma.CountryCurrencyOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for CountryCurrencies.
+   */
+  cursor?: Prisma.CountryCurrencyWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` CountryCurrencies from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` CountryCurrencies.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of CountryCurrencies.
+   */
+  distinct?: Prisma.CountryCurrencyScalarFieldEnum | Prisma.CountryCurrencyScalarFieldEnum[]
+}
+
+/**
+ * CountryCurrency findFirstOrThrow
+ */
+export type CountryCurrencyFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CountryCurrency
+   */
+  select?: Prisma.CountryCurrencySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CountryCurrency
+   */
+  omit?: Prisma.CountryCurrencyOmit<ExtArgs> | null
+  /**
+   * Filter, which CountryCurrency to fetch.
+   */
+  where?: Prisma.CountryCurrencyWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of CountryCurrencies to fetch.
+   */
+  orderBy?: Prisma.CountryCurrencyOrderByWithRelationInput | Prisma.CountryCurrencyOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for CountryCurrencies.
+   */
+  cursor?: Prisma.CountryCurrencyWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` CountryCurrencies from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` CountryCurrencies.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of CountryCurrencies.
+   */
+  distinct?: Prisma.CountryCurrencyScalarFieldEnum | Prisma.CountryCurrencyScalarFieldEnum[]
+}
+
+/**
+ * CountryCurrency findMany
+ */
+export type CountryCurrencyFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CountryCurrency
+   */
+  select?: Prisma.CountryCurrencySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CountryCurrency
+   */
+  omit?: Prisma.CountryCurrencyOmit<ExtArgs> | null
+  /**
+   * Filter, which CountryCurrencies to fetch.
+   */
+  where?: Prisma.CountryCurrencyWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of CountryCurrencies to fetch.
+   */
+  orderBy?: Prisma.CountryCurrencyOrderByWithRelationInput | Prisma.CountryCurrencyOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing CountryCurrencies.
+   */
+  cursor?: Prisma.CountryCurrencyWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` CountryCurrencies from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` CountryCurrencies.
+   */
+  skip?: number
+  distinct?: Prisma.CountryCurrencyScalarFieldEnum | Prisma.CountryCurrencyScalarFieldEnum[]
+}
+
+/**
+ * CountryCurrency create
+ */
+export type CountryCurrencyCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CountryCurrency
+   */
+  select?: Prisma.CountryCurrencySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CountryCurrency
+   */
+  omit?: Prisma.CountryCurrencyOmit<ExtArgs> | null
+  /**
+   * The data needed to create a CountryCurrency.
+   */
+  data: Prisma.XOR<Prisma.CountryCurrencyCreateInput, Prisma.CountryCurrencyUncheckedCreateInput>
+}
+
+/**
+ * CountryCurrency createMany
+ */
+export type CountryCurrencyCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many CountryCurrencies.
+   */
+  data: Prisma.CountryCurrencyCreateManyInput | Prisma.CountryCurrencyCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * CountryCurrency createManyAndReturn
+ */
+export type CountryCurrencyCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CountryCurrency
+   */
+  select?: Prisma.CountryCurrencySelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the CountryCurrency
+   */
+  omit?: Prisma.CountryCurrencyOmit<ExtArgs> | null
+  /**
+   * The data used to create many CountryCurrencies.
+   */
+  data: Prisma.CountryCurrencyCreateManyInput | Prisma.CountryCurrencyCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * CountryCurrency update
+ */
+export type CountryCurrencyUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CountryCurrency
+   */
+  select?: Prisma.CountryCurrencySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CountryCurrency
+   */
+  omit?: Prisma.CountryCurrencyOmit<ExtArgs> | null
+  /**
+   * The data needed to update a CountryCurrency.
+   */
+  data: Prisma.XOR<Prisma.CountryCurrencyUpdateInput, Prisma.CountryCurrencyUncheckedUpdateInput>
+  /**
+   * Choose, which CountryCurrency to update.
+   */
+  where: Prisma.CountryCurrencyWhereUniqueInput
+}
+
+/**
+ * CountryCurrency updateMany
+ */
+export type CountryCurrencyUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update CountryCurrencies.
+   */
+  data: Prisma.XOR<Prisma.CountryCurrencyUpdateManyMutationInput, Prisma.CountryCurrencyUncheckedUpdateManyInput>
+  /**
+   * Filter which CountryCurrencies to update
+   */
+  where?: Prisma.CountryCurrencyWhereInput
+  /**
+   * Limit how many CountryCurrencies to update.
+   */
+  limit?: number
+}
+
+/**
+ * CountryCurrency updateManyAndReturn
+ */
+export type CountryCurrencyUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CountryCurrency
+   */
+  select?: Prisma.CountryCurrencySelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the CountryCurrency
+   */
+  omit?: Prisma.CountryCurrencyOmit<ExtArgs> | null
+  /**
+   * The data used to update CountryCurrencies.
+   */
+  data: Prisma.XOR<Prisma.CountryCurrencyUpdateManyMutationInput, Prisma.CountryCurrencyUncheckedUpdateManyInput>
+  /**
+   * Filter which CountryCurrencies to update
+   */
+  where?: Prisma.CountryCurrencyWhereInput
+  /**
+   * Limit how many CountryCurrencies to update.
+   */
+  limit?: number
+}
+
+/**
+ * CountryCurrency upsert
+ */
+export type CountryCurrencyUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CountryCurrency
+   */
+  select?: Prisma.CountryCurrencySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CountryCurrency
+   */
+  omit?: Prisma.CountryCurrencyOmit<ExtArgs> | null
+  /**
+   * The filter to search for the CountryCurrency to update in case it exists.
+   */
+  where: Prisma.CountryCurrencyWhereUniqueInput
+  /**
+   * In case the CountryCurrency found by the `where` argument doesn't exist, create a new CountryCurrency with this data.
+   */
+  create: Prisma.XOR<Prisma.CountryCurrencyCreateInput, Prisma.CountryCurrencyUncheckedCreateInput>
+  /**
+   * In case the CountryCurrency was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.CountryCurrencyUpdateInput, Prisma.CountryCurrencyUncheckedUpdateInput>
+}
+
+/**
+ * CountryCurrency delete
+ */
+export type CountryCurrencyDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CountryCurrency
+   */
+  select?: Prisma.CountryCurrencySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CountryCurrency
+   */
+  omit?: Prisma.CountryCurrencyOmit<ExtArgs> | null
+  /**
+   * Filter which CountryCurrency to delete.
+   */
+  where: Prisma.CountryCurrencyWhereUniqueInput
+}
+
+/**
+ * CountryCurrency deleteMany
+ */
+export type CountryCurrencyDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which CountryCurrencies to delete
+   */
+  where?: Prisma.CountryCurrencyWhereInput
+  /**
+   * Limit how many CountryCurrencies to delete.
+   */
+  limit?: number
+}
+
+/**
+ * CountryCurrency without action
+ */
+export type CountryCurrencyDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CountryCurrency
+   */
+  select?: Prisma.CountryCurrencySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CountryCurrency
+   */
+  omit?: Prisma.CountryCurrencyOmit<ExtArgs> | null
+}
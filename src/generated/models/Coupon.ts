@@ -0,0 +1,2467 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `Coupon` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums.js"
+import type * as Prisma from "../internal/prismaNamespace.js"
+
+/**
+ * Model Coupon
+ * 
+ */
+export type CouponModel = runtime.Types.Result.DefaultSelection<Prisma.$CouponPayload>
+
+export type AggregateCoupon = {
+  _count: CouponCountAggregateOutputType | null
+  _avg: CouponAvgAggregateOutputType | null
+  _sum: CouponSumAggregateOutputType | null
+  _min: CouponMinAggregateOutputType | null
+  _max: CouponMaxAggregateOutputType | null
+}
+
+export type CouponAvgAggregateOutputType = {
+  value: runtime.Decimal | null
+  minOrderTotal: runtime.Decimal | null
+  maxUses: number | null
+  maxUsesPerUser: number | null
+  usedCount: number | null
+}
+
+export type CouponSumAggregateOutputType = {
+  value: runtime.Decimal | null
+  minOrderTotal: runtime.Decimal | null
+  maxUses: number | null
+  maxUsesPerUser: number | null
+  usedCount: number | null
+}
+
+export type CouponMinAggregateOutputType = {
+  id: string | null
+  code: string | null
+  description: string | null
+  type: $Enums.CouponType | null
+  value: runtime.Decimal | null
+  minOrderTotal: runtime.Decimal | null
+  startsAt: Date | null
+  expiresAt: Date | null
+  maxUses: number | null
+  maxUsesPerUser: number | null
+  usedCount: number | null
+  isActive: boolean | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type CouponMaxAggregateOutputType = {
+  id: string | null
+  code: string | null
+  description: string | null
+  type: $Enums.CouponType | null
+  value: runtime.Decimal | null
+  minOrderTotal: runtime.Decimal | null
+  startsAt: Date | null
+  expiresAt: Date | null
+  maxUses: number | null
+  maxUsesPerUser: number | null
+  usedCount: number | null
+  isActive: boolean | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type CouponCountAggregateOutputType = {
+  id: number
+  code: number
+  description: number
+  type: number
+  value: number
+  minOrderTotal: number
+  startsAt: number
+  expiresAt: number
+  maxUses: number
+  maxUsesPerUser: number
+  usedCount: number
+  isActive: number
+  createdAt: number
+  updatedAt: number
+  _all: number
+}
+
+
+export type CouponAvgAggregateInputType = {
+  value?: true
+  minOrderTotal?: true
+  maxUses?: true
+  maxUsesPerUser?: true
+  usedCount?: true
+}
+
+export type CouponSumAggregateInputType = {
+  value?: true
+  minOrderTotal?: true
+  maxUses?: true
+  maxUsesPerUser?: true
+  usedCount?: true
+}
+
+export type CouponMinAggregateInputType = {
+  id?: true
+  code?: true
+  description?: true
+  type?: true
+  value?: true
+  minOrderTotal?: true
+  startsAt?: true
+  expiresAt?: true
+  maxUses?: true
+  maxUsesPerUser?: true
+  usedCount?: true
+  isActive?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type CouponMaxAggregateInputType = {
+  id?: true
+  code?: true
+  description?: true
+  type?: true
+  value?: true
+  minOrderTotal?: true
+  startsAt?: true
+  expiresAt?: true
+  maxUses?: true
+  maxUsesPerUser?: true
+  usedCount?: true
+  isActive?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type CouponCountAggregateInputType = {
+  id?: true
+  code?: true
+  description?: true
+  type?: true
+  value?: true
+  minOrderTotal?: true
+  startsAt?: true
+  expiresAt?: true
+  maxUses?: true
+  maxUsesPerUser?: true
+  usedCount?: true
+  isActive?: true
+  createdAt?: true
+  updatedAt?: true
+  _all?: true
+}
+
+export type CouponAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which Coupon to aggregate.
+   */
+  where?: Prisma.CouponWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of Coupons to fetch.
+   */
+  orderBy?: Prisma.CouponOrderByWithRelationInput | Prisma.CouponOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.CouponWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` Coupons from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` Coupons.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned Coupons
+  **/
+  _count?: true | CouponCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: CouponAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: CouponSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: CouponMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: CouponMaxAggregateInputType
+}
+
+export type GetCouponAggregateType<T extends CouponAggregateArgs> = {
+      [P in keyof T & keyof AggregateCoupon]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateCoupon[P]>
+    : Prisma.GetScalarType<T[P], AggregateCoupon[P]>
+}
+
+
+
+
+export type CouponGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.CouponWhereInput
+  orderBy?: Prisma.CouponOrderByWithAggregationInput | Prisma.CouponOrderByWithAggregationInput[]
+  by: Prisma.CouponScalarFieldEnum[] | Prisma.CouponScalarFieldEnum
+  having?: Prisma.CouponScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: CouponCountAggregateInputType | true
+  _avg?: CouponAvgAggregateInputType
+  _sum?: CouponSumAggregateInputType
+  _min?: CouponMinAggregateInputType
+  _max?: CouponMaxAggregateInputType
+}
+
+export type CouponGroupByOutputType = {
+  id: string
+  code: string
+  description: string | null
+  type: $Enums.CouponType
+  value: runtime.Decimal
+  minOrderTotal: runtime.Decimal | null
+  startsAt: Date | null
+  expiresAt: Date | null
+  maxUses: number | null
+  maxUsesPerUser: number | null
+  usedCount: number
+  isActive: boolean
+  createdAt: Date
+  updatedAt: Date
+  _count: CouponCountAggregateOutputType | null
+  _avg: CouponAvgAggregateOutputType | null
+  _sum: CouponSumAggregateOutputType | null
+  _min: CouponMinAggregateOutputType | null
+  _max: CouponMaxAggregateOutputType | null
+}
+
+type GetCouponGroupByPayload<T extends CouponGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<CouponGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof CouponGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], CouponGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], CouponGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type CouponWhereInput = {
+  AND?: Prisma.CouponWhereInput | Prisma.CouponWhereInput[]
+  OR?: Prisma.CouponWhereInput[]
+  NOT?: Prisma.CouponWhereInput | Prisma.CouponWhereInput[]
+  id?: Prisma.StringFilter<"Coupon"> | string
+  code?: Prisma.StringFilter<"Coupon"> | string
+  description?: Prisma.StringNullableFilter<"Coupon"> | string | null
+  type?: Prisma.EnumCouponTypeFilter<"Coupon"> | $Enums.CouponType
+  value?: Prisma.DecimalFilter<"Coupon"> | runtime.Decimal | runtime.DecimalJsLike | number | string
+  minOrderTotal?: Prisma.DecimalNullableFilter<"Coupon"> | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  startsAt?: Prisma.DateTimeNullableFilter<"Coupon"> | Date | string | null
+  expiresAt?: Prisma.DateTimeNullableFilter<"Coupon"> | Date | string | null
+  maxUses?: Prisma.IntNullableFilter<"Coupon"> | number | null
+  maxUsesPerUser?: Prisma.IntNullableFilter<"Coupon"> | number | null
+  usedCount?: Prisma.IntFilter<"Coupon"> | number
+  isActive?: Prisma.BoolFilter<"Coupon"> | boolean
+  createdAt?: Prisma.DateTimeFilter<"Coupon"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"Coupon"> | Date | string
+  categories?: Prisma.CategoryListRelationFilter
+  products?: Prisma.ProductListRelationFilter
+  orders?: Prisma.OrderListRelationFilter
+  redemptions?: Prisma.CouponRedemptionListRelationFilter
+  cartCoupons?: Prisma.CartCouponListRelationFilter
+}
+
+export type CouponOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  code?: Prisma.SortOrder
+  description?: Prisma.SortOrderInput | Prisma.SortOrder
+  type?: Prisma.SortOrder
+  value?: Prisma.SortOrder
+  minOrderTotal?: Prisma.SortOrderInput | Prisma.SortOrder
+  startsAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  expiresAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  maxUses?: Prisma.SortOrderInput | Prisma.SortOrder
+  maxUsesPerUser?: Prisma.SortOrderInput | Prisma.SortOrder
+  usedCount?: Prisma.SortOrder
+  isActive?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  categories?: Prisma.CategoryOrderByRelationAggregateInput
+  products?: Prisma.ProductOrderByRelationAggregateInput
+  orders?: Prisma.OrderOrderByRelationAggregateInput
+  redemptions?: Prisma.CouponRedemptionOrderByRelationAggregateInput
+  cartCoupons?: Prisma.CartCouponOrderByRelationAggregateInput
+}
+
+export type CouponWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  code?: string
+  AND?: Prisma.CouponWhereInput | Prisma.CouponWhereInput[]
+  OR?: Prisma.CouponWhereInput[]
+  NOT?: Prisma.CouponWhereInput | Prisma.CouponWhereInput[]
+  description?: Prisma.StringNullableFilter<"Coupon"> | string | null
+  type?: Prisma.EnumCouponTypeFilter<"Coupon"> | $Enums.CouponType
+  value?: Prisma.DecimalFilter<"Coupon"> | runtime.Decimal | runtime.DecimalJsLike | number | string
+  minOrderTotal?: Prisma.DecimalNullableFilter<"Coupon"> | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  startsAt?: Prisma.DateTimeNullableFilter<"Coupon"> | Date | string | null
+  expiresAt?: Prisma.DateTimeNullableFilter<"Coupon"> | Date | string | null
+  maxUses?: Prisma.IntNullableFilter<"Coupon"> | number | null
+  maxUsesPerUser?: Prisma.IntNullableFilter<"Coupon"> | number | null
+  usedCount?: Prisma.IntFilter<"Coupon"> | number
+  isActive?: Prisma.BoolFilter<"Coupon"> | boolean
+  createdAt?: Prisma.DateTimeFilter<"Coupon"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"Coupon"> | Date | string
+  categories?: Prisma.CategoryListRelationFilter
+  products?: Prisma.ProductListRelationFilter
+  orders?: Prisma.OrderListRelationFilter
+  redemptions?: Prisma.CouponRedemptionListRelationFilter
+  cartCoupons?: Prisma.CartCouponListRelationFilter
+}, "id" | "code">
+
+export type CouponOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  code?: Prisma.SortOrder
+  description?: Prisma.SortOrderInput | Prisma.SortOrder
+  type?: Prisma.SortOrder
+  value?: Prisma.SortOrder
+  minOrderTotal?: Prisma.SortOrderInput | Prisma.SortOrder
+  startsAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  expiresAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  maxUses?: Prisma.SortOrderInput | Prisma.SortOrder
+  maxUsesPerUser?: Prisma.SortOrderInput | Prisma.SortOrder
+  usedCount?: Prisma.SortOrder
+  isActive?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  _count?: Prisma.CouponCountOrderByAggregateInput
+  _avg?: Prisma.CouponAvgOrderByAggregateInput
+  _max?: Prisma.CouponMaxOrderByAggregateInput
+  _min?: Prisma.CouponMinOrderByAggregateInput
+  _sum?: Prisma.CouponSumOrderByAggregateInput
+}
+
+export type CouponScalarWhereWithAggregatesInput = {
+  AND?: Prisma.CouponScalarWhereWithAggregatesInput | Prisma.CouponScalarWhereWithAggregatesInput[]
+  OR?: Prisma.CouponScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.CouponScalarWhereWithAggregatesInput | Prisma.CouponScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"Coupon"> | string
+  code?: Prisma.StringWithAggregatesFilter<"Coupon"> | string
+  description?: Prisma.StringNullableWithAggregatesFilter<"Coupon"> | string | null
+  type?: Prisma.EnumCouponTypeWithAggregatesFilter<"Coupon"> | $Enums.CouponType
+  value?: Prisma.DecimalWithAggregatesFilter<"Coupon"> | runtime.Decimal | runtime.DecimalJsLike | number | string
+  minOrderTotal?: Prisma.DecimalNullableWithAggregatesFilter<"Coupon"> | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  startsAt?: Prisma.DateTimeNullableWithAggregatesFilter<"Coupon"> | Date | string | null
+  expiresAt?: Prisma.DateTimeNullableWithAggregatesFilter<"Coupon"> | Date | string | null
+  maxUses?: Prisma.IntNullableWithAggregatesFilter<"Coupon"> | number | null
+  maxUsesPerUser?: Prisma.IntNullableWithAggregatesFilter<"Coupon"> | number | null
+  usedCount?: Prisma.IntWithAggregatesFilter<"Coupon"> | number
+  isActive?: Prisma.BoolWithAggregatesFilter<"Coupon"> | boolean
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"Coupon"> | Date | string
+  updatedAt?: Prisma.DateTimeWithAggregatesFilter<"Coupon"> | Date | string
+}
+
+export type CouponCreateInput = {
+  id?: string
+  code: string
+  description?: string | null
+  type: $Enums.CouponType
+  value: runtime.Decimal | runtime.DecimalJsLike | number | string
+  minOrderTotal?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  startsAt?: Date | string | null
+  expiresAt?: Date | string | null
+  maxUses?: number | null
+  maxUsesPerUser?: number | null
+  usedCount?: number
+  isActive?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  categories?: Prisma.CategoryCreateNestedManyWithoutCouponsInput
+  products?: Prisma.ProductCreateNestedManyWithoutCouponsInput
+  orders?: Prisma.OrderCreateNestedManyWithoutCouponInput
+  redemptions?: Prisma.CouponRedemptionCreateNestedManyWithoutCouponInput
+  cartCoupons?: Prisma.CartCouponCreateNestedManyWithoutCouponInput
+}
+
+export type CouponUncheckedCreateInput = {
+  id?: string
+  code: string
+  description?: string | null
+  type: $Enums.CouponType
+  value: runtime.Decimal | runtime.DecimalJsLike | number | string
+  minOrderTotal?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  startsAt?: Date | string | null
+  expiresAt?: Date | string | null
+  maxUses?: number | null
+  maxUsesPerUser?: number | null
+  usedCount?: number
+  isActive?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  categories?: Prisma.CategoryUncheckedCreateNestedManyWithoutCouponsInput
+  products?: Prisma.ProductUncheckedCreateNestedManyWithoutCouponsInput
+  orders?: Prisma.OrderUncheckedCreateNestedManyWithoutCouponInput
+  redemptions?: Prisma.CouponRedemptionUncheckedCreateNestedManyWithoutCouponInput
+  cartCoupons?: Prisma.CartCouponUncheckedCreateNestedManyWithoutCouponInput
+}
+
+export type CouponUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  code?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  type?: Prisma.EnumCouponTypeFieldUpdateOperationsInput | $Enums.CouponType
+  value?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  minOrderTotal?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  startsAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  expiresAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  maxUses?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  maxUsesPerUser?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  usedCount?: Prisma.IntFieldUpdateOperationsInput | number
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  categories?: Prisma.CategoryUpdateManyWithoutCouponsNestedInput
+  products?: Prisma.ProductUpdateManyWithoutCouponsNestedInput
+  orders?: Prisma.OrderUpdateManyWithoutCouponNestedInput
+  redemptions?: Prisma.CouponRedemptionUpdateManyWithoutCouponNestedInput
+  cartCoupons?: Prisma.CartCouponUpdateManyWithoutCouponNestedInput
+}
+
+export type CouponUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  code?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  type?: Prisma.EnumCouponTypeFieldUpdateOperationsInput | $Enums.CouponType
+  value?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  minOrderTotal?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  startsAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  expiresAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  maxUses?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  maxUsesPerUser?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  usedCount?: Prisma.IntFieldUpdateOperationsInput | number
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  categories?: Prisma.CategoryUncheckedUpdateManyWithoutCouponsNestedInput
+  products?: Prisma.ProductUncheckedUpdateManyWithoutCouponsNestedInput
+  orders?: Prisma.OrderUncheckedUpdateManyWithoutCouponNestedInput
+  redemptions?: Prisma.CouponRedemptionUncheckedUpdateManyWithoutCouponNestedInput
+  cartCoupons?: Prisma.CartCouponUncheckedUpdateManyWithoutCouponNestedInput
+}
+
+export type CouponCreateManyInput = {
+  id?: string
+  code: string
+  description?: string | null
+  type: $Enums.CouponType
+  value: runtime.Decimal | runtime.DecimalJsLike | number | string
+  minOrderTotal?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  startsAt?: Date | string | null
+  expiresAt?: Date | string | null
+  maxUses?: number | null
+  maxUsesPerUser?: number | null
+  usedCount?: number
+  isActive?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type CouponUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  code?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  type?: Prisma.EnumCouponTypeFieldUpdateOperationsInput | $Enums.CouponType
+  value?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  minOrderTotal?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  startsAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  expiresAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  maxUses?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  maxUsesPerUser?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  usedCount?: Prisma.IntFieldUpdateOperationsInput | number
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type CouponUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  code?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  type?: Prisma.EnumCouponTypeFieldUpdateOperationsInput | $Enums.CouponType
+  value?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  minOrderTotal?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  startsAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  expiresAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  maxUses?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  maxUsesPerUser?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  usedCount?: Prisma.IntFieldUpdateOperationsInput | number
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type CouponListRelationFilter = {
+  every?: Prisma.CouponWhereInput
+  some?: Prisma.CouponWhereInput
+  none?: Prisma.CouponWhereInput
+}
+
+export type CouponOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type CouponNullableScalarRelationFilter = {
+  is?: Prisma.CouponWhereInput | null
+  isNot?: Prisma.CouponWhereInput | null
+}
+
+export type CouponCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  code?: Prisma.SortOrder
+  description?: Prisma.SortOrder
+  type?: Prisma.SortOrder
+  value?: Prisma.SortOrder
+  minOrderTotal?: Prisma.SortOrder
+  startsAt?: Prisma.SortOrder
+  expiresAt?: Prisma.SortOrder
+  maxUses?: Prisma.SortOrder
+  maxUsesPerUser?: Prisma.SortOrder
+  usedCount?: Prisma.SortOrder
+  isActive?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type CouponAvgOrderByAggregateInput = {
+  value?: Prisma.SortOrder
+  minOrderTotal?: Prisma.SortOrder
+  maxUses?: Prisma.SortOrder
+  maxUsesPerUser?: Prisma.SortOrder
+  usedCount?: Prisma.SortOrder
+}
+
+export type CouponMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  code?: Prisma.SortOrder
+  description?: Prisma.SortOrder
+  type?: Prisma.SortOrder
+  value?: Prisma.SortOrder
+  minOrderTotal?: Prisma.SortOrder
+  startsAt?: Prisma.SortOrder
+  expiresAt?: Prisma.SortOrder
+  maxUses?: Prisma.SortOrder
+  maxUsesPerUser?: Prisma.SortOrder
+  usedCount?: Prisma.SortOrder
+  isActive?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type CouponMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  code?: Prisma.SortOrder
+  description?: Prisma.SortOrder
+  type?: Prisma.SortOrder
+  value?: Prisma.SortOrder
+  minOrderTotal?: Prisma.SortOrder
+  startsAt?: Prisma.SortOrder
+  expiresAt?: Prisma.SortOrder
+  maxUses?: Prisma.SortOrder
+  maxUsesPerUser?: Prisma.SortOrder
+  usedCount?: Prisma.SortOrder
+  isActive?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type CouponSumOrderByAggregateInput = {
+  value?: Prisma.SortOrder
+  minOrderTotal?: Prisma.SortOrder
+  maxUses?: Prisma.SortOrder
+  maxUsesPerUser?: Prisma.SortOrder
+  usedCount?: Prisma.SortOrder
+}
+
+export type CouponScalarRelationFilter = {
+  is?: Prisma.CouponWhereInput
+  isNot?: Prisma.CouponWhereInput
+}
+
+export type CouponCreateNestedManyWithoutCategoriesInput = {
+  create?: Prisma.XOR<Prisma.CouponCreateWithoutCategoriesInput, Prisma.CouponUncheckedCreateWithoutCategoriesInput> | Prisma.CouponCreateWithoutCategoriesInput[] | Prisma.CouponUncheckedCreateWithoutCategoriesInput[]
+  connectOrCreate?: Prisma.CouponCreateOrConnectWithoutCategoriesInput | Prisma.CouponCreateOrConnectWithoutCategoriesInput[]
+  connect?: Prisma.CouponWhereUniqueInput | Prisma.CouponWhereUniqueInput[]
+}
+
+export type CouponUncheckedCreateNestedManyWithoutCategoriesInput = {
+  create?: Prisma.XOR<Prisma.CouponCreateWithoutCategoriesInput, Prisma.CouponUncheckedCreateWithoutCategoriesInput> | Prisma.CouponCreateWithoutCategoriesInput[] | Prisma.CouponUncheckedCreateWithoutCategoriesInput[]
+  connectOrCreate?: Prisma.CouponCreateOrConnectWithoutCategoriesInput | Prisma.CouponCreateOrConnectWithoutCategoriesInput[]
+  connect?: Prisma.CouponWhereUniqueInput | Prisma.CouponWhereUniqueInput[]
+}
+
+export type CouponUpdateManyWithoutCategoriesNestedInput = {
+  create?: Prisma.XOR<Prisma.CouponCreateWithoutCategoriesInput, Prisma.CouponUncheckedCreateWithoutCategoriesInput> | Prisma.CouponCreateWithoutCategoriesInput[] | Prisma.CouponUncheckedCreateWithoutCategoriesInput[]
+  connectOrCreate?: Prisma.CouponCreateOrConnectWithoutCategoriesInput | Prisma.CouponCreateOrConnectWithoutCategoriesInput[]
+  upsert?: Prisma.CouponUpsertWithWhereUniqueWithoutCategoriesInput | Prisma.CouponUpsertWithWhereUniqueWithoutCategoriesInput[]
+  set?: Prisma.CouponWhereUniqueInput | Prisma.CouponWhereUniqueInput[]
+  disconnect?: Prisma.CouponWhereUniqueInput | Prisma.CouponWhereUniqueInput[]
+  delete?: Prisma.CouponWhereUniqueInput | Prisma.CouponWhereUniqueInput[]
+  connect?: Prisma.CouponWhereUniqueInput | Prisma.CouponWhereUniqueInput[]
+  update?: Prisma.CouponUpdateWithWhereUniqueWithoutCategoriesInput | Prisma.CouponUpdateWithWhereUniqueWithoutCategoriesInput[]
+  updateMany?: Prisma.CouponUpdateManyWithWhereWithoutCategoriesInput | Prisma.CouponUpdateManyWithWhereWithoutCategoriesInput[]
+  deleteMany?: Prisma.CouponScalarWhereInput | Prisma.CouponScalarWhereInput[]
+}
+
+export type CouponUncheckedUpdateManyWithoutCategoriesNestedInput = {
+  create?: Prisma.XOR<Prisma.CouponCreateWithoutCategoriesInput, Prisma.CouponUncheckedCreateWithoutCategoriesInput> | Prisma.CouponCreateWithoutCategoriesInput[] | Prisma.CouponUncheckedCreateWithoutCategoriesInput[]
+  connectOrCreate?: Prisma.CouponCreateOrConnectWithoutCategoriesInput | Prisma.CouponCreateOrConnectWithoutCategoriesInput[]
+  upsert?: Prisma.CouponUpsertWithWhereUniqueWithoutCategoriesInput | Prisma.CouponUpsertWithWhereUniqueWithoutCategoriesInput[]
+  set?: Prisma.CouponWhereUniqueInput | Prisma.CouponWhereUniqueInput[]
+  disconnect?: Prisma.CouponWhereUniqueInput | Prisma.CouponWhereUniqueInput[]
+  delete?: Prisma.CouponWhereUniqueInput | Prisma.CouponWhereUniqueInput[]
+  connect?: Prisma.CouponWhereUniqueInput | Prisma.CouponWhereUniqueInput[]
+  update?: Prisma.CouponUpdateWithWhereUniqueWithoutCategoriesInput | Prisma.CouponUpdateWithWhereUniqueWithoutCategoriesInput[]
+  updateMany?: Prisma.CouponUpdateManyWithWhereWithoutCategoriesInput | Prisma.CouponUpdateManyWithWhereWithoutCategoriesInput[]
+  deleteMany?: Prisma.CouponScalarWhereInput | Prisma.CouponScalarWhereInput[]
+}
+
+export type CouponCreateNestedManyWithoutProductsInput = {
+  create?: Prisma.XOR<Prisma.CouponCreateWithoutProductsInput, Prisma.CouponUncheckedCreateWithoutProductsInput> | Prisma.CouponCreateWithoutProductsInput[] | Prisma.CouponUncheckedCreateWithoutProductsInput[]
+  connectOrCreate?: Prisma.CouponCreateOrConnectWithoutProductsInput | Prisma.CouponCreateOrConnectWithoutProductsInput[]
+  connect?: Prisma.CouponWhereUniqueInput | Prisma.CouponWhereUniqueInput[]
+}
+
+export type CouponUncheckedCreateNestedManyWithoutProductsInput = {
+  create?: Prisma.XOR<Prisma.CouponCreateWithoutProductsInput, Prisma.CouponUncheckedCreateWithoutProductsInput> | Prisma.CouponCreateWithoutProductsInput[] | Prisma.CouponUncheckedCreateWithoutProductsInput[]
+  connectOrCreate?: Prisma.CouponCreateOrConnectWithoutProductsInput | Prisma.CouponCreateOrConnectWithoutProductsInput[]
+  connect?: Prisma.CouponWhereUniqueInput | Prisma.CouponWhereUniqueInput[]
+}
+
+export type CouponUpdateManyWithoutProductsNestedInput = {
+  create?: Prisma.XOR<Prisma.CouponCreateWithoutProductsInput, Prisma.CouponUncheckedCreateWithoutProductsInput> | Prisma.CouponCreateWithoutProductsInput[] | Prisma.CouponUncheckedCreateWithoutProductsInput[]
+  connectOrCreate?: Prisma.CouponCreateOrConnectWithoutProductsInput | Prisma.CouponCreateOrConnectWithoutProductsInput[]
+  upsert?: Prisma.CouponUpsertWithWhereUniqueWithoutProductsInput | Prisma.CouponUpsertWithWhereUniqueWithoutProductsInput[]
+  set?: Prisma.CouponWhereUniqueInput | Prisma.CouponWhereUniqueInput[]
+  disconnect?: Prisma.CouponWhereUniqueInput | Prisma.CouponWhereUniqueInput[]
+  delete?: Prisma.CouponWhereUniqueInput | Prisma.CouponWhereUniqueInput[]
+  connect?: Prisma.CouponWhereUniqueInput | Prisma.CouponWhereUniqueInput[]
+  update?: Prisma.CouponUpdateWithWhereUniqueWithoutProductsInput | Prisma.CouponUpdateWithWhereUniqueWithoutProductsInput[]
+  updateMany?: Prisma.CouponUpdateManyWithWhereWithoutProductsInput | Prisma.CouponUpdateManyWithWhereWithoutProductsInput[]
+  deleteMany?: Prisma.CouponScalarWhereInput | Prisma.CouponScalarWhereInput[]
+}
+
+export type CouponUncheckedUpdateManyWithoutProductsNestedInput = {
+  create?: Prisma.XOR<Prisma.CouponCreateWithoutProductsInput, Prisma.CouponUncheckedCreateWithoutProductsInput> | Prisma.CouponCreateWithoutProductsInput[] | Prisma.CouponUncheckedCreateWithoutProductsInput[]
+  connectOrCreate?: Prisma.CouponCreateOrConnectWithoutProductsInput | Prisma.CouponCreateOrConnectWithoutProductsInput[]
+  upsert?: Prisma.CouponUpsertWithWhereUniqueWithoutProductsInput | Prisma.CouponUpsertWithWhereUniqueWithoutProductsInput[]
+  set?: Prisma.CouponWhereUniqueInput | Prisma.CouponWhereUniqueInput[]
+  disconnect?: Prisma.CouponWhereUniqueInput | Prisma.CouponWhereUniqueInput[]
+  delete?: Prisma.CouponWhereUniqueInput | Prisma.CouponWhereUniqueInput[]
+  connect?: Prisma.CouponWhereUniqueInput | Prisma.CouponWhereUniqueInput[]
+  update?: Prisma.CouponUpdateWithWhereUniqueWithoutProductsInput | Prisma.CouponUpdateWithWhereUniqueWithoutProductsInput[]
+  updateMany?: Prisma.CouponUpdateManyWithWhereWithoutProductsInput | Prisma.CouponUpdateManyWithWhereWithoutProductsInput[]
+  deleteMany?: Prisma.CouponScalarWhereInput | Prisma.CouponScalarWhereInput[]
+}
+
+export type CouponCreateNestedOneWithoutOrdersInput = {
+  create?: Prisma.XOR<Prisma.CouponCreateWithoutOrdersInput, Prisma.CouponUncheckedCreateWithoutOrdersInput>
+  connectOrCreate?: Prisma.CouponCreateOrConnectWithoutOrdersInput
+  connect?: Prisma.CouponWhereUniqueInput
+}
+
+export type CouponUpdateOneWithoutOrdersNestedInput = {
+  create?: Prisma.XOR<Prisma.CouponCreateWithoutOrdersInput, Prisma.CouponUncheckedCreateWithoutOrdersInput>
+  connectOrCreate?: Prisma.CouponCreateOrConnectWithoutOrdersInput
+  upsert?: Prisma.CouponUpsertWithoutOrdersInput
+  disconnect?: Prisma.CouponWhereInput | boolean
+  delete?: Prisma.CouponWhereInput | boolean
+  connect?: Prisma.CouponWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.CouponUpdateToOneWithWhereWithoutOrdersInput, Prisma.CouponUpdateWithoutOrdersInput>, Prisma.CouponUncheckedUpdateWithoutOrdersInput>
+}
+
+export type EnumCouponTypeFieldUpdateOperationsInput = {
+  set?: $Enums.CouponType
+}
+
+export type NullableIntFieldUpdateOperationsInput = {
+  set?: number | null
+  increment?: number
+  decrement?: number
+  multiply?: number
+  divide?: number
+}
+
+export type CouponCreateNestedOneWithoutRedemptionsInput = {
+  create?: Prisma.XOR<Prisma.CouponCreateWithoutRedemptionsInput, Prisma.CouponUncheckedCreateWithoutRedemptionsInput>
+  connectOrCreate?: Prisma.CouponCreateOrConnectWithoutRedemptionsInput
+  connect?: Prisma.CouponWhereUniqueInput
+}
+
+export type CouponUpdateOneRequiredWithoutRedemptionsNestedInput = {
+  create?: Prisma.XOR<Prisma.CouponCreateWithoutRedemptionsInput, Prisma.CouponUncheckedCreateWithoutRedemptionsInput>
+  connectOrCreate?: Prisma.CouponCreateOrConnectWithoutRedemptionsInput
+  upsert?: Prisma.CouponUpsertWithoutRedemptionsInput
+  connect?: Prisma.CouponWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.CouponUpdateToOneWithWhereWithoutRedemptionsInput, Prisma.CouponUpdateWithoutRedemptionsInput>, Prisma.CouponUncheckedUpdateWithoutRedemptionsInput>
+}
+
+export type CouponCreateNestedOneWithoutCartCouponsInput = {
+  create?: Prisma.XOR<Prisma.CouponCreateWithoutCartCouponsInput, Prisma.CouponUncheckedCreateWithoutCartCouponsInput>
+  connectOrCreate?: Prisma.CouponCreateOrConnectWithoutCartCouponsInput
+  connect?: Prisma.CouponWhereUniqueInput
+}
+
+export type CouponUpdateOneRequiredWithoutCartCouponsNestedInput = {
+  create?: Prisma.XOR<Prisma.CouponCreateWithoutCartCouponsInput, Prisma.CouponUncheckedCreateWithoutCartCouponsInput>
+  connectOrCreate?: Prisma.CouponCreateOrConnectWithoutCartCouponsInput
+  upsert?: Prisma.CouponUpsertWithoutCartCouponsInput
+  connect?: Prisma.CouponWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.CouponUpdateToOneWithWhereWithoutCartCouponsInput, Prisma.CouponUpdateWithoutCartCouponsInput>, Prisma.CouponUncheckedUpdateWithoutCartCouponsInput>
+}
+
+export type CouponCreateWithoutCategoriesInput = {
+  id?: string
+  code: string
+  description?: string | null
+  type: $Enums.CouponType
+  value: runtime.Decimal | runtime.DecimalJsLike | number | string
+  minOrderTotal?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  startsAt?: Date | string | null
+  expiresAt?: Date | string | null
+  maxUses?: number | null
+  maxUsesPerUser?: number | null
+  usedCount?: number
+  isActive?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  products?: Prisma.ProductCreateNestedManyWithoutCouponsInput
+  orders?: Prisma.OrderCreateNestedManyWithoutCouponInput
+  redemptions?: Prisma.CouponRedemptionCreateNestedManyWithoutCouponInput
+  cartCoupons?: Prisma.CartCouponCreateNestedManyWithoutCouponInput
+}
+
+export type CouponUncheckedCreateWithoutCategoriesInput = {
+  id?: string
+  code: string
+  description?: string | null
+  type: $Enums.CouponType
+  value: runtime.Decimal | runtime.DecimalJsLike | number | string
+  minOrderTotal?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  startsAt?: Date | string | null
+  expiresAt?: Date | string | null
+  maxUses?: number | null
+  maxUsesPerUser?: number | null
+  usedCount?: number
+  isActive?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  products?: Prisma.ProductUncheckedCreateNestedManyWithoutCouponsInput
+  orders?: Prisma.OrderUncheckedCreateNestedManyWithoutCouponInput
+  redemptions?: Prisma.CouponRedemptionUncheckedCreateNestedManyWithoutCouponInput
+  cartCoupons?: Prisma.CartCouponUncheckedCreateNestedManyWithoutCouponInput
+}
+
+export type CouponCreateOrConnectWithoutCategoriesInput = {
+  where: Prisma.CouponWhereUniqueInput
+  create: Prisma.XOR<Prisma.CouponCreateWithoutCategoriesInput, Prisma.CouponUncheckedCreateWithoutCategoriesInput>
+}
+
+export type CouponUpsertWithWhereUniqueWithoutCategoriesInput = {
+  where: Prisma.CouponWhereUniqueInput
+  update: Prisma.XOR<Prisma.CouponUpdateWithoutCategoriesInput, Prisma.CouponUncheckedUpdateWithoutCategoriesInput>
+  create: Prisma.XOR<Prisma.CouponCreateWithoutCategoriesInput, Prisma.CouponUncheckedCreateWithoutCategoriesInput>
+}
+
+export type CouponUpdateWithWhereUniqueWithoutCategoriesInput = {
+  where: Prisma.CouponWhereUniqueInput
+  data: Prisma.XOR<Prisma.CouponUpdateWithoutCategoriesInput, Prisma.CouponUncheckedUpdateWithoutCategoriesInput>
+}
+
+export type CouponUpdateManyWithWhereWithoutCategoriesInput = {
+  where: Prisma.CouponScalarWhereInput
+  data: Prisma.XOR<Prisma.CouponUpdateManyMutationInput, Prisma.CouponUncheckedUpdateManyWithoutCategoriesInput>
+}
+
+export type CouponScalarWhereInput = {
+  AND?: Prisma.CouponScalarWhereInput | Prisma.CouponScalarWhereInput[]
+  OR?: Prisma.CouponScalarWhereInput[]
+  NOT?: Prisma.CouponScalarWhereInput | Prisma.CouponScalarWhereInput[]
+  id?: Prisma.StringFilter<"Coupon"> | string
+  code?: Prisma.StringFilter<"Coupon"> | string
+  description?: Prisma.StringNullableFilter<"Coupon"> | string | null
+  type?: Prisma.EnumCouponTypeFilter<"Coupon"> | $Enums.CouponType
+  value?: Prisma.DecimalFilter<"Coupon"> | runtime.Decimal | runtime.DecimalJsLike | number | string
+  minOrderTotal?: Prisma.DecimalNullableFilter<"Coupon"> | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  startsAt?: Prisma.DateTimeNullableFilter<"Coupon"> | Date | string | null
+  expiresAt?: Prisma.DateTimeNullableFilter<"Coupon"> | Date | string | null
+  maxUses?: Prisma.IntNullableFilter<"Coupon"> | number | null
+  maxUsesPerUser?: Prisma.IntNullableFilter<"Coupon"> | number | null
+  usedCount?: Prisma.IntFilter<"Coupon"> | number
+  isActive?: Prisma.BoolFilter<"Coupon"> | boolean
+  createdAt?: Prisma.DateTimeFilter<"Coupon"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"Coupon"> | Date | string
+}
+
+export type CouponCreateWithoutProductsInput = {
+  id?: string
+  code: string
+  description?: string | null
+  type: $Enums.CouponType
+  value: runtime.Decimal | runtime.DecimalJsLike | number | string
+  minOrderTotal?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  startsAt?: Date | string | null
+  expiresAt?: Date | string | null
+  maxUses?: number | null
+  maxUsesPerUser?: number | null
+  usedCount?: number
+  isActive?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  categories?: Prisma.CategoryCreateNestedManyWithoutCouponsInput
+  orders?: Prisma.OrderCreateNestedManyWithoutCouponInput
+  redemptions?: Prisma.CouponRedemptionCreateNestedManyWithoutCouponInput
+  cartCoupons?: Prisma.CartCouponCreateNestedManyWithoutCouponInput
+}
+
+export type CouponUncheckedCreateWithoutProductsInput = {
+  id?: string
+  code: string
+  description?: string | null
+  type: $Enums.CouponType
+  value: runtime.Decimal | runtime.DecimalJsLike | number | string
+  minOrderTotal?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  startsAt?: Date | string | null
+  expiresAt?: Date | string | null
+  maxUses?: number | null
+  maxUsesPerUser?: number | null
+  usedCount?: number
+  isActive?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  categories?: Prisma.CategoryUncheckedCreateNestedManyWithoutCouponsInput
+  orders?: Prisma.OrderUncheckedCreateNestedManyWithoutCouponInput
+  redemptions?: Prisma.CouponRedemptionUncheckedCreateNestedManyWithoutCouponInput
+  cartCoupons?: Prisma.CartCouponUncheckedCreateNestedManyWithoutCouponInput
+}
+
+export type CouponCreateOrConnectWithoutProductsInput = {
+  where: Prisma.CouponWhereUniqueInput
+  create: Prisma.XOR<Prisma.CouponCreateWithoutProductsInput, Prisma.CouponUncheckedCreateWithoutProductsInput>
+}
+
+export type CouponUpsertWithWhereUniqueWithoutProductsInput = {
+  where: Prisma.CouponWhereUniqueInput
+  update: Prisma.XOR<Prisma.CouponUpdateWithoutProductsInput, Prisma.CouponUncheckedUpdateWithoutProductsInput>
+  create: Prisma.XOR<Prisma.CouponCreateWithoutProductsInput, Prisma.CouponUncheckedCreateWithoutProductsInput>
+}
+
+export type CouponUpdateWithWhereUniqueWithoutProductsInput = {
+  where: Prisma.CouponWhereUniqueInput
+  data: Prisma.XOR<Prisma.CouponUpdateWithoutProductsInput, Prisma.CouponUncheckedUpdateWithoutProductsInput>
+}
+
+export type CouponUpdateManyWithWhereWithoutProductsInput = {
+  where: Prisma.CouponScalarWhereInput
+  data: Prisma.XOR<Prisma.CouponUpdateManyMutationInput, Prisma.CouponUncheckedUpdateManyWithoutProductsInput>
+}
+
+export type CouponCreateWithoutOrdersInput = {
+  id?: string
+  code: string
+  description?: string | null
+  type: $Enums.CouponType
+  value: runtime.Decimal | runtime.DecimalJsLike | number | string
+  minOrderTotal?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  startsAt?: Date | string | null
+  expiresAt?: Date | string | null
+  maxUses?: number | null
+  maxUsesPerUser?: number | null
+  usedCount?: number
+  isActive?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  categories?: Prisma.CategoryCreateNestedManyWithoutCouponsInput
+  products?: Prisma.ProductCreateNestedManyWithoutCouponsInput
+  redemptions?: Prisma.CouponRedemptionCreateNestedManyWithoutCouponInput
+  cartCoupons?: Prisma.CartCouponCreateNestedManyWithoutCouponInput
+}
+
+export type CouponUncheckedCreateWithoutOrdersInput = {
+  id?: string
+  code: string
+  description?: string | null
+  type: $Enums.CouponType
+  value: runtime.Decimal | runtime.DecimalJsLike | number | string
+  minOrderTotal?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  startsAt?: Date | string | null
+  expiresAt?: Date | string | null
+  maxUses?: number | null
+  maxUsesPerUser?: number | null
+  usedCount?: number
+  isActive?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  categories?: Prisma.CategoryUncheckedCreateNestedManyWithoutCouponsInput
+  products?: Prisma.ProductUncheckedCreateNestedManyWithoutCouponsInput
+  redemptions?: Prisma.CouponRedemptionUncheckedCreateNestedManyWithoutCouponInput
+  cartCoupons?: Prisma.CartCouponUncheckedCreateNestedManyWithoutCouponInput
+}
+
+export type CouponCreateOrConnectWithoutOrdersInput = {
+  where: Prisma.CouponWhereUniqueInput
+  create: Prisma.XOR<Prisma.CouponCreateWithoutOrdersInput, Prisma.CouponUncheckedCreateWithoutOrdersInput>
+}
+
+export type CouponUpsertWithoutOrdersInput = {
+  update: Prisma.XOR<Prisma.CouponUpdateWithoutOrdersInput, Prisma.CouponUncheckedUpdateWithoutOrdersInput>
+  create: Prisma.XOR<Prisma.CouponCreateWithoutOrdersInput, Prisma.CouponUncheckedCreateWithoutOrdersInput>
+  where?: Prisma.CouponWhereInput
+}
+
+export type CouponUpdateToOneWithWhereWithoutOrdersInput = {
+  where?: Prisma.CouponWhereInput
+  data: Prisma.XOR<Prisma.CouponUpdateWithoutOrdersInput, Prisma.CouponUncheckedUpdateWithoutOrdersInput>
+}
+
+export type CouponUpdateWithoutOrdersInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  code?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  type?: Prisma.EnumCouponTypeFieldUpdateOperationsInput | $Enums.CouponType
+  value?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  minOrderTotal?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  startsAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  expiresAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  maxUses?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  maxUsesPerUser?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  usedCount?: Prisma.IntFieldUpdateOperationsInput | number
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  categories?: Prisma.CategoryUpdateManyWithoutCouponsNestedInput
+  products?: Prisma.ProductUpdateManyWithoutCouponsNestedInput
+  redemptions?: Prisma.CouponRedemptionUpdateManyWithoutCouponNestedInput
+  cartCoupons?: Prisma.CartCouponUpdateManyWithoutCouponNestedInput
+}
+
+export type CouponUncheckedUpdateWithoutOrdersInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  code?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  type?: Prisma.EnumCouponTypeFieldUpdateOperationsInput | $Enums.CouponType
+  value?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  minOrderTotal?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  startsAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  expiresAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  maxUses?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  maxUsesPerUser?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  usedCount?: Prisma.IntFieldUpdateOperationsInput | number
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  categories?: Prisma.CategoryUncheckedUpdateManyWithoutCouponsNestedInput
+  products?: Prisma.ProductUncheckedUpdateManyWithoutCouponsNestedInput
+  redemptions?: Prisma.CouponRedemptionUncheckedUpdateManyWithoutCouponNestedInput
+  cartCoupons?: Prisma.CartCouponUncheckedUpdateManyWithoutCouponNestedInput
+}
+
+export type CouponCreateWithoutRedemptionsInput = {
+  id?: string
+  code: string
+  description?: string | null
+  type: $Enums.CouponType
+  value: runtime.Decimal | runtime.DecimalJsLike | number | string
+  minOrderTotal?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  startsAt?: Date | string | null
+  expiresAt?: Date | string | null
+  maxUses?: number | null
+  maxUsesPerUser?: number | null
+  usedCount?: number
+  isActive?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  categories?: Prisma.CategoryCreateNestedManyWithoutCouponsInput
+  products?: Prisma.ProductCreateNestedManyWithoutCouponsInput
+  orders?: Prisma.OrderCreateNestedManyWithoutCouponInput
+  cartCoupons?: Prisma.CartCouponCreateNestedManyWithoutCouponInput
+}
+
+export type CouponUncheckedCreateWithoutRedemptionsInput = {
+  id?: string
+  code: string
+  description?: string | null
+  type: $Enums.CouponType
+  value: runtime.Decimal | runtime.DecimalJsLike | number | string
+  minOrderTotal?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  startsAt?: Date | string | null
+  expiresAt?: Date | string | null
+  maxUses?: number | null
+  maxUsesPerUser?: number | null
+  usedCount?: number
+  isActive?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  categories?: Prisma.CategoryUncheckedCreateNestedManyWithoutCouponsInput
+  products?: Prisma.ProductUncheckedCreateNestedManyWithoutCouponsInput
+  orders?: Prisma.OrderUncheckedCreateNestedManyWithoutCouponInput
+  cartCoupons?: Prisma.CartCouponUncheckedCreateNestedManyWithoutCouponInput
+}
+
+export type CouponCreateOrConnectWithoutRedemptionsInput = {
+  where: Prisma.CouponWhereUniqueInput
+  create: Prisma.XOR<Prisma.CouponCreateWithoutRedemptionsInput, Prisma.CouponUncheckedCreateWithoutRedemptionsInput>
+}
+
+export type CouponUpsertWithoutRedemptionsInput = {
+  update: Prisma.XOR<Prisma.CouponUpdateWithoutRedemptionsInput, Prisma.CouponUncheckedUpdateWithoutRedemptionsInput>
+  create: Prisma.XOR<Prisma.CouponCreateWithoutRedemptionsInput, Prisma.CouponUncheckedCreateWithoutRedemptionsInput>
+  where?: Prisma.CouponWhereInput
+}
+
+export type CouponUpdateToOneWithWhereWithoutRedemptionsInput = {
+  where?: Prisma.CouponWhereInput
+  data: Prisma.XOR<Prisma.CouponUpdateWithoutRedemptionsInput, Prisma.CouponUncheckedUpdateWithoutRedemptionsInput>
+}
+
+export type CouponUpdateWithoutRedemptionsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  code?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  type?: Prisma.EnumCouponTypeFieldUpdateOperationsInput | $Enums.CouponType
+  value?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  minOrderTotal?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  startsAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  expiresAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  maxUses?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  maxUsesPerUser?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  usedCount?: Prisma.IntFieldUpdateOperationsInput | number
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  categories?: Prisma.CategoryUpdateManyWithoutCouponsNestedInput
+  products?: Prisma.ProductUpdateManyWithoutCouponsNestedInput
+  orders?: Prisma.OrderUpdateManyWithoutCouponNestedInput
+  cartCoupons?: Prisma.CartCouponUpdateManyWithoutCouponNestedInput
+}
+
+export type CouponUncheckedUpdateWithoutRedemptionsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  code?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  type?: Prisma.EnumCouponTypeFieldUpdateOperationsInput | $Enums.CouponType
+  value?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  minOrderTotal?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  startsAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  expiresAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  maxUses?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  maxUsesPerUser?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  usedCount?: Prisma.IntFieldUpdateOperationsInput | number
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  categories?: Prisma.CategoryUncheckedUpdateManyWithoutCouponsNestedInput
+  products?: Prisma.ProductUncheckedUpdateManyWithoutCouponsNestedInput
+  orders?: Prisma.OrderUncheckedUpdateManyWithoutCouponNestedInput
+  cartCoupons?: Prisma.CartCouponUncheckedUpdateManyWithoutCouponNestedInput
+}
+
+export type CouponCreateWithoutCartCouponsInput = {
+  id?: string
+  code: string
+  description?: string | null
+  type: $Enums.CouponType
+  value: runtime.Decimal | runtime.DecimalJsLike | number | string
+  minOrderTotal?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  startsAt?: Date | string | null
+  expiresAt?: Date | string | null
+  maxUses?: number | null
+  maxUsesPerUser?: number | null
+  usedCount?: number
+  isActive?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  categories?: Prisma.CategoryCreateNestedManyWithoutCouponsInput
+  products?: Prisma.ProductCreateNestedManyWithoutCouponsInput
+  orders?: Prisma.OrderCreateNestedManyWithoutCouponInput
+  redemptions?: Prisma.CouponRedemptionCreateNestedManyWithoutCouponInput
+}
+
+export type CouponUncheckedCreateWithoutCartCouponsInput = {
+  id?: string
+  code: string
+  description?: string | null
+  type: $Enums.CouponType
+  value: runtime.Decimal | runtime.DecimalJsLike | number | string
+  minOrderTotal?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  startsAt?: Date | string | null
+  expiresAt?: Date | string | null
+  maxUses?: number | null
+  maxUsesPerUser?: number | null
+  usedCount?: number
+  isActive?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  categories?: Prisma.CategoryUncheckedCreateNestedManyWithoutCouponsInput
+  products?: Prisma.ProductUncheckedCreateNestedManyWithoutCouponsInput
+  orders?: Prisma.OrderUncheckedCreateNestedManyWithoutCouponInput
+  redemptions?: Prisma.CouponRedemptionUncheckedCreateNestedManyWithoutCouponInput
+}
+
+export type CouponCreateOrConnectWithoutCartCouponsInput = {
+  where: Prisma.CouponWhereUniqueInput
+  create: Prisma.XOR<Prisma.CouponCreateWithoutCartCouponsInput, Prisma.CouponUncheckedCreateWithoutCartCouponsInput>
+}
+
+export type CouponUpsertWithoutCartCouponsInput = {
+  update: Prisma.XOR<Prisma.CouponUpdateWithoutCartCouponsInput, Prisma.CouponUncheckedUpdateWithoutCartCouponsInput>
+  create: Prisma.XOR<Prisma.CouponCreateWithoutCartCouponsInput, Prisma.CouponUncheckedCreateWithoutCartCouponsInput>
+  where?: Prisma.CouponWhereInput
+}
+
+export type CouponUpdateToOneWithWhereWithoutCartCouponsInput = {
+  where?: Prisma.CouponWhereInput
+  data: Prisma.XOR<Prisma.CouponUpdateWithoutCartCouponsInput, Prisma.CouponUncheckedUpdateWithoutCartCouponsInput>
+}
+
+export type CouponUpdateWithoutCartCouponsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  code?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  type?: Prisma.EnumCouponTypeFieldUpdateOperationsInput | $Enums.CouponType
+  value?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  minOrderTotal?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  startsAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  expiresAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  maxUses?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  maxUsesPerUser?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  usedCount?: Prisma.IntFieldUpdateOperationsInput | number
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  categories?: Prisma.CategoryUpdateManyWithoutCouponsNestedInput
+  products?: Prisma.ProductUpdateManyWithoutCouponsNestedInput
+  orders?: Prisma.OrderUpdateManyWithoutCouponNestedInput
+  redemptions?: Prisma.CouponRedemptionUpdateManyWithoutCouponNestedInput
+}
+
+export type CouponUncheckedUpdateWithoutCartCouponsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  code?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  type?: Prisma.EnumCouponTypeFieldUpdateOperationsInput | $Enums.CouponType
+  value?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  minOrderTotal?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  startsAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  expiresAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  maxUses?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  maxUsesPerUser?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  usedCount?: Prisma.IntFieldUpdateOperationsInput | number
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  categories?: Prisma.CategoryUncheckedUpdateManyWithoutCouponsNestedInput
+  products?: Prisma.ProductUncheckedUpdateManyWithoutCouponsNestedInput
+  orders?: Prisma.OrderUncheckedUpdateManyWithoutCouponNestedInput
+  redemptions?: Prisma.CouponRedemptionUncheckedUpdateManyWithoutCouponNestedInput
+}
+
+export type CouponUpdateWithoutCategoriesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  code?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  type?: Prisma.EnumCouponTypeFieldUpdateOperationsInput | $Enums.CouponType
+  value?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  minOrderTotal?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  startsAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  expiresAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  maxUses?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  maxUsesPerUser?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  usedCount?: Prisma.IntFieldUpdateOperationsInput | number
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  products?: Prisma.ProductUpdateManyWithoutCouponsNestedInput
+  orders?: Prisma.OrderUpdateManyWithoutCouponNestedInput
+  redemptions?: Prisma.CouponRedemptionUpdateManyWithoutCouponNestedInput
+  cartCoupons?: Prisma.CartCouponUpdateManyWithoutCouponNestedInput
+}
+
+export type CouponUncheckedUpdateWithoutCategoriesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  code?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  type?: Prisma.EnumCouponTypeFieldUpdateOperationsInput | $Enums.CouponType
+  value?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  minOrderTotal?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  startsAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  expiresAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  maxUses?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  maxUsesPerUser?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  usedCount?: Prisma.IntFieldUpdateOperationsInput | number
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  products?: Prisma.ProductUncheckedUpdateManyWithoutCouponsNestedInput
+  orders?: Prisma.OrderUncheckedUpdateManyWithoutCouponNestedInput
+  redemptions?: Prisma.CouponRedemptionUncheckedUpdateManyWithoutCouponNestedInput
+  cartCoupons?: Prisma.CartCouponUncheckedUpdateManyWithoutCouponNestedInput
+}
+
+export type CouponUncheckedUpdateManyWithoutCategoriesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  code?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  type?: Prisma.EnumCouponTypeFieldUpdateOperationsInput | $Enums.CouponType
+  value?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  minOrderTotal?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  startsAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  expiresAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  maxUses?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  maxUsesPerUser?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  usedCount?: Prisma.IntFieldUpdateOperationsInput | number
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type CouponUpdateWithoutProductsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  code?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  type?: Prisma.EnumCouponTypeFieldUpdateOperationsInput | $Enums.CouponType
+  value?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  minOrderTotal?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  startsAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  expiresAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  maxUses?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  maxUsesPerUser?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  usedCount?: Prisma.IntFieldUpdateOperationsInput | number
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  categories?: Prisma.CategoryUpdateManyWithoutCouponsNestedInput
+  orders?: Prisma.OrderUpdateManyWithoutCouponNestedInput
+  redemptions?: Prisma.CouponRedemptionUpdateManyWithoutCouponNestedInput
+  cartCoupons?: Prisma.CartCouponUpdateManyWithoutCouponNestedInput
+}
+
+export type CouponUncheckedUpdateWithoutProductsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  code?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  type?: Prisma.EnumCouponTypeFieldUpdateOperationsInput | $Enums.CouponType
+  value?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  minOrderTotal?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  startsAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  expiresAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  maxUses?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  maxUsesPerUser?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  usedCount?: Prisma.IntFieldUpdateOperationsInput | number
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  categories?: Prisma.CategoryUncheckedUpdateManyWithoutCouponsNestedInput
+  orders?: Prisma.OrderUncheckedUpdateManyWithoutCouponNestedInput
+  redemptions?: Prisma.CouponRedemptionUncheckedUpdateManyWithoutCouponNestedInput
+  cartCoupons?: Prisma.CartCouponUncheckedUpdateManyWithoutCouponNestedInput
+}
+
+export type CouponUncheckedUpdateManyWithoutProductsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  code?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  type?: Prisma.EnumCouponTypeFieldUpdateOperationsInput | $Enums.CouponType
+  value?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  minOrderTotal?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  startsAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  expiresAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  maxUses?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  maxUsesPerUser?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  usedCount?: Prisma.IntFieldUpdateOperationsInput | number
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+/**
+ * Count Type CouponCountOutputType
+ */
+
+export type CouponCountOutputType = {
+  categories: number
+  products: number
+  orders: number
+  redemptions: number
+  cartCoupons: number
+}
+
+export type CouponCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  categories?: boolean | CouponCountOutputTypeCountCategoriesArgs
+  products?: boolean | CouponCountOutputTypeCountProductsArgs
+  orders?: boolean | CouponCountOutputTypeCountOrdersArgs
+  redemptions?: boolean | CouponCountOutputTypeCountRedemptionsArgs
+  cartCoupons?: boolean | CouponCountOutputTypeCountCartCouponsArgs
+}
+
+/**
+ * CouponCountOutputType without action
+ */
+export type CouponCountOutputTypeDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CouponCountOutputType
+   */
+  select?: Prisma.CouponCountOutputTypeSelect<ExtArgs> | null
+}
+
+/**
+ * CouponCountOutputType without action
+ */
+export type CouponCountOutputTypeCountCategoriesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.CategoryWhereInput
+}
+
+/**
+ * CouponCountOutputType without action
+ */
+export type CouponCountOutputTypeCountProductsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ProductWhereInput
+}
+
+/**
+ * CouponCountOutputType without action
+ */
+export type CouponCountOutputTypeCountOrdersArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.OrderWhereInput
+}
+
+/**
+ * CouponCountOutputType without action
+ */
+export type CouponCountOutputTypeCountRedemptionsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.CouponRedemptionWhereInput
+}
+
+/**
+ * CouponCountOutputType without action
+ */
+export type CouponCountOutputTypeCountCartCouponsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.CartCouponWhereInput
+}
+
+
+export type CouponSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  code?: boolean
+  description?: boolean
+  type?: boolean
+  value?: boolean
+  minOrderTotal?: boolean
+  startsAt?: boolean
+  expiresAt?: boolean
+  maxUses?: boolean
+  maxUsesPerUser?: boolean
+  usedCount?: boolean
+  isActive?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  categories?: boolean | Prisma.Coupon$categoriesArgs<ExtArgs>
+  products?: boolean | Prisma.Coupon$productsArgs<ExtArgs>
+  orders?: boolean | Prisma.Coupon$ordersArgs<ExtArgs>
+  redemptions?: boolean | Prisma.Coupon$redemptionsArgs<ExtArgs>
+  cartCoupons?: boolean | Prisma.Coupon$cartCouponsArgs<ExtArgs>
+  _count?: boolean | Prisma.CouponCountOutputTypeDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["coupon"]>
+
+export type CouponSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  code?: boolean
+  description?: boolean
+  type?: boolean
+  value?: boolean
+  minOrderTotal?: boolean
+  startsAt?: boolean
+  expiresAt?: boolean
+  maxUses?: boolean
+  maxUsesPerUser?: boolean
+  usedCount?: boolean
+  isActive?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}, ExtArgs["result"]["coupon"]>
+
+export type CouponSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  code?: boolean
+  description?: boolean
+  type?: boolean
+  value?: boolean
+  minOrderTotal?: boolean
+  startsAt?: boolean
+  expiresAt?: boolean
+  maxUses?: boolean
+  maxUsesPerUser?: boolean
+  usedCount?: boolean
+  isActive?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}, ExtArgs["result"]["coupon"]>
+
+export type CouponSelectScalar = {
+  id?: boolean
+  code?: boolean
+  description?: boolean
+  type?: boolean
+  value?: boolean
+  minOrderTotal?: boolean
+  startsAt?: boolean
+  expiresAt?: boolean
+  maxUses?: boolean
+  maxUsesPerUser?: boolean
+  usedCount?: boolean
+  isActive?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}
+
+export type CouponOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "code" | "description" | "type" | "value" | "minOrderTotal" | "startsAt" | "expiresAt" | "maxUses" | "maxUsesPerUser" | "usedCount" | "isActive" | "createdAt" | "updatedAt", ExtArgs["result"]["coupon"]>
+export type CouponInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  categories?: boolean | Prisma.Coupon$categoriesArgs<ExtArgs>
+  products?: boolean | Prisma.Coupon$productsArgs<ExtArgs>
+  orders?: boolean | Prisma.Coupon$ordersArgs<ExtArgs>
+  redemptions?: boolean | Prisma.Coupon$redemptionsArgs<ExtArgs>
+  cartCoupons?: boolean | Prisma.Coupon$cartCouponsArgs<ExtArgs>
+  _count?: boolean | Prisma.CouponCountOutputTypeDefaultArgs<ExtArgs>
+}
+export type CouponIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {}
+export type CouponIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {}
+
+export type $CouponPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "Coupon"
+  objects: {
+    categories: Prisma.$CategoryPayload<ExtArgs>[]
+    products: Prisma.$ProductPayload<ExtArgs>[]
+    orders: Prisma.$OrderPayload<ExtArgs>[]
+    redemptions: Prisma.$CouponRedemptionPayload<ExtArgs>[]
+    cartCoupons: Prisma.$CartCouponPayload<ExtArgs>[]
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    code: string
+    description: string | null
+    type: $Enums.CouponType
+    value: runtime.Decimal
+    minOrderTotal: runtime.Decimal | null
+    startsAt: Date | null
+    expiresAt: Date | null
+    maxUses: number | null
+    maxUsesPerUser: number | null
+    usedCount: number
+    isActive: boolean
+    createdAt: Date
+    updatedAt: Date
+  }, ExtArgs["result"]["coupon"]>
+  composites: {}
+}
+
+export type CouponGetPayload<S extends boolean | null | undefined | CouponDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$CouponPayload, S>
+
+export type CouponCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<CouponFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: CouponCountAggregateInputType | true
+  }
+
+export interface CouponDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['Coupon'], meta: { name: 'Coupon' } }
+  /**
+   * Find zero or one Coupon that matches the filter.
+   * @param {CouponFindUniqueArgs} args - Arguments to find a Coupon
+   * @example
+   * // Get one Coupon
+   * const coupon = await prisma.coupon.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends CouponFindUniqueArgs>(args: Prisma.SelectSubset<T, CouponFindUniqueArgs<ExtArgs>>): Prisma.Prisma__CouponClient<runtime.Types.Result.GetResult<Prisma.$CouponPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one Coupon that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {CouponFindUniqueOrThrowArgs} args - Arguments to find a Coupon
+   * @example
+   * // Get one Coupon
+   * const coupon = await prisma.coupon.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends CouponFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, CouponFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__CouponClient<runtime.Types.Result.GetResult<Prisma.$CouponPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first Coupon that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CouponFindFirstArgs} args - Arguments to find a Coupon
+   * @example
+   * // Get one Coupon
+   * const coupon = await prisma.coupon.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends CouponFindFirstArgs>(args?: Prisma.SelectSubset<T, CouponFindFirstArgs<ExtArgs>>): Prisma.Prisma__CouponClient<runtime.Types.Result.GetResult<Prisma.$CouponPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first Coupon that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CouponFindFirstOrThrowArgs} args - Arguments to find a Coupon
+   * @example
+   * // Get one Coupon
+   * const coupon = await prisma.coupon.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends CouponFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, CouponFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__CouponClient<runtime.Types.Result.GetResult<Prisma.$CouponPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more Coupons that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CouponFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all Coupons
+   * const coupons = await prisma.coupon.findMany()
+   * 
+   * // Get first 10 Coupons
+   * const coupons = await prisma.coupon.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const couponWithIdOnly = await prisma.coupon.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends CouponFindManyArgs>(args?: Prisma.SelectSubset<T, CouponFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$CouponPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a Coupon.
+   * @param {CouponCreateArgs} args - Arguments to create a Coupon.
+   * @example
+   * // Create one Coupon
+   * const Coupon = await prisma.coupon.create({
+   *   data: {
+   *     // ... data to create a Coupon
+   *   }
+   * })
+   * 
+   */
+  create<T extends CouponCreateArgs>(args: Prisma.SelectSubset<T, CouponCreateArgs<ExtArgs>>): Prisma.Prisma__CouponClient<runtime.Types.Result.GetResult<Prisma.$CouponPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many Coupons.
+   * @param {CouponCreateManyArgs} args - Arguments to create many Coupons.
+   * @example
+   * // Create many Coupons
+   * const coupon = await prisma.coupon.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends CouponCreateManyArgs>(args?: Prisma.SelectSubset<T, CouponCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many Coupons and returns the data saved in the database.
+   * @param {CouponCreateManyAndReturnArgs} args - Arguments to create many Coupons.
+   * @example
+   * // Create many Coupons
+   * const coupon = await prisma.coupon.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many Coupons and only return the `id`
+   * const couponWithIdOnly = await prisma.coupon.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends CouponCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, CouponCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$CouponPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a Coupon.
+   * @param {CouponDeleteArgs} args - Arguments to delete one Coupon.
+   * @example
+   * // Delete one Coupon
+   * const Coupon = await prisma.coupon.delete({
+   *   where: {
+   *     // ... filter to delete one Coupon
+   *   }
+   * })
+   * 
+   */
+  delete<T extends CouponDeleteArgs>(args: Prisma.SelectSubset<T, CouponDeleteArgs<ExtArgs>>): Prisma.Prisma__CouponClient<runtime.Types.Result.GetResult<Prisma.$CouponPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one Coupon.
+   * @param {CouponUpdateArgs} args - Arguments to update one Coupon.
+   * @example
+   * // Update one Coupon
+   * const coupon = await prisma.coupon.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends CouponUpdateArgs>(args: Prisma.SelectSubset<T, CouponUpdateArgs<ExtArgs>>): Prisma.Prisma__CouponClient<runtime.Types.Result.GetResult<Prisma.$CouponPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more Coupons.
+   * @param {CouponDeleteManyArgs} args - Arguments to filter Coupons to delete.
+   * @example
+   * // Delete a few Coupons
+   * const { count } = await prisma.coupon.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends CouponDeleteManyArgs>(args?: Prisma.SelectSubset<T, CouponDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more Coupons.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CouponUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many Coupons
+   * const coupon = await prisma.coupon.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends CouponUpdateManyArgs>(args: Prisma.SelectSubset<T, CouponUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more Coupons and returns the data updated in the database.
+   * @param {CouponUpdateManyAndReturnArgs} args - Arguments to update many Coupons.
+   * @example
+   * // Update many Coupons
+   * const coupon = await prisma.coupon.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more Coupons and only return the `id`
+   * const couponWithIdOnly = await prisma.coupon.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends CouponUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, CouponUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$CouponPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one Coupon.
+   * @param {CouponUpsertArgs} args - Arguments to update or create a Coupon.
+   * @example
+   * // Update or create a Coupon
+   * const coupon = await prisma.coupon.upsert({
+   *   create: {
+   *     // ... data to create a Coupon
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the Coupon we want to update
+   *   }
+   * })
+   */
+  upsert<T extends CouponUpsertArgs>(args: Prisma.SelectSubset<T, CouponUpsertArgs<ExtArgs>>): Prisma.Prisma__CouponClient<runtime.Types.Result.GetResult<Prisma.$CouponPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of Coupons.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CouponCountArgs} args - Arguments to filter Coupons to count.
+   * @example
+   * // Count the number of Coupons
+   * const count = await prisma.coupon.count({
+   *   where: {
+   *     // ... the filter for the Coupons we want to count
+   *   }
+   * })
+  **/
+  count<T extends CouponCountArgs>(
+    args?: Prisma.Subset<T, CouponCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], CouponCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a Coupon.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CouponAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends CouponAggregateArgs>(args: Prisma.Subset<T, CouponAggregateArgs>): Prisma.PrismaPromise<GetCouponAggregateType<T>>
+
+  /**
+   * Group by Coupon.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CouponGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends CouponGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: CouponGroupByArgs['orderBy'] }
+      : { orderBy?: CouponGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, CouponGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetCouponGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the Coupon model
+ */
+readonly fields: CouponFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for Coupon.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__CouponClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  categories<T extends Prisma.Coupon$categoriesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Coupon$categoriesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$CategoryPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  products<T extends Prisma.Coupon$productsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Coupon$productsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ProductPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  orders<T extends Prisma.Coupon$ordersArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Coupon$ordersArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$OrderPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  redemptions<T extends Prisma.Coupon$redemptionsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Coupon$redemptionsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$CouponRedemptionPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  cartCoupons<T extends Prisma.Coupon$cartCouponsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Coupon$cartCouponsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$CartCouponPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the Coupon model
+ */
+export interface CouponFieldRefs {
+  readonly id: Prisma.FieldRef<"Coupon", 'String'>
+  readonly code: Prisma.FieldRef<"Coupon", 'String'>
+  readonly description: Prisma.FieldRef<"Coupon", 'String'>
+  readonly type: Prisma.FieldRef<"Coupon", 'CouponType'>
+  readonly value: Prisma.FieldRef<"Coupon", 'Decimal'>
+  readonly minOrderTotal: Prisma.FieldRef<"Coupon", 'Decimal'>
+  readonly startsAt: Prisma.FieldRef<"Coupon", 'DateTime'>
+  readonly expiresAt: Prisma.FieldRef<"Coupon", 'DateTime'>
+  readonly maxUses: Prisma.FieldRef<"Coupon", 'Int'>
+  readonly maxUsesPerUser: Prisma.FieldRef<"Coupon", 'Int'>
+  readonly usedCount: Prisma.FieldRef<"Coupon", 'Int'>
+  readonly isActive: Prisma.FieldRef<"Coupon", 'Boolean'>
+  readonly createdAt: Prisma.FieldRef<"Coupon", 'DateTime'>
+  readonly updatedAt: Prisma.FieldRef<"Coupon", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * Coupon findUnique
+ */
+export type CouponFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Coupon
+   */
+  select?: Prisma.CouponSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Coupon
+   */
+  omit?: Prisma.CouponOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CouponInclude<ExtArgs> | null
+  /**
+   * Filter, which Coupon to fetch.
+   */
+  where: Prisma.CouponWhereUniqueInput
+}
+
+/**
+ * Coupon findUniqueOrThrow
+ */
+export type CouponFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Coupon
+   */
+  select?: Prisma.CouponSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Coupon
+   */
+  omit?: Prisma.CouponOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CouponInclude<ExtArgs> | null
+  /**
+   * Filter, which Coupon to fetch.
+   */
+  where: Prisma.CouponWhereUniqueInput
+}
+
+/**
+ * Coupon findFirst
+ */
+export type CouponFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Coupon
+   */
+  select?: Prisma.CouponSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Coupon
+   */
+  omit?: Prisma.CouponOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CouponInclude<ExtArgs> | null
+  /**
+   * Filter, which Coupon to fetch.
+   */
+  where?: Prisma.CouponWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of Coupons to fetch.
+   */
+  orderBy?: Prisma.CouponOrderByWithRelationInput | Prisma.CouponOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for Coupons.
+   */
+  cursor?: Prisma.CouponWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` Coupons from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` Coupons.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of Coupons.
+   */
+  distinct?: Prisma.CouponScalarFieldEnum | Prisma.CouponScalarFieldEnum[]
+}
+
+/**
+ * Coupon findFirstOrThrow
+ */
+export type CouponFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Coupon
+   */
+  select?: Prisma.CouponSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Coupon
+   */
+  omit?: Prisma.CouponOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CouponInclude<ExtArgs> | null
+  /**
+   * Filter, which Coupon to fetch.
+   */
+  where?: Prisma.CouponWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of Coupons to fetch.
+   */
+  orderBy?: Prisma.CouponOrderByWithRelationInput | Prisma.CouponOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for Coupons.
+   */
+  cursor?: Prisma.CouponWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` Coupons from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` Coupons.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of Coupons.
+   */
+  distinct?: Prisma.CouponScalarFieldEnum | Prisma.CouponScalarFieldEnum[]
+}
+
+/**
+ * Coupon findMany
+ */
+export type CouponFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Coupon
+   */
+  select?: Prisma.CouponSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Coupon
+   */
+  omit?: Prisma.CouponOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CouponInclude<ExtArgs> | null
+  /**
+   * Filter, which Coupons to fetch.
+   */
+  where?: Prisma.CouponWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of Coupons to fetch.
+   */
+  orderBy?: Prisma.CouponOrderByWithRelationInput | Prisma.CouponOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing Coupons.
+   */
+  cursor?: Prisma.CouponWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` Coupons from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` Coupons.
+   */
+  skip?: number
+  distinct?: Prisma.CouponScalarFieldEnum | Prisma.CouponScalarFieldEnum[]
+}
+
+/**
+ * Coupon create
+ */
+export type CouponCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Coupon
+   */
+  select?: Prisma.CouponSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Coupon
+   */
+  omit?: Prisma.CouponOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CouponInclude<ExtArgs> | null
+  /**
+   * The data needed to create a Coupon.
+   */
+  data: Prisma.XOR<Prisma.CouponCreateInput, Prisma.CouponUncheckedCreateInput>
+}
+
+/**
+ * Coupon createMany
+ */
+export type CouponCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many Coupons.
+   */
+  data: Prisma.CouponCreateManyInput | Prisma.CouponCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * Coupon createManyAndReturn
+ */
+export type CouponCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Coupon
+   */
+  select?: Prisma.CouponSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the Coupon
+   */
+  omit?: Prisma.CouponOmit<ExtArgs> | null
+  /**
+   * The data used to create many Coupons.
+   */
+  data: Prisma.CouponCreateManyInput | Prisma.CouponCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * Coupon update
+ */
+export type CouponUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Coupon
+   */
+  select?: Prisma.CouponSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Coupon
+   */
+  omit?: Prisma.CouponOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CouponInclude<ExtArgs> | null
+  /**
+   * The data needed to update a Coupon.
+   */
+  data: Prisma.XOR<Prisma.CouponUpdateInput, Prisma.CouponUncheckedUpdateInput>
+  /**
+   * Choose, which Coupon to update.
+   */
+  where: Prisma.CouponWhereUniqueInput
+}
+
+/**
+ * Coupon updateMany
+ */
+export type CouponUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update Coupons.
+   */
+  data: Prisma.XOR<Prisma.CouponUpdateManyMutationInput, Prisma.CouponUncheckedUpdateManyInput>
+  /**
+   * Filter which Coupons to update
+   */
+  where?: Prisma.CouponWhereInput
+  /**
+   * Limit how many Coupons to update.
+   */
+  limit?: number
+}
+
+/**
+ * Coupon updateManyAndReturn
+ */
+export type CouponUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Coupon
+   */
+  select?: Prisma.CouponSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the Coupon
+   */
+  omit?: Prisma.CouponOmit<ExtArgs> | null
+  /**
+   * The data used to update Coupons.
+   */
+  data: Prisma.XOR<Prisma.CouponUpdateManyMutationInput, Prisma.CouponUncheckedUpdateManyInput>
+  /**
+   * Filter which Coupons to update
+   */
+  where?: Prisma.CouponWhereInput
+  /**
+   * Limit how many Coupons to update.
+   */
+  limit?: number
+}
+
+/**
+ * Coupon upsert
+ */
+export type CouponUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Coupon
+   */
+  select?: Prisma.CouponSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Coupon
+   */
+  omit?: Prisma.CouponOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CouponInclude<ExtArgs> | null
+  /**
+   * The filter to search for the Coupon to update in case it exists.
+   */
+  where: Prisma.CouponWhereUniqueInput
+  /**
+   * In case the Coupon found by the `where` argument doesn't exist, create a new Coupon with this data.
+   */
+  create: Prisma.XOR<Prisma.CouponCreateInput, Prisma.CouponUncheckedCreateInput>
+  /**
+   * In case the Coupon was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.CouponUpdateInput, Prisma.CouponUncheckedUpdateInput>
+}
+
+/**
+ * Coupon delete
+ */
+export type CouponDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Coupon
+   */
+  select?: Prisma.CouponSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Coupon
+   */
+  omit?: Prisma.CouponOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CouponInclude<ExtArgs> | null
+  /**
+   * Filter which Coupon to delete.
+   */
+  where: Prisma.CouponWhereUniqueInput
+}
+
+/**
+ * Coupon deleteMany
+ */
+export type CouponDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which Coupons to delete
+   */
+  where?: Prisma.CouponWhereInput
+  /**
+   * Limit how many Coupons to delete.
+   */
+  limit?: number
+}
+
+/**
+ * Coupon.categories
+ */
+export type Coupon$categoriesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Category
+   */
+  select?: Prisma.CategorySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Category
+   */
+  omit?: Prisma.CategoryOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CategoryInclude<ExtArgs> | null
+  where?: Prisma.CategoryWhereInput
+  orderBy?: Prisma.CategoryOrderByWithRelationInput | Prisma.CategoryOrderByWithRelationInput[]
+  cursor?: Prisma.CategoryWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.CategoryScalarFieldEnum | Prisma.CategoryScalarFieldEnum[]
+}
+
+/**
+ * Coupon.products
+ */
+export type Coupon$productsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Product
+   */
+  select?: Prisma.ProductSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Product
+   */
+  omit?: Prisma.ProductOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProductInclude<ExtArgs> | null
+  where?: Prisma.ProductWhereInput
+  orderBy?: Prisma.ProductOrderByWithRelationInput | Prisma.ProductOrderByWithRelationInput[]
+  cursor?: Prisma.ProductWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.ProductScalarFieldEnum | Prisma.ProductScalarFieldEnum[]
+}
+
+/**
+ * Coupon.orders
+ */
+export type Coupon$ordersArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Order
+   */
+  select?: Prisma.OrderSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Order
+   */
+  omit?: Prisma.OrderOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OrderInclude<ExtArgs> | null
+  where?: Prisma.OrderWhereInput
+  orderBy?: Prisma.OrderOrderByWithRelationInput | Prisma.OrderOrderByWithRelationInput[]
+  cursor?: Prisma.OrderWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.OrderScalarFieldEnum | Prisma.OrderScalarFieldEnum[]
+}
+
+/**
+ * Coupon.redemptions
+ */
+export type Coupon$redemptionsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CouponRedemption
+   */
+  select?: Prisma.CouponRedemptionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CouponRedemption
+   */
+  omit?: Prisma.CouponRedemptionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CouponRedemptionInclude<ExtArgs> | null
+  where?: Prisma.CouponRedemptionWhereInput
+  orderBy?: Prisma.CouponRedemptionOrderByWithRelationInput | Prisma.CouponRedemptionOrderByWithRelationInput[]
+  cursor?: Prisma.CouponRedemptionWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.CouponRedemptionScalarFieldEnum | Prisma.CouponRedemptionScalarFieldEnum[]
+}
+
+/**
+ * Coupon.cartCoupons
+ */
+export type Coupon$cartCouponsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CartCoupon
+   */
+  select?: Prisma.CartCouponSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CartCoupon
+   */
+  omit?: Prisma.CartCouponOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CartCouponInclude<ExtArgs> | null
+  where?: Prisma.CartCouponWhereInput
+  orderBy?: Prisma.CartCouponOrderByWithRelationInput | Prisma.CartCouponOrderByWithRelationInput[]
+  cursor?: Prisma.CartCouponWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.CartCouponScalarFieldEnum | Prisma.CartCouponScalarFieldEnum[]
+}
+
+/**
+ * Coupon without action
+ */
+export type CouponDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Coupon
+   */
+  select?: Prisma.CouponSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Coupon
+   */
+  omit?: Prisma.CouponOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CouponInclude<ExtArgs> | null
+}
@@ -0,0 +1,1782 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `CryptoPayment` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums.js"
+import type * as Prisma from "../internal/prismaNamespace.js"
+
+/**
+ * Model CryptoPayment
+ * 
+ */
+export type CryptoPaymentModel = runtime.Types.Result.DefaultSelection<Prisma.$CryptoPaymentPayload>
+
+export type AggregateCryptoPayment = {
+  _count: CryptoPaymentCountAggregateOutputType | null
+  _avg: CryptoPaymentAvgAggregateOutputType | null
+  _sum: CryptoPaymentSumAggregateOutputType | null
+  _min: CryptoPaymentMinAggregateOutputType | null
+  _max: CryptoPaymentMaxAggregateOutputType | null
+}
+
+export type CryptoPaymentAvgAggregateOutputType = {
+  amountUsd: runtime.Decimal | null
+  rate: runtime.Decimal | null
+  cryptoAmount: runtime.Decimal | null
+  receivedAmount: runtime.Decimal | null
+  confirmations: number | null
+}
+
+export type CryptoPaymentSumAggregateOutputType = {
+  amountUsd: runtime.Decimal | null
+  rate: runtime.Decimal | null
+  cryptoAmount: runtime.Decimal | null
+  receivedAmount: runtime.Decimal | null
+  confirmations: number | null
+}
+
+export type CryptoPaymentMinAggregateOutputType = {
+  id: string | null
+  transactionId: string | null
+  asset: $Enums.CryptoAsset | null
+  network: string | null
+  depositAddress: string | null
+  memo: string | null
+  amountUsd: runtime.Decimal | null
+  rate: runtime.Decimal | null
+  cryptoAmount: runtime.Decimal | null
+  expiresAt: Date | null
+  status: $Enums.CryptoPaymentStatus | null
+  txHash: string | null
+  receivedAmount: runtime.Decimal | null
+  confirmations: number | null
+  detectedAt: Date | null
+  confirmedAt: Date | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type CryptoPaymentMaxAggregateOutputType = {
+  id: string | null
+  transactionId: string | null
+  asset: $Enums.CryptoAsset | null
+  network: string | null
+  depositAddress: string | null
+  memo: string | null
+  amountUsd: runtime.Decimal | null
+  rate: runtime.Decimal | null
+  cryptoAmount: runtime.Decimal | null
+  expiresAt: Date | null
+  status: $Enums.CryptoPaymentStatus | null
+  txHash: string | null
+  receivedAmount: runtime.Decimal | null
+  confirmations: number | null
+  detectedAt: Date | null
+  confirmedAt: Date | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type CryptoPaymentCountAggregateOutputType = {
+  id: number
+  transactionId: number
+  asset: number
+  network: number
+  depositAddress: number
+  memo: number
+  amountUsd: number
+  rate: number
+  cryptoAmount: number
+  expiresAt: number
+  status: number
+  txHash: number
+  receivedAmount: number
+  confirmations: number
+  detectedAt: number
+  confirmedAt: number
+  createdAt: number
+  updatedAt: number
+  _all: number
+}
+
+
+export type CryptoPaymentAvgAggregateInputType = {
+  amountUsd?: true
+  rate?: true
+  cryptoAmount?: true
+  receivedAmount?: true
+  confirmations?: true
+}
+
+export type CryptoPaymentSumAggregateInputType = {
+  amountUsd?: true
+  rate?: true
+  cryptoAmount?: true
+  receivedAmount?: true
+  confirmations?: true
+}
+
+export type CryptoPaymentMinAggregateInputType = {
+  id?: true
+  transactionId?: true
+  asset?: true
+  network?: true
+  depositAddress?: true
+  memo?: true
+  amountUsd?: true
+  rate?: true
+  cryptoAmount?: true
+  expiresAt?: true
+  status?: true
+  txHash?: true
+  receivedAmount?: true
+  confirmations?: true
+  detectedAt?: true
+  confirmedAt?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type CryptoPaymentMaxAggregateInputType = {
+  id?: true
+  transactionId?: true
+  asset?: true
+  network?: true
+  depositAddress?: true
+  memo?: true
+  amountUsd?: true
+  rate?: true
+  cryptoAmount?: true
+  expiresAt?: true
+  status?: true
+  txHash?: true
+  receivedAmount?: true
+  confirmations?: true
+  detectedAt?: true
+  confirmedAt?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type CryptoPaymentCountAggregateInputType = {
+  id?: true
+  transactionId?: true
+  asset?: true
+  network?: true
+  depositAddress?: true
+  memo?: true
+  amountUsd?: true
+  rate?: true
+  cryptoAmount?: true
+  expiresAt?: true
+  status?: true
+  txHash?: true
+  receivedAmount?: true
+  confirmations?: true
+  detectedAt?: true
+  confirmedAt?: true
+  createdAt?: true
+  updatedAt?: true
+  _all?: true
+}
+
+export type CryptoPaymentAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which CryptoPayment to aggregate.
+   */
+  where?: Prisma.CryptoPaymentWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of CryptoPayments to fetch.
+   */
+  orderBy?: Prisma.CryptoPaymentOrderByWithRelationInput | Prisma.CryptoPaymentOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.CryptoPaymentWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` CryptoPayments from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` CryptoPayments.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned CryptoPayments
+  **/
+  _count?: true | CryptoPaymentCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: CryptoPaymentAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: CryptoPaymentSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: CryptoPaymentMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: CryptoPaymentMaxAggregateInputType
+}
+
+export type GetCryptoPaymentAggregateType<T extends CryptoPaymentAggregateArgs> = {
+      [P in keyof T & keyof AggregateCryptoPayment]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateCryptoPayment[P]>
+    : Prisma.GetScalarType<T[P], AggregateCryptoPayment[P]>
+}
+
+
+
+
+export type CryptoPaymentGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.CryptoPaymentWhereInput
+  orderBy?: Prisma.CryptoPaymentOrderByWithAggregationInput | Prisma.CryptoPaymentOrderByWithAggregationInput[]
+  by: Prisma.CryptoPaymentScalarFieldEnum[] | Prisma.CryptoPaymentScalarFieldEnum
+  having?: Prisma.CryptoPaymentScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: CryptoPaymentCountAggregateInputType | true
+  _avg?: CryptoPaymentAvgAggregateInputType
+  _sum?: CryptoPaymentSumAggregateInputType
+  _min?: CryptoPaymentMinAggregateInputType
+  _max?: CryptoPaymentMaxAggregateInputType
+}
+
+export type CryptoPaymentGroupByOutputType = {
+  id: string
+  transactionId: string
+  asset: $Enums.CryptoAsset
+  network: string
+  depositAddress: string
+  memo: string | null
+  amountUsd: runtime.Decimal
+  rate: runtime.Decimal
+  cryptoAmount: runtime.Decimal
+  expiresAt: Date
+  status: $Enums.CryptoPaymentStatus
+  txHash: string | null
+  receivedAmount: runtime.Decimal | null
+  confirmations: number
+  detectedAt: Date | null
+  confirmedAt: Date | null
+  createdAt: Date
+  updatedAt: Date
+  _count: CryptoPaymentCountAggregateOutputType | null
+  _avg: CryptoPaymentAvgAggregateOutputType | null
+  _sum: CryptoPaymentSumAggregateOutputType | null
+  _min: CryptoPaymentMinAggregateOutputType | null
+  _max: CryptoPaymentMaxAggregateOutputType | null
+}
+
+type GetCryptoPaymentGroupByPayload<T extends CryptoPaymentGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<CryptoPaymentGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof CryptoPaymentGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], CryptoPaymentGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], CryptoPaymentGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type CryptoPaymentWhereInput = {
+  AND?: Prisma.CryptoPaymentWhereInput | Prisma.CryptoPaymentWhereInput[]
+  OR?: Prisma.CryptoPaymentWhereInput[]
+  NOT?: Prisma.CryptoPaymentWhereInput | Prisma.CryptoPaymentWhereInput[]
+  id?: Prisma.StringFilter<"CryptoPayment"> | string
+  transactionId?: Prisma.StringFilter<"CryptoPayment"> | string
+  asset?: Prisma.EnumCryptoAssetFilter<"CryptoPayment"> | $Enums.CryptoAsset
+  network?: Prisma.StringFilter<"CryptoPayment"> | string
+  depositAddress?: Prisma.StringFilter<"CryptoPayment"> | string
+  memo?: Prisma.StringNullableFilter<"CryptoPayment"> | string | null
+  amountUsd?: Prisma.DecimalFilter<"CryptoPayment"> | runtime.Decimal | runtime.DecimalJsLike | number | string
+  rate?: Prisma.DecimalFilter<"CryptoPayment"> | runtime.Decimal | runtime.DecimalJsLike | number | string
+  cryptoAmount?: Prisma.DecimalFilter<"CryptoPayment"> | runtime.Decimal | runtime.DecimalJsLike | number | string
+  expiresAt?: Prisma.DateTimeFilter<"CryptoPayment"> | Date | string
+  status?: Prisma.EnumCryptoPaymentStatusFilter<"CryptoPayment"> | $Enums.CryptoPaymentStatus
+  txHash?: Prisma.StringNullableFilter<"CryptoPayment"> | string | null
+  receivedAmount?: Prisma.DecimalNullableFilter<"CryptoPayment"> | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  confirmations?: Prisma.IntFilter<"CryptoPayment"> | number
+  detectedAt?: Prisma.DateTimeNullableFilter<"CryptoPayment"> | Date | string | null
+  confirmedAt?: Prisma.DateTimeNullableFilter<"CryptoPayment"> | Date | string | null
+  createdAt?: Prisma.DateTimeFilter<"CryptoPayment"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"CryptoPayment"> | Date | string
+  transaction?: Prisma.XOR<Prisma.PaymentTransactionScalarRelationFilter, Prisma.PaymentTransactionWhereInput>
+}
+
+export type CryptoPaymentOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  transactionId?: Prisma.SortOrder
+  asset?: Prisma.SortOrder
+  network?: Prisma.SortOrder
+  depositAddress?: Prisma.SortOrder
+  memo?: Prisma.SortOrderInput | Prisma.SortOrder
+  amountUsd?: Prisma.SortOrder
+  rate?: Prisma.SortOrder
+  cryptoAmount?: Prisma.SortOrder
+  expiresAt?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  txHash?: Prisma.SortOrderInput | Prisma.SortOrder
+  receivedAmount?: Prisma.SortOrderInput | Prisma.SortOrder
+  confirmations?: Prisma.SortOrder
+  detectedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  confirmedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  transaction?: Prisma.PaymentTransactionOrderByWithRelationInput
+}
+
+export type CryptoPaymentWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  transactionId?: string
+  txHash?: string
+  AND?: Prisma.CryptoPaymentWhereInput | Prisma.CryptoPaymentWhereInput[]
+  OR?: Prisma.CryptoPaymentWhereInput[]
+  NOT?: Prisma.CryptoPaymentWhereInput | Prisma.CryptoPaymentWhereInput[]
+  asset?: Prisma.EnumCryptoAssetFilter<"CryptoPayment"> | $Enums.CryptoAsset
+  network?: Prisma.StringFilter<"CryptoPayment"> | string
+  depositAddress?: Prisma.StringFilter<"CryptoPayment"> | string
+  memo?: Prisma.StringNullableFilter<"CryptoPayment"> | string | null
+  amountUsd?: Prisma.DecimalFilter<"CryptoPayment"> | runtime.Decimal | runtime.DecimalJsLike | number | string
+  rate?: Prisma.DecimalFilter<"CryptoPayment"> | runtime.Decimal | runtime.DecimalJsLike | number | string
+  cryptoAmount?: Prisma.DecimalFilter<"CryptoPayment"> | runtime.Decimal | runtime.DecimalJsLike | number | string
+  expiresAt?: Prisma.DateTimeFilter<"CryptoPayment"> | Date | string
+  status?: Prisma.EnumCryptoPaymentStatusFilter<"CryptoPayment"> | $Enums.CryptoPaymentStatus
+  receivedAmount?: Prisma.DecimalNullableFilter<"CryptoPayment"> | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  confirmations?: Prisma.IntFilter<"CryptoPayment"> | number
+  detectedAt?: Prisma.DateTimeNullableFilter<"CryptoPayment"> | Date | string | null
+  confirmedAt?: Prisma.DateTimeNullableFilter<"CryptoPayment"> | Date | string | null
+  createdAt?: Prisma.DateTimeFilter<"CryptoPayment"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"CryptoPayment"> | Date | string
+  transaction?: Prisma.XOR<Prisma.PaymentTransactionScalarRelationFilter, Prisma.PaymentTransactionWhereInput>
+}, "id" | "transactionId" | "txHash">
+
+export type CryptoPaymentOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  transactionId?: Prisma.SortOrder
+  asset?: Prisma.SortOrder
+  network?: Prisma.SortOrder
+  depositAddress?: Prisma.SortOrder
+  memo?: Prisma.SortOrderInput | Prisma.SortOrder
+  amountUsd?: Prisma.SortOrder
+  rate?: Prisma.SortOrder
+  cryptoAmount?: Prisma.SortOrder
+  expiresAt?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  txHash?: Prisma.SortOrderInput | Prisma.SortOrder
+  receivedAmount?: Prisma.SortOrderInput | Prisma.SortOrder
+  confirmations?: Prisma.SortOrder
+  detectedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  confirmedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  _count?: Prisma.CryptoPaymentCountOrderByAggregateInput
+  _avg?: Prisma.CryptoPaymentAvgOrderByAggregateInput
+  _max?: Prisma.CryptoPaymentMaxOrderByAggregateInput
+  _min?: Prisma.CryptoPaymentMinOrderByAggregateInput
+  _sum?: Prisma.CryptoPaymentSumOrderByAggregateInput
+}
+
+export type CryptoPaymentScalarWhereWithAggregatesInput = {
+  AND?: Prisma.CryptoPaymentScalarWhereWithAggregatesInput | Prisma.CryptoPaymentScalarWhereWithAggregatesInput[]
+  OR?: Prisma.CryptoPaymentScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.CryptoPaymentScalarWhereWithAggregatesInput | Prisma.CryptoPaymentScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"CryptoPayment"> | string
+  transactionId?: Prisma.StringWithAggregatesFilter<"CryptoPayment"> | string
+  asset?: Prisma.EnumCryptoAssetWithAggregatesFilter<"CryptoPayment"> | $Enums.CryptoAsset
+  network?: Prisma.StringWithAggregatesFilter<"CryptoPayment"> | string
+  depositAddress?: Prisma.StringWithAggregatesFilter<"CryptoPayment"> | string
+  memo?: Prisma.StringNullableWithAggregatesFilter<"CryptoPayment"> | string | null
+  amountUsd?: Prisma.DecimalWithAggregatesFilter<"CryptoPayment"> | runtime.Decimal | runtime.DecimalJsLike | number | string
+  rate?: Prisma.DecimalWithAggregatesFilter<"CryptoPayment"> | runtime.Decimal | runtime.DecimalJsLike | number | string
+  cryptoAmount?: Prisma.DecimalWithAggregatesFilter<"CryptoPayment"> | runtime.Decimal | runtime.DecimalJsLike | number | string
+  expiresAt?: Prisma.DateTimeWithAggregatesFilter<"CryptoPayment"> | Date | string
+  status?: Prisma.EnumCryptoPaymentStatusWithAggregatesFilter<"CryptoPayment"> | $Enums.CryptoPaymentStatus
+  txHash?: Prisma.StringNullableWithAggregatesFilter<"CryptoPayment"> | string | null
+  receivedAmount?: Prisma.DecimalNullableWithAggregatesFilter<"CryptoPayment"> | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  confirmations?: Prisma.IntWithAggregatesFilter<"CryptoPayment"> | number
+  detectedAt?: Prisma.DateTimeNullableWithAggregatesFilter<"CryptoPayment"> | Date | string | null
+  confirmedAt?: Prisma.DateTimeNullableWithAggregatesFilter<"CryptoPayment"> | Date | string | null
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"CryptoPayment"> | Date | string
+  updatedAt?: Prisma.DateTimeWithAggregatesFilter<"CryptoPayment"> | Date | string
+}
+
+export type CryptoPaymentCreateInput = {
+  id?: string
+  asset: $Enums.CryptoAsset
+  network: string
+  depositAddress: string
+  memo?: string | null
+  amountUsd: runtime.Decimal | runtime.DecimalJsLike | number | string
+  rate: runtime.Decimal | runtime.DecimalJsLike | number | string
+  cryptoAmount: runtime.Decimal | runtime.DecimalJsLike | number | string
+  expiresAt: Date | string
+  status?: $Enums.CryptoPaymentStatus
+  txHash?: string | null
+  receivedAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  confirmations?: number
+  detectedAt?: Date | string | null
+  confirmedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  transaction: Prisma.PaymentTransactionCreateNestedOneWithoutCryptoPaymentInput
+}
+
+export type CryptoPaymentUncheckedCreateInput = {
+  id?: string
+  transactionId: string
+  asset: $Enums.CryptoAsset
+  network: string
+  depositAddress: string
+  memo?: string | null
+  amountUsd: runtime.Decimal | runtime.DecimalJsLike | number | string
+  rate: runtime.Decimal | runtime.DecimalJsLike | number | string
+  cryptoAmount: runtime.Decimal | runtime.DecimalJsLike | number | string
+  expiresAt: Date | string
+  status?: $Enums.CryptoPaymentStatus
+  txHash?: string | null
+  receivedAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  confirmations?: number
+  detectedAt?: Date | string | null
+  confirmedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type CryptoPaymentUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  asset?: Prisma.EnumCryptoAssetFieldUpdateOperationsInput | $Enums.CryptoAsset
+  network?: Prisma.StringFieldUpdateOperationsInput | string
+  depositAddress?: Prisma.StringFieldUpdateOperationsInput | string
+  memo?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  amountUsd?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  rate?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  cryptoAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  status?: Prisma.EnumCryptoPaymentStatusFieldUpdateOperationsInput | $Enums.CryptoPaymentStatus
+  txHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  receivedAmount?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  confirmations?: Prisma.IntFieldUpdateOperationsInput | number
+  detectedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  confirmedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  transaction?: Prisma.PaymentTransactionUpdateOneRequiredWithoutCryptoPaymentNestedInput
+}
+
+export type CryptoPaymentUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  transactionId?: Prisma.StringFieldUpdateOperationsInput | string
+  asset?: Prisma.EnumCryptoAssetFieldUpdateOperationsInput | $Enums.CryptoAsset
+  network?: Prisma.StringFieldUpdateOperationsInput | string
+  depositAddress?: Prisma.StringFieldUpdateOperationsInput | string
+  memo?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  amountUsd?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  rate?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  cryptoAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  status?: Prisma.EnumCryptoPaymentStatusFieldUpdateOperationsInput | $Enums.CryptoPaymentStatus
+  txHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  receivedAmount?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  confirmations?: Prisma.IntFieldUpdateOperationsInput | number
+  detectedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  confirmedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type CryptoPaymentCreateManyInput = {
+  id?: string
+  transactionId: string
+  asset: $Enums.CryptoAsset
+  network: string
+  depositAddress: string
+  memo?: string | null
+  amountUsd: runtime.Decimal | runtime.DecimalJsLike | number | string
+  rate: runtime.Decimal | runtime.DecimalJsLike | number | string
+  cryptoAmount: runtime.Decimal | runtime.DecimalJsLike | number | string
+  expiresAt: Date | string
+  status?: $Enums.CryptoPaymentStatus
+  txHash?: string | null
+  receivedAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  confirmations?: number
+  detectedAt?: Date | string | null
+  confirmedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type CryptoPaymentUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  asset?: Prisma.EnumCryptoAssetFieldUpdateOperationsInput | $Enums.CryptoAsset
+  network?: Prisma.StringFieldUpdateOperationsInput | string
+  depositAddress?: Prisma.StringFieldUpdateOperationsInput | string
+  memo?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  amountUsd?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  rate?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  cryptoAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  status?: Prisma.EnumCryptoPaymentStatusFieldUpdateOperationsInput | $Enums.CryptoPaymentStatus
+  txHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  receivedAmount?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  confirmations?: Prisma.IntFieldUpdateOperationsInput | number
+  detectedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  confirmedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type CryptoPaymentUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  transactionId?: Prisma.StringFieldUpdateOperationsInput | string
+  asset?: Prisma.EnumCryptoAssetFieldUpdateOperationsInput | $Enums.CryptoAsset
+  network?: Prisma.StringFieldUpdateOperationsInput | string
+  depositAddress?: Prisma.StringFieldUpdateOperationsInput | string
+  memo?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  amountUsd?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  rate?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  cryptoAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  status?: Prisma.EnumCryptoPaymentStatusFieldUpdateOperationsInput | $Enums.CryptoPaymentStatus
+  txHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  receivedAmount?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  confirmations?: Prisma.IntFieldUpdateOperationsInput | number
+  detectedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  confirmedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type CryptoPaymentNullableScalarRelationFilter = {
+  is?: Prisma.CryptoPaymentWhereInput | null
+  isNot?: Prisma.CryptoPaymentWhereInput | null
+}
+
+export type CryptoPaymentCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  transactionId?: Prisma.SortOrder
+  asset?: Prisma.SortOrder
+  network?: Prisma.SortOrder
+  depositAddress?: Prisma.SortOrder
+  memo?: Prisma.SortOrder
+  amountUsd?: Prisma.SortOrder
+  rate?: Prisma.SortOrder
+  cryptoAmount?: Prisma.SortOrder
+  expiresAt?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  txHash?: Prisma.SortOrder
+  receivedAmount?: Prisma.SortOrder
+  confirmations?: Prisma.SortOrder
+  detectedAt?: Prisma.SortOrder
+  confirmedAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type CryptoPaymentAvgOrderByAggregateInput = {
+  amountUsd?: Prisma.SortOrder
+  rate?: Prisma.SortOrder
+  cryptoAmount?: Prisma.SortOrder
+  receivedAmount?: Prisma.SortOrder
+  confirmations?: Prisma.SortOrder
+}
+
+export type CryptoPaymentMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  transactionId?: Prisma.SortOrder
+  asset?: Prisma.SortOrder
+  network?: Prisma.SortOrder
+  depositAddress?: Prisma.SortOrder
+  memo?: Prisma.SortOrder
+  amountUsd?: Prisma.SortOrder
+  rate?: Prisma.SortOrder
+  cryptoAmount?: Prisma.SortOrder
+  expiresAt?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  txHash?: Prisma.SortOrder
+  receivedAmount?: Prisma.SortOrder
+  confirmations?: Prisma.SortOrder
+  detectedAt?: Prisma.SortOrder
+  confirmedAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type CryptoPaymentMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  transactionId?: Prisma.SortOrder
+  asset?: Prisma.SortOrder
+  network?: Prisma.SortOrder
+  depositAddress?: Prisma.SortOrder
+  memo?: Prisma.SortOrder
+  amountUsd?: Prisma.SortOrder
+  rate?: Prisma.SortOrder
+  cryptoAmount?: Prisma.SortOrder
+  expiresAt?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  txHash?: Prisma.SortOrder
+  receivedAmount?: Prisma.SortOrder
+  confirmations?: Prisma.SortOrder
+  detectedAt?: Prisma.SortOrder
+  confirmedAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type CryptoPaymentSumOrderByAggregateInput = {
+  amountUsd?: Prisma.SortOrder
+  rate?: Prisma.SortOrder
+  cryptoAmount?: Prisma.SortOrder
+  receivedAmount?: Prisma.SortOrder
+  confirmations?: Prisma.SortOrder
+}
+
+export type CryptoPaymentCreateNestedOneWithoutTransactionInput = {
+  create?: Prisma.XOR<Prisma.CryptoPaymentCreateWithoutTransactionInput, Prisma.CryptoPaymentUncheckedCreateWithoutTransactionInput>
+  connectOrCreate?: Prisma.CryptoPaymentCreateOrConnectWithoutTransactionInput
+  connect?: Prisma.CryptoPaymentWhereUniqueInput
+}
+
+export type CryptoPaymentUncheckedCreateNestedOneWithoutTransactionInput = {
+  create?: Prisma.XOR<Prisma.CryptoPaymentCreateWithoutTransactionInput, Prisma.CryptoPaymentUncheckedCreateWithoutTransactionInput>
+  connectOrCreate?: Prisma.CryptoPaymentCreateOrConnectWithoutTransactionInput
+  connect?: Prisma.CryptoPaymentWhereUniqueInput
+}
+
+export type CryptoPaymentUpdateOneWithoutTransactionNestedInput = {
+  create?: Prisma.XOR<Prisma.CryptoPaymentCreateWithoutTransactionInput, Prisma.CryptoPaymentUncheckedCreateWithoutTransactionInput>
+  connectOrCreate?: Prisma.CryptoPaymentCreateOrConnectWithoutTransactionInput
+  upsert?: Prisma.CryptoPaymentUpsertWithoutTransactionInput
+  disconnect?: Prisma.CryptoPaymentWhereInput | boolean
+  delete?: Prisma.CryptoPaymentWhereInput | boolean
+  connect?: Prisma.CryptoPaymentWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.CryptoPaymentUpdateToOneWithWhereWithoutTransactionInput, Prisma.CryptoPaymentUpdateWithoutTransactionInput>, Prisma.CryptoPaymentUncheckedUpdateWithoutTransactionInput>
+}
+
+export type CryptoPaymentUncheckedUpdateOneWithoutTransactionNestedInput = {
+  create?: Prisma.XOR<Prisma.CryptoPaymentCreateWithoutTransactionInput, Prisma.CryptoPaymentUncheckedCreateWithoutTransactionInput>
+  connectOrCreate?: Prisma.CryptoPaymentCreateOrConnectWithoutTransactionInput
+  upsert?: Prisma.CryptoPaymentUpsertWithoutTransactionInput
+  disconnect?: Prisma.CryptoPaymentWhereInput | boolean
+  delete?: Prisma.CryptoPaymentWhereInput | boolean
+  connect?: Prisma.CryptoPaymentWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.CryptoPaymentUpdateToOneWithWhereWithoutTransactionInput, Prisma.CryptoPaymentUpdateWithoutTransactionInput>, Prisma.CryptoPaymentUncheckedUpdateWithoutTransactionInput>
+}
+
+export type EnumCryptoAssetFieldUpdateOperationsInput = {
+  set?: $Enums.CryptoAsset
+}
+
+export type EnumCryptoPaymentStatusFieldUpdateOperationsInput = {
+  set?: $Enums.CryptoPaymentStatus
+}
+
+export type CryptoPaymentCreateWithoutTransactionInput = {
+  id?: string
+  asset: $Enums.CryptoAsset
+  network: string
+  depositAddress: string
+  memo?: string | null
+  amountUsd: runtime.Decimal | runtime.DecimalJsLike | number | string
+  rate: runtime.Decimal | runtime.DecimalJsLike | number | string
+  cryptoAmount: runtime.Decimal | runtime.DecimalJsLike | number | string
+  expiresAt: Date | string
+  status?: $Enums.CryptoPaymentStatus
+  txHash?: string | null
+  receivedAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  confirmations?: number
+  detectedAt?: Date | string | null
+  confirmedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type CryptoPaymentUncheckedCreateWithoutTransactionInput = {
+  id?: string
+  asset: $Enums.CryptoAsset
+  network: string
+  depositAddress: string
+  memo?: string | null
+  amountUsd: runtime.Decimal | runtime.DecimalJsLike | number | string
+  rate: runtime.Decimal | runtime.DecimalJsLike | number | string
+  cryptoAmount: runtime.Decimal | runtime.DecimalJsLike | number | string
+  expiresAt: Date | string
+  status?: $Enums.CryptoPaymentStatus
+  txHash?: string | null
+  receivedAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  confirmations?: number
+  detectedAt?: Date | string | null
+  confirmedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type CryptoPaymentCreateOrConnectWithoutTransactionInput = {
+  where: Prisma.CryptoPaymentWhereUniqueInput
+  create: Prisma.XOR<Prisma.CryptoPaymentCreateWithoutTransactionInput, Prisma.CryptoPaymentUncheckedCreateWithoutTransactionInput>
+}
+
+export type CryptoPaymentUpsertWithoutTransactionInput = {
+  update: Prisma.XOR<Prisma.CryptoPaymentUpdateWithoutTransactionInput, Prisma.CryptoPaymentUncheckedUpdateWithoutTransactionInput>
+  create: Prisma.XOR<Prisma.CryptoPaymentCreateWithoutTransactionInput, Prisma.CryptoPaymentUncheckedCreateWithoutTransactionInput>
+  where?: Prisma.CryptoPaymentWhereInput
+}
+
+export type CryptoPaymentUpdateToOneWithWhereWithoutTransactionInput = {
+  where?: Prisma.CryptoPaymentWhereInput
+  data: Prisma.XOR<Prisma.CryptoPaymentUpdateWithoutTransactionInput, Prisma.CryptoPaymentUncheckedUpdateWithoutTransactionInput>
+}
+
+export type CryptoPaymentUpdateWithoutTransactionInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  asset?: Prisma.EnumCryptoAssetFieldUpdateOperationsInput | $Enums.CryptoAsset
+  network?: Prisma.StringFieldUpdateOperationsInput | string
+  depositAddress?: Prisma.StringFieldUpdateOperationsInput | string
+  memo?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  amountUsd?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  rate?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  cryptoAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  status?: Prisma.EnumCryptoPaymentStatusFieldUpdateOperationsInput | $Enums.CryptoPaymentStatus
+  txHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  receivedAmount?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  confirmations?: Prisma.IntFieldUpdateOperationsInput | number
+  detectedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  confirmedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type CryptoPaymentUncheckedUpdateWithoutTransactionInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  asset?: Prisma.EnumCryptoAssetFieldUpdateOperationsInput | $Enums.CryptoAsset
+  network?: Prisma.StringFieldUpdateOperationsInput | string
+  depositAddress?: Prisma.StringFieldUpdateOperationsInput | string
+  memo?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  amountUsd?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  rate?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  cryptoAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  status?: Prisma.EnumCryptoPaymentStatusFieldUpdateOperationsInput | $Enums.CryptoPaymentStatus
+  txHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  receivedAmount?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  confirmations?: Prisma.IntFieldUpdateOperationsInput | number
+  detectedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  confirmedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type CryptoPaymentSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  transactionId?: boolean
+  asset?: boolean
+  network?: boolean
+  depositAddress?: boolean
+  memo?: boolean
+  amountUsd?: boolean
+  rate?: boolean
+  cryptoAmount?: boolean
+  expiresAt?: boolean
+  status?: boolean
+  txHash?: boolean
+  receivedAmount?: boolean
+  confirmations?: boolean
+  detectedAt?: boolean
+  confirmedAt?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  transaction?: boolean | Prisma.PaymentTransactionDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["cryptoPayment"]>
+
+export type CryptoPaymentSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  transactionId?: boolean
+  asset?: boolean
+  network?: boolean
+  depositAddress?: boolean
+  memo?: boolean
+  amountUsd?: boolean
+  rate?: boolean
+  cryptoAmount?: boolean
+  expiresAt?: boolean
+  status?: boolean
+  txHash?: boolean
+  receivedAmount?: boolean
+  confirmations?: boolean
+  detectedAt?: boolean
+  confirmedAt?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  transaction?: boolean | Prisma.PaymentTransactionDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["cryptoPayment"]>
+
+export type CryptoPaymentSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  transactionId?: boolean
+  asset?: boolean
+  network?: boolean
+  depositAddress?: boolean
+  memo?: boolean
+  amountUsd?: boolean
+  rate?: boolean
+  cryptoAmount?: boolean
+  expiresAt?: boolean
+  status?: boolean
+  txHash?: boolean
+  receivedAmount?: boolean
+  confirmations?: boolean
+  detectedAt?: boolean
+  confirmedAt?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  transaction?: boolean | Prisma.PaymentTransactionDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["cryptoPayment"]>
+
+export type CryptoPaymentSelectScalar = {
+  id?: boolean
+  transactionId?: boolean
+  asset?: boolean
+  network?: boolean
+  depositAddress?: boolean
+  memo?: boolean
+  amountUsd?: boolean
+  rate?: boolean
+  cryptoAmount?: boolean
+  expiresAt?: boolean
+  status?: boolean
+  txHash?: boolean
+  receivedAmount?: boolean
+  confirmations?: boolean
+  detectedAt?: boolean
+  confirmedAt?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}
+
+export type CryptoPaymentOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "transactionId" | "asset" | "network" | "depositAddress" | "memo" | "amountUsd" | "rate" | "cryptoAmount" | "expiresAt" | "status" | "txHash" | "receivedAmount" | "confirmations" | "detectedAt" | "confirmedAt" | "createdAt" | "updatedAt", ExtArgs["result"]["cryptoPayment"]>
+export type CryptoPaymentInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  transaction?: boolean | Prisma.PaymentTransactionDefaultArgs<ExtArgs>
+}
+export type CryptoPaymentIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  transaction?: boolean | Prisma.PaymentTransactionDefaultArgs<ExtArgs>
+}
+export type CryptoPaymentIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  transaction?: boolean | Prisma.PaymentTransactionDefaultArgs<ExtArgs>
+}
+
+export type $CryptoPaymentPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "CryptoPayment"
+  objects: {
+    transaction: Prisma.$PaymentTransactionPayload<ExtArgs>
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    transactionId: string
+    asset: $Enums.CryptoAsset
+    network: string
+    depositAddress: string
+    memo: string | null
+    amountUsd: runtime.Decimal
+    rate: runtime.Decimal
+    cryptoAmount: runtime.Decimal
+    expiresAt: Date
+    status: $Enums.CryptoPaymentStatus
+    txHash: string | null
+    receivedAmount: runtime.Decimal | null
+    confirmations: number
+    detectedAt: Date | null
+    confirmedAt: Date | null
+    createdAt: Date
+    updatedAt: Date
+  }, ExtArgs["result"]["cryptoPayment"]>
+  composites: {}
+}
+
+export type CryptoPaymentGetPayload<S extends boolean | null | undefined | CryptoPaymentDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$CryptoPaymentPayload, S>
+
+export type CryptoPaymentCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<CryptoPaymentFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: CryptoPaymentCountAggregateInputType | true
+  }
+
+export interface CryptoPaymentDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['CryptoPayment'], meta: { name: 'CryptoPayment' } }
+  /**
+   * Find zero or one CryptoPayment that matches the filter.
+   * @param {CryptoPaymentFindUniqueArgs} args - Arguments to find a CryptoPayment
+   * @example
+   * // Get one CryptoPayment
+   * const cryptoPayment = await prisma.cryptoPayment.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends CryptoPaymentFindUniqueArgs>(args: Prisma.SelectSubset<T, CryptoPaymentFindUniqueArgs<ExtArgs>>): Prisma.Prisma__CryptoPaymentClient<runtime.Types.Result.GetResult<Prisma.$CryptoPaymentPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one CryptoPayment that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {CryptoPaymentFindUniqueOrThrowArgs} args - Arguments to find a CryptoPayment
+   * @example
+   * // Get one CryptoPayment
+   * const cryptoPayment = await prisma.cryptoPayment.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends CryptoPaymentFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, CryptoPaymentFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__CryptoPaymentClient<runtime.Types.Result.GetResult<Prisma.$CryptoPaymentPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first CryptoPayment that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CryptoPaymentFindFirstArgs} args - Arguments to find a CryptoPayment
+   * @example
+   * // Get one CryptoPayment
+   * const cryptoPayment = await prisma.cryptoPayment.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends CryptoPaymentFindFirstArgs>(args?: Prisma.SelectSubset<T, CryptoPaymentFindFirstArgs<ExtArgs>>): Prisma.Prisma__CryptoPaymentClient<runtime.Types.Result.GetResult<Prisma.$CryptoPaymentPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first CryptoPayment that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CryptoPaymentFindFirstOrThrowArgs} args - Arguments to find a CryptoPayment
+   * @example
+   * // Get one CryptoPayment
+   * const cryptoPayment = await prisma.cryptoPayment.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends CryptoPaymentFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, CryptoPaymentFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__CryptoPaymentClient<runtime.Types.Result.GetResult<Prisma.$CryptoPaymentPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more CryptoPayments that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CryptoPaymentFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all CryptoPayments
+   * const cryptoPayments = await prisma.cryptoPayment.findMany()
+   * 
+   * // Get first 10 CryptoPayments
+   * const cryptoPayments = await prisma.cryptoPayment.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const cryptoPaymentWithIdOnly = await prisma.cryptoPayment.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends CryptoPaymentFindManyArgs>(args?: Prisma.SelectSubset<T, CryptoPaymentFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$CryptoPaymentPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a CryptoPayment.
+   * @param {CryptoPaymentCreateArgs} args - Arguments to create a CryptoPayment.
+   * @example
+   * // Create one CryptoPayment
+   * const CryptoPayment = await prisma.cryptoPayment.create({
+   *   data: {
+   *     // ... data to create a CryptoPayment
+   *   }
+   * })
+   * 
+   */
+  create<T extends CryptoPaymentCreateArgs>(args: Prisma.SelectSubset<T, CryptoPaymentCreateArgs<ExtArgs>>): Prisma.Prisma__CryptoPaymentClient<runtime.Types.Result.GetResult<Prisma.$CryptoPaymentPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many CryptoPayments.
+   * @param {CryptoPaymentCreateManyArgs} args - Arguments to create many CryptoPayments.
+   * @example
+   * // Create many CryptoPayments
+   * const cryptoPayment = await prisma.cryptoPayment.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends CryptoPaymentCreateManyArgs>(args?: Prisma.SelectSubset<T, CryptoPaymentCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many CryptoPayments and returns the data saved in the database.
+   * @param {CryptoPaymentCreateManyAndReturnArgs} args - Arguments to create many CryptoPayments.
+   * @example
+   * // Create many CryptoPayments
+   * const cryptoPayment = await prisma.cryptoPayment.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many CryptoPayments and only return the `id`
+   * const cryptoPaymentWithIdOnly = await prisma.cryptoPayment.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends CryptoPaymentCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, CryptoPaymentCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$CryptoPaymentPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a CryptoPayment.
+   * @param {CryptoPaymentDeleteArgs} args - Arguments to delete one CryptoPayment.
+   * @example
+   * // Delete one CryptoPayment
+   * const CryptoPayment = await prisma.cryptoPayment.delete({
+   *   where: {
+   *     // ... filter to delete one CryptoPayment
+   *   }
+   * })
+   * 
+   */
+  delete<T extends CryptoPaymentDeleteArgs>(args: Prisma.SelectSubset<T, CryptoPaymentDeleteArgs<ExtArgs>>): Prisma.Prisma__CryptoPaymentClient<runtime.Types.Result.GetResult<Prisma.$CryptoPaymentPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one CryptoPayment.
+   * @param {CryptoPaymentUpdateArgs} args - Arguments to update one CryptoPayment.
+   * @example
+   * // Update one CryptoPayment
+   * const cryptoPayment = await prisma.cryptoPayment.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends CryptoPaymentUpdateArgs>(args: Prisma.SelectSubset<T, CryptoPaymentUpdateArgs<ExtArgs>>): Prisma.Prisma__CryptoPaymentClient<runtime.Types.Result.GetResult<Prisma.$CryptoPaymentPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more CryptoPayments.
+   * @param {CryptoPaymentDeleteManyArgs} args - Arguments to filter CryptoPayments to delete.
+   * @example
+   * // Delete a few CryptoPayments
+   * const { count } = await prisma.cryptoPayment.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends CryptoPaymentDeleteManyArgs>(args?: Prisma.SelectSubset<T, CryptoPaymentDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more CryptoPayments.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CryptoPaymentUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many CryptoPayments
+   * const cryptoPayment = await prisma.cryptoPayment.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends CryptoPaymentUpdateManyArgs>(args: Prisma.SelectSubset<T, CryptoPaymentUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more CryptoPayments and returns the data updated in the database.
+   * @param {CryptoPaymentUpdateManyAndReturnArgs} args - Arguments to update many CryptoPayments.
+   * @example
+   * // Update many CryptoPayments
+   * const cryptoPayment = await prisma.cryptoPayment.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more CryptoPayments and only return the `id`
+   * const cryptoPaymentWithIdOnly = await prisma.cryptoPayment.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends CryptoPaymentUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, CryptoPaymentUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$CryptoPaymentPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one CryptoPayment.
+   * @param {CryptoPaymentUpsertArgs} args - Arguments to update or create a CryptoPayment.
+   * @example
+   * // Update or create a CryptoPayment
+   * const cryptoPayment = await prisma.cryptoPayment.upsert({
+   *   create: {
+   *     // ... data to create a CryptoPayment
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the CryptoPayment we want to update
+   *   }
+   * })
+   */
+  upsert<T extends CryptoPaymentUpsertArgs>(args: Prisma.SelectSubset<T, CryptoPaymentUpsertArgs<ExtArgs>>): Prisma.Prisma__CryptoPaymentClient<runtime.Types.Result.GetResult<Prisma.$CryptoPaymentPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of CryptoPayments.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CryptoPaymentCountArgs} args - Arguments to filter CryptoPayments to count.
+   * @example
+   * // Count the number of CryptoPayments
+   * const count = await prisma.cryptoPayment.count({
+   *   where: {
+   *     // ... the filter for the CryptoPayments we want to count
+   *   }
+   * })
+  **/
+  count<T extends CryptoPaymentCountArgs>(
+    args?: Prisma.Subset<T, CryptoPaymentCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], CryptoPaymentCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a CryptoPayment.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CryptoPaymentAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends CryptoPaymentAggregateArgs>(args: Prisma.Subset<T, CryptoPaymentAggregateArgs>): Prisma.PrismaPromise<GetCryptoPaymentAggregateType<T>>
+
+  /**
+   * Group by CryptoPayment.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CryptoPaymentGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends CryptoPaymentGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: CryptoPaymentGroupByArgs['orderBy'] }
+      : { orderBy?: CryptoPaymentGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, CryptoPaymentGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetCryptoPaymentGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the CryptoPayment model
+ */
+readonly fields: CryptoPaymentFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for CryptoPayment.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__CryptoPaymentClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  transaction<T extends Prisma.PaymentTransactionDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.PaymentTransactionDefaultArgs<ExtArgs>>): Prisma.Prisma__PaymentTransactionClient<runtime.Types.Result.GetResult<Prisma.$PaymentTransactionPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the CryptoPayment model
+ */
+export interface CryptoPaymentFieldRefs {
+  readonly id: Prisma.FieldRef<"CryptoPayment", 'String'>
+  readonly transactionId: Prisma.FieldRef<"CryptoPayment", 'String'>
+  readonly asset: Prisma.FieldRef<"CryptoPayment", 'CryptoAsset'>
+  readonly network: Prisma.FieldRef<"CryptoPayment", 'String'>
+  readonly depositAddress: Prisma.FieldRef<"CryptoPayment", 'String'>
+  readonly memo: Prisma.FieldRef<"CryptoPayment", 'String'>
+  readonly amountUsd: Prisma.FieldRef<"CryptoPayment", 'Decimal'>
+  readonly rate: Prisma.FieldRef<"CryptoPayment", 'Decimal'>
+  readonly cryptoAmount: Prisma.FieldRef<"CryptoPayment", 'Decimal'>
+  readonly expiresAt: Prisma.FieldRef<"CryptoPayment", 'DateTime'>
+  readonly status: Prisma.FieldRef<"CryptoPayment", 'CryptoPaymentStatus'>
+  readonly txHash: Prisma.FieldRef<"CryptoPayment", 'String'>
+  readonly receivedAmount: Prisma.FieldRef<"CryptoPayment", 'Decimal'>
+  readonly confirmations: Prisma.FieldRef<"CryptoPayment", 'Int'>
+  readonly detectedAt: Prisma.FieldRef<"CryptoPayment", 'DateTime'>
+  readonly confirmedAt: Prisma.FieldRef<"CryptoPayment", 'DateTime'>
+  readonly createdAt: Prisma.FieldRef<"CryptoPayment", 'DateTime'>
+  readonly updatedAt: Prisma.FieldRef<"CryptoPayment", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * CryptoPayment findUnique
+ */
+export type CryptoPaymentFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CryptoPayment
+   */
+  select?: Prisma.CryptoPaymentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CryptoPayment
+   */
+  omit?: Prisma.CryptoPaymentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CryptoPaymentInclude<ExtArgs> | null
+  /**
+   * Filter, which CryptoPayment to fetch.
+   */
+  where: Prisma.CryptoPaymentWhereUniqueInput
+}
+
+/**
+ * CryptoPayment findUniqueOrThrow
+ */
+export type CryptoPaymentFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CryptoPayment
+   */
+  select?: Prisma.CryptoPaymentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CryptoPayment
+   */
+  omit?: Prisma.CryptoPaymentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CryptoPaymentInclude<ExtArgs> | null
+  /**
+   * Filter, which CryptoPayment to fetch.
+   */
+  where: Prisma.CryptoPaymentWhereUniqueInput
+}
+
+/**
+ * CryptoPayment findFirst
+ */
+export type CryptoPaymentFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CryptoPayment
+   */
+  select?: Prisma.CryptoPaymentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CryptoPayment
+   */
+  omit?: Prisma.CryptoPaymentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CryptoPaymentInclude<ExtArgs> | null
+  /**
+   * Filter, which CryptoPayment to fetch.
+   */
+  where?: Prisma.CryptoPaymentWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of CryptoPayments to fetch.
+   */
+  orderBy?: Prisma.CryptoPaymentOrderByWithRelationInput | Prisma.CryptoPaymentOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for CryptoPayments.
+   */
+  cursor?: Prisma.CryptoPaymentWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` CryptoPayments from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` CryptoPayments.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of CryptoPayments.
+   */
+  distinct?: Prisma.CryptoPaymentScalarFieldEnum | Prisma.CryptoPaymentScalarFieldEnum[]
+}
+
+/**
+ * CryptoPayment findFirstOrThrow
+ */
+export type CryptoPaymentFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CryptoPayment
+   */
+  select?: Prisma.CryptoPaymentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CryptoPayment
+   */
+  omit?: Prisma.CryptoPaymentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CryptoPaymentInclude<ExtArgs> | null
+  /**
+   * Filter, which CryptoPayment to fetch.
+   */
+  where?: Prisma.CryptoPaymentWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of CryptoPayments to fetch.
+   */
+  orderBy?: Prisma.CryptoPaymentOrderByWithRelationInput | Prisma.CryptoPaymentOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for CryptoPayments.
+   */
+  cursor?: Prisma.CryptoPaymentWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` CryptoPayments from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` CryptoPayments.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of CryptoPayments.
+   */
+  distinct?: Prisma.CryptoPaymentScalarFieldEnum | Prisma.CryptoPaymentScalarFieldEnum[]
+}
+
+/**
+ * CryptoPayment findMany
+ */
+export type CryptoPaymentFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CryptoPayment
+   */
+  select?: Prisma.CryptoPaymentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CryptoPayment
+   */
+  omit?: Prisma.CryptoPaymentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CryptoPaymentInclude<ExtArgs> | null
+  /**
+   * Filter, which CryptoPayments to fetch.
+   */
+  where?: Prisma.CryptoPaymentWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of CryptoPayments to fetch.
+   */
+  orderBy?: Prisma.CryptoPaymentOrderByWithRelationInput | Prisma.CryptoPaymentOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing CryptoPayments.
+   */
+  cursor?: Prisma.CryptoPaymentWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` CryptoPayments from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` CryptoPayments.
+   */
+  skip?: number
+  distinct?: Prisma.CryptoPaymentScalarFieldEnum | Prisma.CryptoPaymentScalarFieldEnum[]
+}
+
+/**
+ * CryptoPayment create
+ */
+export type CryptoPaymentCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CryptoPayment
+   */
+  select?: Prisma.CryptoPaymentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CryptoPayment
+   */
+  omit?: Prisma.CryptoPaymentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CryptoPaymentInclude<ExtArgs> | null
+  /**
+   * The data needed to create a CryptoPayment.
+   */
+  data: Prisma.XOR<Prisma.CryptoPaymentCreateInput, Prisma.CryptoPaymentUncheckedCreateInput>
+}
+
+/**
+ * CryptoPayment createMany
+ */
+export type CryptoPaymentCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many CryptoPayments.
+   */
+  data: Prisma.CryptoPaymentCreateManyInput | Prisma.CryptoPaymentCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * CryptoPayment createManyAndReturn
+ */
+export type CryptoPaymentCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CryptoPayment
+   */
+  select?: Prisma.CryptoPaymentSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the CryptoPayment
+   */
+  omit?: Prisma.CryptoPaymentOmit<ExtArgs> | null
+  /**
+   * The data used to create many CryptoPayments.
+   */
+  data: Prisma.CryptoPaymentCreateManyInput | Prisma.CryptoPaymentCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CryptoPaymentIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * CryptoPayment update
+ */
+export type CryptoPaymentUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CryptoPayment
+   */
+  select?: Prisma.CryptoPaymentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CryptoPayment
+   */
+  omit?: Prisma.CryptoPaymentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CryptoPaymentInclude<ExtArgs> | null
+  /**
+   * The data needed to update a CryptoPayment.
+   */
+  data: Prisma.XOR<Prisma.CryptoPaymentUpdateInput, Prisma.CryptoPaymentUncheckedUpdateInput>
+  /**
+   * Choose, which CryptoPayment to update.
+   */
+  where: Prisma.CryptoPaymentWhereUniqueInput
+}
+
+/**
+ * CryptoPayment updateMany
+ */
+export type CryptoPaymentUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update CryptoPayments.
+   */
+  data: Prisma.XOR<Prisma.CryptoPaymentUpdateManyMutationInput, Prisma.CryptoPaymentUncheckedUpdateManyInput>
+  /**
+   * Filter which CryptoPayments to update
+   */
+  where?: Prisma.CryptoPaymentWhereInput
+  /**
+   * Limit how many CryptoPayments to update.
+   */
+  limit?: number
+}
+
+/**
+ * CryptoPayment updateManyAndReturn
+ */
+export type CryptoPaymentUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CryptoPayment
+   */
+  select?: Prisma.CryptoPaymentSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the CryptoPayment
+   */
+  omit?: Prisma.CryptoPaymentOmit<ExtArgs> | null
+  /**
+   * The data used to update CryptoPayments.
+   */
+  data: Prisma.XOR<Prisma.CryptoPaymentUpdateManyMutationInput, Prisma.CryptoPaymentUncheckedUpdateManyInput>
+  /**
+   * Filter which CryptoPayments to update
+   */
+  where?: Prisma.CryptoPaymentWhereInput
+  /**
+   * Limit how many CryptoPayments to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CryptoPaymentIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * CryptoPayment upsert
+ */
+export type CryptoPaymentUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CryptoPayment
+   */
+  select?: Prisma.CryptoPaymentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CryptoPayment
+   */
+  omit?: Prisma.CryptoPaymentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CryptoPaymentInclude<ExtArgs> | null
+  /**
+   * The filter to search for the CryptoPayment to update in case it exists.
+   */
+  where: Prisma.CryptoPaymentWhereUniqueInput
+  /**
+   * In case the CryptoPayment found by the `where` argument doesn't exist, create a new CryptoPayment with this data.
+   */
+  create: Prisma.XOR<Prisma.CryptoPaymentCreateInput, Prisma.CryptoPaymentUncheckedCreateInput>
+  /**
+   * In case the CryptoPayment was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.CryptoPaymentUpdateInput, Prisma.CryptoPaymentUncheckedUpdateInput>
+}
+
+/**
+ * CryptoPayment delete
+ */
+export type CryptoPaymentDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CryptoPayment
+   */
+  select?: Prisma.CryptoPaymentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CryptoPayment
+   */
+  omit?: Prisma.CryptoPaymentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CryptoPaymentInclude<ExtArgs> | null
+  /**
+   * Filter which CryptoPayment to delete.
+   */
+  where: Prisma.CryptoPaymentWhereUniqueInput
+}
+
+/**
+ * CryptoPayment deleteMany
+ */
+export type CryptoPaymentDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which CryptoPayments to delete
+   */
+  where?: Prisma.CryptoPaymentWhereInput
+  /**
+   * Limit how many CryptoPayments to delete.
+   */
+  limit?: number
+}
+
+/**
+ * CryptoPayment without action
+ */
+export type CryptoPaymentDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CryptoPayment
+   */
+  select?: Prisma.CryptoPaymentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CryptoPayment
+   */
+  omit?: Prisma.CryptoPaymentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CryptoPaymentInclude<ExtArgs> | null
+}
@@ -0,0 +1,1258 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `GuestCart` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums.js"
+import type * as Prisma from "../internal/prismaNamespace.js"
+
+/**
+ * Model GuestCart
+ * 
+ */
+export type GuestCartModel = runtime.Types.Result.DefaultSelection<Prisma.$GuestCartPayload>
+
+export type AggregateGuestCart = {
+  _count: GuestCartCountAggregateOutputType | null
+  _min: GuestCartMinAggregateOutputType | null
+  _max: GuestCartMaxAggregateOutputType | null
+}
+
+export type GuestCartMinAggregateOutputType = {
+  id: string | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type GuestCartMaxAggregateOutputType = {
+  id: string | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type GuestCartCountAggregateOutputType = {
+  id: number
+  createdAt: number
+  updatedAt: number
+  _all: number
+}
+
+
+export type GuestCartMinAggregateInputType = {
+  id?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type GuestCartMaxAggregateInputType = {
+  id?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type GuestCartCountAggregateInputType = {
+  id?: true
+  createdAt?: true
+  updatedAt?: true
+  _all?: true
+}
+
+export type GuestCartAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which GuestCart to aggregate.
+   */
+  where?: Prisma.GuestCartWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of GuestCarts to fetch.
+   */
+  orderBy?: Prisma.GuestCartOrderByWithRelationInput | Prisma.GuestCartOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.GuestCartWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` GuestCarts from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` GuestCarts.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned GuestCarts
+  **/
+  _count?: true | GuestCartCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: GuestCartMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: GuestCartMaxAggregateInputType
+}
+
+export type GetGuestCartAggregateType<T extends GuestCartAggregateArgs> = {
+      [P in keyof T & keyof AggregateGuestCart]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateGuestCart[P]>
+    : Prisma.GetScalarType<T[P], AggregateGuestCart[P]>
+}
+
+
+
+
+export type GuestCartGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.GuestCartWhereInput
+  orderBy?: Prisma.GuestCartOrderByWithAggregationInput | Prisma.GuestCartOrderByWithAggregationInput[]
+  by: Prisma.GuestCartScalarFieldEnum[] | Prisma.GuestCartScalarFieldEnum
+  having?: Prisma.GuestCartScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: GuestCartCountAggregateInputType | true
+  _min?: GuestCartMinAggregateInputType
+  _max?: GuestCartMaxAggregateInputType
+}
+
+export type GuestCartGroupByOutputType = {
+  id: string
+  createdAt: Date
+  updatedAt: Date
+  _count: GuestCartCountAggregateOutputType | null
+  _min: GuestCartMinAggregateOutputType | null
+  _max: GuestCartMaxAggregateOutputType | null
+}
+
+type GetGuestCartGroupByPayload<T extends GuestCartGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<GuestCartGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof GuestCartGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], GuestCartGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], GuestCartGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type GuestCartWhereInput = {
+  AND?: Prisma.GuestCartWhereInput | Prisma.GuestCartWhereInput[]
+  OR?: Prisma.GuestCartWhereInput[]
+  NOT?: Prisma.GuestCartWhereInput | Prisma.GuestCartWhereInput[]
+  id?: Prisma.StringFilter<"GuestCart"> | string
+  createdAt?: Prisma.DateTimeFilter<"GuestCart"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"GuestCart"> | Date | string
+  items?: Prisma.GuestCartItemListRelationFilter
+}
+
+export type GuestCartOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  items?: Prisma.GuestCartItemOrderByRelationAggregateInput
+}
+
+export type GuestCartWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  AND?: Prisma.GuestCartWhereInput | Prisma.GuestCartWhereInput[]
+  OR?: Prisma.GuestCartWhereInput[]
+  NOT?: Prisma.GuestCartWhereInput | Prisma.GuestCartWhereInput[]
+  createdAt?: Prisma.DateTimeFilter<"GuestCart"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"GuestCart"> | Date | string
+  items?: Prisma.GuestCartItemListRelationFilter
+}, "id">
+
+export type GuestCartOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  _count?: Prisma.GuestCartCountOrderByAggregateInput
+  _max?: Prisma.GuestCartMaxOrderByAggregateInput
+  _min?: Prisma.GuestCartMinOrderByAggregateInput
+}
+
+export type GuestCartScalarWhereWithAggregatesInput = {
+  AND?: Prisma.GuestCartScalarWhereWithAggregatesInput | Prisma.GuestCartScalarWhereWithAggregatesInput[]
+  OR?: Prisma.GuestCartScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.GuestCartScalarWhereWithAggregatesInput | Prisma.GuestCartScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"GuestCart"> | string
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"GuestCart"> | Date | string
+  updatedAt?: Prisma.DateTimeWithAggregatesFilter<"GuestCart"> | Date | string
+}
+
+export type GuestCartCreateInput = {
+  id?: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  items?: Prisma.GuestCartItemCreateNestedManyWithoutGuestCartInput
+}
+
+export type GuestCartUncheckedCreateInput = {
+  id?: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  items?: Prisma.GuestCartItemUncheckedCreateNestedManyWithoutGuestCartInput
+}
+
+export type GuestCartUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  items?: Prisma.GuestCartItemUpdateManyWithoutGuestCartNestedInput
+}
+
+export type GuestCartUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  items?: Prisma.GuestCartItemUncheckedUpdateManyWithoutGuestCartNestedInput
+}
+
+export type GuestCartCreateManyInput = {
+  id?: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type GuestCartUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type GuestCartUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type GuestCartCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type GuestCartMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type GuestCartMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type GuestCartScalarRelationFilter = {
+  is?: Prisma.GuestCartWhereInput
+  isNot?: Prisma.GuestCartWhereInput
+}
+
+export type GuestCartCreateNestedOneWithoutItemsInput = {
+  create?: Prisma.XOR<Prisma.GuestCartCreateWithoutItemsInput, Prisma.GuestCartUncheckedCreateWithoutItemsInput>
+  connectOrCreate?: Prisma.GuestCartCreateOrConnectWithoutItemsInput
+  connect?: Prisma.GuestCartWhereUniqueInput
+}
+
+export type GuestCartUpdateOneRequiredWithoutItemsNestedInput = {
+  create?: Prisma.XOR<Prisma.GuestCartCreateWithoutItemsInput, Prisma.GuestCartUncheckedCreateWithoutItemsInput>
+  connectOrCreate?: Prisma.GuestCartCreateOrConnectWithoutItemsInput
+  upsert?: Prisma.GuestCartUpsertWithoutItemsInput
+  connect?: Prisma.GuestCartWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.GuestCartUpdateToOneWithWhereWithoutItemsInput, Prisma.GuestCartUpdateWithoutItemsInput>, Prisma.GuestCartUncheckedUpdateWithoutItemsInput>
+}
+
+export type GuestCartCreateWithoutItemsInput = {
+  id?: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type GuestCartUncheckedCreateWithoutItemsInput = {
+  id?: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type GuestCartCreateOrConnectWithoutItemsInput = {
+  where: Prisma.GuestCartWhereUniqueInput
+  create: Prisma.XOR<Prisma.GuestCartCreateWithoutItemsInput, Prisma.GuestCartUncheckedCreateWithoutItemsInput>
+}
+
+export type GuestCartUpsertWithoutItemsInput = {
+  update: Prisma.XOR<Prisma.GuestCartUpdateWithoutItemsInput, Prisma.GuestCartUncheckedUpdateWithoutItemsInput>
+  create: Prisma.XOR<Prisma.GuestCartCreateWithoutItemsInput, Prisma.GuestCartUncheckedCreateWithoutItemsInput>
+  where?: Prisma.GuestCartWhereInput
+}
+
+export type GuestCartUpdateToOneWithWhereWithoutItemsInput = {
+  where?: Prisma.GuestCartWhereInput
+  data: Prisma.XOR<Prisma.GuestCartUpdateWithoutItemsInput, Prisma.GuestCartUncheckedUpdateWithoutItemsInput>
+}
+
+export type GuestCartUpdateWithoutItemsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type GuestCartUncheckedUpdateWithoutItemsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+/**
+ * Count Type GuestCartCountOutputType
+ */
+
+export type GuestCartCountOutputType = {
+  items: number
+}
+
+export type GuestCartCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  items?: boolean | GuestCartCountOutputTypeCountItemsArgs
+}
+
+/**
+ * GuestCartCountOutputType without action
+ */
+export type GuestCartCountOutputTypeDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the GuestCartCountOutputType
+   */
+  select?: Prisma.GuestCartCountOutputTypeSelect<ExtArgs> | null
+}
+
+/**
+ * GuestCartCountOutputType without action
+ */
+export type GuestCartCountOutputTypeCountItemsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.GuestCartItemWhereInput
+}
+
+
+export type GuestCartSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  items?: boolean | Prisma.GuestCart$itemsArgs<ExtArgs>
+  _count?: boolean | Prisma.GuestCartCountOutputTypeDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["guestCart"]>
+
+export type GuestCartSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}, ExtArgs["result"]["guestCart"]>
+
+export type GuestCartSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}, ExtArgs["result"]["guestCart"]>
+
+export type GuestCartSelectScalar = {
+  id?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}
+
+export type GuestCartOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "createdAt" | "updatedAt", ExtArgs["result"]["guestCart"]>
+export type GuestCartInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  items?: boolean | Prisma.GuestCart$itemsArgs<ExtArgs>
+  _count?: boolean | Prisma.GuestCartCountOutputTypeDefaultArgs<ExtArgs>
+}
+export type GuestCartIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {}
+export type GuestCartIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {}
+
+export type $GuestCartPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "GuestCart"
+  objects: {
+    items: Prisma.$GuestCartItemPayload<ExtArgs>[]
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    createdAt: Date
+    updatedAt: Date
+  }, ExtArgs["result"]["guestCart"]>
+  composites: {}
+}
+
+export type GuestCartGetPayload<S extends boolean | null | undefined | GuestCartDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$GuestCartPayload, S>
+
+export type GuestCartCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<GuestCartFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: GuestCartCountAggregateInputType | true
+  }
+
+export interface GuestCartDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['GuestCart'], meta: { name: 'GuestCart' } }
+  /**
+   * Find zero or one GuestCart that matches the filter.
+   * @param {GuestCartFindUniqueArgs} args - Arguments to find a GuestCart
+   * @example
+   * // Get one GuestCart
+   * const guestCart = await prisma.guestCart.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends GuestCartFindUniqueArgs>(args: Prisma.SelectSubset<T, GuestCartFindUniqueArgs<ExtArgs>>): Prisma.Prisma__GuestCartClient<runtime.Types.Result.GetResult<Prisma.$GuestCartPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one GuestCart that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {GuestCartFindUniqueOrThrowArgs} args - Arguments to find a GuestCart
+   * @example
+   * // Get one GuestCart
+   * const guestCart = await prisma.guestCart.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends GuestCartFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, GuestCartFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__GuestCartClient<runtime.Types.Result.GetResult<Prisma.$GuestCartPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first GuestCart that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {GuestCartFindFirstArgs} args - Arguments to find a GuestCart
+   * @example
+   * // Get one GuestCart
+   * const guestCart = await prisma.guestCart.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends GuestCartFindFirstArgs>(args?: Prisma.SelectSubset<T, GuestCartFindFirstArgs<ExtArgs>>): Prisma.Prisma__GuestCartClient<runtime.Types.Result.GetResult<Prisma.$GuestCartPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first GuestCart that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {GuestCartFindFirstOrThrowArgs} args - Arguments to find a GuestCart
+   * @example
+   * // Get one GuestCart
+   * const guestCart = await prisma.guestCart.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends GuestCartFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, GuestCartFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__GuestCartClient<runtime.Types.Result.GetResult<Prisma.$GuestCartPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more GuestCarts that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {GuestCartFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all GuestCarts
+   * const guestCarts = await prisma.guestCart.findMany()
+   * 
+   * // Get first 10 GuestCarts
+   * const guestCarts = await prisma.guestCart.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const guestCartWithIdOnly = await prisma.guestCart.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends GuestCartFindManyArgs>(args?: Prisma.SelectSubset<T, GuestCartFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$GuestCartPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a GuestCart.
+   * @param {GuestCartCreateArgs} args - Arguments to create a GuestCart.
+   * @example
+   * // Create one GuestCart
+   * const GuestCart = await prisma.guestCart.create({
+   *   data: {
+   *     // ... data to create a GuestCart
+   *   }
+   * })
+   * 
+   */
+  create<T extends GuestCartCreateArgs>(args: Prisma.SelectSubset<T, GuestCartCreateArgs<ExtArgs>>): Prisma.Prisma__GuestCartClient<runtime.Types.Result.GetResult<Prisma.$GuestCartPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many GuestCarts.
+   * @param {GuestCartCreateManyArgs} args - Arguments to create many GuestCarts.
+   * @example
+   * // Create many GuestCarts
+   * const guestCart = await prisma.guestCart.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends GuestCartCreateManyArgs>(args?: Prisma.SelectSubset<T, GuestCartCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many GuestCarts and returns the data saved in the database.
+   * @param {GuestCartCreateManyAndReturnArgs} args - Arguments to create many GuestCarts.
+   * @example
+   * // Create many GuestCarts
+   * const guestCart = await prisma.guestCart.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many GuestCarts and only return the `id`
+   * const guestCartWithIdOnly = await prisma.guestCart.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends GuestCartCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, GuestCartCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$GuestCartPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a GuestCart.
+   * @param {GuestCartDeleteArgs} args - Arguments to delete one GuestCart.
+   * @example
+   * // Delete one GuestCart
+   * const GuestCart = await prisma.guestCart.delete({
+   *   where: {
+   *     // ... filter to delete one GuestCart
+   *   }
+   * })
+   * 
+   */
+  delete<T extends GuestCartDeleteArgs>(args: Prisma.SelectSubset<T, GuestCartDeleteArgs<ExtArgs>>): Prisma.Prisma__GuestCartClient<runtime.Types.Result.GetResult<Prisma.$GuestCartPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one GuestCart.
+   * @param {GuestCartUpdateArgs} args - Arguments to update one GuestCart.
+   * @example
+   * // Update one GuestCart
+   * const guestCart = await prisma.guestCart.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends GuestCartUpdateArgs>(args: Prisma.SelectSubset<T, GuestCartUpdateArgs<ExtArgs>>): Prisma.Prisma__GuestCartClient<runtime.Types.Result.GetResult<Prisma.$GuestCartPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more GuestCarts.
+   * @param {GuestCartDeleteManyArgs} args - Arguments to filter GuestCarts to delete.
+   * @example
+   * // Delete a few GuestCarts
+   * const { count } = await prisma.guestCart.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends GuestCartDeleteManyArgs>(args?: Prisma.SelectSubset<T, GuestCartDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more GuestCarts.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {GuestCartUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many GuestCarts
+   * const guestCart = await prisma.guestCart.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends GuestCartUpdateManyArgs>(args: Prisma.SelectSubset<T, GuestCartUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more GuestCarts and returns the data updated in the database.
+   * @param {GuestCartUpdateManyAndReturnArgs} args - Arguments to update many GuestCarts.
+   * @example
+   * // Update many GuestCarts
+   * const guestCart = await prisma.guestCart.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more GuestCarts and only return the `id`
+   * const guestCartWithIdOnly = await prisma.guestCart.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends GuestCartUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, GuestCartUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$GuestCartPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one GuestCart.
+   * @param {GuestCartUpsertArgs} args - Arguments to update or create a GuestCart.
+   * @example
+   * // Update or create a GuestCart
+   * const guestCart = await prisma.guestCart.upsert({
+   *   create: {
+   *     // ... data to create a GuestCart
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the GuestCart we want to update
+   *   }
+   * })
+   */
+  upsert<T extends GuestCartUpsertArgs>(args: Prisma.SelectSubset<T, GuestCartUpsertArgs<ExtArgs>>): Prisma.Prisma__GuestCartClient<runtime.Types.Result.GetResult<Prisma.$GuestCartPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of GuestCarts.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {GuestCartCountArgs} args - Arguments to filter GuestCarts to count.
+   * @example
+   * // Count the number of GuestCarts
+   * const count = await prisma.guestCart.count({
+   *   where: {
+   *     // ... the filter for the GuestCarts we want to count
+   *   }
+   * })
+  **/
+  count<T extends GuestCartCountArgs>(
+    args?: Prisma.Subset<T, GuestCartCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], GuestCartCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a GuestCart.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {GuestCartAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends GuestCartAggregateArgs>(args: Prisma.Subset<T, GuestCartAggregateArgs>): Prisma.PrismaPromise<GetGuestCartAggregateType<T>>
+
+  /**
+   * Group by GuestCart.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {GuestCartGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends GuestCartGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: GuestCartGroupByArgs['orderBy'] }
+      : { orderBy?: GuestCartGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, GuestCartGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetGuestCartGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the GuestCart model
+ */
+readonly fields: GuestCartFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for GuestCart.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__GuestCartClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  items<T extends Prisma.GuestCart$itemsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.GuestCart$itemsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$GuestCartItemPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the GuestCart model
+ */
+export interface GuestCartFieldRefs {
+  readonly id: Prisma.FieldRef<"GuestCart", 'String'>
+  readonly createdAt: Prisma.FieldRef<"GuestCart", 'DateTime'>
+  readonly updatedAt: Prisma.FieldRef<"GuestCart", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * GuestCart findUnique
+ */
+export type GuestCartFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the GuestCart
+   */
+  select?: Prisma.GuestCartSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the GuestCart
+   */
+  omit?: Prisma.GuestCartOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.GuestCartInclude<ExtArgs> | null
+  /**
+   * Filter, which GuestCart to fetch.
+   */
+  where: Prisma.GuestCartWhereUniqueInput
+}
+
+/**
+ * GuestCart findUniqueOrThrow
+ */
+export type GuestCartFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the GuestCart
+   */
+  select?: Prisma.GuestCartSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the GuestCart
+   */
+  omit?: Prisma.GuestCartOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.GuestCartInclude<ExtArgs> | null
+  /**
+   * Filter, which GuestCart to fetch.
+   */
+  where: Prisma.GuestCartWhereUniqueInput
+}
+
+/**
+ * GuestCart findFirst
+ */
+export type GuestCartFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the GuestCart
+   */
+  select?: Prisma.GuestCartSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the GuestCart
+   */
+  omit?: Prisma.GuestCartOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.GuestCartInclude<ExtArgs> | null
+  /**
+   * Filter, which GuestCart to fetch.
+   */
+  where?: Prisma.GuestCartWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of GuestCarts to fetch.
+   */
+  orderBy?: Prisma.GuestCartOrderByWithRelationInput | Prisma.GuestCartOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for GuestCarts.
+   */
+  cursor?: Prisma.GuestCartWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` GuestCarts from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` GuestCarts.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of GuestCarts.
+   */
+  distinct?: Prisma.GuestCartScalarFieldEnum | Prisma.GuestCartScalarFieldEnum[]
+}
+
+/**
+ * GuestCart findFirstOrThrow
+ */
+export type GuestCartFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the GuestCart
+   */
+  select?: Prisma.GuestCartSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the GuestCart
+   */
+  omit?: Prisma.GuestCartOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.GuestCartInclude<ExtArgs> | null
+  /**
+   * Filter, which GuestCart to fetch.
+   */
+  where?: Prisma.GuestCartWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of GuestCarts to fetch.
+   */
+  orderBy?: Prisma.GuestCartOrderByWithRelationInput | Prisma.GuestCartOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for GuestCarts.
+   */
+  cursor?: Prisma.GuestCartWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` GuestCarts from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` GuestCarts.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of GuestCarts.
+   */
+  distinct?: Prisma.GuestCartScalarFieldEnum | Prisma.GuestCartScalarFieldEnum[]
+}
+
+/**
+ * GuestCart findMany
+ */
+export type GuestCartFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the GuestCart
+   */
+  select?: Prisma.GuestCartSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the GuestCart
+   */
+  omit?: Prisma.GuestCartOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.GuestCartInclude<ExtArgs> | null
+  /**
+   * Filter, which GuestCarts to fetch.
+   */
+  where?: Prisma.GuestCartWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of GuestCarts to fetch.
+   */
+  orderBy?: Prisma.GuestCartOrderByWithRelationInput | Prisma.GuestCartOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing GuestCarts.
+   */
+  cursor?: Prisma.GuestCartWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` GuestCarts from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` GuestCarts.
+   */
+  skip?: number
+  distinct?: Prisma.GuestCartScalarFieldEnum | Prisma.GuestCartScalarFieldEnum[]
+}
+
+/**
+ * GuestCart create
+ */
+export type GuestCartCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the GuestCart
+   */
+  select?: Prisma.GuestCartSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the GuestCart
+   */
+  omit?: Prisma.GuestCartOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.GuestCartInclude<ExtArgs> | null
+  /**
+   * The data needed to create a GuestCart.
+   */
+  data: Prisma.XOR<Prisma.GuestCartCreateInput, Prisma.GuestCartUncheckedCreateInput>
+}
+
+/**
+ * GuestCart createMany
+ */
+export type GuestCartCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many GuestCarts.
+   */
+  data: Prisma.GuestCartCreateManyInput | Prisma.GuestCartCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * GuestCart createManyAndReturn
+ */
+export type GuestCartCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the GuestCart
+   */
+  select?: Prisma.GuestCartSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the GuestCart
+   */
+  omit?: Prisma.GuestCartOmit<ExtArgs> | null
+  /**
+   * The data used to create many GuestCarts.
+   */
+  data: Prisma.GuestCartCreateManyInput | Prisma.GuestCartCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * GuestCart update
+ */
+export type GuestCartUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the GuestCart
+   */
+  select?: Prisma.GuestCartSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the GuestCart
+   */
+  omit?: Prisma.GuestCartOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.GuestCartInclude<ExtArgs> | null
+  /**
+   * The data needed to update a GuestCart.
+   */
+  data: Prisma.XOR<Prisma.GuestCartUpdateInput, Prisma.GuestCartUncheckedUpdateInput>
+  /**
+   * Choose, which GuestCart to update.
+   */
+  where: Prisma.GuestCartWhereUniqueInput
+}
+
+/**
+ * GuestCart updateMany
+ */
+export type GuestCartUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update GuestCarts.
+   */
+  data: Prisma.XOR<Prisma.GuestCartUpdateManyMutationInput, Prisma.GuestCartUncheckedUpdateManyInput>
+  /**
+   * Filter which GuestCarts to update
+   */
+  where?: Prisma.GuestCartWhereInput
+  /**
+   * Limit how many GuestCarts to update.
+   */
+  limit?: number
+}
+
+/**
+ * GuestCart updateManyAndReturn
+ */
+export type GuestCartUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the GuestCart
+   */
+  select?: Prisma.GuestCartSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the GuestCart
+   */
+  omit?: Prisma.GuestCartOmit<ExtArgs> | null
+  /**
+   * The data used to update GuestCarts.
+   */
+  data: Prisma.XOR<Prisma.GuestCartUpdateManyMutationInput, Prisma.GuestCartUncheckedUpdateManyInput>
+  /**
+   * Filter which GuestCarts to update
+   */
+  where?: Prisma.GuestCartWhereInput
+  /**
+   * Limit how many GuestCarts to update.
+   */
+  limit?: number
+}
+
+/**
+ * GuestCart upsert
+ */
+export type GuestCartUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the GuestCart
+   */
+  select?: Prisma.GuestCartSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the GuestCart
+   */
+  omit?: Prisma.GuestCartOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.GuestCartInclude<ExtArgs> | null
+  /**
+   * The filter to search for the GuestCart to update in case it exists.
+   */
+  where: Prisma.GuestCartWhereUniqueInput
+  /**
+   * In case the GuestCart found by the `where` argument doesn't exist, create a new GuestCart with this data.
+   */
+  create: Prisma.XOR<Prisma.GuestCartCreateInput, Prisma.GuestCartUncheckedCreateInput>
+  /**
+   * In case the GuestCart was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.GuestCartUpdateInput, Prisma.GuestCartUncheckedUpdateInput>
+}
+
+/**
+ * GuestCart delete
+ */
+export type GuestCartDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the GuestCart
+   */
+  select?: Prisma.GuestCartSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the GuestCart
+   */
+  omit?: Prisma.GuestCartOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.GuestCartInclude<ExtArgs> | null
+  /**
+   * Filter which GuestCart to delete.
+   */
+  where: Prisma.GuestCartWhereUniqueInput
+}
+
+/**
+ * GuestCart deleteMany
+ */
+export type GuestCartDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which GuestCarts to delete
+   */
+  where?: Prisma.GuestCartWhereInput
+  /**
+   * Limit how many GuestCarts to delete.
+   */
+  limit?: number
+}
+
+/**
+ * GuestCart.items
+ */
+export type GuestCart$itemsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the GuestCartItem
+   */
+  select?: Prisma.GuestCartItemSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the GuestCartItem
+   */
+  omit?: Prisma.GuestCartItemOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.GuestCartItemInclude<ExtArgs> | null
+  where?: Prisma.GuestCartItemWhereInput
+  orderBy?: Prisma.GuestCartItemOrderByWithRelationInput | Prisma.GuestCartItemOrderByWithRelationInput[]
+  cursor?: Prisma.GuestCartItemWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.GuestCartItemScalarFieldEnum | Prisma.GuestCartItemScalarFieldEnum[]
+}
+
+/**
+ * GuestCart without action
+ */
+export type GuestCartDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the GuestCart
+   */
+  select?: Prisma.GuestCartSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the GuestCart
+   */
+  omit?: Prisma.GuestCartOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.GuestCartInclude<ExtArgs> | null
+}
@@ -0,0 +1,1827 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `InstallmentPlan` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums.js"
+import type * as Prisma from "../internal/prismaNamespace.js"
+
+/**
+ * Model InstallmentPlan
+ * 
+ */
+export type InstallmentPlanModel = runtime.Types.Result.DefaultSelection<Prisma.$InstallmentPlanPayload>
+
+export type AggregateInstallmentPlan = {
+  _count: InstallmentPlanCountAggregateOutputType | null
+  _avg: InstallmentPlanAvgAggregateOutputType | null
+  _sum: InstallmentPlanSumAggregateOutputType | null
+  _min: InstallmentPlanMinAggregateOutputType | null
+  _max: InstallmentPlanMaxAggregateOutputType | null
+}
+
+export type InstallmentPlanAvgAggregateOutputType = {
+  installments: number | null
+  interestRate: runtime.Decimal | null
+  minAmount: runtime.Decimal | null
+}
+
+export type InstallmentPlanSumAggregateOutputType = {
+  installments: number | null
+  interestRate: runtime.Decimal | null
+  minAmount: runtime.Decimal | null
+}
+
+export type InstallmentPlanMinAggregateOutputType = {
+  id: string | null
+  name: string | null
+  provider: $Enums.PaymentProvider | null
+  installments: number | null
+  interestRate: runtime.Decimal | null
+  minAmount: runtime.Decimal | null
+  categoryId: string | null
+  startsAt: Date | null
+  expiresAt: Date | null
+  isActive: boolean | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type InstallmentPlanMaxAggregateOutputType = {
+  id: string | null
+  name: string | null
+  provider: $Enums.PaymentProvider | null
+  installments: number | null
+  interestRate: runtime.Decimal | null
+  minAmount: runtime.Decimal | null
+  categoryId: string | null
+  startsAt: Date | null
+  expiresAt: Date | null
+  isActive: boolean | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type InstallmentPlanCountAggregateOutputType = {
+  id: number
+  name: number
+  provider: number
+  installments: number
+  interestRate: number
+  minAmount: number
+  categoryId: number
+  startsAt: number
+  expiresAt: number
+  isActive: number
+  createdAt: number
+  updatedAt: number
+  _all: number
+}
+
+
+export type InstallmentPlanAvgAggregateInputType = {
+  installments?: true
+  interestRate?: true
+  minAmount?: true
+}
+
+export type InstallmentPlanSumAggregateInputType = {
+  installments?: true
+  interestRate?: true
+  minAmount?: true
+}
+
+export type InstallmentPlanMinAggregateInputType = {
+  id?: true
+  name?: true
+  provider?: true
+  installments?: true
+  interestRate?: true
+  minAmount?: true
+  categoryId?: true
+  startsAt?: true
+  expiresAt?: true
+  isActive?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type InstallmentPlanMaxAggregateInputType = {
+  id?: true
+  name?: true
+  provider?: true
+  installments?: true
+  interestRate?: true
+  minAmount?: true
+  categoryId?: true
+  startsAt?: true
+  expiresAt?: true
+  isActive?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type InstallmentPlanCountAggregateInputType = {
+  id?: true
+  name?: true
+  provider?: true
+  installments?: true
+  interestRate?: true
+  minAmount?: true
+  categoryId?: true
+  startsAt?: true
+  expiresAt?: true
+  isActive?: true
+  createdAt?: true
+  updatedAt?: true
+  _all?: true
+}
+
+export type InstallmentPlanAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which InstallmentPlan to aggregate.
+   */
+  where?: Prisma.InstallmentPlanWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of InstallmentPlans to fetch.
+   */
+  orderBy?: Prisma.InstallmentPlanOrderByWithRelationInput | Prisma.InstallmentPlanOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.InstallmentPlanWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` InstallmentPlans from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` InstallmentPlans.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned InstallmentPlans
+  **/
+  _count?: true | InstallmentPlanCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: InstallmentPlanAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: InstallmentPlanSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: InstallmentPlanMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: InstallmentPlanMaxAggregateInputType
+}
+
+export type GetInstallmentPlanAggregateType<T extends InstallmentPlanAggregateArgs> = {
+      [P in keyof T & keyof AggregateInstallmentPlan]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateInstallmentPlan[P]>
+    : Prisma.GetScalarType<T[P], AggregateInstallmentPlan[P]>
+}
+
+
+
+
+export type InstallmentPlanGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.InstallmentPlanWhereInput
+  orderBy?: Prisma.InstallmentPlanOrderByWithAggregationInput | Prisma.InstallmentPlanOrderByWithAggregationInput[]
+  by: Prisma.InstallmentPlanScalarFieldEnum[] | Prisma.InstallmentPlanScalarFieldEnum
+  having?: Prisma.InstallmentPlanScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: InstallmentPlanCountAggregateInputType | true
+  _avg?: InstallmentPlanAvgAggregateInputType
+  _sum?: InstallmentPlanSumAggregateInputType
+  _min?: InstallmentPlanMinAggregateInputType
+  _max?: InstallmentPlanMaxAggregateInputType
+}
+
+export type InstallmentPlanGroupByOutputType = {
+  id: string
+  name: string
+  provider: $Enums.PaymentProvider
+  installments: number
+  interestRate: runtime.Decimal
+  minAmount: runtime.Decimal | null
+  categoryId: string | null
+  startsAt: Date | null
+  expiresAt: Date | null
+  isActive: boolean
+  createdAt: Date
+  updatedAt: Date
+  _count: InstallmentPlanCountAggregateOutputType | null
+  _avg: InstallmentPlanAvgAggregateOutputType | null
+  _sum: InstallmentPlanSumAggregateOutputType | null
+  _min: InstallmentPlanMinAggregateOutputType | null
+  _max: InstallmentPlanMaxAggregateOutputType | null
+}
+
+type GetInstallmentPlanGroupByPayload<T extends InstallmentPlanGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<InstallmentPlanGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof InstallmentPlanGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], InstallmentPlanGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], InstallmentPlanGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type InstallmentPlanWhereInput = {
+  AND?: Prisma.InstallmentPlanWhereInput | Prisma.InstallmentPlanWhereInput[]
+  OR?: Prisma.InstallmentPlanWhereInput[]
+  NOT?: Prisma.InstallmentPlanWhereInput | Prisma.InstallmentPlanWhereInput[]
+  id?: Prisma.StringFilter<"InstallmentPlan"> | string
+  name?: Prisma.StringFilter<"InstallmentPlan"> | string
+  provider?: Prisma.EnumPaymentProviderFilter<"InstallmentPlan"> | $Enums.PaymentProvider
+  installments?: Prisma.IntFilter<"InstallmentPlan"> | number
+  interestRate?: Prisma.DecimalFilter<"InstallmentPlan"> | runtime.Decimal | runtime.DecimalJsLike | number | string
+  minAmount?: Prisma.DecimalNullableFilter<"InstallmentPlan"> | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  categoryId?: Prisma.StringNullableFilter<"InstallmentPlan"> | string | null
+  startsAt?: Prisma.DateTimeNullableFilter<"InstallmentPlan"> | Date | string | null
+  expiresAt?: Prisma.DateTimeNullableFilter<"InstallmentPlan"> | Date | string | null
+  isActive?: Prisma.BoolFilter<"InstallmentPlan"> | boolean
+  createdAt?: Prisma.DateTimeFilter<"InstallmentPlan"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"InstallmentPlan"> | Date | string
+  category?: Prisma.XOR<Prisma.CategoryNullableScalarRelationFilter, Prisma.CategoryWhereInput> | null
+  transactions?: Prisma.PaymentTransactionListRelationFilter
+}
+
+export type InstallmentPlanOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  provider?: Prisma.SortOrder
+  installments?: Prisma.SortOrder
+  interestRate?: Prisma.SortOrder
+  minAmount?: Prisma.SortOrderInput | Prisma.SortOrder
+  categoryId?: Prisma.SortOrderInput | Prisma.SortOrder
+  startsAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  expiresAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  isActive?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  category?: Prisma.CategoryOrderByWithRelationInput
+  transactions?: Prisma.PaymentTransactionOrderByRelationAggregateInput
+}
+
+export type InstallmentPlanWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  AND?: Prisma.InstallmentPlanWhereInput | Prisma.InstallmentPlanWhereInput[]
+  OR?: Prisma.InstallmentPlanWhereInput[]
+  NOT?: Prisma.InstallmentPlanWhereInput | Prisma.InstallmentPlanWhereInput[]
+  name?: Prisma.StringFilter<"InstallmentPlan"> | string
+  provider?: Prisma.EnumPaymentProviderFilter<"InstallmentPlan"> | $Enums.PaymentProvider
+  installments?: Prisma.IntFilter<"InstallmentPlan"> | number
+  interestRate?: Prisma.DecimalFilter<"InstallmentPlan"> | runtime.Decimal | runtime.DecimalJsLike | number | string
+  minAmount?: Prisma.DecimalNullableFilter<"InstallmentPlan"> | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  categoryId?: Prisma.StringNullableFilter<"InstallmentPlan"> | string | null
+  startsAt?: Prisma.DateTimeNullableFilter<"InstallmentPlan"> | Date | string | null
+  expiresAt?: Prisma.DateTimeNullableFilter<"InstallmentPlan"> | Date | string | null
+  isActive?: Prisma.BoolFilter<"InstallmentPlan"> | boolean
+  createdAt?: Prisma.DateTimeFilter<"InstallmentPlan"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"InstallmentPlan"> | Date | string
+  category?: Prisma.XOR<Prisma.CategoryNullableScalarRelationFilter, Prisma.CategoryWhereInput> | null
+  transactions?: Prisma.PaymentTransactionListRelationFilter
+}, "id">
+
+export type InstallmentPlanOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  provider?: Prisma.SortOrder
+  installments?: Prisma.SortOrder
+  interestRate?: Prisma.SortOrder
+  minAmount?: Prisma.SortOrderInput | Prisma.SortOrder
+  categoryId?: Prisma.SortOrderInput | Prisma.SortOrder
+  startsAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  expiresAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  isActive?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  _count?: Prisma.InstallmentPlanCountOrderByAggregateInput
+  _avg?: Prisma.InstallmentPlanAvgOrderByAggregateInput
+  _max?: Prisma.InstallmentPlanMaxOrderByAggregateInput
+  _min?: Prisma.InstallmentPlanMinOrderByAggregateInput
+  _sum?: Prisma.InstallmentPlanSumOrderByAggregateInput
+}
+
+export type InstallmentPlanScalarWhereWithAggregatesInput = {
+  AND?: Prisma.InstallmentPlanScalarWhereWithAggregatesInput | Prisma.InstallmentPlanScalarWhereWithAggregatesInput[]
+  OR?: Prisma.InstallmentPlanScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.InstallmentPlanScalarWhereWithAggregatesInput | Prisma.InstallmentPlanScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"InstallmentPlan"> | string
+  name?: Prisma.StringWithAggregatesFilter<"InstallmentPlan"> | string
+  provider?: Prisma.EnumPaymentProviderWithAggregatesFilter<"InstallmentPlan"> | $Enums.PaymentProvider
+  installments?: Prisma.IntWithAggregatesFilter<"InstallmentPlan"> | number
+  interestRate?: Prisma.DecimalWithAggregatesFilter<"InstallmentPlan"> | runtime.Decimal | runtime.DecimalJsLike | number | string
+  minAmount?: Prisma.DecimalNullableWithAggregatesFilter<"InstallmentPlan"> | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  categoryId?: Prisma.StringNullableWithAggregatesFilter<"InstallmentPlan"> | string | null
+  startsAt?: Prisma.DateTimeNullableWithAggregatesFilter<"InstallmentPlan"> | Date | string | null
+  expiresAt?: Prisma.DateTimeNullableWithAggregatesFilter<"InstallmentPlan"> | Date | string | null
+  isActive?: Prisma.BoolWithAggregatesFilter<"InstallmentPlan"> | boolean
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"InstallmentPlan"> | Date | string
+  updatedAt?: Prisma.DateTimeWithAggregatesFilter<"InstallmentPlan"> | Date | string
+}
+
+export type InstallmentPlanCreateInput = {
+  id?: string
+  name: string
+  provider: $Enums.PaymentProvider
+  installments: number
+  interestRate?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  minAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  startsAt?: Date | string | null
+  expiresAt?: Date | string | null
+  isActive?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  category?: Prisma.CategoryCreateNestedOneWithoutInstallmentPlansInput
+  transactions?: Prisma.PaymentTransactionCreateNestedManyWithoutInstallmentPlanInput
+}
+
+export type InstallmentPlanUncheckedCreateInput = {
+  id?: string
+  name: string
+  provider: $Enums.PaymentProvider
+  installments: number
+  interestRate?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  minAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  categoryId?: string | null
+  startsAt?: Date | string | null
+  expiresAt?: Date | string | null
+  isActive?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  transactions?: Prisma.PaymentTransactionUncheckedCreateNestedManyWithoutInstallmentPlanInput
+}
+
+export type InstallmentPlanUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  provider?: Prisma.EnumPaymentProviderFieldUpdateOperationsInput | $Enums.PaymentProvider
+  installments?: Prisma.IntFieldUpdateOperationsInput | number
+  interestRate?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  minAmount?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  startsAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  expiresAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  category?: Prisma.CategoryUpdateOneWithoutInstallmentPlansNestedInput
+  transactions?: Prisma.PaymentTransactionUpdateManyWithoutInstallmentPlanNestedInput
+}
+
+export type InstallmentPlanUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  provider?: Prisma.EnumPaymentProviderFieldUpdateOperationsInput | $Enums.PaymentProvider
+  installments?: Prisma.IntFieldUpdateOperationsInput | number
+  interestRate?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  minAmount?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  categoryId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startsAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  expiresAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  transactions?: Prisma.PaymentTransactionUncheckedUpdateManyWithoutInstallmentPlanNestedInput
+}
+
+export type InstallmentPlanCreateManyInput = {
+  id?: string
+  name: string
+  provider: $Enums.PaymentProvider
+  installments: number
+  interestRate?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  minAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  categoryId?: string | null
+  startsAt?: Date | string | null
+  expiresAt?: Date | string | null
+  isActive?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type InstallmentPlanUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  provider?: Prisma.EnumPaymentProviderFieldUpdateOperationsInput | $Enums.PaymentProvider
+  installments?: Prisma.IntFieldUpdateOperationsInput | number
+  interestRate?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  minAmount?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  startsAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  expiresAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type InstallmentPlanUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  provider?: Prisma.EnumPaymentProviderFieldUpdateOperationsInput | $Enums.PaymentProvider
+  installments?: Prisma.IntFieldUpdateOperationsInput | number
+  interestRate?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  minAmount?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  categoryId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startsAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  expiresAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type InstallmentPlanListRelationFilter = {
+  every?: Prisma.InstallmentPlanWhereInput
+  some?: Prisma.InstallmentPlanWhereInput
+  none?: Prisma.InstallmentPlanWhereInput
+}
+
+export type InstallmentPlanOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type InstallmentPlanNullableScalarRelationFilter = {
+  is?: Prisma.InstallmentPlanWhereInput | null
+  isNot?: Prisma.InstallmentPlanWhereInput | null
+}
+
+export type InstallmentPlanCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  provider?: Prisma.SortOrder
+  installments?: Prisma.SortOrder
+  interestRate?: Prisma.SortOrder
+  minAmount?: Prisma.SortOrder
+  categoryId?: Prisma.SortOrder
+  startsAt?: Prisma.SortOrder
+  expiresAt?: Prisma.SortOrder
+  isActive?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type InstallmentPlanAvgOrderByAggregateInput = {
+  installments?: Prisma.SortOrder
+  interestRate?: Prisma.SortOrder
+  minAmount?: Prisma.SortOrder
+}
+
+export type InstallmentPlanMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  provider?: Prisma.SortOrder
+  installments?: Prisma.SortOrder
+  interestRate?: Prisma.SortOrder
+  minAmount?: Prisma.SortOrder
+  categoryId?: Prisma.SortOrder
+  startsAt?: Prisma.SortOrder
+  expiresAt?: Prisma.SortOrder
+  isActive?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type InstallmentPlanMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  provider?: Prisma.SortOrder
+  installments?: Prisma.SortOrder
+  interestRate?: Prisma.SortOrder
+  minAmount?: Prisma.SortOrder
+  categoryId?: Prisma.SortOrder
+  startsAt?: Prisma.SortOrder
+  expiresAt?: Prisma.SortOrder
+  isActive?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type InstallmentPlanSumOrderByAggregateInput = {
+  installments?: Prisma.SortOrder
+  interestRate?: Prisma.SortOrder
+  minAmount?: Prisma.SortOrder
+}
+
+export type InstallmentPlanCreateNestedManyWithoutCategoryInput = {
+  create?: Prisma.XOR<Prisma.InstallmentPlanCreateWithoutCategoryInput, Prisma.InstallmentPlanUncheckedCreateWithoutCategoryInput> | Prisma.InstallmentPlanCreateWithoutCategoryInput[] | Prisma.InstallmentPlanUncheckedCreateWithoutCategoryInput[]
+  connectOrCreate?: Prisma.InstallmentPlanCreateOrConnectWithoutCategoryInput | Prisma.InstallmentPlanCreateOrConnectWithoutCategoryInput[]
+  createMany?: Prisma.InstallmentPlanCreateManyCategoryInputEnvelope
+  connect?: Prisma.InstallmentPlanWhereUniqueInput | Prisma.InstallmentPlanWhereUniqueInput[]
+}
+
+export type InstallmentPlanUncheckedCreateNestedManyWithoutCategoryInput = {
+  create?: Prisma.XOR<Prisma.InstallmentPlanCreateWithoutCategoryInput, Prisma.InstallmentPlanUncheckedCreateWithoutCategoryInput> | Prisma.InstallmentPlanCreateWithoutCategoryInput[] | Prisma.InstallmentPlanUncheckedCreateWithoutCategoryInput[]
+  connectOrCreate?: Prisma.InstallmentPlanCreateOrConnectWithoutCategoryInput | Prisma.InstallmentPlanCreateOrConnectWithoutCategoryInput[]
+  createMany?: Prisma.InstallmentPlanCreateManyCategoryInputEnvelope
+  connect?: Prisma.InstallmentPlanWhereUniqueInput | Prisma.InstallmentPlanWhereUniqueInput[]
+}
+
+export type InstallmentPlanUpdateManyWithoutCategoryNestedInput = {
+  create?: Prisma.XOR<Prisma.InstallmentPlanCreateWithoutCategoryInput, Prisma.InstallmentPlanUncheckedCreateWithoutCategoryInput> | Prisma.InstallmentPlanCreateWithoutCategoryInput[] | Prisma.InstallmentPlanUncheckedCreateWithoutCategoryInput[]
+  connectOrCreate?: Prisma.InstallmentPlanCreateOrConnectWithoutCategoryInput | Prisma.InstallmentPlanCreateOrConnectWithoutCategoryInput[]
+  upsert?: Prisma.InstallmentPlanUpsertWithWhereUniqueWithoutCategoryInput | Prisma.InstallmentPlanUpsertWithWhereUniqueWithoutCategoryInput[]
+  createMany?: Prisma.InstallmentPlanCreateManyCategoryInputEnvelope
+  set?: Prisma.InstallmentPlanWhereUniqueInput | Prisma.InstallmentPlanWhereUniqueInput[]
+  disconnect?: Prisma.InstallmentPlanWhereUniqueInput | Prisma.InstallmentPlanWhereUniqueInput[]
+  delete?: Prisma.InstallmentPlanWhereUniqueInput | Prisma.InstallmentPlanWhereUniqueInput[]
+  connect?: Prisma.InstallmentPlanWhereUniqueInput | Prisma.InstallmentPlanWhereUniqueInput[]
+  update?: Prisma.InstallmentPlanUpdateWithWhereUniqueWithoutCategoryInput | Prisma.InstallmentPlanUpdateWithWhereUniqueWithoutCategoryInput[]
+  updateMany?: Prisma.InstallmentPlanUpdateManyWithWhereWithoutCategoryInput | Prisma.InstallmentPlanUpdateManyWithWhereWithoutCategoryInput[]
+  deleteMany?: Prisma.InstallmentPlanScalarWhereInput | Prisma.InstallmentPlanScalarWhereInput[]
+}
+
+export type InstallmentPlanUncheckedUpdateManyWithoutCategoryNestedInput = {
+  create?: Prisma.XOR<Prisma.InstallmentPlanCreateWithoutCategoryInput, Prisma.InstallmentPlanUncheckedCreateWithoutCategoryInput> | Prisma.InstallmentPlanCreateWithoutCategoryInput[] | Prisma.InstallmentPlanUncheckedCreateWithoutCategoryInput[]
+  connectOrCreate?: Prisma.InstallmentPlanCreateOrConnectWithoutCategoryInput | Prisma.InstallmentPlanCreateOrConnectWithoutCategoryInput[]
+  upsert?: Prisma.InstallmentPlanUpsertWithWhereUniqueWithoutCategoryInput | Prisma.InstallmentPlanUpsertWithWhereUniqueWithoutCategoryInput[]
+  createMany?: Prisma.InstallmentPlanCreateManyCategoryInputEnvelope
+  set?: Prisma.InstallmentPlanWhereUniqueInput | Prisma.InstallmentPlanWhereUniqueInput[]
+  disconnect?: Prisma.InstallmentPlanWhereUniqueInput | Prisma.InstallmentPlanWhereUniqueInput[]
+  delete?: Prisma.InstallmentPlanWhereUniqueInput | Prisma.InstallmentPlanWhereUniqueInput[]
+  connect?: Prisma.InstallmentPlanWhereUniqueInput | Prisma.InstallmentPlanWhereUniqueInput[]
+  update?: Prisma.InstallmentPlanUpdateWithWhereUniqueWithoutCategoryInput | Prisma.InstallmentPlanUpdateWithWhereUniqueWithoutCategoryInput[]
+  updateMany?: Prisma.InstallmentPlanUpdateManyWithWhereWithoutCategoryInput | Prisma.InstallmentPlanUpdateManyWithWhereWithoutCategoryInput[]
+  deleteMany?: Prisma.InstallmentPlanScalarWhereInput | Prisma.InstallmentPlanScalarWhereInput[]
+}
+
+export type InstallmentPlanCreateNestedOneWithoutTransactionsInput = {
+  create?: Prisma.XOR<Prisma.InstallmentPlanCreateWithoutTransactionsInput, Prisma.InstallmentPlanUncheckedCreateWithoutTransactionsInput>
+  connectOrCreate?: Prisma.InstallmentPlanCreateOrConnectWithoutTransactionsInput
+  connect?: Prisma.InstallmentPlanWhereUniqueInput
+}
+
+export type InstallmentPlanUpdateOneWithoutTransactionsNestedInput = {
+  create?: Prisma.XOR<Prisma.InstallmentPlanCreateWithoutTransactionsInput, Prisma.InstallmentPlanUncheckedCreateWithoutTransactionsInput>
+  connectOrCreate?: Prisma.InstallmentPlanCreateOrConnectWithoutTransactionsInput
+  upsert?: Prisma.InstallmentPlanUpsertWithoutTransactionsInput
+  disconnect?: Prisma.InstallmentPlanWhereInput | boolean
+  delete?: Prisma.InstallmentPlanWhereInput | boolean
+  connect?: Prisma.InstallmentPlanWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.InstallmentPlanUpdateToOneWithWhereWithoutTransactionsInput, Prisma.InstallmentPlanUpdateWithoutTransactionsInput>, Prisma.InstallmentPlanUncheckedUpdateWithoutTransactionsInput>
+}
+
+export type InstallmentPlanCreateWithoutCategoryInput = {
+  id?: string
+  name: string
+  provider: $Enums.PaymentProvider
+  installments: number
+  interestRate?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  minAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  startsAt?: Date | string | null
+  expiresAt?: Date | string | null
+  isActive?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  transactions?: Prisma.PaymentTransactionCreateNestedManyWithoutInstallmentPlanInput
+}
+
+export type InstallmentPlanUncheckedCreateWithoutCategoryInput = {
+  id?: string
+  name: string
+  provider: $Enums.PaymentProvider
+  installments: number
+  interestRate?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  minAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  startsAt?: Date | string | null
+  expiresAt?: Date | string | null
+  isActive?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  transactions?: Prisma.PaymentTransactionUncheckedCreateNestedManyWithoutInstallmentPlanInput
+}
+
+export type InstallmentPlanCreateOrConnectWithoutCategoryInput = {
+  where: Prisma.InstallmentPlanWhereUniqueInput
+  create: Prisma.XOR<Prisma.InstallmentPlanCreateWithoutCategoryInput, Prisma.InstallmentPlanUncheckedCreateWithoutCategoryInput>
+}
+
+export type InstallmentPlanCreateManyCategoryInputEnvelope = {
+  data: Prisma.InstallmentPlanCreateManyCategoryInput | Prisma.InstallmentPlanCreateManyCategoryInput[]
+  skipDuplicates?: boolean
+}
+
+export type InstallmentPlanUpsertWithWhereUniqueWithoutCategoryInput = {
+  where: Prisma.InstallmentPlanWhereUniqueInput
+  update: Prisma.XOR<Prisma.InstallmentPlanUpdateWithoutCategoryInput, Prisma.InstallmentPlanUncheckedUpdateWithoutCategoryInput>
+  create: Prisma.XOR<Prisma.InstallmentPlanCreateWithoutCategoryInput, Prisma.InstallmentPlanUncheckedCreateWithoutCategoryInput>
+}
+
+export type InstallmentPlanUpdateWithWhereUniqueWithoutCategoryInput = {
+  where: Prisma.InstallmentPlanWhereUniqueInput
+  data: Prisma.XOR<Prisma.InstallmentPlanUpdateWithoutCategoryInput, Prisma.InstallmentPlanUncheckedUpdateWithoutCategoryInput>
+}
+
+export type InstallmentPlanUpdateManyWithWhereWithoutCategoryInput = {
+  where: Prisma.InstallmentPlanScalarWhereInput
+  data: Prisma.XOR<Prisma.InstallmentPlanUpdateManyMutationInput, Prisma.InstallmentPlanUncheckedUpdateManyWithoutCategoryInput>
+}
+
+export type InstallmentPlanScalarWhereInput = {
+  AND?: Prisma.InstallmentPlanScalarWhereInput | Prisma.InstallmentPlanScalarWhereInput[]
+  OR?: Prisma.InstallmentPlanScalarWhereInput[]
+  NOT?: Prisma.InstallmentPlanScalarWhereInput | Prisma.InstallmentPlanScalarWhereInput[]
+  id?: Prisma.StringFilter<"InstallmentPlan"> | string
+  name?: Prisma.StringFilter<"InstallmentPlan"> | string
+  provider?: Prisma.EnumPaymentProviderFilter<"InstallmentPlan"> | $Enums.PaymentProvider
+  installments?: Prisma.IntFilter<"InstallmentPlan"> | number
+  interestRate?: Prisma.DecimalFilter<"InstallmentPlan"> | runtime.Decimal | runtime.DecimalJsLike | number | string
+  minAmount?: Prisma.DecimalNullableFilter<"InstallmentPlan"> | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  categoryId?: Prisma.StringNullableFilter<"InstallmentPlan"> | string | null
+  startsAt?: Prisma.DateTimeNullableFilter<"InstallmentPlan"> | Date | string | null
+  expiresAt?: Prisma.DateTimeNullableFilter<"InstallmentPlan"> | Date | string | null
+  isActive?: Prisma.BoolFilter<"InstallmentPlan"> | boolean
+  createdAt?: Prisma.DateTimeFilter<"InstallmentPlan"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"InstallmentPlan"> | Date | string
+}
+
+export type InstallmentPlanCreateWithoutTransactionsInput = {
+  id?: string
+  name: string
+  provider: $Enums.PaymentProvider
+  installments: number
+  interestRate?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  minAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  startsAt?: Date | string | null
+  expiresAt?: Date | string | null
+  isActive?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  category?: Prisma.CategoryCreateNestedOneWithoutInstallmentPlansInput
+}
+
+export type InstallmentPlanUncheckedCreateWithoutTransactionsInput = {
+  id?: string
+  name: string
+  provider: $Enums.PaymentProvider
+  installments: number
+  interestRate?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  minAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  categoryId?: string | null
+  startsAt?: Date | string | null
+  expiresAt?: Date | string | null
+  isActive?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type InstallmentPlanCreateOrConnectWithoutTransactionsInput = {
+  where: Prisma.InstallmentPlanWhereUniqueInput
+  create: Prisma.XOR<Prisma.InstallmentPlanCreateWithoutTransactionsInput, Prisma.InstallmentPlanUncheckedCreateWithoutTransactionsInput>
+}
+
+export type InstallmentPlanUpsertWithoutTransactionsInput = {
+  update: Prisma.XOR<Prisma.InstallmentPlanUpdateWithoutTransactionsInput, Prisma.InstallmentPlanUncheckedUpdateWithoutTransactionsInput>
+  create: Prisma.XOR<Prisma.InstallmentPlanCreateWithoutTransactionsInput, Prisma.InstallmentPlanUncheckedCreateWithoutTransactionsInput>
+  where?: Prisma.InstallmentPlanWhereInput
+}
+
+export type InstallmentPlanUpdateToOneWithWhereWithoutTransactionsInput = {
+  where?: Prisma.InstallmentPlanWhereInput
+  data: Prisma.XOR<Prisma.InstallmentPlanUpdateWithoutTransactionsInput, Prisma.InstallmentPlanUncheckedUpdateWithoutTransactionsInput>
+}
+
+export type InstallmentPlanUpdateWithoutTransactionsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  provider?: Prisma.EnumPaymentProviderFieldUpdateOperationsInput | $Enums.PaymentProvider
+  installments?: Prisma.IntFieldUpdateOperationsInput | number
+  interestRate?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  minAmount?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  startsAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  expiresAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  category?: Prisma.CategoryUpdateOneWithoutInstallmentPlansNestedInput
+}
+
+export type InstallmentPlanUncheckedUpdateWithoutTransactionsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  provider?: Prisma.EnumPaymentProviderFieldUpdateOperationsInput | $Enums.PaymentProvider
+  installments?: Prisma.IntFieldUpdateOperationsInput | number
+  interestRate?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  minAmount?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  categoryId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  startsAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  expiresAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type InstallmentPlanCreateManyCategoryInput = {
+  id?: string
+  name: string
+  provider: $Enums.PaymentProvider
+  installments: number
+  interestRate?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  minAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  startsAt?: Date | string | null
+  expiresAt?: Date | string | null
+  isActive?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type InstallmentPlanUpdateWithoutCategoryInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  provider?: Prisma.EnumPaymentProviderFieldUpdateOperationsInput | $Enums.PaymentProvider
+  installments?: Prisma.IntFieldUpdateOperationsInput | number
+  interestRate?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  minAmount?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  startsAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  expiresAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  transactions?: Prisma.PaymentTransactionUpdateManyWithoutInstallmentPlanNestedInput
+}
+
+export type InstallmentPlanUncheckedUpdateWithoutCategoryInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  provider?: Prisma.EnumPaymentProviderFieldUpdateOperationsInput | $Enums.PaymentProvider
+  installments?: Prisma.IntFieldUpdateOperationsInput | number
+  interestRate?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  minAmount?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  startsAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  expiresAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  transactions?: Prisma.PaymentTransactionUncheckedUpdateManyWithoutInstallmentPlanNestedInput
+}
+
+export type InstallmentPlanUncheckedUpdateManyWithoutCategoryInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  provider?: Prisma.EnumPaymentProviderFieldUpdateOperationsInput | $Enums.PaymentProvider
+  installments?: Prisma.IntFieldUpdateOperationsInput | number
+  interestRate?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  minAmount?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  startsAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  expiresAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+/**
+ * Count Type InstallmentPlanCountOutputType
+ */
+
+export type InstallmentPlanCountOutputType = {
+  transactions: number
+}
+
+export type InstallmentPlanCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  transactions?: boolean | InstallmentPlanCountOutputTypeCountTransactionsArgs
+}
+
+/**
+ * InstallmentPlanCountOutputType without action
+ */
+export type InstallmentPlanCountOutputTypeDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InstallmentPlanCountOutputType
+   */
+  select?: Prisma.InstallmentPlanCountOutputTypeSelect<ExtArgs> | null
+}
+
+/**
+ * InstallmentPlanCountOutputType without action
+ */
+export type InstallmentPlanCountOutputTypeCountTransactionsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.PaymentTransactionWhereInput
+}
+
+
+export type InstallmentPlanSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  name?: boolean
+  provider?: boolean
+  installments?: boolean
+  interestRate?: boolean
+  minAmount?: boolean
+  categoryId?: boolean
+  startsAt?: boolean
+  expiresAt?: boolean
+  isActive?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  category?: boolean | Prisma.InstallmentPlan$categoryArgs<ExtArgs>
+  transactions?: boolean | Prisma.InstallmentPlan$transactionsArgs<ExtArgs>
+  _count?: boolean | Prisma.InstallmentPlanCountOutputTypeDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["installmentPlan"]>
+
+export type InstallmentPlanSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  name?: boolean
+  provider?: boolean
+  installments?: boolean
+  interestRate?: boolean
+  minAmount?: boolean
+  categoryId?: boolean
+  startsAt?: boolean
+  expiresAt?: boolean
+  isActive?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  category?: boolean | Prisma.InstallmentPlan$categoryArgs<ExtArgs>
+}, ExtArgs["result"]["installmentPlan"]>
+
+export type InstallmentPlanSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  name?: boolean
+  provider?: boolean
+  installments?: boolean
+  interestRate?: boolean
+  minAmount?: boolean
+  categoryId?: boolean
+  startsAt?: boolean
+  expiresAt?: boolean
+  isActive?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  category?: boolean | Prisma.InstallmentPlan$categoryArgs<ExtArgs>
+}, ExtArgs["result"]["installmentPlan"]>
+
+export type InstallmentPlanSelectScalar = {
+  id?: boolean
+  name?: boolean
+  provider?: boolean
+  installments?: boolean
+  interestRate?: boolean
+  minAmount?: boolean
+  categoryId?: boolean
+  startsAt?: boolean
+  expiresAt?: boolean
+  isActive?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}
+
+export type InstallmentPlanOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "name" | "provider" | "installments" | "interestRate" | "minAmount" | "categoryId" | "startsAt" | "expiresAt" | "isActive" | "createdAt" | "updatedAt", ExtArgs["result"]["installmentPlan"]>
+export type InstallmentPlanInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  category?: boolean | Prisma.InstallmentPlan$categoryArgs<ExtArgs>
+  transactions?: boolean | Prisma.InstallmentPlan$transactionsArgs<ExtArgs>
+  _count?: boolean | Prisma.InstallmentPlanCountOutputTypeDefaultArgs<ExtArgs>
+}
+export type InstallmentPlanIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  category?: boolean | Prisma.InstallmentPlan$categoryArgs<ExtArgs>
+}
+export type InstallmentPlanIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  category?: boolean | Prisma.InstallmentPlan$categoryArgs<ExtArgs>
+}
+
+export type $InstallmentPlanPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "InstallmentPlan"
+  objects: {
+    category: Prisma.$CategoryPayload<ExtArgs> | null
+    transactions: Prisma.$PaymentTransactionPayload<ExtArgs>[]
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    name: string
+    provider: $Enums.PaymentProvider
+    installments: number
+    interestRate: runtime.Decimal
+    minAmount: runtime.Decimal | null
+    categoryId: string | null
+    startsAt: Date | null
+    expiresAt: Date | null
+    isActive: boolean
+    createdAt: Date
+    updatedAt: Date
+  }, ExtArgs["result"]["installmentPlan"]>
+  composites: {}
+}
+
+export type InstallmentPlanGetPayload<S extends boolean | null | undefined | InstallmentPlanDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$InstallmentPlanPayload, S>
+
+export type InstallmentPlanCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<InstallmentPlanFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: InstallmentPlanCountAggregateInputType | true
+  }
+
+export interface InstallmentPlanDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['InstallmentPlan'], meta: { name: 'InstallmentPlan' } }
+  /**
+   * Find zero or one InstallmentPlan that matches the filter.
+   * @param {InstallmentPlanFindUniqueArgs} args - Arguments to find a InstallmentPlan
+   * @example
+   * // Get one InstallmentPlan
+   * const installmentPlan = await prisma.installmentPlan.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends InstallmentPlanFindUniqueArgs>(args: Prisma.SelectSubset<T, InstallmentPlanFindUniqueArgs<ExtArgs>>): Prisma.Prisma__InstallmentPlanClient<runtime.Types.Result.GetResult<Prisma.$InstallmentPlanPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one InstallmentPlan that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {InstallmentPlanFindUniqueOrThrowArgs} args - Arguments to find a InstallmentPlan
+   * @example
+   * // Get one InstallmentPlan
+   * const installmentPlan = await prisma.installmentPlan.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends InstallmentPlanFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, InstallmentPlanFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__InstallmentPlanClient<runtime.Types.Result.GetResult<Prisma.$InstallmentPlanPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first InstallmentPlan that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {InstallmentPlanFindFirstArgs} args - Arguments to find a InstallmentPlan
+   * @example
+   * // Get one InstallmentPlan
+   * const installmentPlan = await prisma.installmentPlan.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends InstallmentPlanFindFirstArgs>(args?: Prisma.SelectSubset<T, InstallmentPlanFindFirstArgs<ExtArgs>>): Prisma.Prisma__InstallmentPlanClient<runtime.Types.Result.GetResult<Prisma.$InstallmentPlanPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first InstallmentPlan that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {InstallmentPlanFindFirstOrThrowArgs} args - Arguments to find a InstallmentPlan
+   * @example
+   * // Get one InstallmentPlan
+   * const installmentPlan = await prisma.installmentPlan.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends InstallmentPlanFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, InstallmentPlanFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__InstallmentPlanClient<runtime.Types.Result.GetResult<Prisma.$InstallmentPlanPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more InstallmentPlans that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {InstallmentPlanFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all InstallmentPlans
+   * const installmentPlans = await prisma.installmentPlan.findMany()
+   * 
+   * // Get first 10 InstallmentPlans
+   * const installmentPlans = await prisma.installmentPlan.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const installmentPlanWithIdOnly = await prisma.installmentPlan.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends InstallmentPlanFindManyArgs>(args?: Prisma.SelectSubset<T, InstallmentPlanFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$InstallmentPlanPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a InstallmentPlan.
+   * @param {InstallmentPlanCreateArgs} args - Arguments to create a InstallmentPlan.
+   * @example
+   * // Create one InstallmentPlan
+   * const InstallmentPlan = await prisma.installmentPlan.create({
+   *   data: {
+   *     // ... data to create a InstallmentPlan
+   *   }
+   * })
+   * 
+   */
+  create<T extends InstallmentPlanCreateArgs>(args: Prisma.SelectSubset<T, InstallmentPlanCreateArgs<ExtArgs>>): Prisma.Prisma__InstallmentPlanClient<runtime.Types.Result.GetResult<Prisma.$InstallmentPlanPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many InstallmentPlans.
+   * @param {InstallmentPlanCreateManyArgs} args - Arguments to create many InstallmentPlans.
+   * @example
+   * // Create many InstallmentPlans
+   * const installmentPlan = await prisma.installmentPlan.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends InstallmentPlanCreateManyArgs>(args?: Prisma.SelectSubset<T, InstallmentPlanCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many InstallmentPlans and returns the data saved in the database.
+   * @param {InstallmentPlanCreateManyAndReturnArgs} args - Arguments to create many InstallmentPlans.
+   * @example
+   * // Create many InstallmentPlans
+   * const installmentPlan = await prisma.installmentPlan.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many InstallmentPlans and only return the `id`
+   * const installmentPlanWithIdOnly = await prisma.installmentPlan.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends InstallmentPlanCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, InstallmentPlanCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$InstallmentPlanPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a InstallmentPlan.
+   * @param {InstallmentPlanDeleteArgs} args - Arguments to delete one InstallmentPlan.
+   * @example
+   * // Delete one InstallmentPlan
+   * const InstallmentPlan = await prisma.installmentPlan.delete({
+   *   where: {
+   *     // ... filter to delete one InstallmentPlan
+   *   }
+   * })
+   * 
+   */
+  delete<T extends InstallmentPlanDeleteArgs>(args: Prisma.SelectSubset<T, InstallmentPlanDeleteArgs<ExtArgs>>): Prisma.Prisma__InstallmentPlanClient<runtime.Types.Result.GetResult<Prisma.$InstallmentPlanPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one InstallmentPlan.
+   * @param {InstallmentPlanUpdateArgs} args - Arguments to update one InstallmentPlan.
+   * @example
+   * // Update one InstallmentPlan
+   * const installmentPlan = await prisma.installmentPlan.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends InstallmentPlanUpdateArgs>(args: Prisma.SelectSubset<T, InstallmentPlanUpdateArgs<ExtArgs>>): Prisma.Prisma__InstallmentPlanClient<runtime.Types.Result.GetResult<Prisma.$InstallmentPlanPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more InstallmentPlans.
+   * @param {InstallmentPlanDeleteManyArgs} args - Arguments to filter InstallmentPlans to delete.
+   * @example
+   * // Delete a few InstallmentPlans
+   * const { count } = await prisma.installmentPlan.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends InstallmentPlanDeleteManyArgs>(args?: Prisma.SelectSubset<T, InstallmentPlanDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more InstallmentPlans.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {InstallmentPlanUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many InstallmentPlans
+   * const installmentPlan = await prisma.installmentPlan.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends InstallmentPlanUpdateManyArgs>(args: Prisma.SelectSubset<T, InstallmentPlanUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more InstallmentPlans and returns the data updated in the database.
+   * @param {InstallmentPlanUpdateManyAndReturnArgs} args - Arguments to update many InstallmentPlans.
+   * @example
+   * // Update many InstallmentPlans
+   * const installmentPlan = await prisma.installmentPlan.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more InstallmentPlans and only return the `id`
+   * const installmentPlanWithIdOnly = await prisma.installmentPlan.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends InstallmentPlanUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, InstallmentPlanUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$InstallmentPlanPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one InstallmentPlan.
+   * @param {InstallmentPlanUpsertArgs} args - Arguments to update or create a InstallmentPlan.
+   * @example
+   * // Update or create a InstallmentPlan
+   * const installmentPlan = await prisma.installmentPlan.upsert({
+   *   create: {
+   *     // ... data to create a InstallmentPlan
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the InstallmentPlan we want to update
+   *   }
+   * })
+   */
+  upsert<T extends InstallmentPlanUpsertArgs>(args: Prisma.SelectSubset<T, InstallmentPlanUpsertArgs<ExtArgs>>): Prisma.Prisma__InstallmentPlanClient<runtime.Types.Result.GetResult<Prisma.$InstallmentPlanPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of InstallmentPlans.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {InstallmentPlanCountArgs} args - Arguments to filter InstallmentPlans to count.
+   * @example
+   * // Count the number of InstallmentPlans
+   * const count = await prisma.installmentPlan.count({
+   *   where: {
+   *     // ... the filter for the InstallmentPlans we want to count
+   *   }
+   * })
+  **/
+  count<T extends InstallmentPlanCountArgs>(
+    args?: Prisma.Subset<T, InstallmentPlanCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], InstallmentPlanCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a InstallmentPlan.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {InstallmentPlanAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends InstallmentPlanAggregateArgs>(args: Prisma.Subset<T, InstallmentPlanAggregateArgs>): Prisma.PrismaPromise<GetInstallmentPlanAggregateType<T>>
+
+  /**
+   * Group by InstallmentPlan.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {InstallmentPlanGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends InstallmentPlanGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: InstallmentPlanGroupByArgs['orderBy'] }
+      : { orderBy?: InstallmentPlanGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, InstallmentPlanGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetInstallmentPlanGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the InstallmentPlan model
+ */
+readonly fields: InstallmentPlanFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for InstallmentPlan.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__InstallmentPlanClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  category<T extends Prisma.InstallmentPlan$categoryArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.InstallmentPlan$categoryArgs<ExtArgs>>): Prisma.Prisma__CategoryClient<runtime.Types.Result.GetResult<Prisma.$CategoryPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  transactions<T extends Prisma.InstallmentPlan$transactionsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.InstallmentPlan$transactionsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$PaymentTransactionPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the InstallmentPlan model
+ */
+export interface InstallmentPlanFieldRefs {
+  readonly id: Prisma.FieldRef<"InstallmentPlan", 'String'>
+  readonly name: Prisma.FieldRef<"InstallmentPlan", 'String'>
+  readonly provider: Prisma.FieldRef<"InstallmentPlan", 'PaymentProvider'>
+  readonly installments: Prisma.FieldRef<"InstallmentPlan", 'Int'>
+  readonly interestRate: Prisma.FieldRef<"InstallmentPlan", 'Decimal'>
+  readonly minAmount: Prisma.FieldRef<"InstallmentPlan", 'Decimal'>
+  readonly categoryId: Prisma.FieldRef<"InstallmentPlan", 'String'>
+  readonly startsAt: Prisma.FieldRef<"InstallmentPlan", 'DateTime'>
+  readonly expiresAt: Prisma.FieldRef<"InstallmentPlan", 'DateTime'>
+  readonly isActive: Prisma.FieldRef<"InstallmentPlan", 'Boolean'>
+  readonly createdAt: Prisma.FieldRef<"InstallmentPlan", 'DateTime'>
+  readonly updatedAt: Prisma.FieldRef<"InstallmentPlan", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * InstallmentPlan findUnique
+ */
+export type InstallmentPlanFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InstallmentPlan
+   */
+  select?: Prisma.InstallmentPlanSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the InstallmentPlan
+   */
+  omit?: Prisma.InstallmentPlanOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InstallmentPlanInclude<ExtArgs> | null
+  /**
+   * Filter, which InstallmentPlan to fetch.
+   */
+  where: Prisma.InstallmentPlanWhereUniqueInput
+}
+
+/**
+ * InstallmentPlan findUniqueOrThrow
+ */
+export type InstallmentPlanFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InstallmentPlan
+   */
+  select?: Prisma.InstallmentPlanSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the InstallmentPlan
+   */
+  omit?: Prisma.InstallmentPlanOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InstallmentPlanInclude<ExtArgs> | null
+  /**
+   * Filter, which InstallmentPlan to fetch.
+   */
+  where: Prisma.InstallmentPlanWhereUniqueInput
+}
+
+/**
+ * InstallmentPlan findFirst
+ */
+export type InstallmentPlanFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InstallmentPlan
+   */
+  select?: Prisma.InstallmentPlanSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the InstallmentPlan
+   */
+  omit?: Prisma.InstallmentPlanOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InstallmentPlanInclude<ExtArgs> | null
+  /**
+   * Filter, which InstallmentPlan to fetch.
+   */
+  where?: Prisma.InstallmentPlanWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of InstallmentPlans to fetch.
+   */
+  orderBy?: Prisma.InstallmentPlanOrderByWithRelationInput | Prisma.InstallmentPlanOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for InstallmentPlans.
+   */
+  cursor?: Prisma.InstallmentPlanWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` InstallmentPlans from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` InstallmentPlans.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of InstallmentPlans.
+   */
+  distinct?: Prisma.InstallmentPlanScalarFieldEnum | Prisma.InstallmentPlanScalarFieldEnum[]
+}
+
+/**
+ * InstallmentPlan findFirstOrThrow
+ */
+export type InstallmentPlanFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InstallmentPlan
+   */
+  select?: Prisma.InstallmentPlanSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the InstallmentPlan
+   */
+  omit?: Prisma.InstallmentPlanOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InstallmentPlanInclude<ExtArgs> | null
+  /**
+   * Filter, which InstallmentPlan to fetch.
+   */
+  where?: Prisma.InstallmentPlanWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of InstallmentPlans to fetch.
+   */
+  orderBy?: Prisma.InstallmentPlanOrderByWithRelationInput | Prisma.InstallmentPlanOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for InstallmentPlans.
+   */
+  cursor?: Prisma.InstallmentPlanWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` InstallmentPlans from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` InstallmentPlans.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of InstallmentPlans.
+   */
+  distinct?: Prisma.InstallmentPlanScalarFieldEnum | Prisma.InstallmentPlanScalarFieldEnum[]
+}
+
+/**
+ * InstallmentPlan findMany
+ */
+export type InstallmentPlanFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InstallmentPlan
+   */
+  select?: Prisma.InstallmentPlanSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the InstallmentPlan
+   */
+  omit?: Prisma.InstallmentPlanOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InstallmentPlanInclude<ExtArgs> | null
+  /**
+   * Filter, which InstallmentPlans to fetch.
+   */
+  where?: Prisma.InstallmentPlanWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of InstallmentPlans to fetch.
+   */
+  orderBy?: Prisma.InstallmentPlanOrderByWithRelationInput | Prisma.InstallmentPlanOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing InstallmentPlans.
+   */
+  cursor?: Prisma.InstallmentPlanWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` InstallmentPlans from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` InstallmentPlans.
+   */
+  skip?: number
+  distinct?: Prisma.InstallmentPlanScalarFieldEnum | Prisma.InstallmentPlanScalarFieldEnum[]
+}
+
+/**
+ * InstallmentPlan create
+ */
+export type InstallmentPlanCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InstallmentPlan
+   */
+  select?: Prisma.InstallmentPlanSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the InstallmentPlan
+   */
+  omit?: Prisma.InstallmentPlanOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InstallmentPlanInclude<ExtArgs> | null
+  /**
+   * The data needed to create a InstallmentPlan.
+   */
+  data: Prisma.XOR<Prisma.InstallmentPlanCreateInput, Prisma.InstallmentPlanUncheckedCreateInput>
+}
+
+/**
+ * InstallmentPlan createMany
+ */
+export type InstallmentPlanCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many InstallmentPlans.
+   */
+  data: Prisma.InstallmentPlanCreateManyInput | Prisma.InstallmentPlanCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * InstallmentPlan createManyAndReturn
+ */
+export type InstallmentPlanCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InstallmentPlan
+   */
+  select?: Prisma.InstallmentPlanSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the InstallmentPlan
+   */
+  omit?: Prisma.InstallmentPlanOmit<ExtArgs> | null
+  /**
+   * The data used to create many InstallmentPlans.
+   */
+  data: Prisma.InstallmentPlanCreateManyInput | Prisma.InstallmentPlanCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InstallmentPlanIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * InstallmentPlan update
+ */
+export type InstallmentPlanUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InstallmentPlan
+   */
+  select?: Prisma.InstallmentPlanSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the InstallmentPlan
+   */
+  omit?: Prisma.InstallmentPlanOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InstallmentPlanInclude<ExtArgs> | null
+  /**
+   * The data needed to update a InstallmentPlan.
+   */
+  data: Prisma.XOR<Prisma.InstallmentPlanUpdateInput, Prisma.InstallmentPlanUncheckedUpdateInput>
+  /**
+   * Choose, which InstallmentPlan to update.
+   */
+  where: Prisma.InstallmentPlanWhereUniqueInput
+}
+
+/**
+ * InstallmentPlan updateMany
+ */
+export type InstallmentPlanUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update InstallmentPlans.
+   */
+  data: Prisma.XOR<Prisma.InstallmentPlanUpdateManyMutationInput, Prisma.InstallmentPlanUncheckedUpdateManyInput>
+  /**
+   * Filter which InstallmentPlans to update
+   */
+  where?: Prisma.InstallmentPlanWhereInput
+  /**
+   * Limit how many InstallmentPlans to update.
+   */
+  limit?: number
+}
+
+/**
+ * InstallmentPlan updateManyAndReturn
+ */
+export type InstallmentPlanUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InstallmentPlan
+   */
+  select?: Prisma.InstallmentPlanSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the InstallmentPlan
+   */
+  omit?: Prisma.InstallmentPlanOmit<ExtArgs> | null
+  /**
+   * The data used to update InstallmentPlans.
+   */
+  data: Prisma.XOR<Prisma.InstallmentPlanUpdateManyMutationInput, Prisma.InstallmentPlanUncheckedUpdateManyInput>
+  /**
+   * Filter which InstallmentPlans to update
+   */
+  where?: Prisma.InstallmentPlanWhereInput
+  /**
+   * Limit how many InstallmentPlans to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InstallmentPlanIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * InstallmentPlan upsert
+ */
+export type InstallmentPlanUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InstallmentPlan
+   */
+  select?: Prisma.InstallmentPlanSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the InstallmentPlan
+   */
+  omit?: Prisma.InstallmentPlanOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InstallmentPlanInclude<ExtArgs> | null
+  /**
+   * The filter to search for the InstallmentPlan to update in case it exists.
+   */
+  where: Prisma.InstallmentPlanWhereUniqueInput
+  /**
+   * In case the InstallmentPlan found by the `where` argument doesn't exist, create a new InstallmentPlan with this data.
+   */
+  create: Prisma.XOR<Prisma.InstallmentPlanCreateInput, Prisma.InstallmentPlanUncheckedCreateInput>
+  /**
+   * In case the InstallmentPlan was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.InstallmentPlanUpdateInput, Prisma.InstallmentPlanUncheckedUpdateInput>
+}
+
+/**
+ * InstallmentPlan delete
+ */
+export type InstallmentPlanDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InstallmentPlan
+   */
+  select?: Prisma.InstallmentPlanSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the InstallmentPlan
+   */
+  omit?: Prisma.InstallmentPlanOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InstallmentPlanInclude<ExtArgs> | null
+  /**
+   * Filter which InstallmentPlan to delete.
+   */
+  where: Prisma.InstallmentPlanWhereUniqueInput
+}
+
+/**
+ * InstallmentPlan deleteMany
+ */
+export type InstallmentPlanDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which InstallmentPlans to delete
+   */
+  where?: Prisma.InstallmentPlanWhereInput
+  /**
+   * Limit how many InstallmentPlans to delete.
+   */
+  limit?: number
+}
+
+/**
+ * InstallmentPlan.category
+ */
+export type InstallmentPlan$categoryArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Category
+   */
+  select?: Prisma.CategorySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Category
+   */
+  omit?: Prisma.CategoryOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CategoryInclude<ExtArgs> | null
+  where?: Prisma.CategoryWhereInput
+}
+
+/**
+ * InstallmentPlan.transactions
+ */
+export type InstallmentPlan$transactionsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PaymentTransaction
+   */
+  select?: Prisma.PaymentTransactionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PaymentTransaction
+   */
+  omit?: Prisma.PaymentTransactionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PaymentTransactionInclude<ExtArgs> | null
+  where?: Prisma.PaymentTransactionWhereInput
+  orderBy?: Prisma.PaymentTransactionOrderByWithRelationInput | Prisma.PaymentTransactionOrderByWithRelationInput[]
+  cursor?: Prisma.PaymentTransactionWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.PaymentTransactionScalarFieldEnum | Prisma.PaymentTransactionScalarFieldEnum[]
+}
+
+/**
+ * InstallmentPlan without action
+ */
+export type InstallmentPlanDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InstallmentPlan
+   */
+  select?: Prisma.InstallmentPlanSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the InstallmentPlan
+   */
+  omit?: Prisma.InstallmentPlanOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InstallmentPlanInclude<ExtArgs> | null
+}
@@ -39,7 +39,9 @@ export type PaymentMethodSumAggregateOutputType = {
 export type PaymentMethodMinAggregateOutputType = {
   id: string | null
   userId: string | null
-  gatewayToken: string | null
+  provider: $Enums.PaymentProvider | null
+  providerCustomerId: string | null
+  providerCardId: string | null
   cardBrand: string | null
   last4Digits: string | null
   expirationMonth: number | null
@@ -52,7 +54,9 @@ export type PaymentMethodMinAggregateOutputType = {
 export type PaymentMethodMaxAggregateOutputType = {
   id: string | null
   userId: string | null
-  gatewayToken: string | null
+  provider: $Enums.PaymentProvider | null
+  providerCustomerId: string | null
+  providerCardId: string | null
   cardBrand: string | null
   last4Digits: string | null
   expirationMonth: number | null
@@ -65,7 +69,9 @@ export type PaymentMethodMaxAggregateOutputType = {
 export type PaymentMethodCountAggregateOutputType = {
   id: number
   userId: number
-  gatewayToken: number
+  provider: number
+  providerCustomerId: number
+  providerCardId: number
   cardBrand: number
   last4Digits: number
   expirationMonth: number
@@ -90,7 +96,9 @@ export type PaymentMethodSumAggregateInputType = {
 export type PaymentMethodMinAggregateInputType = {
   id?: true
   userId?: true
-  gatewayToken?: true
+  provider?: true
+  providerCustomerId?: true
+  providerCardId?: true
   cardBrand?: true
   last4Digits?: true
   expirationMonth?: true
@@ -103,7 +111,9 @@ export type PaymentMethodMinAggregateInputType = {
 export type PaymentMethodMaxAggregateInputType = {
   id?: true
   userId?: true
-  gatewayToken?: true
+  provider?: true
+  providerCustomerId?: true
+  providerCardId?: true
   cardBrand?: true
   last4Digits?: true
   expirationMonth?: true
@@ -116,7 +126,9 @@ export type PaymentMethodMaxAggregateInputType = {
 export type PaymentMethodCountAggregateInputType = {
   id?: true
   userId?: true
-  gatewayToken?: true
+  provider?: true
+  providerCustomerId?: true
+  providerCardId?: true
   cardBrand?: true
   last4Digits?: true
   expirationMonth?: true
@@ -216,7 +228,9 @@ export type PaymentMethodGroupByArgs<ExtArgs extends runtime.Types.Extensions.In
 export type PaymentMethodGroupByOutputType = {
   id: string
   userId: string
-  gatewayToken: string
+  provider: $Enums.PaymentProvider
+  providerCustomerId: string
+  providerCardId: string
   cardBrand: string
   last4Digits: string
   expirationMonth: number
@@ -252,7 +266,9 @@ export type PaymentMethodWhereInput = {
   NOT?: Prisma.PaymentMethodWhereInput | Prisma.PaymentMethodWhereInput[]
   id?: Prisma.StringFilter<"PaymentMethod"> | string
   userId?: Prisma.StringFilter<"PaymentMethod"> | string
-  gatewayToken?: Prisma.StringFilter<"PaymentMethod"> | string
+  provider?: Prisma.EnumPaymentProviderFilter<"PaymentMethod"> | $Enums.PaymentProvider
+  providerCustomerId?: Prisma.StringFilter<"PaymentMethod"> | string
+  providerCardId?: Prisma.StringFilter<"PaymentMethod"> | string
   cardBrand?: Prisma.StringFilter<"PaymentMethod"> | string
   last4Digits?: Prisma.StringFilter<"PaymentMethod"> | string
   expirationMonth?: Prisma.IntFilter<"PaymentMethod"> | number
@@ -266,7 +282,9 @@ export type PaymentMethodWhereInput = {
 export type PaymentMethodOrderByWithRelationInput = {
   id?: Prisma.SortOrder
   userId?: Prisma.SortOrder
-  gatewayToken?: Prisma.SortOrder
+  provider?: Prisma.SortOrder
+  providerCustomerId?: Prisma.SortOrder
+  providerCardId?: Prisma.SortOrder
   cardBrand?: Prisma.SortOrder
   last4Digits?: Prisma.SortOrder
   expirationMonth?: Prisma.SortOrder
@@ -279,11 +297,14 @@ export type PaymentMethodOrderByWithRelationInput = {
 
 export type PaymentMethodWhereUniqueInput = Prisma.AtLeast<{
   id?: string
+  provider_providerCardId?: Prisma.PaymentMethodProviderProviderCardIdCompoundUniqueInput
   AND?: Prisma.PaymentMethodWhereInput | Prisma.PaymentMethodWhereInput[]
   OR?: Prisma.PaymentMethodWhereInput[]
   NOT?: Prisma.PaymentMethodWhereInput | Prisma.PaymentMethodWhereInput[]
   userId?: Prisma.StringFilter<"PaymentMethod"> | string
-  gatewayToken?: Prisma.StringFilter<"PaymentMethod"> | string
+  provider?: Prisma.EnumPaymentProviderFilter<"PaymentMethod"> | $Enums.PaymentProvider
+  providerCustomerId?: Prisma.StringFilter<"PaymentMethod"> | string
+  providerCardId?: Prisma.StringFilter<"PaymentMethod"> | string
   cardBrand?: Prisma.StringFilter<"PaymentMethod"> | string
   last4Digits?: Prisma.StringFilter<"PaymentMethod"> | string
   expirationMonth?: Prisma.IntFilter<"PaymentMethod"> | number
@@ -292,12 +313,14 @@ export type PaymentMethodWhereUniqueInput = Prisma.AtLeast<{
   createdAt?: Prisma.DateTimeFilter<"PaymentMethod"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"PaymentMethod"> | Date | string
   user?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
-}, "id">
+}, "id" | "provider_providerCardId">
 
 export type PaymentMethodOrderByWithAggregationInput = {
   id?: Prisma.SortOrder
   userId?: Prisma.SortOrder
-  gatewayToken?: Prisma.SortOrder
+  provider?: Prisma.SortOrder
+  providerCustomerId?: Prisma.SortOrder
+  providerCardId?: Prisma.SortOrder
   cardBrand?: Prisma.SortOrder
   last4Digits?: Prisma.SortOrder
   expirationMonth?: Prisma.SortOrder
@@ -318,7 +341,9 @@ export type PaymentMethodScalarWhereWithAggregatesInput = {
   NOT?: Prisma.PaymentMethodScalarWhereWithAggregatesInput | Prisma.PaymentMethodScalarWhereWithAggregatesInput[]
   id?: Prisma.StringWithAggregatesFilter<"PaymentMethod"> | string
   userId?: Prisma.StringWithAggregatesFilter<"PaymentMethod"> | string
-  gatewayToken?: Prisma.StringWithAggregatesFilter<"PaymentMethod"> | string
+  provider?: Prisma.EnumPaymentProviderWithAggregatesFilter<"PaymentMethod"> | $Enums.PaymentProvider
+  providerCustomerId?: Prisma.StringWithAggregatesFilter<"PaymentMethod"> | string
+  providerCardId?: Prisma.StringWithAggregatesFilter<"PaymentMethod"> | string
   cardBrand?: Prisma.StringWithAggregatesFilter<"PaymentMethod"> | string
   last4Digits?: Prisma.StringWithAggregatesFilter<"PaymentMethod"> | string
   expirationMonth?: Prisma.IntWithAggregatesFilter<"PaymentMethod"> | number
@@ -330,7 +355,9 @@ export type PaymentMethodScalarWhereWithAggregatesInput = {
 
 export type PaymentMethodCreateInput = {
   id?: string
-  gatewayToken: string
+  provider: $Enums.PaymentProvider
+  providerCustomerId: string
+  providerCardId: string
   cardBrand: string
   last4Digits: string
   expirationMonth: number
@@ -344,7 +371,9 @@ export type PaymentMethodCreateInput = {
 export type PaymentMethodUncheckedCreateInput = {
   id?: string
   userId: string
-  gatewayToken: string
+  provider: $Enums.PaymentProvider
+  providerCustomerId: string
+  providerCardId: string
   cardBrand: string
   last4Digits: string
   expirationMonth: number
@@ -356,7 +385,9 @@ export type PaymentMethodUncheckedCreateInput = {
 
 export type PaymentMethodUpdateInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
-  gatewayToken?: Prisma.StringFieldUpdateOperationsInput | string
+  provider?: Prisma.EnumPaymentProviderFieldUpdateOperationsInput | $Enums.PaymentProvider
+  providerCustomerId?: Prisma.StringFieldUpdateOperationsInput | string
+  providerCardId?: Prisma.StringFieldUpdateOperationsInput | string
   cardBrand?: Prisma.StringFieldUpdateOperationsInput | string
   last4Digits?: Prisma.StringFieldUpdateOperationsInput | string
   expirationMonth?: Prisma.IntFieldUpdateOperationsInput | number
@@ -370,7 +401,9 @@ export type PaymentMethodUpdateInput = {
 export type PaymentMethodUncheckedUpdateInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   userId?: Prisma.StringFieldUpdateOperationsInput | string
-  gatewayToken?: Prisma.StringFieldUpdateOperationsInput | string
+  provider?: Prisma.EnumPaymentProviderFieldUpdateOperationsInput | $Enums.PaymentProvider
+  providerCustomerId?: Prisma.StringFieldUpdateOperationsInput | string
+  providerCardId?: Prisma.StringFieldUpdateOperationsInput | string
   cardBrand?: Prisma.StringFieldUpdateOperationsInput | string
   last4Digits?: Prisma.StringFieldUpdateOperationsInput | string
   expirationMonth?: Prisma.IntFieldUpdateOperationsInput | number
@@ -383,7 +416,9 @@ export type PaymentMethodUncheckedUpdateInput = {
 export type PaymentMethodCreateManyInput = {
   id?: string
   userId: string
-  gatewayToken: string
+  provider: $Enums.PaymentProvider
+  providerCustomerId: string
+  providerCardId: string
   cardBrand: string
   last4Digits: string
   expirationMonth: number
@@ -395,7 +430,9 @@ export type PaymentMethodCreateManyInput = {
 
 export type PaymentMethodUpdateManyMutationInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
-  gatewayToken?: Prisma.StringFieldUpdateOperationsInput | string
+  provider?: Prisma.EnumPaymentProviderFieldUpdateOperationsInput | $Enums.PaymentProvider
+  providerCustomerId?: Prisma.StringFieldUpdateOperationsInput | string
+  providerCardId?: Prisma.StringFieldUpdateOperationsInput | string
   cardBrand?: Prisma.StringFieldUpdateOperationsInput | string
   last4Digits?: Prisma.StringFieldUpdateOperationsInput | string
   expirationMonth?: Prisma.IntFieldUpdateOperationsInput | number
@@ -408,7 +445,9 @@ export type PaymentMethodUpdateManyMutationInput = {
 export type PaymentMethodUncheckedUpdateManyInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   userId?: Prisma.StringFieldUpdateOperationsInput | string
-  gatewayToken?: Prisma.StringFieldUpdateOperationsInput | string
+  provider?: Prisma.EnumPaymentProviderFieldUpdateOperationsInput | $Enums.PaymentProvider
+  providerCustomerId?: Prisma.StringFieldUpdateOperationsInput | string
+  providerCardId?: Prisma.StringFieldUpdateOperationsInput | string
   cardBrand?: Prisma.StringFieldUpdateOperationsInput | string
   last4Digits?: Prisma.StringFieldUpdateOperationsInput | string
   expirationMonth?: Prisma.IntFieldUpdateOperationsInput | number
@@ -428,10 +467,17 @@ export type PaymentMethodOrderByRelationAggregateInput = {
   _count?: Prisma.SortOrder
 }
 
+export type PaymentMethodProviderProviderCardIdCompoundUniqueInput = {
+  provider: $Enums.PaymentProvider
+  providerCardId: string
+}
+
 export type PaymentMethodCountOrderByAggregateInput = {
   id?: Prisma.SortOrder
   userId?: Prisma.SortOrder
-  gatewayToken?: Prisma.SortOrder
+  provider?: Prisma.SortOrder
+  providerCustomerId?: Prisma.SortOrder
+  providerCardId?: Prisma.SortOrder
   cardBrand?: Prisma.SortOrder
   last4Digits?: Prisma.SortOrder
   expirationMonth?: Prisma.SortOrder
@@ -449,7 +495,9 @@ export type PaymentMethodAvgOrderByAggregateInput = {
 export type PaymentMethodMaxOrderByAggregateInput = {
   id?: Prisma.SortOrder
   userId?: Prisma.SortOrder
-  gatewayToken?: Prisma.SortOrder
+  provider?: Prisma.SortOrder
+  providerCustomerId?: Prisma.SortOrder
+  providerCardId?: Prisma.SortOrder
   cardBrand?: Prisma.SortOrder
   last4Digits?: Prisma.SortOrder
   expirationMonth?: Prisma.SortOrder
@@ -462,7 +510,9 @@ export type PaymentMethodMaxOrderByAggregateInput = {
 export type PaymentMethodMinOrderByAggregateInput = {
   id?: Prisma.SortOrder
   userId?: Prisma.SortOrder
-  gatewayToken?: Prisma.SortOrder
+  provider?: Prisma.SortOrder
+  providerCustomerId?: Prisma.SortOrder
+  providerCardId?: Prisma.SortOrder
   cardBrand?: Prisma.SortOrder
   last4Digits?: Prisma.SortOrder
   expirationMonth?: Prisma.SortOrder
@@ -521,7 +571,9 @@ export type PaymentMethodUncheckedUpdateManyWithoutUserNestedInput = {
 
 export type PaymentMethodCreateWithoutUserInput = {
   id?: string
-  gatewayToken: string
+  provider: $Enums.PaymentProvider
+  providerCustomerId: string
+  providerCardId: string
   cardBrand: string
   last4Digits: string
   expirationMonth: number
@@ -533,7 +585,9 @@ export type PaymentMethodCreateWithoutUserInput = {
 
 export type PaymentMethodUncheckedCreateWithoutUserInput = {
   id?: string
-  gatewayToken: string
+  provider: $Enums.PaymentProvider
+  providerCustomerId: string
+  providerCardId: string
   cardBrand: string
   last4Digits: string
   expirationMonth: number
@@ -575,7 +629,9 @@ export type PaymentMethodScalarWhereInput = {
   NOT?: Prisma.PaymentMethodScalarWhereInput | Prisma.PaymentMethodScalarWhereInput[]
   id?: Prisma.StringFilter<"PaymentMethod"> | string
   userId?: Prisma.StringFilter<"PaymentMethod"> | string
-  gatewayToken?: Prisma.StringFilter<"PaymentMethod"> | string
+  provider?: Prisma.EnumPaymentProviderFilter<"PaymentMethod"> | $Enums.PaymentProvider
+  providerCustomerId?: Prisma.StringFilter<"PaymentMethod"> | string
+  providerCardId?: Prisma.StringFilter<"PaymentMethod"> | string
   cardBrand?: Prisma.StringFilter<"PaymentMethod"> | string
   last4Digits?: Prisma.StringFilter<"PaymentMethod"> | string
   expirationMonth?: Prisma.IntFilter<"PaymentMethod"> | number
@@ -587,7 +643,9 @@ export type PaymentMethodScalarWhereInput = {
 
 export type PaymentMethodCreateManyUserInput = {
   id?: string
-  gatewayToken: string
+  provider: $Enums.PaymentProvider
+  providerCustomerId: string
+  providerCardId: string
   cardBrand: string
   last4Digits: string
   expirationMonth: number
@@ -599,7 +657,9 @@ export type PaymentMethodCreateManyUserInput = {
 
 export type PaymentMethodUpdateWithoutUserInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
-  gatewayToken?: Prisma.StringFieldUpdateOperationsInput | string
+  provider?: Prisma.EnumPaymentProviderFieldUpdateOperationsInput | $Enums.PaymentProvider
+  providerCustomerId?: Prisma.StringFieldUpdateOperationsInput | string
+  providerCardId?: Prisma.StringFieldUpdateOperationsInput | string
   cardBrand?: Prisma.StringFieldUpdateOperationsInput | string
   last4Digits?: Prisma.StringFieldUpdateOperationsInput | string
   expirationMonth?: Prisma.IntFieldUpdateOperationsInput | number
@@ -611,7 +671,9 @@ export type PaymentMethodUpdateWithoutUserInput = {
 
 export type PaymentMethodUncheckedUpdateWithoutUserInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
-  gatewayToken?: Prisma.StringFieldUpdateOperationsInput | string
+  provider?: Prisma.EnumPaymentProviderFieldUpdateOperationsInput | $Enums.PaymentProvider
+  providerCustomerId?: Prisma.StringFieldUpdateOperationsInput | string
+  providerCardId?: Prisma.StringFieldUpdateOperationsInput | string
   cardBrand?: Prisma.StringFieldUpdateOperationsInput | string
   last4Digits?: Prisma.StringFieldUpdateOperationsInput | string
   expirationMonth?: Prisma.IntFieldUpdateOperationsInput | number
@@ -623,7 +685,9 @@ export type PaymentMethodUncheckedUpdateWithoutUserInput = {
 
 export type PaymentMethodUncheckedUpdateManyWithoutUserInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
-  gatewayToken?: Prisma.StringFieldUpdateOperationsInput | string
+  provider?: Prisma.EnumPaymentProviderFieldUpdateOperationsInput | $Enums.PaymentProvider
+  providerCustomerId?: Prisma.StringFieldUpdateOperationsInput | string
+  providerCardId?: Prisma.StringFieldUpdateOperationsInput | string
   cardBrand?: Prisma.StringFieldUpdateOperationsInput | string
   last4Digits?: Prisma.StringFieldUpdateOperationsInput | string
   expirationMonth?: Prisma.IntFieldUpdateOperationsInput | number
@@ -638,7 +702,9 @@ export type PaymentMethodUncheckedUpdateManyWithoutUserInput = {
 export type PaymentMethodSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
   id?: boolean
   userId?: boolean
-  gatewayToken?: boolean
+  provider?: boolean
+  providerCustomerId?: boolean
+  providerCardId?: boolean
   cardBrand?: boolean
   last4Digits?: boolean
   expirationMonth?: boolean
@@ -652,7 +718,9 @@ export type PaymentMethodSelect<ExtArgs extends runtime.Types.Extensions.Interna
 export type PaymentMethodSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
   id?: boolean
   userId?: boolean
-  gatewayToken?: boolean
+  provider?: boolean
+  providerCustomerId?: boolean
+  providerCardId?: boolean
   cardBrand?: boolean
   last4Digits?: boolean
   expirationMonth?: boolean
@@ -666,7 +734,9 @@ export type PaymentMethodSelectCreateManyAndReturn<ExtArgs extends runtime.Types
 export type PaymentMethodSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
   id?: boolean
   userId?: boolean
-  gatewayToken?: boolean
+  provider?: boolean
+  providerCustomerId?: boolean
+  providerCardId?: boolean
   cardBrand?: boolean
   last4Digits?: boolean
   expirationMonth?: boolean
@@ -680,7 +750,9 @@ export type PaymentMethodSelectUpdateManyAndReturn<ExtArgs extends runtime.Types
 export type PaymentMethodSelectScalar = {
   id?: boolean
   userId?: boolean
-  gatewayToken?: boolean
+  provider?: boolean
+  providerCustomerId?: boolean
+  providerCardId?: boolean
   cardBrand?: boolean
   last4Digits?: boolean
   expirationMonth?: boolean
@@ -690,7 +762,7 @@ export type PaymentMethodSelectScalar = {
   updatedAt?: boolean
 }
 
-export type PaymentMethodOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "userId" | "gatewayToken" | "cardBrand" | "last4Digits" | "expirationMonth" | "expirationYear" | "isDefault" | "createdAt" | "updatedAt", ExtArgs["result"]["paymentMethod"]>
+export type PaymentMethodOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "userId" | "provider" | "providerCustomerId" | "providerCardId" | "cardBrand" | "last4Digits" | "expirationMonth" | "expirationYear" | "isDefault" | "createdAt" | "updatedAt", ExtArgs["result"]["paymentMethod"]>
 export type PaymentMethodInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
 }
@@ -709,7 +781,9 @@ export type $PaymentMethodPayload<ExtArgs extends runtime.Types.Extensions.Inter
   scalars: runtime.Types.Extensions.GetPayloadResult<{
     id: string
     userId: string
-    gatewayToken: string
+    provider: $Enums.PaymentProvider
+    providerCustomerId: string
+    providerCardId: string
     cardBrand: string
     last4Digits: string
     expirationMonth: number
@@ -1143,7 +1217,9 @@ export interface Prisma__PaymentMethodClient<T, Null = never, ExtArgs extends ru
 export interface PaymentMethodFieldRefs {
   readonly id: Prisma.FieldRef<"PaymentMethod", 'String'>
   readonly userId: Prisma.FieldRef<"PaymentMethod", 'String'>
-  readonly gatewayToken: Prisma.FieldRef<"PaymentMethod", 'String'>
+  readonly provider: Prisma.FieldRef<"PaymentMethod", 'PaymentProvider'>
+  readonly providerCustomerId: Prisma.FieldRef<"PaymentMethod", 'String'>
+  readonly providerCardId: Prisma.FieldRef<"PaymentMethod", 'String'>
   readonly cardBrand: Prisma.FieldRef<"PaymentMethod", 'String'>
   readonly last4Digits: Prisma.FieldRef<"PaymentMethod", 'String'>
   readonly expirationMonth: Prisma.FieldRef<"PaymentMethod", 'Int'>
@@ -0,0 +1,1606 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `PaymentStatusChange` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums.js"
+import type * as Prisma from "../internal/prismaNamespace.js"
+
+/**
+ * Model PaymentStatusChange
+ * 
+ */
+export type PaymentStatusChangeModel = runtime.Types.Result.DefaultSelection<Prisma.$PaymentStatusChangePayload>
+
+export type AggregatePaymentStatusChange = {
+  _count: PaymentStatusChangeCountAggregateOutputType | null
+  _min: PaymentStatusChangeMinAggregateOutputType | null
+  _max: PaymentStatusChangeMaxAggregateOutputType | null
+}
+
+export type PaymentStatusChangeMinAggregateOutputType = {
+  id: string | null
+  transactionId: string | null
+  previousStatus: $Enums.PaymentStatus | null
+  newStatus: $Enums.PaymentStatus | null
+  source: $Enums.PaymentStatusSource | null
+  changedById: string | null
+  note: string | null
+  createdAt: Date | null
+}
+
+export type PaymentStatusChangeMaxAggregateOutputType = {
+  id: string | null
+  transactionId: string | null
+  previousStatus: $Enums.PaymentStatus | null
+  newStatus: $Enums.PaymentStatus | null
+  source: $Enums.PaymentStatusSource | null
+  changedById: string | null
+  note: string | null
+  createdAt: Date | null
+}
+
+export type PaymentStatusChangeCountAggregateOutputType = {
+  id: number
+  transactionId: number
+  previousStatus: number
+  newStatus: number
+  source: number
+  changedById: number
+  note: number
+  createdAt: number
+  _all: number
+}
+
+
+export type PaymentStatusChangeMinAggregateInputType = {
+  id?: true
+  transactionId?: true
+  previousStatus?: true
+  newStatus?: true
+  source?: true
+  changedById?: true
+  note?: true
+  createdAt?: true
+}
+
+export type PaymentStatusChangeMaxAggregateInputType = {
+  id?: true
+  transactionId?: true
+  previousStatus?: true
+  newStatus?: true
+  source?: true
+  changedById?: true
+  note?: true
+  createdAt?: true
+}
+
+export type PaymentStatusChangeCountAggregateInputType = {
+  id?: true
+  transactionId?: true
+  previousStatus?: true
+  newStatus?: true
+  source?: true
+  changedById?: true
+  note?: true
+  createdAt?: true
+  _all?: true
+}
+
+export type PaymentStatusChangeAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which PaymentStatusChange to aggregate.
+   */
+  where?: Prisma.PaymentStatusChangeWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of PaymentStatusChanges to fetch.
+   */
+  orderBy?: Prisma.PaymentStatusChangeOrderByWithRelationInput | Prisma.PaymentStatusChangeOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.PaymentStatusChangeWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` PaymentStatusChanges from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` PaymentStatusChanges.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned PaymentStatusChanges
+  **/
+  _count?: true | PaymentStatusChangeCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: PaymentStatusChangeMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: PaymentStatusChangeMaxAggregateInputType
+}
+
+export type GetPaymentStatusChangeAggregateType<T extends PaymentStatusChangeAggregateArgs> = {
+      [P in keyof T & keyof AggregatePaymentStatusChange]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregatePaymentStatusChange[P]>
+    : Prisma.GetScalarType<T[P], AggregatePaymentStatusChange[P]>
+}
+
+
+
+
+export type PaymentStatusChangeGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.PaymentStatusChangeWhereInput
+  orderBy?: Prisma.PaymentStatusChangeOrderByWithAggregationInput | Prisma.PaymentStatusChangeOrderByWithAggregationInput[]
+  by: Prisma.PaymentStatusChangeScalarFieldEnum[] | Prisma.PaymentStatusChangeScalarFieldEnum
+  having?: Prisma.PaymentStatusChangeScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: PaymentStatusChangeCountAggregateInputType | true
+  _min?: PaymentStatusChangeMinAggregateInputType
+  _max?: PaymentStatusChangeMaxAggregateInputType
+}
+
+export type PaymentStatusChangeGroupByOutputType = {
+  id: string
+  transactionId: string
+  previousStatus: $Enums.PaymentStatus
+  newStatus: $Enums.PaymentStatus
+  source: $Enums.PaymentStatusSource
+  changedById: string | null
+  note: string | null
+  createdAt: Date
+  _count: PaymentStatusChangeCountAggregateOutputType | null
+  _min: PaymentStatusChangeMinAggregateOutputType | null
+  _max: PaymentStatusChangeMaxAggregateOutputType | null
+}
+
+type GetPaymentStatusChangeGroupByPayload<T extends PaymentStatusChangeGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<PaymentStatusChangeGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof PaymentStatusChangeGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], PaymentStatusChangeGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], PaymentStatusChangeGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type PaymentStatusChangeWhereInput = {
+  AND?: Prisma.PaymentStatusChangeWhereInput | Prisma.PaymentStatusChangeWhereInput[]
+  OR?: Prisma.PaymentStatusChangeWhereInput[]
+  NOT?: Prisma.PaymentStatusChangeWhereInput | Prisma.PaymentStatusChangeWhereInput[]
+  id?: Prisma.StringFilter<"PaymentStatusChange"> | string
+  transactionId?: Prisma.StringFilter<"PaymentStatusChange"> | string
+  previousStatus?: Prisma.EnumPaymentStatusFilter<"PaymentStatusChange"> | $Enums.PaymentStatus
+  newStatus?: Prisma.EnumPaymentStatusFilter<"PaymentStatusChange"> | $Enums.PaymentStatus
+  source?: Prisma.EnumPaymentStatusSourceFilter<"PaymentStatusChange"> | $Enums.PaymentStatusSource
+  changedById?: Prisma.StringNullableFilter<"PaymentStatusChange"> | string | null
+  note?: Prisma.StringNullableFilter<"PaymentStatusChange"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"PaymentStatusChange"> | Date | string
+  transaction?: Prisma.XOR<Prisma.PaymentTransactionScalarRelationFilter, Prisma.PaymentTransactionWhereInput>
+  changedBy?: Prisma.XOR<Prisma.UserNullableScalarRelationFilter, Prisma.UserWhereInput> | null
+}
+
+export type PaymentStatusChangeOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  transactionId?: Prisma.SortOrder
+  previousStatus?: Prisma.SortOrder
+  newStatus?: Prisma.SortOrder
+  source?: Prisma.SortOrder
+  changedById?: Prisma.SortOrderInput | Prisma.SortOrder
+  note?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  transaction?: Prisma.PaymentTransactionOrderByWithRelationInput
+  changedBy?: Prisma.UserOrderByWithRelationInput
+}
+
+export type PaymentStatusChangeWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  AND?: Prisma.PaymentStatusChangeWhereInput | Prisma.PaymentStatusChangeWhereInput[]
+  OR?: Prisma.PaymentStatusChangeWhereInput[]
+  NOT?: Prisma.PaymentStatusChangeWhereInput | Prisma.PaymentStatusChangeWhereInput[]
+  transactionId?: Prisma.StringFilter<"PaymentStatusChange"> | string
+  previousStatus?: Prisma.EnumPaymentStatusFilter<"PaymentStatusChange"> | $Enums.PaymentStatus
+  newStatus?: Prisma.EnumPaymentStatusFilter<"PaymentStatusChange"> | $Enums.PaymentStatus
+  source?: Prisma.EnumPaymentStatusSourceFilter<"PaymentStatusChange"> | $Enums.PaymentStatusSource
+  changedById?: Prisma.StringNullableFilter<"PaymentStatusChange"> | string | null
+  note?: Prisma.StringNullableFilter<"PaymentStatusChange"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"PaymentStatusChange"> | Date | string
+  transaction?: Prisma.XOR<Prisma.PaymentTransactionScalarRelationFilter, Prisma.PaymentTransactionWhereInput>
+  changedBy?: Prisma.XOR<Prisma.UserNullableScalarRelationFilter, Prisma.UserWhereInput> | null
+}, "id">
+
+export type PaymentStatusChangeOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  transactionId?: Prisma.SortOrder
+  previousStatus?: Prisma.SortOrder
+  newStatus?: Prisma.SortOrder
+  source?: Prisma.SortOrder
+  changedById?: Prisma.SortOrderInput | Prisma.SortOrder
+  note?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  _count?: Prisma.PaymentStatusChangeCountOrderByAggregateInput
+  _max?: Prisma.PaymentStatusChangeMaxOrderByAggregateInput
+  _min?: Prisma.PaymentStatusChangeMinOrderByAggregateInput
+}
+
+export type PaymentStatusChangeScalarWhereWithAggregatesInput = {
+  AND?: Prisma.PaymentStatusChangeScalarWhereWithAggregatesInput | Prisma.PaymentStatusChangeScalarWhereWithAggregatesInput[]
+  OR?: Prisma.PaymentStatusChangeScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.PaymentStatusChangeScalarWhereWithAggregatesInput | Prisma.PaymentStatusChangeScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"PaymentStatusChange"> | string
+  transactionId?: Prisma.StringWithAggregatesFilter<"PaymentStatusChange"> | string
+  previousStatus?: Prisma.EnumPaymentStatusWithAggregatesFilter<"PaymentStatusChange"> | $Enums.PaymentStatus
+  newStatus?: Prisma.EnumPaymentStatusWithAggregatesFilter<"PaymentStatusChange"> | $Enums.PaymentStatus
+  source?: Prisma.EnumPaymentStatusSourceWithAggregatesFilter<"PaymentStatusChange"> | $Enums.PaymentStatusSource
+  changedById?: Prisma.StringNullableWithAggregatesFilter<"PaymentStatusChange"> | string | null
+  note?: Prisma.StringNullableWithAggregatesFilter<"PaymentStatusChange"> | string | null
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"PaymentStatusChange"> | Date | string
+}
+
+export type PaymentStatusChangeCreateInput = {
+  id?: string
+  previousStatus: $Enums.PaymentStatus
+  newStatus: $Enums.PaymentStatus
+  source: $Enums.PaymentStatusSource
+  note?: string | null
+  createdAt?: Date | string
+  transaction: Prisma.PaymentTransactionCreateNestedOneWithoutStatusChangesInput
+  changedBy?: Prisma.UserCreateNestedOneWithoutPaymentStatusChangesInput
+}
+
+export type PaymentStatusChangeUncheckedCreateInput = {
+  id?: string
+  transactionId: string
+  previousStatus: $Enums.PaymentStatus
+  newStatus: $Enums.PaymentStatus
+  source: $Enums.PaymentStatusSource
+  changedById?: string | null
+  note?: string | null
+  createdAt?: Date | string
+}
+
+export type PaymentStatusChangeUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  previousStatus?: Prisma.EnumPaymentStatusFieldUpdateOperationsInput | $Enums.PaymentStatus
+  newStatus?: Prisma.EnumPaymentStatusFieldUpdateOperationsInput | $Enums.PaymentStatus
+  source?: Prisma.EnumPaymentStatusSourceFieldUpdateOperationsInput | $Enums.PaymentStatusSource
+  note?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  transaction?: Prisma.PaymentTransactionUpdateOneRequiredWithoutStatusChangesNestedInput
+  changedBy?: Prisma.UserUpdateOneWithoutPaymentStatusChangesNestedInput
+}
+
+export type PaymentStatusChangeUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  transactionId?: Prisma.StringFieldUpdateOperationsInput | string
+  previousStatus?: Prisma.EnumPaymentStatusFieldUpdateOperationsInput | $Enums.PaymentStatus
+  newStatus?: Prisma.EnumPaymentStatusFieldUpdateOperationsInput | $Enums.PaymentStatus
+  source?: Prisma.EnumPaymentStatusSourceFieldUpdateOperationsInput | $Enums.PaymentStatusSource
+  changedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  note?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type PaymentStatusChangeCreateManyInput = {
+  id?: string
+  transactionId: string
+  previousStatus: $Enums.PaymentStatus
+  newStatus: $Enums.PaymentStatus
+  source: $Enums.PaymentStatusSource
+  changedById?: string | null
+  note?: string | null
+  createdAt?: Date | string
+}
+
+export type PaymentStatusChangeUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  previousStatus?: Prisma.EnumPaymentStatusFieldUpdateOperationsInput | $Enums.PaymentStatus
+  newStatus?: Prisma.EnumPaymentStatusFieldUpdateOperationsInput | $Enums.PaymentStatus
+  source?: Prisma.EnumPaymentStatusSourceFieldUpdateOperationsInput | $Enums.PaymentStatusSource
+  note?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type PaymentStatusChangeUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  transactionId?: Prisma.StringFieldUpdateOperationsInput | string
+  previousStatus?: Prisma.EnumPaymentStatusFieldUpdateOperationsInput | $Enums.PaymentStatus
+  newStatus?: Prisma.EnumPaymentStatusFieldUpdateOperationsInput | $Enums.PaymentStatus
+  source?: Prisma.EnumPaymentStatusSourceFieldUpdateOperationsInput | $Enums.PaymentStatusSource
+  changedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  note?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type PaymentStatusChangeListRelationFilter = {
+  every?: Prisma.PaymentStatusChangeWhereInput
+  some?: Prisma.PaymentStatusChangeWhereInput
+  none?: Prisma.PaymentStatusChangeWhereInput
+}
+
+export type PaymentStatusChangeOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type PaymentStatusChangeCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  transactionId?: Prisma.SortOrder
+  previousStatus?: Prisma.SortOrder
+  newStatus?: Prisma.SortOrder
+  source?: Prisma.SortOrder
+  changedById?: Prisma.SortOrder
+  note?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type PaymentStatusChangeMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  transactionId?: Prisma.SortOrder
+  previousStatus?: Prisma.SortOrder
+  newStatus?: Prisma.SortOrder
+  source?: Prisma.SortOrder
+  changedById?: Prisma.SortOrder
+  note?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type PaymentStatusChangeMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  transactionId?: Prisma.SortOrder
+  previousStatus?: Prisma.SortOrder
+  newStatus?: Prisma.SortOrder
+  source?: Prisma.SortOrder
+  changedById?: Prisma.SortOrder
+  note?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type PaymentStatusChangeCreateNestedManyWithoutChangedByInput = {
+  create?: Prisma.XOR<Prisma.PaymentStatusChangeCreateWithoutChangedByInput, Prisma.PaymentStatusChangeUncheckedCreateWithoutChangedByInput> | Prisma.PaymentStatusChangeCreateWithoutChangedByInput[] | Prisma.PaymentStatusChangeUncheckedCreateWithoutChangedByInput[]
+  connectOrCreate?: Prisma.PaymentStatusChangeCreateOrConnectWithoutChangedByInput | Prisma.PaymentStatusChangeCreateOrConnectWithoutChangedByInput[]
+  createMany?: Prisma.PaymentStatusChangeCreateManyChangedByInputEnvelope
+  connect?: Prisma.PaymentStatusChangeWhereUniqueInput | Prisma.PaymentStatusChangeWhereUniqueInput[]
+}
+
+export type PaymentStatusChangeUncheckedCreateNestedManyWithoutChangedByInput = {
+  create?: Prisma.XOR<Prisma.PaymentStatusChangeCreateWithoutChangedByInput, Prisma.PaymentStatusChangeUncheckedCreateWithoutChangedByInput> | Prisma.PaymentStatusChangeCreateWithoutChangedByInput[] | Prisma.PaymentStatusChangeUncheckedCreateWithoutChangedByInput[]
+  connectOrCreate?: Prisma.PaymentStatusChangeCreateOrConnectWithoutChangedByInput | Prisma.PaymentStatusChangeCreateOrConnectWithoutChangedByInput[]
+  createMany?: Prisma.PaymentStatusChangeCreateManyChangedByInputEnvelope
+  connect?: Prisma.PaymentStatusChangeWhereUniqueInput | Prisma.PaymentStatusChangeWhereUniqueInput[]
+}
+
+export type PaymentStatusChangeUpdateManyWithoutChangedByNestedInput = {
+  create?: Prisma.XOR<Prisma.PaymentStatusChangeCreateWithoutChangedByInput, Prisma.PaymentStatusChangeUncheckedCreateWithoutChangedByInput> | Prisma.PaymentStatusChangeCreateWithoutChangedByInput[] | Prisma.PaymentStatusChangeUncheckedCreateWithoutChangedByInput[]
+  connectOrCreate?: Prisma.PaymentStatusChangeCreateOrConnectWithoutChangedByInput | Prisma.PaymentStatusChangeCreateOrConnectWithoutChangedByInput[]
+  upsert?: Prisma.PaymentStatusChangeUpsertWithWhereUniqueWithoutChangedByInput | Prisma.PaymentStatusChangeUpsertWithWhereUniqueWithoutChangedByInput[]
+  createMany?: Prisma.PaymentStatusChangeCreateManyChangedByInputEnvelope
+  set?: Prisma.PaymentStatusChangeWhereUniqueInput | Prisma.PaymentStatusChangeWhereUniqueInput[]
+  disconnect?: Prisma.PaymentStatusChangeWhereUniqueInput | Prisma.PaymentStatusChangeWhereUniqueInput[]
+  delete?: Prisma.PaymentStatusChangeWhereUniqueInput | Prisma.PaymentStatusChangeWhereUniqueInput[]
+  connect?: Prisma.PaymentStatusChangeWhereUniqueInput | Prisma.PaymentStatusChangeWhereUniqueInput[]
+  update?: Prisma.PaymentStatusChangeUpdateWithWhereUniqueWithoutChangedByInput | Prisma.PaymentStatusChangeUpdateWithWhereUniqueWithoutChangedByInput[]
+  updateMany?: Prisma.PaymentStatusChangeUpdateManyWithWhereWithoutChangedByInput | Prisma.PaymentStatusChangeUpdateManyWithWhereWithoutChangedByInput[]
+  deleteMany?: Prisma.PaymentStatusChangeScalarWhereInput | Prisma.PaymentStatusChangeScalarWhereInput[]
+}
+
+export type PaymentStatusChangeUncheckedUpdateManyWithoutChangedByNestedInput = {
+  create?: Prisma.XOR<Prisma.PaymentStatusChangeCreateWithoutChangedByInput, Prisma.PaymentStatusChangeUncheckedCreateWithoutChangedByInput> | Prisma.PaymentStatusChangeCreateWithoutChangedByInput[] | Prisma.PaymentStatusChangeUncheckedCreateWithoutChangedByInput[]
+  connectOrCreate?: Prisma.PaymentStatusChangeCreateOrConnectWithoutChangedByInput | Prisma.PaymentStatusChangeCreateOrConnectWithoutChangedByInput[]
+  upsert?: Prisma.PaymentStatusChangeUpsertWithWhereUniqueWithoutChangedByInput | Prisma.PaymentStatusChangeUpsertWithWhereUniqueWithoutChangedByInput[]
+  createMany?: Prisma.PaymentStatusChangeCreateManyChangedByInputEnvelope
+  set?: Prisma.PaymentStatusChangeWhereUniqueInput | Prisma.PaymentStatusChangeWhereUniqueInput[]
+  disconnect?: Prisma.PaymentStatusChangeWhereUniqueInput | Prisma.PaymentStatusChangeWhereUniqueInput[]
+  delete?: Prisma.PaymentStatusChangeWhereUniqueInput | Prisma.PaymentStatusChangeWhereUniqueInput[]
+  connect?: Prisma.PaymentStatusChangeWhereUniqueInput | Prisma.PaymentStatusChangeWhereUniqueInput[]
+  update?: Prisma.PaymentStatusChangeUpdateWithWhereUniqueWithoutChangedByInput | Prisma.PaymentStatusChangeUpdateWithWhereUniqueWithoutChangedByInput[]
+  updateMany?: Prisma.PaymentStatusChangeUpdateManyWithWhereWithoutChangedByInput | Prisma.PaymentStatusChangeUpdateManyWithWhereWithoutChangedByInput[]
+  deleteMany?: Prisma.PaymentStatusChangeScalarWhereInput | Prisma.PaymentStatusChangeScalarWhereInput[]
+}
+
+export type PaymentStatusChangeCreateNestedManyWithoutTransactionInput = {
+  create?: Prisma.XOR<Prisma.PaymentStatusChangeCreateWithoutTransactionInput, Prisma.PaymentStatusChangeUncheckedCreateWithoutTransactionInput> | Prisma.PaymentStatusChangeCreateWithoutTransactionInput[] | Prisma.PaymentStatusChangeUncheckedCreateWithoutTransactionInput[]
+  connectOrCreate?: Prisma.PaymentStatusChangeCreateOrConnectWithoutTransactionInput | Prisma.PaymentStatusChangeCreateOrConnectWithoutTransactionInput[]
+  createMany?: Prisma.PaymentStatusChangeCreateManyTransactionInputEnvelope
+  connect?: Prisma.PaymentStatusChangeWhereUniqueInput | Prisma.PaymentStatusChangeWhereUniqueInput[]
+}
+
+export type PaymentStatusChangeUncheckedCreateNestedManyWithoutTransactionInput = {
+  create?: Prisma.XOR<Prisma.PaymentStatusChangeCreateWithoutTransactionInput, Prisma.PaymentStatusChangeUncheckedCreateWithoutTransactionInput> | Prisma.PaymentStatusChangeCreateWithoutTransactionInput[] | Prisma.PaymentStatusChangeUncheckedCreateWithoutTransactionInput[]
+  connectOrCreate?: Prisma.PaymentStatusChangeCreateOrConnectWithoutTransactionInput | Prisma.PaymentStatusChangeCreateOrConnectWithoutTransactionInput[]
+  createMany?: Prisma.PaymentStatusChangeCreateManyTransactionInputEnvelope
+  connect?: Prisma.PaymentStatusChangeWhereUniqueInput | Prisma.PaymentStatusChangeWhereUniqueInput[]
+}
+
+export type PaymentStatusChangeUpdateManyWithoutTransactionNestedInput = {
+  create?: Prisma.XOR<Prisma.PaymentStatusChangeCreateWithoutTransactionInput, Prisma.PaymentStatusChangeUncheckedCreateWithoutTransactionInput> | Prisma.PaymentStatusChangeCreateWithoutTransactionInput[] | Prisma.PaymentStatusChangeUncheckedCreateWithoutTransactionInput[]
+  connectOrCreate?: Prisma.PaymentStatusChangeCreateOrConnectWithoutTransactionInput | Prisma.PaymentStatusChangeCreateOrConnectWithoutTransactionInput[]
+  upsert?: Prisma.PaymentStatusChangeUpsertWithWhereUniqueWithoutTransactionInput | Prisma.PaymentStatusChangeUpsertWithWhereUniqueWithoutTransactionInput[]
+  createMany?: Prisma.PaymentStatusChangeCreateManyTransactionInputEnvelope
+  set?: Prisma.PaymentStatusChangeWhereUniqueInput | Prisma.PaymentStatusChangeWhereUniqueInput[]
+  disconnect?: Prisma.PaymentStatusChangeWhereUniqueInput | Prisma.PaymentStatusChangeWhereUniqueInput[]
+  delete?: Prisma.PaymentStatusChangeWhereUniqueInput | Prisma.PaymentStatusChangeWhereUniqueInput[]
+  connect?: Prisma.PaymentStatusChangeWhereUniqueInput | Prisma.PaymentStatusChangeWhereUniqueInput[]
+  update?: Prisma.PaymentStatusChangeUpdateWithWhereUniqueWithoutTransactionInput | Prisma.PaymentStatusChangeUpdateWithWhereUniqueWithoutTransactionInput[]
+  updateMany?: Prisma.PaymentStatusChangeUpdateManyWithWhereWithoutTransactionInput | Prisma.PaymentStatusChangeUpdateManyWithWhereWithoutTransactionInput[]
+  deleteMany?: Prisma.PaymentStatusChangeScalarWhereInput | Prisma.PaymentStatusChangeScalarWhereInput[]
+}
+
+export type PaymentStatusChangeUncheckedUpdateManyWithoutTransactionNestedInput = {
+  create?: Prisma.XOR<Prisma.PaymentStatusChangeCreateWithoutTransactionInput, Prisma.PaymentStatusChangeUncheckedCreateWithoutTransactionInput> | Prisma.PaymentStatusChangeCreateWithoutTransactionInput[] | Prisma.PaymentStatusChangeUncheckedCreateWithoutTransactionInput[]
+  connectOrCreate?: Prisma.PaymentStatusChangeCreateOrConnectWithoutTransactionInput | Prisma.PaymentStatusChangeCreateOrConnectWithoutTransactionInput[]
+  upsert?: Prisma.PaymentStatusChangeUpsertWithWhereUniqueWithoutTransactionInput | Prisma.PaymentStatusChangeUpsertWithWhereUniqueWithoutTransactionInput[]
+  createMany?: Prisma.PaymentStatusChangeCreateManyTransactionInputEnvelope
+  set?: Prisma.PaymentStatusChangeWhereUniqueInput | Prisma.PaymentStatusChangeWhereUniqueInput[]
+  disconnect?: Prisma.PaymentStatusChangeWhereUniqueInput | Prisma.PaymentStatusChangeWhereUniqueInput[]
+  delete?: Prisma.PaymentStatusChangeWhereUniqueInput | Prisma.PaymentStatusChangeWhereUniqueInput[]
+  connect?: Prisma.PaymentStatusChangeWhereUniqueInput | Prisma.PaymentStatusChangeWhereUniqueInput[]
+  update?: Prisma.PaymentStatusChangeUpdateWithWhereUniqueWithoutTransactionInput | Prisma.PaymentStatusChangeUpdateWithWhereUniqueWithoutTransactionInput[]
+  updateMany?: Prisma.PaymentStatusChangeUpdateManyWithWhereWithoutTransactionInput | Prisma.PaymentStatusChangeUpdateManyWithWhereWithoutTransactionInput[]
+  deleteMany?: Prisma.PaymentStatusChangeScalarWhereInput | Prisma.PaymentStatusChangeScalarWhereInput[]
+}
+
+export type EnumPaymentStatusSourceFieldUpdateOperationsInput = {
+  set?: $Enums.PaymentStatusSource
+}
+
+export type PaymentStatusChangeCreateWithoutChangedByInput = {
+  id?: string
+  previousStatus: $Enums.PaymentStatus
+  newStatus: $Enums.PaymentStatus
+  source: $Enums.PaymentStatusSource
+  note?: string | null
+  createdAt?: Date | string
+  transaction: Prisma.PaymentTransactionCreateNestedOneWithoutStatusChangesInput
+}
+
+export type PaymentStatusChangeUncheckedCreateWithoutChangedByInput = {
+  id?: string
+  transactionId: string
+  previousStatus: $Enums.PaymentStatus
+  newStatus: $Enums.PaymentStatus
+  source: $Enums.PaymentStatusSource
+  note?: string | null
+  createdAt?: Date | string
+}
+
+export type PaymentStatusChangeCreateOrConnectWithoutChangedByInput = {
+  where: Prisma.PaymentStatusChangeWhereUniqueInput
+  create: Prisma.XOR<Prisma.PaymentStatusChangeCreateWithoutChangedByInput, Prisma.PaymentStatusChangeUncheckedCreateWithoutChangedByInput>
+}
+
+export type PaymentStatusChangeCreateManyChangedByInputEnvelope = {
+  data: Prisma.PaymentStatusChangeCreateManyChangedByInput | Prisma.PaymentStatusChangeCreateManyChangedByInput[]
+  skipDuplicates?: boolean
+}
+
+export type PaymentStatusChangeUpsertWithWhereUniqueWithoutChangedByInput = {
+  where: Prisma.PaymentStatusChangeWhereUniqueInput
+  update: Prisma.XOR<Prisma.PaymentStatusChangeUpdateWithoutChangedByInput, Prisma.PaymentStatusChangeUncheckedUpdateWithoutChangedByInput>
+  create: Prisma.XOR<Prisma.PaymentStatusChangeCreateWithoutChangedByInput, Prisma.PaymentStatusChangeUncheckedCreateWithoutChangedByInput>
+}
+
+export type PaymentStatusChangeUpdateWithWhereUniqueWithoutChangedByInput = {
+  where: Prisma.PaymentStatusChangeWhereUniqueInput
+  data: Prisma.XOR<Prisma.PaymentStatusChangeUpdateWithoutChangedByInput, Prisma.PaymentStatusChangeUncheckedUpdateWithoutChangedByInput>
+}
+
+export type PaymentStatusChangeUpdateManyWithWhereWithoutChangedByInput = {
+  where: Prisma.PaymentStatusChangeScalarWhereInput
+  data: Prisma.XOR<Prisma.PaymentStatusChangeUpdateManyMutationInput, Prisma.PaymentStatusChangeUncheckedUpdateManyWithoutChangedByInput>
+}
+
+export type PaymentStatusChangeScalarWhereInput = {
+  AND?: Prisma.PaymentStatusChangeScalarWhereInput | Prisma.PaymentStatusChangeScalarWhereInput[]
+  OR?: Prisma.PaymentStatusChangeScalarWhereInput[]
+  NOT?: Prisma.PaymentStatusChangeScalarWhereInput | Prisma.PaymentStatusChangeScalarWhereInput[]
+  id?: Prisma.StringFilter<"PaymentStatusChange"> | string
+  transactionId?: Prisma.StringFilter<"PaymentStatusChange"> | string
+  previousStatus?: Prisma.EnumPaymentStatusFilter<"PaymentStatusChange"> | $Enums.PaymentStatus
+  newStatus?: Prisma.EnumPaymentStatusFilter<"PaymentStatusChange"> | $Enums.PaymentStatus
+  source?: Prisma.EnumPaymentStatusSourceFilter<"PaymentStatusChange"> | $Enums.PaymentStatusSource
+  changedById?: Prisma.StringNullableFilter<"PaymentStatusChange"> | string | null
+  note?: Prisma.StringNullableFilter<"PaymentStatusChange"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"PaymentStatusChange"> | Date | string
+}
+
+export type PaymentStatusChangeCreateWithoutTransactionInput = {
+  id?: string
+  previousStatus: $Enums.PaymentStatus
+  newStatus: $Enums.PaymentStatus
+  source: $Enums.PaymentStatusSource
+  note?: string | null
+  createdAt?: Date | string
+  changedBy?: Prisma.UserCreateNestedOneWithoutPaymentStatusChangesInput
+}
+
+export type PaymentStatusChangeUncheckedCreateWithoutTransactionInput = {
+  id?: string
+  previousStatus: $Enums.PaymentStatus
+  newStatus: $Enums.PaymentStatus
+  source: $Enums.PaymentStatusSource
+  changedById?: string | null
+  note?: string | null
+  createdAt?: Date | string
+}
+
+export type PaymentStatusChangeCreateOrConnectWithoutTransactionInput = {
+  where: Prisma.PaymentStatusChangeWhereUniqueInput
+  create: Prisma.XOR<Prisma.PaymentStatusChangeCreateWithoutTransactionInput, Prisma.PaymentStatusChangeUncheckedCreateWithoutTransactionInput>
+}
+
+export type PaymentStatusChangeCreateManyTransactionInputEnvelope = {
+  data: Prisma.PaymentStatusChangeCreateManyTransactionInput | Prisma.PaymentStatusChangeCreateManyTransactionInput[]
+  skipDuplicates?: boolean
+}
+
+export type PaymentStatusChangeUpsertWithWhereUniqueWithoutTransactionInput = {
+  where: Prisma.PaymentStatusChangeWhereUniqueInput
+  update: Prisma.XOR<Prisma.PaymentStatusChangeUpdateWithoutTransactionInput, Prisma.PaymentStatusChangeUncheckedUpdateWithoutTransactionInput>
+  create: Prisma.XOR<Prisma.PaymentStatusChangeCreateWithoutTransactionInput, Prisma.PaymentStatusChangeUncheckedCreateWithoutTransactionInput>
+}
+
+export type PaymentStatusChangeUpdateWithWhereUniqueWithoutTransactionInput = {
+  where: Prisma.PaymentStatusChangeWhereUniqueInput
+  data: Prisma.XOR<Prisma.PaymentStatusChangeUpdateWithoutTransactionInput, Prisma.PaymentStatusChangeUncheckedUpdateWithoutTransactionInput>
+}
+
+export type PaymentStatusChangeUpdateManyWithWhereWithoutTransactionInput = {
+  where: Prisma.PaymentStatusChangeScalarWhereInput
+  data: Prisma.XOR<Prisma.PaymentStatusChangeUpdateManyMutationInput, Prisma.PaymentStatusChangeUncheckedUpdateManyWithoutTransactionInput>
+}
+
+export type PaymentStatusChangeCreateManyChangedByInput = {
+  id?: string
+  transactionId: string
+  previousStatus: $Enums.PaymentStatus
+  newStatus: $Enums.PaymentStatus
+  source: $Enums.PaymentStatusSource
+  note?: string | null
+  createdAt?: Date | string
+}
+
+export type PaymentStatusChangeUpdateWithoutChangedByInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  previousStatus?: Prisma.EnumPaymentStatusFieldUpdateOperationsInput | $Enums.PaymentStatus
+  newStatus?: Prisma.EnumPaymentStatusFieldUpdateOperationsInput | $Enums.PaymentStatus
+  source?: Prisma.EnumPaymentStatusSourceFieldUpdateOperationsInput | $Enums.PaymentStatusSource
+  note?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  transaction?: Prisma.PaymentTransactionUpdateOneRequiredWithoutStatusChangesNestedInput
+}
+
+export type PaymentStatusChangeUncheckedUpdateWithoutChangedByInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  transactionId?: Prisma.StringFieldUpdateOperationsInput | string
+  previousStatus?: Prisma.EnumPaymentStatusFieldUpdateOperationsInput | $Enums.PaymentStatus
+  newStatus?: Prisma.EnumPaymentStatusFieldUpdateOperationsInput | $Enums.PaymentStatus
+  source?: Prisma.EnumPaymentStatusSourceFieldUpdateOperationsInput | $Enums.PaymentStatusSource
+  note?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type PaymentStatusChangeUncheckedUpdateManyWithoutChangedByInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  transactionId?: Prisma.StringFieldUpdateOperationsInput | string
+  previousStatus?: Prisma.EnumPaymentStatusFieldUpdateOperationsInput | $Enums.PaymentStatus
+  newStatus?: Prisma.EnumPaymentStatusFieldUpdateOperationsInput | $Enums.PaymentStatus
+  source?: Prisma.EnumPaymentStatusSourceFieldUpdateOperationsInput | $Enums.PaymentStatusSource
+  note?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type PaymentStatusChangeCreateManyTransactionInput = {
+  id?: string
+  previousStatus: $Enums.PaymentStatus
+  newStatus: $Enums.PaymentStatus
+  source: $Enums.PaymentStatusSource
+  changedById?: string | null
+  note?: string | null
+  createdAt?: Date | string
+}
+
+export type PaymentStatusChangeUpdateWithoutTransactionInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  previousStatus?: Prisma.EnumPaymentStatusFieldUpdateOperationsInput | $Enums.PaymentStatus
+  newStatus?: Prisma.EnumPaymentStatusFieldUpdateOperationsInput | $Enums.PaymentStatus
+  source?: Prisma.EnumPaymentStatusSourceFieldUpdateOperationsInput | $Enums.PaymentStatusSource
+  note?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  changedBy?: Prisma.UserUpdateOneWithoutPaymentStatusChangesNestedInput
+}
+
+export type PaymentStatusChangeUncheckedUpdateWithoutTransactionInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  previousStatus?: Prisma.EnumPaymentStatusFieldUpdateOperationsInput | $Enums.PaymentStatus
+  newStatus?: Prisma.EnumPaymentStatusFieldUpdateOperationsInput | $Enums.PaymentStatus
+  source?: Prisma.EnumPaymentStatusSourceFieldUpdateOperationsInput | $Enums.PaymentStatusSource
+  changedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  note?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type PaymentStatusChangeUncheckedUpdateManyWithoutTransactionInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  previousStatus?: Prisma.EnumPaymentStatusFieldUpdateOperationsInput | $Enums.PaymentStatus
+  newStatus?: Prisma.EnumPaymentStatusFieldUpdateOperationsInput | $Enums.PaymentStatus
+  source?: Prisma.EnumPaymentStatusSourceFieldUpdateOperationsInput | $Enums.PaymentStatusSource
+  changedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  note?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type PaymentStatusChangeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  transactionId?: boolean
+  previousStatus?: boolean
+  newStatus?: boolean
+  source?: boolean
+  changedById?: boolean
+  note?: boolean
+  createdAt?: boolean
+  transaction?: boolean | Prisma.PaymentTransactionDefaultArgs<ExtArgs>
+  changedBy?: boolean | Prisma.PaymentStatusChange$changedByArgs<ExtArgs>
+}, ExtArgs["result"]["paymentStatusChange"]>
+
+export type PaymentStatusChangeSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  transactionId?: boolean
+  previousStatus?: boolean
+  newStatus?: boolean
+  source?: boolean
+  changedById?: boolean
+  note?: boolean
+  createdAt?: boolean
+  transaction?: boolean | Prisma.PaymentTransactionDefaultArgs<ExtArgs>
+  changedBy?: boolean | Prisma.PaymentStatusChange$changedByArgs<ExtArgs>
+}, ExtArgs["result"]["paymentStatusChange"]>
+
+export type PaymentStatusChangeSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  transactionId?: boolean
+  previousStatus?: boolean
+  newStatus?: boolean
+  source?: boolean
+  changedById?: boolean
+  note?: boolean
+  createdAt?: boolean
+  transaction?: boolean | Prisma.PaymentTransactionDefaultArgs<ExtArgs>
+  changedBy?: boolean | Prisma.PaymentStatusChange$changedByArgs<ExtArgs>
+}, ExtArgs["result"]["paymentStatusChange"]>
+
+export type PaymentStatusChangeSelectScalar = {
+  id?: boolean
+  transactionId?: boolean
+  previousStatus?: boolean
+  newStatus?: boolean
+  source?: boolean
+  changedById?: boolean
+  note?: boolean
+  createdAt?: boolean
+}
+
+export type PaymentStatusChangeOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "transactionId" | "previousStatus" | "newStatus" | "source" | "changedById" | "note" | "createdAt", ExtArgs["result"]["paymentStatusChange"]>
+export type PaymentStatusChangeInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  transaction?: boolean | Prisma.PaymentTransactionDefaultArgs<ExtArgs>
+  changedBy?: boolean | Prisma.PaymentStatusChange$changedByArgs<ExtArgs>
+}
+export type PaymentStatusChangeIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  transaction?: boolean | Prisma.PaymentTransactionDefaultArgs<ExtArgs>
+  changedBy?: boolean | Prisma.PaymentStatusChange$changedByArgs<ExtArgs>
+}
+export type PaymentStatusChangeIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  transaction?: boolean | Prisma.PaymentTransactionDefaultArgs<ExtArgs>
+  changedBy?: boolean | Prisma.PaymentStatusChange$changedByArgs<ExtArgs>
+}
+
+export type $PaymentStatusChangePayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "PaymentStatusChange"
+  objects: {
+    transaction: Prisma.$PaymentTransactionPayload<ExtArgs>
+    changedBy: Prisma.$UserPayload<ExtArgs> | null
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    transactionId: string
+    previousStatus: $Enums.PaymentStatus
+    newStatus: $Enums.PaymentStatus
+    source: $Enums.PaymentStatusSource
+    changedById: string | null
+    note: string | null
+    createdAt: Date
+  }, ExtArgs["result"]["paymentStatusChange"]>
+  composites: {}
+}
+
+export type PaymentStatusChangeGetPayload<S extends boolean | null | undefined | PaymentStatusChangeDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$PaymentStatusChangePayload, S>
+
+export type PaymentStatusChangeCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<PaymentStatusChangeFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: PaymentStatusChangeCountAggregateInputType | true
+  }
+
+export interface PaymentStatusChangeDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['PaymentStatusChange'], meta: { name: 'PaymentStatusChange' } }
+  /**
+   * Find zero or one PaymentStatusChange that matches the filter.
+   * @param {PaymentStatusChangeFindUniqueArgs} args - Arguments to find a PaymentStatusChange
+   * @example
+   * // Get one PaymentStatusChange
+   * const paymentStatusChange = await prisma.paymentStatusChange.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends PaymentStatusChangeFindUniqueArgs>(args: Prisma.SelectSubset<T, PaymentStatusChangeFindUniqueArgs<ExtArgs>>): Prisma.Prisma__PaymentStatusChangeClient<runtime.Types.Result.GetResult<Prisma.$PaymentStatusChangePayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one PaymentStatusChange that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {PaymentStatusChangeFindUniqueOrThrowArgs} args - Arguments to find a PaymentStatusChange
+   * @example
+   * // Get one PaymentStatusChange
+   * const paymentStatusChange = await prisma.paymentStatusChange.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends PaymentStatusChangeFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, PaymentStatusChangeFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__PaymentStatusChangeClient<runtime.Types.Result.GetResult<Prisma.$PaymentStatusChangePayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first PaymentStatusChange that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {PaymentStatusChangeFindFirstArgs} args - Arguments to find a PaymentStatusChange
+   * @example
+   * // Get one PaymentStatusChange
+   * const paymentStatusChange = await prisma.paymentStatusChange.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends PaymentStatusChangeFindFirstArgs>(args?: Prisma.SelectSubset<T, PaymentStatusChangeFindFirstArgs<ExtArgs>>): Prisma.Prisma__PaymentStatusChangeClient<runtime.Types.Result.GetResult<Prisma.$PaymentStatusChangePayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first PaymentStatusChange that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {PaymentStatusChangeFindFirstOrThrowArgs} args - Arguments to find a PaymentStatusChange
+   * @example
+   * // Get one PaymentStatusChange
+   * const paymentStatusChange = await prisma.paymentStatusChange.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends PaymentStatusChangeFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, PaymentStatusChangeFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__PaymentStatusChangeClient<runtime.Types.Result.GetResult<Prisma.$PaymentStatusChangePayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more PaymentStatusChanges that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {PaymentStatusChangeFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all PaymentStatusChanges
+   * const paymentStatusChanges = await prisma.paymentStatusChange.findMany()
+   * 
+   * // Get first 10 PaymentStatusChanges
+   * const paymentStatusChanges = await prisma.paymentStatusChange.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const paymentStatusChangeWithIdOnly = await prisma.paymentStatusChange.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends PaymentStatusChangeFindManyArgs>(args?: Prisma.SelectSubset<T, PaymentStatusChangeFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$PaymentStatusChangePayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a PaymentStatusChange.
+   * @param {PaymentStatusChangeCreateArgs} args - Arguments to create a PaymentStatusChange.
+   * @example
+   * // Create one PaymentStatusChange
+   * const PaymentStatusChange = await prisma.paymentStatusChange.create({
+   *   data: {
+   *     // ... data to create a PaymentStatusChange
+   *   }
+   * })
+   * 
+   */
+  create<T extends PaymentStatusChangeCreateArgs>(args: Prisma.SelectSubset<T, PaymentStatusChangeCreateArgs<ExtArgs>>): Prisma.Prisma__PaymentStatusChangeClient<runtime.Types.Result.GetResult<Prisma.$PaymentStatusChangePayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many PaymentStatusChanges.
+   * @param {PaymentStatusChangeCreateManyArgs} args - Arguments to create many PaymentStatusChanges.
+   * @example
+   * // Create many PaymentStatusChanges
+   * const paymentStatusChange = await prisma.paymentStatusChange.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends PaymentStatusChangeCreateManyArgs>(args?: Prisma.SelectSubset<T, PaymentStatusChangeCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many PaymentStatusChanges and returns the data saved in the database.
+   * @param {PaymentStatusChangeCreateManyAndReturnArgs} args - Arguments to create many PaymentStatusChanges.
+   * @example
+   * // Create many PaymentStatusChanges
+   * const paymentStatusChange = await prisma.paymentStatusChange.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many PaymentStatusChanges and only return the `id`
+   * const paymentStatusChangeWithIdOnly = await prisma.paymentStatusChange.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends PaymentStatusChangeCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, PaymentStatusChangeCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$PaymentStatusChangePayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a PaymentStatusChange.
+   * @param {PaymentStatusChangeDeleteArgs} args - Arguments to delete one PaymentStatusChange.
+   * @example
+   * // Delete one PaymentStatusChange
+   * const PaymentStatusChange = await prisma.paymentStatusChange.delete({
+   *   where: {
+   *     // ... filter to delete one PaymentStatusChange
+   *   }
+   * })
+   * 
+   */
+  delete<T extends PaymentStatusChangeDeleteArgs>(args: Prisma.SelectSubset<T, PaymentStatusChangeDeleteArgs<ExtArgs>>): Prisma.Prisma__PaymentStatusChangeClient<runtime.Types.Result.GetResult<Prisma.$PaymentStatusChangePayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one PaymentStatusChange.
+   * @param {PaymentStatusChangeUpdateArgs} args - Arguments to update one PaymentStatusChange.
+   * @example
+   * // Update one PaymentStatusChange
+   * const paymentStatusChange = await prisma.paymentStatusChange.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends PaymentStatusChangeUpdateArgs>(args: Prisma.SelectSubset<T, PaymentStatusChangeUpdateArgs<ExtArgs>>): Prisma.Prisma__PaymentStatusChangeClient<runtime.Types.Result.GetResult<Prisma.$PaymentStatusChangePayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more PaymentStatusChanges.
+   * @param {PaymentStatusChangeDeleteManyArgs} args - Arguments to filter PaymentStatusChanges to delete.
+   * @example
+   * // Delete a few PaymentStatusChanges
+   * const { count } = await prisma.paymentStatusChange.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends PaymentStatusChangeDeleteManyArgs>(args?: Prisma.SelectSubset<T, PaymentStatusChangeDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more PaymentStatusChanges.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {PaymentStatusChangeUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many PaymentStatusChanges
+   * const paymentStatusChange = await prisma.paymentStatusChange.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends PaymentStatusChangeUpdateManyArgs>(args: Prisma.SelectSubset<T, PaymentStatusChangeUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more PaymentStatusChanges and returns the data updated in the database.
+   * @param {PaymentStatusChangeUpdateManyAndReturnArgs} args - Arguments to update many PaymentStatusChanges.
+   * @example
+   * // Update many PaymentStatusChanges
+   * const paymentStatusChange = await prisma.paymentStatusChange.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more PaymentStatusChanges and only return the `id`
+   * const paymentStatusChangeWithIdOnly = await prisma.paymentStatusChange.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends PaymentStatusChangeUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, PaymentStatusChangeUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$PaymentStatusChangePayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one PaymentStatusChange.
+   * @param {PaymentStatusChangeUpsertArgs} args - Arguments to update or create a PaymentStatusChange.
+   * @example
+   * // Update or create a PaymentStatusChange
+   * const paymentStatusChange = await prisma.paymentStatusChange.upsert({
+   *   create: {
+   *     // ... data to create a PaymentStatusChange
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the PaymentStatusChange we want to update
+   *   }
+   * })
+   */
+  upsert<T extends PaymentStatusChangeUpsertArgs>(args: Prisma.SelectSubset<T, PaymentStatusChangeUpsertArgs<ExtArgs>>): Prisma.Prisma__PaymentStatusChangeClient<runtime.Types.Result.GetResult<Prisma.$PaymentStatusChangePayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of PaymentStatusChanges.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {PaymentStatusChangeCountArgs} args - Arguments to filter PaymentStatusChanges to count.
+   * @example
+   * // Count the number of PaymentStatusChanges
+   * const count = await prisma.paymentStatusChange.count({
+   *   where: {
+   *     // ... the filter for the PaymentStatusChanges we want to count
+   *   }
+   * })
+  **/
+  count<T extends PaymentStatusChangeCountArgs>(
+    args?: Prisma.Subset<T, PaymentStatusChangeCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], PaymentStatusChangeCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a PaymentStatusChange.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {PaymentStatusChangeAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends PaymentStatusChangeAggregateArgs>(args: Prisma.Subset<T, PaymentStatusChangeAggregateArgs>): Prisma.PrismaPromise<GetPaymentStatusChangeAggregateType<T>>
+
+  /**
+   * Group by PaymentStatusChange.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {PaymentStatusChangeGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends PaymentStatusChangeGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: PaymentStatusChangeGroupByArgs['orderBy'] }
+      : { orderBy?: PaymentStatusChangeGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, PaymentStatusChangeGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetPaymentStatusChangeGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the PaymentStatusChange model
+ */
+readonly fields: PaymentStatusChangeFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for PaymentStatusChange.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__PaymentStatusChangeClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  transaction<T extends Prisma.PaymentTransactionDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.PaymentTransactionDefaultArgs<ExtArgs>>): Prisma.Prisma__PaymentTransactionClient<runtime.Types.Result.GetResult<Prisma.$PaymentTransactionPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  changedBy<T extends Prisma.PaymentStatusChange$changedByArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.PaymentStatusChange$changedByArgs<ExtArgs>>): Prisma.Prisma__UserClient<runtime.Types.Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the PaymentStatusChange model
+ */
+export interface PaymentStatusChangeFieldRefs {
+  readonly id: Prisma.FieldRef<"PaymentStatusChange", 'String'>
+  readonly transactionId: Prisma.FieldRef<"PaymentStatusChange", 'String'>
+  readonly previousStatus: Prisma.FieldRef<"PaymentStatusChange", 'PaymentStatus'>
+  readonly newStatus: Prisma.FieldRef<"PaymentStatusChange", 'PaymentStatus'>
+  readonly source: Prisma.FieldRef<"PaymentStatusChange", 'PaymentStatusSource'>
+  readonly changedById: Prisma.FieldRef<"PaymentStatusChange", 'String'>
+  readonly note: Prisma.FieldRef<"PaymentStatusChange", 'String'>
+  readonly createdAt: Prisma.FieldRef<"PaymentStatusChange", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * PaymentStatusChange findUnique
+ */
+export type PaymentStatusChangeFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PaymentStatusChange
+   */
+  select?: Prisma.PaymentStatusChangeSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PaymentStatusChange
+   */
+  omit?: Prisma.PaymentStatusChangeOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PaymentStatusChangeInclude<ExtArgs> | null
+  /**
+   * Filter, which PaymentStatusChange to fetch.
+   */
+  where: Prisma.PaymentStatusChangeWhereUniqueInput
+}
+
+/**
+ * PaymentStatusChange findUniqueOrThrow
+ */
+export type PaymentStatusChangeFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PaymentStatusChange
+   */
+  select?: Prisma.PaymentStatusChangeSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PaymentStatusChange
+   */
+  omit?: Prisma.PaymentStatusChangeOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PaymentStatusChangeInclude<ExtArgs> | null
+  /**
+   * Filter, which PaymentStatusChange to fetch.
+   */
+  where: Prisma.PaymentStatusChangeWhereUniqueInput
+}
+
+/**
+ * PaymentStatusChange findFirst
+ */
+export type PaymentStatusChangeFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PaymentStatusChange
+   */
+  select?: Prisma.PaymentStatusChangeSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PaymentStatusChange
+   */
+  omit?: Prisma.PaymentStatusChangeOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PaymentStatusChangeInclude<ExtArgs> | null
+  /**
+   * Filter, which PaymentStatusChange to fetch.
+   */
+  where?: Prisma.PaymentStatusChangeWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of PaymentStatusChanges to fetch.
+   */
+  orderBy?: Prisma.PaymentStatusChangeOrderByWithRelationInput | Prisma.PaymentStatusChangeOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for PaymentStatusChanges.
+   */
+  cursor?: Prisma.PaymentStatusChangeWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` PaymentStatusChanges from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` PaymentStatusChanges.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of PaymentStatusChanges.
+   */
+  distinct?: Prisma.PaymentStatusChangeScalarFieldEnum | Prisma.PaymentStatusChangeScalarFieldEnum[]
+}
+
+/**
+ * PaymentStatusChange findFirstOrThrow
+ */
+export type PaymentStatusChangeFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PaymentStatusChange
+   */
+  select?: Prisma.PaymentStatusChangeSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PaymentStatusChange
+   */
+  omit?: Prisma.PaymentStatusChangeOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PaymentStatusChangeInclude<ExtArgs> | null
+  /**
+   * Filter, which PaymentStatusChange to fetch.
+   */
+  where?: Prisma.PaymentStatusChangeWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of PaymentStatusChanges to fetch.
+   */
+  orderBy?: Prisma.PaymentStatusChangeOrderByWithRelationInput | Prisma.PaymentStatusChangeOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for PaymentStatusChanges.
+   */
+  cursor?: Prisma.PaymentStatusChangeWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` PaymentStatusChanges from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` PaymentStatusChanges.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of PaymentStatusChanges.
+   */
+  distinct?: Prisma.PaymentStatusChangeScalarFieldEnum | Prisma.PaymentStatusChangeScalarFieldEnum[]
+}
+
+/**
+ * PaymentStatusChange findMany
+ */
+export type PaymentStatusChangeFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PaymentStatusChange
+   */
+  select?: Prisma.PaymentStatusChangeSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PaymentStatusChange
+   */
+  omit?: Prisma.PaymentStatusChangeOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PaymentStatusChangeInclude<ExtArgs> | null
+  /**
+   * Filter, which PaymentStatusChanges to fetch.
+   */
+  where?: Prisma.PaymentStatusChangeWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of PaymentStatusChanges to fetch.
+   */
+  orderBy?: Prisma.PaymentStatusChangeOrderByWithRelationInput | Prisma.PaymentStatusChangeOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing PaymentStatusChanges.
+   */
+  cursor?: Prisma.PaymentStatusChangeWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` PaymentStatusChanges from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` PaymentStatusChanges.
+   */
+  skip?: number
+  distinct?: Prisma.PaymentStatusChangeScalarFieldEnum | Prisma.PaymentStatusChangeScalarFieldEnum[]
+}
+
+/**
+ * PaymentStatusChange create
+ */
+export type PaymentStatusChangeCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PaymentStatusChange
+   */
+  select?: Prisma.PaymentStatusChangeSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PaymentStatusChange
+   */
+  omit?: Prisma.PaymentStatusChangeOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PaymentStatusChangeInclude<ExtArgs> | null
+  /**
+   * The data needed to create a PaymentStatusChange.
+   */
+  data: Prisma.XOR<Prisma.PaymentStatusChangeCreateInput, Prisma.PaymentStatusChangeUncheckedCreateInput>
+}
+
+/**
+ * PaymentStatusChange createMany
+ */
+export type PaymentStatusChangeCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many PaymentStatusChanges.
+   */
+  data: Prisma.PaymentStatusChangeCreateManyInput | Prisma.PaymentStatusChangeCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * PaymentStatusChange createManyAndReturn
+ */
+export type PaymentStatusChangeCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PaymentStatusChange
+   */
+  select?: Prisma.PaymentStatusChangeSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the PaymentStatusChange
+   */
+  omit?: Prisma.PaymentStatusChangeOmit<ExtArgs> | null
+  /**
+   * The data used to create many PaymentStatusChanges.
+   */
+  data: Prisma.PaymentStatusChangeCreateManyInput | Prisma.PaymentStatusChangeCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PaymentStatusChangeIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * PaymentStatusChange update
+ */
+export type PaymentStatusChangeUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PaymentStatusChange
+   */
+  select?: Prisma.PaymentStatusChangeSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PaymentStatusChange
+   */
+  omit?: Prisma.PaymentStatusChangeOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PaymentStatusChangeInclude<ExtArgs> | null
+  /**
+   * The data needed to update a PaymentStatusChange.
+   */
+  data: Prisma.XOR<Prisma.PaymentStatusChangeUpdateInput, Prisma.PaymentStatusChangeUncheckedUpdateInput>
+  /**
+   * Choose, which PaymentStatusChange to update.
+   */
+  where: Prisma.PaymentStatusChangeWhereUniqueInput
+}
+
+/**
+ * PaymentStatusChange updateMany
+ */
+export type PaymentStatusChangeUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update PaymentStatusChanges.
+   */
+  data: Prisma.XOR<Prisma.PaymentStatusChangeUpdateManyMutationInput, Prisma.PaymentStatusChangeUncheckedUpdateManyInput>
+  /**
+   * Filter which PaymentStatusChanges to update
+   */
+  where?: Prisma.PaymentStatusChangeWhereInput
+  /**
+   * Limit how many PaymentStatusChanges to update.
+   */
+  limit?: number
+}
+
+/**
+ * PaymentStatusChange updateManyAndReturn
+ */
+export type PaymentStatusChangeUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PaymentStatusChange
+   */
+  select?: Prisma.PaymentStatusChangeSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the PaymentStatusChange
+   */
+  omit?: Prisma.PaymentStatusChangeOmit<ExtArgs> | null
+  /**
+   * The data used to update PaymentStatusChanges.
+   */
+  data: Prisma.XOR<Prisma.PaymentStatusChangeUpdateManyMutationInput, Prisma.PaymentStatusChangeUncheckedUpdateManyInput>
+  /**
+   * Filter which PaymentStatusChanges to update
+   */
+  where?: Prisma.PaymentStatusChangeWhereInput
+  /**
+   * Limit how many PaymentStatusChanges to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PaymentStatusChangeIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * PaymentStatusChange upsert
+ */
+export type PaymentStatusChangeUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PaymentStatusChange
+   */
+  select?: Prisma.PaymentStatusChangeSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PaymentStatusChange
+   */
+  omit?: Prisma.PaymentStatusChangeOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PaymentStatusChangeInclude<ExtArgs> | null
+  /**
+   * The filter to search for the PaymentStatusChange to update in case it exists.
+   */
+  where: Prisma.PaymentStatusChangeWhereUniqueInput
+  /**
+   * In case the PaymentStatusChange found by the `where` argument doesn't exist, create a new PaymentStatusChange with this data.
+   */
+  create: Prisma.XOR<Prisma.PaymentStatusChangeCreateInput, Prisma.PaymentStatusChangeUncheckedCreateInput>
+  /**
+   * In case the PaymentStatusChange was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.PaymentStatusChangeUpdateInput, Prisma.PaymentStatusChangeUncheckedUpdateInput>
+}
+
+/**
+ * PaymentStatusChange delete
+ */
+export type PaymentStatusChangeDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PaymentStatusChange
+   */
+  select?: Prisma.PaymentStatusChangeSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PaymentStatusChange
+   */
+  omit?: Prisma.PaymentStatusChangeOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PaymentStatusChangeInclude<ExtArgs> | null
+  /**
+   * Filter which PaymentStatusChange to delete.
+   */
+  where: Prisma.PaymentStatusChangeWhereUniqueInput
+}
+
+/**
+ * PaymentStatusChange deleteMany
+ */
+export type PaymentStatusChangeDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which PaymentStatusChanges to delete
+   */
+  where?: Prisma.PaymentStatusChangeWhereInput
+  /**
+   * Limit how many PaymentStatusChanges to delete.
+   */
+  limit?: number
+}
+
+/**
+ * PaymentStatusChange.changedBy
+ */
+export type PaymentStatusChange$changedByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the User
+   */
+  select?: Prisma.UserSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the User
+   */
+  omit?: Prisma.UserOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.UserInclude<ExtArgs> | null
+  where?: Prisma.UserWhereInput
+}
+
+/**
+ * PaymentStatusChange without action
+ */
+export type PaymentStatusChangeDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PaymentStatusChange
+   */
+  select?: Prisma.PaymentStatusChangeSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PaymentStatusChange
+   */
+  omit?: Prisma.PaymentStatusChangeOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PaymentStatusChangeInclude<ExtArgs> | null
+}
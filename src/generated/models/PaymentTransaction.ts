@@ -28,10 +28,22 @@ export type AggregatePaymentTransaction = {
 
 export type PaymentTransactionAvgAggregateOutputType = {
   amount: runtime.Decimal | null
+  taxAmount: runtime.Decimal | null
+  taxableAmount: runtime.Decimal | null
+  refundedAmount: runtime.Decimal | null
+  chargedAmount: runtime.Decimal | null
+  exchangeRate: runtime.Decimal | null
+  installments: number | null
 }
 
 export type PaymentTransactionSumAggregateOutputType = {
   amount: runtime.Decimal | null
+  taxAmount: runtime.Decimal | null
+  taxableAmount: runtime.Decimal | null
+  refundedAmount: runtime.Decimal | null
+  chargedAmount: runtime.Decimal | null
+  exchangeRate: runtime.Decimal | null
+  installments: number | null
 }
 
 export type PaymentTransactionMinAggregateOutputType = {
@@ -40,10 +52,23 @@ export type PaymentTransactionMinAggregateOutputType = {
   userId: string | null
   clientTransactionId: string | null
   amount: runtime.Decimal | null
+  taxAmount: runtime.Decimal | null
+  taxableAmount: runtime.Decimal | null
   status: $Enums.PaymentStatus | null
   paymentProvider: $Enums.PaymentProvider | null
   addressId: string | null
   paymentMethodId: string | null
+  refundedAmount: runtime.Decimal | null
+  reviewedById: string | null
+  reviewedAt: Date | null
+  reviewNote: string | null
+  requiresReview: boolean | null
+  chargedCurrency: string | null
+  chargedAmount: runtime.Decimal | null
+  exchangeRate: runtime.Decimal | null
+  exchangeRateId: string | null
+  installments: number | null
+  installmentPlanId: string | null
   createdAt: Date | null
   updatedAt: Date | null
 }
@@ -54,10 +79,23 @@ export type PaymentTransactionMaxAggregateOutputType = {
   userId: string | null
   clientTransactionId: string | null
   amount: runtime.Decimal | null
+  taxAmount: runtime.Decimal | null
+  taxableAmount: runtime.Decimal | null
   status: $Enums.PaymentStatus | null
   paymentProvider: $Enums.PaymentProvider | null
   addressId: string | null
   paymentMethodId: string | null
+  refundedAmount: runtime.Decimal | null
+  reviewedById: string | null
+  reviewedAt: Date | null
+  reviewNote: string | null
+  requiresReview: boolean | null
+  chargedCurrency: string | null
+  chargedAmount: runtime.Decimal | null
+  exchangeRate: runtime.Decimal | null
+  exchangeRateId: string | null
+  installments: number | null
+  installmentPlanId: string | null
   createdAt: Date | null
   updatedAt: Date | null
 }
@@ -68,11 +106,24 @@ export type PaymentTransactionCountAggregateOutputType = {
   userId: number
   clientTransactionId: number
   amount: number
+  taxAmount: number
+  taxableAmount: number
   status: number
   paymentProvider: number
   addressId: number
   paymentMethodId: number
   payphoneData: number
+  refundedAmount: number
+  reviewedById: number
+  reviewedAt: number
+  reviewNote: number
+  requiresReview: number
+  chargedCurrency: number
+  chargedAmount: number
+  exchangeRate: number
+  exchangeRateId: number
+  installments: number
+  installmentPlanId: number
   createdAt: number
   updatedAt: number
   _all: number
@@ -81,10 +132,22 @@ export type PaymentTransactionCountAggregateOutputType = {
 
 export type PaymentTransactionAvgAggregateInputType = {
   amount?: true
+  taxAmount?: true
+  taxableAmount?: true
+  refundedAmount?: true
+  chargedAmount?: true
+  exchangeRate?: true
+  installments?: true
 }
 
 export type PaymentTransactionSumAggregateInputType = {
   amount?: true
+  taxAmount?: true
+  taxableAmount?: true
+  refundedAmount?: true
+  chargedAmount?: true
+  exchangeRate?: true
+  installments?: true
 }
 
 export type PaymentTransactionMinAggregateInputType = {
@@ -93,10 +156,23 @@ export type PaymentTransactionMinAggregateInputType = {
   userId?: true
   clientTransactionId?: true
   amount?: true
+  taxAmount?: true
+  taxableAmount?: true
   status?: true
   paymentProvider?: true
   addressId?: true
   paymentMethodId?: true
+  refundedAmount?: true
+  reviewedById?: true
+  reviewedAt?: true
+  reviewNote?: true
+  requiresReview?: true
+  chargedCurrency?: true
+  chargedAmount?: true
+  exchangeRate?: true
+  exchangeRateId?: true
+  installments?: true
+  installmentPlanId?: true
   createdAt?: true
   updatedAt?: true
 }
@@ -107,10 +183,23 @@ export type PaymentTransactionMaxAggregateInputType = {
   userId?: true
   clientTransactionId?: true
   amount?: true
+  taxAmount?: true
+  taxableAmount?: true
   status?: true
   paymentProvider?: true
   addressId?: true
   paymentMethodId?: true
+  refundedAmount?: true
+  reviewedById?: true
+  reviewedAt?: true
+  reviewNote?: true
+  requiresReview?: true
+  chargedCurrency?: true
+  chargedAmount?: true
+  exchangeRate?: true
+  exchangeRateId?: true
+  installments?: true
+  installmentPlanId?: true
   createdAt?: true
   updatedAt?: true
 }
@@ -121,11 +210,24 @@ export type PaymentTransactionCountAggregateInputType = {
   userId?: true
   clientTransactionId?: true
   amount?: true
+  taxAmount?: true
+  taxableAmount?: true
   status?: true
   paymentProvider?: true
   addressId?: true
   paymentMethodId?: true
   payphoneData?: true
+  refundedAmount?: true
+  reviewedById?: true
+  reviewedAt?: true
+  reviewNote?: true
+  requiresReview?: true
+  chargedCurrency?: true
+  chargedAmount?: true
+  exchangeRate?: true
+  exchangeRateId?: true
+  installments?: true
+  installmentPlanId?: true
   createdAt?: true
   updatedAt?: true
   _all?: true
@@ -223,11 +325,24 @@ export type PaymentTransactionGroupByOutputType = {
   userId: string
   clientTransactionId: string
   amount: runtime.Decimal
+  taxAmount: runtime.Decimal
+  taxableAmount: runtime.Decimal
   status: $Enums.PaymentStatus
   paymentProvider: $Enums.PaymentProvider
   addressId: string | null
   paymentMethodId: string | null
   payphoneData: runtime.JsonValue | null
+  refundedAmount: runtime.Decimal
+  reviewedById: string | null
+  reviewedAt: Date | null
+  reviewNote: string | null
+  requiresReview: boolean
+  chargedCurrency: string | null
+  chargedAmount: runtime.Decimal | null
+  exchangeRate: runtime.Decimal | null
+  exchangeRateId: string | null
+  installments: number
+  installmentPlanId: string | null
   createdAt: Date
   updatedAt: Date
   _count: PaymentTransactionCountAggregateOutputType | null
@@ -261,15 +376,35 @@ export type PaymentTransactionWhereInput = {
   userId?: Prisma.StringFilter<"PaymentTransaction"> | string
   clientTransactionId?: Prisma.StringFilter<"PaymentTransaction"> | string
   amount?: Prisma.DecimalFilter<"PaymentTransaction"> | runtime.Decimal | runtime.DecimalJsLike | number | string
+  taxAmount?: Prisma.DecimalFilter<"PaymentTransaction"> | runtime.Decimal | runtime.DecimalJsLike | number | string
+  taxableAmount?: Prisma.DecimalFilter<"PaymentTransaction"> | runtime.Decimal | runtime.DecimalJsLike | number | string
   status?: Prisma.EnumPaymentStatusFilter<"PaymentTransaction"> | $Enums.PaymentStatus
   paymentProvider?: Prisma.EnumPaymentProviderFilter<"PaymentTransaction"> | $Enums.PaymentProvider
   addressId?: Prisma.StringNullableFilter<"PaymentTransaction"> | string | null
   paymentMethodId?: Prisma.StringNullableFilter<"PaymentTransaction"> | string | null
   payphoneData?: Prisma.JsonNullableFilter<"PaymentTransaction">
+  refundedAmount?: Prisma.DecimalFilter<"PaymentTransaction"> | runtime.Decimal | runtime.DecimalJsLike | number | string
+  reviewedById?: Prisma.StringNullableFilter<"PaymentTransaction"> | string | null
+  reviewedAt?: Prisma.DateTimeNullableFilter<"PaymentTransaction"> | Date | string | null
+  reviewNote?: Prisma.StringNullableFilter<"PaymentTransaction"> | string | null
+  requiresReview?: Prisma.BoolFilter<"PaymentTransaction"> | boolean
+  chargedCurrency?: Prisma.StringNullableFilter<"PaymentTransaction"> | string | null
+  chargedAmount?: Prisma.DecimalNullableFilter<"PaymentTransaction"> | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  exchangeRate?: Prisma.DecimalNullableFilter<"PaymentTransaction"> | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  exchangeRateId?: Prisma.StringNullableFilter<"PaymentTransaction"> | string | null
+  installments?: Prisma.IntFilter<"PaymentTransaction"> | number
+  installmentPlanId?: Prisma.StringNullableFilter<"PaymentTransaction"> | string | null
   createdAt?: Prisma.DateTimeFilter<"PaymentTransaction"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"PaymentTransaction"> | Date | string
   order?: Prisma.XOR<Prisma.OrderNullableScalarRelationFilter, Prisma.OrderWhereInput> | null
   user?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
+  reviewedBy?: Prisma.XOR<Prisma.UserNullableScalarRelationFilter, Prisma.UserWhereInput> | null
+  exchangeRateRecord?: Prisma.XOR<Prisma.ExchangeRateNullableScalarRelationFilter, Prisma.ExchangeRateWhereInput> | null
+  installmentPlan?: Prisma.XOR<Prisma.InstallmentPlanNullableScalarRelationFilter, Prisma.InstallmentPlanWhereInput> | null
+  refunds?: Prisma.RefundListRelationFilter
+  statusChanges?: Prisma.PaymentStatusChangeListRelationFilter
+  reconciliationItems?: Prisma.ReconciliationItemListRelationFilter
+  cryptoPayment?: Prisma.XOR<Prisma.CryptoPaymentNullableScalarRelationFilter, Prisma.CryptoPaymentWhereInput> | null
 }
 
 export type PaymentTransactionOrderByWithRelationInput = {
@@ -278,15 +413,35 @@ export type PaymentTransactionOrderByWithRelationInput = {
   userId?: Prisma.SortOrder
   clientTransactionId?: Prisma.SortOrder
   amount?: Prisma.SortOrder
+  taxAmount?: Prisma.SortOrder
+  taxableAmount?: Prisma.SortOrder
   status?: Prisma.SortOrder
   paymentProvider?: Prisma.SortOrder
   addressId?: Prisma.SortOrderInput | Prisma.SortOrder
   paymentMethodId?: Prisma.SortOrderInput | Prisma.SortOrder
   payphoneData?: Prisma.SortOrderInput | Prisma.SortOrder
+  refundedAmount?: Prisma.SortOrder
+  reviewedById?: Prisma.SortOrderInput | Prisma.SortOrder
+  reviewedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  reviewNote?: Prisma.SortOrderInput | Prisma.SortOrder
+  requiresReview?: Prisma.SortOrder
+  chargedCurrency?: Prisma.SortOrderInput | Prisma.SortOrder
+  chargedAmount?: Prisma.SortOrderInput | Prisma.SortOrder
+  exchangeRate?: Prisma.SortOrderInput | Prisma.SortOrder
+  exchangeRateId?: Prisma.SortOrderInput | Prisma.SortOrder
+  installments?: Prisma.SortOrder
+  installmentPlanId?: Prisma.SortOrderInput | Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
   order?: Prisma.OrderOrderByWithRelationInput
   user?: Prisma.UserOrderByWithRelationInput
+  reviewedBy?: Prisma.UserOrderByWithRelationInput
+  exchangeRateRecord?: Prisma.ExchangeRateOrderByWithRelationInput
+  installmentPlan?: Prisma.InstallmentPlanOrderByWithRelationInput
+  refunds?: Prisma.RefundOrderByRelationAggregateInput
+  statusChanges?: Prisma.PaymentStatusChangeOrderByRelationAggregateInput
+  reconciliationItems?: Prisma.ReconciliationItemOrderByRelationAggregateInput
+  cryptoPayment?: Prisma.CryptoPaymentOrderByWithRelationInput
 }
 
 export type PaymentTransactionWhereUniqueInput = Prisma.AtLeast<{
@@ -298,15 +453,35 @@ export type PaymentTransactionWhereUniqueInput = Prisma.AtLeast<{
   orderId?: Prisma.StringNullableFilter<"PaymentTransaction"> | string | null
   userId?: Prisma.StringFilter<"PaymentTransaction"> | string
   amount?: Prisma.DecimalFilter<"PaymentTransaction"> | runtime.Decimal | runtime.DecimalJsLike | number | string
+  taxAmount?: Prisma.DecimalFilter<"PaymentTransaction"> | runtime.Decimal | runtime.DecimalJsLike | number | string
+  taxableAmount?: Prisma.DecimalFilter<"PaymentTransaction"> | runtime.Decimal | runtime.DecimalJsLike | number | string
   status?: Prisma.EnumPaymentStatusFilter<"PaymentTransaction"> | $Enums.PaymentStatus
   paymentProvider?: Prisma.EnumPaymentProviderFilter<"PaymentTransaction"> | $Enums.PaymentProvider
   addressId?: Prisma.StringNullableFilter<"PaymentTransaction"> | string | null
   paymentMethodId?: Prisma.StringNullableFilter<"PaymentTransaction"> | string | null
   payphoneData?: Prisma.JsonNullableFilter<"PaymentTransaction">
+  refundedAmount?: Prisma.DecimalFilter<"PaymentTransaction"> | runtime.Decimal | runtime.DecimalJsLike | number | string
+  reviewedById?: Prisma.StringNullableFilter<"PaymentTransaction"> | string | null
+  reviewedAt?: Prisma.DateTimeNullableFilter<"PaymentTransaction"> | Date | string | null
+  reviewNote?: Prisma.StringNullableFilter<"PaymentTransaction"> | string | null
+  requiresReview?: Prisma.BoolFilter<"PaymentTransaction"> | boolean
+  chargedCurrency?: Prisma.StringNullableFilter<"PaymentTransaction"> | string | null
+  chargedAmount?: Prisma.DecimalNullableFilter<"PaymentTransaction"> | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  exchangeRate?: Prisma.DecimalNullableFilter<"PaymentTransaction"> | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  exchangeRateId?: Prisma.StringNullableFilter<"PaymentTransaction"> | string | null
+  installments?: Prisma.IntFilter<"PaymentTransaction"> | number
+  installmentPlanId?: Prisma.StringNullableFilter<"PaymentTransaction"> | string | null
   createdAt?: Prisma.DateTimeFilter<"PaymentTransaction"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"PaymentTransaction"> | Date | string
   order?: Prisma.XOR<Prisma.OrderNullableScalarRelationFilter, Prisma.OrderWhereInput> | null
   user?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
+  reviewedBy?: Prisma.XOR<Prisma.UserNullableScalarRelationFilter, Prisma.UserWhereInput> | null
+  exchangeRateRecord?: Prisma.XOR<Prisma.ExchangeRateNullableScalarRelationFilter, Prisma.ExchangeRateWhereInput> | null
+  installmentPlan?: Prisma.XOR<Prisma.InstallmentPlanNullableScalarRelationFilter, Prisma.InstallmentPlanWhereInput> | null
+  refunds?: Prisma.RefundListRelationFilter
+  statusChanges?: Prisma.PaymentStatusChangeListRelationFilter
+  reconciliationItems?: Prisma.ReconciliationItemListRelationFilter
+  cryptoPayment?: Prisma.XOR<Prisma.CryptoPaymentNullableScalarRelationFilter, Prisma.CryptoPaymentWhereInput> | null
 }, "id" | "clientTransactionId">
 
 export type PaymentTransactionOrderByWithAggregationInput = {
@@ -315,11 +490,24 @@ export type PaymentTransactionOrderByWithAggregationInput = {
   userId?: Prisma.SortOrder
   clientTransactionId?: Prisma.SortOrder
   amount?: Prisma.SortOrder
+  taxAmount?: Prisma.SortOrder
+  taxableAmount?: Prisma.SortOrder
   status?: Prisma.SortOrder
   paymentProvider?: Prisma.SortOrder
   addressId?: Prisma.SortOrderInput | Prisma.SortOrder
   paymentMethodId?: Prisma.SortOrderInput | Prisma.SortOrder
   payphoneData?: Prisma.SortOrderInput | Prisma.SortOrder
+  refundedAmount?: Prisma.SortOrder
+  reviewedById?: Prisma.SortOrderInput | Prisma.SortOrder
+  reviewedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  reviewNote?: Prisma.SortOrderInput | Prisma.SortOrder
+  requiresReview?: Prisma.SortOrder
+  chargedCurrency?: Prisma.SortOrderInput | Prisma.SortOrder
+  chargedAmount?: Prisma.SortOrderInput | Prisma.SortOrder
+  exchangeRate?: Prisma.SortOrderInput | Prisma.SortOrder
+  exchangeRateId?: Prisma.SortOrderInput | Prisma.SortOrder
+  installments?: Prisma.SortOrder
+  installmentPlanId?: Prisma.SortOrderInput | Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
   _count?: Prisma.PaymentTransactionCountOrderByAggregateInput
@@ -338,11 +526,24 @@ export type PaymentTransactionScalarWhereWithAggregatesInput = {
   userId?: Prisma.StringWithAggregatesFilter<"PaymentTransaction"> | string
   clientTransactionId?: Prisma.StringWithAggregatesFilter<"PaymentTransaction"> | string
   amount?: Prisma.DecimalWithAggregatesFilter<"PaymentTransaction"> | runtime.Decimal | runtime.DecimalJsLike | number | string
+  taxAmount?: Prisma.DecimalWithAggregatesFilter<"PaymentTransaction"> | runtime.Decimal | runtime.DecimalJsLike | number | string
+  taxableAmount?: Prisma.DecimalWithAggregatesFilter<"PaymentTransaction"> | runtime.Decimal | runtime.DecimalJsLike | number | string
   status?: Prisma.EnumPaymentStatusWithAggregatesFilter<"PaymentTransaction"> | $Enums.PaymentStatus
   paymentProvider?: Prisma.EnumPaymentProviderWithAggregatesFilter<"PaymentTransaction"> | $Enums.PaymentProvider
   addressId?: Prisma.StringNullableWithAggregatesFilter<"PaymentTransaction"> | string | null
   paymentMethodId?: Prisma.StringNullableWithAggregatesFilter<"PaymentTransaction"> | string | null
   payphoneData?: Prisma.JsonNullableWithAggregatesFilter<"PaymentTransaction">
+  refundedAmount?: Prisma.DecimalWithAggregatesFilter<"PaymentTransaction"> | runtime.Decimal | runtime.DecimalJsLike | number | string
+  reviewedById?: Prisma.StringNullableWithAggregatesFilter<"PaymentTransaction"> | string | null
+  reviewedAt?: Prisma.DateTimeNullableWithAggregatesFilter<"PaymentTransaction"> | Date | string | null
+  reviewNote?: Prisma.StringNullableWithAggregatesFilter<"PaymentTransaction"> | string | null
+  requiresReview?: Prisma.BoolWithAggregatesFilter<"PaymentTransaction"> | boolean
+  chargedCurrency?: Prisma.StringNullableWithAggregatesFilter<"PaymentTransaction"> | string | null
+  chargedAmount?: Prisma.DecimalNullableWithAggregatesFilter<"PaymentTransaction"> | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  exchangeRate?: Prisma.DecimalNullableWithAggregatesFilter<"PaymentTransaction"> | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  exchangeRateId?: Prisma.StringNullableWithAggregatesFilter<"PaymentTransaction"> | string | null
+  installments?: Prisma.IntWithAggregatesFilter<"PaymentTransaction"> | number
+  installmentPlanId?: Prisma.StringNullableWithAggregatesFilter<"PaymentTransaction"> | string | null
   createdAt?: Prisma.DateTimeWithAggregatesFilter<"PaymentTransaction"> | Date | string
   updatedAt?: Prisma.DateTimeWithAggregatesFilter<"PaymentTransaction"> | Date | string
 }
@@ -351,15 +552,32 @@ export type PaymentTransactionCreateInput = {
   id?: string
   clientTransactionId: string
   amount: runtime.Decimal | runtime.DecimalJsLike | number | string
+  taxAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  taxableAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string
   status?: $Enums.PaymentStatus
   paymentProvider?: $Enums.PaymentProvider
   addressId?: string | null
   paymentMethodId?: string | null
   payphoneData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  refundedAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  reviewedAt?: Date | string | null
+  reviewNote?: string | null
+  requiresReview?: boolean
+  chargedCurrency?: string | null
+  chargedAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  exchangeRate?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  installments?: number
   createdAt?: Date | string
   updatedAt?: Date | string
   order?: Prisma.OrderCreateNestedOneWithoutPaymentsInput
   user: Prisma.UserCreateNestedOneWithoutPaymentTransactionsInput
+  reviewedBy?: Prisma.UserCreateNestedOneWithoutReviewedDepositsInput
+  exchangeRateRecord?: Prisma.ExchangeRateCreateNestedOneWithoutTransactionsInput
+  installmentPlan?: Prisma.InstallmentPlanCreateNestedOneWithoutTransactionsInput
+  refunds?: Prisma.RefundCreateNestedManyWithoutTransactionInput
+  statusChanges?: Prisma.PaymentStatusChangeCreateNestedManyWithoutTransactionInput
+  reconciliationItems?: Prisma.ReconciliationItemCreateNestedManyWithoutTransactionInput
+  cryptoPayment?: Prisma.CryptoPaymentCreateNestedOneWithoutTransactionInput
 }
 
 export type PaymentTransactionUncheckedCreateInput = {
@@ -368,28 +586,62 @@ export type PaymentTransactionUncheckedCreateInput = {
   userId: string
   clientTransactionId: string
   amount: runtime.Decimal | runtime.DecimalJsLike | number | string
+  taxAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  taxableAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string
   status?: $Enums.PaymentStatus
   paymentProvider?: $Enums.PaymentProvider
   addressId?: string | null
   paymentMethodId?: string | null
   payphoneData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  refundedAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  reviewedById?: string | null
+  reviewedAt?: Date | string | null
+  reviewNote?: string | null
+  requiresReview?: boolean
+  chargedCurrency?: string | null
+  chargedAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  exchangeRate?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  exchangeRateId?: string | null
+  installments?: number
+  installmentPlanId?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
+  refunds?: Prisma.RefundUncheckedCreateNestedManyWithoutTransactionInput
+  statusChanges?: Prisma.PaymentStatusChangeUncheckedCreateNestedManyWithoutTransactionInput
+  reconciliationItems?: Prisma.ReconciliationItemUncheckedCreateNestedManyWithoutTransactionInput
+  cryptoPayment?: Prisma.CryptoPaymentUncheckedCreateNestedOneWithoutTransactionInput
 }
 
 export type PaymentTransactionUpdateInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   clientTransactionId?: Prisma.StringFieldUpdateOperationsInput | string
   amount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  taxAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  taxableAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
   status?: Prisma.EnumPaymentStatusFieldUpdateOperationsInput | $Enums.PaymentStatus
   paymentProvider?: Prisma.EnumPaymentProviderFieldUpdateOperationsInput | $Enums.PaymentProvider
   addressId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   paymentMethodId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   payphoneData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  refundedAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  reviewNote?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  requiresReview?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  chargedCurrency?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  chargedAmount?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  exchangeRate?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  installments?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   order?: Prisma.OrderUpdateOneWithoutPaymentsNestedInput
   user?: Prisma.UserUpdateOneRequiredWithoutPaymentTransactionsNestedInput
+  reviewedBy?: Prisma.UserUpdateOneWithoutReviewedDepositsNestedInput
+  exchangeRateRecord?: Prisma.ExchangeRateUpdateOneWithoutTransactionsNestedInput
+  installmentPlan?: Prisma.InstallmentPlanUpdateOneWithoutTransactionsNestedInput
+  refunds?: Prisma.RefundUpdateManyWithoutTransactionNestedInput
+  statusChanges?: Prisma.PaymentStatusChangeUpdateManyWithoutTransactionNestedInput
+  reconciliationItems?: Prisma.ReconciliationItemUpdateManyWithoutTransactionNestedInput
+  cryptoPayment?: Prisma.CryptoPaymentUpdateOneWithoutTransactionNestedInput
 }
 
 export type PaymentTransactionUncheckedUpdateInput = {
@@ -398,13 +650,30 @@ export type PaymentTransactionUncheckedUpdateInput = {
   userId?: Prisma.StringFieldUpdateOperationsInput | string
   clientTransactionId?: Prisma.StringFieldUpdateOperationsInput | string
   amount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  taxAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  taxableAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
   status?: Prisma.EnumPaymentStatusFieldUpdateOperationsInput | $Enums.PaymentStatus
   paymentProvider?: Prisma.EnumPaymentProviderFieldUpdateOperationsInput | $Enums.PaymentProvider
   addressId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   paymentMethodId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   payphoneData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  refundedAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  reviewedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  reviewNote?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  requiresReview?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  chargedCurrency?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  chargedAmount?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  exchangeRate?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  exchangeRateId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  installments?: Prisma.IntFieldUpdateOperationsInput | number
+  installmentPlanId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  refunds?: Prisma.RefundUncheckedUpdateManyWithoutTransactionNestedInput
+  statusChanges?: Prisma.PaymentStatusChangeUncheckedUpdateManyWithoutTransactionNestedInput
+  reconciliationItems?: Prisma.ReconciliationItemUncheckedUpdateManyWithoutTransactionNestedInput
+  cryptoPayment?: Prisma.CryptoPaymentUncheckedUpdateOneWithoutTransactionNestedInput
 }
 
 export type PaymentTransactionCreateManyInput = {
@@ -413,11 +682,24 @@ export type PaymentTransactionCreateManyInput = {
   userId: string
   clientTransactionId: string
   amount: runtime.Decimal | runtime.DecimalJsLike | number | string
+  taxAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  taxableAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string
   status?: $Enums.PaymentStatus
   paymentProvider?: $Enums.PaymentProvider
   addressId?: string | null
   paymentMethodId?: string | null
   payphoneData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  refundedAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  reviewedById?: string | null
+  reviewedAt?: Date | string | null
+  reviewNote?: string | null
+  requiresReview?: boolean
+  chargedCurrency?: string | null
+  chargedAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  exchangeRate?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  exchangeRateId?: string | null
+  installments?: number
+  installmentPlanId?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
 }
@@ -426,11 +708,21 @@ export type PaymentTransactionUpdateManyMutationInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   clientTransactionId?: Prisma.StringFieldUpdateOperationsInput | string
   amount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  taxAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  taxableAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
   status?: Prisma.EnumPaymentStatusFieldUpdateOperationsInput | $Enums.PaymentStatus
   paymentProvider?: Prisma.EnumPaymentProviderFieldUpdateOperationsInput | $Enums.PaymentProvider
   addressId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   paymentMethodId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   payphoneData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  refundedAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  reviewNote?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  requiresReview?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  chargedCurrency?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  chargedAmount?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  exchangeRate?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  installments?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
@@ -441,11 +733,24 @@ export type PaymentTransactionUncheckedUpdateManyInput = {
   userId?: Prisma.StringFieldUpdateOperationsInput | string
   clientTransactionId?: Prisma.StringFieldUpdateOperationsInput | string
   amount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  taxAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  taxableAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
   status?: Prisma.EnumPaymentStatusFieldUpdateOperationsInput | $Enums.PaymentStatus
   paymentProvider?: Prisma.EnumPaymentProviderFieldUpdateOperationsInput | $Enums.PaymentProvider
   addressId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   paymentMethodId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   payphoneData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  refundedAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  reviewedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  reviewNote?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  requiresReview?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  chargedCurrency?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  chargedAmount?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  exchangeRate?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  exchangeRateId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  installments?: Prisma.IntFieldUpdateOperationsInput | number
+  installmentPlanId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
@@ -466,17 +771,36 @@ export type PaymentTransactionCountOrderByAggregateInput = {
   userId?: Prisma.SortOrder
   clientTransactionId?: Prisma.SortOrder
   amount?: Prisma.SortOrder
+  taxAmount?: Prisma.SortOrder
+  taxableAmount?: Prisma.SortOrder
   status?: Prisma.SortOrder
   paymentProvider?: Prisma.SortOrder
   addressId?: Prisma.SortOrder
   paymentMethodId?: Prisma.SortOrder
   payphoneData?: Prisma.SortOrder
+  refundedAmount?: Prisma.SortOrder
+  reviewedById?: Prisma.SortOrder
+  reviewedAt?: Prisma.SortOrder
+  reviewNote?: Prisma.SortOrder
+  requiresReview?: Prisma.SortOrder
+  chargedCurrency?: Prisma.SortOrder
+  chargedAmount?: Prisma.SortOrder
+  exchangeRate?: Prisma.SortOrder
+  exchangeRateId?: Prisma.SortOrder
+  installments?: Prisma.SortOrder
+  installmentPlanId?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
 }
 
 export type PaymentTransactionAvgOrderByAggregateInput = {
   amount?: Prisma.SortOrder
+  taxAmount?: Prisma.SortOrder
+  taxableAmount?: Prisma.SortOrder
+  refundedAmount?: Prisma.SortOrder
+  chargedAmount?: Prisma.SortOrder
+  exchangeRate?: Prisma.SortOrder
+  installments?: Prisma.SortOrder
 }
 
 export type PaymentTransactionMaxOrderByAggregateInput = {
@@ -485,10 +809,23 @@ export type PaymentTransactionMaxOrderByAggregateInput = {
   userId?: Prisma.SortOrder
   clientTransactionId?: Prisma.SortOrder
   amount?: Prisma.SortOrder
+  taxAmount?: Prisma.SortOrder
+  taxableAmount?: Prisma.SortOrder
   status?: Prisma.SortOrder
   paymentProvider?: Prisma.SortOrder
   addressId?: Prisma.SortOrder
   paymentMethodId?: Prisma.SortOrder
+  refundedAmount?: Prisma.SortOrder
+  reviewedById?: Prisma.SortOrder
+  reviewedAt?: Prisma.SortOrder
+  reviewNote?: Prisma.SortOrder
+  requiresReview?: Prisma.SortOrder
+  chargedCurrency?: Prisma.SortOrder
+  chargedAmount?: Prisma.SortOrder
+  exchangeRate?: Prisma.SortOrder
+  exchangeRateId?: Prisma.SortOrder
+  installments?: Prisma.SortOrder
+  installmentPlanId?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
 }
@@ -499,16 +836,40 @@ export type PaymentTransactionMinOrderByAggregateInput = {
   userId?: Prisma.SortOrder
   clientTransactionId?: Prisma.SortOrder
   amount?: Prisma.SortOrder
+  taxAmount?: Prisma.SortOrder
+  taxableAmount?: Prisma.SortOrder
   status?: Prisma.SortOrder
   paymentProvider?: Prisma.SortOrder
   addressId?: Prisma.SortOrder
   paymentMethodId?: Prisma.SortOrder
+  refundedAmount?: Prisma.SortOrder
+  reviewedById?: Prisma.SortOrder
+  reviewedAt?: Prisma.SortOrder
+  reviewNote?: Prisma.SortOrder
+  requiresReview?: Prisma.SortOrder
+  chargedCurrency?: Prisma.SortOrder
+  chargedAmount?: Prisma.SortOrder
+  exchangeRate?: Prisma.SortOrder
+  exchangeRateId?: Prisma.SortOrder
+  installments?: Prisma.SortOrder
+  installmentPlanId?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
 }
 
 export type PaymentTransactionSumOrderByAggregateInput = {
   amount?: Prisma.SortOrder
+  taxAmount?: Prisma.SortOrder
+  taxableAmount?: Prisma.SortOrder
+  refundedAmount?: Prisma.SortOrder
+  chargedAmount?: Prisma.SortOrder
+  exchangeRate?: Prisma.SortOrder
+  installments?: Prisma.SortOrder
+}
+
+export type PaymentTransactionScalarRelationFilter = {
+  is?: Prisma.PaymentTransactionWhereInput
+  isNot?: Prisma.PaymentTransactionWhereInput
 }
 
 export type PaymentTransactionCreateNestedManyWithoutUserInput = {
@@ -518,6 +879,13 @@ export type PaymentTransactionCreateNestedManyWithoutUserInput = {
   connect?: Prisma.PaymentTransactionWhereUniqueInput | Prisma.PaymentTransactionWhereUniqueInput[]
 }
 
+export type PaymentTransactionCreateNestedManyWithoutReviewedByInput = {
+  create?: Prisma.XOR<Prisma.PaymentTransactionCreateWithoutReviewedByInput, Prisma.PaymentTransactionUncheckedCreateWithoutReviewedByInput> | Prisma.PaymentTransactionCreateWithoutReviewedByInput[] | Prisma.PaymentTransactionUncheckedCreateWithoutReviewedByInput[]
+  connectOrCreate?: Prisma.PaymentTransactionCreateOrConnectWithoutReviewedByInput | Prisma.PaymentTransactionCreateOrConnectWithoutReviewedByInput[]
+  createMany?: Prisma.PaymentTransactionCreateManyReviewedByInputEnvelope
+  connect?: Prisma.PaymentTransactionWhereUniqueInput | Prisma.PaymentTransactionWhereUniqueInput[]
+}
+
 export type PaymentTransactionUncheckedCreateNestedManyWithoutUserInput = {
   create?: Prisma.XOR<Prisma.PaymentTransactionCreateWithoutUserInput, Prisma.PaymentTransactionUncheckedCreateWithoutUserInput> | Prisma.PaymentTransactionCreateWithoutUserInput[] | Prisma.PaymentTransactionUncheckedCreateWithoutUserInput[]
   connectOrCreate?: Prisma.PaymentTransactionCreateOrConnectWithoutUserInput | Prisma.PaymentTransactionCreateOrConnectWithoutUserInput[]
@@ -525,6 +893,13 @@ export type PaymentTransactionUncheckedCreateNestedManyWithoutUserInput = {
   connect?: Prisma.PaymentTransactionWhereUniqueInput | Prisma.PaymentTransactionWhereUniqueInput[]
 }
 
+export type PaymentTransactionUncheckedCreateNestedManyWithoutReviewedByInput = {
+  create?: Prisma.XOR<Prisma.PaymentTransactionCreateWithoutReviewedByInput, Prisma.PaymentTransactionUncheckedCreateWithoutReviewedByInput> | Prisma.PaymentTransactionCreateWithoutReviewedByInput[] | Prisma.PaymentTransactionUncheckedCreateWithoutReviewedByInput[]
+  connectOrCreate?: Prisma.PaymentTransactionCreateOrConnectWithoutReviewedByInput | Prisma.PaymentTransactionCreateOrConnectWithoutReviewedByInput[]
+  createMany?: Prisma.PaymentTransactionCreateManyReviewedByInputEnvelope
+  connect?: Prisma.PaymentTransactionWhereUniqueInput | Prisma.PaymentTransactionWhereUniqueInput[]
+}
+
 export type PaymentTransactionUpdateManyWithoutUserNestedInput = {
   create?: Prisma.XOR<Prisma.PaymentTransactionCreateWithoutUserInput, Prisma.PaymentTransactionUncheckedCreateWithoutUserInput> | Prisma.PaymentTransactionCreateWithoutUserInput[] | Prisma.PaymentTransactionUncheckedCreateWithoutUserInput[]
   connectOrCreate?: Prisma.PaymentTransactionCreateOrConnectWithoutUserInput | Prisma.PaymentTransactionCreateOrConnectWithoutUserInput[]
@@ -539,6 +914,20 @@ export type PaymentTransactionUpdateManyWithoutUserNestedInput = {
   deleteMany?: Prisma.PaymentTransactionScalarWhereInput | Prisma.PaymentTransactionScalarWhereInput[]
 }
 
+export type PaymentTransactionUpdateManyWithoutReviewedByNestedInput = {
+  create?: Prisma.XOR<Prisma.PaymentTransactionCreateWithoutReviewedByInput, Prisma.PaymentTransactionUncheckedCreateWithoutReviewedByInput> | Prisma.PaymentTransactionCreateWithoutReviewedByInput[] | Prisma.PaymentTransactionUncheckedCreateWithoutReviewedByInput[]
+  connectOrCreate?: Prisma.PaymentTransactionCreateOrConnectWithoutReviewedByInput | Prisma.PaymentTransactionCreateOrConnectWithoutReviewedByInput[]
+  upsert?: Prisma.PaymentTransactionUpsertWithWhereUniqueWithoutReviewedByInput | Prisma.PaymentTransactionUpsertWithWhereUniqueWithoutReviewedByInput[]
+  createMany?: Prisma.PaymentTransactionCreateManyReviewedByInputEnvelope
+  set?: Prisma.PaymentTransactionWhereUniqueInput | Prisma.PaymentTransactionWhereUniqueInput[]
+  disconnect?: Prisma.PaymentTransactionWhereUniqueInput | Prisma.PaymentTransactionWhereUniqueInput[]
+  delete?: Prisma.PaymentTransactionWhereUniqueInput | Prisma.PaymentTransactionWhereUniqueInput[]
+  connect?: Prisma.PaymentTransactionWhereUniqueInput | Prisma.PaymentTransactionWhereUniqueInput[]
+  update?: Prisma.PaymentTransactionUpdateWithWhereUniqueWithoutReviewedByInput | Prisma.PaymentTransactionUpdateWithWhereUniqueWithoutReviewedByInput[]
+  updateMany?: Prisma.PaymentTransactionUpdateManyWithWhereWithoutReviewedByInput | Prisma.PaymentTransactionUpdateManyWithWhereWithoutReviewedByInput[]
+  deleteMany?: Prisma.PaymentTransactionScalarWhereInput | Prisma.PaymentTransactionScalarWhereInput[]
+}
+
 export type PaymentTransactionUncheckedUpdateManyWithoutUserNestedInput = {
   create?: Prisma.XOR<Prisma.PaymentTransactionCreateWithoutUserInput, Prisma.PaymentTransactionUncheckedCreateWithoutUserInput> | Prisma.PaymentTransactionCreateWithoutUserInput[] | Prisma.PaymentTransactionUncheckedCreateWithoutUserInput[]
   connectOrCreate?: Prisma.PaymentTransactionCreateOrConnectWithoutUserInput | Prisma.PaymentTransactionCreateOrConnectWithoutUserInput[]
@@ -553,6 +942,20 @@ export type PaymentTransactionUncheckedUpdateManyWithoutUserNestedInput = {
   deleteMany?: Prisma.PaymentTransactionScalarWhereInput | Prisma.PaymentTransactionScalarWhereInput[]
 }
 
+export type PaymentTransactionUncheckedUpdateManyWithoutReviewedByNestedInput = {
+  create?: Prisma.XOR<Prisma.PaymentTransactionCreateWithoutReviewedByInput, Prisma.PaymentTransactionUncheckedCreateWithoutReviewedByInput> | Prisma.PaymentTransactionCreateWithoutReviewedByInput[] | Prisma.PaymentTransactionUncheckedCreateWithoutReviewedByInput[]
+  connectOrCreate?: Prisma.PaymentTransactionCreateOrConnectWithoutReviewedByInput | Prisma.PaymentTransactionCreateOrConnectWithoutReviewedByInput[]
+  upsert?: Prisma.PaymentTransactionUpsertWithWhereUniqueWithoutReviewedByInput | Prisma.PaymentTransactionUpsertWithWhereUniqueWithoutReviewedByInput[]
+  createMany?: Prisma.PaymentTransactionCreateManyReviewedByInputEnvelope
+  set?: Prisma.PaymentTransactionWhereUniqueInput | Prisma.PaymentTransactionWhereUniqueInput[]
+  disconnect?: Prisma.PaymentTransactionWhereUniqueInput | Prisma.PaymentTransactionWhereUniqueInput[]
+  delete?: Prisma.PaymentTransactionWhereUniqueInput | Prisma.PaymentTransactionWhereUniqueInput[]
+  connect?: Prisma.PaymentTransactionWhereUniqueInput | Prisma.PaymentTransactionWhereUniqueInput[]
+  update?: Prisma.PaymentTransactionUpdateWithWhereUniqueWithoutReviewedByInput | Prisma.PaymentTransactionUpdateWithWhereUniqueWithoutReviewedByInput[]
+  updateMany?: Prisma.PaymentTransactionUpdateManyWithWhereWithoutReviewedByInput | Prisma.PaymentTransactionUpdateManyWithWhereWithoutReviewedByInput[]
+  deleteMany?: Prisma.PaymentTransactionScalarWhereInput | Prisma.PaymentTransactionScalarWhereInput[]
+}
+
 export type PaymentTransactionCreateNestedManyWithoutOrderInput = {
   create?: Prisma.XOR<Prisma.PaymentTransactionCreateWithoutOrderInput, Prisma.PaymentTransactionUncheckedCreateWithoutOrderInput> | Prisma.PaymentTransactionCreateWithoutOrderInput[] | Prisma.PaymentTransactionUncheckedCreateWithoutOrderInput[]
   connectOrCreate?: Prisma.PaymentTransactionCreateOrConnectWithoutOrderInput | Prisma.PaymentTransactionCreateOrConnectWithoutOrderInput[]
@@ -603,18 +1006,175 @@ export type EnumPaymentProviderFieldUpdateOperationsInput = {
   set?: $Enums.PaymentProvider
 }
 
+export type PaymentTransactionCreateNestedManyWithoutInstallmentPlanInput = {
+  create?: Prisma.XOR<Prisma.PaymentTransactionCreateWithoutInstallmentPlanInput, Prisma.PaymentTransactionUncheckedCreateWithoutInstallmentPlanInput> | Prisma.PaymentTransactionCreateWithoutInstallmentPlanInput[] | Prisma.PaymentTransactionUncheckedCreateWithoutInstallmentPlanInput[]
+  connectOrCreate?: Prisma.PaymentTransactionCreateOrConnectWithoutInstallmentPlanInput | Prisma.PaymentTransactionCreateOrConnectWithoutInstallmentPlanInput[]
+  createMany?: Prisma.PaymentTransactionCreateManyInstallmentPlanInputEnvelope
+  connect?: Prisma.PaymentTransactionWhereUniqueInput | Prisma.PaymentTransactionWhereUniqueInput[]
+}
+
+export type PaymentTransactionUncheckedCreateNestedManyWithoutInstallmentPlanInput = {
+  create?: Prisma.XOR<Prisma.PaymentTransactionCreateWithoutInstallmentPlanInput, Prisma.PaymentTransactionUncheckedCreateWithoutInstallmentPlanInput> | Prisma.PaymentTransactionCreateWithoutInstallmentPlanInput[] | Prisma.PaymentTransactionUncheckedCreateWithoutInstallmentPlanInput[]
+  connectOrCreate?: Prisma.PaymentTransactionCreateOrConnectWithoutInstallmentPlanInput | Prisma.PaymentTransactionCreateOrConnectWithoutInstallmentPlanInput[]
+  createMany?: Prisma.PaymentTransactionCreateManyInstallmentPlanInputEnvelope
+  connect?: Prisma.PaymentTransactionWhereUniqueInput | Prisma.PaymentTransactionWhereUniqueInput[]
+}
+
+export type PaymentTransactionUpdateManyWithoutInstallmentPlanNestedInput = {
+  create?: Prisma.XOR<Prisma.PaymentTransactionCreateWithoutInstallmentPlanInput, Prisma.PaymentTransactionUncheckedCreateWithoutInstallmentPlanInput> | Prisma.PaymentTransactionCreateWithoutInstallmentPlanInput[] | Prisma.PaymentTransactionUncheckedCreateWithoutInstallmentPlanInput[]
+  connectOrCreate?: Prisma.PaymentTransactionCreateOrConnectWithoutInstallmentPlanInput | Prisma.PaymentTransactionCreateOrConnectWithoutInstallmentPlanInput[]
+  upsert?: Prisma.PaymentTransactionUpsertWithWhereUniqueWithoutInstallmentPlanInput | Prisma.PaymentTransactionUpsertWithWhereUniqueWithoutInstallmentPlanInput[]
+  createMany?: Prisma.PaymentTransactionCreateManyInstallmentPlanInputEnvelope
+  set?: Prisma.PaymentTransactionWhereUniqueInput | Prisma.PaymentTransactionWhereUniqueInput[]
+  disconnect?: Prisma.PaymentTransactionWhereUniqueInput | Prisma.PaymentTransactionWhereUniqueInput[]
+  delete?: Prisma.PaymentTransactionWhereUniqueInput | Prisma.PaymentTransactionWhereUniqueInput[]
+  connect?: Prisma.PaymentTransactionWhereUniqueInput | Prisma.PaymentTransactionWhereUniqueInput[]
+  update?: Prisma.PaymentTransactionUpdateWithWhereUniqueWithoutInstallmentPlanInput | Prisma.PaymentTransactionUpdateWithWhereUniqueWithoutInstallmentPlanInput[]
+  updateMany?: Prisma.PaymentTransactionUpdateManyWithWhereWithoutInstallmentPlanInput | Prisma.PaymentTransactionUpdateManyWithWhereWithoutInstallmentPlanInput[]
+  deleteMany?: Prisma.PaymentTransactionScalarWhereInput | Prisma.PaymentTransactionScalarWhereInput[]
+}
+
+export type PaymentTransactionUncheckedUpdateManyWithoutInstallmentPlanNestedInput = {
+  create?: Prisma.XOR<Prisma.PaymentTransactionCreateWithoutInstallmentPlanInput, Prisma.PaymentTransactionUncheckedCreateWithoutInstallmentPlanInput> | Prisma.PaymentTransactionCreateWithoutInstallmentPlanInput[] | Prisma.PaymentTransactionUncheckedCreateWithoutInstallmentPlanInput[]
+  connectOrCreate?: Prisma.PaymentTransactionCreateOrConnectWithoutInstallmentPlanInput | Prisma.PaymentTransactionCreateOrConnectWithoutInstallmentPlanInput[]
+  upsert?: Prisma.PaymentTransactionUpsertWithWhereUniqueWithoutInstallmentPlanInput | Prisma.PaymentTransactionUpsertWithWhereUniqueWithoutInstallmentPlanInput[]
+  createMany?: Prisma.PaymentTransactionCreateManyInstallmentPlanInputEnvelope
+  set?: Prisma.PaymentTransactionWhereUniqueInput | Prisma.PaymentTransactionWhereUniqueInput[]
+  disconnect?: Prisma.PaymentTransactionWhereUniqueInput | Prisma.PaymentTransactionWhereUniqueInput[]
+  delete?: Prisma.PaymentTransactionWhereUniqueInput | Prisma.PaymentTransactionWhereUniqueInput[]
+  connect?: Prisma.PaymentTransactionWhereUniqueInput | Prisma.PaymentTransactionWhereUniqueInput[]
+  update?: Prisma.PaymentTransactionUpdateWithWhereUniqueWithoutInstallmentPlanInput | Prisma.PaymentTransactionUpdateWithWhereUniqueWithoutInstallmentPlanInput[]
+  updateMany?: Prisma.PaymentTransactionUpdateManyWithWhereWithoutInstallmentPlanInput | Prisma.PaymentTransactionUpdateManyWithWhereWithoutInstallmentPlanInput[]
+  deleteMany?: Prisma.PaymentTransactionScalarWhereInput | Prisma.PaymentTransactionScalarWhereInput[]
+}
+
+export type PaymentTransactionCreateNestedManyWithoutExchangeRateRecordInput = {
+  create?: Prisma.XOR<Prisma.PaymentTransactionCreateWithoutExchangeRateRecordInput, Prisma.PaymentTransactionUncheckedCreateWithoutExchangeRateRecordInput> | Prisma.PaymentTransactionCreateWithoutExchangeRateRecordInput[] | Prisma.PaymentTransactionUncheckedCreateWithoutExchangeRateRecordInput[]
+  connectOrCreate?: Prisma.PaymentTransactionCreateOrConnectWithoutExchangeRateRecordInput | Prisma.PaymentTransactionCreateOrConnectWithoutExchangeRateRecordInput[]
+  createMany?: Prisma.PaymentTransactionCreateManyExchangeRateRecordInputEnvelope
+  connect?: Prisma.PaymentTransactionWhereUniqueInput | Prisma.PaymentTransactionWhereUniqueInput[]
+}
+
+export type PaymentTransactionUncheckedCreateNestedManyWithoutExchangeRateRecordInput = {
+  create?: Prisma.XOR<Prisma.PaymentTransactionCreateWithoutExchangeRateRecordInput, Prisma.PaymentTransactionUncheckedCreateWithoutExchangeRateRecordInput> | Prisma.PaymentTransactionCreateWithoutExchangeRateRecordInput[] | Prisma.PaymentTransactionUncheckedCreateWithoutExchangeRateRecordInput[]
+  connectOrCreate?: Prisma.PaymentTransactionCreateOrConnectWithoutExchangeRateRecordInput | Prisma.PaymentTransactionCreateOrConnectWithoutExchangeRateRecordInput[]
+  createMany?: Prisma.PaymentTransactionCreateManyExchangeRateRecordInputEnvelope
+  connect?: Prisma.PaymentTransactionWhereUniqueInput | Prisma.PaymentTransactionWhereUniqueInput[]
+}
+
+export type PaymentTransactionUpdateManyWithoutExchangeRateRecordNestedInput = {
+  create?: Prisma.XOR<Prisma.PaymentTransactionCreateWithoutExchangeRateRecordInput, Prisma.PaymentTransactionUncheckedCreateWithoutExchangeRateRecordInput> | Prisma.PaymentTransactionCreateWithoutExchangeRateRecordInput[] | Prisma.PaymentTransactionUncheckedCreateWithoutExchangeRateRecordInput[]
+  connectOrCreate?: Prisma.PaymentTransactionCreateOrConnectWithoutExchangeRateRecordInput | Prisma.PaymentTransactionCreateOrConnectWithoutExchangeRateRecordInput[]
+  upsert?: Prisma.PaymentTransactionUpsertWithWhereUniqueWithoutExchangeRateRecordInput | Prisma.PaymentTransactionUpsertWithWhereUniqueWithoutExchangeRateRecordInput[]
+  createMany?: Prisma.PaymentTransactionCreateManyExchangeRateRecordInputEnvelope
+  set?: Prisma.PaymentTransactionWhereUniqueInput | Prisma.PaymentTransactionWhereUniqueInput[]
+  disconnect?: Prisma.PaymentTransactionWhereUniqueInput | Prisma.PaymentTransactionWhereUniqueInput[]
+  delete?: Prisma.PaymentTransactionWhereUniqueInput | Prisma.PaymentTransactionWhereUniqueInput[]
+  connect?: Prisma.PaymentTransactionWhereUniqueInput | Prisma.PaymentTransactionWhereUniqueInput[]
+  update?: Prisma.PaymentTransactionUpdateWithWhereUniqueWithoutExchangeRateRecordInput | Prisma.PaymentTransactionUpdateWithWhereUniqueWithoutExchangeRateRecordInput[]
+  updateMany?: Prisma.PaymentTransactionUpdateManyWithWhereWithoutExchangeRateRecordInput | Prisma.PaymentTransactionUpdateManyWithWhereWithoutExchangeRateRecordInput[]
+  deleteMany?: Prisma.PaymentTransactionScalarWhereInput | Prisma.PaymentTransactionScalarWhereInput[]
+}
+
+export type PaymentTransactionUncheckedUpdateManyWithoutExchangeRateRecordNestedInput = {
+  create?: Prisma.XOR<Prisma.PaymentTransactionCreateWithoutExchangeRateRecordInput, Prisma.PaymentTransactionUncheckedCreateWithoutExchangeRateRecordInput> | Prisma.PaymentTransactionCreateWithoutExchangeRateRecordInput[] | Prisma.PaymentTransactionUncheckedCreateWithoutExchangeRateRecordInput[]
+  connectOrCreate?: Prisma.PaymentTransactionCreateOrConnectWithoutExchangeRateRecordInput | Prisma.PaymentTransactionCreateOrConnectWithoutExchangeRateRecordInput[]
+  upsert?: Prisma.PaymentTransactionUpsertWithWhereUniqueWithoutExchangeRateRecordInput | Prisma.PaymentTransactionUpsertWithWhereUniqueWithoutExchangeRateRecordInput[]
+  createMany?: Prisma.PaymentTransactionCreateManyExchangeRateRecordInputEnvelope
+  set?: Prisma.PaymentTransactionWhereUniqueInput | Prisma.PaymentTransactionWhereUniqueInput[]
+  disconnect?: Prisma.PaymentTransactionWhereUniqueInput | Prisma.PaymentTransactionWhereUniqueInput[]
+  delete?: Prisma.PaymentTransactionWhereUniqueInput | Prisma.PaymentTransactionWhereUniqueInput[]
+  connect?: Prisma.PaymentTransactionWhereUniqueInput | Prisma.PaymentTransactionWhereUniqueInput[]
+  update?: Prisma.PaymentTransactionUpdateWithWhereUniqueWithoutExchangeRateRecordInput | Prisma.PaymentTransactionUpdateWithWhereUniqueWithoutExchangeRateRecordInput[]
+  updateMany?: Prisma.PaymentTransactionUpdateManyWithWhereWithoutExchangeRateRecordInput | Prisma.PaymentTransactionUpdateManyWithWhereWithoutExchangeRateRecordInput[]
+  deleteMany?: Prisma.PaymentTransactionScalarWhereInput | Prisma.PaymentTransactionScalarWhereInput[]
+}
+
+export type PaymentTransactionCreateNestedOneWithoutRefundsInput = {
+  create?: Prisma.XOR<Prisma.PaymentTransactionCreateWithoutRefundsInput, Prisma.PaymentTransactionUncheckedCreateWithoutRefundsInput>
+  connectOrCreate?: Prisma.PaymentTransactionCreateOrConnectWithoutRefundsInput
+  connect?: Prisma.PaymentTransactionWhereUniqueInput
+}
+
+export type PaymentTransactionUpdateOneRequiredWithoutRefundsNestedInput = {
+  create?: Prisma.XOR<Prisma.PaymentTransactionCreateWithoutRefundsInput, Prisma.PaymentTransactionUncheckedCreateWithoutRefundsInput>
+  connectOrCreate?: Prisma.PaymentTransactionCreateOrConnectWithoutRefundsInput
+  upsert?: Prisma.PaymentTransactionUpsertWithoutRefundsInput
+  connect?: Prisma.PaymentTransactionWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.PaymentTransactionUpdateToOneWithWhereWithoutRefundsInput, Prisma.PaymentTransactionUpdateWithoutRefundsInput>, Prisma.PaymentTransactionUncheckedUpdateWithoutRefundsInput>
+}
+
+export type PaymentTransactionCreateNestedOneWithoutStatusChangesInput = {
+  create?: Prisma.XOR<Prisma.PaymentTransactionCreateWithoutStatusChangesInput, Prisma.PaymentTransactionUncheckedCreateWithoutStatusChangesInput>
+  connectOrCreate?: Prisma.PaymentTransactionCreateOrConnectWithoutStatusChangesInput
+  connect?: Prisma.PaymentTransactionWhereUniqueInput
+}
+
+export type PaymentTransactionUpdateOneRequiredWithoutStatusChangesNestedInput = {
+  create?: Prisma.XOR<Prisma.PaymentTransactionCreateWithoutStatusChangesInput, Prisma.PaymentTransactionUncheckedCreateWithoutStatusChangesInput>
+  connectOrCreate?: Prisma.PaymentTransactionCreateOrConnectWithoutStatusChangesInput
+  upsert?: Prisma.PaymentTransactionUpsertWithoutStatusChangesInput
+  connect?: Prisma.PaymentTransactionWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.PaymentTransactionUpdateToOneWithWhereWithoutStatusChangesInput, Prisma.PaymentTransactionUpdateWithoutStatusChangesInput>, Prisma.PaymentTransactionUncheckedUpdateWithoutStatusChangesInput>
+}
+
+export type PaymentTransactionCreateNestedOneWithoutReconciliationItemsInput = {
+  create?: Prisma.XOR<Prisma.PaymentTransactionCreateWithoutReconciliationItemsInput, Prisma.PaymentTransactionUncheckedCreateWithoutReconciliationItemsInput>
+  connectOrCreate?: Prisma.PaymentTransactionCreateOrConnectWithoutReconciliationItemsInput
+  connect?: Prisma.PaymentTransactionWhereUniqueInput
+}
+
+export type PaymentTransactionUpdateOneRequiredWithoutReconciliationItemsNestedInput = {
+  create?: Prisma.XOR<Prisma.PaymentTransactionCreateWithoutReconciliationItemsInput, Prisma.PaymentTransactionUncheckedCreateWithoutReconciliationItemsInput>
+  connectOrCreate?: Prisma.PaymentTransactionCreateOrConnectWithoutReconciliationItemsInput
+  upsert?: Prisma.PaymentTransactionUpsertWithoutReconciliationItemsInput
+  connect?: Prisma.PaymentTransactionWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.PaymentTransactionUpdateToOneWithWhereWithoutReconciliationItemsInput, Prisma.PaymentTransactionUpdateWithoutReconciliationItemsInput>, Prisma.PaymentTransactionUncheckedUpdateWithoutReconciliationItemsInput>
+}
+
+export type PaymentTransactionCreateNestedOneWithoutCryptoPaymentInput = {
+  create?: Prisma.XOR<Prisma.PaymentTransactionCreateWithoutCryptoPaymentInput, Prisma.PaymentTransactionUncheckedCreateWithoutCryptoPaymentInput>
+  connectOrCreate?: Prisma.PaymentTransactionCreateOrConnectWithoutCryptoPaymentInput
+  connect?: Prisma.PaymentTransactionWhereUniqueInput
+}
+
+export type PaymentTransactionUpdateOneRequiredWithoutCryptoPaymentNestedInput = {
+  create?: Prisma.XOR<Prisma.PaymentTransactionCreateWithoutCryptoPaymentInput, Prisma.PaymentTransactionUncheckedCreateWithoutCryptoPaymentInput>
+  connectOrCreate?: Prisma.PaymentTransactionCreateOrConnectWithoutCryptoPaymentInput
+  upsert?: Prisma.PaymentTransactionUpsertWithoutCryptoPaymentInput
+  connect?: Prisma.PaymentTransactionWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.PaymentTransactionUpdateToOneWithWhereWithoutCryptoPaymentInput, Prisma.PaymentTransactionUpdateWithoutCryptoPaymentInput>, Prisma.PaymentTransactionUncheckedUpdateWithoutCryptoPaymentInput>
+}
+
 export type PaymentTransactionCreateWithoutUserInput = {
   id?: string
   clientTransactionId: string
   amount: runtime.Decimal | runtime.DecimalJsLike | number | string
+  taxAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  taxableAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string
   status?: $Enums.PaymentStatus
   paymentProvider?: $Enums.PaymentProvider
   addressId?: string | null
   paymentMethodId?: string | null
   payphoneData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  refundedAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  reviewedAt?: Date | string | null
+  reviewNote?: string | null
+  requiresReview?: boolean
+  chargedCurrency?: string | null
+  chargedAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  exchangeRate?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  installments?: number
   createdAt?: Date | string
   updatedAt?: Date | string
   order?: Prisma.OrderCreateNestedOneWithoutPaymentsInput
+  reviewedBy?: Prisma.UserCreateNestedOneWithoutReviewedDepositsInput
+  exchangeRateRecord?: Prisma.ExchangeRateCreateNestedOneWithoutTransactionsInput
+  installmentPlan?: Prisma.InstallmentPlanCreateNestedOneWithoutTransactionsInput
+  refunds?: Prisma.RefundCreateNestedManyWithoutTransactionInput
+  statusChanges?: Prisma.PaymentStatusChangeCreateNestedManyWithoutTransactionInput
+  reconciliationItems?: Prisma.ReconciliationItemCreateNestedManyWithoutTransactionInput
+  cryptoPayment?: Prisma.CryptoPaymentCreateNestedOneWithoutTransactionInput
 }
 
 export type PaymentTransactionUncheckedCreateWithoutUserInput = {
@@ -622,13 +1182,30 @@ export type PaymentTransactionUncheckedCreateWithoutUserInput = {
   orderId?: string | null
   clientTransactionId: string
   amount: runtime.Decimal | runtime.DecimalJsLike | number | string
+  taxAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  taxableAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string
   status?: $Enums.PaymentStatus
   paymentProvider?: $Enums.PaymentProvider
   addressId?: string | null
   paymentMethodId?: string | null
   payphoneData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  refundedAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  reviewedById?: string | null
+  reviewedAt?: Date | string | null
+  reviewNote?: string | null
+  requiresReview?: boolean
+  chargedCurrency?: string | null
+  chargedAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  exchangeRate?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  exchangeRateId?: string | null
+  installments?: number
+  installmentPlanId?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
+  refunds?: Prisma.RefundUncheckedCreateNestedManyWithoutTransactionInput
+  statusChanges?: Prisma.PaymentStatusChangeUncheckedCreateNestedManyWithoutTransactionInput
+  reconciliationItems?: Prisma.ReconciliationItemUncheckedCreateNestedManyWithoutTransactionInput
+  cryptoPayment?: Prisma.CryptoPaymentUncheckedCreateNestedOneWithoutTransactionInput
 }
 
 export type PaymentTransactionCreateOrConnectWithoutUserInput = {
@@ -641,6 +1218,78 @@ export type PaymentTransactionCreateManyUserInputEnvelope = {
   skipDuplicates?: boolean
 }
 
+export type PaymentTransactionCreateWithoutReviewedByInput = {
+  id?: string
+  clientTransactionId: string
+  amount: runtime.Decimal | runtime.DecimalJsLike | number | string
+  taxAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  taxableAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  status?: $Enums.PaymentStatus
+  paymentProvider?: $Enums.PaymentProvider
+  addressId?: string | null
+  paymentMethodId?: string | null
+  payphoneData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  refundedAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  reviewedAt?: Date | string | null
+  reviewNote?: string | null
+  requiresReview?: boolean
+  chargedCurrency?: string | null
+  chargedAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  exchangeRate?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  installments?: number
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  order?: Prisma.OrderCreateNestedOneWithoutPaymentsInput
+  user: Prisma.UserCreateNestedOneWithoutPaymentTransactionsInput
+  exchangeRateRecord?: Prisma.ExchangeRateCreateNestedOneWithoutTransactionsInput
+  installmentPlan?: Prisma.InstallmentPlanCreateNestedOneWithoutTransactionsInput
+  refunds?: Prisma.RefundCreateNestedManyWithoutTransactionInput
+  statusChanges?: Prisma.PaymentStatusChangeCreateNestedManyWithoutTransactionInput
+  reconciliationItems?: Prisma.ReconciliationItemCreateNestedManyWithoutTransactionInput
+  cryptoPayment?: Prisma.CryptoPaymentCreateNestedOneWithoutTransactionInput
+}
+
+export type PaymentTransactionUncheckedCreateWithoutReviewedByInput = {
+  id?: string
+  orderId?: string | null
+  userId: string
+  clientTransactionId: string
+  amount: runtime.Decimal | runtime.DecimalJsLike | number | string
+  taxAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  taxableAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  status?: $Enums.PaymentStatus
+  paymentProvider?: $Enums.PaymentProvider
+  addressId?: string | null
+  paymentMethodId?: string | null
+  payphoneData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  refundedAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  reviewedAt?: Date | string | null
+  reviewNote?: string | null
+  requiresReview?: boolean
+  chargedCurrency?: string | null
+  chargedAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  exchangeRate?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  exchangeRateId?: string | null
+  installments?: number
+  installmentPlanId?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  refunds?: Prisma.RefundUncheckedCreateNestedManyWithoutTransactionInput
+  statusChanges?: Prisma.PaymentStatusChangeUncheckedCreateNestedManyWithoutTransactionInput
+  reconciliationItems?: Prisma.ReconciliationItemUncheckedCreateNestedManyWithoutTransactionInput
+  cryptoPayment?: Prisma.CryptoPaymentUncheckedCreateNestedOneWithoutTransactionInput
+}
+
+export type PaymentTransactionCreateOrConnectWithoutReviewedByInput = {
+  where: Prisma.PaymentTransactionWhereUniqueInput
+  create: Prisma.XOR<Prisma.PaymentTransactionCreateWithoutReviewedByInput, Prisma.PaymentTransactionUncheckedCreateWithoutReviewedByInput>
+}
+
+export type PaymentTransactionCreateManyReviewedByInputEnvelope = {
+  data: Prisma.PaymentTransactionCreateManyReviewedByInput | Prisma.PaymentTransactionCreateManyReviewedByInput[]
+  skipDuplicates?: boolean
+}
+
 export type PaymentTransactionUpsertWithWhereUniqueWithoutUserInput = {
   where: Prisma.PaymentTransactionWhereUniqueInput
   update: Prisma.XOR<Prisma.PaymentTransactionUpdateWithoutUserInput, Prisma.PaymentTransactionUncheckedUpdateWithoutUserInput>
@@ -652,196 +1301,1510 @@ export type PaymentTransactionUpdateWithWhereUniqueWithoutUserInput = {
   data: Prisma.XOR<Prisma.PaymentTransactionUpdateWithoutUserInput, Prisma.PaymentTransactionUncheckedUpdateWithoutUserInput>
 }
 
-export type PaymentTransactionUpdateManyWithWhereWithoutUserInput = {
-  where: Prisma.PaymentTransactionScalarWhereInput
-  data: Prisma.XOR<Prisma.PaymentTransactionUpdateManyMutationInput, Prisma.PaymentTransactionUncheckedUpdateManyWithoutUserInput>
+export type PaymentTransactionUpdateManyWithWhereWithoutUserInput = {
+  where: Prisma.PaymentTransactionScalarWhereInput
+  data: Prisma.XOR<Prisma.PaymentTransactionUpdateManyMutationInput, Prisma.PaymentTransactionUncheckedUpdateManyWithoutUserInput>
+}
+
+export type PaymentTransactionScalarWhereInput = {
+  AND?: Prisma.PaymentTransactionScalarWhereInput | Prisma.PaymentTransactionScalarWhereInput[]
+  OR?: Prisma.PaymentTransactionScalarWhereInput[]
+  NOT?: Prisma.PaymentTransactionScalarWhereInput | Prisma.PaymentTransactionScalarWhereInput[]
+  id?: Prisma.StringFilter<"PaymentTransaction"> | string
+  orderId?: Prisma.StringNullableFilter<"PaymentTransaction"> | string | null
+  userId?: Prisma.StringFilter<"PaymentTransaction"> | string
+  clientTransactionId?: Prisma.StringFilter<"PaymentTransaction"> | string
+  amount?: Prisma.DecimalFilter<"PaymentTransaction"> | runtime.Decimal | runtime.DecimalJsLike | number | string
+  taxAmount?: Prisma.DecimalFilter<"PaymentTransaction"> | runtime.Decimal | runtime.DecimalJsLike | number | string
+  taxableAmount?: Prisma.DecimalFilter<"PaymentTransaction"> | runtime.Decimal | runtime.DecimalJsLike | number | string
+  status?: Prisma.EnumPaymentStatusFilter<"PaymentTransaction"> | $Enums.PaymentStatus
+  paymentProvider?: Prisma.EnumPaymentProviderFilter<"PaymentTransaction"> | $Enums.PaymentProvider
+  addressId?: Prisma.StringNullableFilter<"PaymentTransaction"> | string | null
+  paymentMethodId?: Prisma.StringNullableFilter<"PaymentTransaction"> | string | null
+  payphoneData?: Prisma.JsonNullableFilter<"PaymentTransaction">
+  refundedAmount?: Prisma.DecimalFilter<"PaymentTransaction"> | runtime.Decimal | runtime.DecimalJsLike | number | string
+  reviewedById?: Prisma.StringNullableFilter<"PaymentTransaction"> | string | null
+  reviewedAt?: Prisma.DateTimeNullableFilter<"PaymentTransaction"> | Date | string | null
+  reviewNote?: Prisma.StringNullableFilter<"PaymentTransaction"> | string | null
+  requiresReview?: Prisma.BoolFilter<"PaymentTransaction"> | boolean
+  chargedCurrency?: Prisma.StringNullableFilter<"PaymentTransaction"> | string | null
+  chargedAmount?: Prisma.DecimalNullableFilter<"PaymentTransaction"> | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  exchangeRate?: Prisma.DecimalNullableFilter<"PaymentTransaction"> | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  exchangeRateId?: Prisma.StringNullableFilter<"PaymentTransaction"> | string | null
+  installments?: Prisma.IntFilter<"PaymentTransaction"> | number
+  installmentPlanId?: Prisma.StringNullableFilter<"PaymentTransaction"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"PaymentTransaction"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"PaymentTransaction"> | Date | string
+}
+
+export type PaymentTransactionUpsertWithWhereUniqueWithoutReviewedByInput = {
+  where: Prisma.PaymentTransactionWhereUniqueInput
+  update: Prisma.XOR<Prisma.PaymentTransactionUpdateWithoutReviewedByInput, Prisma.PaymentTransactionUncheckedUpdateWithoutReviewedByInput>
+  create: Prisma.XOR<Prisma.PaymentTransactionCreateWithoutReviewedByInput, Prisma.PaymentTransactionUncheckedCreateWithoutReviewedByInput>
+}
+
+export type PaymentTransactionUpdateWithWhereUniqueWithoutReviewedByInput = {
+  where: Prisma.PaymentTransactionWhereUniqueInput
+  data: Prisma.XOR<Prisma.PaymentTransactionUpdateWithoutReviewedByInput, Prisma.PaymentTransactionUncheckedUpdateWithoutReviewedByInput>
+}
+
+export type PaymentTransactionUpdateManyWithWhereWithoutReviewedByInput = {
+  where: Prisma.PaymentTransactionScalarWhereInput
+  data: Prisma.XOR<Prisma.PaymentTransactionUpdateManyMutationInput, Prisma.PaymentTransactionUncheckedUpdateManyWithoutReviewedByInput>
+}
+
+export type PaymentTransactionCreateWithoutOrderInput = {
+  id?: string
+  clientTransactionId: string
+  amount: runtime.Decimal | runtime.DecimalJsLike | number | string
+  taxAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  taxableAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  status?: $Enums.PaymentStatus
+  paymentProvider?: $Enums.PaymentProvider
+  addressId?: string | null
+  paymentMethodId?: string | null
+  payphoneData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  refundedAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  reviewedAt?: Date | string | null
+  reviewNote?: string | null
+  requiresReview?: boolean
+  chargedCurrency?: string | null
+  chargedAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  exchangeRate?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  installments?: number
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  user: Prisma.UserCreateNestedOneWithoutPaymentTransactionsInput
+  reviewedBy?: Prisma.UserCreateNestedOneWithoutReviewedDepositsInput
+  exchangeRateRecord?: Prisma.ExchangeRateCreateNestedOneWithoutTransactionsInput
+  installmentPlan?: Prisma.InstallmentPlanCreateNestedOneWithoutTransactionsInput
+  refunds?: Prisma.RefundCreateNestedManyWithoutTransactionInput
+  statusChanges?: Prisma.PaymentStatusChangeCreateNestedManyWithoutTransactionInput
+  reconciliationItems?: Prisma.ReconciliationItemCreateNestedManyWithoutTransactionInput
+  cryptoPayment?: Prisma.CryptoPaymentCreateNestedOneWithoutTransactionInput
+}
+
+export type PaymentTransactionUncheckedCreateWithoutOrderInput = {
+  id?: string
+  userId: string
+  clientTransactionId: string
+  amount: runtime.Decimal | runtime.DecimalJsLike | number | string
+  taxAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  taxableAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  status?: $Enums.PaymentStatus
+  paymentProvider?: $Enums.PaymentProvider
+  addressId?: string | null
+  paymentMethodId?: string | null
+  payphoneData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  refundedAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  reviewedById?: string | null
+  reviewedAt?: Date | string | null
+  reviewNote?: string | null
+  requiresReview?: boolean
+  chargedCurrency?: string | null
+  chargedAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  exchangeRate?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  exchangeRateId?: string | null
+  installments?: number
+  installmentPlanId?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  refunds?: Prisma.RefundUncheckedCreateNestedManyWithoutTransactionInput
+  statusChanges?: Prisma.PaymentStatusChangeUncheckedCreateNestedManyWithoutTransactionInput
+  reconciliationItems?: Prisma.ReconciliationItemUncheckedCreateNestedManyWithoutTransactionInput
+  cryptoPayment?: Prisma.CryptoPaymentUncheckedCreateNestedOneWithoutTransactionInput
+}
+
+export type PaymentTransactionCreateOrConnectWithoutOrderInput = {
+  where: Prisma.PaymentTransactionWhereUniqueInput
+  create: Prisma.XOR<Prisma.PaymentTransactionCreateWithoutOrderInput, Prisma.PaymentTransactionUncheckedCreateWithoutOrderInput>
+}
+
+export type PaymentTransactionCreateManyOrderInputEnvelope = {
+  data: Prisma.PaymentTransactionCreateManyOrderInput | Prisma.PaymentTransactionCreateManyOrderInput[]
+  skipDuplicates?: boolean
+}
+
+export type PaymentTransactionUpsertWithWhereUniqueWithoutOrderInput = {
+  where: Prisma.PaymentTransactionWhereUniqueInput
+  update: Prisma.XOR<Prisma.PaymentTransactionUpdateWithoutOrderInput, Prisma.PaymentTransactionUncheckedUpdateWithoutOrderInput>
+  create: Prisma.XOR<Prisma.PaymentTransactionCreateWithoutOrderInput, Prisma.PaymentTransactionUncheckedCreateWithoutOrderInput>
+}
+
+export type PaymentTransactionUpdateWithWhereUniqueWithoutOrderInput = {
+  where: Prisma.PaymentTransactionWhereUniqueInput
+  data: Prisma.XOR<Prisma.PaymentTransactionUpdateWithoutOrderInput, Prisma.PaymentTransactionUncheckedUpdateWithoutOrderInput>
+}
+
+export type PaymentTransactionUpdateManyWithWhereWithoutOrderInput = {
+  where: Prisma.PaymentTransactionScalarWhereInput
+  data: Prisma.XOR<Prisma.PaymentTransactionUpdateManyMutationInput, Prisma.PaymentTransactionUncheckedUpdateManyWithoutOrderInput>
+}
+
+export type PaymentTransactionCreateWithoutInstallmentPlanInput = {
+  id?: string
+  clientTransactionId: string
+  amount: runtime.Decimal | runtime.DecimalJsLike | number | string
+  taxAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  taxableAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  status?: $Enums.PaymentStatus
+  paymentProvider?: $Enums.PaymentProvider
+  addressId?: string | null
+  paymentMethodId?: string | null
+  payphoneData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  refundedAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  reviewedAt?: Date | string | null
+  reviewNote?: string | null
+  requiresReview?: boolean
+  chargedCurrency?: string | null
+  chargedAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  exchangeRate?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  installments?: number
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  order?: Prisma.OrderCreateNestedOneWithoutPaymentsInput
+  user: Prisma.UserCreateNestedOneWithoutPaymentTransactionsInput
+  reviewedBy?: Prisma.UserCreateNestedOneWithoutReviewedDepositsInput
+  exchangeRateRecord?: Prisma.ExchangeRateCreateNestedOneWithoutTransactionsInput
+  refunds?: Prisma.RefundCreateNestedManyWithoutTransactionInput
+  statusChanges?: Prisma.PaymentStatusChangeCreateNestedManyWithoutTransactionInput
+  reconciliationItems?: Prisma.ReconciliationItemCreateNestedManyWithoutTransactionInput
+  cryptoPayment?: Prisma.CryptoPaymentCreateNestedOneWithoutTransactionInput
+}
+
+export type PaymentTransactionUncheckedCreateWithoutInstallmentPlanInput = {
+  id?: string
+  orderId?: string | null
+  userId: string
+  clientTransactionId: string
+  amount: runtime.Decimal | runtime.DecimalJsLike | number | string
+  taxAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  taxableAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  status?: $Enums.PaymentStatus
+  paymentProvider?: $Enums.PaymentProvider
+  addressId?: string | null
+  paymentMethodId?: string | null
+  payphoneData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  refundedAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  reviewedById?: string | null
+  reviewedAt?: Date | string | null
+  reviewNote?: string | null
+  requiresReview?: boolean
+  chargedCurrency?: string | null
+  chargedAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  exchangeRate?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  exchangeRateId?: string | null
+  installments?: number
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  refunds?: Prisma.RefundUncheckedCreateNestedManyWithoutTransactionInput
+  statusChanges?: Prisma.PaymentStatusChangeUncheckedCreateNestedManyWithoutTransactionInput
+  reconciliationItems?: Prisma.ReconciliationItemUncheckedCreateNestedManyWithoutTransactionInput
+  cryptoPayment?: Prisma.CryptoPaymentUncheckedCreateNestedOneWithoutTransactionInput
+}
+
+export type PaymentTransactionCreateOrConnectWithoutInstallmentPlanInput = {
+  where: Prisma.PaymentTransactionWhereUniqueInput
+  create: Prisma.XOR<Prisma.PaymentTransactionCreateWithoutInstallmentPlanInput, Prisma.PaymentTransactionUncheckedCreateWithoutInstallmentPlanInput>
+}
+
+export type PaymentTransactionCreateManyInstallmentPlanInputEnvelope = {
+  data: Prisma.PaymentTransactionCreateManyInstallmentPlanInput | Prisma.PaymentTransactionCreateManyInstallmentPlanInput[]
+  skipDuplicates?: boolean
+}
+
+export type PaymentTransactionUpsertWithWhereUniqueWithoutInstallmentPlanInput = {
+  where: Prisma.PaymentTransactionWhereUniqueInput
+  update: Prisma.XOR<Prisma.PaymentTransactionUpdateWithoutInstallmentPlanInput, Prisma.PaymentTransactionUncheckedUpdateWithoutInstallmentPlanInput>
+  create: Prisma.XOR<Prisma.PaymentTransactionCreateWithoutInstallmentPlanInput, Prisma.PaymentTransactionUncheckedCreateWithoutInstallmentPlanInput>
+}
+
+export type PaymentTransactionUpdateWithWhereUniqueWithoutInstallmentPlanInput = {
+  where: Prisma.PaymentTransactionWhereUniqueInput
+  data: Prisma.XOR<Prisma.PaymentTransactionUpdateWithoutInstallmentPlanInput, Prisma.PaymentTransactionUncheckedUpdateWithoutInstallmentPlanInput>
+}
+
+export type PaymentTransactionUpdateManyWithWhereWithoutInstallmentPlanInput = {
+  where: Prisma.PaymentTransactionScalarWhereInput
+  data: Prisma.XOR<Prisma.PaymentTransactionUpdateManyMutationInput, Prisma.PaymentTransactionUncheckedUpdateManyWithoutInstallmentPlanInput>
+}
+
+export type PaymentTransactionCreateWithoutExchangeRateRecordInput = {
+  id?: string
+  clientTransactionId: string
+  amount: runtime.Decimal | runtime.DecimalJsLike | number | string
+  taxAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  taxableAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  status?: $Enums.PaymentStatus
+  paymentProvider?: $Enums.PaymentProvider
+  addressId?: string | null
+  paymentMethodId?: string | null
+  payphoneData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  refundedAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  reviewedAt?: Date | string | null
+  reviewNote?: string | null
+  requiresReview?: boolean
+  chargedCurrency?: string | null
+  chargedAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  exchangeRate?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  installments?: number
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  order?: Prisma.OrderCreateNestedOneWithoutPaymentsInput
+  user: Prisma.UserCreateNestedOneWithoutPaymentTransactionsInput
+  reviewedBy?: Prisma.UserCreateNestedOneWithoutReviewedDepositsInput
+  installmentPlan?: Prisma.InstallmentPlanCreateNestedOneWithoutTransactionsInput
+  refunds?: Prisma.RefundCreateNestedManyWithoutTransactionInput
+  statusChanges?: Prisma.PaymentStatusChangeCreateNestedManyWithoutTransactionInput
+  reconciliationItems?: Prisma.ReconciliationItemCreateNestedManyWithoutTransactionInput
+  cryptoPayment?: Prisma.CryptoPaymentCreateNestedOneWithoutTransactionInput
+}
+
+export type PaymentTransactionUncheckedCreateWithoutExchangeRateRecordInput = {
+  id?: string
+  orderId?: string | null
+  userId: string
+  clientTransactionId: string
+  amount: runtime.Decimal | runtime.DecimalJsLike | number | string
+  taxAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  taxableAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  status?: $Enums.PaymentStatus
+  paymentProvider?: $Enums.PaymentProvider
+  addressId?: string | null
+  paymentMethodId?: string | null
+  payphoneData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  refundedAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  reviewedById?: string | null
+  reviewedAt?: Date | string | null
+  reviewNote?: string | null
+  requiresReview?: boolean
+  chargedCurrency?: string | null
+  chargedAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  exchangeRate?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  installments?: number
+  installmentPlanId?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  refunds?: Prisma.RefundUncheckedCreateNestedManyWithoutTransactionInput
+  statusChanges?: Prisma.PaymentStatusChangeUncheckedCreateNestedManyWithoutTransactionInput
+  reconciliationItems?: Prisma.ReconciliationItemUncheckedCreateNestedManyWithoutTransactionInput
+  cryptoPayment?: Prisma.CryptoPaymentUncheckedCreateNestedOneWithoutTransactionInput
+}
+
+export type PaymentTransactionCreateOrConnectWithoutExchangeRateRecordInput = {
+  where: Prisma.PaymentTransactionWhereUniqueInput
+  create: Prisma.XOR<Prisma.PaymentTransactionCreateWithoutExchangeRateRecordInput, Prisma.PaymentTransactionUncheckedCreateWithoutExchangeRateRecordInput>
+}
+
+export type PaymentTransactionCreateManyExchangeRateRecordInputEnvelope = {
+  data: Prisma.PaymentTransactionCreateManyExchangeRateRecordInput | Prisma.PaymentTransactionCreateManyExchangeRateRecordInput[]
+  skipDuplicates?: boolean
+}
+
+export type PaymentTransactionUpsertWithWhereUniqueWithoutExchangeRateRecordInput = {
+  where: Prisma.PaymentTransactionWhereUniqueInput
+  update: Prisma.XOR<Prisma.PaymentTransactionUpdateWithoutExchangeRateRecordInput, Prisma.PaymentTransactionUncheckedUpdateWithoutExchangeRateRecordInput>
+  create: Prisma.XOR<Prisma.PaymentTransactionCreateWithoutExchangeRateRecordInput, Prisma.PaymentTransactionUncheckedCreateWithoutExchangeRateRecordInput>
+}
+
+export type PaymentTransactionUpdateWithWhereUniqueWithoutExchangeRateRecordInput = {
+  where: Prisma.PaymentTransactionWhereUniqueInput
+  data: Prisma.XOR<Prisma.PaymentTransactionUpdateWithoutExchangeRateRecordInput, Prisma.PaymentTransactionUncheckedUpdateWithoutExchangeRateRecordInput>
+}
+
+export type PaymentTransactionUpdateManyWithWhereWithoutExchangeRateRecordInput = {
+  where: Prisma.PaymentTransactionScalarWhereInput
+  data: Prisma.XOR<Prisma.PaymentTransactionUpdateManyMutationInput, Prisma.PaymentTransactionUncheckedUpdateManyWithoutExchangeRateRecordInput>
+}
+
+export type PaymentTransactionCreateWithoutRefundsInput = {
+  id?: string
+  clientTransactionId: string
+  amount: runtime.Decimal | runtime.DecimalJsLike | number | string
+  taxAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  taxableAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  status?: $Enums.PaymentStatus
+  paymentProvider?: $Enums.PaymentProvider
+  addressId?: string | null
+  paymentMethodId?: string | null
+  payphoneData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  refundedAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  reviewedAt?: Date | string | null
+  reviewNote?: string | null
+  requiresReview?: boolean
+  chargedCurrency?: string | null
+  chargedAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  exchangeRate?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  installments?: number
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  order?: Prisma.OrderCreateNestedOneWithoutPaymentsInput
+  user: Prisma.UserCreateNestedOneWithoutPaymentTransactionsInput
+  reviewedBy?: Prisma.UserCreateNestedOneWithoutReviewedDepositsInput
+  exchangeRateRecord?: Prisma.ExchangeRateCreateNestedOneWithoutTransactionsInput
+  installmentPlan?: Prisma.InstallmentPlanCreateNestedOneWithoutTransactionsInput
+  statusChanges?: Prisma.PaymentStatusChangeCreateNestedManyWithoutTransactionInput
+  reconciliationItems?: Prisma.ReconciliationItemCreateNestedManyWithoutTransactionInput
+  cryptoPayment?: Prisma.CryptoPaymentCreateNestedOneWithoutTransactionInput
+}
+
+export type PaymentTransactionUncheckedCreateWithoutRefundsInput = {
+  id?: string
+  orderId?: string | null
+  userId: string
+  clientTransactionId: string
+  amount: runtime.Decimal | runtime.DecimalJsLike | number | string
+  taxAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  taxableAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  status?: $Enums.PaymentStatus
+  paymentProvider?: $Enums.PaymentProvider
+  addressId?: string | null
+  paymentMethodId?: string | null
+  payphoneData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  refundedAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  reviewedById?: string | null
+  reviewedAt?: Date | string | null
+  reviewNote?: string | null
+  requiresReview?: boolean
+  chargedCurrency?: string | null
+  chargedAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  exchangeRate?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  exchangeRateId?: string | null
+  installments?: number
+  installmentPlanId?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  statusChanges?: Prisma.PaymentStatusChangeUncheckedCreateNestedManyWithoutTransactionInput
+  reconciliationItems?: Prisma.ReconciliationItemUncheckedCreateNestedManyWithoutTransactionInput
+  cryptoPayment?: Prisma.CryptoPaymentUncheckedCreateNestedOneWithoutTransactionInput
+}
+
+export type PaymentTransactionCreateOrConnectWithoutRefundsInput = {
+  where: Prisma.PaymentTransactionWhereUniqueInput
+  create: Prisma.XOR<Prisma.PaymentTransactionCreateWithoutRefundsInput, Prisma.PaymentTransactionUncheckedCreateWithoutRefundsInput>
+}
+
+export type PaymentTransactionUpsertWithoutRefundsInput = {
+  update: Prisma.XOR<Prisma.PaymentTransactionUpdateWithoutRefundsInput, Prisma.PaymentTransactionUncheckedUpdateWithoutRefundsInput>
+  create: Prisma.XOR<Prisma.PaymentTransactionCreateWithoutRefundsInput, Prisma.PaymentTransactionUncheckedCreateWithoutRefundsInput>
+  where?: Prisma.PaymentTransactionWhereInput
+}
+
+export type PaymentTransactionUpdateToOneWithWhereWithoutRefundsInput = {
+  where?: Prisma.PaymentTransactionWhereInput
+  data: Prisma.XOR<Prisma.PaymentTransactionUpdateWithoutRefundsInput, Prisma.PaymentTransactionUncheckedUpdateWithoutRefundsInput>
+}
+
+export type PaymentTransactionUpdateWithoutRefundsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  clientTransactionId?: Prisma.StringFieldUpdateOperationsInput | string
+  amount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  taxAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  taxableAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  status?: Prisma.EnumPaymentStatusFieldUpdateOperationsInput | $Enums.PaymentStatus
+  paymentProvider?: Prisma.EnumPaymentProviderFieldUpdateOperationsInput | $Enums.PaymentProvider
+  addressId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentMethodId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  payphoneData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  refundedAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  reviewNote?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  requiresReview?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  chargedCurrency?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  chargedAmount?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  exchangeRate?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  installments?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  order?: Prisma.OrderUpdateOneWithoutPaymentsNestedInput
+  user?: Prisma.UserUpdateOneRequiredWithoutPaymentTransactionsNestedInput
+  reviewedBy?: Prisma.UserUpdateOneWithoutReviewedDepositsNestedInput
+  exchangeRateRecord?: Prisma.ExchangeRateUpdateOneWithoutTransactionsNestedInput
+  installmentPlan?: Prisma.InstallmentPlanUpdateOneWithoutTransactionsNestedInput
+  statusChanges?: Prisma.PaymentStatusChangeUpdateManyWithoutTransactionNestedInput
+  reconciliationItems?: Prisma.ReconciliationItemUpdateManyWithoutTransactionNestedInput
+  cryptoPayment?: Prisma.CryptoPaymentUpdateOneWithoutTransactionNestedInput
+}
+
+export type PaymentTransactionUncheckedUpdateWithoutRefundsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  orderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  clientTransactionId?: Prisma.StringFieldUpdateOperationsInput | string
+  amount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  taxAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  taxableAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  status?: Prisma.EnumPaymentStatusFieldUpdateOperationsInput | $Enums.PaymentStatus
+  paymentProvider?: Prisma.EnumPaymentProviderFieldUpdateOperationsInput | $Enums.PaymentProvider
+  addressId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentMethodId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  payphoneData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  refundedAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  reviewedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  reviewNote?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  requiresReview?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  chargedCurrency?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  chargedAmount?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  exchangeRate?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  exchangeRateId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  installments?: Prisma.IntFieldUpdateOperationsInput | number
+  installmentPlanId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  statusChanges?: Prisma.PaymentStatusChangeUncheckedUpdateManyWithoutTransactionNestedInput
+  reconciliationItems?: Prisma.ReconciliationItemUncheckedUpdateManyWithoutTransactionNestedInput
+  cryptoPayment?: Prisma.CryptoPaymentUncheckedUpdateOneWithoutTransactionNestedInput
+}
+
+export type PaymentTransactionCreateWithoutStatusChangesInput = {
+  id?: string
+  clientTransactionId: string
+  amount: runtime.Decimal | runtime.DecimalJsLike | number | string
+  taxAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  taxableAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  status?: $Enums.PaymentStatus
+  paymentProvider?: $Enums.PaymentProvider
+  addressId?: string | null
+  paymentMethodId?: string | null
+  payphoneData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  refundedAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  reviewedAt?: Date | string | null
+  reviewNote?: string | null
+  requiresReview?: boolean
+  chargedCurrency?: string | null
+  chargedAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  exchangeRate?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  installments?: number
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  order?: Prisma.OrderCreateNestedOneWithoutPaymentsInput
+  user: Prisma.UserCreateNestedOneWithoutPaymentTransactionsInput
+  reviewedBy?: Prisma.UserCreateNestedOneWithoutReviewedDepositsInput
+  exchangeRateRecord?: Prisma.ExchangeRateCreateNestedOneWithoutTransactionsInput
+  installmentPlan?: Prisma.InstallmentPlanCreateNestedOneWithoutTransactionsInput
+  refunds?: Prisma.RefundCreateNestedManyWithoutTransactionInput
+  reconciliationItems?: Prisma.ReconciliationItemCreateNestedManyWithoutTransactionInput
+  cryptoPayment?: Prisma.CryptoPaymentCreateNestedOneWithoutTransactionInput
+}
+
+export type PaymentTransactionUncheckedCreateWithoutStatusChangesInput = {
+  id?: string
+  orderId?: string | null
+  userId: string
+  clientTransactionId: string
+  amount: runtime.Decimal | runtime.DecimalJsLike | number | string
+  taxAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  taxableAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  status?: $Enums.PaymentStatus
+  paymentProvider?: $Enums.PaymentProvider
+  addressId?: string | null
+  paymentMethodId?: string | null
+  payphoneData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  refundedAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  reviewedById?: string | null
+  reviewedAt?: Date | string | null
+  reviewNote?: string | null
+  requiresReview?: boolean
+  chargedCurrency?: string | null
+  chargedAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  exchangeRate?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  exchangeRateId?: string | null
+  installments?: number
+  installmentPlanId?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  refunds?: Prisma.RefundUncheckedCreateNestedManyWithoutTransactionInput
+  reconciliationItems?: Prisma.ReconciliationItemUncheckedCreateNestedManyWithoutTransactionInput
+  cryptoPayment?: Prisma.CryptoPaymentUncheckedCreateNestedOneWithoutTransactionInput
+}
+
+export type PaymentTransactionCreateOrConnectWithoutStatusChangesInput = {
+  where: Prisma.PaymentTransactionWhereUniqueInput
+  create: Prisma.XOR<Prisma.PaymentTransactionCreateWithoutStatusChangesInput, Prisma.PaymentTransactionUncheckedCreateWithoutStatusChangesInput>
+}
+
+export type PaymentTransactionUpsertWithoutStatusChangesInput = {
+  update: Prisma.XOR<Prisma.PaymentTransactionUpdateWithoutStatusChangesInput, Prisma.PaymentTransactionUncheckedUpdateWithoutStatusChangesInput>
+  create: Prisma.XOR<Prisma.PaymentTransactionCreateWithoutStatusChangesInput, Prisma.PaymentTransactionUncheckedCreateWithoutStatusChangesInput>
+  where?: Prisma.PaymentTransactionWhereInput
+}
+
+export type PaymentTransactionUpdateToOneWithWhereWithoutStatusChangesInput = {
+  where?: Prisma.PaymentTransactionWhereInput
+  data: Prisma.XOR<Prisma.PaymentTransactionUpdateWithoutStatusChangesInput, Prisma.PaymentTransactionUncheckedUpdateWithoutStatusChangesInput>
+}
+
+export type PaymentTransactionUpdateWithoutStatusChangesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  clientTransactionId?: Prisma.StringFieldUpdateOperationsInput | string
+  amount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  taxAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  taxableAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  status?: Prisma.EnumPaymentStatusFieldUpdateOperationsInput | $Enums.PaymentStatus
+  paymentProvider?: Prisma.EnumPaymentProviderFieldUpdateOperationsInput | $Enums.PaymentProvider
+  addressId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentMethodId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  payphoneData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  refundedAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  reviewNote?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  requiresReview?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  chargedCurrency?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  chargedAmount?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  exchangeRate?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  installments?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  order?: Prisma.OrderUpdateOneWithoutPaymentsNestedInput
+  user?: Prisma.UserUpdateOneRequiredWithoutPaymentTransactionsNestedInput
+  reviewedBy?: Prisma.UserUpdateOneWithoutReviewedDepositsNestedInput
+  exchangeRateRecord?: Prisma.ExchangeRateUpdateOneWithoutTransactionsNestedInput
+  installmentPlan?: Prisma.InstallmentPlanUpdateOneWithoutTransactionsNestedInput
+  refunds?: Prisma.RefundUpdateManyWithoutTransactionNestedInput
+  reconciliationItems?: Prisma.ReconciliationItemUpdateManyWithoutTransactionNestedInput
+  cryptoPayment?: Prisma.CryptoPaymentUpdateOneWithoutTransactionNestedInput
+}
+
+export type PaymentTransactionUncheckedUpdateWithoutStatusChangesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  orderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  clientTransactionId?: Prisma.StringFieldUpdateOperationsInput | string
+  amount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  taxAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  taxableAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  status?: Prisma.EnumPaymentStatusFieldUpdateOperationsInput | $Enums.PaymentStatus
+  paymentProvider?: Prisma.EnumPaymentProviderFieldUpdateOperationsInput | $Enums.PaymentProvider
+  addressId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentMethodId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  payphoneData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  refundedAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  reviewedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  reviewNote?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  requiresReview?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  chargedCurrency?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  chargedAmount?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  exchangeRate?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  exchangeRateId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  installments?: Prisma.IntFieldUpdateOperationsInput | number
+  installmentPlanId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  refunds?: Prisma.RefundUncheckedUpdateManyWithoutTransactionNestedInput
+  reconciliationItems?: Prisma.ReconciliationItemUncheckedUpdateManyWithoutTransactionNestedInput
+  cryptoPayment?: Prisma.CryptoPaymentUncheckedUpdateOneWithoutTransactionNestedInput
+}
+
+export type PaymentTransactionCreateWithoutReconciliationItemsInput = {
+  id?: string
+  clientTransactionId: string
+  amount: runtime.Decimal | runtime.DecimalJsLike | number | string
+  taxAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  taxableAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  status?: $Enums.PaymentStatus
+  paymentProvider?: $Enums.PaymentProvider
+  addressId?: string | null
+  paymentMethodId?: string | null
+  payphoneData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  refundedAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  reviewedAt?: Date | string | null
+  reviewNote?: string | null
+  requiresReview?: boolean
+  chargedCurrency?: string | null
+  chargedAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  exchangeRate?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  installments?: number
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  order?: Prisma.OrderCreateNestedOneWithoutPaymentsInput
+  user: Prisma.UserCreateNestedOneWithoutPaymentTransactionsInput
+  reviewedBy?: Prisma.UserCreateNestedOneWithoutReviewedDepositsInput
+  exchangeRateRecord?: Prisma.ExchangeRateCreateNestedOneWithoutTransactionsInput
+  installmentPlan?: Prisma.InstallmentPlanCreateNestedOneWithoutTransactionsInput
+  refunds?: Prisma.RefundCreateNestedManyWithoutTransactionInput
+  statusChanges?: Prisma.PaymentStatusChangeCreateNestedManyWithoutTransactionInput
+  cryptoPayment?: Prisma.CryptoPaymentCreateNestedOneWithoutTransactionInput
+}
+
+export type PaymentTransactionUncheckedCreateWithoutReconciliationItemsInput = {
+  id?: string
+  orderId?: string | null
+  userId: string
+  clientTransactionId: string
+  amount: runtime.Decimal | runtime.DecimalJsLike | number | string
+  taxAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  taxableAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  status?: $Enums.PaymentStatus
+  paymentProvider?: $Enums.PaymentProvider
+  addressId?: string | null
+  paymentMethodId?: string | null
+  payphoneData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  refundedAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  reviewedById?: string | null
+  reviewedAt?: Date | string | null
+  reviewNote?: string | null
+  requiresReview?: boolean
+  chargedCurrency?: string | null
+  chargedAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  exchangeRate?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  exchangeRateId?: string | null
+  installments?: number
+  installmentPlanId?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  refunds?: Prisma.RefundUncheckedCreateNestedManyWithoutTransactionInput
+  statusChanges?: Prisma.PaymentStatusChangeUncheckedCreateNestedManyWithoutTransactionInput
+  cryptoPayment?: Prisma.CryptoPaymentUncheckedCreateNestedOneWithoutTransactionInput
+}
+
+export type PaymentTransactionCreateOrConnectWithoutReconciliationItemsInput = {
+  where: Prisma.PaymentTransactionWhereUniqueInput
+  create: Prisma.XOR<Prisma.PaymentTransactionCreateWithoutReconciliationItemsInput, Prisma.PaymentTransactionUncheckedCreateWithoutReconciliationItemsInput>
+}
+
+export type PaymentTransactionUpsertWithoutReconciliationItemsInput = {
+  update: Prisma.XOR<Prisma.PaymentTransactionUpdateWithoutReconciliationItemsInput, Prisma.PaymentTransactionUncheckedUpdateWithoutReconciliationItemsInput>
+  create: Prisma.XOR<Prisma.PaymentTransactionCreateWithoutReconciliationItemsInput, Prisma.PaymentTransactionUncheckedCreateWithoutReconciliationItemsInput>
+  where?: Prisma.PaymentTransactionWhereInput
+}
+
+export type PaymentTransactionUpdateToOneWithWhereWithoutReconciliationItemsInput = {
+  where?: Prisma.PaymentTransactionWhereInput
+  data: Prisma.XOR<Prisma.PaymentTransactionUpdateWithoutReconciliationItemsInput, Prisma.PaymentTransactionUncheckedUpdateWithoutReconciliationItemsInput>
+}
+
+export type PaymentTransactionUpdateWithoutReconciliationItemsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  clientTransactionId?: Prisma.StringFieldUpdateOperationsInput | string
+  amount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  taxAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  taxableAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  status?: Prisma.EnumPaymentStatusFieldUpdateOperationsInput | $Enums.PaymentStatus
+  paymentProvider?: Prisma.EnumPaymentProviderFieldUpdateOperationsInput | $Enums.PaymentProvider
+  addressId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentMethodId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  payphoneData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  refundedAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  reviewNote?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  requiresReview?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  chargedCurrency?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  chargedAmount?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  exchangeRate?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  installments?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  order?: Prisma.OrderUpdateOneWithoutPaymentsNestedInput
+  user?: Prisma.UserUpdateOneRequiredWithoutPaymentTransactionsNestedInput
+  reviewedBy?: Prisma.UserUpdateOneWithoutReviewedDepositsNestedInput
+  exchangeRateRecord?: Prisma.ExchangeRateUpdateOneWithoutTransactionsNestedInput
+  installmentPlan?: Prisma.InstallmentPlanUpdateOneWithoutTransactionsNestedInput
+  refunds?: Prisma.RefundUpdateManyWithoutTransactionNestedInput
+  statusChanges?: Prisma.PaymentStatusChangeUpdateManyWithoutTransactionNestedInput
+  cryptoPayment?: Prisma.CryptoPaymentUpdateOneWithoutTransactionNestedInput
+}
+
+export type PaymentTransactionUncheckedUpdateWithoutReconciliationItemsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  orderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  clientTransactionId?: Prisma.StringFieldUpdateOperationsInput | string
+  amount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  taxAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  taxableAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  status?: Prisma.EnumPaymentStatusFieldUpdateOperationsInput | $Enums.PaymentStatus
+  paymentProvider?: Prisma.EnumPaymentProviderFieldUpdateOperationsInput | $Enums.PaymentProvider
+  addressId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentMethodId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  payphoneData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  refundedAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  reviewedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  reviewNote?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  requiresReview?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  chargedCurrency?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  chargedAmount?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  exchangeRate?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  exchangeRateId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  installments?: Prisma.IntFieldUpdateOperationsInput | number
+  installmentPlanId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  refunds?: Prisma.RefundUncheckedUpdateManyWithoutTransactionNestedInput
+  statusChanges?: Prisma.PaymentStatusChangeUncheckedUpdateManyWithoutTransactionNestedInput
+  cryptoPayment?: Prisma.CryptoPaymentUncheckedUpdateOneWithoutTransactionNestedInput
+}
+
+export type PaymentTransactionCreateWithoutCryptoPaymentInput = {
+  id?: string
+  clientTransactionId: string
+  amount: runtime.Decimal | runtime.DecimalJsLike | number | string
+  taxAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  taxableAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  status?: $Enums.PaymentStatus
+  paymentProvider?: $Enums.PaymentProvider
+  addressId?: string | null
+  paymentMethodId?: string | null
+  payphoneData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  refundedAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  reviewedAt?: Date | string | null
+  reviewNote?: string | null
+  requiresReview?: boolean
+  chargedCurrency?: string | null
+  chargedAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  exchangeRate?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  installments?: number
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  order?: Prisma.OrderCreateNestedOneWithoutPaymentsInput
+  user: Prisma.UserCreateNestedOneWithoutPaymentTransactionsInput
+  reviewedBy?: Prisma.UserCreateNestedOneWithoutReviewedDepositsInput
+  exchangeRateRecord?: Prisma.ExchangeRateCreateNestedOneWithoutTransactionsInput
+  installmentPlan?: Prisma.InstallmentPlanCreateNestedOneWithoutTransactionsInput
+  refunds?: Prisma.RefundCreateNestedManyWithoutTransactionInput
+  statusChanges?: Prisma.PaymentStatusChangeCreateNestedManyWithoutTransactionInput
+  reconciliationItems?: Prisma.ReconciliationItemCreateNestedManyWithoutTransactionInput
+}
+
+export type PaymentTransactionUncheckedCreateWithoutCryptoPaymentInput = {
+  id?: string
+  orderId?: string | null
+  userId: string
+  clientTransactionId: string
+  amount: runtime.Decimal | runtime.DecimalJsLike | number | string
+  taxAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  taxableAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  status?: $Enums.PaymentStatus
+  paymentProvider?: $Enums.PaymentProvider
+  addressId?: string | null
+  paymentMethodId?: string | null
+  payphoneData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  refundedAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  reviewedById?: string | null
+  reviewedAt?: Date | string | null
+  reviewNote?: string | null
+  requiresReview?: boolean
+  chargedCurrency?: string | null
+  chargedAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  exchangeRate?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  exchangeRateId?: string | null
+  installments?: number
+  installmentPlanId?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  refunds?: Prisma.RefundUncheckedCreateNestedManyWithoutTransactionInput
+  statusChanges?: Prisma.PaymentStatusChangeUncheckedCreateNestedManyWithoutTransactionInput
+  reconciliationItems?: Prisma.ReconciliationItemUncheckedCreateNestedManyWithoutTransactionInput
+}
+
+export type PaymentTransactionCreateOrConnectWithoutCryptoPaymentInput = {
+  where: Prisma.PaymentTransactionWhereUniqueInput
+  create: Prisma.XOR<Prisma.PaymentTransactionCreateWithoutCryptoPaymentInput, Prisma.PaymentTransactionUncheckedCreateWithoutCryptoPaymentInput>
+}
+
+export type PaymentTransactionUpsertWithoutCryptoPaymentInput = {
+  update: Prisma.XOR<Prisma.PaymentTransactionUpdateWithoutCryptoPaymentInput, Prisma.PaymentTransactionUncheckedUpdateWithoutCryptoPaymentInput>
+  create: Prisma.XOR<Prisma.PaymentTransactionCreateWithoutCryptoPaymentInput, Prisma.PaymentTransactionUncheckedCreateWithoutCryptoPaymentInput>
+  where?: Prisma.PaymentTransactionWhereInput
+}
+
+export type PaymentTransactionUpdateToOneWithWhereWithoutCryptoPaymentInput = {
+  where?: Prisma.PaymentTransactionWhereInput
+  data: Prisma.XOR<Prisma.PaymentTransactionUpdateWithoutCryptoPaymentInput, Prisma.PaymentTransactionUncheckedUpdateWithoutCryptoPaymentInput>
+}
+
+export type PaymentTransactionUpdateWithoutCryptoPaymentInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  clientTransactionId?: Prisma.StringFieldUpdateOperationsInput | string
+  amount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  taxAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  taxableAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  status?: Prisma.EnumPaymentStatusFieldUpdateOperationsInput | $Enums.PaymentStatus
+  paymentProvider?: Prisma.EnumPaymentProviderFieldUpdateOperationsInput | $Enums.PaymentProvider
+  addressId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentMethodId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  payphoneData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  refundedAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  reviewNote?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  requiresReview?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  chargedCurrency?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  chargedAmount?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  exchangeRate?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  installments?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  order?: Prisma.OrderUpdateOneWithoutPaymentsNestedInput
+  user?: Prisma.UserUpdateOneRequiredWithoutPaymentTransactionsNestedInput
+  reviewedBy?: Prisma.UserUpdateOneWithoutReviewedDepositsNestedInput
+  exchangeRateRecord?: Prisma.ExchangeRateUpdateOneWithoutTransactionsNestedInput
+  installmentPlan?: Prisma.InstallmentPlanUpdateOneWithoutTransactionsNestedInput
+  refunds?: Prisma.RefundUpdateManyWithoutTransactionNestedInput
+  statusChanges?: Prisma.PaymentStatusChangeUpdateManyWithoutTransactionNestedInput
+  reconciliationItems?: Prisma.ReconciliationItemUpdateManyWithoutTransactionNestedInput
+}
+
+export type PaymentTransactionUncheckedUpdateWithoutCryptoPaymentInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  orderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  clientTransactionId?: Prisma.StringFieldUpdateOperationsInput | string
+  amount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  taxAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  taxableAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  status?: Prisma.EnumPaymentStatusFieldUpdateOperationsInput | $Enums.PaymentStatus
+  paymentProvider?: Prisma.EnumPaymentProviderFieldUpdateOperationsInput | $Enums.PaymentProvider
+  addressId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentMethodId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  payphoneData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  refundedAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  reviewedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  reviewNote?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  requiresReview?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  chargedCurrency?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  chargedAmount?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  exchangeRate?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  exchangeRateId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  installments?: Prisma.IntFieldUpdateOperationsInput | number
+  installmentPlanId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  refunds?: Prisma.RefundUncheckedUpdateManyWithoutTransactionNestedInput
+  statusChanges?: Prisma.PaymentStatusChangeUncheckedUpdateManyWithoutTransactionNestedInput
+  reconciliationItems?: Prisma.ReconciliationItemUncheckedUpdateManyWithoutTransactionNestedInput
+}
+
+export type PaymentTransactionCreateManyUserInput = {
+  id?: string
+  orderId?: string | null
+  clientTransactionId: string
+  amount: runtime.Decimal | runtime.DecimalJsLike | number | string
+  taxAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  taxableAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  status?: $Enums.PaymentStatus
+  paymentProvider?: $Enums.PaymentProvider
+  addressId?: string | null
+  paymentMethodId?: string | null
+  payphoneData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  refundedAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  reviewedById?: string | null
+  reviewedAt?: Date | string | null
+  reviewNote?: string | null
+  requiresReview?: boolean
+  chargedCurrency?: string | null
+  chargedAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  exchangeRate?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  exchangeRateId?: string | null
+  installments?: number
+  installmentPlanId?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type PaymentTransactionCreateManyReviewedByInput = {
+  id?: string
+  orderId?: string | null
+  userId: string
+  clientTransactionId: string
+  amount: runtime.Decimal | runtime.DecimalJsLike | number | string
+  taxAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  taxableAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  status?: $Enums.PaymentStatus
+  paymentProvider?: $Enums.PaymentProvider
+  addressId?: string | null
+  paymentMethodId?: string | null
+  payphoneData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  refundedAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  reviewedAt?: Date | string | null
+  reviewNote?: string | null
+  requiresReview?: boolean
+  chargedCurrency?: string | null
+  chargedAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  exchangeRate?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  exchangeRateId?: string | null
+  installments?: number
+  installmentPlanId?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type PaymentTransactionUpdateWithoutUserInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  clientTransactionId?: Prisma.StringFieldUpdateOperationsInput | string
+  amount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  taxAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  taxableAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  status?: Prisma.EnumPaymentStatusFieldUpdateOperationsInput | $Enums.PaymentStatus
+  paymentProvider?: Prisma.EnumPaymentProviderFieldUpdateOperationsInput | $Enums.PaymentProvider
+  addressId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentMethodId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  payphoneData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  refundedAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  reviewNote?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  requiresReview?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  chargedCurrency?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  chargedAmount?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  exchangeRate?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  installments?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  order?: Prisma.OrderUpdateOneWithoutPaymentsNestedInput
+  reviewedBy?: Prisma.UserUpdateOneWithoutReviewedDepositsNestedInput
+  exchangeRateRecord?: Prisma.ExchangeRateUpdateOneWithoutTransactionsNestedInput
+  installmentPlan?: Prisma.InstallmentPlanUpdateOneWithoutTransactionsNestedInput
+  refunds?: Prisma.RefundUpdateManyWithoutTransactionNestedInput
+  statusChanges?: Prisma.PaymentStatusChangeUpdateManyWithoutTransactionNestedInput
+  reconciliationItems?: Prisma.ReconciliationItemUpdateManyWithoutTransactionNestedInput
+  cryptoPayment?: Prisma.CryptoPaymentUpdateOneWithoutTransactionNestedInput
+}
+
+export type PaymentTransactionUncheckedUpdateWithoutUserInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  orderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  clientTransactionId?: Prisma.StringFieldUpdateOperationsInput | string
+  amount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  taxAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  taxableAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  status?: Prisma.EnumPaymentStatusFieldUpdateOperationsInput | $Enums.PaymentStatus
+  paymentProvider?: Prisma.EnumPaymentProviderFieldUpdateOperationsInput | $Enums.PaymentProvider
+  addressId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentMethodId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  payphoneData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  refundedAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  reviewedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  reviewNote?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  requiresReview?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  chargedCurrency?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  chargedAmount?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  exchangeRate?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  exchangeRateId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  installments?: Prisma.IntFieldUpdateOperationsInput | number
+  installmentPlanId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  refunds?: Prisma.RefundUncheckedUpdateManyWithoutTransactionNestedInput
+  statusChanges?: Prisma.PaymentStatusChangeUncheckedUpdateManyWithoutTransactionNestedInput
+  reconciliationItems?: Prisma.ReconciliationItemUncheckedUpdateManyWithoutTransactionNestedInput
+  cryptoPayment?: Prisma.CryptoPaymentUncheckedUpdateOneWithoutTransactionNestedInput
+}
+
+export type PaymentTransactionUncheckedUpdateManyWithoutUserInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  orderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  clientTransactionId?: Prisma.StringFieldUpdateOperationsInput | string
+  amount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  taxAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  taxableAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  status?: Prisma.EnumPaymentStatusFieldUpdateOperationsInput | $Enums.PaymentStatus
+  paymentProvider?: Prisma.EnumPaymentProviderFieldUpdateOperationsInput | $Enums.PaymentProvider
+  addressId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentMethodId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  payphoneData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  refundedAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  reviewedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  reviewNote?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  requiresReview?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  chargedCurrency?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  chargedAmount?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  exchangeRate?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  exchangeRateId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  installments?: Prisma.IntFieldUpdateOperationsInput | number
+  installmentPlanId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type PaymentTransactionUpdateWithoutReviewedByInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  clientTransactionId?: Prisma.StringFieldUpdateOperationsInput | string
+  amount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  taxAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  taxableAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  status?: Prisma.EnumPaymentStatusFieldUpdateOperationsInput | $Enums.PaymentStatus
+  paymentProvider?: Prisma.EnumPaymentProviderFieldUpdateOperationsInput | $Enums.PaymentProvider
+  addressId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentMethodId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  payphoneData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  refundedAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  reviewNote?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  requiresReview?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  chargedCurrency?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  chargedAmount?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  exchangeRate?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  installments?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  order?: Prisma.OrderUpdateOneWithoutPaymentsNestedInput
+  user?: Prisma.UserUpdateOneRequiredWithoutPaymentTransactionsNestedInput
+  exchangeRateRecord?: Prisma.ExchangeRateUpdateOneWithoutTransactionsNestedInput
+  installmentPlan?: Prisma.InstallmentPlanUpdateOneWithoutTransactionsNestedInput
+  refunds?: Prisma.RefundUpdateManyWithoutTransactionNestedInput
+  statusChanges?: Prisma.PaymentStatusChangeUpdateManyWithoutTransactionNestedInput
+  reconciliationItems?: Prisma.ReconciliationItemUpdateManyWithoutTransactionNestedInput
+  cryptoPayment?: Prisma.CryptoPaymentUpdateOneWithoutTransactionNestedInput
 }
 
-export type PaymentTransactionScalarWhereInput = {
-  AND?: Prisma.PaymentTransactionScalarWhereInput | Prisma.PaymentTransactionScalarWhereInput[]
-  OR?: Prisma.PaymentTransactionScalarWhereInput[]
-  NOT?: Prisma.PaymentTransactionScalarWhereInput | Prisma.PaymentTransactionScalarWhereInput[]
-  id?: Prisma.StringFilter<"PaymentTransaction"> | string
-  orderId?: Prisma.StringNullableFilter<"PaymentTransaction"> | string | null
-  userId?: Prisma.StringFilter<"PaymentTransaction"> | string
-  clientTransactionId?: Prisma.StringFilter<"PaymentTransaction"> | string
-  amount?: Prisma.DecimalFilter<"PaymentTransaction"> | runtime.Decimal | runtime.DecimalJsLike | number | string
-  status?: Prisma.EnumPaymentStatusFilter<"PaymentTransaction"> | $Enums.PaymentStatus
-  paymentProvider?: Prisma.EnumPaymentProviderFilter<"PaymentTransaction"> | $Enums.PaymentProvider
-  addressId?: Prisma.StringNullableFilter<"PaymentTransaction"> | string | null
-  paymentMethodId?: Prisma.StringNullableFilter<"PaymentTransaction"> | string | null
-  payphoneData?: Prisma.JsonNullableFilter<"PaymentTransaction">
-  createdAt?: Prisma.DateTimeFilter<"PaymentTransaction"> | Date | string
-  updatedAt?: Prisma.DateTimeFilter<"PaymentTransaction"> | Date | string
+export type PaymentTransactionUncheckedUpdateWithoutReviewedByInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  orderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  clientTransactionId?: Prisma.StringFieldUpdateOperationsInput | string
+  amount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  taxAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  taxableAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  status?: Prisma.EnumPaymentStatusFieldUpdateOperationsInput | $Enums.PaymentStatus
+  paymentProvider?: Prisma.EnumPaymentProviderFieldUpdateOperationsInput | $Enums.PaymentProvider
+  addressId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentMethodId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  payphoneData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  refundedAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  reviewNote?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  requiresReview?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  chargedCurrency?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  chargedAmount?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  exchangeRate?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  exchangeRateId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  installments?: Prisma.IntFieldUpdateOperationsInput | number
+  installmentPlanId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  refunds?: Prisma.RefundUncheckedUpdateManyWithoutTransactionNestedInput
+  statusChanges?: Prisma.PaymentStatusChangeUncheckedUpdateManyWithoutTransactionNestedInput
+  reconciliationItems?: Prisma.ReconciliationItemUncheckedUpdateManyWithoutTransactionNestedInput
+  cryptoPayment?: Prisma.CryptoPaymentUncheckedUpdateOneWithoutTransactionNestedInput
 }
 
-export type PaymentTransactionCreateWithoutOrderInput = {
-  id?: string
-  clientTransactionId: string
-  amount: runtime.Decimal | runtime.DecimalJsLike | number | string
-  status?: $Enums.PaymentStatus
-  paymentProvider?: $Enums.PaymentProvider
-  addressId?: string | null
-  paymentMethodId?: string | null
+export type PaymentTransactionUncheckedUpdateManyWithoutReviewedByInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  orderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  clientTransactionId?: Prisma.StringFieldUpdateOperationsInput | string
+  amount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  taxAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  taxableAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  status?: Prisma.EnumPaymentStatusFieldUpdateOperationsInput | $Enums.PaymentStatus
+  paymentProvider?: Prisma.EnumPaymentProviderFieldUpdateOperationsInput | $Enums.PaymentProvider
+  addressId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentMethodId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   payphoneData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
-  createdAt?: Date | string
-  updatedAt?: Date | string
-  user: Prisma.UserCreateNestedOneWithoutPaymentTransactionsInput
+  refundedAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  reviewNote?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  requiresReview?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  chargedCurrency?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  chargedAmount?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  exchangeRate?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  exchangeRateId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  installments?: Prisma.IntFieldUpdateOperationsInput | number
+  installmentPlanId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
 
-export type PaymentTransactionUncheckedCreateWithoutOrderInput = {
+export type PaymentTransactionCreateManyOrderInput = {
   id?: string
   userId: string
   clientTransactionId: string
   amount: runtime.Decimal | runtime.DecimalJsLike | number | string
+  taxAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  taxableAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string
   status?: $Enums.PaymentStatus
   paymentProvider?: $Enums.PaymentProvider
   addressId?: string | null
   paymentMethodId?: string | null
   payphoneData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  refundedAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  reviewedById?: string | null
+  reviewedAt?: Date | string | null
+  reviewNote?: string | null
+  requiresReview?: boolean
+  chargedCurrency?: string | null
+  chargedAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  exchangeRate?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  exchangeRateId?: string | null
+  installments?: number
+  installmentPlanId?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
 }
 
-export type PaymentTransactionCreateOrConnectWithoutOrderInput = {
-  where: Prisma.PaymentTransactionWhereUniqueInput
-  create: Prisma.XOR<Prisma.PaymentTransactionCreateWithoutOrderInput, Prisma.PaymentTransactionUncheckedCreateWithoutOrderInput>
-}
-
-export type PaymentTransactionCreateManyOrderInputEnvelope = {
-  data: Prisma.PaymentTransactionCreateManyOrderInput | Prisma.PaymentTransactionCreateManyOrderInput[]
-  skipDuplicates?: boolean
-}
-
-export type PaymentTransactionUpsertWithWhereUniqueWithoutOrderInput = {
-  where: Prisma.PaymentTransactionWhereUniqueInput
-  update: Prisma.XOR<Prisma.PaymentTransactionUpdateWithoutOrderInput, Prisma.PaymentTransactionUncheckedUpdateWithoutOrderInput>
-  create: Prisma.XOR<Prisma.PaymentTransactionCreateWithoutOrderInput, Prisma.PaymentTransactionUncheckedCreateWithoutOrderInput>
+export type PaymentTransactionUpdateWithoutOrderInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  clientTransactionId?: Prisma.StringFieldUpdateOperationsInput | string
+  amount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  taxAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  taxableAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  status?: Prisma.EnumPaymentStatusFieldUpdateOperationsInput | $Enums.PaymentStatus
+  paymentProvider?: Prisma.EnumPaymentProviderFieldUpdateOperationsInput | $Enums.PaymentProvider
+  addressId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentMethodId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  payphoneData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  refundedAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  reviewNote?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  requiresReview?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  chargedCurrency?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  chargedAmount?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  exchangeRate?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  installments?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  user?: Prisma.UserUpdateOneRequiredWithoutPaymentTransactionsNestedInput
+  reviewedBy?: Prisma.UserUpdateOneWithoutReviewedDepositsNestedInput
+  exchangeRateRecord?: Prisma.ExchangeRateUpdateOneWithoutTransactionsNestedInput
+  installmentPlan?: Prisma.InstallmentPlanUpdateOneWithoutTransactionsNestedInput
+  refunds?: Prisma.RefundUpdateManyWithoutTransactionNestedInput
+  statusChanges?: Prisma.PaymentStatusChangeUpdateManyWithoutTransactionNestedInput
+  reconciliationItems?: Prisma.ReconciliationItemUpdateManyWithoutTransactionNestedInput
+  cryptoPayment?: Prisma.CryptoPaymentUpdateOneWithoutTransactionNestedInput
 }
 
-export type PaymentTransactionUpdateWithWhereUniqueWithoutOrderInput = {
-  where: Prisma.PaymentTransactionWhereUniqueInput
-  data: Prisma.XOR<Prisma.PaymentTransactionUpdateWithoutOrderInput, Prisma.PaymentTransactionUncheckedUpdateWithoutOrderInput>
+export type PaymentTransactionUncheckedUpdateWithoutOrderInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  clientTransactionId?: Prisma.StringFieldUpdateOperationsInput | string
+  amount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  taxAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  taxableAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  status?: Prisma.EnumPaymentStatusFieldUpdateOperationsInput | $Enums.PaymentStatus
+  paymentProvider?: Prisma.EnumPaymentProviderFieldUpdateOperationsInput | $Enums.PaymentProvider
+  addressId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentMethodId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  payphoneData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  refundedAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  reviewedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  reviewNote?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  requiresReview?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  chargedCurrency?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  chargedAmount?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  exchangeRate?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  exchangeRateId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  installments?: Prisma.IntFieldUpdateOperationsInput | number
+  installmentPlanId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  refunds?: Prisma.RefundUncheckedUpdateManyWithoutTransactionNestedInput
+  statusChanges?: Prisma.PaymentStatusChangeUncheckedUpdateManyWithoutTransactionNestedInput
+  reconciliationItems?: Prisma.ReconciliationItemUncheckedUpdateManyWithoutTransactionNestedInput
+  cryptoPayment?: Prisma.CryptoPaymentUncheckedUpdateOneWithoutTransactionNestedInput
 }
 
-export type PaymentTransactionUpdateManyWithWhereWithoutOrderInput = {
-  where: Prisma.PaymentTransactionScalarWhereInput
-  data: Prisma.XOR<Prisma.PaymentTransactionUpdateManyMutationInput, Prisma.PaymentTransactionUncheckedUpdateManyWithoutOrderInput>
+export type PaymentTransactionUncheckedUpdateManyWithoutOrderInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  clientTransactionId?: Prisma.StringFieldUpdateOperationsInput | string
+  amount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  taxAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  taxableAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  status?: Prisma.EnumPaymentStatusFieldUpdateOperationsInput | $Enums.PaymentStatus
+  paymentProvider?: Prisma.EnumPaymentProviderFieldUpdateOperationsInput | $Enums.PaymentProvider
+  addressId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentMethodId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  payphoneData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  refundedAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  reviewedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  reviewNote?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  requiresReview?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  chargedCurrency?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  chargedAmount?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  exchangeRate?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  exchangeRateId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  installments?: Prisma.IntFieldUpdateOperationsInput | number
+  installmentPlanId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
 
-export type PaymentTransactionCreateManyUserInput = {
+export type PaymentTransactionCreateManyInstallmentPlanInput = {
   id?: string
   orderId?: string | null
+  userId: string
   clientTransactionId: string
   amount: runtime.Decimal | runtime.DecimalJsLike | number | string
+  taxAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  taxableAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string
   status?: $Enums.PaymentStatus
   paymentProvider?: $Enums.PaymentProvider
   addressId?: string | null
   paymentMethodId?: string | null
   payphoneData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  refundedAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  reviewedById?: string | null
+  reviewedAt?: Date | string | null
+  reviewNote?: string | null
+  requiresReview?: boolean
+  chargedCurrency?: string | null
+  chargedAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  exchangeRate?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  exchangeRateId?: string | null
+  installments?: number
   createdAt?: Date | string
   updatedAt?: Date | string
 }
 
-export type PaymentTransactionUpdateWithoutUserInput = {
+export type PaymentTransactionUpdateWithoutInstallmentPlanInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   clientTransactionId?: Prisma.StringFieldUpdateOperationsInput | string
   amount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  taxAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  taxableAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
   status?: Prisma.EnumPaymentStatusFieldUpdateOperationsInput | $Enums.PaymentStatus
   paymentProvider?: Prisma.EnumPaymentProviderFieldUpdateOperationsInput | $Enums.PaymentProvider
   addressId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   paymentMethodId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   payphoneData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  refundedAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  reviewNote?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  requiresReview?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  chargedCurrency?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  chargedAmount?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  exchangeRate?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  installments?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   order?: Prisma.OrderUpdateOneWithoutPaymentsNestedInput
+  user?: Prisma.UserUpdateOneRequiredWithoutPaymentTransactionsNestedInput
+  reviewedBy?: Prisma.UserUpdateOneWithoutReviewedDepositsNestedInput
+  exchangeRateRecord?: Prisma.ExchangeRateUpdateOneWithoutTransactionsNestedInput
+  refunds?: Prisma.RefundUpdateManyWithoutTransactionNestedInput
+  statusChanges?: Prisma.PaymentStatusChangeUpdateManyWithoutTransactionNestedInput
+  reconciliationItems?: Prisma.ReconciliationItemUpdateManyWithoutTransactionNestedInput
+  cryptoPayment?: Prisma.CryptoPaymentUpdateOneWithoutTransactionNestedInput
 }
 
-export type PaymentTransactionUncheckedUpdateWithoutUserInput = {
+export type PaymentTransactionUncheckedUpdateWithoutInstallmentPlanInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   orderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
   clientTransactionId?: Prisma.StringFieldUpdateOperationsInput | string
   amount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  taxAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  taxableAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
   status?: Prisma.EnumPaymentStatusFieldUpdateOperationsInput | $Enums.PaymentStatus
   paymentProvider?: Prisma.EnumPaymentProviderFieldUpdateOperationsInput | $Enums.PaymentProvider
   addressId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   paymentMethodId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   payphoneData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  refundedAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  reviewedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  reviewNote?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  requiresReview?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  chargedCurrency?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  chargedAmount?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  exchangeRate?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  exchangeRateId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  installments?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  refunds?: Prisma.RefundUncheckedUpdateManyWithoutTransactionNestedInput
+  statusChanges?: Prisma.PaymentStatusChangeUncheckedUpdateManyWithoutTransactionNestedInput
+  reconciliationItems?: Prisma.ReconciliationItemUncheckedUpdateManyWithoutTransactionNestedInput
+  cryptoPayment?: Prisma.CryptoPaymentUncheckedUpdateOneWithoutTransactionNestedInput
 }
 
-export type PaymentTransactionUncheckedUpdateManyWithoutUserInput = {
+export type PaymentTransactionUncheckedUpdateManyWithoutInstallmentPlanInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   orderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
   clientTransactionId?: Prisma.StringFieldUpdateOperationsInput | string
   amount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  taxAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  taxableAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
   status?: Prisma.EnumPaymentStatusFieldUpdateOperationsInput | $Enums.PaymentStatus
   paymentProvider?: Prisma.EnumPaymentProviderFieldUpdateOperationsInput | $Enums.PaymentProvider
   addressId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   paymentMethodId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   payphoneData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  refundedAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  reviewedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  reviewNote?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  requiresReview?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  chargedCurrency?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  chargedAmount?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  exchangeRate?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  exchangeRateId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  installments?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
 
-export type PaymentTransactionCreateManyOrderInput = {
+export type PaymentTransactionCreateManyExchangeRateRecordInput = {
   id?: string
+  orderId?: string | null
   userId: string
   clientTransactionId: string
   amount: runtime.Decimal | runtime.DecimalJsLike | number | string
+  taxAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  taxableAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string
   status?: $Enums.PaymentStatus
   paymentProvider?: $Enums.PaymentProvider
   addressId?: string | null
   paymentMethodId?: string | null
   payphoneData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  refundedAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  reviewedById?: string | null
+  reviewedAt?: Date | string | null
+  reviewNote?: string | null
+  requiresReview?: boolean
+  chargedCurrency?: string | null
+  chargedAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  exchangeRate?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  installments?: number
+  installmentPlanId?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
 }
 
-export type PaymentTransactionUpdateWithoutOrderInput = {
+export type PaymentTransactionUpdateWithoutExchangeRateRecordInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   clientTransactionId?: Prisma.StringFieldUpdateOperationsInput | string
   amount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  taxAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  taxableAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
   status?: Prisma.EnumPaymentStatusFieldUpdateOperationsInput | $Enums.PaymentStatus
   paymentProvider?: Prisma.EnumPaymentProviderFieldUpdateOperationsInput | $Enums.PaymentProvider
   addressId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   paymentMethodId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   payphoneData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  refundedAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  reviewNote?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  requiresReview?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  chargedCurrency?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  chargedAmount?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  exchangeRate?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  installments?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  order?: Prisma.OrderUpdateOneWithoutPaymentsNestedInput
   user?: Prisma.UserUpdateOneRequiredWithoutPaymentTransactionsNestedInput
+  reviewedBy?: Prisma.UserUpdateOneWithoutReviewedDepositsNestedInput
+  installmentPlan?: Prisma.InstallmentPlanUpdateOneWithoutTransactionsNestedInput
+  refunds?: Prisma.RefundUpdateManyWithoutTransactionNestedInput
+  statusChanges?: Prisma.PaymentStatusChangeUpdateManyWithoutTransactionNestedInput
+  reconciliationItems?: Prisma.ReconciliationItemUpdateManyWithoutTransactionNestedInput
+  cryptoPayment?: Prisma.CryptoPaymentUpdateOneWithoutTransactionNestedInput
 }
 
-export type PaymentTransactionUncheckedUpdateWithoutOrderInput = {
+export type PaymentTransactionUncheckedUpdateWithoutExchangeRateRecordInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
+  orderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   userId?: Prisma.StringFieldUpdateOperationsInput | string
   clientTransactionId?: Prisma.StringFieldUpdateOperationsInput | string
   amount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  taxAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  taxableAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
   status?: Prisma.EnumPaymentStatusFieldUpdateOperationsInput | $Enums.PaymentStatus
   paymentProvider?: Prisma.EnumPaymentProviderFieldUpdateOperationsInput | $Enums.PaymentProvider
   addressId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   paymentMethodId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   payphoneData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  refundedAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  reviewedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  reviewNote?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  requiresReview?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  chargedCurrency?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  chargedAmount?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  exchangeRate?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  installments?: Prisma.IntFieldUpdateOperationsInput | number
+  installmentPlanId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  refunds?: Prisma.RefundUncheckedUpdateManyWithoutTransactionNestedInput
+  statusChanges?: Prisma.PaymentStatusChangeUncheckedUpdateManyWithoutTransactionNestedInput
+  reconciliationItems?: Prisma.ReconciliationItemUncheckedUpdateManyWithoutTransactionNestedInput
+  cryptoPayment?: Prisma.CryptoPaymentUncheckedUpdateOneWithoutTransactionNestedInput
 }
 
-export type PaymentTransactionUncheckedUpdateManyWithoutOrderInput = {
+export type PaymentTransactionUncheckedUpdateManyWithoutExchangeRateRecordInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
+  orderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   userId?: Prisma.StringFieldUpdateOperationsInput | string
   clientTransactionId?: Prisma.StringFieldUpdateOperationsInput | string
   amount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  taxAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  taxableAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
   status?: Prisma.EnumPaymentStatusFieldUpdateOperationsInput | $Enums.PaymentStatus
   paymentProvider?: Prisma.EnumPaymentProviderFieldUpdateOperationsInput | $Enums.PaymentProvider
   addressId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   paymentMethodId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   payphoneData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  refundedAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  reviewedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  reviewNote?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  requiresReview?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  chargedCurrency?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  chargedAmount?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  exchangeRate?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  installments?: Prisma.IntFieldUpdateOperationsInput | number
+  installmentPlanId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
 
 
+/**
+ * Count Type PaymentTransactionCountOutputType
+ */
+
+export type PaymentTransactionCountOutputType = {
+  refunds: number
+  statusChanges: number
+  reconciliationItems: number
+}
+
+export type PaymentTransactionCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  refunds?: boolean | PaymentTransactionCountOutputTypeCountRefundsArgs
+  statusChanges?: boolean | PaymentTransactionCountOutputTypeCountStatusChangesArgs
+  reconciliationItems?: boolean | PaymentTransactionCountOutputTypeCountReconciliationItemsArgs
+}
+
+/**
+ * PaymentTransactionCountOutputType without action
+ */
+export type PaymentTransactionCountOutputTypeDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PaymentTransactionCountOutputType
+   */
+  select?: Prisma.PaymentTransactionCountOutputTypeSelect<ExtArgs> | null
+}
+
+/**
+ * PaymentTransactionCountOutputType without action
+ */
+export type PaymentTransactionCountOutputTypeCountRefundsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.RefundWhereInput
+}
+
+/**
+ * PaymentTransactionCountOutputType without action
+ */
+export type PaymentTransactionCountOutputTypeCountStatusChangesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.PaymentStatusChangeWhereInput
+}
+
+/**
+ * PaymentTransactionCountOutputType without action
+ */
+export type PaymentTransactionCountOutputTypeCountReconciliationItemsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ReconciliationItemWhereInput
+}
+
 
 export type PaymentTransactionSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
   id?: boolean
@@ -849,15 +2812,36 @@ export type PaymentTransactionSelect<ExtArgs extends runtime.Types.Extensions.In
   userId?: boolean
   clientTransactionId?: boolean
   amount?: boolean
+  taxAmount?: boolean
+  taxableAmount?: boolean
   status?: boolean
   paymentProvider?: boolean
   addressId?: boolean
   paymentMethodId?: boolean
   payphoneData?: boolean
+  refundedAmount?: boolean
+  reviewedById?: boolean
+  reviewedAt?: boolean
+  reviewNote?: boolean
+  requiresReview?: boolean
+  chargedCurrency?: boolean
+  chargedAmount?: boolean
+  exchangeRate?: boolean
+  exchangeRateId?: boolean
+  installments?: boolean
+  installmentPlanId?: boolean
   createdAt?: boolean
   updatedAt?: boolean
   order?: boolean | Prisma.PaymentTransaction$orderArgs<ExtArgs>
   user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  reviewedBy?: boolean | Prisma.PaymentTransaction$reviewedByArgs<ExtArgs>
+  exchangeRateRecord?: boolean | Prisma.PaymentTransaction$exchangeRateRecordArgs<ExtArgs>
+  installmentPlan?: boolean | Prisma.PaymentTransaction$installmentPlanArgs<ExtArgs>
+  refunds?: boolean | Prisma.PaymentTransaction$refundsArgs<ExtArgs>
+  statusChanges?: boolean | Prisma.PaymentTransaction$statusChangesArgs<ExtArgs>
+  reconciliationItems?: boolean | Prisma.PaymentTransaction$reconciliationItemsArgs<ExtArgs>
+  cryptoPayment?: boolean | Prisma.PaymentTransaction$cryptoPaymentArgs<ExtArgs>
+  _count?: boolean | Prisma.PaymentTransactionCountOutputTypeDefaultArgs<ExtArgs>
 }, ExtArgs["result"]["paymentTransaction"]>
 
 export type PaymentTransactionSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
@@ -866,15 +2850,31 @@ export type PaymentTransactionSelectCreateManyAndReturn<ExtArgs extends runtime.
   userId?: boolean
   clientTransactionId?: boolean
   amount?: boolean
+  taxAmount?: boolean
+  taxableAmount?: boolean
   status?: boolean
   paymentProvider?: boolean
   addressId?: boolean
   paymentMethodId?: boolean
   payphoneData?: boolean
+  refundedAmount?: boolean
+  reviewedById?: boolean
+  reviewedAt?: boolean
+  reviewNote?: boolean
+  requiresReview?: boolean
+  chargedCurrency?: boolean
+  chargedAmount?: boolean
+  exchangeRate?: boolean
+  exchangeRateId?: boolean
+  installments?: boolean
+  installmentPlanId?: boolean
   createdAt?: boolean
   updatedAt?: boolean
   order?: boolean | Prisma.PaymentTransaction$orderArgs<ExtArgs>
   user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  reviewedBy?: boolean | Prisma.PaymentTransaction$reviewedByArgs<ExtArgs>
+  exchangeRateRecord?: boolean | Prisma.PaymentTransaction$exchangeRateRecordArgs<ExtArgs>
+  installmentPlan?: boolean | Prisma.PaymentTransaction$installmentPlanArgs<ExtArgs>
 }, ExtArgs["result"]["paymentTransaction"]>
 
 export type PaymentTransactionSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
@@ -883,15 +2883,31 @@ export type PaymentTransactionSelectUpdateManyAndReturn<ExtArgs extends runtime.
   userId?: boolean
   clientTransactionId?: boolean
   amount?: boolean
+  taxAmount?: boolean
+  taxableAmount?: boolean
   status?: boolean
   paymentProvider?: boolean
   addressId?: boolean
   paymentMethodId?: boolean
   payphoneData?: boolean
+  refundedAmount?: boolean
+  reviewedById?: boolean
+  reviewedAt?: boolean
+  reviewNote?: boolean
+  requiresReview?: boolean
+  chargedCurrency?: boolean
+  chargedAmount?: boolean
+  exchangeRate?: boolean
+  exchangeRateId?: boolean
+  installments?: boolean
+  installmentPlanId?: boolean
   createdAt?: boolean
   updatedAt?: boolean
   order?: boolean | Prisma.PaymentTransaction$orderArgs<ExtArgs>
   user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  reviewedBy?: boolean | Prisma.PaymentTransaction$reviewedByArgs<ExtArgs>
+  exchangeRateRecord?: boolean | Prisma.PaymentTransaction$exchangeRateRecordArgs<ExtArgs>
+  installmentPlan?: boolean | Prisma.PaymentTransaction$installmentPlanArgs<ExtArgs>
 }, ExtArgs["result"]["paymentTransaction"]>
 
 export type PaymentTransactionSelectScalar = {
@@ -900,27 +2916,54 @@ export type PaymentTransactionSelectScalar = {
   userId?: boolean
   clientTransactionId?: boolean
   amount?: boolean
+  taxAmount?: boolean
+  taxableAmount?: boolean
   status?: boolean
   paymentProvider?: boolean
   addressId?: boolean
   paymentMethodId?: boolean
   payphoneData?: boolean
+  refundedAmount?: boolean
+  reviewedById?: boolean
+  reviewedAt?: boolean
+  reviewNote?: boolean
+  requiresReview?: boolean
+  chargedCurrency?: boolean
+  chargedAmount?: boolean
+  exchangeRate?: boolean
+  exchangeRateId?: boolean
+  installments?: boolean
+  installmentPlanId?: boolean
   createdAt?: boolean
   updatedAt?: boolean
 }
 
-export type PaymentTransactionOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "orderId" | "userId" | "clientTransactionId" | "amount" | "status" | "paymentProvider" | "addressId" | "paymentMethodId" | "payphoneData" | "createdAt" | "updatedAt", ExtArgs["result"]["paymentTransaction"]>
+export type PaymentTransactionOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "orderId" | "userId" | "clientTransactionId" | "amount" | "taxAmount" | "taxableAmount" | "status" | "paymentProvider" | "addressId" | "paymentMethodId" | "payphoneData" | "refundedAmount" | "reviewedById" | "reviewedAt" | "reviewNote" | "requiresReview" | "chargedCurrency" | "chargedAmount" | "exchangeRate" | "exchangeRateId" | "installments" | "installmentPlanId" | "createdAt" | "updatedAt", ExtArgs["result"]["paymentTransaction"]>
 export type PaymentTransactionInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   order?: boolean | Prisma.PaymentTransaction$orderArgs<ExtArgs>
   user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  reviewedBy?: boolean | Prisma.PaymentTransaction$reviewedByArgs<ExtArgs>
+  exchangeRateRecord?: boolean | Prisma.PaymentTransaction$exchangeRateRecordArgs<ExtArgs>
+  installmentPlan?: boolean | Prisma.PaymentTransaction$installmentPlanArgs<ExtArgs>
+  refunds?: boolean | Prisma.PaymentTransaction$refundsArgs<ExtArgs>
+  statusChanges?: boolean | Prisma.PaymentTransaction$statusChangesArgs<ExtArgs>
+  reconciliationItems?: boolean | Prisma.PaymentTransaction$reconciliationItemsArgs<ExtArgs>
+  cryptoPayment?: boolean | Prisma.PaymentTransaction$cryptoPaymentArgs<ExtArgs>
+  _count?: boolean | Prisma.PaymentTransactionCountOutputTypeDefaultArgs<ExtArgs>
 }
 export type PaymentTransactionIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   order?: boolean | Prisma.PaymentTransaction$orderArgs<ExtArgs>
   user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  reviewedBy?: boolean | Prisma.PaymentTransaction$reviewedByArgs<ExtArgs>
+  exchangeRateRecord?: boolean | Prisma.PaymentTransaction$exchangeRateRecordArgs<ExtArgs>
+  installmentPlan?: boolean | Prisma.PaymentTransaction$installmentPlanArgs<ExtArgs>
 }
 export type PaymentTransactionIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   order?: boolean | Prisma.PaymentTransaction$orderArgs<ExtArgs>
   user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  reviewedBy?: boolean | Prisma.PaymentTransaction$reviewedByArgs<ExtArgs>
+  exchangeRateRecord?: boolean | Prisma.PaymentTransaction$exchangeRateRecordArgs<ExtArgs>
+  installmentPlan?: boolean | Prisma.PaymentTransaction$installmentPlanArgs<ExtArgs>
 }
 
 export type $PaymentTransactionPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
@@ -928,6 +2971,13 @@ export type $PaymentTransactionPayload<ExtArgs extends runtime.Types.Extensions.
   objects: {
     order: Prisma.$OrderPayload<ExtArgs> | null
     user: Prisma.$UserPayload<ExtArgs>
+    reviewedBy: Prisma.$UserPayload<ExtArgs> | null
+    exchangeRateRecord: Prisma.$ExchangeRatePayload<ExtArgs> | null
+    installmentPlan: Prisma.$InstallmentPlanPayload<ExtArgs> | null
+    refunds: Prisma.$RefundPayload<ExtArgs>[]
+    statusChanges: Prisma.$PaymentStatusChangePayload<ExtArgs>[]
+    reconciliationItems: Prisma.$ReconciliationItemPayload<ExtArgs>[]
+    cryptoPayment: Prisma.$CryptoPaymentPayload<ExtArgs> | null
   }
   scalars: runtime.Types.Extensions.GetPayloadResult<{
     id: string
@@ -935,11 +2985,24 @@ export type $PaymentTransactionPayload<ExtArgs extends runtime.Types.Extensions.
     userId: string
     clientTransactionId: string
     amount: runtime.Decimal
+    taxAmount: runtime.Decimal
+    taxableAmount: runtime.Decimal
     status: $Enums.PaymentStatus
     paymentProvider: $Enums.PaymentProvider
     addressId: string | null
     paymentMethodId: string | null
     payphoneData: runtime.JsonValue | null
+    refundedAmount: runtime.Decimal
+    reviewedById: string | null
+    reviewedAt: Date | null
+    reviewNote: string | null
+    requiresReview: boolean
+    chargedCurrency: string | null
+    chargedAmount: runtime.Decimal | null
+    exchangeRate: runtime.Decimal | null
+    exchangeRateId: string | null
+    installments: number
+    installmentPlanId: string | null
     createdAt: Date
     updatedAt: Date
   }, ExtArgs["result"]["paymentTransaction"]>
@@ -1338,6 +3401,13 @@ export interface Prisma__PaymentTransactionClient<T, Null = never, ExtArgs exten
   readonly [Symbol.toStringTag]: "PrismaPromise"
   order<T extends Prisma.PaymentTransaction$orderArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.PaymentTransaction$orderArgs<ExtArgs>>): Prisma.Prisma__OrderClient<runtime.Types.Result.GetResult<Prisma.$OrderPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
   user<T extends Prisma.UserDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.UserDefaultArgs<ExtArgs>>): Prisma.Prisma__UserClient<runtime.Types.Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  reviewedBy<T extends Prisma.PaymentTransaction$reviewedByArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.PaymentTransaction$reviewedByArgs<ExtArgs>>): Prisma.Prisma__UserClient<runtime.Types.Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  exchangeRateRecord<T extends Prisma.PaymentTransaction$exchangeRateRecordArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.PaymentTransaction$exchangeRateRecordArgs<ExtArgs>>): Prisma.Prisma__ExchangeRateClient<runtime.Types.Result.GetResult<Prisma.$ExchangeRatePayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  installmentPlan<T extends Prisma.PaymentTransaction$installmentPlanArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.PaymentTransaction$installmentPlanArgs<ExtArgs>>): Prisma.Prisma__InstallmentPlanClient<runtime.Types.Result.GetResult<Prisma.$InstallmentPlanPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  refunds<T extends Prisma.PaymentTransaction$refundsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.PaymentTransaction$refundsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$RefundPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  statusChanges<T extends Prisma.PaymentTransaction$statusChangesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.PaymentTransaction$statusChangesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$PaymentStatusChangePayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  reconciliationItems<T extends Prisma.PaymentTransaction$reconciliationItemsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.PaymentTransaction$reconciliationItemsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ReconciliationItemPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  cryptoPayment<T extends Prisma.PaymentTransaction$cryptoPaymentArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.PaymentTransaction$cryptoPaymentArgs<ExtArgs>>): Prisma.Prisma__CryptoPaymentClient<runtime.Types.Result.GetResult<Prisma.$CryptoPaymentPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
   /**
    * Attaches callbacks for the resolution and/or rejection of the Promise.
    * @param onfulfilled The callback to execute when the Promise is resolved.
@@ -1372,11 +3442,24 @@ export interface PaymentTransactionFieldRefs {
   readonly userId: Prisma.FieldRef<"PaymentTransaction", 'String'>
   readonly clientTransactionId: Prisma.FieldRef<"PaymentTransaction", 'String'>
   readonly amount: Prisma.FieldRef<"PaymentTransaction", 'Decimal'>
+  readonly taxAmount: Prisma.FieldRef<"PaymentTransaction", 'Decimal'>
+  readonly taxableAmount: Prisma.FieldRef<"PaymentTransaction", 'Decimal'>
   readonly status: Prisma.FieldRef<"PaymentTransaction", 'PaymentStatus'>
   readonly paymentProvider: Prisma.FieldRef<"PaymentTransaction", 'PaymentProvider'>
   readonly addressId: Prisma.FieldRef<"PaymentTransaction", 'String'>
   readonly paymentMethodId: Prisma.FieldRef<"PaymentTransaction", 'String'>
   readonly payphoneData: Prisma.FieldRef<"PaymentTransaction", 'Json'>
+  readonly refundedAmount: Prisma.FieldRef<"PaymentTransaction", 'Decimal'>
+  readonly reviewedById: Prisma.FieldRef<"PaymentTransaction", 'String'>
+  readonly reviewedAt: Prisma.FieldRef<"PaymentTransaction", 'DateTime'>
+  readonly reviewNote: Prisma.FieldRef<"PaymentTransaction", 'String'>
+  readonly requiresReview: Prisma.FieldRef<"PaymentTransaction", 'Boolean'>
+  readonly chargedCurrency: Prisma.FieldRef<"PaymentTransaction", 'String'>
+  readonly chargedAmount: Prisma.FieldRef<"PaymentTransaction", 'Decimal'>
+  readonly exchangeRate: Prisma.FieldRef<"PaymentTransaction", 'Decimal'>
+  readonly exchangeRateId: Prisma.FieldRef<"PaymentTransaction", 'String'>
+  readonly installments: Prisma.FieldRef<"PaymentTransaction", 'Int'>
+  readonly installmentPlanId: Prisma.FieldRef<"PaymentTransaction", 'String'>
   readonly createdAt: Prisma.FieldRef<"PaymentTransaction", 'DateTime'>
   readonly updatedAt: Prisma.FieldRef<"PaymentTransaction", 'DateTime'>
 }
@@ -1793,6 +3876,154 @@ export type PaymentTransaction$orderArgs<ExtArgs extends runtime.Types.Extension
   where?: Prisma.OrderWhereInput
 }
 
+/**
+ * PaymentTransaction.reviewedBy
+ */
+export type PaymentTransaction$reviewedByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the User
+   */
+  select?: Prisma.UserSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the User
+   */
+  omit?: Prisma.UserOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.UserInclude<ExtArgs> | null
+  where?: Prisma.UserWhereInput
+}
+
+/**
+ * PaymentTransaction.exchangeRateRecord
+ */
+export type PaymentTransaction$exchangeRateRecordArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ExchangeRate
+   */
+  select?: Prisma.ExchangeRateSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ExchangeRate
+   */
+  omit?: Prisma.ExchangeRateOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ExchangeRateInclude<ExtArgs> | null
+  where?: Prisma.ExchangeRateWhereInput
+}
+
+/**
+ * PaymentTransaction.installmentPlan
+ */
+export type PaymentTransaction$installmentPlanArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InstallmentPlan
+   */
+  select?: Prisma.InstallmentPlanSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the InstallmentPlan
+   */
+  omit?: Prisma.InstallmentPlanOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InstallmentPlanInclude<ExtArgs> | null
+  where?: Prisma.InstallmentPlanWhereInput
+}
+
+/**
+ * PaymentTransaction.refunds
+ */
+export type PaymentTransaction$refundsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Refund
+   */
+  select?: Prisma.RefundSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Refund
+   */
+  omit?: Prisma.RefundOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RefundInclude<ExtArgs> | null
+  where?: Prisma.RefundWhereInput
+  orderBy?: Prisma.RefundOrderByWithRelationInput | Prisma.RefundOrderByWithRelationInput[]
+  cursor?: Prisma.RefundWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.RefundScalarFieldEnum | Prisma.RefundScalarFieldEnum[]
+}
+
+/**
+ * PaymentTransaction.statusChanges
+ */
+export type PaymentTransaction$statusChangesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PaymentStatusChange
+   */
+  select?: Prisma.PaymentStatusChangeSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PaymentStatusChange
+   */
+  omit?: Prisma.PaymentStatusChangeOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PaymentStatusChangeInclude<ExtArgs> | null
+  where?: Prisma.PaymentStatusChangeWhereInput
+  orderBy?: Prisma.PaymentStatusChangeOrderByWithRelationInput | Prisma.PaymentStatusChangeOrderByWithRelationInput[]
+  cursor?: Prisma.PaymentStatusChangeWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.PaymentStatusChangeScalarFieldEnum | Prisma.PaymentStatusChangeScalarFieldEnum[]
+}
+
+/**
+ * PaymentTransaction.reconciliationItems
+ */
+export type PaymentTransaction$reconciliationItemsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ReconciliationItem
+   */
+  select?: Prisma.ReconciliationItemSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ReconciliationItem
+   */
+  omit?: Prisma.ReconciliationItemOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ReconciliationItemInclude<ExtArgs> | null
+  where?: Prisma.ReconciliationItemWhereInput
+  orderBy?: Prisma.ReconciliationItemOrderByWithRelationInput | Prisma.ReconciliationItemOrderByWithRelationInput[]
+  cursor?: Prisma.ReconciliationItemWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.ReconciliationItemScalarFieldEnum | Prisma.ReconciliationItemScalarFieldEnum[]
+}
+
+/**
+ * PaymentTransaction.cryptoPayment
+ */
+export type PaymentTransaction$cryptoPaymentArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CryptoPayment
+   */
+  select?: Prisma.CryptoPaymentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CryptoPayment
+   */
+  omit?: Prisma.CryptoPaymentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CryptoPaymentInclude<ExtArgs> | null
+  where?: Prisma.CryptoPaymentWhereInput
+}
+
 /**
  * PaymentTransaction without action
  */
@@ -0,0 +1,1805 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `ReconciliationItem` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums.js"
+import type * as Prisma from "../internal/prismaNamespace.js"
+
+/**
+ * Model ReconciliationItem
+ * 
+ */
+export type ReconciliationItemModel = runtime.Types.Result.DefaultSelection<Prisma.$ReconciliationItemPayload>
+
+export type AggregateReconciliationItem = {
+  _count: ReconciliationItemCountAggregateOutputType | null
+  _avg: ReconciliationItemAvgAggregateOutputType | null
+  _sum: ReconciliationItemSumAggregateOutputType | null
+  _min: ReconciliationItemMinAggregateOutputType | null
+  _max: ReconciliationItemMaxAggregateOutputType | null
+}
+
+export type ReconciliationItemAvgAggregateOutputType = {
+  localAmount: runtime.Decimal | null
+  providerAmount: runtime.Decimal | null
+}
+
+export type ReconciliationItemSumAggregateOutputType = {
+  localAmount: runtime.Decimal | null
+  providerAmount: runtime.Decimal | null
+}
+
+export type ReconciliationItemMinAggregateOutputType = {
+  id: string | null
+  runId: string | null
+  transactionId: string | null
+  provider: $Enums.PaymentProvider | null
+  result: $Enums.ReconciliationResult | null
+  localStatus: $Enums.PaymentStatus | null
+  newStatus: $Enums.PaymentStatus | null
+  providerStatus: string | null
+  localAmount: runtime.Decimal | null
+  providerAmount: runtime.Decimal | null
+  note: string | null
+  createdAt: Date | null
+}
+
+export type ReconciliationItemMaxAggregateOutputType = {
+  id: string | null
+  runId: string | null
+  transactionId: string | null
+  provider: $Enums.PaymentProvider | null
+  result: $Enums.ReconciliationResult | null
+  localStatus: $Enums.PaymentStatus | null
+  newStatus: $Enums.PaymentStatus | null
+  providerStatus: string | null
+  localAmount: runtime.Decimal | null
+  providerAmount: runtime.Decimal | null
+  note: string | null
+  createdAt: Date | null
+}
+
+export type ReconciliationItemCountAggregateOutputType = {
+  id: number
+  runId: number
+  transactionId: number
+  provider: number
+  result: number
+  localStatus: number
+  newStatus: number
+  providerStatus: number
+  localAmount: number
+  providerAmount: number
+  note: number
+  createdAt: number
+  _all: number
+}
+
+
+export type ReconciliationItemAvgAggregateInputType = {
+  localAmount?: true
+  providerAmount?: true
+}
+
+export type ReconciliationItemSumAggregateInputType = {
+  localAmount?: true
+  providerAmount?: true
+}
+
+export type ReconciliationItemMinAggregateInputType = {
+  id?: true
+  runId?: true
+  transactionId?: true
+  provider?: true
+  result?: true
+  localStatus?: true
+  newStatus?: true
+  providerStatus?: true
+  localAmount?: true
+  providerAmount?: true
+  note?: true
+  createdAt?: true
+}
+
+export type ReconciliationItemMaxAggregateInputType = {
+  id?: true
+  runId?: true
+  transactionId?: true
+  provider?: true
+  result?: true
+  localStatus?: true
+  newStatus?: true
+  providerStatus?: true
+  localAmount?: true
+  providerAmount?: true
+  note?: true
+  createdAt?: true
+}
+
+export type ReconciliationItemCountAggregateInputType = {
+  id?: true
+  runId?: true
+  transactionId?: true
+  provider?: true
+  result?: true
+  localStatus?: true
+  newStatus?: true
+  providerStatus?: true
+  localAmount?: true
+  providerAmount?: true
+  note?: true
+  createdAt?: true
+  _all?: true
+}
+
+export type ReconciliationItemAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which ReconciliationItem to aggregate.
+   */
+  where?: Prisma.ReconciliationItemWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ReconciliationItems to fetch.
+   */
+  orderBy?: Prisma.ReconciliationItemOrderByWithRelationInput | Prisma.ReconciliationItemOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.ReconciliationItemWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ReconciliationItems from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ReconciliationItems.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned ReconciliationItems
+  **/
+  _count?: true | ReconciliationItemCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: ReconciliationItemAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: ReconciliationItemSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: ReconciliationItemMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: ReconciliationItemMaxAggregateInputType
+}
+
+export type GetReconciliationItemAggregateType<T extends ReconciliationItemAggregateArgs> = {
+      [P in keyof T & keyof AggregateReconciliationItem]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateReconciliationItem[P]>
+    : Prisma.GetScalarType<T[P], AggregateReconciliationItem[P]>
+}
+
+
+
+
+export type ReconciliationItemGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ReconciliationItemWhereInput
+  orderBy?: Prisma.ReconciliationItemOrderByWithAggregationInput | Prisma.ReconciliationItemOrderByWithAggregationInput[]
+  by: Prisma.ReconciliationItemScalarFieldEnum[] | Prisma.ReconciliationItemScalarFieldEnum
+  having?: Prisma.ReconciliationItemScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: ReconciliationItemCountAggregateInputType | true
+  _avg?: ReconciliationItemAvgAggregateInputType
+  _sum?: ReconciliationItemSumAggregateInputType
+  _min?: ReconciliationItemMinAggregateInputType
+  _max?: ReconciliationItemMaxAggregateInputType
+}
+
+export type ReconciliationItemGroupByOutputType = {
+  id: string
+  runId: string
+  transactionId: string
+  provider: $Enums.PaymentProvider
+  result: $Enums.ReconciliationResult
+  localStatus: $Enums.PaymentStatus
+  newStatus: $Enums.PaymentStatus | null
+  providerStatus: string | null
+  localAmount: runtime.Decimal
+  providerAmount: runtime.Decimal | null
+  note: string | null
+  createdAt: Date
+  _count: ReconciliationItemCountAggregateOutputType | null
+  _avg: ReconciliationItemAvgAggregateOutputType | null
+  _sum: ReconciliationItemSumAggregateOutputType | null
+  _min: ReconciliationItemMinAggregateOutputType | null
+  _max: ReconciliationItemMaxAggregateOutputType | null
+}
+
+type GetReconciliationItemGroupByPayload<T extends ReconciliationItemGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<ReconciliationItemGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof ReconciliationItemGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], ReconciliationItemGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], ReconciliationItemGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type ReconciliationItemWhereInput = {
+  AND?: Prisma.ReconciliationItemWhereInput | Prisma.ReconciliationItemWhereInput[]
+  OR?: Prisma.ReconciliationItemWhereInput[]
+  NOT?: Prisma.ReconciliationItemWhereInput | Prisma.ReconciliationItemWhereInput[]
+  id?: Prisma.StringFilter<"ReconciliationItem"> | string
+  runId?: Prisma.StringFilter<"ReconciliationItem"> | string
+  transactionId?: Prisma.StringFilter<"ReconciliationItem"> | string
+  provider?: Prisma.EnumPaymentProviderFilter<"ReconciliationItem"> | $Enums.PaymentProvider
+  result?: Prisma.EnumReconciliationResultFilter<"ReconciliationItem"> | $Enums.ReconciliationResult
+  localStatus?: Prisma.EnumPaymentStatusFilter<"ReconciliationItem"> | $Enums.PaymentStatus
+  newStatus?: Prisma.EnumPaymentStatusNullableFilter<"ReconciliationItem"> | $Enums.PaymentStatus | null
+  providerStatus?: Prisma.StringNullableFilter<"ReconciliationItem"> | string | null
+  localAmount?: Prisma.DecimalFilter<"ReconciliationItem"> | runtime.Decimal | runtime.DecimalJsLike | number | string
+  providerAmount?: Prisma.DecimalNullableFilter<"ReconciliationItem"> | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  note?: Prisma.StringNullableFilter<"ReconciliationItem"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"ReconciliationItem"> | Date | string
+  run?: Prisma.XOR<Prisma.ReconciliationRunScalarRelationFilter, Prisma.ReconciliationRunWhereInput>
+  transaction?: Prisma.XOR<Prisma.PaymentTransactionScalarRelationFilter, Prisma.PaymentTransactionWhereInput>
+}
+
+export type ReconciliationItemOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  runId?: Prisma.SortOrder
+  transactionId?: Prisma.SortOrder
+  provider?: Prisma.SortOrder
+  result?: Prisma.SortOrder
+  localStatus?: Prisma.SortOrder
+  newStatus?: Prisma.SortOrderInput | Prisma.SortOrder
+  providerStatus?: Prisma.SortOrderInput | Prisma.SortOrder
+  localAmount?: Prisma.SortOrder
+  providerAmount?: Prisma.SortOrderInput | Prisma.SortOrder
+  note?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  run?: Prisma.ReconciliationRunOrderByWithRelationInput
+  transaction?: Prisma.PaymentTransactionOrderByWithRelationInput
+}
+
+export type ReconciliationItemWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  AND?: Prisma.ReconciliationItemWhereInput | Prisma.ReconciliationItemWhereInput[]
+  OR?: Prisma.ReconciliationItemWhereInput[]
+  NOT?: Prisma.ReconciliationItemWhereInput | Prisma.ReconciliationItemWhereInput[]
+  runId?: Prisma.StringFilter<"ReconciliationItem"> | string
+  transactionId?: Prisma.StringFilter<"ReconciliationItem"> | string
+  provider?: Prisma.EnumPaymentProviderFilter<"ReconciliationItem"> | $Enums.PaymentProvider
+  result?: Prisma.EnumReconciliationResultFilter<"ReconciliationItem"> | $Enums.ReconciliationResult
+  localStatus?: Prisma.EnumPaymentStatusFilter<"ReconciliationItem"> | $Enums.PaymentStatus
+  newStatus?: Prisma.EnumPaymentStatusNullableFilter<"ReconciliationItem"> | $Enums.PaymentStatus | null
+  providerStatus?: Prisma.StringNullableFilter<"ReconciliationItem"> | string | null
+  localAmount?: Prisma.DecimalFilter<"ReconciliationItem"> | runtime.Decimal | runtime.DecimalJsLike | number | string
+  providerAmount?: Prisma.DecimalNullableFilter<"ReconciliationItem"> | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  note?: Prisma.StringNullableFilter<"ReconciliationItem"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"ReconciliationItem"> | Date | string
+  run?: Prisma.XOR<Prisma.ReconciliationRunScalarRelationFilter, Prisma.ReconciliationRunWhereInput>
+  transaction?: Prisma.XOR<Prisma.PaymentTransactionScalarRelationFilter, Prisma.PaymentTransactionWhereInput>
+}, "id">
+
+export type ReconciliationItemOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  runId?: Prisma.SortOrder
+  transactionId?: Prisma.SortOrder
+  provider?: Prisma.SortOrder
+  result?: Prisma.SortOrder
+  localStatus?: Prisma.SortOrder
+  newStatus?: Prisma.SortOrderInput | Prisma.SortOrder
+  providerStatus?: Prisma.SortOrderInput | Prisma.SortOrder
+  localAmount?: Prisma.SortOrder
+  providerAmount?: Prisma.SortOrderInput | Prisma.SortOrder
+  note?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  _count?: Prisma.ReconciliationItemCountOrderByAggregateInput
+  _avg?: Prisma.ReconciliationItemAvgOrderByAggregateInput
+  _max?: Prisma.ReconciliationItemMaxOrderByAggregateInput
+  _min?: Prisma.ReconciliationItemMinOrderByAggregateInput
+  _sum?: Prisma.ReconciliationItemSumOrderByAggregateInput
+}
+
+export type ReconciliationItemScalarWhereWithAggregatesInput = {
+  AND?: Prisma.ReconciliationItemScalarWhereWithAggregatesInput | Prisma.ReconciliationItemScalarWhereWithAggregatesInput[]
+  OR?: Prisma.ReconciliationItemScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.ReconciliationItemScalarWhereWithAggregatesInput | Prisma.ReconciliationItemScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"ReconciliationItem"> | string
+  runId?: Prisma.StringWithAggregatesFilter<"ReconciliationItem"> | string
+  transactionId?: Prisma.StringWithAggregatesFilter<"ReconciliationItem"> | string
+  provider?: Prisma.EnumPaymentProviderWithAggregatesFilter<"ReconciliationItem"> | $Enums.PaymentProvider
+  result?: Prisma.EnumReconciliationResultWithAggregatesFilter<"ReconciliationItem"> | $Enums.ReconciliationResult
+  localStatus?: Prisma.EnumPaymentStatusWithAggregatesFilter<"ReconciliationItem"> | $Enums.PaymentStatus
+  newStatus?: Prisma.EnumPaymentStatusNullableWithAggregatesFilter<"ReconciliationItem"> | $Enums.PaymentStatus | null
+  providerStatus?: Prisma.StringNullableWithAggregatesFilter<"ReconciliationItem"> | string | null
+  localAmount?: Prisma.DecimalWithAggregatesFilter<"ReconciliationItem"> | runtime.Decimal | runtime.DecimalJsLike | number | string
+  providerAmount?: Prisma.DecimalNullableWithAggregatesFilter<"ReconciliationItem"> | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  note?: Prisma.StringNullableWithAggregatesFilter<"ReconciliationItem"> | string | null
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"ReconciliationItem"> | Date | string
+}
+
+export type ReconciliationItemCreateInput = {
+  id?: string
+  provider: $Enums.PaymentProvider
+  result: $Enums.ReconciliationResult
+  localStatus: $Enums.PaymentStatus
+  newStatus?: $Enums.PaymentStatus | null
+  providerStatus?: string | null
+  localAmount: runtime.Decimal | runtime.DecimalJsLike | number | string
+  providerAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  note?: string | null
+  createdAt?: Date | string
+  run: Prisma.ReconciliationRunCreateNestedOneWithoutItemsInput
+  transaction: Prisma.PaymentTransactionCreateNestedOneWithoutReconciliationItemsInput
+}
+
+export type ReconciliationItemUncheckedCreateInput = {
+  id?: string
+  runId: string
+  transactionId: string
+  provider: $Enums.PaymentProvider
+  result: $Enums.ReconciliationResult
+  localStatus: $Enums.PaymentStatus
+  newStatus?: $Enums.PaymentStatus | null
+  providerStatus?: string | null
+  localAmount: runtime.Decimal | runtime.DecimalJsLike | number | string
+  providerAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  note?: string | null
+  createdAt?: Date | string
+}
+
+export type ReconciliationItemUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  provider?: Prisma.EnumPaymentProviderFieldUpdateOperationsInput | $Enums.PaymentProvider
+  result?: Prisma.EnumReconciliationResultFieldUpdateOperationsInput | $Enums.ReconciliationResult
+  localStatus?: Prisma.EnumPaymentStatusFieldUpdateOperationsInput | $Enums.PaymentStatus
+  newStatus?: Prisma.NullableEnumPaymentStatusFieldUpdateOperationsInput | $Enums.PaymentStatus | null
+  providerStatus?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  localAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  providerAmount?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  note?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  run?: Prisma.ReconciliationRunUpdateOneRequiredWithoutItemsNestedInput
+  transaction?: Prisma.PaymentTransactionUpdateOneRequiredWithoutReconciliationItemsNestedInput
+}
+
+export type ReconciliationItemUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  runId?: Prisma.StringFieldUpdateOperationsInput | string
+  transactionId?: Prisma.StringFieldUpdateOperationsInput | string
+  provider?: Prisma.EnumPaymentProviderFieldUpdateOperationsInput | $Enums.PaymentProvider
+  result?: Prisma.EnumReconciliationResultFieldUpdateOperationsInput | $Enums.ReconciliationResult
+  localStatus?: Prisma.EnumPaymentStatusFieldUpdateOperationsInput | $Enums.PaymentStatus
+  newStatus?: Prisma.NullableEnumPaymentStatusFieldUpdateOperationsInput | $Enums.PaymentStatus | null
+  providerStatus?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  localAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  providerAmount?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  note?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ReconciliationItemCreateManyInput = {
+  id?: string
+  runId: string
+  transactionId: string
+  provider: $Enums.PaymentProvider
+  result: $Enums.ReconciliationResult
+  localStatus: $Enums.PaymentStatus
+  newStatus?: $Enums.PaymentStatus | null
+  providerStatus?: string | null
+  localAmount: runtime.Decimal | runtime.DecimalJsLike | number | string
+  providerAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  note?: string | null
+  createdAt?: Date | string
+}
+
+export type ReconciliationItemUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  provider?: Prisma.EnumPaymentProviderFieldUpdateOperationsInput | $Enums.PaymentProvider
+  result?: Prisma.EnumReconciliationResultFieldUpdateOperationsInput | $Enums.ReconciliationResult
+  localStatus?: Prisma.EnumPaymentStatusFieldUpdateOperationsInput | $Enums.PaymentStatus
+  newStatus?: Prisma.NullableEnumPaymentStatusFieldUpdateOperationsInput | $Enums.PaymentStatus | null
+  providerStatus?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  localAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  providerAmount?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  note?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ReconciliationItemUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  runId?: Prisma.StringFieldUpdateOperationsInput | string
+  transactionId?: Prisma.StringFieldUpdateOperationsInput | string
+  provider?: Prisma.EnumPaymentProviderFieldUpdateOperationsInput | $Enums.PaymentProvider
+  result?: Prisma.EnumReconciliationResultFieldUpdateOperationsInput | $Enums.ReconciliationResult
+  localStatus?: Prisma.EnumPaymentStatusFieldUpdateOperationsInput | $Enums.PaymentStatus
+  newStatus?: Prisma.NullableEnumPaymentStatusFieldUpdateOperationsInput | $Enums.PaymentStatus | null
+  providerStatus?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  localAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  providerAmount?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  note?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ReconciliationItemListRelationFilter = {
+  every?: Prisma.ReconciliationItemWhereInput
+  some?: Prisma.ReconciliationItemWhereInput
+  none?: Prisma.ReconciliationItemWhereInput
+}
+
+export type ReconciliationItemOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type ReconciliationItemCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  runId?: Prisma.SortOrder
+  transactionId?: Prisma.SortOrder
+  provider?: Prisma.SortOrder
+  result?: Prisma.SortOrder
+  localStatus?: Prisma.SortOrder
+  newStatus?: Prisma.SortOrder
+  providerStatus?: Prisma.SortOrder
+  localAmount?: Prisma.SortOrder
+  providerAmount?: Prisma.SortOrder
+  note?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type ReconciliationItemAvgOrderByAggregateInput = {
+  localAmount?: Prisma.SortOrder
+  providerAmount?: Prisma.SortOrder
+}
+
+export type ReconciliationItemMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  runId?: Prisma.SortOrder
+  transactionId?: Prisma.SortOrder
+  provider?: Prisma.SortOrder
+  result?: Prisma.SortOrder
+  localStatus?: Prisma.SortOrder
+  newStatus?: Prisma.SortOrder
+  providerStatus?: Prisma.SortOrder
+  localAmount?: Prisma.SortOrder
+  providerAmount?: Prisma.SortOrder
+  note?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type ReconciliationItemMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  runId?: Prisma.SortOrder
+  transactionId?: Prisma.SortOrder
+  provider?: Prisma.SortOrder
+  result?: Prisma.SortOrder
+  localStatus?: Prisma.SortOrder
+  newStatus?: Prisma.SortOrder
+  providerStatus?: Prisma.SortOrder
+  localAmount?: Prisma.SortOrder
+  providerAmount?: Prisma.SortOrder
+  note?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type ReconciliationItemSumOrderByAggregateInput = {
+  localAmount?: Prisma.SortOrder
+  providerAmount?: Prisma.SortOrder
+}
+
+export type ReconciliationItemCreateNestedManyWithoutTransactionInput = {
+  create?: Prisma.XOR<Prisma.ReconciliationItemCreateWithoutTransactionInput, Prisma.ReconciliationItemUncheckedCreateWithoutTransactionInput> | Prisma.ReconciliationItemCreateWithoutTransactionInput[] | Prisma.ReconciliationItemUncheckedCreateWithoutTransactionInput[]
+  connectOrCreate?: Prisma.ReconciliationItemCreateOrConnectWithoutTransactionInput | Prisma.ReconciliationItemCreateOrConnectWithoutTransactionInput[]
+  createMany?: Prisma.ReconciliationItemCreateManyTransactionInputEnvelope
+  connect?: Prisma.ReconciliationItemWhereUniqueInput | Prisma.ReconciliationItemWhereUniqueInput[]
+}
+
+export type ReconciliationItemUncheckedCreateNestedManyWithoutTransactionInput = {
+  create?: Prisma.XOR<Prisma.ReconciliationItemCreateWithoutTransactionInput, Prisma.ReconciliationItemUncheckedCreateWithoutTransactionInput> | Prisma.ReconciliationItemCreateWithoutTransactionInput[] | Prisma.ReconciliationItemUncheckedCreateWithoutTransactionInput[]
+  connectOrCreate?: Prisma.ReconciliationItemCreateOrConnectWithoutTransactionInput | Prisma.ReconciliationItemCreateOrConnectWithoutTransactionInput[]
+  createMany?: Prisma.ReconciliationItemCreateManyTransactionInputEnvelope
+  connect?: Prisma.ReconciliationItemWhereUniqueInput | Prisma.ReconciliationItemWhereUniqueInput[]
+}
+
+export type ReconciliationItemUpdateManyWithoutTransactionNestedInput = {
+  create?: Prisma.XOR<Prisma.ReconciliationItemCreateWithoutTransactionInput, Prisma.ReconciliationItemUncheckedCreateWithoutTransactionInput> | Prisma.ReconciliationItemCreateWithoutTransactionInput[] | Prisma.ReconciliationItemUncheckedCreateWithoutTransactionInput[]
+  connectOrCreate?: Prisma.ReconciliationItemCreateOrConnectWithoutTransactionInput | Prisma.ReconciliationItemCreateOrConnectWithoutTransactionInput[]
+  upsert?: Prisma.ReconciliationItemUpsertWithWhereUniqueWithoutTransactionInput | Prisma.ReconciliationItemUpsertWithWhereUniqueWithoutTransactionInput[]
+  createMany?: Prisma.ReconciliationItemCreateManyTransactionInputEnvelope
+  set?: Prisma.ReconciliationItemWhereUniqueInput | Prisma.ReconciliationItemWhereUniqueInput[]
+  disconnect?: Prisma.ReconciliationItemWhereUniqueInput | Prisma.ReconciliationItemWhereUniqueInput[]
+  delete?: Prisma.ReconciliationItemWhereUniqueInput | Prisma.ReconciliationItemWhereUniqueInput[]
+  connect?: Prisma.ReconciliationItemWhereUniqueInput | Prisma.ReconciliationItemWhereUniqueInput[]
+  update?: Prisma.ReconciliationItemUpdateWithWhereUniqueWithoutTransactionInput | Prisma.ReconciliationItemUpdateWithWhereUniqueWithoutTransactionInput[]
+  updateMany?: Prisma.ReconciliationItemUpdateManyWithWhereWithoutTransactionInput | Prisma.ReconciliationItemUpdateManyWithWhereWithoutTransactionInput[]
+  deleteMany?: Prisma.ReconciliationItemScalarWhereInput | Prisma.ReconciliationItemScalarWhereInput[]
+}
+
+export type ReconciliationItemUncheckedUpdateManyWithoutTransactionNestedInput = {
+  create?: Prisma.XOR<Prisma.ReconciliationItemCreateWithoutTransactionInput, Prisma.ReconciliationItemUncheckedCreateWithoutTransactionInput> | Prisma.ReconciliationItemCreateWithoutTransactionInput[] | Prisma.ReconciliationItemUncheckedCreateWithoutTransactionInput[]
+  connectOrCreate?: Prisma.ReconciliationItemCreateOrConnectWithoutTransactionInput | Prisma.ReconciliationItemCreateOrConnectWithoutTransactionInput[]
+  upsert?: Prisma.ReconciliationItemUpsertWithWhereUniqueWithoutTransactionInput | Prisma.ReconciliationItemUpsertWithWhereUniqueWithoutTransactionInput[]
+  createMany?: Prisma.ReconciliationItemCreateManyTransactionInputEnvelope
+  set?: Prisma.ReconciliationItemWhereUniqueInput | Prisma.ReconciliationItemWhereUniqueInput[]
+  disconnect?: Prisma.ReconciliationItemWhereUniqueInput | Prisma.ReconciliationItemWhereUniqueInput[]
+  delete?: Prisma.ReconciliationItemWhereUniqueInput | Prisma.ReconciliationItemWhereUniqueInput[]
+  connect?: Prisma.ReconciliationItemWhereUniqueInput | Prisma.ReconciliationItemWhereUniqueInput[]
+  update?: Prisma.ReconciliationItemUpdateWithWhereUniqueWithoutTransactionInput | Prisma.ReconciliationItemUpdateWithWhereUniqueWithoutTransactionInput[]
+  updateMany?: Prisma.ReconciliationItemUpdateManyWithWhereWithoutTransactionInput | Prisma.ReconciliationItemUpdateManyWithWhereWithoutTransactionInput[]
+  deleteMany?: Prisma.ReconciliationItemScalarWhereInput | Prisma.ReconciliationItemScalarWhereInput[]
+}
+
+export type ReconciliationItemCreateNestedManyWithoutRunInput = {
+  create?: Prisma.XOR<Prisma.ReconciliationItemCreateWithoutRunInput, Prisma.ReconciliationItemUncheckedCreateWithoutRunInput> | Prisma.ReconciliationItemCreateWithoutRunInput[] | Prisma.ReconciliationItemUncheckedCreateWithoutRunInput[]
+  connectOrCreate?: Prisma.ReconciliationItemCreateOrConnectWithoutRunInput | Prisma.ReconciliationItemCreateOrConnectWithoutRunInput[]
+  createMany?: Prisma.ReconciliationItemCreateManyRunInputEnvelope
+  connect?: Prisma.ReconciliationItemWhereUniqueInput | Prisma.ReconciliationItemWhereUniqueInput[]
+}
+
+export type ReconciliationItemUncheckedCreateNestedManyWithoutRunInput = {
+  create?: Prisma.XOR<Prisma.ReconciliationItemCreateWithoutRunInput, Prisma.ReconciliationItemUncheckedCreateWithoutRunInput> | Prisma.ReconciliationItemCreateWithoutRunInput[] | Prisma.ReconciliationItemUncheckedCreateWithoutRunInput[]
+  connectOrCreate?: Prisma.ReconciliationItemCreateOrConnectWithoutRunInput | Prisma.ReconciliationItemCreateOrConnectWithoutRunInput[]
+  createMany?: Prisma.ReconciliationItemCreateManyRunInputEnvelope
+  connect?: Prisma.ReconciliationItemWhereUniqueInput | Prisma.ReconciliationItemWhereUniqueInput[]
+}
+
+export type ReconciliationItemUpdateManyWithoutRunNestedInput = {
+  create?: Prisma.XOR<Prisma.ReconciliationItemCreateWithoutRunInput, Prisma.ReconciliationItemUncheckedCreateWithoutRunInput> | Prisma.ReconciliationItemCreateWithoutRunInput[] | Prisma.ReconciliationItemUncheckedCreateWithoutRunInput[]
+  connectOrCreate?: Prisma.ReconciliationItemCreateOrConnectWithoutRunInput | Prisma.ReconciliationItemCreateOrConnectWithoutRunInput[]
+  upsert?: Prisma.ReconciliationItemUpsertWithWhereUniqueWithoutRunInput | Prisma.ReconciliationItemUpsertWithWhereUniqueWithoutRunInput[]
+  createMany?: Prisma.ReconciliationItemCreateManyRunInputEnvelope
+  set?: Prisma.ReconciliationItemWhereUniqueInput | Prisma.ReconciliationItemWhereUniqueInput[]
+  disconnect?: Prisma.ReconciliationItemWhereUniqueInput | Prisma.ReconciliationItemWhereUniqueInput[]
+  delete?: Prisma.ReconciliationItemWhereUniqueInput | Prisma.ReconciliationItemWhereUniqueInput[]
+  connect?: Prisma.ReconciliationItemWhereUniqueInput | Prisma.ReconciliationItemWhereUniqueInput[]
+  update?: Prisma.ReconciliationItemUpdateWithWhereUniqueWithoutRunInput | Prisma.ReconciliationItemUpdateWithWhereUniqueWithoutRunInput[]
+  updateMany?: Prisma.ReconciliationItemUpdateManyWithWhereWithoutRunInput | Prisma.ReconciliationItemUpdateManyWithWhereWithoutRunInput[]
+  deleteMany?: Prisma.ReconciliationItemScalarWhereInput | Prisma.ReconciliationItemScalarWhereInput[]
+}
+
+export type ReconciliationItemUncheckedUpdateManyWithoutRunNestedInput = {
+  create?: Prisma.XOR<Prisma.ReconciliationItemCreateWithoutRunInput, Prisma.ReconciliationItemUncheckedCreateWithoutRunInput> | Prisma.ReconciliationItemCreateWithoutRunInput[] | Prisma.ReconciliationItemUncheckedCreateWithoutRunInput[]
+  connectOrCreate?: Prisma.ReconciliationItemCreateOrConnectWithoutRunInput | Prisma.ReconciliationItemCreateOrConnectWithoutRunInput[]
+  upsert?: Prisma.ReconciliationItemUpsertWithWhereUniqueWithoutRunInput | Prisma.ReconciliationItemUpsertWithWhereUniqueWithoutRunInput[]
+  createMany?: Prisma.ReconciliationItemCreateManyRunInputEnvelope
+  set?: Prisma.ReconciliationItemWhereUniqueInput | Prisma.ReconciliationItemWhereUniqueInput[]
+  disconnect?: Prisma.ReconciliationItemWhereUniqueInput | Prisma.ReconciliationItemWhereUniqueInput[]
+  delete?: Prisma.ReconciliationItemWhereUniqueInput | Prisma.ReconciliationItemWhereUniqueInput[]
+  connect?: Prisma.ReconciliationItemWhereUniqueInput | Prisma.ReconciliationItemWhereUniqueInput[]
+  update?: Prisma.ReconciliationItemUpdateWithWhereUniqueWithoutRunInput | Prisma.ReconciliationItemUpdateWithWhereUniqueWithoutRunInput[]
+  updateMany?: Prisma.ReconciliationItemUpdateManyWithWhereWithoutRunInput | Prisma.ReconciliationItemUpdateManyWithWhereWithoutRunInput[]
+  deleteMany?: Prisma.ReconciliationItemScalarWhereInput | Prisma.ReconciliationItemScalarWhereInput[]
+}
+
+export type EnumReconciliationResultFieldUpdateOperationsInput = {
+  set?: $Enums.ReconciliationResult
+}
+
+export type NullableEnumPaymentStatusFieldUpdateOperationsInput = {
+  set?: $Enums.PaymentStatus | null
+}
+
+export type ReconciliationItemCreateWithoutTransactionInput = {
+  id?: string
+  provider: $Enums.PaymentProvider
+  result: $Enums.ReconciliationResult
+  localStatus: $Enums.PaymentStatus
+  newStatus?: $Enums.PaymentStatus | null
+  providerStatus?: string | null
+  localAmount: runtime.Decimal | runtime.DecimalJsLike | number | string
+  providerAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  note?: string | null
+  createdAt?: Date | string
+  run: Prisma.ReconciliationRunCreateNestedOneWithoutItemsInput
+}
+
+export type ReconciliationItemUncheckedCreateWithoutTransactionInput = {
+  id?: string
+  runId: string
+  provider: $Enums.PaymentProvider
+  result: $Enums.ReconciliationResult
+  localStatus: $Enums.PaymentStatus
+  newStatus?: $Enums.PaymentStatus | null
+  providerStatus?: string | null
+  localAmount: runtime.Decimal | runtime.DecimalJsLike | number | string
+  providerAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  note?: string | null
+  createdAt?: Date | string
+}
+
+export type ReconciliationItemCreateOrConnectWithoutTransactionInput = {
+  where: Prisma.ReconciliationItemWhereUniqueInput
+  create: Prisma.XOR<Prisma.ReconciliationItemCreateWithoutTransactionInput, Prisma.ReconciliationItemUncheckedCreateWithoutTransactionInput>
+}
+
+export type ReconciliationItemCreateManyTransactionInputEnvelope = {
+  data: Prisma.ReconciliationItemCreateManyTransactionInput | Prisma.ReconciliationItemCreateManyTransactionInput[]
+  skipDuplicates?: boolean
+}
+
+export type ReconciliationItemUpsertWithWhereUniqueWithoutTransactionInput = {
+  where: Prisma.ReconciliationItemWhereUniqueInput
+  update: Prisma.XOR<Prisma.ReconciliationItemUpdateWithoutTransactionInput, Prisma.ReconciliationItemUncheckedUpdateWithoutTransactionInput>
+  create: Prisma.XOR<Prisma.ReconciliationItemCreateWithoutTransactionInput, Prisma.ReconciliationItemUncheckedCreateWithoutTransactionInput>
+}
+
+export type ReconciliationItemUpdateWithWhereUniqueWithoutTransactionInput = {
+  where: Prisma.ReconciliationItemWhereUniqueInput
+  data: Prisma.XOR<Prisma.ReconciliationItemUpdateWithoutTransactionInput, Prisma.ReconciliationItemUncheckedUpdateWithoutTransactionInput>
+}
+
+export type ReconciliationItemUpdateManyWithWhereWithoutTransactionInput = {
+  where: Prisma.ReconciliationItemScalarWhereInput
+  data: Prisma.XOR<Prisma.ReconciliationItemUpdateManyMutationInput, Prisma.ReconciliationItemUncheckedUpdateManyWithoutTransactionInput>
+}
+
+export type ReconciliationItemScalarWhereInput = {
+  AND?: Prisma.ReconciliationItemScalarWhereInput | Prisma.ReconciliationItemScalarWhereInput[]
+  OR?: Prisma.ReconciliationItemScalarWhereInput[]
+  NOT?: Prisma.ReconciliationItemScalarWhereInput | Prisma.ReconciliationItemScalarWhereInput[]
+  id?: Prisma.StringFilter<"ReconciliationItem"> | string
+  runId?: Prisma.StringFilter<"ReconciliationItem"> | string
+  transactionId?: Prisma.StringFilter<"ReconciliationItem"> | string
+  provider?: Prisma.EnumPaymentProviderFilter<"ReconciliationItem"> | $Enums.PaymentProvider
+  result?: Prisma.EnumReconciliationResultFilter<"ReconciliationItem"> | $Enums.ReconciliationResult
+  localStatus?: Prisma.EnumPaymentStatusFilter<"ReconciliationItem"> | $Enums.PaymentStatus
+  newStatus?: Prisma.EnumPaymentStatusNullableFilter<"ReconciliationItem"> | $Enums.PaymentStatus | null
+  providerStatus?: Prisma.StringNullableFilter<"ReconciliationItem"> | string | null
+  localAmount?: Prisma.DecimalFilter<"ReconciliationItem"> | runtime.Decimal | runtime.DecimalJsLike | number | string
+  providerAmount?: Prisma.DecimalNullableFilter<"ReconciliationItem"> | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  note?: Prisma.StringNullableFilter<"ReconciliationItem"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"ReconciliationItem"> | Date | string
+}
+
+export type ReconciliationItemCreateWithoutRunInput = {
+  id?: string
+  provider: $Enums.PaymentProvider
+  result: $Enums.ReconciliationResult
+  localStatus: $Enums.PaymentStatus
+  newStatus?: $Enums.PaymentStatus | null
+  providerStatus?: string | null
+  localAmount: runtime.Decimal | runtime.DecimalJsLike | number | string
+  providerAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  note?: string | null
+  createdAt?: Date | string
+  transaction: Prisma.PaymentTransactionCreateNestedOneWithoutReconciliationItemsInput
+}
+
+export type ReconciliationItemUncheckedCreateWithoutRunInput = {
+  id?: string
+  transactionId: string
+  provider: $Enums.PaymentProvider
+  result: $Enums.ReconciliationResult
+  localStatus: $Enums.PaymentStatus
+  newStatus?: $Enums.PaymentStatus | null
+  providerStatus?: string | null
+  localAmount: runtime.Decimal | runtime.DecimalJsLike | number | string
+  providerAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  note?: string | null
+  createdAt?: Date | string
+}
+
+export type ReconciliationItemCreateOrConnectWithoutRunInput = {
+  where: Prisma.ReconciliationItemWhereUniqueInput
+  create: Prisma.XOR<Prisma.ReconciliationItemCreateWithoutRunInput, Prisma.ReconciliationItemUncheckedCreateWithoutRunInput>
+}
+
+export type ReconciliationItemCreateManyRunInputEnvelope = {
+  data: Prisma.ReconciliationItemCreateManyRunInput | Prisma.ReconciliationItemCreateManyRunInput[]
+  skipDuplicates?: boolean
+}
+
+export type ReconciliationItemUpsertWithWhereUniqueWithoutRunInput = {
+  where: Prisma.ReconciliationItemWhereUniqueInput
+  update: Prisma.XOR<Prisma.ReconciliationItemUpdateWithoutRunInput, Prisma.ReconciliationItemUncheckedUpdateWithoutRunInput>
+  create: Prisma.XOR<Prisma.ReconciliationItemCreateWithoutRunInput, Prisma.ReconciliationItemUncheckedCreateWithoutRunInput>
+}
+
+export type ReconciliationItemUpdateWithWhereUniqueWithoutRunInput = {
+  where: Prisma.ReconciliationItemWhereUniqueInput
+  data: Prisma.XOR<Prisma.ReconciliationItemUpdateWithoutRunInput, Prisma.ReconciliationItemUncheckedUpdateWithoutRunInput>
+}
+
+export type ReconciliationItemUpdateManyWithWhereWithoutRunInput = {
+  where: Prisma.ReconciliationItemScalarWhereInput
+  data: Prisma.XOR<Prisma.ReconciliationItemUpdateManyMutationInput, Prisma.ReconciliationItemUncheckedUpdateManyWithoutRunInput>
+}
+
+export type ReconciliationItemCreateManyTransactionInput = {
+  id?: string
+  runId: string
+  provider: $Enums.PaymentProvider
+  result: $Enums.ReconciliationResult
+  localStatus: $Enums.PaymentStatus
+  newStatus?: $Enums.PaymentStatus | null
+  providerStatus?: string | null
+  localAmount: runtime.Decimal | runtime.DecimalJsLike | number | string
+  providerAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  note?: string | null
+  createdAt?: Date | string
+}
+
+export type ReconciliationItemUpdateWithoutTransactionInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  provider?: Prisma.EnumPaymentProviderFieldUpdateOperationsInput | $Enums.PaymentProvider
+  result?: Prisma.EnumReconciliationResultFieldUpdateOperationsInput | $Enums.ReconciliationResult
+  localStatus?: Prisma.EnumPaymentStatusFieldUpdateOperationsInput | $Enums.PaymentStatus
+  newStatus?: Prisma.NullableEnumPaymentStatusFieldUpdateOperationsInput | $Enums.PaymentStatus | null
+  providerStatus?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  localAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  providerAmount?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  note?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  run?: Prisma.ReconciliationRunUpdateOneRequiredWithoutItemsNestedInput
+}
+
+export type ReconciliationItemUncheckedUpdateWithoutTransactionInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  runId?: Prisma.StringFieldUpdateOperationsInput | string
+  provider?: Prisma.EnumPaymentProviderFieldUpdateOperationsInput | $Enums.PaymentProvider
+  result?: Prisma.EnumReconciliationResultFieldUpdateOperationsInput | $Enums.ReconciliationResult
+  localStatus?: Prisma.EnumPaymentStatusFieldUpdateOperationsInput | $Enums.PaymentStatus
+  newStatus?: Prisma.NullableEnumPaymentStatusFieldUpdateOperationsInput | $Enums.PaymentStatus | null
+  providerStatus?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  localAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  providerAmount?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  note?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ReconciliationItemUncheckedUpdateManyWithoutTransactionInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  runId?: Prisma.StringFieldUpdateOperationsInput | string
+  provider?: Prisma.EnumPaymentProviderFieldUpdateOperationsInput | $Enums.PaymentProvider
+  result?: Prisma.EnumReconciliationResultFieldUpdateOperationsInput | $Enums.ReconciliationResult
+  localStatus?: Prisma.EnumPaymentStatusFieldUpdateOperationsInput | $Enums.PaymentStatus
+  newStatus?: Prisma.NullableEnumPaymentStatusFieldUpdateOperationsInput | $Enums.PaymentStatus | null
+  providerStatus?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  localAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  providerAmount?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  note?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ReconciliationItemCreateManyRunInput = {
+  id?: string
+  transactionId: string
+  provider: $Enums.PaymentProvider
+  result: $Enums.ReconciliationResult
+  localStatus: $Enums.PaymentStatus
+  newStatus?: $Enums.PaymentStatus | null
+  providerStatus?: string | null
+  localAmount: runtime.Decimal | runtime.DecimalJsLike | number | string
+  providerAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  note?: string | null
+  createdAt?: Date | string
+}
+
+export type ReconciliationItemUpdateWithoutRunInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  provider?: Prisma.EnumPaymentProviderFieldUpdateOperationsInput | $Enums.PaymentProvider
+  result?: Prisma.EnumReconciliationResultFieldUpdateOperationsInput | $Enums.ReconciliationResult
+  localStatus?: Prisma.EnumPaymentStatusFieldUpdateOperationsInput | $Enums.PaymentStatus
+  newStatus?: Prisma.NullableEnumPaymentStatusFieldUpdateOperationsInput | $Enums.PaymentStatus | null
+  providerStatus?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  localAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  providerAmount?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  note?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  transaction?: Prisma.PaymentTransactionUpdateOneRequiredWithoutReconciliationItemsNestedInput
+}
+
+export type ReconciliationItemUncheckedUpdateWithoutRunInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  transactionId?: Prisma.StringFieldUpdateOperationsInput | string
+  provider?: Prisma.EnumPaymentProviderFieldUpdateOperationsInput | $Enums.PaymentProvider
+  result?: Prisma.EnumReconciliationResultFieldUpdateOperationsInput | $Enums.ReconciliationResult
+  localStatus?: Prisma.EnumPaymentStatusFieldUpdateOperationsInput | $Enums.PaymentStatus
+  newStatus?: Prisma.NullableEnumPaymentStatusFieldUpdateOperationsInput | $Enums.PaymentStatus | null
+  providerStatus?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  localAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  providerAmount?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  note?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ReconciliationItemUncheckedUpdateManyWithoutRunInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  transactionId?: Prisma.StringFieldUpdateOperationsInput | string
+  provider?: Prisma.EnumPaymentProviderFieldUpdateOperationsInput | $Enums.PaymentProvider
+  result?: Prisma.EnumReconciliationResultFieldUpdateOperationsInput | $Enums.ReconciliationResult
+  localStatus?: Prisma.EnumPaymentStatusFieldUpdateOperationsInput | $Enums.PaymentStatus
+  newStatus?: Prisma.NullableEnumPaymentStatusFieldUpdateOperationsInput | $Enums.PaymentStatus | null
+  providerStatus?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  localAmount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  providerAmount?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  note?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type ReconciliationItemSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  runId?: boolean
+  transactionId?: boolean
+  provider?: boolean
+  result?: boolean
+  localStatus?: boolean
+  newStatus?: boolean
+  providerStatus?: boolean
+  localAmount?: boolean
+  providerAmount?: boolean
+  note?: boolean
+  createdAt?: boolean
+  run?: boolean | Prisma.ReconciliationRunDefaultArgs<ExtArgs>
+  transaction?: boolean | Prisma.PaymentTransactionDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["reconciliationItem"]>
+
+export type ReconciliationItemSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  runId?: boolean
+  transactionId?: boolean
+  provider?: boolean
+  result?: boolean
+  localStatus?: boolean
+  newStatus?: boolean
+  providerStatus?: boolean
+  localAmount?: boolean
+  providerAmount?: boolean
+  note?: boolean
+  createdAt?: boolean
+  run?: boolean | Prisma.ReconciliationRunDefaultArgs<ExtArgs>
+  transaction?: boolean | Prisma.PaymentTransactionDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["reconciliationItem"]>
+
+export type ReconciliationItemSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  runId?: boolean
+  transactionId?: boolean
+  provider?: boolean
+  result?: boolean
+  localStatus?: boolean
+  newStatus?: boolean
+  providerStatus?: boolean
+  localAmount?: boolean
+  providerAmount?: boolean
+  note?: boolean
+  createdAt?: boolean
+  run?: boolean | Prisma.ReconciliationRunDefaultArgs<ExtArgs>
+  transaction?: boolean | Prisma.PaymentTransactionDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["reconciliationItem"]>
+
+export type ReconciliationItemSelectScalar = {
+  id?: boolean
+  runId?: boolean
+  transactionId?: boolean
+  provider?: boolean
+  result?: boolean
+  localStatus?: boolean
+  newStatus?: boolean
+  providerStatus?: boolean
+  localAmount?: boolean
+  providerAmount?: boolean
+  note?: boolean
+  createdAt?: boolean
+}
+
+export type ReconciliationItemOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "runId" | "transactionId" | "provider" | "result" | "localStatus" | "newStatus" | "providerStatus" | "localAmount" | "providerAmount" | "note" | "createdAt", ExtArgs["result"]["reconciliationItem"]>
+export type ReconciliationItemInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  run?: boolean | Prisma.ReconciliationRunDefaultArgs<ExtArgs>
+  transaction?: boolean | Prisma.PaymentTransactionDefaultArgs<ExtArgs>
+}
+export type ReconciliationItemIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  run?: boolean | Prisma.ReconciliationRunDefaultArgs<ExtArgs>
+  transaction?: boolean | Prisma.PaymentTransactionDefaultArgs<ExtArgs>
+}
+export type ReconciliationItemIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  run?: boolean | Prisma.ReconciliationRunDefaultArgs<ExtArgs>
+  transaction?: boolean | Prisma.PaymentTransactionDefaultArgs<ExtArgs>
+}
+
+export type $ReconciliationItemPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "ReconciliationItem"
+  objects: {
+    run: Prisma.$ReconciliationRunPayload<ExtArgs>
+    transaction: Prisma.$PaymentTransactionPayload<ExtArgs>
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    runId: string
+    transactionId: string
+    provider: $Enums.PaymentProvider
+    result: $Enums.ReconciliationResult
+    localStatus: $Enums.PaymentStatus
+    newStatus: $Enums.PaymentStatus | null
+    providerStatus: string | null
+    localAmount: runtime.Decimal
+    providerAmount: runtime.Decimal | null
+    note: string | null
+    createdAt: Date
+  }, ExtArgs["result"]["reconciliationItem"]>
+  composites: {}
+}
+
+export type ReconciliationItemGetPayload<S extends boolean | null | undefined | ReconciliationItemDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$ReconciliationItemPayload, S>
+
+export type ReconciliationItemCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<ReconciliationItemFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: ReconciliationItemCountAggregateInputType | true
+  }
+
+export interface ReconciliationItemDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['ReconciliationItem'], meta: { name: 'ReconciliationItem' } }
+  /**
+   * Find zero or one ReconciliationItem that matches the filter.
+   * @param {ReconciliationItemFindUniqueArgs} args - Arguments to find a ReconciliationItem
+   * @example
+   * // Get one ReconciliationItem
+   * const reconciliationItem = await prisma.reconciliationItem.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends ReconciliationItemFindUniqueArgs>(args: Prisma.SelectSubset<T, ReconciliationItemFindUniqueArgs<ExtArgs>>): Prisma.Prisma__ReconciliationItemClient<runtime.Types.Result.GetResult<Prisma.$ReconciliationItemPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one ReconciliationItem that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {ReconciliationItemFindUniqueOrThrowArgs} args - Arguments to find a ReconciliationItem
+   * @example
+   * // Get one ReconciliationItem
+   * const reconciliationItem = await prisma.reconciliationItem.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends ReconciliationItemFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, ReconciliationItemFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__ReconciliationItemClient<runtime.Types.Result.GetResult<Prisma.$ReconciliationItemPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first ReconciliationItem that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ReconciliationItemFindFirstArgs} args - Arguments to find a ReconciliationItem
+   * @example
+   * // Get one ReconciliationItem
+   * const reconciliationItem = await prisma.reconciliationItem.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends ReconciliationItemFindFirstArgs>(args?: Prisma.SelectSubset<T, ReconciliationItemFindFirstArgs<ExtArgs>>): Prisma.Prisma__ReconciliationItemClient<runtime.Types.Result.GetResult<Prisma.$ReconciliationItemPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first ReconciliationItem that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ReconciliationItemFindFirstOrThrowArgs} args - Arguments to find a ReconciliationItem
+   * @example
+   * // Get one ReconciliationItem
+   * const reconciliationItem = await prisma.reconciliationItem.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends ReconciliationItemFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, ReconciliationItemFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__ReconciliationItemClient<runtime.Types.Result.GetResult<Prisma.$ReconciliationItemPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more ReconciliationItems that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ReconciliationItemFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all ReconciliationItems
+   * const reconciliationItems = await prisma.reconciliationItem.findMany()
+   * 
+   * // Get first 10 ReconciliationItems
+   * const reconciliationItems = await prisma.reconciliationItem.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const reconciliationItemWithIdOnly = await prisma.reconciliationItem.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends ReconciliationItemFindManyArgs>(args?: Prisma.SelectSubset<T, ReconciliationItemFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ReconciliationItemPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a ReconciliationItem.
+   * @param {ReconciliationItemCreateArgs} args - Arguments to create a ReconciliationItem.
+   * @example
+   * // Create one ReconciliationItem
+   * const ReconciliationItem = await prisma.reconciliationItem.create({
+   *   data: {
+   *     // ... data to create a ReconciliationItem
+   *   }
+   * })
+   * 
+   */
+  create<T extends ReconciliationItemCreateArgs>(args: Prisma.SelectSubset<T, ReconciliationItemCreateArgs<ExtArgs>>): Prisma.Prisma__ReconciliationItemClient<runtime.Types.Result.GetResult<Prisma.$ReconciliationItemPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many ReconciliationItems.
+   * @param {ReconciliationItemCreateManyArgs} args - Arguments to create many ReconciliationItems.
+   * @example
+   * // Create many ReconciliationItems
+   * const reconciliationItem = await prisma.reconciliationItem.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends ReconciliationItemCreateManyArgs>(args?: Prisma.SelectSubset<T, ReconciliationItemCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many ReconciliationItems and returns the data saved in the database.
+   * @param {ReconciliationItemCreateManyAndReturnArgs} args - Arguments to create many ReconciliationItems.
+   * @example
+   * // Create many ReconciliationItems
+   * const reconciliationItem = await prisma.reconciliationItem.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many ReconciliationItems and only return the `id`
+   * const reconciliationItemWithIdOnly = await prisma.reconciliationItem.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends ReconciliationItemCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, ReconciliationItemCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ReconciliationItemPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a ReconciliationItem.
+   * @param {ReconciliationItemDeleteArgs} args - Arguments to delete one ReconciliationItem.
+   * @example
+   * // Delete one ReconciliationItem
+   * const ReconciliationItem = await prisma.reconciliationItem.delete({
+   *   where: {
+   *     // ... filter to delete one ReconciliationItem
+   *   }
+   * })
+   * 
+   */
+  delete<T extends ReconciliationItemDeleteArgs>(args: Prisma.SelectSubset<T, ReconciliationItemDeleteArgs<ExtArgs>>): Prisma.Prisma__ReconciliationItemClient<runtime.Types.Result.GetResult<Prisma.$ReconciliationItemPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one ReconciliationItem.
+   * @param {ReconciliationItemUpdateArgs} args - Arguments to update one ReconciliationItem.
+   * @example
+   * // Update one ReconciliationItem
+   * const reconciliationItem = await prisma.reconciliationItem.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends ReconciliationItemUpdateArgs>(args: Prisma.SelectSubset<T, ReconciliationItemUpdateArgs<ExtArgs>>): Prisma.Prisma__ReconciliationItemClient<runtime.Types.Result.GetResult<Prisma.$ReconciliationItemPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more ReconciliationItems.
+   * @param {ReconciliationItemDeleteManyArgs} args - Arguments to filter ReconciliationItems to delete.
+   * @example
+   * // Delete a few ReconciliationItems
+   * const { count } = await prisma.reconciliationItem.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends ReconciliationItemDeleteManyArgs>(args?: Prisma.SelectSubset<T, ReconciliationItemDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more ReconciliationItems.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ReconciliationItemUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many ReconciliationItems
+   * const reconciliationItem = await prisma.reconciliationItem.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends ReconciliationItemUpdateManyArgs>(args: Prisma.SelectSubset<T, ReconciliationItemUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more ReconciliationItems and returns the data updated in the database.
+   * @param {ReconciliationItemUpdateManyAndReturnArgs} args - Arguments to update many ReconciliationItems.
+   * @example
+   * // Update many ReconciliationItems
+   * const reconciliationItem = await prisma.reconciliationItem.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more ReconciliationItems and only return the `id`
+   * const reconciliationItemWithIdOnly = await prisma.reconciliationItem.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends ReconciliationItemUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, ReconciliationItemUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ReconciliationItemPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one ReconciliationItem.
+   * @param {ReconciliationItemUpsertArgs} args - Arguments to update or create a ReconciliationItem.
+   * @example
+   * // Update or create a ReconciliationItem
+   * const reconciliationItem = await prisma.reconciliationItem.upsert({
+   *   create: {
+   *     // ... data to create a ReconciliationItem
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the ReconciliationItem we want to update
+   *   }
+   * })
+   */
+  upsert<T extends ReconciliationItemUpsertArgs>(args: Prisma.SelectSubset<T, ReconciliationItemUpsertArgs<ExtArgs>>): Prisma.Prisma__ReconciliationItemClient<runtime.Types.Result.GetResult<Prisma.$ReconciliationItemPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of ReconciliationItems.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ReconciliationItemCountArgs} args - Arguments to filter ReconciliationItems to count.
+   * @example
+   * // Count the number of ReconciliationItems
+   * const count = await prisma.reconciliationItem.count({
+   *   where: {
+   *     // ... the filter for the ReconciliationItems we want to count
+   *   }
+   * })
+  **/
+  count<T extends ReconciliationItemCountArgs>(
+    args?: Prisma.Subset<T, ReconciliationItemCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], ReconciliationItemCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a ReconciliationItem.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ReconciliationItemAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends ReconciliationItemAggregateArgs>(args: Prisma.Subset<T, ReconciliationItemAggregateArgs>): Prisma.PrismaPromise<GetReconciliationItemAggregateType<T>>
+
+  /**
+   * Group by ReconciliationItem.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ReconciliationItemGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends ReconciliationItemGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: ReconciliationItemGroupByArgs['orderBy'] }
+      : { orderBy?: ReconciliationItemGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, ReconciliationItemGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetReconciliationItemGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the ReconciliationItem model
+ */
+readonly fields: ReconciliationItemFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for ReconciliationItem.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__ReconciliationItemClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  run<T extends Prisma.ReconciliationRunDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ReconciliationRunDefaultArgs<ExtArgs>>): Prisma.Prisma__ReconciliationRunClient<runtime.Types.Result.GetResult<Prisma.$ReconciliationRunPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  transaction<T extends Prisma.PaymentTransactionDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.PaymentTransactionDefaultArgs<ExtArgs>>): Prisma.Prisma__PaymentTransactionClient<runtime.Types.Result.GetResult<Prisma.$PaymentTransactionPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the ReconciliationItem model
+ */
+export interface ReconciliationItemFieldRefs {
+  readonly id: Prisma.FieldRef<"ReconciliationItem", 'String'>
+  readonly runId: Prisma.FieldRef<"ReconciliationItem", 'String'>
+  readonly transactionId: Prisma.FieldRef<"ReconciliationItem", 'String'>
+  readonly provider: Prisma.FieldRef<"ReconciliationItem", 'PaymentProvider'>
+  readonly result: Prisma.FieldRef<"ReconciliationItem", 'ReconciliationResult'>
+  readonly localStatus: Prisma.FieldRef<"ReconciliationItem", 'PaymentStatus'>
+  readonly newStatus: Prisma.FieldRef<"ReconciliationItem", 'PaymentStatus'>
+  readonly providerStatus: Prisma.FieldRef<"ReconciliationItem", 'String'>
+  readonly localAmount: Prisma.FieldRef<"ReconciliationItem", 'Decimal'>
+  readonly providerAmount: Prisma.FieldRef<"ReconciliationItem", 'Decimal'>
+  readonly note: Prisma.FieldRef<"ReconciliationItem", 'String'>
+  readonly createdAt: Prisma.FieldRef<"ReconciliationItem", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * ReconciliationItem findUnique
+ */
+export type ReconciliationItemFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ReconciliationItem
+   */
+  select?: Prisma.ReconciliationItemSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ReconciliationItem
+   */
+  omit?: Prisma.ReconciliationItemOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ReconciliationItemInclude<ExtArgs> | null
+  /**
+   * Filter, which ReconciliationItem to fetch.
+   */
+  where: Prisma.ReconciliationItemWhereUniqueInput
+}
+
+/**
+ * ReconciliationItem findUniqueOrThrow
+ */
+export type ReconciliationItemFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ReconciliationItem
+   */
+  select?: Prisma.ReconciliationItemSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ReconciliationItem
+   */
+  omit?: Prisma.ReconciliationItemOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ReconciliationItemInclude<ExtArgs> | null
+  /**
+   * Filter, which ReconciliationItem to fetch.
+   */
+  where: Prisma.ReconciliationItemWhereUniqueInput
+}
+
+/**
+ * ReconciliationItem findFirst
+ */
+export type ReconciliationItemFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ReconciliationItem
+   */
+  select?: Prisma.ReconciliationItemSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ReconciliationItem
+   */
+  omit?: Prisma.ReconciliationItemOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ReconciliationItemInclude<ExtArgs> | null
+  /**
+   * Filter, which ReconciliationItem to fetch.
+   */
+  where?: Prisma.ReconciliationItemWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ReconciliationItems to fetch.
+   */
+  orderBy?: Prisma.ReconciliationItemOrderByWithRelationInput | Prisma.ReconciliationItemOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for ReconciliationItems.
+   */
+  cursor?: Prisma.ReconciliationItemWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ReconciliationItems from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ReconciliationItems.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of ReconciliationItems.
+   */
+  distinct?: Prisma.ReconciliationItemScalarFieldEnum | Prisma.ReconciliationItemScalarFieldEnum[]
+}
+
+/**
+ * ReconciliationItem findFirstOrThrow
+ */
+export type ReconciliationItemFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ReconciliationItem
+   */
+  select?: Prisma.ReconciliationItemSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ReconciliationItem
+   */
+  omit?: Prisma.ReconciliationItemOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ReconciliationItemInclude<ExtArgs> | null
+  /**
+   * Filter, which ReconciliationItem to fetch.
+   */
+  where?: Prisma.ReconciliationItemWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ReconciliationItems to fetch.
+   */
+  orderBy?: Prisma.ReconciliationItemOrderByWithRelationInput | Prisma.ReconciliationItemOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for ReconciliationItems.
+   */
+  cursor?: Prisma.ReconciliationItemWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ReconciliationItems from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ReconciliationItems.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of ReconciliationItems.
+   */
+  distinct?: Prisma.ReconciliationItemScalarFieldEnum | Prisma.ReconciliationItemScalarFieldEnum[]
+}
+
+/**
+ * ReconciliationItem findMany
+ */
+export type ReconciliationItemFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ReconciliationItem
+   */
+  select?: Prisma.ReconciliationItemSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ReconciliationItem
+   */
+  omit?: Prisma.ReconciliationItemOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ReconciliationItemInclude<ExtArgs> | null
+  /**
+   * Filter, which ReconciliationItems to fetch.
+   */
+  where?: Prisma.ReconciliationItemWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ReconciliationItems to fetch.
+   */
+  orderBy?: Prisma.ReconciliationItemOrderByWithRelationInput | Prisma.ReconciliationItemOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing ReconciliationItems.
+   */
+  cursor?: Prisma.ReconciliationItemWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ReconciliationItems from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ReconciliationItems.
+   */
+  skip?: number
+  distinct?: Prisma.ReconciliationItemScalarFieldEnum | Prisma.ReconciliationItemScalarFieldEnum[]
+}
+
+/**
+ * ReconciliationItem create
+ */
+export type ReconciliationItemCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ReconciliationItem
+   */
+  select?: Prisma.ReconciliationItemSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ReconciliationItem
+   */
+  omit?: Prisma.ReconciliationItemOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ReconciliationItemInclude<ExtArgs> | null
+  /**
+   * The data needed to create a ReconciliationItem.
+   */
+  data: Prisma.XOR<Prisma.ReconciliationItemCreateInput, Prisma.ReconciliationItemUncheckedCreateInput>
+}
+
+/**
+ * ReconciliationItem createMany
+ */
+export type ReconciliationItemCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many ReconciliationItems.
+   */
+  data: Prisma.ReconciliationItemCreateManyInput | Prisma.ReconciliationItemCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * ReconciliationItem createManyAndReturn
+ */
+export type ReconciliationItemCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ReconciliationItem
+   */
+  select?: Prisma.ReconciliationItemSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the ReconciliationItem
+   */
+  omit?: Prisma.ReconciliationItemOmit<ExtArgs> | null
+  /**
+   * The data used to create many ReconciliationItems.
+   */
+  data: Prisma.ReconciliationItemCreateManyInput | Prisma.ReconciliationItemCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ReconciliationItemIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * ReconciliationItem update
+ */
+export type ReconciliationItemUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ReconciliationItem
+   */
+  select?: Prisma.ReconciliationItemSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ReconciliationItem
+   */
+  omit?: Prisma.ReconciliationItemOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ReconciliationItemInclude<ExtArgs> | null
+  /**
+   * The data needed to update a ReconciliationItem.
+   */
+  data: Prisma.XOR<Prisma.ReconciliationItemUpdateInput, Prisma.ReconciliationItemUncheckedUpdateInput>
+  /**
+   * Choose, which ReconciliationItem to update.
+   */
+  where: Prisma.ReconciliationItemWhereUniqueInput
+}
+
+/**
+ * ReconciliationItem updateMany
+ */
+export type ReconciliationItemUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update ReconciliationItems.
+   */
+  data: Prisma.XOR<Prisma.ReconciliationItemUpdateManyMutationInput, Prisma.ReconciliationItemUncheckedUpdateManyInput>
+  /**
+   * Filter which ReconciliationItems to update
+   */
+  where?: Prisma.ReconciliationItemWhereInput
+  /**
+   * Limit how many ReconciliationItems to update.
+   */
+  limit?: number
+}
+
+/**
+ * ReconciliationItem updateManyAndReturn
+ */
+export type ReconciliationItemUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ReconciliationItem
+   */
+  select?: Prisma.ReconciliationItemSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the ReconciliationItem
+   */
+  omit?: Prisma.ReconciliationItemOmit<ExtArgs> | null
+  /**
+   * The data used to update ReconciliationItems.
+   */
+  data: Prisma.XOR<Prisma.ReconciliationItemUpdateManyMutationInput, Prisma.ReconciliationItemUncheckedUpdateManyInput>
+  /**
+   * Filter which ReconciliationItems to update
+   */
+  where?: Prisma.ReconciliationItemWhereInput
+  /**
+   * Limit how many ReconciliationItems to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ReconciliationItemIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * ReconciliationItem upsert
+ */
+export type ReconciliationItemUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ReconciliationItem
+   */
+  select?: Prisma.ReconciliationItemSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ReconciliationItem
+   */
+  omit?: Prisma.ReconciliationItemOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ReconciliationItemInclude<ExtArgs> | null
+  /**
+   * The filter to search for the ReconciliationItem to update in case it exists.
+   */
+  where: Prisma.ReconciliationItemWhereUniqueInput
+  /**
+   * In case the ReconciliationItem found by the `where` argument doesn't exist, create a new ReconciliationItem with this data.
+   */
+  create: Prisma.XOR<Prisma.ReconciliationItemCreateInput, Prisma.ReconciliationItemUncheckedCreateInput>
+  /**
+   * In case the ReconciliationItem was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.ReconciliationItemUpdateInput, Prisma.ReconciliationItemUncheckedUpdateInput>
+}
+
+/**
+ * ReconciliationItem delete
+ */
+export type ReconciliationItemDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ReconciliationItem
+   */
+  select?: Prisma.ReconciliationItemSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ReconciliationItem
+   */
+  omit?: Prisma.ReconciliationItemOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ReconciliationItemInclude<ExtArgs> | null
+  /**
+   * Filter which ReconciliationItem to delete.
+   */
+  where: Prisma.ReconciliationItemWhereUniqueInput
+}
+
+/**
+ * ReconciliationItem deleteMany
+ */
+export type ReconciliationItemDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which ReconciliationItems to delete
+   */
+  where?: Prisma.ReconciliationItemWhereInput
+  /**
+   * Limit how many ReconciliationItems to delete.
+   */
+  limit?: number
+}
+
+/**
+ * ReconciliationItem without action
+ */
+export type ReconciliationItemDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ReconciliationItem
+   */
+  select?: Prisma.ReconciliationItemSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ReconciliationItem
+   */
+  omit?: Prisma.ReconciliationItemOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ReconciliationItemInclude<ExtArgs> | null
+}
@@ -0,0 +1,1562 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `ReconciliationRun` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums.js"
+import type * as Prisma from "../internal/prismaNamespace.js"
+
+/**
+ * Model ReconciliationRun
+ * 
+ */
+export type ReconciliationRunModel = runtime.Types.Result.DefaultSelection<Prisma.$ReconciliationRunPayload>
+
+export type AggregateReconciliationRun = {
+  _count: ReconciliationRunCountAggregateOutputType | null
+  _avg: ReconciliationRunAvgAggregateOutputType | null
+  _sum: ReconciliationRunSumAggregateOutputType | null
+  _min: ReconciliationRunMinAggregateOutputType | null
+  _max: ReconciliationRunMaxAggregateOutputType | null
+}
+
+export type ReconciliationRunAvgAggregateOutputType = {
+  checkedCount: number | null
+  matchedCount: number | null
+  mismatchedCount: number | null
+  missingCount: number | null
+  updatedCount: number | null
+  expiredCount: number | null
+  errorCount: number | null
+}
+
+export type ReconciliationRunSumAggregateOutputType = {
+  checkedCount: number | null
+  matchedCount: number | null
+  mismatchedCount: number | null
+  missingCount: number | null
+  updatedCount: number | null
+  expiredCount: number | null
+  errorCount: number | null
+}
+
+export type ReconciliationRunMinAggregateOutputType = {
+  id: string | null
+  startedAt: Date | null
+  finishedAt: Date | null
+  checkedCount: number | null
+  matchedCount: number | null
+  mismatchedCount: number | null
+  missingCount: number | null
+  updatedCount: number | null
+  expiredCount: number | null
+  errorCount: number | null
+}
+
+export type ReconciliationRunMaxAggregateOutputType = {
+  id: string | null
+  startedAt: Date | null
+  finishedAt: Date | null
+  checkedCount: number | null
+  matchedCount: number | null
+  mismatchedCount: number | null
+  missingCount: number | null
+  updatedCount: number | null
+  expiredCount: number | null
+  errorCount: number | null
+}
+
+export type ReconciliationRunCountAggregateOutputType = {
+  id: number
+  startedAt: number
+  finishedAt: number
+  checkedCount: number
+  matchedCount: number
+  mismatchedCount: number
+  missingCount: number
+  updatedCount: number
+  expiredCount: number
+  errorCount: number
+  _all: number
+}
+
+
+export type ReconciliationRunAvgAggregateInputType = {
+  checkedCount?: true
+  matchedCount?: true
+  mismatchedCount?: true
+  missingCount?: true
+  updatedCount?: true
+  expiredCount?: true
+  errorCount?: true
+}
+
+export type ReconciliationRunSumAggregateInputType = {
+  checkedCount?: true
+  matchedCount?: true
+  mismatchedCount?: true
+  missingCount?: true
+  updatedCount?: true
+  expiredCount?: true
+  errorCount?: true
+}
+
+export type ReconciliationRunMinAggregateInputType = {
+  id?: true
+  startedAt?: true
+  finishedAt?: true
+  checkedCount?: true
+  matchedCount?: true
+  mismatchedCount?: true
+  missingCount?: true
+  updatedCount?: true
+  expiredCount?: true
+  errorCount?: true
+}
+
+export type ReconciliationRunMaxAggregateInputType = {
+  id?: true
+  startedAt?: true
+  finishedAt?: true
+  checkedCount?: true
+  matchedCount?: true
+  mismatchedCount?: true
+  missingCount?: true
+  updatedCount?: true
+  expiredCount?: true
+  errorCount?: true
+}
+
+export type ReconciliationRunCountAggregateInputType = {
+  id?: true
+  startedAt?: true
+  finishedAt?: true
+  checkedCount?: true
+  matchedCount?: true
+  mismatchedCount?: true
+  missingCount?: true
+  updatedCount?: true
+  expiredCount?: true
+  errorCount?: true
+  _all?: true
+}
+
+export type ReconciliationRunAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which ReconciliationRun to aggregate.
+   */
+  where?: Prisma.ReconciliationRunWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ReconciliationRuns to fetch.
+   */
+  orderBy?: Prisma.ReconciliationRunOrderByWithRelationInput | Prisma.ReconciliationRunOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.ReconciliationRunWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ReconciliationRuns from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ReconciliationRuns.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned ReconciliationRuns
+  **/
+  _count?: true | ReconciliationRunCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: ReconciliationRunAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: ReconciliationRunSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: ReconciliationRunMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: ReconciliationRunMaxAggregateInputType
+}
+
+export type GetReconciliationRunAggregateType<T extends ReconciliationRunAggregateArgs> = {
+      [P in keyof T & keyof AggregateReconciliationRun]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateReconciliationRun[P]>
+    : Prisma.GetScalarType<T[P], AggregateReconciliationRun[P]>
+}
+
+
+
+
+export type ReconciliationRunGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ReconciliationRunWhereInput
+  orderBy?: Prisma.ReconciliationRunOrderByWithAggregationInput | Prisma.ReconciliationRunOrderByWithAggregationInput[]
+  by: Prisma.ReconciliationRunScalarFieldEnum[] | Prisma.ReconciliationRunScalarFieldEnum
+  having?: Prisma.ReconciliationRunScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: ReconciliationRunCountAggregateInputType | true
+  _avg?: ReconciliationRunAvgAggregateInputType
+  _sum?: ReconciliationRunSumAggregateInputType
+  _min?: ReconciliationRunMinAggregateInputType
+  _max?: ReconciliationRunMaxAggregateInputType
+}
+
+export type ReconciliationRunGroupByOutputType = {
+  id: string
+  startedAt: Date
+  finishedAt: Date | null
+  checkedCount: number
+  matchedCount: number
+  mismatchedCount: number
+  missingCount: number
+  updatedCount: number
+  expiredCount: number
+  errorCount: number
+  _count: ReconciliationRunCountAggregateOutputType | null
+  _avg: ReconciliationRunAvgAggregateOutputType | null
+  _sum: ReconciliationRunSumAggregateOutputType | null
+  _min: ReconciliationRunMinAggregateOutputType | null
+  _max: ReconciliationRunMaxAggregateOutputType | null
+}
+
+type GetReconciliationRunGroupByPayload<T extends ReconciliationRunGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<ReconciliationRunGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof ReconciliationRunGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], ReconciliationRunGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], ReconciliationRunGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type ReconciliationRunWhereInput = {
+  AND?: Prisma.ReconciliationRunWhereInput | Prisma.ReconciliationRunWhereInput[]
+  OR?: Prisma.ReconciliationRunWhereInput[]
+  NOT?: Prisma.ReconciliationRunWhereInput | Prisma.ReconciliationRunWhereInput[]
+  id?: Prisma.StringFilter<"ReconciliationRun"> | string
+  startedAt?: Prisma.DateTimeFilter<"ReconciliationRun"> | Date | string
+  finishedAt?: Prisma.DateTimeNullableFilter<"ReconciliationRun"> | Date | string | null
+  checkedCount?: Prisma.IntFilter<"ReconciliationRun"> | number
+  matchedCount?: Prisma.IntFilter<"ReconciliationRun"> | number
+  mismatchedCount?: Prisma.IntFilter<"ReconciliationRun"> | number
+  missingCount?: Prisma.IntFilter<"ReconciliationRun"> | number
+  updatedCount?: Prisma.IntFilter<"ReconciliationRun"> | number
+  expiredCount?: Prisma.IntFilter<"ReconciliationRun"> | number
+  errorCount?: Prisma.IntFilter<"ReconciliationRun"> | number
+  items?: Prisma.ReconciliationItemListRelationFilter
+}
+
+export type ReconciliationRunOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  startedAt?: Prisma.SortOrder
+  finishedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  checkedCount?: Prisma.SortOrder
+  matchedCount?: Prisma.SortOrder
+  mismatchedCount?: Prisma.SortOrder
+  missingCount?: Prisma.SortOrder
+  updatedCount?: Prisma.SortOrder
+  expiredCount?: Prisma.SortOrder
+  errorCount?: Prisma.SortOrder
+  items?: Prisma.ReconciliationItemOrderByRelationAggregateInput
+}
+
+export type ReconciliationRunWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  AND?: Prisma.ReconciliationRunWhereInput | Prisma.ReconciliationRunWhereInput[]
+  OR?: Prisma.ReconciliationRunWhereInput[]
+  NOT?: Prisma.ReconciliationRunWhereInput | Prisma.ReconciliationRunWhereInput[]
+  startedAt?: Prisma.DateTimeFilter<"ReconciliationRun"> | Date | string
+  finishedAt?: Prisma.DateTimeNullableFilter<"ReconciliationRun"> | Date | string | null
+  checkedCount?: Prisma.IntFilter<"ReconciliationRun"> | number
+  matchedCount?: Prisma.IntFilter<"ReconciliationRun"> | number
+  mismatchedCount?: Prisma.IntFilter<"ReconciliationRun"> | number
+  missingCount?: Prisma.IntFilter<"ReconciliationRun"> | number
+  updatedCount?: Prisma.IntFilter<"ReconciliationRun"> | number
+  expiredCount?: Prisma.IntFilter<"ReconciliationRun"> | number
+  errorCount?: Prisma.IntFilter<"ReconciliationRun"> | number
+  items?: Prisma.ReconciliationItemListRelationFilter
+}, "id">
+
+export type ReconciliationRunOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  startedAt?: Prisma.SortOrder
+  finishedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  checkedCount?: Prisma.SortOrder
+  matchedCount?: Prisma.SortOrder
+  mismatchedCount?: Prisma.SortOrder
+  missingCount?: Prisma.SortOrder
+  updatedCount?: Prisma.SortOrder
+  expiredCount?: Prisma.SortOrder
+  errorCount?: Prisma.SortOrder
+  _count?: Prisma.ReconciliationRunCountOrderByAggregateInput
+  _avg?: Prisma.ReconciliationRunAvgOrderByAggregateInput
+  _max?: Prisma.ReconciliationRunMaxOrderByAggregateInput
+  _min?: Prisma.ReconciliationRunMinOrderByAggregateInput
+  _sum?: Prisma.ReconciliationRunSumOrderByAggregateInput
+}
+
+export type ReconciliationRunScalarWhereWithAggregatesInput = {
+  AND?: Prisma.ReconciliationRunScalarWhereWithAggregatesInput | Prisma.ReconciliationRunScalarWhereWithAggregatesInput[]
+  OR?: Prisma.ReconciliationRunScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.ReconciliationRunScalarWhereWithAggregatesInput | Prisma.ReconciliationRunScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"ReconciliationRun"> | string
+  startedAt?: Prisma.DateTimeWithAggregatesFilter<"ReconciliationRun"> | Date | string
+  finishedAt?: Prisma.DateTimeNullableWithAggregatesFilter<"ReconciliationRun"> | Date | string | null
+  checkedCount?: Prisma.IntWithAggregatesFilter<"ReconciliationRun"> | number
+  matchedCount?: Prisma.IntWithAggregatesFilter<"ReconciliationRun"> | number
+  mismatchedCount?: Prisma.IntWithAggregatesFilter<"ReconciliationRun"> | number
+  missingCount?: Prisma.IntWithAggregatesFilter<"ReconciliationRun"> | number
+  updatedCount?: Prisma.IntWithAggregatesFilter<"ReconciliationRun"> | number
+  expiredCount?: Prisma.IntWithAggregatesFilter<"ReconciliationRun"> | number
+  errorCount?: Prisma.IntWithAggregatesFilter<"ReconciliationRun"> | number
+}
+
+export type ReconciliationRunCreateInput = {
+  id?: string
+  startedAt?: Date | string
+  finishedAt?: Date | string | null
+  checkedCount?: number
+  matchedCount?: number
+  mismatchedCount?: number
+  missingCount?: number
+  updatedCount?: number
+  expiredCount?: number
+  errorCount?: number
+  items?: Prisma.ReconciliationItemCreateNestedManyWithoutRunInput
+}
+
+export type ReconciliationRunUncheckedCreateInput = {
+  id?: string
+  startedAt?: Date | string
+  finishedAt?: Date | string | null
+  checkedCount?: number
+  matchedCount?: number
+  mismatchedCount?: number
+  missingCount?: number
+  updatedCount?: number
+  expiredCount?: number
+  errorCount?: number
+  items?: Prisma.ReconciliationItemUncheckedCreateNestedManyWithoutRunInput
+}
+
+export type ReconciliationRunUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  startedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  finishedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  checkedCount?: Prisma.IntFieldUpdateOperationsInput | number
+  matchedCount?: Prisma.IntFieldUpdateOperationsInput | number
+  mismatchedCount?: Prisma.IntFieldUpdateOperationsInput | number
+  missingCount?: Prisma.IntFieldUpdateOperationsInput | number
+  updatedCount?: Prisma.IntFieldUpdateOperationsInput | number
+  expiredCount?: Prisma.IntFieldUpdateOperationsInput | number
+  errorCount?: Prisma.IntFieldUpdateOperationsInput | number
+  items?: Prisma.ReconciliationItemUpdateManyWithoutRunNestedInput
+}
+
+export type ReconciliationRunUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  startedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  finishedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  checkedCount?: Prisma.IntFieldUpdateOperationsInput | number
+  matchedCount?: Prisma.IntFieldUpdateOperationsInput | number
+  mismatchedCount?: Prisma.IntFieldUpdateOperationsInput | number
+  missingCount?: Prisma.IntFieldUpdateOperationsInput | number
+  updatedCount?: Prisma.IntFieldUpdateOperationsInput | number
+  expiredCount?: Prisma.IntFieldUpdateOperationsInput | number
+  errorCount?: Prisma.IntFieldUpdateOperationsInput | number
+  items?: Prisma.ReconciliationItemUncheckedUpdateManyWithoutRunNestedInput
+}
+
+export type ReconciliationRunCreateManyInput = {
+  id?: string
+  startedAt?: Date | string
+  finishedAt?: Date | string | null
+  checkedCount?: number
+  matchedCount?: number
+  mismatchedCount?: number
+  missingCount?: number
+  updatedCount?: number
+  expiredCount?: number
+  errorCount?: number
+}
+
+export type ReconciliationRunUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  startedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  finishedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  checkedCount?: Prisma.IntFieldUpdateOperationsInput | number
+  matchedCount?: Prisma.IntFieldUpdateOperationsInput | number
+  mismatchedCount?: Prisma.IntFieldUpdateOperationsInput | number
+  missingCount?: Prisma.IntFieldUpdateOperationsInput | number
+  updatedCount?: Prisma.IntFieldUpdateOperationsInput | number
+  expiredCount?: Prisma.IntFieldUpdateOperationsInput | number
+  errorCount?: Prisma.IntFieldUpdateOperationsInput | number
+}
+
+export type ReconciliationRunUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  startedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  finishedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  checkedCount?: Prisma.IntFieldUpdateOperationsInput | number
+  matchedCount?: Prisma.IntFieldUpdateOperationsInput | number
+  mismatchedCount?: Prisma.IntFieldUpdateOperationsInput | number
+  missingCount?: Prisma.IntFieldUpdateOperationsInput | number
+  updatedCount?: Prisma.IntFieldUpdateOperationsInput | number
+  expiredCount?: Prisma.IntFieldUpdateOperationsInput | number
+  errorCount?: Prisma.IntFieldUpdateOperationsInput | number
+}
+
+export type ReconciliationRunCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  startedAt?: Prisma.SortOrder
+  finishedAt?: Prisma.SortOrder
+  checkedCount?: Prisma.SortOrder
+  matchedCount?: Prisma.SortOrder
+  mismatchedCount?: Prisma.SortOrder
+  missingCount?: Prisma.SortOrder
+  updatedCount?: Prisma.SortOrder
+  expiredCount?: Prisma.SortOrder
+  errorCount?: Prisma.SortOrder
+}
+
+export type ReconciliationRunAvgOrderByAggregateInput = {
+  checkedCount?: Prisma.SortOrder
+  matchedCount?: Prisma.SortOrder
+  mismatchedCount?: Prisma.SortOrder
+  missingCount?: Prisma.SortOrder
+  updatedCount?: Prisma.SortOrder
+  expiredCount?: Prisma.SortOrder
+  errorCount?: Prisma.SortOrder
+}
+
+export type ReconciliationRunMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  startedAt?: Prisma.SortOrder
+  finishedAt?: Prisma.SortOrder
+  checkedCount?: Prisma.SortOrder
+  matchedCount?: Prisma.SortOrder
+  mismatchedCount?: Prisma.SortOrder
+  missingCount?: Prisma.SortOrder
+  updatedCount?: Prisma.SortOrder
+  expiredCount?: Prisma.SortOrder
+  errorCount?: Prisma.SortOrder
+}
+
+export type ReconciliationRunMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  startedAt?: Prisma.SortOrder
+  finishedAt?: Prisma.SortOrder
+  checkedCount?: Prisma.SortOrder
+  matchedCount?: Prisma.SortOrder
+  mismatchedCount?: Prisma.SortOrder
+  missingCount?: Prisma.SortOrder
+  updatedCount?: Prisma.SortOrder
+  expiredCount?: Prisma.SortOrder
+  errorCount?: Prisma.SortOrder
+}
+
+export type ReconciliationRunSumOrderByAggregateInput = {
+  checkedCount?: Prisma.SortOrder
+  matchedCount?: Prisma.SortOrder
+  mismatchedCount?: Prisma.SortOrder
+  missingCount?: Prisma.SortOrder
+  updatedCount?: Prisma.SortOrder
+  expiredCount?: Prisma.SortOrder
+  errorCount?: Prisma.SortOrder
+}
+
+export type ReconciliationRunScalarRelationFilter = {
+  is?: Prisma.ReconciliationRunWhereInput
+  isNot?: Prisma.ReconciliationRunWhereInput
+}
+
+export type ReconciliationRunCreateNestedOneWithoutItemsInput = {
+  create?: Prisma.XOR<Prisma.ReconciliationRunCreateWithoutItemsInput, Prisma.ReconciliationRunUncheckedCreateWithoutItemsInput>
+  connectOrCreate?: Prisma.ReconciliationRunCreateOrConnectWithoutItemsInput
+  connect?: Prisma.ReconciliationRunWhereUniqueInput
+}
+
+export type ReconciliationRunUpdateOneRequiredWithoutItemsNestedInput = {
+  create?: Prisma.XOR<Prisma.ReconciliationRunCreateWithoutItemsInput, Prisma.ReconciliationRunUncheckedCreateWithoutItemsInput>
+  connectOrCreate?: Prisma.ReconciliationRunCreateOrConnectWithoutItemsInput
+  upsert?: Prisma.ReconciliationRunUpsertWithoutItemsInput
+  connect?: Prisma.ReconciliationRunWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.ReconciliationRunUpdateToOneWithWhereWithoutItemsInput, Prisma.ReconciliationRunUpdateWithoutItemsInput>, Prisma.ReconciliationRunUncheckedUpdateWithoutItemsInput>
+}
+
+export type ReconciliationRunCreateWithoutItemsInput = {
+  id?: string
+  startedAt?: Date | string
+  finishedAt?: Date | string | null
+  checkedCount?: number
+  matchedCount?: number
+  mismatchedCount?: number
+  missingCount?: number
+  updatedCount?: number
+  expiredCount?: number
+  errorCount?: number
+}
+
+export type ReconciliationRunUncheckedCreateWithoutItemsInput = {
+  id?: string
+  startedAt?: Date | string
+  finishedAt?: Date | string | null
+  checkedCount?: number
+  matchedCount?: number
+  mismatchedCount?: number
+  missingCount?: number
+  updatedCount?: number
+  expiredCount?: number
+  errorCount?: number
+}
+
+export type ReconciliationRunCreateOrConnectWithoutItemsInput = {
+  where: Prisma.ReconciliationRunWhereUniqueInput
+  create: Prisma.XOR<Prisma.ReconciliationRunCreateWithoutItemsInput, Prisma.ReconciliationRunUncheckedCreateWithoutItemsInput>
+}
+
+export type ReconciliationRunUpsertWithoutItemsInput = {
+  update: Prisma.XOR<Prisma.ReconciliationRunUpdateWithoutItemsInput, Prisma.ReconciliationRunUncheckedUpdateWithoutItemsInput>
+  create: Prisma.XOR<Prisma.ReconciliationRunCreateWithoutItemsInput, Prisma.ReconciliationRunUncheckedCreateWithoutItemsInput>
+  where?: Prisma.ReconciliationRunWhereInput
+}
+
+export type ReconciliationRunUpdateToOneWithWhereWithoutItemsInput = {
+  where?: Prisma.ReconciliationRunWhereInput
+  data: Prisma.XOR<Prisma.ReconciliationRunUpdateWithoutItemsInput, Prisma.ReconciliationRunUncheckedUpdateWithoutItemsInput>
+}
+
+export type ReconciliationRunUpdateWithoutItemsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  startedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  finishedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  checkedCount?: Prisma.IntFieldUpdateOperationsInput | number
+  matchedCount?: Prisma.IntFieldUpdateOperationsInput | number
+  mismatchedCount?: Prisma.IntFieldUpdateOperationsInput | number
+  missingCount?: Prisma.IntFieldUpdateOperationsInput | number
+  updatedCount?: Prisma.IntFieldUpdateOperationsInput | number
+  expiredCount?: Prisma.IntFieldUpdateOperationsInput | number
+  errorCount?: Prisma.IntFieldUpdateOperationsInput | number
+}
+
+export type ReconciliationRunUncheckedUpdateWithoutItemsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  startedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  finishedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  checkedCount?: Prisma.IntFieldUpdateOperationsInput | number
+  matchedCount?: Prisma.IntFieldUpdateOperationsInput | number
+  mismatchedCount?: Prisma.IntFieldUpdateOperationsInput | number
+  missingCount?: Prisma.IntFieldUpdateOperationsInput | number
+  updatedCount?: Prisma.IntFieldUpdateOperationsInput | number
+  expiredCount?: Prisma.IntFieldUpdateOperationsInput | number
+  errorCount?: Prisma.IntFieldUpdateOperationsInput | number
+}
+
+
+/**
+ * Count Type ReconciliationRunCountOutputType
+ */
+
+export type ReconciliationRunCountOutputType = {
+  items: number
+}
+
+export type ReconciliationRunCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  items?: boolean | ReconciliationRunCountOutputTypeCountItemsArgs
+}
+
+/**
+ * ReconciliationRunCountOutputType without action
+ */
+export type ReconciliationRunCountOutputTypeDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ReconciliationRunCountOutputType
+   */
+  select?: Prisma.ReconciliationRunCountOutputTypeSelect<ExtArgs> | null
+}
+
+/**
+ * ReconciliationRunCountOutputType without action
+ */
+export type ReconciliationRunCountOutputTypeCountItemsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ReconciliationItemWhereInput
+}
+
+
+export type ReconciliationRunSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  startedAt?: boolean
+  finishedAt?: boolean
+  checkedCount?: boolean
+  matchedCount?: boolean
+  mismatchedCount?: boolean
+  missingCount?: boolean
+  updatedCount?: boolean
+  expiredCount?: boolean
+  errorCount?: boolean
+  items?: boolean | Prisma.ReconciliationRun$itemsArgs<ExtArgs>
+  _count?: boolean | Prisma.ReconciliationRunCountOutputTypeDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["reconciliationRun"]>
+
+export type ReconciliationRunSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  startedAt?: boolean
+  finishedAt?: boolean
+  checkedCount?: boolean
+  matchedCount?: boolean
+  mismatchedCount?: boolean
+  missingCount?: boolean
+  updatedCount?: boolean
+  expiredCount?: boolean
+  errorCount?: boolean
+}, ExtArgs["result"]["reconciliationRun"]>
+
+export type ReconciliationRunSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  startedAt?: boolean
+  finishedAt?: boolean
+  checkedCount?: boolean
+  matchedCount?: boolean
+  mismatchedCount?: boolean
+  missingCount?: boolean
+  updatedCount?: boolean
+  expiredCount?: boolean
+  errorCount?: boolean
+}, ExtArgs["result"]["reconciliationRun"]>
+
+export type ReconciliationRunSelectScalar = {
+  id?: boolean
+  startedAt?: boolean
+  finishedAt?: boolean
+  checkedCount?: boolean
+  matchedCount?: boolean
+  mismatchedCount?: boolean
+  missingCount?: boolean
+  updatedCount?: boolean
+  expiredCount?: boolean
+  errorCount?: boolean
+}
+
+export type ReconciliationRunOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "startedAt" | "finishedAt" | "checkedCount" | "matchedCount" | "mismatchedCount" | "missingCount" | "updatedCount" | "expiredCount" | "errorCount", ExtArgs["result"]["reconciliationRun"]>
+export type ReconciliationRunInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  items?: boolean | Prisma.ReconciliationRun$itemsArgs<ExtArgs>
+  _count?: boolean | Prisma.ReconciliationRunCountOutputTypeDefaultArgs<ExtArgs>
+}
+export type ReconciliationRunIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {}
+export type ReconciliationRunIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {}
+
+export type $ReconciliationRunPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "ReconciliationRun"
+  objects: {
+    items: Prisma.$ReconciliationItemPayload<ExtArgs>[]
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    startedAt: Date
+    finishedAt: Date | null
+    checkedCount: number
+    matchedCount: number
+    mismatchedCount: number
+    missingCount: number
+    updatedCount: number
+    expiredCount: number
+    errorCount: number
+  }, ExtArgs["result"]["reconciliationRun"]>
+  composites: {}
+}
+
+export type ReconciliationRunGetPayload<S extends boolean | null | undefined | ReconciliationRunDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$ReconciliationRunPayload, S>
+
+export type ReconciliationRunCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<ReconciliationRunFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: ReconciliationRunCountAggregateInputType | true
+  }
+
+export interface ReconciliationRunDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['ReconciliationRun'], meta: { name: 'ReconciliationRun' } }
+  /**
+   * Find zero or one ReconciliationRun that matches the filter.
+   * @param {ReconciliationRunFindUniqueArgs} args - Arguments to find a ReconciliationRun
+   * @example
+   * // Get one ReconciliationRun
+   * const reconciliationRun = await prisma.reconciliationRun.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends ReconciliationRunFindUniqueArgs>(args: Prisma.SelectSubset<T, ReconciliationRunFindUniqueArgs<ExtArgs>>): Prisma.Prisma__ReconciliationRunClient<runtime.Types.Result.GetResult<Prisma.$ReconciliationRunPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one ReconciliationRun that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {ReconciliationRunFindUniqueOrThrowArgs} args - Arguments to find a ReconciliationRun
+   * @example
+   * // Get one ReconciliationRun
+   * const reconciliationRun = await prisma.reconciliationRun.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends ReconciliationRunFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, ReconciliationRunFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__ReconciliationRunClient<runtime.Types.Result.GetResult<Prisma.$ReconciliationRunPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first ReconciliationRun that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ReconciliationRunFindFirstArgs} args - Arguments to find a ReconciliationRun
+   * @example
+   * // Get one ReconciliationRun
+   * const reconciliationRun = await prisma.reconciliationRun.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends ReconciliationRunFindFirstArgs>(args?: Prisma.SelectSubset<T, ReconciliationRunFindFirstArgs<ExtArgs>>): Prisma.Prisma__ReconciliationRunClient<runtime.Types.Result.GetResult<Prisma.$ReconciliationRunPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first ReconciliationRun that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ReconciliationRunFindFirstOrThrowArgs} args - Arguments to find a ReconciliationRun
+   * @example
+   * // Get one ReconciliationRun
+   * const reconciliationRun = await prisma.reconciliationRun.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends ReconciliationRunFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, ReconciliationRunFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__ReconciliationRunClient<runtime.Types.Result.GetResult<Prisma.$ReconciliationRunPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more ReconciliationRuns that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ReconciliationRunFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all ReconciliationRuns
+   * const reconciliationRuns = await prisma.reconciliationRun.findMany()
+   * 
+   * // Get first 10 ReconciliationRuns
+   * const reconciliationRuns = await prisma.reconciliationRun.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const reconciliationRunWithIdOnly = await prisma.reconciliationRun.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends ReconciliationRunFindManyArgs>(args?: Prisma.SelectSubset<T, ReconciliationRunFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ReconciliationRunPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a ReconciliationRun.
+   * @param {ReconciliationRunCreateArgs} args - Arguments to create a ReconciliationRun.
+   * @example
+   * // Create one ReconciliationRun
+   * const ReconciliationRun = await prisma.reconciliationRun.create({
+   *   data: {
+   *     // ... data to create a ReconciliationRun
+   *   }
+   * })
+   * 
+   */
+  create<T extends ReconciliationRunCreateArgs>(args: Prisma.SelectSubset<T, ReconciliationRunCreateArgs<ExtArgs>>): Prisma.Prisma__ReconciliationRunClient<runtime.Types.Result.GetResult<Prisma.$ReconciliationRunPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many ReconciliationRuns.
+   * @param {ReconciliationRunCreateManyArgs} args - Arguments to create many ReconciliationRuns.
+   * @example
+   * // Create many ReconciliationRuns
+   * const reconciliationRun = await prisma.reconciliationRun.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends ReconciliationRunCreateManyArgs>(args?: Prisma.SelectSubset<T, ReconciliationRunCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many ReconciliationRuns and returns the data saved in the database.
+   * @param {ReconciliationRunCreateManyAndReturnArgs} args - Arguments to create many ReconciliationRuns.
+   * @example
+   * // Create many ReconciliationRuns
+   * const reconciliationRun = await prisma.reconciliationRun.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many ReconciliationRuns and only return the `id`
+   * const reconciliationRunWithIdOnly = await prisma.reconciliationRun.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends ReconciliationRunCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, ReconciliationRunCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ReconciliationRunPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a ReconciliationRun.
+   * @param {ReconciliationRunDeleteArgs} args - Arguments to delete one ReconciliationRun.
+   * @example
+   * // Delete one ReconciliationRun
+   * const ReconciliationRun = await prisma.reconciliationRun.delete({
+   *   where: {
+   *     // ... filter to delete one ReconciliationRun
+   *   }
+   * })
+   * 
+   */
+  delete<T extends ReconciliationRunDeleteArgs>(args: Prisma.SelectSubset<T, ReconciliationRunDeleteArgs<ExtArgs>>): Prisma.Prisma__ReconciliationRunClient<runtime.Types.Result.GetResult<Prisma.$ReconciliationRunPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one ReconciliationRun.
+   * @param {ReconciliationRunUpdateArgs} args - Arguments to update one ReconciliationRun.
+   * @example
+   * // Update one ReconciliationRun
+   * const reconciliationRun = await prisma.reconciliationRun.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends ReconciliationRunUpdateArgs>(args: Prisma.SelectSubset<T, ReconciliationRunUpdateArgs<ExtArgs>>): Prisma.Prisma__ReconciliationRunClient<runtime.Types.Result.GetResult<Prisma.$ReconciliationRunPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more ReconciliationRuns.
+   * @param {ReconciliationRunDeleteManyArgs} args - Arguments to filter ReconciliationRuns to delete.
+   * @example
+   * // Delete a few ReconciliationRuns
+   * const { count } = await prisma.reconciliationRun.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends ReconciliationRunDeleteManyArgs>(args?: Prisma.SelectSubset<T, ReconciliationRunDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more ReconciliationRuns.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ReconciliationRunUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many ReconciliationRuns
+   * const reconciliationRun = await prisma.reconciliationRun.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends ReconciliationRunUpdateManyArgs>(args: Prisma.SelectSubset<T, ReconciliationRunUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more ReconciliationRuns and returns the data updated in the database.
+   * @param {ReconciliationRunUpdateManyAndReturnArgs} args - Arguments to update many ReconciliationRuns.
+   * @example
+   * // Update many ReconciliationRuns
+   * const reconciliationRun = await prisma.reconciliationRun.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more ReconciliationRuns and only return the `id`
+   * const reconciliationRunWithIdOnly = await prisma.reconciliationRun.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends ReconciliationRunUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, ReconciliationRunUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ReconciliationRunPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one ReconciliationRun.
+   * @param {ReconciliationRunUpsertArgs} args - Arguments to update or create a ReconciliationRun.
+   * @example
+   * // Update or create a ReconciliationRun
+   * const reconciliationRun = await prisma.reconciliationRun.upsert({
+   *   create: {
+   *     // ... data to create a ReconciliationRun
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the ReconciliationRun we want to update
+   *   }
+   * })
+   */
+  upsert<T extends ReconciliationRunUpsertArgs>(args: Prisma.SelectSubset<T, ReconciliationRunUpsertArgs<ExtArgs>>): Prisma.Prisma__ReconciliationRunClient<runtime.Types.Result.GetResult<Prisma.$ReconciliationRunPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of ReconciliationRuns.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ReconciliationRunCountArgs} args - Arguments to filter ReconciliationRuns to count.
+   * @example
+   * // Count the number of ReconciliationRuns
+   * const count = await prisma.reconciliationRun.count({
+   *   where: {
+   *     // ... the filter for the ReconciliationRuns we want to count
+   *   }
+   * })
+  **/
+  count<T extends ReconciliationRunCountArgs>(
+    args?: Prisma.Subset<T, ReconciliationRunCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], ReconciliationRunCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a ReconciliationRun.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ReconciliationRunAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends ReconciliationRunAggregateArgs>(args: Prisma.Subset<T, ReconciliationRunAggregateArgs>): Prisma.PrismaPromise<GetReconciliationRunAggregateType<T>>
+
+  /**
+   * Group by ReconciliationRun.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ReconciliationRunGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends ReconciliationRunGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: ReconciliationRunGroupByArgs['orderBy'] }
+      : { orderBy?: ReconciliationRunGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, ReconciliationRunGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetReconciliationRunGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the ReconciliationRun model
+ */
+readonly fields: ReconciliationRunFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for ReconciliationRun.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__ReconciliationRunClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  items<T extends Prisma.ReconciliationRun$itemsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ReconciliationRun$itemsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ReconciliationItemPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the ReconciliationRun model
+ */
+export interface ReconciliationRunFieldRefs {
+  readonly id: Prisma.FieldRef<"ReconciliationRun", 'String'>
+  readonly startedAt: Prisma.FieldRef<"ReconciliationRun", 'DateTime'>
+  readonly finishedAt: Prisma.FieldRef<"ReconciliationRun", 'DateTime'>
+  readonly checkedCount: Prisma.FieldRef<"ReconciliationRun", 'Int'>
+  readonly matchedCount: Prisma.FieldRef<"ReconciliationRun", 'Int'>
+  readonly mismatchedCount: Prisma.FieldRef<"ReconciliationRun", 'Int'>
+  readonly missingCount: Prisma.FieldRef<"ReconciliationRun", 'Int'>
+  readonly updatedCount: Prisma.FieldRef<"ReconciliationRun", 'Int'>
+  readonly expiredCount: Prisma.FieldRef<"ReconciliationRun", 'Int'>
+  readonly errorCount: Prisma.FieldRef<"ReconciliationRun", 'Int'>
+}
+    
+
+// Custom InputTypes
+/**
+ * ReconciliationRun findUnique
+ */
+export type ReconciliationRunFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ReconciliationRun
+   */
+  select?: Prisma.ReconciliationRunSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ReconciliationRun
+   */
+  omit?: Prisma.ReconciliationRunOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ReconciliationRunInclude<ExtArgs> | null
+  /**
+   * Filter, which ReconciliationRun to fetch.
+   */
+  where: Prisma.ReconciliationRunWhereUniqueInput
+}
+
+/**
+ * ReconciliationRun findUniqueOrThrow
+ */
+export type ReconciliationRunFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ReconciliationRun
+   */
+  select?: Prisma.ReconciliationRunSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ReconciliationRun
+   */
+  omit?: Prisma.ReconciliationRunOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ReconciliationRunInclude<ExtArgs> | null
+  /**
+   * Filter, which ReconciliationRun to fetch.
+   */
+  where: Prisma.ReconciliationRunWhereUniqueInput
+}
+
+/**
+ * ReconciliationRun findFirst
+ */
+export type ReconciliationRunFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ReconciliationRun
+   */
+  select?: Prisma.ReconciliationRunSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ReconciliationRun
+   */
+  omit?: Prisma.ReconciliationRunOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ReconciliationRunInclude<ExtArgs> | null
+  /**
+   * Filter, which ReconciliationRun to fetch.
+   */
+  where?: Prisma.ReconciliationRunWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ReconciliationRuns to fetch.
+   */
+  orderBy?: Prisma.ReconciliationRunOrderByWithRelationInput | Prisma.ReconciliationRunOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for ReconciliationRuns.
+   */
+  cursor?: Prisma.ReconciliationRunWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ReconciliationRuns from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ReconciliationRuns.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of ReconciliationRuns.
+   */
+  distinct?: Prisma.ReconciliationRunScalarFieldEnum | Prisma.ReconciliationRunScalarFieldEnum[]
+}
+
+/**
+ * ReconciliationRun findFirstOrThrow
+ */
+export type ReconciliationRunFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ReconciliationRun
+   */
+  select?: Prisma.ReconciliationRunSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ReconciliationRun
+   */
+  omit?: Prisma.ReconciliationRunOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ReconciliationRunInclude<ExtArgs> | null
+  /**
+   * Filter, which ReconciliationRun to fetch.
+   */
+  where?: Prisma.ReconciliationRunWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ReconciliationRuns to fetch.
+   */
+  orderBy?: Prisma.ReconciliationRunOrderByWithRelationInput | Prisma.ReconciliationRunOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for ReconciliationRuns.
+   */
+  cursor?: Prisma.ReconciliationRunWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ReconciliationRuns from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ReconciliationRuns.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of ReconciliationRuns.
+   */
+  distinct?: Prisma.ReconciliationRunScalarFieldEnum | Prisma.ReconciliationRunScalarFieldEnum[]
+}
+
+/**
+ * ReconciliationRun findMany
+ */
+export type ReconciliationRunFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ReconciliationRun
+   */
+  select?: Prisma.ReconciliationRunSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ReconciliationRun
+   */
+  omit?: Prisma.ReconciliationRunOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ReconciliationRunInclude<ExtArgs> | null
+  /**
+   * Filter, which ReconciliationRuns to fetch.
+   */
+  where?: Prisma.ReconciliationRunWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ReconciliationRuns to fetch.
+   */
+  orderBy?: Prisma.ReconciliationRunOrderByWithRelationInput | Prisma.ReconciliationRunOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing ReconciliationRuns.
+   */
+  cursor?: Prisma.ReconciliationRunWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ReconciliationRuns from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ReconciliationRuns.
+   */
+  skip?: number
+  distinct?: Prisma.ReconciliationRunScalarFieldEnum | Prisma.ReconciliationRunScalarFieldEnum[]
+}
+
+/**
+ * ReconciliationRun create
+ */
+export type ReconciliationRunCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ReconciliationRun
+   */
+  select?: Prisma.ReconciliationRunSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ReconciliationRun
+   */
+  omit?: Prisma.ReconciliationRunOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ReconciliationRunInclude<ExtArgs> | null
+  /**
+   * The data needed to create a ReconciliationRun.
+   */
+  data?: Prisma.XOR<Prisma.ReconciliationRunCreateInput, Prisma.ReconciliationRunUncheckedCreateInput>
+}
+
+/**
+ * ReconciliationRun createMany
+ */
+export type ReconciliationRunCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many ReconciliationRuns.
+   */
+  data: Prisma.ReconciliationRunCreateManyInput | Prisma.ReconciliationRunCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * ReconciliationRun createManyAndReturn
+ */
+export type ReconciliationRunCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ReconciliationRun
+   */
+  select?: Prisma.ReconciliationRunSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the ReconciliationRun
+   */
+  omit?: Prisma.ReconciliationRunOmit<ExtArgs> | null
+  /**
+   * The data used to create many ReconciliationRuns.
+   */
+  data: Prisma.ReconciliationRunCreateManyInput | Prisma.ReconciliationRunCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * ReconciliationRun update
+ */
+export type ReconciliationRunUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ReconciliationRun
+   */
+  select?: Prisma.ReconciliationRunSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ReconciliationRun
+   */
+  omit?: Prisma.ReconciliationRunOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ReconciliationRunInclude<ExtArgs> | null
+  /**
+   * The data needed to update a ReconciliationRun.
+   */
+  data: Prisma.XOR<Prisma.ReconciliationRunUpdateInput, Prisma.ReconciliationRunUncheckedUpdateInput>
+  /**
+   * Choose, which ReconciliationRun to update.
+   */
+  where: Prisma.ReconciliationRunWhereUniqueInput
+}
+
+/**
+ * ReconciliationRun updateMany
+ */
+export type ReconciliationRunUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update ReconciliationRuns.
+   */
+  data: Prisma.XOR<Prisma.ReconciliationRunUpdateManyMutationInput, Prisma.ReconciliationRunUncheckedUpdateManyInput>
+  /**
+   * Filter which ReconciliationRuns to update
+   */
+  where?: Prisma.ReconciliationRunWhereInput
+  /**
+   * Limit how many ReconciliationRuns to update.
+   */
+  limit?: number
+}
+
+/**
+ * ReconciliationRun updateManyAndReturn
+ */
+export type ReconciliationRunUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ReconciliationRun
+   */
+  select?: Prisma.ReconciliationRunSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the ReconciliationRun
+   */
+  omit?: Prisma.ReconciliationRunOmit<ExtArgs> | null
+  /**
+   * The data used to update ReconciliationRuns.
+   */
+  data: Prisma.XOR<Prisma.ReconciliationRunUpdateManyMutationInput, Prisma.ReconciliationRunUncheckedUpdateManyInput>
+  /**
+   * Filter which ReconciliationRuns to update
+   */
+  where?: Prisma.ReconciliationRunWhereInput
+  /**
+   * Limit how many ReconciliationRuns to update.
+   */
+  limit?: number
+}
+
+/**
+ * ReconciliationRun upsert
+ */
+export type ReconciliationRunUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ReconciliationRun
+   */
+  select?: Prisma.ReconciliationRunSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ReconciliationRun
+   */
+  omit?: Prisma.ReconciliationRunOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ReconciliationRunInclude<ExtArgs> | null
+  /**
+   * The filter to search for the ReconciliationRun to update in case it exists.
+   */
+  where: Prisma.ReconciliationRunWhereUniqueInput
+  /**
+   * In case the ReconciliationRun found by the `where` argument doesn't exist, create a new ReconciliationRun with this data.
+   */
+  create: Prisma.XOR<Prisma.ReconciliationRunCreateInput, Prisma.ReconciliationRunUncheckedCreateInput>
+  /**
+   * In case the ReconciliationRun was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.ReconciliationRunUpdateInput, Prisma.ReconciliationRunUncheckedUpdateInput>
+}
+
+/**
+ * ReconciliationRun delete
+ */
+export type ReconciliationRunDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ReconciliationRun
+   */
+  select?: Prisma.ReconciliationRunSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ReconciliationRun
+   */
+  omit?: Prisma.ReconciliationRunOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ReconciliationRunInclude<ExtArgs> | null
+  /**
+   * Filter which ReconciliationRun to delete.
+   */
+  where: Prisma.ReconciliationRunWhereUniqueInput
+}
+
+/**
+ * ReconciliationRun deleteMany
+ */
+export type ReconciliationRunDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which ReconciliationRuns to delete
+   */
+  where?: Prisma.ReconciliationRunWhereInput
+  /**
+   * Limit how many ReconciliationRuns to delete.
+   */
+  limit?: number
+}
+
+/**
+ * ReconciliationRun.items
+ */
+export type ReconciliationRun$itemsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ReconciliationItem
+   */
+  select?: Prisma.ReconciliationItemSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ReconciliationItem
+   */
+  omit?: Prisma.ReconciliationItemOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ReconciliationItemInclude<ExtArgs> | null
+  where?: Prisma.ReconciliationItemWhereInput
+  orderBy?: Prisma.ReconciliationItemOrderByWithRelationInput | Prisma.ReconciliationItemOrderByWithRelationInput[]
+  cursor?: Prisma.ReconciliationItemWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.ReconciliationItemScalarFieldEnum | Prisma.ReconciliationItemScalarFieldEnum[]
+}
+
+/**
+ * ReconciliationRun without action
+ */
+export type ReconciliationRunDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ReconciliationRun
+   */
+  select?: Prisma.ReconciliationRunSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ReconciliationRun
+   */
+  omit?: Prisma.ReconciliationRunOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ReconciliationRunInclude<ExtArgs> | null
+}
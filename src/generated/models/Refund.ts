@@ -0,0 +1,2037 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `Refund` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums.js"
+import type * as Prisma from "../internal/prismaNamespace.js"
+
+/**
+ * Model Refund
+ * 
+ */
+export type RefundModel = runtime.Types.Result.DefaultSelection<Prisma.$RefundPayload>
+
+export type AggregateRefund = {
+  _count: RefundCountAggregateOutputType | null
+  _avg: RefundAvgAggregateOutputType | null
+  _sum: RefundSumAggregateOutputType | null
+  _min: RefundMinAggregateOutputType | null
+  _max: RefundMaxAggregateOutputType | null
+}
+
+export type RefundAvgAggregateOutputType = {
+  amount: runtime.Decimal | null
+}
+
+export type RefundSumAggregateOutputType = {
+  amount: runtime.Decimal | null
+}
+
+export type RefundMinAggregateOutputType = {
+  id: string | null
+  transactionId: string | null
+  orderId: string | null
+  amount: runtime.Decimal | null
+  reason: string | null
+  isManual: boolean | null
+  providerRefundId: string | null
+  processedById: string | null
+  createdAt: Date | null
+}
+
+export type RefundMaxAggregateOutputType = {
+  id: string | null
+  transactionId: string | null
+  orderId: string | null
+  amount: runtime.Decimal | null
+  reason: string | null
+  isManual: boolean | null
+  providerRefundId: string | null
+  processedById: string | null
+  createdAt: Date | null
+}
+
+export type RefundCountAggregateOutputType = {
+  id: number
+  transactionId: number
+  orderId: number
+  amount: number
+  reason: number
+  isManual: number
+  providerRefundId: number
+  providerData: number
+  processedById: number
+  createdAt: number
+  _all: number
+}
+
+
+export type RefundAvgAggregateInputType = {
+  amount?: true
+}
+
+export type RefundSumAggregateInputType = {
+  amount?: true
+}
+
+export type RefundMinAggregateInputType = {
+  id?: true
+  transactionId?: true
+  orderId?: true
+  amount?: true
+  reason?: true
+  isManual?: true
+  providerRefundId?: true
+  processedById?: true
+  createdAt?: true
+}
+
+export type RefundMaxAggregateInputType = {
+  id?: true
+  transactionId?: true
+  orderId?: true
+  amount?: true
+  reason?: true
+  isManual?: true
+  providerRefundId?: true
+  processedById?: true
+  createdAt?: true
+}
+
+export type RefundCountAggregateInputType = {
+  id?: true
+  transactionId?: true
+  orderId?: true
+  amount?: true
+  reason?: true
+  isManual?: true
+  providerRefundId?: true
+  providerData?: true
+  processedById?: true
+  createdAt?: true
+  _all?: true
+}
+
+export type RefundAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which Refund to aggregate.
+   */
+  where?: Prisma.RefundWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of Refunds to fetch.
+   */
+  orderBy?: Prisma.RefundOrderByWithRelationInput | Prisma.RefundOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.RefundWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` Refunds from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` Refunds.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned Refunds
+  **/
+  _count?: true | RefundCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: RefundAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: RefundSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: RefundMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: RefundMaxAggregateInputType
+}
+
+export type GetRefundAggregateType<T extends RefundAggregateArgs> = {
+      [P in keyof T & keyof AggregateRefund]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateRefund[P]>
+    : Prisma.GetScalarType<T[P], AggregateRefund[P]>
+}
+
+
+
+
+export type RefundGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.RefundWhereInput
+  orderBy?: Prisma.RefundOrderByWithAggregationInput | Prisma.RefundOrderByWithAggregationInput[]
+  by: Prisma.RefundScalarFieldEnum[] | Prisma.RefundScalarFieldEnum
+  having?: Prisma.RefundScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: RefundCountAggregateInputType | true
+  _avg?: RefundAvgAggregateInputType
+  _sum?: RefundSumAggregateInputType
+  _min?: RefundMinAggregateInputType
+  _max?: RefundMaxAggregateInputType
+}
+
+export type RefundGroupByOutputType = {
+  id: string
+  transactionId: string
+  orderId: string
+  amount: runtime.Decimal
+  reason: string
+  isManual: boolean
+  providerRefundId: string | null
+  providerData: runtime.JsonValue | null
+  processedById: string | null
+  createdAt: Date
+  _count: RefundCountAggregateOutputType | null
+  _avg: RefundAvgAggregateOutputType | null
+  _sum: RefundSumAggregateOutputType | null
+  _min: RefundMinAggregateOutputType | null
+  _max: RefundMaxAggregateOutputType | null
+}
+
+type GetRefundGroupByPayload<T extends RefundGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<RefundGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof RefundGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], RefundGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], RefundGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type RefundWhereInput = {
+  AND?: Prisma.RefundWhereInput | Prisma.RefundWhereInput[]
+  OR?: Prisma.RefundWhereInput[]
+  NOT?: Prisma.RefundWhereInput | Prisma.RefundWhereInput[]
+  id?: Prisma.StringFilter<"Refund"> | string
+  transactionId?: Prisma.StringFilter<"Refund"> | string
+  orderId?: Prisma.StringFilter<"Refund"> | string
+  amount?: Prisma.DecimalFilter<"Refund"> | runtime.Decimal | runtime.DecimalJsLike | number | string
+  reason?: Prisma.StringFilter<"Refund"> | string
+  isManual?: Prisma.BoolFilter<"Refund"> | boolean
+  providerRefundId?: Prisma.StringNullableFilter<"Refund"> | string | null
+  providerData?: Prisma.JsonNullableFilter<"Refund">
+  processedById?: Prisma.StringNullableFilter<"Refund"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"Refund"> | Date | string
+  transaction?: Prisma.XOR<Prisma.PaymentTransactionScalarRelationFilter, Prisma.PaymentTransactionWhereInput>
+  order?: Prisma.XOR<Prisma.OrderScalarRelationFilter, Prisma.OrderWhereInput>
+  processedBy?: Prisma.XOR<Prisma.UserNullableScalarRelationFilter, Prisma.UserWhereInput> | null
+  items?: Prisma.RefundItemListRelationFilter
+}
+
+export type RefundOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  transactionId?: Prisma.SortOrder
+  orderId?: Prisma.SortOrder
+  amount?: Prisma.SortOrder
+  reason?: Prisma.SortOrder
+  isManual?: Prisma.SortOrder
+  providerRefundId?: Prisma.SortOrderInput | Prisma.SortOrder
+  providerData?: Prisma.SortOrderInput | Prisma.SortOrder
+  processedById?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  transaction?: Prisma.PaymentTransactionOrderByWithRelationInput
+  order?: Prisma.OrderOrderByWithRelationInput
+  processedBy?: Prisma.UserOrderByWithRelationInput
+  items?: Prisma.RefundItemOrderByRelationAggregateInput
+}
+
+export type RefundWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  AND?: Prisma.RefundWhereInput | Prisma.RefundWhereInput[]
+  OR?: Prisma.RefundWhereInput[]
+  NOT?: Prisma.RefundWhereInput | Prisma.RefundWhereInput[]
+  transactionId?: Prisma.StringFilter<"Refund"> | string
+  orderId?: Prisma.StringFilter<"Refund"> | string
+  amount?: Prisma.DecimalFilter<"Refund"> | runtime.Decimal | runtime.DecimalJsLike | number | string
+  reason?: Prisma.StringFilter<"Refund"> | string
+  isManual?: Prisma.BoolFilter<"Refund"> | boolean
+  providerRefundId?: Prisma.StringNullableFilter<"Refund"> | string | null
+  providerData?: Prisma.JsonNullableFilter<"Refund">
+  processedById?: Prisma.StringNullableFilter<"Refund"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"Refund"> | Date | string
+  transaction?: Prisma.XOR<Prisma.PaymentTransactionScalarRelationFilter, Prisma.PaymentTransactionWhereInput>
+  order?: Prisma.XOR<Prisma.OrderScalarRelationFilter, Prisma.OrderWhereInput>
+  processedBy?: Prisma.XOR<Prisma.UserNullableScalarRelationFilter, Prisma.UserWhereInput> | null
+  items?: Prisma.RefundItemListRelationFilter
+}, "id">
+
+export type RefundOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  transactionId?: Prisma.SortOrder
+  orderId?: Prisma.SortOrder
+  amount?: Prisma.SortOrder
+  reason?: Prisma.SortOrder
+  isManual?: Prisma.SortOrder
+  providerRefundId?: Prisma.SortOrderInput | Prisma.SortOrder
+  providerData?: Prisma.SortOrderInput | Prisma.SortOrder
+  processedById?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  _count?: Prisma.RefundCountOrderByAggregateInput
+  _avg?: Prisma.RefundAvgOrderByAggregateInput
+  _max?: Prisma.RefundMaxOrderByAggregateInput
+  _min?: Prisma.RefundMinOrderByAggregateInput
+  _sum?: Prisma.RefundSumOrderByAggregateInput
+}
+
+export type RefundScalarWhereWithAggregatesInput = {
+  AND?: Prisma.RefundScalarWhereWithAggregatesInput | Prisma.RefundScalarWhereWithAggregatesInput[]
+  OR?: Prisma.RefundScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.RefundScalarWhereWithAggregatesInput | Prisma.RefundScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"Refund"> | string
+  transactionId?: Prisma.StringWithAggregatesFilter<"Refund"> | string
+  orderId?: Prisma.StringWithAggregatesFilter<"Refund"> | string
+  amount?: Prisma.DecimalWithAggregatesFilter<"Refund"> | runtime.Decimal | runtime.DecimalJsLike | number | string
+  reason?: Prisma.StringWithAggregatesFilter<"Refund"> | string
+  isManual?: Prisma.BoolWithAggregatesFilter<"Refund"> | boolean
+  providerRefundId?: Prisma.StringNullableWithAggregatesFilter<"Refund"> | string | null
+  providerData?: Prisma.JsonNullableWithAggregatesFilter<"Refund">
+  processedById?: Prisma.StringNullableWithAggregatesFilter<"Refund"> | string | null
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"Refund"> | Date | string
+}
+
+export type RefundCreateInput = {
+  id?: string
+  amount: runtime.Decimal | runtime.DecimalJsLike | number | string
+  reason: string
+  isManual?: boolean
+  providerRefundId?: string | null
+  providerData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Date | string
+  transaction: Prisma.PaymentTransactionCreateNestedOneWithoutRefundsInput
+  order: Prisma.OrderCreateNestedOneWithoutRefundsInput
+  processedBy?: Prisma.UserCreateNestedOneWithoutProcessedRefundsInput
+  items?: Prisma.RefundItemCreateNestedManyWithoutRefundInput
+}
+
+export type RefundUncheckedCreateInput = {
+  id?: string
+  transactionId: string
+  orderId: string
+  amount: runtime.Decimal | runtime.DecimalJsLike | number | string
+  reason: string
+  isManual?: boolean
+  providerRefundId?: string | null
+  providerData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  processedById?: string | null
+  createdAt?: Date | string
+  items?: Prisma.RefundItemUncheckedCreateNestedManyWithoutRefundInput
+}
+
+export type RefundUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  amount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  reason?: Prisma.StringFieldUpdateOperationsInput | string
+  isManual?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  providerRefundId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  providerData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  transaction?: Prisma.PaymentTransactionUpdateOneRequiredWithoutRefundsNestedInput
+  order?: Prisma.OrderUpdateOneRequiredWithoutRefundsNestedInput
+  processedBy?: Prisma.UserUpdateOneWithoutProcessedRefundsNestedInput
+  items?: Prisma.RefundItemUpdateManyWithoutRefundNestedInput
+}
+
+export type RefundUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  transactionId?: Prisma.StringFieldUpdateOperationsInput | string
+  orderId?: Prisma.StringFieldUpdateOperationsInput | string
+  amount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  reason?: Prisma.StringFieldUpdateOperationsInput | string
+  isManual?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  providerRefundId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  providerData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  processedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  items?: Prisma.RefundItemUncheckedUpdateManyWithoutRefundNestedInput
+}
+
+export type RefundCreateManyInput = {
+  id?: string
+  transactionId: string
+  orderId: string
+  amount: runtime.Decimal | runtime.DecimalJsLike | number | string
+  reason: string
+  isManual?: boolean
+  providerRefundId?: string | null
+  providerData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  processedById?: string | null
+  createdAt?: Date | string
+}
+
+export type RefundUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  amount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  reason?: Prisma.StringFieldUpdateOperationsInput | string
+  isManual?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  providerRefundId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  providerData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type RefundUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  transactionId?: Prisma.StringFieldUpdateOperationsInput | string
+  orderId?: Prisma.StringFieldUpdateOperationsInput | string
+  amount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  reason?: Prisma.StringFieldUpdateOperationsInput | string
+  isManual?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  providerRefundId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  providerData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  processedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type RefundListRelationFilter = {
+  every?: Prisma.RefundWhereInput
+  some?: Prisma.RefundWhereInput
+  none?: Prisma.RefundWhereInput
+}
+
+export type RefundOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type RefundCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  transactionId?: Prisma.SortOrder
+  orderId?: Prisma.SortOrder
+  amount?: Prisma.SortOrder
+  reason?: Prisma.SortOrder
+  isManual?: Prisma.SortOrder
+  providerRefundId?: Prisma.SortOrder
+  providerData?: Prisma.SortOrder
+  processedById?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type RefundAvgOrderByAggregateInput = {
+  amount?: Prisma.SortOrder
+}
+
+export type RefundMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  transactionId?: Prisma.SortOrder
+  orderId?: Prisma.SortOrder
+  amount?: Prisma.SortOrder
+  reason?: Prisma.SortOrder
+  isManual?: Prisma.SortOrder
+  providerRefundId?: Prisma.SortOrder
+  processedById?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type RefundMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  transactionId?: Prisma.SortOrder
+  orderId?: Prisma.SortOrder
+  amount?: Prisma.SortOrder
+  reason?: Prisma.SortOrder
+  isManual?: Prisma.SortOrder
+  providerRefundId?: Prisma.SortOrder
+  processedById?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type RefundSumOrderByAggregateInput = {
+  amount?: Prisma.SortOrder
+}
+
+export type RefundScalarRelationFilter = {
+  is?: Prisma.RefundWhereInput
+  isNot?: Prisma.RefundWhereInput
+}
+
+export type RefundCreateNestedManyWithoutProcessedByInput = {
+  create?: Prisma.XOR<Prisma.RefundCreateWithoutProcessedByInput, Prisma.RefundUncheckedCreateWithoutProcessedByInput> | Prisma.RefundCreateWithoutProcessedByInput[] | Prisma.RefundUncheckedCreateWithoutProcessedByInput[]
+  connectOrCreate?: Prisma.RefundCreateOrConnectWithoutProcessedByInput | Prisma.RefundCreateOrConnectWithoutProcessedByInput[]
+  createMany?: Prisma.RefundCreateManyProcessedByInputEnvelope
+  connect?: Prisma.RefundWhereUniqueInput | Prisma.RefundWhereUniqueInput[]
+}
+
+export type RefundUncheckedCreateNestedManyWithoutProcessedByInput = {
+  create?: Prisma.XOR<Prisma.RefundCreateWithoutProcessedByInput, Prisma.RefundUncheckedCreateWithoutProcessedByInput> | Prisma.RefundCreateWithoutProcessedByInput[] | Prisma.RefundUncheckedCreateWithoutProcessedByInput[]
+  connectOrCreate?: Prisma.RefundCreateOrConnectWithoutProcessedByInput | Prisma.RefundCreateOrConnectWithoutProcessedByInput[]
+  createMany?: Prisma.RefundCreateManyProcessedByInputEnvelope
+  connect?: Prisma.RefundWhereUniqueInput | Prisma.RefundWhereUniqueInput[]
+}
+
+export type RefundUpdateManyWithoutProcessedByNestedInput = {
+  create?: Prisma.XOR<Prisma.RefundCreateWithoutProcessedByInput, Prisma.RefundUncheckedCreateWithoutProcessedByInput> | Prisma.RefundCreateWithoutProcessedByInput[] | Prisma.RefundUncheckedCreateWithoutProcessedByInput[]
+  connectOrCreate?: Prisma.RefundCreateOrConnectWithoutProcessedByInput | Prisma.RefundCreateOrConnectWithoutProcessedByInput[]
+  upsert?: Prisma.RefundUpsertWithWhereUniqueWithoutProcessedByInput | Prisma.RefundUpsertWithWhereUniqueWithoutProcessedByInput[]
+  createMany?: Prisma.RefundCreateManyProcessedByInputEnvelope
+  set?: Prisma.RefundWhereUniqueInput | Prisma.RefundWhereUniqueInput[]
+  disconnect?: Prisma.RefundWhereUniqueInput | Prisma.RefundWhereUniqueInput[]
+  delete?: Prisma.RefundWhereUniqueInput | Prisma.RefundWhereUniqueInput[]
+  connect?: Prisma.RefundWhereUniqueInput | Prisma.RefundWhereUniqueInput[]
+  update?: Prisma.RefundUpdateWithWhereUniqueWithoutProcessedByInput | Prisma.RefundUpdateWithWhereUniqueWithoutProcessedByInput[]
+  updateMany?: Prisma.RefundUpdateManyWithWhereWithoutProcessedByInput | Prisma.RefundUpdateManyWithWhereWithoutProcessedByInput[]
+  deleteMany?: Prisma.RefundScalarWhereInput | Prisma.RefundScalarWhereInput[]
+}
+
+export type RefundUncheckedUpdateManyWithoutProcessedByNestedInput = {
+  create?: Prisma.XOR<Prisma.RefundCreateWithoutProcessedByInput, Prisma.RefundUncheckedCreateWithoutProcessedByInput> | Prisma.RefundCreateWithoutProcessedByInput[] | Prisma.RefundUncheckedCreateWithoutProcessedByInput[]
+  connectOrCreate?: Prisma.RefundCreateOrConnectWithoutProcessedByInput | Prisma.RefundCreateOrConnectWithoutProcessedByInput[]
+  upsert?: Prisma.RefundUpsertWithWhereUniqueWithoutProcessedByInput | Prisma.RefundUpsertWithWhereUniqueWithoutProcessedByInput[]
+  createMany?: Prisma.RefundCreateManyProcessedByInputEnvelope
+  set?: Prisma.RefundWhereUniqueInput | Prisma.RefundWhereUniqueInput[]
+  disconnect?: Prisma.RefundWhereUniqueInput | Prisma.RefundWhereUniqueInput[]
+  delete?: Prisma.RefundWhereUniqueInput | Prisma.RefundWhereUniqueInput[]
+  connect?: Prisma.RefundWhereUniqueInput | Prisma.RefundWhereUniqueInput[]
+  update?: Prisma.RefundUpdateWithWhereUniqueWithoutProcessedByInput | Prisma.RefundUpdateWithWhereUniqueWithoutProcessedByInput[]
+  updateMany?: Prisma.RefundUpdateManyWithWhereWithoutProcessedByInput | Prisma.RefundUpdateManyWithWhereWithoutProcessedByInput[]
+  deleteMany?: Prisma.RefundScalarWhereInput | Prisma.RefundScalarWhereInput[]
+}
+
+export type RefundCreateNestedManyWithoutOrderInput = {
+  create?: Prisma.XOR<Prisma.RefundCreateWithoutOrderInput, Prisma.RefundUncheckedCreateWithoutOrderInput> | Prisma.RefundCreateWithoutOrderInput[] | Prisma.RefundUncheckedCreateWithoutOrderInput[]
+  connectOrCreate?: Prisma.RefundCreateOrConnectWithoutOrderInput | Prisma.RefundCreateOrConnectWithoutOrderInput[]
+  createMany?: Prisma.RefundCreateManyOrderInputEnvelope
+  connect?: Prisma.RefundWhereUniqueInput | Prisma.RefundWhereUniqueInput[]
+}
+
+export type RefundUncheckedCreateNestedManyWithoutOrderInput = {
+  create?: Prisma.XOR<Prisma.RefundCreateWithoutOrderInput, Prisma.RefundUncheckedCreateWithoutOrderInput> | Prisma.RefundCreateWithoutOrderInput[] | Prisma.RefundUncheckedCreateWithoutOrderInput[]
+  connectOrCreate?: Prisma.RefundCreateOrConnectWithoutOrderInput | Prisma.RefundCreateOrConnectWithoutOrderInput[]
+  createMany?: Prisma.RefundCreateManyOrderInputEnvelope
+  connect?: Prisma.RefundWhereUniqueInput | Prisma.RefundWhereUniqueInput[]
+}
+
+export type RefundUpdateManyWithoutOrderNestedInput = {
+  create?: Prisma.XOR<Prisma.RefundCreateWithoutOrderInput, Prisma.RefundUncheckedCreateWithoutOrderInput> | Prisma.RefundCreateWithoutOrderInput[] | Prisma.RefundUncheckedCreateWithoutOrderInput[]
+  connectOrCreate?: Prisma.RefundCreateOrConnectWithoutOrderInput | Prisma.RefundCreateOrConnectWithoutOrderInput[]
+  upsert?: Prisma.RefundUpsertWithWhereUniqueWithoutOrderInput | Prisma.RefundUpsertWithWhereUniqueWithoutOrderInput[]
+  createMany?: Prisma.RefundCreateManyOrderInputEnvelope
+  set?: Prisma.RefundWhereUniqueInput | Prisma.RefundWhereUniqueInput[]
+  disconnect?: Prisma.RefundWhereUniqueInput | Prisma.RefundWhereUniqueInput[]
+  delete?: Prisma.RefundWhereUniqueInput | Prisma.RefundWhereUniqueInput[]
+  connect?: Prisma.RefundWhereUniqueInput | Prisma.RefundWhereUniqueInput[]
+  update?: Prisma.RefundUpdateWithWhereUniqueWithoutOrderInput | Prisma.RefundUpdateWithWhereUniqueWithoutOrderInput[]
+  updateMany?: Prisma.RefundUpdateManyWithWhereWithoutOrderInput | Prisma.RefundUpdateManyWithWhereWithoutOrderInput[]
+  deleteMany?: Prisma.RefundScalarWhereInput | Prisma.RefundScalarWhereInput[]
+}
+
+export type RefundUncheckedUpdateManyWithoutOrderNestedInput = {
+  create?: Prisma.XOR<Prisma.RefundCreateWithoutOrderInput, Prisma.RefundUncheckedCreateWithoutOrderInput> | Prisma.RefundCreateWithoutOrderInput[] | Prisma.RefundUncheckedCreateWithoutOrderInput[]
+  connectOrCreate?: Prisma.RefundCreateOrConnectWithoutOrderInput | Prisma.RefundCreateOrConnectWithoutOrderInput[]
+  upsert?: Prisma.RefundUpsertWithWhereUniqueWithoutOrderInput | Prisma.RefundUpsertWithWhereUniqueWithoutOrderInput[]
+  createMany?: Prisma.RefundCreateManyOrderInputEnvelope
+  set?: Prisma.RefundWhereUniqueInput | Prisma.RefundWhereUniqueInput[]
+  disconnect?: Prisma.RefundWhereUniqueInput | Prisma.RefundWhereUniqueInput[]
+  delete?: Prisma.RefundWhereUniqueInput | Prisma.RefundWhereUniqueInput[]
+  connect?: Prisma.RefundWhereUniqueInput | Prisma.RefundWhereUniqueInput[]
+  update?: Prisma.RefundUpdateWithWhereUniqueWithoutOrderInput | Prisma.RefundUpdateWithWhereUniqueWithoutOrderInput[]
+  updateMany?: Prisma.RefundUpdateManyWithWhereWithoutOrderInput | Prisma.RefundUpdateManyWithWhereWithoutOrderInput[]
+  deleteMany?: Prisma.RefundScalarWhereInput | Prisma.RefundScalarWhereInput[]
+}
+
+export type RefundCreateNestedManyWithoutTransactionInput = {
+  create?: Prisma.XOR<Prisma.RefundCreateWithoutTransactionInput, Prisma.RefundUncheckedCreateWithoutTransactionInput> | Prisma.RefundCreateWithoutTransactionInput[] | Prisma.RefundUncheckedCreateWithoutTransactionInput[]
+  connectOrCreate?: Prisma.RefundCreateOrConnectWithoutTransactionInput | Prisma.RefundCreateOrConnectWithoutTransactionInput[]
+  createMany?: Prisma.RefundCreateManyTransactionInputEnvelope
+  connect?: Prisma.RefundWhereUniqueInput | Prisma.RefundWhereUniqueInput[]
+}
+
+export type RefundUncheckedCreateNestedManyWithoutTransactionInput = {
+  create?: Prisma.XOR<Prisma.RefundCreateWithoutTransactionInput, Prisma.RefundUncheckedCreateWithoutTransactionInput> | Prisma.RefundCreateWithoutTransactionInput[] | Prisma.RefundUncheckedCreateWithoutTransactionInput[]
+  connectOrCreate?: Prisma.RefundCreateOrConnectWithoutTransactionInput | Prisma.RefundCreateOrConnectWithoutTransactionInput[]
+  createMany?: Prisma.RefundCreateManyTransactionInputEnvelope
+  connect?: Prisma.RefundWhereUniqueInput | Prisma.RefundWhereUniqueInput[]
+}
+
+export type RefundUpdateManyWithoutTransactionNestedInput = {
+  create?: Prisma.XOR<Prisma.RefundCreateWithoutTransactionInput, Prisma.RefundUncheckedCreateWithoutTransactionInput> | Prisma.RefundCreateWithoutTransactionInput[] | Prisma.RefundUncheckedCreateWithoutTransactionInput[]
+  connectOrCreate?: Prisma.RefundCreateOrConnectWithoutTransactionInput | Prisma.RefundCreateOrConnectWithoutTransactionInput[]
+  upsert?: Prisma.RefundUpsertWithWhereUniqueWithoutTransactionInput | Prisma.RefundUpsertWithWhereUniqueWithoutTransactionInput[]
+  createMany?: Prisma.RefundCreateManyTransactionInputEnvelope
+  set?: Prisma.RefundWhereUniqueInput | Prisma.RefundWhereUniqueInput[]
+  disconnect?: Prisma.RefundWhereUniqueInput | Prisma.RefundWhereUniqueInput[]
+  delete?: Prisma.RefundWhereUniqueInput | Prisma.RefundWhereUniqueInput[]
+  connect?: Prisma.RefundWhereUniqueInput | Prisma.RefundWhereUniqueInput[]
+  update?: Prisma.RefundUpdateWithWhereUniqueWithoutTransactionInput | Prisma.RefundUpdateWithWhereUniqueWithoutTransactionInput[]
+  updateMany?: Prisma.RefundUpdateManyWithWhereWithoutTransactionInput | Prisma.RefundUpdateManyWithWhereWithoutTransactionInput[]
+  deleteMany?: Prisma.RefundScalarWhereInput | Prisma.RefundScalarWhereInput[]
+}
+
+export type RefundUncheckedUpdateManyWithoutTransactionNestedInput = {
+  create?: Prisma.XOR<Prisma.RefundCreateWithoutTransactionInput, Prisma.RefundUncheckedCreateWithoutTransactionInput> | Prisma.RefundCreateWithoutTransactionInput[] | Prisma.RefundUncheckedCreateWithoutTransactionInput[]
+  connectOrCreate?: Prisma.RefundCreateOrConnectWithoutTransactionInput | Prisma.RefundCreateOrConnectWithoutTransactionInput[]
+  upsert?: Prisma.RefundUpsertWithWhereUniqueWithoutTransactionInput | Prisma.RefundUpsertWithWhereUniqueWithoutTransactionInput[]
+  createMany?: Prisma.RefundCreateManyTransactionInputEnvelope
+  set?: Prisma.RefundWhereUniqueInput | Prisma.RefundWhereUniqueInput[]
+  disconnect?: Prisma.RefundWhereUniqueInput | Prisma.RefundWhereUniqueInput[]
+  delete?: Prisma.RefundWhereUniqueInput | Prisma.RefundWhereUniqueInput[]
+  connect?: Prisma.RefundWhereUniqueInput | Prisma.RefundWhereUniqueInput[]
+  update?: Prisma.RefundUpdateWithWhereUniqueWithoutTransactionInput | Prisma.RefundUpdateWithWhereUniqueWithoutTransactionInput[]
+  updateMany?: Prisma.RefundUpdateManyWithWhereWithoutTransactionInput | Prisma.RefundUpdateManyWithWhereWithoutTransactionInput[]
+  deleteMany?: Prisma.RefundScalarWhereInput | Prisma.RefundScalarWhereInput[]
+}
+
+export type RefundCreateNestedOneWithoutItemsInput = {
+  create?: Prisma.XOR<Prisma.RefundCreateWithoutItemsInput, Prisma.RefundUncheckedCreateWithoutItemsInput>
+  connectOrCreate?: Prisma.RefundCreateOrConnectWithoutItemsInput
+  connect?: Prisma.RefundWhereUniqueInput
+}
+
+export type RefundUpdateOneRequiredWithoutItemsNestedInput = {
+  create?: Prisma.XOR<Prisma.RefundCreateWithoutItemsInput, Prisma.RefundUncheckedCreateWithoutItemsInput>
+  connectOrCreate?: Prisma.RefundCreateOrConnectWithoutItemsInput
+  upsert?: Prisma.RefundUpsertWithoutItemsInput
+  connect?: Prisma.RefundWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.RefundUpdateToOneWithWhereWithoutItemsInput, Prisma.RefundUpdateWithoutItemsInput>, Prisma.RefundUncheckedUpdateWithoutItemsInput>
+}
+
+export type RefundCreateWithoutProcessedByInput = {
+  id?: string
+  amount: runtime.Decimal | runtime.DecimalJsLike | number | string
+  reason: string
+  isManual?: boolean
+  providerRefundId?: string | null
+  providerData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Date | string
+  transaction: Prisma.PaymentTransactionCreateNestedOneWithoutRefundsInput
+  order: Prisma.OrderCreateNestedOneWithoutRefundsInput
+  items?: Prisma.RefundItemCreateNestedManyWithoutRefundInput
+}
+
+export type RefundUncheckedCreateWithoutProcessedByInput = {
+  id?: string
+  transactionId: string
+  orderId: string
+  amount: runtime.Decimal | runtime.DecimalJsLike | number | string
+  reason: string
+  isManual?: boolean
+  providerRefundId?: string | null
+  providerData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Date | string
+  items?: Prisma.RefundItemUncheckedCreateNestedManyWithoutRefundInput
+}
+
+export type RefundCreateOrConnectWithoutProcessedByInput = {
+  where: Prisma.RefundWhereUniqueInput
+  create: Prisma.XOR<Prisma.RefundCreateWithoutProcessedByInput, Prisma.RefundUncheckedCreateWithoutProcessedByInput>
+}
+
+export type RefundCreateManyProcessedByInputEnvelope = {
+  data: Prisma.RefundCreateManyProcessedByInput | Prisma.RefundCreateManyProcessedByInput[]
+  skipDuplicates?: boolean
+}
+
+export type RefundUpsertWithWhereUniqueWithoutProcessedByInput = {
+  where: Prisma.RefundWhereUniqueInput
+  update: Prisma.XOR<Prisma.RefundUpdateWithoutProcessedByInput, Prisma.RefundUncheckedUpdateWithoutProcessedByInput>
+  create: Prisma.XOR<Prisma.RefundCreateWithoutProcessedByInput, Prisma.RefundUncheckedCreateWithoutProcessedByInput>
+}
+
+export type RefundUpdateWithWhereUniqueWithoutProcessedByInput = {
+  where: Prisma.RefundWhereUniqueInput
+  data: Prisma.XOR<Prisma.RefundUpdateWithoutProcessedByInput, Prisma.RefundUncheckedUpdateWithoutProcessedByInput>
+}
+
+export type RefundUpdateManyWithWhereWithoutProcessedByInput = {
+  where: Prisma.RefundScalarWhereInput
+  data: Prisma.XOR<Prisma.RefundUpdateManyMutationInput, Prisma.RefundUncheckedUpdateManyWithoutProcessedByInput>
+}
+
+export type RefundScalarWhereInput = {
+  AND?: Prisma.RefundScalarWhereInput | Prisma.RefundScalarWhereInput[]
+  OR?: Prisma.RefundScalarWhereInput[]
+  NOT?: Prisma.RefundScalarWhereInput | Prisma.RefundScalarWhereInput[]
+  id?: Prisma.StringFilter<"Refund"> | string
+  transactionId?: Prisma.StringFilter<"Refund"> | string
+  orderId?: Prisma.StringFilter<"Refund"> | string
+  amount?: Prisma.DecimalFilter<"Refund"> | runtime.Decimal | runtime.DecimalJsLike | number | string
+  reason?: Prisma.StringFilter<"Refund"> | string
+  isManual?: Prisma.BoolFilter<"Refund"> | boolean
+  providerRefundId?: Prisma.StringNullableFilter<"Refund"> | string | null
+  providerData?: Prisma.JsonNullableFilter<"Refund">
+  processedById?: Prisma.StringNullableFilter<"Refund"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"Refund"> | Date | string
+}
+
+export type RefundCreateWithoutOrderInput = {
+  id?: string
+  amount: runtime.Decimal | runtime.DecimalJsLike | number | string
+  reason: string
+  isManual?: boolean
+  providerRefundId?: string | null
+  providerData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Date | string
+  transaction: Prisma.PaymentTransactionCreateNestedOneWithoutRefundsInput
+  processedBy?: Prisma.UserCreateNestedOneWithoutProcessedRefundsInput
+  items?: Prisma.RefundItemCreateNestedManyWithoutRefundInput
+}
+
+export type RefundUncheckedCreateWithoutOrderInput = {
+  id?: string
+  transactionId: string
+  amount: runtime.Decimal | runtime.DecimalJsLike | number | string
+  reason: string
+  isManual?: boolean
+  providerRefundId?: string | null
+  providerData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  processedById?: string | null
+  createdAt?: Date | string
+  items?: Prisma.RefundItemUncheckedCreateNestedManyWithoutRefundInput
+}
+
+export type RefundCreateOrConnectWithoutOrderInput = {
+  where: Prisma.RefundWhereUniqueInput
+  create: Prisma.XOR<Prisma.RefundCreateWithoutOrderInput, Prisma.RefundUncheckedCreateWithoutOrderInput>
+}
+
+export type RefundCreateManyOrderInputEnvelope = {
+  data: Prisma.RefundCreateManyOrderInput | Prisma.RefundCreateManyOrderInput[]
+  skipDuplicates?: boolean
+}
+
+export type RefundUpsertWithWhereUniqueWithoutOrderInput = {
+  where: Prisma.RefundWhereUniqueInput
+  update: Prisma.XOR<Prisma.RefundUpdateWithoutOrderInput, Prisma.RefundUncheckedUpdateWithoutOrderInput>
+  create: Prisma.XOR<Prisma.RefundCreateWithoutOrderInput, Prisma.RefundUncheckedCreateWithoutOrderInput>
+}
+
+export type RefundUpdateWithWhereUniqueWithoutOrderInput = {
+  where: Prisma.RefundWhereUniqueInput
+  data: Prisma.XOR<Prisma.RefundUpdateWithoutOrderInput, Prisma.RefundUncheckedUpdateWithoutOrderInput>
+}
+
+export type RefundUpdateManyWithWhereWithoutOrderInput = {
+  where: Prisma.RefundScalarWhereInput
+  data: Prisma.XOR<Prisma.RefundUpdateManyMutationInput, Prisma.RefundUncheckedUpdateManyWithoutOrderInput>
+}
+
+export type RefundCreateWithoutTransactionInput = {
+  id?: string
+  amount: runtime.Decimal | runtime.DecimalJsLike | number | string
+  reason: string
+  isManual?: boolean
+  providerRefundId?: string | null
+  providerData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Date | string
+  order: Prisma.OrderCreateNestedOneWithoutRefundsInput
+  processedBy?: Prisma.UserCreateNestedOneWithoutProcessedRefundsInput
+  items?: Prisma.RefundItemCreateNestedManyWithoutRefundInput
+}
+
+export type RefundUncheckedCreateWithoutTransactionInput = {
+  id?: string
+  orderId: string
+  amount: runtime.Decimal | runtime.DecimalJsLike | number | string
+  reason: string
+  isManual?: boolean
+  providerRefundId?: string | null
+  providerData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  processedById?: string | null
+  createdAt?: Date | string
+  items?: Prisma.RefundItemUncheckedCreateNestedManyWithoutRefundInput
+}
+
+export type RefundCreateOrConnectWithoutTransactionInput = {
+  where: Prisma.RefundWhereUniqueInput
+  create: Prisma.XOR<Prisma.RefundCreateWithoutTransactionInput, Prisma.RefundUncheckedCreateWithoutTransactionInput>
+}
+
+export type RefundCreateManyTransactionInputEnvelope = {
+  data: Prisma.RefundCreateManyTransactionInput | Prisma.RefundCreateManyTransactionInput[]
+  skipDuplicates?: boolean
+}
+
+export type RefundUpsertWithWhereUniqueWithoutTransactionInput = {
+  where: Prisma.RefundWhereUniqueInput
+  update: Prisma.XOR<Prisma.RefundUpdateWithoutTransactionInput, Prisma.RefundUncheckedUpdateWithoutTransactionInput>
+  create: Prisma.XOR<Prisma.RefundCreateWithoutTransactionInput, Prisma.RefundUncheckedCreateWithoutTransactionInput>
+}
+
+export type RefundUpdateWithWhereUniqueWithoutTransactionInput = {
+  where: Prisma.RefundWhereUniqueInput
+  data: Prisma.XOR<Prisma.RefundUpdateWithoutTransactionInput, Prisma.RefundUncheckedUpdateWithoutTransactionInput>
+}
+
+export type RefundUpdateManyWithWhereWithoutTransactionInput = {
+  where: Prisma.RefundScalarWhereInput
+  data: Prisma.XOR<Prisma.RefundUpdateManyMutationInput, Prisma.RefundUncheckedUpdateManyWithoutTransactionInput>
+}
+
+export type RefundCreateWithoutItemsInput = {
+  id?: string
+  amount: runtime.Decimal | runtime.DecimalJsLike | number | string
+  reason: string
+  isManual?: boolean
+  providerRefundId?: string | null
+  providerData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Date | string
+  transaction: Prisma.PaymentTransactionCreateNestedOneWithoutRefundsInput
+  order: Prisma.OrderCreateNestedOneWithoutRefundsInput
+  processedBy?: Prisma.UserCreateNestedOneWithoutProcessedRefundsInput
+}
+
+export type RefundUncheckedCreateWithoutItemsInput = {
+  id?: string
+  transactionId: string
+  orderId: string
+  amount: runtime.Decimal | runtime.DecimalJsLike | number | string
+  reason: string
+  isManual?: boolean
+  providerRefundId?: string | null
+  providerData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  processedById?: string | null
+  createdAt?: Date | string
+}
+
+export type RefundCreateOrConnectWithoutItemsInput = {
+  where: Prisma.RefundWhereUniqueInput
+  create: Prisma.XOR<Prisma.RefundCreateWithoutItemsInput, Prisma.RefundUncheckedCreateWithoutItemsInput>
+}
+
+export type RefundUpsertWithoutItemsInput = {
+  update: Prisma.XOR<Prisma.RefundUpdateWithoutItemsInput, Prisma.RefundUncheckedUpdateWithoutItemsInput>
+  create: Prisma.XOR<Prisma.RefundCreateWithoutItemsInput, Prisma.RefundUncheckedCreateWithoutItemsInput>
+  where?: Prisma.RefundWhereInput
+}
+
+export type RefundUpdateToOneWithWhereWithoutItemsInput = {
+  where?: Prisma.RefundWhereInput
+  data: Prisma.XOR<Prisma.RefundUpdateWithoutItemsInput, Prisma.RefundUncheckedUpdateWithoutItemsInput>
+}
+
+export type RefundUpdateWithoutItemsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  amount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  reason?: Prisma.StringFieldUpdateOperationsInput | string
+  isManual?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  providerRefundId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  providerData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  transaction?: Prisma.PaymentTransactionUpdateOneRequiredWithoutRefundsNestedInput
+  order?: Prisma.OrderUpdateOneRequiredWithoutRefundsNestedInput
+  processedBy?: Prisma.UserUpdateOneWithoutProcessedRefundsNestedInput
+}
+
+export type RefundUncheckedUpdateWithoutItemsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  transactionId?: Prisma.StringFieldUpdateOperationsInput | string
+  orderId?: Prisma.StringFieldUpdateOperationsInput | string
+  amount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  reason?: Prisma.StringFieldUpdateOperationsInput | string
+  isManual?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  providerRefundId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  providerData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  processedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type RefundCreateManyProcessedByInput = {
+  id?: string
+  transactionId: string
+  orderId: string
+  amount: runtime.Decimal | runtime.DecimalJsLike | number | string
+  reason: string
+  isManual?: boolean
+  providerRefundId?: string | null
+  providerData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Date | string
+}
+
+export type RefundUpdateWithoutProcessedByInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  amount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  reason?: Prisma.StringFieldUpdateOperationsInput | string
+  isManual?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  providerRefundId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  providerData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  transaction?: Prisma.PaymentTransactionUpdateOneRequiredWithoutRefundsNestedInput
+  order?: Prisma.OrderUpdateOneRequiredWithoutRefundsNestedInput
+  items?: Prisma.RefundItemUpdateManyWithoutRefundNestedInput
+}
+
+export type RefundUncheckedUpdateWithoutProcessedByInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  transactionId?: Prisma.StringFieldUpdateOperationsInput | string
+  orderId?: Prisma.StringFieldUpdateOperationsInput | string
+  amount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  reason?: Prisma.StringFieldUpdateOperationsInput | string
+  isManual?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  providerRefundId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  providerData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  items?: Prisma.RefundItemUncheckedUpdateManyWithoutRefundNestedInput
+}
+
+export type RefundUncheckedUpdateManyWithoutProcessedByInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  transactionId?: Prisma.StringFieldUpdateOperationsInput | string
+  orderId?: Prisma.StringFieldUpdateOperationsInput | string
+  amount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  reason?: Prisma.StringFieldUpdateOperationsInput | string
+  isManual?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  providerRefundId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  providerData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type RefundCreateManyOrderInput = {
+  id?: string
+  transactionId: string
+  amount: runtime.Decimal | runtime.DecimalJsLike | number | string
+  reason: string
+  isManual?: boolean
+  providerRefundId?: string | null
+  providerData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  processedById?: string | null
+  createdAt?: Date | string
+}
+
+export type RefundUpdateWithoutOrderInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  amount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  reason?: Prisma.StringFieldUpdateOperationsInput | string
+  isManual?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  providerRefundId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  providerData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  transaction?: Prisma.PaymentTransactionUpdateOneRequiredWithoutRefundsNestedInput
+  processedBy?: Prisma.UserUpdateOneWithoutProcessedRefundsNestedInput
+  items?: Prisma.RefundItemUpdateManyWithoutRefundNestedInput
+}
+
+export type RefundUncheckedUpdateWithoutOrderInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  transactionId?: Prisma.StringFieldUpdateOperationsInput | string
+  amount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  reason?: Prisma.StringFieldUpdateOperationsInput | string
+  isManual?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  providerRefundId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  providerData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  processedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  items?: Prisma.RefundItemUncheckedUpdateManyWithoutRefundNestedInput
+}
+
+export type RefundUncheckedUpdateManyWithoutOrderInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  transactionId?: Prisma.StringFieldUpdateOperationsInput | string
+  amount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  reason?: Prisma.StringFieldUpdateOperationsInput | string
+  isManual?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  providerRefundId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  providerData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  processedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type RefundCreateManyTransactionInput = {
+  id?: string
+  orderId: string
+  amount: runtime.Decimal | runtime.DecimalJsLike | number | string
+  reason: string
+  isManual?: boolean
+  providerRefundId?: string | null
+  providerData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  processedById?: string | null
+  createdAt?: Date | string
+}
+
+export type RefundUpdateWithoutTransactionInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  amount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  reason?: Prisma.StringFieldUpdateOperationsInput | string
+  isManual?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  providerRefundId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  providerData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  order?: Prisma.OrderUpdateOneRequiredWithoutRefundsNestedInput
+  processedBy?: Prisma.UserUpdateOneWithoutProcessedRefundsNestedInput
+  items?: Prisma.RefundItemUpdateManyWithoutRefundNestedInput
+}
+
+export type RefundUncheckedUpdateWithoutTransactionInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  orderId?: Prisma.StringFieldUpdateOperationsInput | string
+  amount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  reason?: Prisma.StringFieldUpdateOperationsInput | string
+  isManual?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  providerRefundId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  providerData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  processedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  items?: Prisma.RefundItemUncheckedUpdateManyWithoutRefundNestedInput
+}
+
+export type RefundUncheckedUpdateManyWithoutTransactionInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  orderId?: Prisma.StringFieldUpdateOperationsInput | string
+  amount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  reason?: Prisma.StringFieldUpdateOperationsInput | string
+  isManual?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  providerRefundId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  providerData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  processedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+/**
+ * Count Type RefundCountOutputType
+ */
+
+export type RefundCountOutputType = {
+  items: number
+}
+
+export type RefundCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  items?: boolean | RefundCountOutputTypeCountItemsArgs
+}
+
+/**
+ * RefundCountOutputType without action
+ */
+export type RefundCountOutputTypeDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RefundCountOutputType
+   */
+  select?: Prisma.RefundCountOutputTypeSelect<ExtArgs> | null
+}
+
+/**
+ * RefundCountOutputType without action
+ */
+export type RefundCountOutputTypeCountItemsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.RefundItemWhereInput
+}
+
+
+export type RefundSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  transactionId?: boolean
+  orderId?: boolean
+  amount?: boolean
+  reason?: boolean
+  isManual?: boolean
+  providerRefundId?: boolean
+  providerData?: boolean
+  processedById?: boolean
+  createdAt?: boolean
+  transaction?: boolean | Prisma.PaymentTransactionDefaultArgs<ExtArgs>
+  order?: boolean | Prisma.OrderDefaultArgs<ExtArgs>
+  processedBy?: boolean | Prisma.Refund$processedByArgs<ExtArgs>
+  items?: boolean | Prisma.Refund$itemsArgs<ExtArgs>
+  _count?: boolean | Prisma.RefundCountOutputTypeDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["refund"]>
+
+export type RefundSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  transactionId?: boolean
+  orderId?: boolean
+  amount?: boolean
+  reason?: boolean
+  isManual?: boolean
+  providerRefundId?: boolean
+  providerData?: boolean
+  processedById?: boolean
+  createdAt?: boolean
+  transaction?: boolean | Prisma.PaymentTransactionDefaultArgs<ExtArgs>
+  order?: boolean | Prisma.OrderDefaultArgs<ExtArgs>
+  processedBy?: boolean | Prisma.Refund$processedByArgs<ExtArgs>
+}, ExtArgs["result"]["refund"]>
+
+export type RefundSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  transactionId?: boolean
+  orderId?: boolean
+  amount?: boolean
+  reason?: boolean
+  isManual?: boolean
+  providerRefundId?: boolean
+  providerData?: boolean
+  processedById?: boolean
+  createdAt?: boolean
+  transaction?: boolean | Prisma.PaymentTransactionDefaultArgs<ExtArgs>
+  order?: boolean | Prisma.OrderDefaultArgs<ExtArgs>
+  processedBy?: boolean | Prisma.Refund$processedByArgs<ExtArgs>
+}, ExtArgs["result"]["refund"]>
+
+export type RefundSelectScalar = {
+  id?: boolean
+  transactionId?: boolean
+  orderId?: boolean
+  amount?: boolean
+  reason?: boolean
+  isManual?: boolean
+  providerRefundId?: boolean
+  providerData?: boolean
+  processedById?: boolean
+  createdAt?: boolean
+}
+
+export type RefundOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "transactionId" | "orderId" | "amount" | "reason" | "isManual" | "providerRefundId" | "providerData" | "processedById" | "createdAt", ExtArgs["result"]["refund"]>
+export type RefundInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  transaction?: boolean | Prisma.PaymentTransactionDefaultArgs<ExtArgs>
+  order?: boolean | Prisma.OrderDefaultArgs<ExtArgs>
+  processedBy?: boolean | Prisma.Refund$processedByArgs<ExtArgs>
+  items?: boolean | Prisma.Refund$itemsArgs<ExtArgs>
+  _count?: boolean | Prisma.RefundCountOutputTypeDefaultArgs<ExtArgs>
+}
+export type RefundIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  transaction?: boolean | Prisma.PaymentTransactionDefaultArgs<ExtArgs>
+  order?: boolean | Prisma.OrderDefaultArgs<ExtArgs>
+  processedBy?: boolean | Prisma.Refund$processedByArgs<ExtArgs>
+}
+export type RefundIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  transaction?: boolean | Prisma.PaymentTransactionDefaultArgs<ExtArgs>
+  order?: boolean | Prisma.OrderDefaultArgs<ExtArgs>
+  processedBy?: boolean | Prisma.Refund$processedByArgs<ExtArgs>
+}
+
+export type $RefundPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "Refund"
+  objects: {
+    transaction: Prisma.$PaymentTransactionPayload<ExtArgs>
+    order: Prisma.$OrderPayload<ExtArgs>
+    processedBy: Prisma.$UserPayload<ExtArgs> | null
+    items: Prisma.$RefundItemPayload<ExtArgs>[]
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    transactionId: string
+    orderId: string
+    amount: runtime.Decimal
+    reason: string
+    isManual: boolean
+    providerRefundId: string | null
+    providerData: runtime.JsonValue | null
+    processedById: string | null
+    createdAt: Date
+  }, ExtArgs["result"]["refund"]>
+  composites: {}
+}
+
+export type RefundGetPayload<S extends boolean | null | undefined | RefundDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$RefundPayload, S>
+
+export type RefundCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<RefundFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: RefundCountAggregateInputType | true
+  }
+
+export interface RefundDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['Refund'], meta: { name: 'Refund' } }
+  /**
+   * Find zero or one Refund that matches the filter.
+   * @param {RefundFindUniqueArgs} args - Arguments to find a Refund
+   * @example
+   * // Get one Refund
+   * const refund = await prisma.refund.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends RefundFindUniqueArgs>(args: Prisma.SelectSubset<T, RefundFindUniqueArgs<ExtArgs>>): Prisma.Prisma__RefundClient<runtime.Types.Result.GetResult<Prisma.$RefundPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one Refund that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {RefundFindUniqueOrThrowArgs} args - Arguments to find a Refund
+   * @example
+   * // Get one Refund
+   * const refund = await prisma.refund.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends RefundFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, RefundFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__RefundClient<runtime.Types.Result.GetResult<Prisma.$RefundPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first Refund that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {RefundFindFirstArgs} args - Arguments to find a Refund
+   * @example
+   * // Get one Refund
+   * const refund = await prisma.refund.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends RefundFindFirstArgs>(args?: Prisma.SelectSubset<T, RefundFindFirstArgs<ExtArgs>>): Prisma.Prisma__RefundClient<runtime.Types.Result.GetResult<Prisma.$RefundPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first Refund that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {RefundFindFirstOrThrowArgs} args - Arguments to find a Refund
+   * @example
+   * // Get one Refund
+   * const refund = await prisma.refund.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends RefundFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, RefundFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__RefundClient<runtime.Types.Result.GetResult<Prisma.$RefundPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more Refunds that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {RefundFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all Refunds
+   * const refunds = await prisma.refund.findMany()
+   * 
+   * // Get first 10 Refunds
+   * const refunds = await prisma.refund.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const refundWithIdOnly = await prisma.refund.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends RefundFindManyArgs>(args?: Prisma.SelectSubset<T, RefundFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$RefundPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a Refund.
+   * @param {RefundCreateArgs} args - Arguments to create a Refund.
+   * @example
+   * // Create one Refund
+   * const Refund = await prisma.refund.create({
+   *   data: {
+   *     // ... data to create a Refund
+   *   }
+   * })
+   * 
+   */
+  create<T extends RefundCreateArgs>(args: Prisma.SelectSubset<T, RefundCreateArgs<ExtArgs>>): Prisma.Prisma__RefundClient<runtime.Types.Result.GetResult<Prisma.$RefundPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many Refunds.
+   * @param {RefundCreateManyArgs} args - Arguments to create many Refunds.
+   * @example
+   * // Create many Refunds
+   * const refund = await prisma.refund.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends RefundCreateManyArgs>(args?: Prisma.SelectSubset<T, RefundCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many Refunds and returns the data saved in the database.
+   * @param {RefundCreateManyAndReturnArgs} args - Arguments to create many Refunds.
+   * @example
+   * // Create many Refunds
+   * const refund = await prisma.refund.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many Refunds and only return the `id`
+   * const refundWithIdOnly = await prisma.refund.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends RefundCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, RefundCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$RefundPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a Refund.
+   * @param {RefundDeleteArgs} args - Arguments to delete one Refund.
+   * @example
+   * // Delete one Refund
+   * const Refund = await prisma.refund.delete({
+   *   where: {
+   *     // ... filter to delete one Refund
+   *   }
+   * })
+   * 
+   */
+  delete<T extends RefundDeleteArgs>(args: Prisma.SelectSubset<T, RefundDeleteArgs<ExtArgs>>): Prisma.Prisma__RefundClient<runtime.Types.Result.GetResult<Prisma.$RefundPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one Refund.
+   * @param {RefundUpdateArgs} args - Arguments to update one Refund.
+   * @example
+   * // Update one Refund
+   * const refund = await prisma.refund.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends RefundUpdateArgs>(args: Prisma.SelectSubset<T, RefundUpdateArgs<ExtArgs>>): Prisma.Prisma__RefundClient<runtime.Types.Result.GetResult<Prisma.$RefundPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more Refunds.
+   * @param {RefundDeleteManyArgs} args - Arguments to filter Refunds to delete.
+   * @example
+   * // Delete a few Refunds
+   * const { count } = await prisma.refund.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends RefundDeleteManyArgs>(args?: Prisma.SelectSubset<T, RefundDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more Refunds.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {RefundUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many Refunds
+   * const refund = await prisma.refund.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends RefundUpdateManyArgs>(args: Prisma.SelectSubset<T, RefundUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more Refunds and returns the data updated in the database.
+   * @param {RefundUpdateManyAndReturnArgs} args - Arguments to update many Refunds.
+   * @example
+   * // Update many Refunds
+   * const refund = await prisma.refund.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more Refunds and only return the `id`
+   * const refundWithIdOnly = await prisma.refund.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends RefundUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, RefundUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$RefundPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one Refund.
+   * @param {RefundUpsertArgs} args - Arguments to update or create a Refund.
+   * @example
+   * // Update or create a Refund
+   * const refund = await prisma.refund.upsert({
+   *   create: {
+   *     // ... data to create a Refund
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the Refund we want to update
+   *   }
+   * })
+   */
+  upsert<T extends RefundUpsertArgs>(args: Prisma.SelectSubset<T, RefundUpsertArgs<ExtArgs>>): Prisma.Prisma__RefundClient<runtime.Types.Result.GetResult<Prisma.$RefundPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of Refunds.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {RefundCountArgs} args - Arguments to filter Refunds to count.
+   * @example
+   * // Count the number of Refunds
+   * const count = await prisma.refund.count({
+   *   where: {
+   *     // ... the filter for the Refunds we want to count
+   *   }
+   * })
+  **/
+  count<T extends RefundCountArgs>(
+    args?: Prisma.Subset<T, RefundCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], RefundCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a Refund.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {RefundAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends RefundAggregateArgs>(args: Prisma.Subset<T, RefundAggregateArgs>): Prisma.PrismaPromise<GetRefundAggregateType<T>>
+
+  /**
+   * Group by Refund.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {RefundGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends RefundGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: RefundGroupByArgs['orderBy'] }
+      : { orderBy?: RefundGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, RefundGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetRefundGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the Refund model
+ */
+readonly fields: RefundFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for Refund.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__RefundClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  transaction<T extends Prisma.PaymentTransactionDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.PaymentTransactionDefaultArgs<ExtArgs>>): Prisma.Prisma__PaymentTransactionClient<runtime.Types.Result.GetResult<Prisma.$PaymentTransactionPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  order<T extends Prisma.OrderDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.OrderDefaultArgs<ExtArgs>>): Prisma.Prisma__OrderClient<runtime.Types.Result.GetResult<Prisma.$OrderPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  processedBy<T extends Prisma.Refund$processedByArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Refund$processedByArgs<ExtArgs>>): Prisma.Prisma__UserClient<runtime.Types.Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  items<T extends Prisma.Refund$itemsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Refund$itemsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$RefundItemPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the Refund model
+ */
+export interface RefundFieldRefs {
+  readonly id: Prisma.FieldRef<"Refund", 'String'>
+  readonly transactionId: Prisma.FieldRef<"Refund", 'String'>
+  readonly orderId: Prisma.FieldRef<"Refund", 'String'>
+  readonly amount: Prisma.FieldRef<"Refund", 'Decimal'>
+  readonly reason: Prisma.FieldRef<"Refund", 'String'>
+  readonly isManual: Prisma.FieldRef<"Refund", 'Boolean'>
+  readonly providerRefundId: Prisma.FieldRef<"Refund", 'String'>
+  readonly providerData: Prisma.FieldRef<"Refund", 'Json'>
+  readonly processedById: Prisma.FieldRef<"Refund", 'String'>
+  readonly createdAt: Prisma.FieldRef<"Refund", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * Refund findUnique
+ */
+export type RefundFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Refund
+   */
+  select?: Prisma.RefundSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Refund
+   */
+  omit?: Prisma.RefundOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RefundInclude<ExtArgs> | null
+  /**
+   * Filter, which Refund to fetch.
+   */
+  where: Prisma.RefundWhereUniqueInput
+}
+
+/**
+ * Refund findUniqueOrThrow
+ */
+export type RefundFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Refund
+   */
+  select?: Prisma.RefundSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Refund
+   */
+  omit?: Prisma.RefundOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RefundInclude<ExtArgs> | null
+  /**
+   * Filter, which Refund to fetch.
+   */
+  where: Prisma.RefundWhereUniqueInput
+}
+
+/**
+ * Refund findFirst
+ */
+export type RefundFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Refund
+   */
+  select?: Prisma.RefundSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Refund
+   */
+  omit?: Prisma.RefundOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RefundInclude<ExtArgs> | null
+  /**
+   * Filter, which Refund to fetch.
+   */
+  where?: Prisma.RefundWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of Refunds to fetch.
+   */
+  orderBy?: Prisma.RefundOrderByWithRelationInput | Prisma.RefundOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for Refunds.
+   */
+  cursor?: Prisma.RefundWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` Refunds from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` Refunds.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of Refunds.
+   */
+  distinct?: Prisma.RefundScalarFieldEnum | Prisma.RefundScalarFieldEnum[]
+}
+
+/**
+ * Refund findFirstOrThrow
+ */
+export type RefundFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Refund
+   */
+  select?: Prisma.RefundSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Refund
+   */
+  omit?: Prisma.RefundOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RefundInclude<ExtArgs> | null
+  /**
+   * Filter, which Refund to fetch.
+   */
+  where?: Prisma.RefundWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of Refunds to fetch.
+   */
+  orderBy?: Prisma.RefundOrderByWithRelationInput | Prisma.RefundOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for Refunds.
+   */
+  cursor?: Prisma.RefundWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` Refunds from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` Refunds.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of Refunds.
+   */
+  distinct?: Prisma.RefundScalarFieldEnum | Prisma.RefundScalarFieldEnum[]
+}
+
+/**
+ * Refund findMany
+ */
+export type RefundFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Refund
+   */
+  select?: Prisma.RefundSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Refund
+   */
+  omit?: Prisma.RefundOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RefundInclude<ExtArgs> | null
+  /**
+   * Filter, which Refunds to fetch.
+   */
+  where?: Prisma.RefundWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of Refunds to fetch.
+   */
+  orderBy?: Prisma.RefundOrderByWithRelationInput | Prisma.RefundOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing Refunds.
+   */
+  cursor?: Prisma.RefundWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` Refunds from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` Refunds.
+   */
+  skip?: number
+  distinct?: Prisma.RefundScalarFieldEnum | Prisma.RefundScalarFieldEnum[]
+}
+
+/**
+ * Refund create
+ */
+export type RefundCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Refund
+   */
+  select?: Prisma.RefundSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Refund
+   */
+  omit?: Prisma.RefundOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RefundInclude<ExtArgs> | null
+  /**
+   * The data needed to create a Refund.
+   */
+  data: Prisma.XOR<Prisma.RefundCreateInput, Prisma.RefundUncheckedCreateInput>
+}
+
+/**
+ * Refund createMany
+ */
+export type RefundCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many Refunds.
+   */
+  data: Prisma.RefundCreateManyInput | Prisma.RefundCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * Refund createManyAndReturn
+ */
+export type RefundCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Refund
+   */
+  select?: Prisma.RefundSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the Refund
+   */
+  omit?: Prisma.RefundOmit<ExtArgs> | null
+  /**
+   * The data used to create many Refunds.
+   */
+  data: Prisma.RefundCreateManyInput | Prisma.RefundCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RefundIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * Refund update
+ */
+export type RefundUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Refund
+   */
+  select?: Prisma.RefundSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Refund
+   */
+  omit?: Prisma.RefundOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RefundInclude<ExtArgs> | null
+  /**
+   * The data needed to update a Refund.
+   */
+  data: Prisma.XOR<Prisma.RefundUpdateInput, Prisma.RefundUncheckedUpdateInput>
+  /**
+   * Choose, which Refund to update.
+   */
+  where: Prisma.RefundWhereUniqueInput
+}
+
+/**
+ * Refund updateMany
+ */
+export type RefundUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update Refunds.
+   */
+  data: Prisma.XOR<Prisma.RefundUpdateManyMutationInput, Prisma.RefundUncheckedUpdateManyInput>
+  /**
+   * Filter which Refunds to update
+   */
+  where?: Prisma.RefundWhereInput
+  /**
+   * Limit how many Refunds to update.
+   */
+  limit?: number
+}
+
+/**
+ * Refund updateManyAndReturn
+ */
+export type RefundUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Refund
+   */
+  select?: Prisma.RefundSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the Refund
+   */
+  omit?: Prisma.RefundOmit<ExtArgs> | null
+  /**
+   * The data used to update Refunds.
+   */
+  data: Prisma.XOR<Prisma.RefundUpdateManyMutationInput, Prisma.RefundUncheckedUpdateManyInput>
+  /**
+   * Filter which Refunds to update
+   */
+  where?: Prisma.RefundWhereInput
+  /**
+   * Limit how many Refunds to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RefundIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * Refund upsert
+ */
+export type RefundUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Refund
+   */
+  select?: Prisma.RefundSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Refund
+   */
+  omit?: Prisma.RefundOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RefundInclude<ExtArgs> | null
+  /**
+   * The filter to search for the Refund to update in case it exists.
+   */
+  where: Prisma.RefundWhereUniqueInput
+  /**
+   * In case the Refund found by the `where` argument doesn't exist, create a new Refund with this data.
+   */
+  create: Prisma.XOR<Prisma.RefundCreateInput, Prisma.RefundUncheckedCreateInput>
+  /**
+   * In case the Refund was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.RefundUpdateInput, Prisma.RefundUncheckedUpdateInput>
+}
+
+/**
+ * Refund delete
+ */
+export type RefundDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Refund
+   */
+  select?: Prisma.RefundSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Refund
+   */
+  omit?: Prisma.RefundOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RefundInclude<ExtArgs> | null
+  /**
+   * Filter which Refund to delete.
+   */
+  where: Prisma.RefundWhereUniqueInput
+}
+
+/**
+ * Refund deleteMany
+ */
+export type RefundDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which Refunds to delete
+   */
+  where?: Prisma.RefundWhereInput
+  /**
+   * Limit how many Refunds to delete.
+   */
+  limit?: number
+}
+
+/**
+ * Refund.processedBy
+ */
+export type Refund$processedByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the User
+   */
+  select?: Prisma.UserSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the User
+   */
+  omit?: Prisma.UserOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.UserInclude<ExtArgs> | null
+  where?: Prisma.UserWhereInput
+}
+
+/**
+ * Refund.items
+ */
+export type Refund$itemsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RefundItem
+   */
+  select?: Prisma.RefundItemSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the RefundItem
+   */
+  omit?: Prisma.RefundItemOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RefundItemInclude<ExtArgs> | null
+  where?: Prisma.RefundItemWhereInput
+  orderBy?: Prisma.RefundItemOrderByWithRelationInput | Prisma.RefundItemOrderByWithRelationInput[]
+  cursor?: Prisma.RefundItemWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.RefundItemScalarFieldEnum | Prisma.RefundItemScalarFieldEnum[]
+}
+
+/**
+ * Refund without action
+ */
+export type RefundDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Refund
+   */
+  select?: Prisma.RefundSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Refund
+   */
+  omit?: Prisma.RefundOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RefundInclude<ExtArgs> | null
+}
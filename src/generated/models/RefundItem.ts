@@ -0,0 +1,1510 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `RefundItem` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums.js"
+import type * as Prisma from "../internal/prismaNamespace.js"
+
+/**
+ * Model RefundItem
+ * 
+ */
+export type RefundItemModel = runtime.Types.Result.DefaultSelection<Prisma.$RefundItemPayload>
+
+export type AggregateRefundItem = {
+  _count: RefundItemCountAggregateOutputType | null
+  _avg: RefundItemAvgAggregateOutputType | null
+  _sum: RefundItemSumAggregateOutputType | null
+  _min: RefundItemMinAggregateOutputType | null
+  _max: RefundItemMaxAggregateOutputType | null
+}
+
+export type RefundItemAvgAggregateOutputType = {
+  quantity: number | null
+  amount: runtime.Decimal | null
+}
+
+export type RefundItemSumAggregateOutputType = {
+  quantity: number | null
+  amount: runtime.Decimal | null
+}
+
+export type RefundItemMinAggregateOutputType = {
+  id: string | null
+  refundId: string | null
+  orderItemId: string | null
+  quantity: number | null
+  amount: runtime.Decimal | null
+}
+
+export type RefundItemMaxAggregateOutputType = {
+  id: string | null
+  refundId: string | null
+  orderItemId: string | null
+  quantity: number | null
+  amount: runtime.Decimal | null
+}
+
+export type RefundItemCountAggregateOutputType = {
+  id: number
+  refundId: number
+  orderItemId: number
+  quantity: number
+  amount: number
+  _all: number
+}
+
+
+export type RefundItemAvgAggregateInputType = {
+  quantity?: true
+  amount?: true
+}
+
+export type RefundItemSumAggregateInputType = {
+  quantity?: true
+  amount?: true
+}
+
+export type RefundItemMinAggregateInputType = {
+  id?: true
+  refundId?: true
+  orderItemId?: true
+  quantity?: true
+  amount?: true
+}
+
+export type RefundItemMaxAggregateInputType = {
+  id?: true
+  refundId?: true
+  orderItemId?: true
+  quantity?: true
+  amount?: true
+}
+
+export type RefundItemCountAggregateInputType = {
+  id?: true
+  refundId?: true
+  orderItemId?: true
+  quantity?: true
+  amount?: true
+  _all?: true
+}
+
+export type RefundItemAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which RefundItem to aggregate.
+   */
+  where?: Prisma.RefundItemWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of RefundItems to fetch.
+   */
+  orderBy?: Prisma.RefundItemOrderByWithRelationInput | Prisma.RefundItemOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.RefundItemWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` RefundItems from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` RefundItems.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned RefundItems
+  **/
+  _count?: true | RefundItemCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: RefundItemAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: RefundItemSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: RefundItemMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: RefundItemMaxAggregateInputType
+}
+
+export type GetRefundItemAggregateType<T extends RefundItemAggregateArgs> = {
+      [P in keyof T & keyof AggregateRefundItem]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateRefundItem[P]>
+    : Prisma.GetScalarType<T[P], AggregateRefundItem[P]>
+}
+
+
+
+
+export type RefundItemGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.RefundItemWhereInput
+  orderBy?: Prisma.RefundItemOrderByWithAggregationInput | Prisma.RefundItemOrderByWithAggregationInput[]
+  by: Prisma.RefundItemScalarFieldEnum[] | Prisma.RefundItemScalarFieldEnum
+  having?: Prisma.RefundItemScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: RefundItemCountAggregateInputType | true
+  _avg?: RefundItemAvgAggregateInputType
+  _sum?: RefundItemSumAggregateInputType
+  _min?: RefundItemMinAggregateInputType
+  _max?: RefundItemMaxAggregateInputType
+}
+
+export type RefundItemGroupByOutputType = {
+  id: string
+  refundId: string
+  orderItemId: string
+  quantity: number
+  amount: runtime.Decimal
+  _count: RefundItemCountAggregateOutputType | null
+  _avg: RefundItemAvgAggregateOutputType | null
+  _sum: RefundItemSumAggregateOutputType | null
+  _min: RefundItemMinAggregateOutputType | null
+  _max: RefundItemMaxAggregateOutputType | null
+}
+
+type GetRefundItemGroupByPayload<T extends RefundItemGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<RefundItemGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof RefundItemGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], RefundItemGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], RefundItemGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type RefundItemWhereInput = {
+  AND?: Prisma.RefundItemWhereInput | Prisma.RefundItemWhereInput[]
+  OR?: Prisma.RefundItemWhereInput[]
+  NOT?: Prisma.RefundItemWhereInput | Prisma.RefundItemWhereInput[]
+  id?: Prisma.StringFilter<"RefundItem"> | string
+  refundId?: Prisma.StringFilter<"RefundItem"> | string
+  orderItemId?: Prisma.StringFilter<"RefundItem"> | string
+  quantity?: Prisma.IntFilter<"RefundItem"> | number
+  amount?: Prisma.DecimalFilter<"RefundItem"> | runtime.Decimal | runtime.DecimalJsLike | number | string
+  refund?: Prisma.XOR<Prisma.RefundScalarRelationFilter, Prisma.RefundWhereInput>
+  orderItem?: Prisma.XOR<Prisma.OrderItemScalarRelationFilter, Prisma.OrderItemWhereInput>
+}
+
+export type RefundItemOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  refundId?: Prisma.SortOrder
+  orderItemId?: Prisma.SortOrder
+  quantity?: Prisma.SortOrder
+  amount?: Prisma.SortOrder
+  refund?: Prisma.RefundOrderByWithRelationInput
+  orderItem?: Prisma.OrderItemOrderByWithRelationInput
+}
+
+export type RefundItemWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  AND?: Prisma.RefundItemWhereInput | Prisma.RefundItemWhereInput[]
+  OR?: Prisma.RefundItemWhereInput[]
+  NOT?: Prisma.RefundItemWhereInput | Prisma.RefundItemWhereInput[]
+  refundId?: Prisma.StringFilter<"RefundItem"> | string
+  orderItemId?: Prisma.StringFilter<"RefundItem"> | string
+  quantity?: Prisma.IntFilter<"RefundItem"> | number
+  amount?: Prisma.DecimalFilter<"RefundItem"> | runtime.Decimal | runtime.DecimalJsLike | number | string
+  refund?: Prisma.XOR<Prisma.RefundScalarRelationFilter, Prisma.RefundWhereInput>
+  orderItem?: Prisma.XOR<Prisma.OrderItemScalarRelationFilter, Prisma.OrderItemWhereInput>
+}, "id">
+
+export type RefundItemOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  refundId?: Prisma.SortOrder
+  orderItemId?: Prisma.SortOrder
+  quantity?: Prisma.SortOrder
+  amount?: Prisma.SortOrder
+  _count?: Prisma.RefundItemCountOrderByAggregateInput
+  _avg?: Prisma.RefundItemAvgOrderByAggregateInput
+  _max?: Prisma.RefundItemMaxOrderByAggregateInput
+  _min?: Prisma.RefundItemMinOrderByAggregateInput
+  _sum?: Prisma.RefundItemSumOrderByAggregateInput
+}
+
+export type RefundItemScalarWhereWithAggregatesInput = {
+  AND?: Prisma.RefundItemScalarWhereWithAggregatesInput | Prisma.RefundItemScalarWhereWithAggregatesInput[]
+  OR?: Prisma.RefundItemScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.RefundItemScalarWhereWithAggregatesInput | Prisma.RefundItemScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"RefundItem"> | string
+  refundId?: Prisma.StringWithAggregatesFilter<"RefundItem"> | string
+  orderItemId?: Prisma.StringWithAggregatesFilter<"RefundItem"> | string
+  quantity?: Prisma.IntWithAggregatesFilter<"RefundItem"> | number
+  amount?: Prisma.DecimalWithAggregatesFilter<"RefundItem"> | runtime.Decimal | runtime.DecimalJsLike | number | string
+}
+
+export type RefundItemCreateInput = {
+  id?: string
+  quantity: number
+  amount: runtime.Decimal | runtime.DecimalJsLike | number | string
+  refund: Prisma.RefundCreateNestedOneWithoutItemsInput
+  orderItem: Prisma.OrderItemCreateNestedOneWithoutRefundItemsInput
+}
+
+export type RefundItemUncheckedCreateInput = {
+  id?: string
+  refundId: string
+  orderItemId: string
+  quantity: number
+  amount: runtime.Decimal | runtime.DecimalJsLike | number | string
+}
+
+export type RefundItemUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  amount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  refund?: Prisma.RefundUpdateOneRequiredWithoutItemsNestedInput
+  orderItem?: Prisma.OrderItemUpdateOneRequiredWithoutRefundItemsNestedInput
+}
+
+export type RefundItemUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  refundId?: Prisma.StringFieldUpdateOperationsInput | string
+  orderItemId?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  amount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+}
+
+export type RefundItemCreateManyInput = {
+  id?: string
+  refundId: string
+  orderItemId: string
+  quantity: number
+  amount: runtime.Decimal | runtime.DecimalJsLike | number | string
+}
+
+export type RefundItemUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  amount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+}
+
+export type RefundItemUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  refundId?: Prisma.StringFieldUpdateOperationsInput | string
+  orderItemId?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  amount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+}
+
+export type RefundItemListRelationFilter = {
+  every?: Prisma.RefundItemWhereInput
+  some?: Prisma.RefundItemWhereInput
+  none?: Prisma.RefundItemWhereInput
+}
+
+export type RefundItemOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type RefundItemCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  refundId?: Prisma.SortOrder
+  orderItemId?: Prisma.SortOrder
+  quantity?: Prisma.SortOrder
+  amount?: Prisma.SortOrder
+}
+
+export type RefundItemAvgOrderByAggregateInput = {
+  quantity?: Prisma.SortOrder
+  amount?: Prisma.SortOrder
+}
+
+export type RefundItemMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  refundId?: Prisma.SortOrder
+  orderItemId?: Prisma.SortOrder
+  quantity?: Prisma.SortOrder
+  amount?: Prisma.SortOrder
+}
+
+export type RefundItemMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  refundId?: Prisma.SortOrder
+  orderItemId?: Prisma.SortOrder
+  quantity?: Prisma.SortOrder
+  amount?: Prisma.SortOrder
+}
+
+export type RefundItemSumOrderByAggregateInput = {
+  quantity?: Prisma.SortOrder
+  amount?: Prisma.SortOrder
+}
+
+export type RefundItemCreateNestedManyWithoutOrderItemInput = {
+  create?: Prisma.XOR<Prisma.RefundItemCreateWithoutOrderItemInput, Prisma.RefundItemUncheckedCreateWithoutOrderItemInput> | Prisma.RefundItemCreateWithoutOrderItemInput[] | Prisma.RefundItemUncheckedCreateWithoutOrderItemInput[]
+  connectOrCreate?: Prisma.RefundItemCreateOrConnectWithoutOrderItemInput | Prisma.RefundItemCreateOrConnectWithoutOrderItemInput[]
+  createMany?: Prisma.RefundItemCreateManyOrderItemInputEnvelope
+  connect?: Prisma.RefundItemWhereUniqueInput | Prisma.RefundItemWhereUniqueInput[]
+}
+
+export type RefundItemUncheckedCreateNestedManyWithoutOrderItemInput = {
+  create?: Prisma.XOR<Prisma.RefundItemCreateWithoutOrderItemInput, Prisma.RefundItemUncheckedCreateWithoutOrderItemInput> | Prisma.RefundItemCreateWithoutOrderItemInput[] | Prisma.RefundItemUncheckedCreateWithoutOrderItemInput[]
+  connectOrCreate?: Prisma.RefundItemCreateOrConnectWithoutOrderItemInput | Prisma.RefundItemCreateOrConnectWithoutOrderItemInput[]
+  createMany?: Prisma.RefundItemCreateManyOrderItemInputEnvelope
+  connect?: Prisma.RefundItemWhereUniqueInput | Prisma.RefundItemWhereUniqueInput[]
+}
+
+export type RefundItemUpdateManyWithoutOrderItemNestedInput = {
+  create?: Prisma.XOR<Prisma.RefundItemCreateWithoutOrderItemInput, Prisma.RefundItemUncheckedCreateWithoutOrderItemInput> | Prisma.RefundItemCreateWithoutOrderItemInput[] | Prisma.RefundItemUncheckedCreateWithoutOrderItemInput[]
+  connectOrCreate?: Prisma.RefundItemCreateOrConnectWithoutOrderItemInput | Prisma.RefundItemCreateOrConnectWithoutOrderItemInput[]
+  upsert?: Prisma.RefundItemUpsertWithWhereUniqueWithoutOrderItemInput | Prisma.RefundItemUpsertWithWhereUniqueWithoutOrderItemInput[]
+  createMany?: Prisma.RefundItemCreateManyOrderItemInputEnvelope
+  set?: Prisma.RefundItemWhereUniqueInput | Prisma.RefundItemWhereUniqueInput[]
+  disconnect?: Prisma.RefundItemWhereUniqueInput | Prisma.RefundItemWhereUniqueInput[]
+  delete?: Prisma.RefundItemWhereUniqueInput | Prisma.RefundItemWhereUniqueInput[]
+  connect?: Prisma.RefundItemWhereUniqueInput | Prisma.RefundItemWhereUniqueInput[]
+  update?: Prisma.RefundItemUpdateWithWhereUniqueWithoutOrderItemInput | Prisma.RefundItemUpdateWithWhereUniqueWithoutOrderItemInput[]
+  updateMany?: Prisma.RefundItemUpdateManyWithWhereWithoutOrderItemInput | Prisma.RefundItemUpdateManyWithWhereWithoutOrderItemInput[]
+  deleteMany?: Prisma.RefundItemScalarWhereInput | Prisma.RefundItemScalarWhereInput[]
+}
+
+export type RefundItemUncheckedUpdateManyWithoutOrderItemNestedInput = {
+  create?: Prisma.XOR<Prisma.RefundItemCreateWithoutOrderItemInput, Prisma.RefundItemUncheckedCreateWithoutOrderItemInput> | Prisma.RefundItemCreateWithoutOrderItemInput[] | Prisma.RefundItemUncheckedCreateWithoutOrderItemInput[]
+  connectOrCreate?: Prisma.RefundItemCreateOrConnectWithoutOrderItemInput | Prisma.RefundItemCreateOrConnectWithoutOrderItemInput[]
+  upsert?: Prisma.RefundItemUpsertWithWhereUniqueWithoutOrderItemInput | Prisma.RefundItemUpsertWithWhereUniqueWithoutOrderItemInput[]
+  createMany?: Prisma.RefundItemCreateManyOrderItemInputEnvelope
+  set?: Prisma.RefundItemWhereUniqueInput | Prisma.RefundItemWhereUniqueInput[]
+  disconnect?: Prisma.RefundItemWhereUniqueInput | Prisma.RefundItemWhereUniqueInput[]
+  delete?: Prisma.RefundItemWhereUniqueInput | Prisma.RefundItemWhereUniqueInput[]
+  connect?: Prisma.RefundItemWhereUniqueInput | Prisma.RefundItemWhereUniqueInput[]
+  update?: Prisma.RefundItemUpdateWithWhereUniqueWithoutOrderItemInput | Prisma.RefundItemUpdateWithWhereUniqueWithoutOrderItemInput[]
+  updateMany?: Prisma.RefundItemUpdateManyWithWhereWithoutOrderItemInput | Prisma.RefundItemUpdateManyWithWhereWithoutOrderItemInput[]
+  deleteMany?: Prisma.RefundItemScalarWhereInput | Prisma.RefundItemScalarWhereInput[]
+}
+
+export type RefundItemCreateNestedManyWithoutRefundInput = {
+  create?: Prisma.XOR<Prisma.RefundItemCreateWithoutRefundInput, Prisma.RefundItemUncheckedCreateWithoutRefundInput> | Prisma.RefundItemCreateWithoutRefundInput[] | Prisma.RefundItemUncheckedCreateWithoutRefundInput[]
+  connectOrCreate?: Prisma.RefundItemCreateOrConnectWithoutRefundInput | Prisma.RefundItemCreateOrConnectWithoutRefundInput[]
+  createMany?: Prisma.RefundItemCreateManyRefundInputEnvelope
+  connect?: Prisma.RefundItemWhereUniqueInput | Prisma.RefundItemWhereUniqueInput[]
+}
+
+export type RefundItemUncheckedCreateNestedManyWithoutRefundInput = {
+  create?: Prisma.XOR<Prisma.RefundItemCreateWithoutRefundInput, Prisma.RefundItemUncheckedCreateWithoutRefundInput> | Prisma.RefundItemCreateWithoutRefundInput[] | Prisma.RefundItemUncheckedCreateWithoutRefundInput[]
+  connectOrCreate?: Prisma.RefundItemCreateOrConnectWithoutRefundInput | Prisma.RefundItemCreateOrConnectWithoutRefundInput[]
+  createMany?: Prisma.RefundItemCreateManyRefundInputEnvelope
+  connect?: Prisma.RefundItemWhereUniqueInput | Prisma.RefundItemWhereUniqueInput[]
+}
+
+export type RefundItemUpdateManyWithoutRefundNestedInput = {
+  create?: Prisma.XOR<Prisma.RefundItemCreateWithoutRefundInput, Prisma.RefundItemUncheckedCreateWithoutRefundInput> | Prisma.RefundItemCreateWithoutRefundInput[] | Prisma.RefundItemUncheckedCreateWithoutRefundInput[]
+  connectOrCreate?: Prisma.RefundItemCreateOrConnectWithoutRefundInput | Prisma.RefundItemCreateOrConnectWithoutRefundInput[]
+  upsert?: Prisma.RefundItemUpsertWithWhereUniqueWithoutRefundInput | Prisma.RefundItemUpsertWithWhereUniqueWithoutRefundInput[]
+  createMany?: Prisma.RefundItemCreateManyRefundInputEnvelope
+  set?: Prisma.RefundItemWhereUniqueInput | Prisma.RefundItemWhereUniqueInput[]
+  disconnect?: Prisma.RefundItemWhereUniqueInput | Prisma.RefundItemWhereUniqueInput[]
+  delete?: Prisma.RefundItemWhereUniqueInput | Prisma.RefundItemWhereUniqueInput[]
+  connect?: Prisma.RefundItemWhereUniqueInput | Prisma.RefundItemWhereUniqueInput[]
+  update?: Prisma.RefundItemUpdateWithWhereUniqueWithoutRefundInput | Prisma.RefundItemUpdateWithWhereUniqueWithoutRefundInput[]
+  updateMany?: Prisma.RefundItemUpdateManyWithWhereWithoutRefundInput | Prisma.RefundItemUpdateManyWithWhereWithoutRefundInput[]
+  deleteMany?: Prisma.RefundItemScalarWhereInput | Prisma.RefundItemScalarWhereInput[]
+}
+
+export type RefundItemUncheckedUpdateManyWithoutRefundNestedInput = {
+  create?: Prisma.XOR<Prisma.RefundItemCreateWithoutRefundInput, Prisma.RefundItemUncheckedCreateWithoutRefundInput> | Prisma.RefundItemCreateWithoutRefundInput[] | Prisma.RefundItemUncheckedCreateWithoutRefundInput[]
+  connectOrCreate?: Prisma.RefundItemCreateOrConnectWithoutRefundInput | Prisma.RefundItemCreateOrConnectWithoutRefundInput[]
+  upsert?: Prisma.RefundItemUpsertWithWhereUniqueWithoutRefundInput | Prisma.RefundItemUpsertWithWhereUniqueWithoutRefundInput[]
+  createMany?: Prisma.RefundItemCreateManyRefundInputEnvelope
+  set?: Prisma.RefundItemWhereUniqueInput | Prisma.RefundItemWhereUniqueInput[]
+  disconnect?: Prisma.RefundItemWhereUniqueInput | Prisma.RefundItemWhereUniqueInput[]
+  delete?: Prisma.RefundItemWhereUniqueInput | Prisma.RefundItemWhereUniqueInput[]
+  connect?: Prisma.RefundItemWhereUniqueInput | Prisma.RefundItemWhereUniqueInput[]
+  update?: Prisma.RefundItemUpdateWithWhereUniqueWithoutRefundInput | Prisma.RefundItemUpdateWithWhereUniqueWithoutRefundInput[]
+  updateMany?: Prisma.RefundItemUpdateManyWithWhereWithoutRefundInput | Prisma.RefundItemUpdateManyWithWhereWithoutRefundInput[]
+  deleteMany?: Prisma.RefundItemScalarWhereInput | Prisma.RefundItemScalarWhereInput[]
+}
+
+export type RefundItemCreateWithoutOrderItemInput = {
+  id?: string
+  quantity: number
+  amount: runtime.Decimal | runtime.DecimalJsLike | number | string
+  refund: Prisma.RefundCreateNestedOneWithoutItemsInput
+}
+
+export type RefundItemUncheckedCreateWithoutOrderItemInput = {
+  id?: string
+  refundId: string
+  quantity: number
+  amount: runtime.Decimal | runtime.DecimalJsLike | number | string
+}
+
+export type RefundItemCreateOrConnectWithoutOrderItemInput = {
+  where: Prisma.RefundItemWhereUniqueInput
+  create: Prisma.XOR<Prisma.RefundItemCreateWithoutOrderItemInput, Prisma.RefundItemUncheckedCreateWithoutOrderItemInput>
+}
+
+export type RefundItemCreateManyOrderItemInputEnvelope = {
+  data: Prisma.RefundItemCreateManyOrderItemInput | Prisma.RefundItemCreateManyOrderItemInput[]
+  skipDuplicates?: boolean
+}
+
+export type RefundItemUpsertWithWhereUniqueWithoutOrderItemInput = {
+  where: Prisma.RefundItemWhereUniqueInput
+  update: Prisma.XOR<Prisma.RefundItemUpdateWithoutOrderItemInput, Prisma.RefundItemUncheckedUpdateWithoutOrderItemInput>
+  create: Prisma.XOR<Prisma.RefundItemCreateWithoutOrderItemInput, Prisma.RefundItemUncheckedCreateWithoutOrderItemInput>
+}
+
+export type RefundItemUpdateWithWhereUniqueWithoutOrderItemInput = {
+  where: Prisma.RefundItemWhereUniqueInput
+  data: Prisma.XOR<Prisma.RefundItemUpdateWithoutOrderItemInput, Prisma.RefundItemUncheckedUpdateWithoutOrderItemInput>
+}
+
+export type RefundItemUpdateManyWithWhereWithoutOrderItemInput = {
+  where: Prisma.RefundItemScalarWhereInput
+  data: Prisma.XOR<Prisma.RefundItemUpdateManyMutationInput, Prisma.RefundItemUncheckedUpdateManyWithoutOrderItemInput>
+}
+
+export type RefundItemScalarWhereInput = {
+  AND?: Prisma.RefundItemScalarWhereInput | Prisma.RefundItemScalarWhereInput[]
+  OR?: Prisma.RefundItemScalarWhereInput[]
+  NOT?: Prisma.RefundItemScalarWhereInput | Prisma.RefundItemScalarWhereInput[]
+  id?: Prisma.StringFilter<"RefundItem"> | string
+  refundId?: Prisma.StringFilter<"RefundItem"> | string
+  orderItemId?: Prisma.StringFilter<"RefundItem"> | string
+  quantity?: Prisma.IntFilter<"RefundItem"> | number
+  amount?: Prisma.DecimalFilter<"RefundItem"> | runtime.Decimal | runtime.DecimalJsLike | number | string
+}
+
+export type RefundItemCreateWithoutRefundInput = {
+  id?: string
+  quantity: number
+  amount: runtime.Decimal | runtime.DecimalJsLike | number | string
+  orderItem: Prisma.OrderItemCreateNestedOneWithoutRefundItemsInput
+}
+
+export type RefundItemUncheckedCreateWithoutRefundInput = {
+  id?: string
+  orderItemId: string
+  quantity: number
+  amount: runtime.Decimal | runtime.DecimalJsLike | number | string
+}
+
+export type RefundItemCreateOrConnectWithoutRefundInput = {
+  where: Prisma.RefundItemWhereUniqueInput
+  create: Prisma.XOR<Prisma.RefundItemCreateWithoutRefundInput, Prisma.RefundItemUncheckedCreateWithoutRefundInput>
+}
+
+export type RefundItemCreateManyRefundInputEnvelope = {
+  data: Prisma.RefundItemCreateManyRefundInput | Prisma.RefundItemCreateManyRefundInput[]
+  skipDuplicates?: boolean
+}
+
+export type RefundItemUpsertWithWhereUniqueWithoutRefundInput = {
+  where: Prisma.RefundItemWhereUniqueInput
+  update: Prisma.XOR<Prisma.RefundItemUpdateWithoutRefundInput, Prisma.RefundItemUncheckedUpdateWithoutRefundInput>
+  create: Prisma.XOR<Prisma.RefundItemCreateWithoutRefundInput, Prisma.RefundItemUncheckedCreateWithoutRefundInput>
+}
+
+export type RefundItemUpdateWithWhereUniqueWithoutRefundInput = {
+  where: Prisma.RefundItemWhereUniqueInput
+  data: Prisma.XOR<Prisma.RefundItemUpdateWithoutRefundInput, Prisma.RefundItemUncheckedUpdateWithoutRefundInput>
+}
+
+export type RefundItemUpdateManyWithWhereWithoutRefundInput = {
+  where: Prisma.RefundItemScalarWhereInput
+  data: Prisma.XOR<Prisma.RefundItemUpdateManyMutationInput, Prisma.RefundItemUncheckedUpdateManyWithoutRefundInput>
+}
+
+export type RefundItemCreateManyOrderItemInput = {
+  id?: string
+  refundId: string
+  quantity: number
+  amount: runtime.Decimal | runtime.DecimalJsLike | number | string
+}
+
+export type RefundItemUpdateWithoutOrderItemInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  amount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  refund?: Prisma.RefundUpdateOneRequiredWithoutItemsNestedInput
+}
+
+export type RefundItemUncheckedUpdateWithoutOrderItemInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  refundId?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  amount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+}
+
+export type RefundItemUncheckedUpdateManyWithoutOrderItemInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  refundId?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  amount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+}
+
+export type RefundItemCreateManyRefundInput = {
+  id?: string
+  orderItemId: string
+  quantity: number
+  amount: runtime.Decimal | runtime.DecimalJsLike | number | string
+}
+
+export type RefundItemUpdateWithoutRefundInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  amount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  orderItem?: Prisma.OrderItemUpdateOneRequiredWithoutRefundItemsNestedInput
+}
+
+export type RefundItemUncheckedUpdateWithoutRefundInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  orderItemId?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  amount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+}
+
+export type RefundItemUncheckedUpdateManyWithoutRefundInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  orderItemId?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.IntFieldUpdateOperationsInput | number
+  amount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+}
+
+
+
+export type RefundItemSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  refundId?: boolean
+  orderItemId?: boolean
+  quantity?: boolean
+  amount?: boolean
+  refund?: boolean | Prisma.RefundDefaultArgs<ExtArgs>
+  orderItem?: boolean | Prisma.OrderItemDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["refundItem"]>
+
+export type RefundItemSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  refundId?: boolean
+  orderItemId?: boolean
+  quantity?: boolean
+  amount?: boolean
+  refund?: boolean | Prisma.RefundDefaultArgs<ExtArgs>
+  orderItem?: boolean | Prisma.OrderItemDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["refundItem"]>
+
+export type RefundItemSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  refundId?: boolean
+  orderItemId?: boolean
+  quantity?: boolean
+  amount?: boolean
+  refund?: boolean | Prisma.RefundDefaultArgs<ExtArgs>
+  orderItem?: boolean | Prisma.OrderItemDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["refundItem"]>
+
+export type RefundItemSelectScalar = {
+  id?: boolean
+  refundId?: boolean
+  orderItemId?: boolean
+  quantity?: boolean
+  amount?: boolean
+}
+
+export type RefundItemOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "refundId" | "orderItemId" | "quantity" | "amount", ExtArgs["result"]["refundItem"]>
+export type RefundItemInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  refund?: boolean | Prisma.RefundDefaultArgs<ExtArgs>
+  orderItem?: boolean | Prisma.OrderItemDefaultArgs<ExtArgs>
+}
+export type RefundItemIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  refund?: boolean | Prisma.RefundDefaultArgs<ExtArgs>
+  orderItem?: boolean | Prisma.OrderItemDefaultArgs<ExtArgs>
+}
+export type RefundItemIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  refund?: boolean | Prisma.RefundDefaultArgs<ExtArgs>
+  orderItem?: boolean | Prisma.OrderItemDefaultArgs<ExtArgs>
+}
+
+export type $RefundItemPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "RefundItem"
+  objects: {
+    refund: Prisma.$RefundPayload<ExtArgs>
+    orderItem: Prisma.$OrderItemPayload<ExtArgs>
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    refundId: string
+    orderItemId: string
+    quantity: number
+    amount: runtime.Decimal
+  }, ExtArgs["result"]["refundItem"]>
+  composites: {}
+}
+
+export type RefundItemGetPayload<S extends boolean | null | undefined | RefundItemDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$RefundItemPayload, S>
+
+export type RefundItemCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<RefundItemFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: RefundItemCountAggregateInputType | true
+  }
+
+export interface RefundItemDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['RefundItem'], meta: { name: 'RefundItem' } }
+  /**
+   * Find zero or one RefundItem that matches the filter.
+   * @param {RefundItemFindUniqueArgs} args - Arguments to find a RefundItem
+   * @example
+   * // Get one RefundItem
+   * const refundItem = await prisma.refundItem.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends RefundItemFindUniqueArgs>(args: Prisma.SelectSubset<T, RefundItemFindUniqueArgs<ExtArgs>>): Prisma.Prisma__RefundItemClient<runtime.Types.Result.GetResult<Prisma.$RefundItemPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one RefundItem that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {RefundItemFindUniqueOrThrowArgs} args - Arguments to find a RefundItem
+   * @example
+   * // Get one RefundItem
+   * const refundItem = await prisma.refundItem.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends RefundItemFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, RefundItemFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__RefundItemClient<runtime.Types.Result.GetResult<Prisma.$RefundItemPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first RefundItem that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {RefundItemFindFirstArgs} args - Arguments to find a RefundItem
+   * @example
+   * // Get one RefundItem
+   * const refundItem = await prisma.refundItem.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends RefundItemFindFirstArgs>(args?: Prisma.SelectSubset<T, RefundItemFindFirstArgs<ExtArgs>>): Prisma.Prisma__RefundItemClient<runtime.Types.Result.GetResult<Prisma.$RefundItemPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first RefundItem that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {RefundItemFindFirstOrThrowArgs} args - Arguments to find a RefundItem
+   * @example
+   * // Get one RefundItem
+   * const refundItem = await prisma.refundItem.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends RefundItemFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, RefundItemFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__RefundItemClient<runtime.Types.Result.GetResult<Prisma.$RefundItemPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more RefundItems that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {RefundItemFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all RefundItems
+   * const refundItems = await prisma.refundItem.findMany()
+   * 
+   * // Get first 10 RefundItems
+   * const refundItems = await prisma.refundItem.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const refundItemWithIdOnly = await prisma.refundItem.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends RefundItemFindManyArgs>(args?: Prisma.SelectSubset<T, RefundItemFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$RefundItemPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a RefundItem.
+   * @param {RefundItemCreateArgs} args - Arguments to create a RefundItem.
+   * @example
+   * // Create one RefundItem
+   * const RefundItem = await prisma.refundItem.create({
+   *   data: {
+   *     // ... data to create a RefundItem
+   *   }
+   * })
+   * 
+   */
+  create<T extends RefundItemCreateArgs>(args: Prisma.SelectSubset<T, RefundItemCreateArgs<ExtArgs>>): Prisma.Prisma__RefundItemClient<runtime.Types.Result.GetResult<Prisma.$RefundItemPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many RefundItems.
+   * @param {RefundItemCreateManyArgs} args - Arguments to create many RefundItems.
+   * @example
+   * // Create many RefundItems
+   * const refundItem = await prisma.refundItem.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends RefundItemCreateManyArgs>(args?: Prisma.SelectSubset<T, RefundItemCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many RefundItems and returns the data saved in the database.
+   * @param {RefundItemCreateManyAndReturnArgs} args - Arguments to create many RefundItems.
+   * @example
+   * // Create many RefundItems
+   * const refundItem = await prisma.refundItem.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many RefundItems and only return the `id`
+   * const refundItemWithIdOnly = await prisma.refundItem.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends RefundItemCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, RefundItemCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$RefundItemPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a RefundItem.
+   * @param {RefundItemDeleteArgs} args - Arguments to delete one RefundItem.
+   * @example
+   * // Delete one RefundItem
+   * const RefundItem = await prisma.refundItem.delete({
+   *   where: {
+   *     // ... filter to delete one RefundItem
+   *   }
+   * })
+   * 
+   */
+  delete<T extends RefundItemDeleteArgs>(args: Prisma.SelectSubset<T, RefundItemDeleteArgs<ExtArgs>>): Prisma.Prisma__RefundItemClient<runtime.Types.Result.GetResult<Prisma.$RefundItemPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one RefundItem.
+   * @param {RefundItemUpdateArgs} args - Arguments to update one RefundItem.
+   * @example
+   * // Update one RefundItem
+   * const refundItem = await prisma.refundItem.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends RefundItemUpdateArgs>(args: Prisma.SelectSubset<T, RefundItemUpdateArgs<ExtArgs>>): Prisma.Prisma__RefundItemClient<runtime.Types.Result.GetResult<Prisma.$RefundItemPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more RefundItems.
+   * @param {RefundItemDeleteManyArgs} args - Arguments to filter RefundItems to delete.
+   * @example
+   * // Delete a few RefundItems
+   * const { count } = await prisma.refundItem.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends RefundItemDeleteManyArgs>(args?: Prisma.SelectSubset<T, RefundItemDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more RefundItems.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {RefundItemUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many RefundItems
+   * const refundItem = await prisma.refundItem.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends RefundItemUpdateManyArgs>(args: Prisma.SelectSubset<T, RefundItemUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more RefundItems and returns the data updated in the database.
+   * @param {RefundItemUpdateManyAndReturnArgs} args - Arguments to update many RefundItems.
+   * @example
+   * // Update many RefundItems
+   * const refundItem = await prisma.refundItem.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more RefundItems and only return the `id`
+   * const refundItemWithIdOnly = await prisma.refundItem.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends RefundItemUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, RefundItemUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$RefundItemPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one RefundItem.
+   * @param {RefundItemUpsertArgs} args - Arguments to update or create a RefundItem.
+   * @example
+   * // Update or create a RefundItem
+   * const refundItem = await prisma.refundItem.upsert({
+   *   create: {
+   *     // ... data to create a RefundItem
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the RefundItem we want to update
+   *   }
+   * })
+   */
+  upsert<T extends RefundItemUpsertArgs>(args: Prisma.SelectSubset<T, RefundItemUpsertArgs<ExtArgs>>): Prisma.Prisma__RefundItemClient<runtime.Types.Result.GetResult<Prisma.$RefundItemPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of RefundItems.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {RefundItemCountArgs} args - Arguments to filter RefundItems to count.
+   * @example
+   * // Count the number of RefundItems
+   * const count = await prisma.refundItem.count({
+   *   where: {
+   *     // ... the filter for the RefundItems we want to count
+   *   }
+   * })
+  **/
+  count<T extends RefundItemCountArgs>(
+    args?: Prisma.Subset<T, RefundItemCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], RefundItemCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a RefundItem.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {RefundItemAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends RefundItemAggregateArgs>(args: Prisma.Subset<T, RefundItemAggregateArgs>): Prisma.PrismaPromise<GetRefundItemAggregateType<T>>
+
+  /**
+   * Group by RefundItem.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {RefundItemGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends RefundItemGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: RefundItemGroupByArgs['orderBy'] }
+      : { orderBy?: RefundItemGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, RefundItemGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetRefundItemGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the RefundItem model
+ */
+readonly fields: RefundItemFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for RefundItem.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__RefundItemClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  refund<T extends Prisma.RefundDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.RefundDefaultArgs<ExtArgs>>): Prisma.Prisma__RefundClient<runtime.Types.Result.GetResult<Prisma.$RefundPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  orderItem<T extends Prisma.OrderItemDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.OrderItemDefaultArgs<ExtArgs>>): Prisma.Prisma__OrderItemClient<runtime.Types.Result.GetResult<Prisma.$OrderItemPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the RefundItem model
+ */
+export interface RefundItemFieldRefs {
+  readonly id: Prisma.FieldRef<"RefundItem", 'String'>
+  readonly refundId: Prisma.FieldRef<"RefundItem", 'String'>
+  readonly orderItemId: Prisma.FieldRef<"RefundItem", 'String'>
+  readonly quantity: Prisma.FieldRef<"RefundItem", 'Int'>
+  readonly amount: Prisma.FieldRef<"RefundItem", 'Decimal'>
+}
+    
+
+// Custom InputTypes
+/**
+ * RefundItem findUnique
+ */
+export type RefundItemFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RefundItem
+   */
+  select?: Prisma.RefundItemSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the RefundItem
+   */
+  omit?: Prisma.RefundItemOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RefundItemInclude<ExtArgs> | null
+  /**
+   * Filter, which RefundItem to fetch.
+   */
+  where: Prisma.RefundItemWhereUniqueInput
+}
+
+/**
+ * RefundItem findUniqueOrThrow
+ */
+export type RefundItemFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RefundItem
+   */
+  select?: Prisma.RefundItemSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the RefundItem
+   */
+  omit?: Prisma.RefundItemOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RefundItemInclude<ExtArgs> | null
+  /**
+   * Filter, which RefundItem to fetch.
+   */
+  where: Prisma.RefundItemWhereUniqueInput
+}
+
+/**
+ * RefundItem findFirst
+ */
+export type RefundItemFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RefundItem
+   */
+  select?: Prisma.RefundItemSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the RefundItem
+   */
+  omit?: Prisma.RefundItemOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RefundItemInclude<ExtArgs> | null
+  /**
+   * Filter, which RefundItem to fetch.
+   */
+  where?: Prisma.RefundItemWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of RefundItems to fetch.
+   */
+  orderBy?: Prisma.RefundItemOrderByWithRelationInput | Prisma.RefundItemOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for RefundItems.
+   */
+  cursor?: Prisma.RefundItemWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` RefundItems from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` RefundItems.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of RefundItems.
+   */
+  distinct?: Prisma.RefundItemScalarFieldEnum | Prisma.RefundItemScalarFieldEnum[]
+}
+
+/**
+ * RefundItem findFirstOrThrow
+ */
+export type RefundItemFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RefundItem
+   */
+  select?: Prisma.RefundItemSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the RefundItem
+   */
+  omit?: Prisma.RefundItemOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RefundItemInclude<ExtArgs> | null
+  /**
+   * Filter, which RefundItem to fetch.
+   */
+  where?: Prisma.RefundItemWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of RefundItems to fetch.
+   */
+  orderBy?: Prisma.RefundItemOrderByWithRelationInput | Prisma.RefundItemOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for RefundItems.
+   */
+  cursor?: Prisma.RefundItemWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` RefundItems from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` RefundItems.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of RefundItems.
+   */
+  distinct?: Prisma.RefundItemScalarFieldEnum | Prisma.RefundItemScalarFieldEnum[]
+}
+
+/**
+ * RefundItem findMany
+ */
+export type RefundItemFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RefundItem
+   */
+  select?: Prisma.RefundItemSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the RefundItem
+   */
+  omit?: Prisma.RefundItemOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RefundItemInclude<ExtArgs> | null
+  /**
+   * Filter, which RefundItems to fetch.
+   */
+  where?: Prisma.RefundItemWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of RefundItems to fetch.
+   */
+  orderBy?: Prisma.RefundItemOrderByWithRelationInput | Prisma.RefundItemOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing RefundItems.
+   */
+  cursor?: Prisma.RefundItemWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` RefundItems from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` RefundItems.
+   */
+  skip?: number
+  distinct?: Prisma.RefundItemScalarFieldEnum | Prisma.RefundItemScalarFieldEnum[]
+}
+
+/**
+ * RefundItem create
+ */
+export type RefundItemCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RefundItem
+   */
+  select?: Prisma.RefundItemSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the RefundItem
+   */
+  omit?: Prisma.RefundItemOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RefundItemInclude<ExtArgs> | null
+  /**
+   * The data needed to create a RefundItem.
+   */
+  data: Prisma.XOR<Prisma.RefundItemCreateInput, Prisma.RefundItemUncheckedCreateInput>
+}
+
+/**
+ * RefundItem createMany
+ */
+export type RefundItemCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many RefundItems.
+   */
+  data: Prisma.RefundItemCreateManyInput | Prisma.RefundItemCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * RefundItem createManyAndReturn
+ */
+export type RefundItemCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RefundItem
+   */
+  select?: Prisma.RefundItemSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the RefundItem
+   */
+  omit?: Prisma.RefundItemOmit<ExtArgs> | null
+  /**
+   * The data used to create many RefundItems.
+   */
+  data: Prisma.RefundItemCreateManyInput | Prisma.RefundItemCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RefundItemIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * RefundItem update
+ */
+export type RefundItemUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RefundItem
+   */
+  select?: Prisma.RefundItemSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the RefundItem
+   */
+  omit?: Prisma.RefundItemOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RefundItemInclude<ExtArgs> | null
+  /**
+   * The data needed to update a RefundItem.
+   */
+  data: Prisma.XOR<Prisma.RefundItemUpdateInput, Prisma.RefundItemUncheckedUpdateInput>
+  /**
+   * Choose, which RefundItem to update.
+   */
+  where: Prisma.RefundItemWhereUniqueInput
+}
+
+/**
+ * RefundItem updateMany
+ */
+export type RefundItemUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update RefundItems.
+   */
+  data: Prisma.XOR<Prisma.RefundItemUpdateManyMutationInput, Prisma.RefundItemUncheckedUpdateManyInput>
+  /**
+   * Filter which RefundItems to update
+   */
+  where?: Prisma.RefundItemWhereInput
+  /**
+   * Limit how many RefundItems to update.
+   */
+  limit?: number
+}
+
+/**
+ * RefundItem updateManyAndReturn
+ */
+export type RefundItemUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RefundItem
+   */
+  select?: Prisma.RefundItemSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the RefundItem
+   */
+  omit?: Prisma.RefundItemOmit<ExtArgs> | null
+  /**
+   * The data used to update RefundItems.
+   */
+  data: Prisma.XOR<Prisma.RefundItemUpdateManyMutationInput, Prisma.RefundItemUncheckedUpdateManyInput>
+  /**
+   * Filter which RefundItems to update
+   */
+  where?: Prisma.RefundItemWhereInput
+  /**
+   * Limit how many RefundItems to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RefundItemIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * RefundItem upsert
+ */
+export type RefundItemUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RefundItem
+   */
+  select?: Prisma.RefundItemSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the RefundItem
+   */
+  omit?: Prisma.RefundItemOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RefundItemInclude<ExtArgs> | null
+  /**
+   * The filter to search for the RefundItem to update in case it exists.
+   */
+  where: Prisma.RefundItemWhereUniqueInput
+  /**
+   * In case the RefundItem found by the `where` argument doesn't exist, create a new RefundItem with this data.
+   */
+  create: Prisma.XOR<Prisma.RefundItemCreateInput, Prisma.RefundItemUncheckedCreateInput>
+  /**
+   * In case the RefundItem was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.RefundItemUpdateInput, Prisma.RefundItemUncheckedUpdateInput>
+}
+
+/**
+ * RefundItem delete
+ */
+export type RefundItemDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RefundItem
+   */
+  select?: Prisma.RefundItemSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the RefundItem
+   */
+  omit?: Prisma.RefundItemOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RefundItemInclude<ExtArgs> | null
+  /**
+   * Filter which RefundItem to delete.
+   */
+  where: Prisma.RefundItemWhereUniqueInput
+}
+
+/**
+ * RefundItem deleteMany
+ */
+export type RefundItemDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which RefundItems to delete
+   */
+  where?: Prisma.RefundItemWhereInput
+  /**
+   * Limit how many RefundItems to delete.
+   */
+  limit?: number
+}
+
+/**
+ * RefundItem without action
+ */
+export type RefundItemDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RefundItem
+   */
+  select?: Prisma.RefundItemSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the RefundItem
+   */
+  omit?: Prisma.RefundItemOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RefundItemInclude<ExtArgs> | null
+}
@@ -0,0 +1,1384 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `ReviewImage` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums.js"
+import type * as Prisma from "../internal/prismaNamespace.js"
+
+/**
+ * Model ReviewImage
+ * 
+ */
+export type ReviewImageModel = runtime.Types.Result.DefaultSelection<Prisma.$ReviewImagePayload>
+
+export type AggregateReviewImage = {
+  _count: ReviewImageCountAggregateOutputType | null
+  _avg: ReviewImageAvgAggregateOutputType | null
+  _sum: ReviewImageSumAggregateOutputType | null
+  _min: ReviewImageMinAggregateOutputType | null
+  _max: ReviewImageMaxAggregateOutputType | null
+}
+
+export type ReviewImageAvgAggregateOutputType = {
+  order: number | null
+}
+
+export type ReviewImageSumAggregateOutputType = {
+  order: number | null
+}
+
+export type ReviewImageMinAggregateOutputType = {
+  id: string | null
+  reviewId: string | null
+  url: string | null
+  order: number | null
+  createdAt: Date | null
+}
+
+export type ReviewImageMaxAggregateOutputType = {
+  id: string | null
+  reviewId: string | null
+  url: string | null
+  order: number | null
+  createdAt: Date | null
+}
+
+export type ReviewImageCountAggregateOutputType = {
+  id: number
+  reviewId: number
+  url: number
+  order: number
+  createdAt: number
+  _all: number
+}
+
+
+export type ReviewImageAvgAggregateInputType = {
+  order?: true
+}
+
+export type ReviewImageSumAggregateInputType = {
+  order?: true
+}
+
+export type ReviewImageMinAggregateInputType = {
+  id?: true
+  reviewId?: true
+  url?: true
+  order?: true
+  createdAt?: true
+}
+
+export type ReviewImageMaxAggregateInputType = {
+  id?: true
+  reviewId?: true
+  url?: true
+  order?: true
+  createdAt?: true
+}
+
+export type ReviewImageCountAggregateInputType = {
+  id?: true
+  reviewId?: true
+  url?: true
+  order?: true
+  createdAt?: true
+  _all?: true
+}
+
+export type ReviewImageAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which ReviewImage to aggregate.
+   */
+  where?: Prisma.ReviewImageWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ReviewImages to fetch.
+   */
+  orderBy?: Prisma.ReviewImageOrderByWithRelationInput | Prisma.ReviewImageOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.ReviewImageWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ReviewImages from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ReviewImages.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned ReviewImages
+  **/
+  _count?: true | ReviewImageCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: ReviewImageAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: ReviewImageSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: ReviewImageMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: ReviewImageMaxAggregateInputType
+}
+
+export type GetReviewImageAggregateType<T extends ReviewImageAggregateArgs> = {
+      [P in keyof T & keyof AggregateReviewImage]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateReviewImage[P]>
+    : Prisma.GetScalarType<T[P], AggregateReviewImage[P]>
+}
+
+
+
+
+export type ReviewImageGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ReviewImageWhereInput
+  orderBy?: Prisma.ReviewImageOrderByWithAggregationInput | Prisma.ReviewImageOrderByWithAggregationInput[]
+  by: Prisma.ReviewImageScalarFieldEnum[] | Prisma.ReviewImageScalarFieldEnum
+  having?: Prisma.ReviewImageScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: ReviewImageCountAggregateInputType | true
+  _avg?: ReviewImageAvgAggregateInputType
+  _sum?: ReviewImageSumAggregateInputType
+  _min?: ReviewImageMinAggregateInputType
+  _max?: ReviewImageMaxAggregateInputType
+}
+
+export type ReviewImageGroupByOutputType = {
+  id: string
+  reviewId: string
+  url: string
+  order: number
+  createdAt: Date
+  _count: ReviewImageCountAggregateOutputType | null
+  _avg: ReviewImageAvgAggregateOutputType | null
+  _sum: ReviewImageSumAggregateOutputType | null
+  _min: ReviewImageMinAggregateOutputType | null
+  _max: ReviewImageMaxAggregateOutputType | null
+}
+
+type GetReviewImageGroupByPayload<T extends ReviewImageGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<ReviewImageGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof ReviewImageGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], ReviewImageGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], ReviewImageGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type ReviewImageWhereInput = {
+  AND?: Prisma.ReviewImageWhereInput | Prisma.ReviewImageWhereInput[]
+  OR?: Prisma.ReviewImageWhereInput[]
+  NOT?: Prisma.ReviewImageWhereInput | Prisma.ReviewImageWhereInput[]
+  id?: Prisma.StringFilter<"ReviewImage"> | string
+  reviewId?: Prisma.StringFilter<"ReviewImage"> | string
+  url?: Prisma.StringFilter<"ReviewImage"> | string
+  order?: Prisma.IntFilter<"ReviewImage"> | number
+  createdAt?: Prisma.DateTimeFilter<"ReviewImage"> | Date | string
+  review?: Prisma.XOR<Prisma.ReviewScalarRelationFilter, Prisma.ReviewWhereInput>
+}
+
+export type ReviewImageOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  reviewId?: Prisma.SortOrder
+  url?: Prisma.SortOrder
+  order?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  review?: Prisma.ReviewOrderByWithRelationInput
+}
+
+export type ReviewImageWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  AND?: Prisma.ReviewImageWhereInput | Prisma.ReviewImageWhereInput[]
+  OR?: Prisma.ReviewImageWhereInput[]
+  NOT?: Prisma.ReviewImageWhereInput | Prisma.ReviewImageWhereInput[]
+  reviewId?: Prisma.StringFilter<"ReviewImage"> | string
+  url?: Prisma.StringFilter<"ReviewImage"> | string
+  order?: Prisma.IntFilter<"ReviewImage"> | number
+  createdAt?: Prisma.DateTimeFilter<"ReviewImage"> | Date | string
+  review?: Prisma.XOR<Prisma.ReviewScalarRelationFilter, Prisma.ReviewWhereInput>
+}, "id">
+
+export type ReviewImageOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  reviewId?: Prisma.SortOrder
+  url?: Prisma.SortOrder
+  order?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  _count?: Prisma.ReviewImageCountOrderByAggregateInput
+  _avg?: Prisma.ReviewImageAvgOrderByAggregateInput
+  _max?: Prisma.ReviewImageMaxOrderByAggregateInput
+  _min?: Prisma.ReviewImageMinOrderByAggregateInput
+  _sum?: Prisma.ReviewImageSumOrderByAggregateInput
+}
+
+export type ReviewImageScalarWhereWithAggregatesInput = {
+  AND?: Prisma.ReviewImageScalarWhereWithAggregatesInput | Prisma.ReviewImageScalarWhereWithAggregatesInput[]
+  OR?: Prisma.ReviewImageScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.ReviewImageScalarWhereWithAggregatesInput | Prisma.ReviewImageScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"ReviewImage"> | string
+  reviewId?: Prisma.StringWithAggregatesFilter<"ReviewImage"> | string
+  url?: Prisma.StringWithAggregatesFilter<"ReviewImage"> | string
+  order?: Prisma.IntWithAggregatesFilter<"ReviewImage"> | number
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"ReviewImage"> | Date | string
+}
+
+export type ReviewImageCreateInput = {
+  id?: string
+  url: string
+  order?: number
+  createdAt?: Date | string
+  review: Prisma.ReviewCreateNestedOneWithoutImagesInput
+}
+
+export type ReviewImageUncheckedCreateInput = {
+  id?: string
+  reviewId: string
+  url: string
+  order?: number
+  createdAt?: Date | string
+}
+
+export type ReviewImageUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  url?: Prisma.StringFieldUpdateOperationsInput | string
+  order?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  review?: Prisma.ReviewUpdateOneRequiredWithoutImagesNestedInput
+}
+
+export type ReviewImageUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  reviewId?: Prisma.StringFieldUpdateOperationsInput | string
+  url?: Prisma.StringFieldUpdateOperationsInput | string
+  order?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ReviewImageCreateManyInput = {
+  id?: string
+  reviewId: string
+  url: string
+  order?: number
+  createdAt?: Date | string
+}
+
+export type ReviewImageUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  url?: Prisma.StringFieldUpdateOperationsInput | string
+  order?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ReviewImageUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  reviewId?: Prisma.StringFieldUpdateOperationsInput | string
+  url?: Prisma.StringFieldUpdateOperationsInput | string
+  order?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ReviewImageListRelationFilter = {
+  every?: Prisma.ReviewImageWhereInput
+  some?: Prisma.ReviewImageWhereInput
+  none?: Prisma.ReviewImageWhereInput
+}
+
+export type ReviewImageOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type ReviewImageCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  reviewId?: Prisma.SortOrder
+  url?: Prisma.SortOrder
+  order?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type ReviewImageAvgOrderByAggregateInput = {
+  order?: Prisma.SortOrder
+}
+
+export type ReviewImageMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  reviewId?: Prisma.SortOrder
+  url?: Prisma.SortOrder
+  order?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type ReviewImageMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  reviewId?: Prisma.SortOrder
+  url?: Prisma.SortOrder
+  order?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type ReviewImageSumOrderByAggregateInput = {
+  order?: Prisma.SortOrder
+}
+
+export type ReviewImageCreateNestedManyWithoutReviewInput = {
+  create?: Prisma.XOR<Prisma.ReviewImageCreateWithoutReviewInput, Prisma.ReviewImageUncheckedCreateWithoutReviewInput> | Prisma.ReviewImageCreateWithoutReviewInput[] | Prisma.ReviewImageUncheckedCreateWithoutReviewInput[]
+  connectOrCreate?: Prisma.ReviewImageCreateOrConnectWithoutReviewInput | Prisma.ReviewImageCreateOrConnectWithoutReviewInput[]
+  createMany?: Prisma.ReviewImageCreateManyReviewInputEnvelope
+  connect?: Prisma.ReviewImageWhereUniqueInput | Prisma.ReviewImageWhereUniqueInput[]
+}
+
+export type ReviewImageUncheckedCreateNestedManyWithoutReviewInput = {
+  create?: Prisma.XOR<Prisma.ReviewImageCreateWithoutReviewInput, Prisma.ReviewImageUncheckedCreateWithoutReviewInput> | Prisma.ReviewImageCreateWithoutReviewInput[] | Prisma.ReviewImageUncheckedCreateWithoutReviewInput[]
+  connectOrCreate?: Prisma.ReviewImageCreateOrConnectWithoutReviewInput | Prisma.ReviewImageCreateOrConnectWithoutReviewInput[]
+  createMany?: Prisma.ReviewImageCreateManyReviewInputEnvelope
+  connect?: Prisma.ReviewImageWhereUniqueInput | Prisma.ReviewImageWhereUniqueInput[]
+}
+
+export type ReviewImageUpdateManyWithoutReviewNestedInput = {
+  create?: Prisma.XOR<Prisma.ReviewImageCreateWithoutReviewInput, Prisma.ReviewImageUncheckedCreateWithoutReviewInput> | Prisma.ReviewImageCreateWithoutReviewInput[] | Prisma.ReviewImageUncheckedCreateWithoutReviewInput[]
+  connectOrCreate?: Prisma.ReviewImageCreateOrConnectWithoutReviewInput | Prisma.ReviewImageCreateOrConnectWithoutReviewInput[]
+  upsert?: Prisma.ReviewImageUpsertWithWhereUniqueWithoutReviewInput | Prisma.ReviewImageUpsertWithWhereUniqueWithoutReviewInput[]
+  createMany?: Prisma.ReviewImageCreateManyReviewInputEnvelope
+  set?: Prisma.ReviewImageWhereUniqueInput | Prisma.ReviewImageWhereUniqueInput[]
+  disconnect?: Prisma.ReviewImageWhereUniqueInput | Prisma.ReviewImageWhereUniqueInput[]
+  delete?: Prisma.ReviewImageWhereUniqueInput | Prisma.ReviewImageWhereUniqueInput[]
+  connect?: Prisma.ReviewImageWhereUniqueInput | Prisma.ReviewImageWhereUniqueInput[]
+  update?: Prisma.ReviewImageUpdateWithWhereUniqueWithoutReviewInput | Prisma.ReviewImageUpdateWithWhereUniqueWithoutReviewInput[]
+  updateMany?: Prisma.ReviewImageUpdateManyWithWhereWithoutReviewInput | Prisma.ReviewImageUpdateManyWithWhereWithoutReviewInput[]
+  deleteMany?: Prisma.ReviewImageScalarWhereInput | Prisma.ReviewImageScalarWhereInput[]
+}
+
+export type ReviewImageUncheckedUpdateManyWithoutReviewNestedInput = {
+  create?: Prisma.XOR<Prisma.ReviewImageCreateWithoutReviewInput, Prisma.ReviewImageUncheckedCreateWithoutReviewInput> | Prisma.ReviewImageCreateWithoutReviewInput[] | Prisma.ReviewImageUncheckedCreateWithoutReviewInput[]
+  connectOrCreate?: Prisma.ReviewImageCreateOrConnectWithoutReviewInput | Prisma.ReviewImageCreateOrConnectWithoutReviewInput[]
+  upsert?: Prisma.ReviewImageUpsertWithWhereUniqueWithoutReviewInput | Prisma.ReviewImageUpsertWithWhereUniqueWithoutReviewInput[]
+  createMany?: Prisma.ReviewImageCreateManyReviewInputEnvelope
+  set?: Prisma.ReviewImageWhereUniqueInput | Prisma.ReviewImageWhereUniqueInput[]
+  disconnect?: Prisma.ReviewImageWhereUniqueInput | Prisma.ReviewImageWhereUniqueInput[]
+  delete?: Prisma.ReviewImageWhereUniqueInput | Prisma.ReviewImageWhereUniqueInput[]
+  connect?: Prisma.ReviewImageWhereUniqueInput | Prisma.ReviewImageWhereUniqueInput[]
+  update?: Prisma.ReviewImageUpdateWithWhereUniqueWithoutReviewInput | Prisma.ReviewImageUpdateWithWhereUniqueWithoutReviewInput[]
+  updateMany?: Prisma.ReviewImageUpdateManyWithWhereWithoutReviewInput | Prisma.ReviewImageUpdateManyWithWhereWithoutReviewInput[]
+  deleteMany?: Prisma.ReviewImageScalarWhereInput | Prisma.ReviewImageScalarWhereInput[]
+}
+
+export type ReviewImageCreateWithoutReviewInput = {
+  id?: string
+  url: string
+  order?: number
+  createdAt?: Date | string
+}
+
+export type ReviewImageUncheckedCreateWithoutReviewInput = {
+  id?: string
+  url: string
+  order?: number
+  createdAt?: Date | string
+}
+
+export type ReviewImageCreateOrConnectWithoutReviewInput = {
+  where: Prisma.ReviewImageWhereUniqueInput
+  create: Prisma.XOR<Prisma.ReviewImageCreateWithoutReviewInput, Prisma.ReviewImageUncheckedCreateWithoutReviewInput>
+}
+
+export type ReviewImageCreateManyReviewInputEnvelope = {
+  data: Prisma.ReviewImageCreateManyReviewInput | Prisma.ReviewImageCreateManyReviewInput[]
+  skipDuplicates?: boolean
+}
+
+export type ReviewImageUpsertWithWhereUniqueWithoutReviewInput = {
+  where: Prisma.ReviewImageWhereUniqueInput
+  update: Prisma.XOR<Prisma.ReviewImageUpdateWithoutReviewInput, Prisma.ReviewImageUncheckedUpdateWithoutReviewInput>
+  create: Prisma.XOR<Prisma.ReviewImageCreateWithoutReviewInput, Prisma.ReviewImageUncheckedCreateWithoutReviewInput>
+}
+
+export type ReviewImageUpdateWithWhereUniqueWithoutReviewInput = {
+  where: Prisma.ReviewImageWhereUniqueInput
+  data: Prisma.XOR<Prisma.ReviewImageUpdateWithoutReviewInput, Prisma.ReviewImageUncheckedUpdateWithoutReviewInput>
+}
+
+export type ReviewImageUpdateManyWithWhereWithoutReviewInput = {
+  where: Prisma.ReviewImageScalarWhereInput
+  data: Prisma.XOR<Prisma.ReviewImageUpdateManyMutationInput, Prisma.ReviewImageUncheckedUpdateManyWithoutReviewInput>
+}
+
+export type ReviewImageScalarWhereInput = {
+  AND?: Prisma.ReviewImageScalarWhereInput | Prisma.ReviewImageScalarWhereInput[]
+  OR?: Prisma.ReviewImageScalarWhereInput[]
+  NOT?: Prisma.ReviewImageScalarWhereInput | Prisma.ReviewImageScalarWhereInput[]
+  id?: Prisma.StringFilter<"ReviewImage"> | string
+  reviewId?: Prisma.StringFilter<"ReviewImage"> | string
+  url?: Prisma.StringFilter<"ReviewImage"> | string
+  order?: Prisma.IntFilter<"ReviewImage"> | number
+  createdAt?: Prisma.DateTimeFilter<"ReviewImage"> | Date | string
+}
+
+export type ReviewImageCreateManyReviewInput = {
+  id?: string
+  url: string
+  order?: number
+  createdAt?: Date | string
+}
+
+export type ReviewImageUpdateWithoutReviewInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  url?: Prisma.StringFieldUpdateOperationsInput | string
+  order?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ReviewImageUncheckedUpdateWithoutReviewInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  url?: Prisma.StringFieldUpdateOperationsInput | string
+  order?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ReviewImageUncheckedUpdateManyWithoutReviewInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  url?: Prisma.StringFieldUpdateOperationsInput | string
+  order?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type ReviewImageSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  reviewId?: boolean
+  url?: boolean
+  order?: boolean
+  createdAt?: boolean
+  review?: boolean | Prisma.ReviewDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["reviewImage"]>
+
+export type ReviewImageSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  reviewId?: boolean
+  url?: boolean
+  order?: boolean
+  createdAt?: boolean
+  review?: boolean | Prisma.ReviewDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["reviewImage"]>
+
+export type ReviewImageSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  reviewId?: boolean
+  url?: boolean
+  order?: boolean
+  createdAt?: boolean
+  review?: boolean | Prisma.ReviewDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["reviewImage"]>
+
+export type ReviewImageSelectScalar = {
+  id?: boolean
+  reviewId?: boolean
+  url?: boolean
+  order?: boolean
+  createdAt?: boolean
+}
+
+export type ReviewImageOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "reviewId" | "url" | "order" | "createdAt", ExtArgs["result"]["reviewImage"]>
+export type ReviewImageInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  review?: boolean | Prisma.ReviewDefaultArgs<ExtArgs>
+}
+export type ReviewImageIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  review?: boolean | Prisma.ReviewDefaultArgs<ExtArgs>
+}
+export type ReviewImageIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  review?: boolean | Prisma.ReviewDefaultArgs<ExtArgs>
+}
+
+export type $ReviewImagePayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "ReviewImage"
+  objects: {
+    review: Prisma.$ReviewPayload<ExtArgs>
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    reviewId: string
+    url: string
+    order: number
+    createdAt: Date
+  }, ExtArgs["result"]["reviewImage"]>
+  composites: {}
+}
+
+export type ReviewImageGetPayload<S extends boolean | null | undefined | ReviewImageDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$ReviewImagePayload, S>
+
+export type ReviewImageCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<ReviewImageFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: ReviewImageCountAggregateInputType | true
+  }
+
+export interface ReviewImageDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['ReviewImage'], meta: { name: 'ReviewImage' } }
+  /**
+   * Find zero or one ReviewImage that matches the filter.
+   * @param {ReviewImageFindUniqueArgs} args - Arguments to find a ReviewImage
+   * @example
+   * // Get one ReviewImage
+   * const reviewImage = await prisma.reviewImage.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends ReviewImageFindUniqueArgs>(args: Prisma.SelectSubset<T, ReviewImageFindUniqueArgs<ExtArgs>>): Prisma.Prisma__ReviewImageClient<runtime.Types.Result.GetResult<Prisma.$ReviewImagePayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one ReviewImage that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {ReviewImageFindUniqueOrThrowArgs} args - Arguments to find a ReviewImage
+   * @example
+   * // Get one ReviewImage
+   * const reviewImage = await prisma.reviewImage.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends ReviewImageFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, ReviewImageFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__ReviewImageClient<runtime.Types.Result.GetResult<Prisma.$ReviewImagePayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first ReviewImage that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ReviewImageFindFirstArgs} args - Arguments to find a ReviewImage
+   * @example
+   * // Get one ReviewImage
+   * const reviewImage = await prisma.reviewImage.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends ReviewImageFindFirstArgs>(args?: Prisma.SelectSubset<T, ReviewImageFindFirstArgs<ExtArgs>>): Prisma.Prisma__ReviewImageClient<runtime.Types.Result.GetResult<Prisma.$ReviewImagePayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first ReviewImage that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ReviewImageFindFirstOrThrowArgs} args - Arguments to find a ReviewImage
+   * @example
+   * // Get one ReviewImage
+   * const reviewImage = await prisma.reviewImage.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends ReviewImageFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, ReviewImageFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__ReviewImageClient<runtime.Types.Result.GetResult<Prisma.$ReviewImagePayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more ReviewImages that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ReviewImageFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all ReviewImages
+   * const reviewImages = await prisma.reviewImage.findMany()
+   * 
+   * // Get first 10 ReviewImages
+   * const reviewImages = await prisma.reviewImage.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const reviewImageWithIdOnly = await prisma.reviewImage.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends ReviewImageFindManyArgs>(args?: Prisma.SelectSubset<T, ReviewImageFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ReviewImagePayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a ReviewImage.
+   * @param {ReviewImageCreateArgs} args - Arguments to create a ReviewImage.
+   * @example
+   * // Create one ReviewImage
+   * const ReviewImage = await prisma.reviewImage.create({
+   *   data: {
+   *     // ... data to create a ReviewImage
+   *   }
+   * })
+   * 
+   */
+  create<T extends ReviewImageCreateArgs>(args: Prisma.SelectSubset<T, ReviewImageCreateArgs<ExtArgs>>): Prisma.Prisma__ReviewImageClient<runtime.Types.Result.GetResult<Prisma.$ReviewImagePayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many ReviewImages.
+   * @param {ReviewImageCreateManyArgs} args - Arguments to create many ReviewImages.
+   * @example
+   * // Create many ReviewImages
+   * const reviewImage = await prisma.reviewImage.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends ReviewImageCreateManyArgs>(args?: Prisma.SelectSubset<T, ReviewImageCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many ReviewImages and returns the data saved in the database.
+   * @param {ReviewImageCreateManyAndReturnArgs} args - Arguments to create many ReviewImages.
+   * @example
+   * // Create many ReviewImages
+   * const reviewImage = await prisma.reviewImage.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many ReviewImages and only return the `id`
+   * const reviewImageWithIdOnly = await prisma.reviewImage.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends ReviewImageCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, ReviewImageCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ReviewImagePayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a ReviewImage.
+   * @param {ReviewImageDeleteArgs} args - Arguments to delete one ReviewImage.
+   * @example
+   * // Delete one ReviewImage
+   * const ReviewImage = await prisma.reviewImage.delete({
+   *   where: {
+   *     // ... filter to delete one ReviewImage
+   *   }
+   * })
+   * 
+   */
+  delete<T extends ReviewImageDeleteArgs>(args: Prisma.SelectSubset<T, ReviewImageDeleteArgs<ExtArgs>>): Prisma.Prisma__ReviewImageClient<runtime.Types.Result.GetResult<Prisma.$ReviewImagePayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one ReviewImage.
+   * @param {ReviewImageUpdateArgs} args - Arguments to update one ReviewImage.
+   * @example
+   * // Update one ReviewImage
+   * const reviewImage = await prisma.reviewImage.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends ReviewImageUpdateArgs>(args: Prisma.SelectSubset<T, ReviewImageUpdateArgs<ExtArgs>>): Prisma.Prisma__ReviewImageClient<runtime.Types.Result.GetResult<Prisma.$ReviewImagePayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more ReviewImages.
+   * @param {ReviewImageDeleteManyArgs} args - Arguments to filter ReviewImages to delete.
+   * @example
+   * // Delete a few ReviewImages
+   * const { count } = await prisma.reviewImage.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends ReviewImageDeleteManyArgs>(args?: Prisma.SelectSubset<T, ReviewImageDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more ReviewImages.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ReviewImageUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many ReviewImages
+   * const reviewImage = await prisma.reviewImage.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends ReviewImageUpdateManyArgs>(args: Prisma.SelectSubset<T, ReviewImageUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more ReviewImages and returns the data updated in the database.
+   * @param {ReviewImageUpdateManyAndReturnArgs} args - Arguments to update many ReviewImages.
+   * @example
+   * // Update many ReviewImages
+   * const reviewImage = await prisma.reviewImage.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more ReviewImages and only return the `id`
+   * const reviewImageWithIdOnly = await prisma.reviewImage.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends ReviewImageUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, ReviewImageUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ReviewImagePayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one ReviewImage.
+   * @param {ReviewImageUpsertArgs} args - Arguments to update or create a ReviewImage.
+   * @example
+   * // Update or create a ReviewImage
+   * const reviewImage = await prisma.reviewImage.upsert({
+   *   create: {
+   *     // ... data to create a ReviewImage
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the ReviewImage we want to update
+   *   }
+   * })
+   */
+  upsert<T extends ReviewImageUpsertArgs>(args: Prisma.SelectSubset<T, ReviewImageUpsertArgs<ExtArgs>>): Prisma.Prisma__ReviewImageClient<runtime.Types.Result.GetResult<Prisma.$ReviewImagePayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of ReviewImages.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ReviewImageCountArgs} args - Arguments to filter ReviewImages to count.
+   * @example
+   * // Count the number of ReviewImages
+   * const count = await prisma.reviewImage.count({
+   *   where: {
+   *     // ... the filter for the ReviewImages we want to count
+   *   }
+   * })
+  **/
+  count<T extends ReviewImageCountArgs>(
+    args?: Prisma.Subset<T, ReviewImageCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], ReviewImageCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a ReviewImage.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ReviewImageAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends ReviewImageAggregateArgs>(args: Prisma.Subset<T, ReviewImageAggregateArgs>): Prisma.PrismaPromise<GetReviewImageAggregateType<T>>
+
+  /**
+   * Group by ReviewImage.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ReviewImageGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends ReviewImageGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: ReviewImageGroupByArgs['orderBy'] }
+      : { orderBy?: ReviewImageGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, ReviewImageGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetReviewImageGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the ReviewImage model
+ */
+readonly fields: ReviewImageFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for ReviewImage.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__ReviewImageClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  review<T extends Prisma.ReviewDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ReviewDefaultArgs<ExtArgs>>): Prisma.Prisma__ReviewClient<runtime.Types.Result.GetResult<Prisma.$ReviewPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the ReviewImage model
+ */
+export interface ReviewImageFieldRefs {
+  readonly id: Prisma.FieldRef<"ReviewImage", 'String'>
+  readonly reviewId: Prisma.FieldRef<"ReviewImage", 'String'>
+  readonly url: Prisma.FieldRef<"ReviewImage", 'String'>
+  readonly order: Prisma.FieldRef<"ReviewImage", 'Int'>
+  readonly createdAt: Prisma.FieldRef<"ReviewImage", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * ReviewImage findUnique
+ */
+export type ReviewImageFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ReviewImage
+   */
+  select?: Prisma.ReviewImageSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ReviewImage
+   */
+  omit?: Prisma.ReviewImageOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ReviewImageInclude<ExtArgs> | null
+  /**
+   * Filter, which ReviewImage to fetch.
+   */
+  where: Prisma.ReviewImageWhereUniqueInput
+}
+
+/**
+ * ReviewImage findUniqueOrThrow
+ */
+export type ReviewImageFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ReviewImage
+   */
+  select?: Prisma.ReviewImageSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ReviewImage
+   */
+  omit?: Prisma.ReviewImageOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ReviewImageInclude<ExtArgs> | null
+  /**
+   * Filter, which ReviewImage to fetch.
+   */
+  where: Prisma.ReviewImageWhereUniqueInput
+}
+
+/**
+ * ReviewImage findFirst
+ */
+export type ReviewImageFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ReviewImage
+   */
+  select?: Prisma.ReviewImageSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ReviewImage
+   */
+  omit?: Prisma.ReviewImageOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ReviewImageInclude<ExtArgs> | null
+  /**
+   * Filter, which ReviewImage to fetch.
+   */
+  where?: Prisma.ReviewImageWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ReviewImages to fetch.
+   */
+  orderBy?: Prisma.ReviewImageOrderByWithRelationInput | Prisma.ReviewImageOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for ReviewImages.
+   */
+  cursor?: Prisma.ReviewImageWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ReviewImages from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ReviewImages.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of ReviewImages.
+   */
+  distinct?: Prisma.ReviewImageScalarFieldEnum | Prisma.ReviewImageScalarFieldEnum[]
+}
+
+/**
+ * ReviewImage findFirstOrThrow
+ */
+export type ReviewImageFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ReviewImage
+   */
+  select?: Prisma.ReviewImageSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ReviewImage
+   */
+  omit?: Prisma.ReviewImageOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ReviewImageInclude<ExtArgs> | null
+  /**
+   * Filter, which ReviewImage to fetch.
+   */
+  where?: Prisma.ReviewImageWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ReviewImages to fetch.
+   */
+  orderBy?: Prisma.ReviewImageOrderByWithRelationInput | Prisma.ReviewImageOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for ReviewImages.
+   */
+  cursor?: Prisma.ReviewImageWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ReviewImages from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ReviewImages.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of ReviewImages.
+   */
+  distinct?: Prisma.ReviewImageScalarFieldEnum | Prisma.ReviewImageScalarFieldEnum[]
+}
+
+/**
+ * ReviewImage findMany
+ */
+export type ReviewImageFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ReviewImage
+   */
+  select?: Prisma.ReviewImageSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ReviewImage
+   */
+  omit?: Prisma.ReviewImageOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ReviewImageInclude<ExtArgs> | null
+  /**
+   * Filter, which ReviewImages to fetch.
+   */
+  where?: Prisma.ReviewImageWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ReviewImages to fetch.
+   */
+  orderBy?: Prisma.ReviewImageOrderByWithRelationInput | Prisma.ReviewImageOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing ReviewImages.
+   */
+  cursor?: Prisma.ReviewImageWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ReviewImages from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ReviewImages.
+   */
+  skip?: number
+  distinct?: Prisma.ReviewImageScalarFieldEnum | Prisma.ReviewImageScalarFieldEnum[]
+}
+
+/**
+ * ReviewImage create
+ */
+export type ReviewImageCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ReviewImage
+   */
+  select?: Prisma.ReviewImageSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ReviewImage
+   */
+  omit?: Prisma.ReviewImageOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ReviewImageInclude<ExtArgs> | null
+  /**
+   * The data needed to create a ReviewImage.
+   */
+  data: Prisma.XOR<Prisma.ReviewImageCreateInput, Prisma.ReviewImageUncheckedCreateInput>
+}
+
+/**
+ * ReviewImage createMany
+ */
+export type ReviewImageCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many ReviewImages.
+   */
+  data: Prisma.ReviewImageCreateManyInput | Prisma.ReviewImageCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * ReviewImage createManyAndReturn
+ */
+export type ReviewImageCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ReviewImage
+   */
+  select?: Prisma.ReviewImageSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the ReviewImage
+   */
+  omit?: Prisma.ReviewImageOmit<ExtArgs> | null
+  /**
+   * The data used to create many ReviewImages.
+   */
+  data: Prisma.ReviewImageCreateManyInput | Prisma.ReviewImageCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ReviewImageIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * ReviewImage update
+ */
+export type ReviewImageUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ReviewImage
+   */
+  select?: Prisma.ReviewImageSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ReviewImage
+   */
+  omit?: Prisma.ReviewImageOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ReviewImageInclude<ExtArgs> | null
+  /**
+   * The data needed to update a ReviewImage.
+   */
+  data: Prisma.XOR<Prisma.ReviewImageUpdateInput, Prisma.ReviewImageUncheckedUpdateInput>
+  /**
+   * Choose, which ReviewImage to update.
+   */
+  where: Prisma.ReviewImageWhereUniqueInput
+}
+
+/**
+ * ReviewImage updateMany
+ */
+export type ReviewImageUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update ReviewImages.
+   */
+  data: Prisma.XOR<Prisma.ReviewImageUpdateManyMutationInput, Prisma.ReviewImageUncheckedUpdateManyInput>
+  /**
+   * Filter which ReviewImages to update
+   */
+  where?: Prisma.ReviewImageWhereInput
+  /**
+   * Limit how many ReviewImages to update.
+   */
+  limit?: number
+}
+
+/**
+ * ReviewImage updateManyAndReturn
+ */
+export type ReviewImageUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ReviewImage
+   */
+  select?: Prisma.ReviewImageSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the ReviewImage
+   */
+  omit?: Prisma.ReviewImageOmit<ExtArgs> | null
+  /**
+   * The data used to update ReviewImages.
+   */
+  data: Prisma.XOR<Prisma.ReviewImageUpdateManyMutationInput, Prisma.ReviewImageUncheckedUpdateManyInput>
+  /**
+   * Filter which ReviewImages to update
+   */
+  where?: Prisma.ReviewImageWhereInput
+  /**
+   * Limit how many ReviewImages to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ReviewImageIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * ReviewImage upsert
+ */
+export type ReviewImageUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ReviewImage
+   */
+  select?: Prisma.ReviewImageSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ReviewImage
+   */
+  omit?: Prisma.ReviewImageOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ReviewImageInclude<ExtArgs> | null
+  /**
+   * The filter to search for the ReviewImage to update in case it exists.
+   */
+  where: Prisma.ReviewImageWhereUniqueInput
+  /**
+   * In case the ReviewImage found by the `where` argument doesn't exist, create a new ReviewImage with this data.
+   */
+  create: Prisma.XOR<Prisma.ReviewImageCreateInput, Prisma.ReviewImageUncheckedCreateInput>
+  /**
+   * In case the ReviewImage was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.ReviewImageUpdateInput, Prisma.ReviewImageUncheckedUpdateInput>
+}
+
+/**
+ * ReviewImage delete
+ */
+export type ReviewImageDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ReviewImage
+   */
+  select?: Prisma.ReviewImageSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ReviewImage
+   */
+  omit?: Prisma.ReviewImageOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ReviewImageInclude<ExtArgs> | null
+  /**
+   * Filter which ReviewImage to delete.
+   */
+  where: Prisma.ReviewImageWhereUniqueInput
+}
+
+/**
+ * ReviewImage deleteMany
+ */
+export type ReviewImageDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which ReviewImages to delete
+   */
+  where?: Prisma.ReviewImageWhereInput
+  /**
+   * Limit how many ReviewImages to delete.
+   */
+  limit?: number
+}
+
+/**
+ * ReviewImage without action
+ */
+export type ReviewImageDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ReviewImage
+   */
+  select?: Prisma.ReviewImageSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ReviewImage
+   */
+  omit?: Prisma.ReviewImageOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ReviewImageInclude<ExtArgs> | null
+}
@@ -0,0 +1,1375 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `ShipmentEvent` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums.js"
+import type * as Prisma from "../internal/prismaNamespace.js"
+
+/**
+ * Model ShipmentEvent
+ * 
+ */
+export type ShipmentEventModel = runtime.Types.Result.DefaultSelection<Prisma.$ShipmentEventPayload>
+
+export type AggregateShipmentEvent = {
+  _count: ShipmentEventCountAggregateOutputType | null
+  _min: ShipmentEventMinAggregateOutputType | null
+  _max: ShipmentEventMaxAggregateOutputType | null
+}
+
+export type ShipmentEventMinAggregateOutputType = {
+  id: string | null
+  shipmentId: string | null
+  description: string | null
+  location: string | null
+  occurredAt: Date | null
+  createdAt: Date | null
+}
+
+export type ShipmentEventMaxAggregateOutputType = {
+  id: string | null
+  shipmentId: string | null
+  description: string | null
+  location: string | null
+  occurredAt: Date | null
+  createdAt: Date | null
+}
+
+export type ShipmentEventCountAggregateOutputType = {
+  id: number
+  shipmentId: number
+  description: number
+  location: number
+  occurredAt: number
+  createdAt: number
+  _all: number
+}
+
+
+export type ShipmentEventMinAggregateInputType = {
+  id?: true
+  shipmentId?: true
+  description?: true
+  location?: true
+  occurredAt?: true
+  createdAt?: true
+}
+
+export type ShipmentEventMaxAggregateInputType = {
+  id?: true
+  shipmentId?: true
+  description?: true
+  location?: true
+  occurredAt?: true
+  createdAt?: true
+}
+
+export type ShipmentEventCountAggregateInputType = {
+  id?: true
+  shipmentId?: true
+  description?: true
+  location?: true
+  occurredAt?: true
+  createdAt?: true
+  _all?: true
+}
+
+export type ShipmentEventAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which ShipmentEvent to aggregate.
+   */
+  where?: Prisma.ShipmentEventWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ShipmentEvents to fetch.
+   */
+  orderBy?: Prisma.ShipmentEventOrderByWithRelationInput | Prisma.ShipmentEventOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.ShipmentEventWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ShipmentEvents from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ShipmentEvents.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned ShipmentEvents
+  **/
+  _count?: true | ShipmentEventCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: ShipmentEventMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: ShipmentEventMaxAggregateInputType
+}
+
+export type GetShipmentEventAggregateType<T extends ShipmentEventAggregateArgs> = {
+      [P in keyof T & keyof AggregateShipmentEvent]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateShipmentEvent[P]>
+    : Prisma.GetScalarType<T[P], AggregateShipmentEvent[P]>
+}
+
+
+
+
+export type ShipmentEventGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ShipmentEventWhereInput
+  orderBy?: Prisma.ShipmentEventOrderByWithAggregationInput | Prisma.ShipmentEventOrderByWithAggregationInput[]
+  by: Prisma.ShipmentEventScalarFieldEnum[] | Prisma.ShipmentEventScalarFieldEnum
+  having?: Prisma.ShipmentEventScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: ShipmentEventCountAggregateInputType | true
+  _min?: ShipmentEventMinAggregateInputType
+  _max?: ShipmentEventMaxAggregateInputType
+}
+
+export type ShipmentEventGroupByOutputType = {
+  id: string
+  shipmentId: string
+  description: string
+  location: string | null
+  occurredAt: Date
+  createdAt: Date
+  _count: ShipmentEventCountAggregateOutputType | null
+  _min: ShipmentEventMinAggregateOutputType | null
+  _max: ShipmentEventMaxAggregateOutputType | null
+}
+
+type GetShipmentEventGroupByPayload<T extends ShipmentEventGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<ShipmentEventGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof ShipmentEventGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], ShipmentEventGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], ShipmentEventGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type ShipmentEventWhereInput = {
+  AND?: Prisma.ShipmentEventWhereInput | Prisma.ShipmentEventWhereInput[]
+  OR?: Prisma.ShipmentEventWhereInput[]
+  NOT?: Prisma.ShipmentEventWhereInput | Prisma.ShipmentEventWhereInput[]
+  id?: Prisma.StringFilter<"ShipmentEvent"> | string
+  shipmentId?: Prisma.StringFilter<"ShipmentEvent"> | string
+  description?: Prisma.StringFilter<"ShipmentEvent"> | string
+  location?: Prisma.StringNullableFilter<"ShipmentEvent"> | string | null
+  occurredAt?: Prisma.DateTimeFilter<"ShipmentEvent"> | Date | string
+  createdAt?: Prisma.DateTimeFilter<"ShipmentEvent"> | Date | string
+  shipment?: Prisma.XOR<Prisma.ShipmentScalarRelationFilter, Prisma.ShipmentWhereInput>
+}
+
+export type ShipmentEventOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  shipmentId?: Prisma.SortOrder
+  description?: Prisma.SortOrder
+  location?: Prisma.SortOrderInput | Prisma.SortOrder
+  occurredAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  shipment?: Prisma.ShipmentOrderByWithRelationInput
+}
+
+export type ShipmentEventWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  AND?: Prisma.ShipmentEventWhereInput | Prisma.ShipmentEventWhereInput[]
+  OR?: Prisma.ShipmentEventWhereInput[]
+  NOT?: Prisma.ShipmentEventWhereInput | Prisma.ShipmentEventWhereInput[]
+  shipmentId?: Prisma.StringFilter<"ShipmentEvent"> | string
+  description?: Prisma.StringFilter<"ShipmentEvent"> | string
+  location?: Prisma.StringNullableFilter<"ShipmentEvent"> | string | null
+  occurredAt?: Prisma.DateTimeFilter<"ShipmentEvent"> | Date | string
+  createdAt?: Prisma.DateTimeFilter<"ShipmentEvent"> | Date | string
+  shipment?: Prisma.XOR<Prisma.ShipmentScalarRelationFilter, Prisma.ShipmentWhereInput>
+}, "id">
+
+export type ShipmentEventOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  shipmentId?: Prisma.SortOrder
+  description?: Prisma.SortOrder
+  location?: Prisma.SortOrderInput | Prisma.SortOrder
+  occurredAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  _count?: Prisma.ShipmentEventCountOrderByAggregateInput
+  _max?: Prisma.ShipmentEventMaxOrderByAggregateInput
+  _min?: Prisma.ShipmentEventMinOrderByAggregateInput
+}
+
+export type ShipmentEventScalarWhereWithAggregatesInput = {
+  AND?: Prisma.ShipmentEventScalarWhereWithAggregatesInput | Prisma.ShipmentEventScalarWhereWithAggregatesInput[]
+  OR?: Prisma.ShipmentEventScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.ShipmentEventScalarWhereWithAggregatesInput | Prisma.ShipmentEventScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"ShipmentEvent"> | string
+  shipmentId?: Prisma.StringWithAggregatesFilter<"ShipmentEvent"> | string
+  description?: Prisma.StringWithAggregatesFilter<"ShipmentEvent"> | string
+  location?: Prisma.StringNullableWithAggregatesFilter<"ShipmentEvent"> | string | null
+  occurredAt?: Prisma.DateTimeWithAggregatesFilter<"ShipmentEvent"> | Date | string
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"ShipmentEvent"> | Date | string
+}
+
+export type ShipmentEventCreateInput = {
+  id?: string
+  description: string
+  location?: string | null
+  occurredAt?: Date | string
+  createdAt?: Date | string
+  shipment: Prisma.ShipmentCreateNestedOneWithoutEventsInput
+}
+
+export type ShipmentEventUncheckedCreateInput = {
+  id?: string
+  shipmentId: string
+  description: string
+  location?: string | null
+  occurredAt?: Date | string
+  createdAt?: Date | string
+}
+
+export type ShipmentEventUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.StringFieldUpdateOperationsInput | string
+  location?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  occurredAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  shipment?: Prisma.ShipmentUpdateOneRequiredWithoutEventsNestedInput
+}
+
+export type ShipmentEventUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  shipmentId?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.StringFieldUpdateOperationsInput | string
+  location?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  occurredAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ShipmentEventCreateManyInput = {
+  id?: string
+  shipmentId: string
+  description: string
+  location?: string | null
+  occurredAt?: Date | string
+  createdAt?: Date | string
+}
+
+export type ShipmentEventUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.StringFieldUpdateOperationsInput | string
+  location?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  occurredAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ShipmentEventUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  shipmentId?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.StringFieldUpdateOperationsInput | string
+  location?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  occurredAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ShipmentEventListRelationFilter = {
+  every?: Prisma.ShipmentEventWhereInput
+  some?: Prisma.ShipmentEventWhereInput
+  none?: Prisma.ShipmentEventWhereInput
+}
+
+export type ShipmentEventOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type ShipmentEventCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  shipmentId?: Prisma.SortOrder
+  description?: Prisma.SortOrder
+  location?: Prisma.SortOrder
+  occurredAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type ShipmentEventMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  shipmentId?: Prisma.SortOrder
+  description?: Prisma.SortOrder
+  location?: Prisma.SortOrder
+  occurredAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type ShipmentEventMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  shipmentId?: Prisma.SortOrder
+  description?: Prisma.SortOrder
+  location?: Prisma.SortOrder
+  occurredAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type ShipmentEventCreateNestedManyWithoutShipmentInput = {
+  create?: Prisma.XOR<Prisma.ShipmentEventCreateWithoutShipmentInput, Prisma.ShipmentEventUncheckedCreateWithoutShipmentInput> | Prisma.ShipmentEventCreateWithoutShipmentInput[] | Prisma.ShipmentEventUncheckedCreateWithoutShipmentInput[]
+  connectOrCreate?: Prisma.ShipmentEventCreateOrConnectWithoutShipmentInput | Prisma.ShipmentEventCreateOrConnectWithoutShipmentInput[]
+  createMany?: Prisma.ShipmentEventCreateManyShipmentInputEnvelope
+  connect?: Prisma.ShipmentEventWhereUniqueInput | Prisma.ShipmentEventWhereUniqueInput[]
+}
+
+export type ShipmentEventUncheckedCreateNestedManyWithoutShipmentInput = {
+  create?: Prisma.XOR<Prisma.ShipmentEventCreateWithoutShipmentInput, Prisma.ShipmentEventUncheckedCreateWithoutShipmentInput> | Prisma.ShipmentEventCreateWithoutShipmentInput[] | Prisma.ShipmentEventUncheckedCreateWithoutShipmentInput[]
+  connectOrCreate?: Prisma.ShipmentEventCreateOrConnectWithoutShipmentInput | Prisma.ShipmentEventCreateOrConnectWithoutShipmentInput[]
+  createMany?: Prisma.ShipmentEventCreateManyShipmentInputEnvelope
+  connect?: Prisma.ShipmentEventWhereUniqueInput | Prisma.ShipmentEventWhereUniqueInput[]
+}
+
+export type ShipmentEventUpdateManyWithoutShipmentNestedInput = {
+  create?: Prisma.XOR<Prisma.ShipmentEventCreateWithoutShipmentInput, Prisma.ShipmentEventUncheckedCreateWithoutShipmentInput> | Prisma.ShipmentEventCreateWithoutShipmentInput[] | Prisma.ShipmentEventUncheckedCreateWithoutShipmentInput[]
+  connectOrCreate?: Prisma.ShipmentEventCreateOrConnectWithoutShipmentInput | Prisma.ShipmentEventCreateOrConnectWithoutShipmentInput[]
+  upsert?: Prisma.ShipmentEventUpsertWithWhereUniqueWithoutShipmentInput | Prisma.ShipmentEventUpsertWithWhereUniqueWithoutShipmentInput[]
+  createMany?: Prisma.ShipmentEventCreateManyShipmentInputEnvelope
+  set?: Prisma.ShipmentEventWhereUniqueInput | Prisma.ShipmentEventWhereUniqueInput[]
+  disconnect?: Prisma.ShipmentEventWhereUniqueInput | Prisma.ShipmentEventWhereUniqueInput[]
+  delete?: Prisma.ShipmentEventWhereUniqueInput | Prisma.ShipmentEventWhereUniqueInput[]
+  connect?: Prisma.ShipmentEventWhereUniqueInput | Prisma.ShipmentEventWhereUniqueInput[]
+  update?: Prisma.ShipmentEventUpdateWithWhereUniqueWithoutShipmentInput | Prisma.ShipmentEventUpdateWithWhereUniqueWithoutShipmentInput[]
+  updateMany?: Prisma.ShipmentEventUpdateManyWithWhereWithoutShipmentInput | Prisma.ShipmentEventUpdateManyWithWhereWithoutShipmentInput[]
+  deleteMany?: Prisma.ShipmentEventScalarWhereInput | Prisma.ShipmentEventScalarWhereInput[]
+}
+
+export type ShipmentEventUncheckedUpdateManyWithoutShipmentNestedInput = {
+  create?: Prisma.XOR<Prisma.ShipmentEventCreateWithoutShipmentInput, Prisma.ShipmentEventUncheckedCreateWithoutShipmentInput> | Prisma.ShipmentEventCreateWithoutShipmentInput[] | Prisma.ShipmentEventUncheckedCreateWithoutShipmentInput[]
+  connectOrCreate?: Prisma.ShipmentEventCreateOrConnectWithoutShipmentInput | Prisma.ShipmentEventCreateOrConnectWithoutShipmentInput[]
+  upsert?: Prisma.ShipmentEventUpsertWithWhereUniqueWithoutShipmentInput | Prisma.ShipmentEventUpsertWithWhereUniqueWithoutShipmentInput[]
+  createMany?: Prisma.ShipmentEventCreateManyShipmentInputEnvelope
+  set?: Prisma.ShipmentEventWhereUniqueInput | Prisma.ShipmentEventWhereUniqueInput[]
+  disconnect?: Prisma.ShipmentEventWhereUniqueInput | Prisma.ShipmentEventWhereUniqueInput[]
+  delete?: Prisma.ShipmentEventWhereUniqueInput | Prisma.ShipmentEventWhereUniqueInput[]
+  connect?: Prisma.ShipmentEventWhereUniqueInput | Prisma.ShipmentEventWhereUniqueInput[]
+  update?: Prisma.ShipmentEventUpdateWithWhereUniqueWithoutShipmentInput | Prisma.ShipmentEventUpdateWithWhereUniqueWithoutShipmentInput[]
+  updateMany?: Prisma.ShipmentEventUpdateManyWithWhereWithoutShipmentInput | Prisma.ShipmentEventUpdateManyWithWhereWithoutShipmentInput[]
+  deleteMany?: Prisma.ShipmentEventScalarWhereInput | Prisma.ShipmentEventScalarWhereInput[]
+}
+
+export type ShipmentEventCreateWithoutShipmentInput = {
+  id?: string
+  description: string
+  location?: string | null
+  occurredAt?: Date | string
+  createdAt?: Date | string
+}
+
+export type ShipmentEventUncheckedCreateWithoutShipmentInput = {
+  id?: string
+  description: string
+  location?: string | null
+  occurredAt?: Date | string
+  createdAt?: Date | string
+}
+
+export type ShipmentEventCreateOrConnectWithoutShipmentInput = {
+  where: Prisma.ShipmentEventWhereUniqueInput
+  create: Prisma.XOR<Prisma.ShipmentEventCreateWithoutShipmentInput, Prisma.ShipmentEventUncheckedCreateWithoutShipmentInput>
+}
+
+export type ShipmentEventCreateManyShipmentInputEnvelope = {
+  data: Prisma.ShipmentEventCreateManyShipmentInput | Prisma.ShipmentEventCreateManyShipmentInput[]
+  skipDuplicates?: boolean
+}
+
+export type ShipmentEventUpsertWithWhereUniqueWithoutShipmentInput = {
+  where: Prisma.ShipmentEventWhereUniqueInput
+  update: Prisma.XOR<Prisma.ShipmentEventUpdateWithoutShipmentInput, Prisma.ShipmentEventUncheckedUpdateWithoutShipmentInput>
+  create: Prisma.XOR<Prisma.ShipmentEventCreateWithoutShipmentInput, Prisma.ShipmentEventUncheckedCreateWithoutShipmentInput>
+}
+
+export type ShipmentEventUpdateWithWhereUniqueWithoutShipmentInput = {
+  where: Prisma.ShipmentEventWhereUniqueInput
+  data: Prisma.XOR<Prisma.ShipmentEventUpdateWithoutShipmentInput, Prisma.ShipmentEventUncheckedUpdateWithoutShipmentInput>
+}
+
+export type ShipmentEventUpdateManyWithWhereWithoutShipmentInput = {
+  where: Prisma.ShipmentEventScalarWhereInput
+  data: Prisma.XOR<Prisma.ShipmentEventUpdateManyMutationInput, Prisma.ShipmentEventUncheckedUpdateManyWithoutShipmentInput>
+}
+
+export type ShipmentEventScalarWhereInput = {
+  AND?: Prisma.ShipmentEventScalarWhereInput | Prisma.ShipmentEventScalarWhereInput[]
+  OR?: Prisma.ShipmentEventScalarWhereInput[]
+  NOT?: Prisma.ShipmentEventScalarWhereInput | Prisma.ShipmentEventScalarWhereInput[]
+  id?: Prisma.StringFilter<"ShipmentEvent"> | string
+  shipmentId?: Prisma.StringFilter<"ShipmentEvent"> | string
+  description?: Prisma.StringFilter<"ShipmentEvent"> | string
+  location?: Prisma.StringNullableFilter<"ShipmentEvent"> | string | null
+  occurredAt?: Prisma.DateTimeFilter<"ShipmentEvent"> | Date | string
+  createdAt?: Prisma.DateTimeFilter<"ShipmentEvent"> | Date | string
+}
+
+export type ShipmentEventCreateManyShipmentInput = {
+  id?: string
+  description: string
+  location?: string | null
+  occurredAt?: Date | string
+  createdAt?: Date | string
+}
+
+export type ShipmentEventUpdateWithoutShipmentInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.StringFieldUpdateOperationsInput | string
+  location?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  occurredAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ShipmentEventUncheckedUpdateWithoutShipmentInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.StringFieldUpdateOperationsInput | string
+  location?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  occurredAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ShipmentEventUncheckedUpdateManyWithoutShipmentInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.StringFieldUpdateOperationsInput | string
+  location?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  occurredAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type ShipmentEventSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  shipmentId?: boolean
+  description?: boolean
+  location?: boolean
+  occurredAt?: boolean
+  createdAt?: boolean
+  shipment?: boolean | Prisma.ShipmentDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["shipmentEvent"]>
+
+export type ShipmentEventSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  shipmentId?: boolean
+  description?: boolean
+  location?: boolean
+  occurredAt?: boolean
+  createdAt?: boolean
+  shipment?: boolean | Prisma.ShipmentDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["shipmentEvent"]>
+
+export type ShipmentEventSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  shipmentId?: boolean
+  description?: boolean
+  location?: boolean
+  occurredAt?: boolean
+  createdAt?: boolean
+  shipment?: boolean | Prisma.ShipmentDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["shipmentEvent"]>
+
+export type ShipmentEventSelectScalar = {
+  id?: boolean
+  shipmentId?: boolean
+  description?: boolean
+  location?: boolean
+  occurredAt?: boolean
+  createdAt?: boolean
+}
+
+export type ShipmentEventOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "shipmentId" | "description" | "location" | "occurredAt" | "createdAt", ExtArgs["result"]["shipmentEvent"]>
+export type ShipmentEventInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  shipment?: boolean | Prisma.ShipmentDefaultArgs<ExtArgs>
+}
+export type ShipmentEventIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  shipment?: boolean | Prisma.ShipmentDefaultArgs<ExtArgs>
+}
+export type ShipmentEventIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  shipment?: boolean | Prisma.ShipmentDefaultArgs<ExtArgs>
+}
+
+export type $ShipmentEventPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "ShipmentEvent"
+  objects: {
+    shipment: Prisma.$ShipmentPayload<ExtArgs>
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    shipmentId: string
+    description: string
+    location: string | null
+    occurredAt: Date
+    createdAt: Date
+  }, ExtArgs["result"]["shipmentEvent"]>
+  composites: {}
+}
+
+export type ShipmentEventGetPayload<S extends boolean | null | undefined | ShipmentEventDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$ShipmentEventPayload, S>
+
+export type ShipmentEventCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<ShipmentEventFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: ShipmentEventCountAggregateInputType | true
+  }
+
+export interface ShipmentEventDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['ShipmentEvent'], meta: { name: 'ShipmentEvent' } }
+  /**
+   * Find zero or one ShipmentEvent that matches the filter.
+   * @param {ShipmentEventFindUniqueArgs} args - Arguments to find a ShipmentEvent
+   * @example
+   * // Get one ShipmentEvent
+   * const shipmentEvent = await prisma.shipmentEvent.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends ShipmentEventFindUniqueArgs>(args: Prisma.SelectSubset<T, ShipmentEventFindUniqueArgs<ExtArgs>>): Prisma.Prisma__ShipmentEventClient<runtime.Types.Result.GetResult<Prisma.$ShipmentEventPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one ShipmentEvent that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {ShipmentEventFindUniqueOrThrowArgs} args - Arguments to find a ShipmentEvent
+   * @example
+   * // Get one ShipmentEvent
+   * const shipmentEvent = await prisma.shipmentEvent.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends ShipmentEventFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, ShipmentEventFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__ShipmentEventClient<runtime.Types.Result.GetResult<Prisma.$ShipmentEventPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first ShipmentEvent that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ShipmentEventFindFirstArgs} args - Arguments to find a ShipmentEvent
+   * @example
+   * // Get one ShipmentEvent
+   * const shipmentEvent = await prisma.shipmentEvent.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends ShipmentEventFindFirstArgs>(args?: Prisma.SelectSubset<T, ShipmentEventFindFirstArgs<ExtArgs>>): Prisma.Prisma__ShipmentEventClient<runtime.Types.Result.GetResult<Prisma.$ShipmentEventPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first ShipmentEvent that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ShipmentEventFindFirstOrThrowArgs} args - Arguments to find a ShipmentEvent
+   * @example
+   * // Get one ShipmentEvent
+   * const shipmentEvent = await prisma.shipmentEvent.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends ShipmentEventFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, ShipmentEventFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__ShipmentEventClient<runtime.Types.Result.GetResult<Prisma.$ShipmentEventPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more ShipmentEvents that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ShipmentEventFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all ShipmentEvents
+   * const shipmentEvents = await prisma.shipmentEvent.findMany()
+   * 
+   * // Get first 10 ShipmentEvents
+   * const shipmentEvents = await prisma.shipmentEvent.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const shipmentEventWithIdOnly = await prisma.shipmentEvent.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends ShipmentEventFindManyArgs>(args?: Prisma.SelectSubset<T, ShipmentEventFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ShipmentEventPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a ShipmentEvent.
+   * @param {ShipmentEventCreateArgs} args - Arguments to create a ShipmentEvent.
+   * @example
+   * // Create one ShipmentEvent
+   * const ShipmentEvent = await prisma.shipmentEvent.create({
+   *   data: {
+   *     // ... data to create a ShipmentEvent
+   *   }
+   * })
+   * 
+   */
+  create<T extends ShipmentEventCreateArgs>(args: Prisma.SelectSubset<T, ShipmentEventCreateArgs<ExtArgs>>): Prisma.Prisma__ShipmentEventClient<runtime.Types.Result.GetResult<Prisma.$ShipmentEventPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many ShipmentEvents.
+   * @param {ShipmentEventCreateManyArgs} args - Arguments to create many ShipmentEvents.
+   * @example
+   * // Create many ShipmentEvents
+   * const shipmentEvent = await prisma.shipmentEvent.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends ShipmentEventCreateManyArgs>(args?: Prisma.SelectSubset<T, ShipmentEventCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many ShipmentEvents and returns the data saved in the database.
+   * @param {ShipmentEventCreateManyAndReturnArgs} args - Arguments to create many ShipmentEvents.
+   * @example
+   * // Create many ShipmentEvents
+   * const shipmentEvent = await prisma.shipmentEvent.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many ShipmentEvents and only return the `id`
+   * const shipmentEventWithIdOnly = await prisma.shipmentEvent.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends ShipmentEventCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, ShipmentEventCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ShipmentEventPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a ShipmentEvent.
+   * @param {ShipmentEventDeleteArgs} args - Arguments to delete one ShipmentEvent.
+   * @example
+   * // Delete one ShipmentEvent
+   * const ShipmentEvent = await prisma.shipmentEvent.delete({
+   *   where: {
+   *     // ... filter to delete one ShipmentEvent
+   *   }
+   * })
+   * 
+   */
+  delete<T extends ShipmentEventDeleteArgs>(args: Prisma.SelectSubset<T, ShipmentEventDeleteArgs<ExtArgs>>): Prisma.Prisma__ShipmentEventClient<runtime.Types.Result.GetResult<Prisma.$ShipmentEventPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one ShipmentEvent.
+   * @param {ShipmentEventUpdateArgs} args - Arguments to update one ShipmentEvent.
+   * @example
+   * // Update one ShipmentEvent
+   * const shipmentEvent = await prisma.shipmentEvent.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends ShipmentEventUpdateArgs>(args: Prisma.SelectSubset<T, ShipmentEventUpdateArgs<ExtArgs>>): Prisma.Prisma__ShipmentEventClient<runtime.Types.Result.GetResult<Prisma.$ShipmentEventPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more ShipmentEvents.
+   * @param {ShipmentEventDeleteManyArgs} args - Arguments to filter ShipmentEvents to delete.
+   * @example
+   * // Delete a few ShipmentEvents
+   * const { count } = await prisma.shipmentEvent.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends ShipmentEventDeleteManyArgs>(args?: Prisma.SelectSubset<T, ShipmentEventDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more ShipmentEvents.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ShipmentEventUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many ShipmentEvents
+   * const shipmentEvent = await prisma.shipmentEvent.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends ShipmentEventUpdateManyArgs>(args: Prisma.SelectSubset<T, ShipmentEventUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more ShipmentEvents and returns the data updated in the database.
+   * @param {ShipmentEventUpdateManyAndReturnArgs} args - Arguments to update many ShipmentEvents.
+   * @example
+   * // Update many ShipmentEvents
+   * const shipmentEvent = await prisma.shipmentEvent.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more ShipmentEvents and only return the `id`
+   * const shipmentEventWithIdOnly = await prisma.shipmentEvent.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends ShipmentEventUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, ShipmentEventUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ShipmentEventPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one ShipmentEvent.
+   * @param {ShipmentEventUpsertArgs} args - Arguments to update or create a ShipmentEvent.
+   * @example
+   * // Update or create a ShipmentEvent
+   * const shipmentEvent = await prisma.shipmentEvent.upsert({
+   *   create: {
+   *     // ... data to create a ShipmentEvent
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the ShipmentEvent we want to update
+   *   }
+   * })
+   */
+  upsert<T extends ShipmentEventUpsertArgs>(args: Prisma.SelectSubset<T, ShipmentEventUpsertArgs<ExtArgs>>): Prisma.Prisma__ShipmentEventClient<runtime.Types.Result.GetResult<Prisma.$ShipmentEventPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of ShipmentEvents.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ShipmentEventCountArgs} args - Arguments to filter ShipmentEvents to count.
+   * @example
+   * // Count the number of ShipmentEvents
+   * const count = await prisma.shipmentEvent.count({
+   *   where: {
+   *     // ... the filter for the ShipmentEvents we want to count
+   *   }
+   * })
+  **/
+  count<T extends ShipmentEventCountArgs>(
+    args?: Prisma.Subset<T, ShipmentEventCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], ShipmentEventCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a ShipmentEvent.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ShipmentEventAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends ShipmentEventAggregateArgs>(args: Prisma.Subset<T, ShipmentEventAggregateArgs>): Prisma.PrismaPromise<GetShipmentEventAggregateType<T>>
+
+  /**
+   * Group by ShipmentEvent.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ShipmentEventGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends ShipmentEventGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: ShipmentEventGroupByArgs['orderBy'] }
+      : { orderBy?: ShipmentEventGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, ShipmentEventGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetShipmentEventGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the ShipmentEvent model
+ */
+readonly fields: ShipmentEventFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for ShipmentEvent.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__ShipmentEventClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  shipment<T extends Prisma.ShipmentDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ShipmentDefaultArgs<ExtArgs>>): Prisma.Prisma__ShipmentClient<runtime.Types.Result.GetResult<Prisma.$ShipmentPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the ShipmentEvent model
+ */
+export interface ShipmentEventFieldRefs {
+  readonly id: Prisma.FieldRef<"ShipmentEvent", 'String'>
+  readonly shipmentId: Prisma.FieldRef<"ShipmentEvent", 'String'>
+  readonly description: Prisma.FieldRef<"ShipmentEvent", 'String'>
+  readonly location: Prisma.FieldRef<"ShipmentEvent", 'String'>
+  readonly occurredAt: Prisma.FieldRef<"ShipmentEvent", 'DateTime'>
+  readonly createdAt: Prisma.FieldRef<"ShipmentEvent", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * ShipmentEvent findUnique
+ */
+export type ShipmentEventFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShipmentEvent
+   */
+  select?: Prisma.ShipmentEventSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ShipmentEvent
+   */
+  omit?: Prisma.ShipmentEventOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShipmentEventInclude<ExtArgs> | null
+  /**
+   * Filter, which ShipmentEvent to fetch.
+   */
+  where: Prisma.ShipmentEventWhereUniqueInput
+}
+
+/**
+ * ShipmentEvent findUniqueOrThrow
+ */
+export type ShipmentEventFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShipmentEvent
+   */
+  select?: Prisma.ShipmentEventSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ShipmentEvent
+   */
+  omit?: Prisma.ShipmentEventOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShipmentEventInclude<ExtArgs> | null
+  /**
+   * Filter, which ShipmentEvent to fetch.
+   */
+  where: Prisma.ShipmentEventWhereUniqueInput
+}
+
+/**
+ * ShipmentEvent findFirst
+ */
+export type ShipmentEventFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShipmentEvent
+   */
+  select?: Prisma.ShipmentEventSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ShipmentEvent
+   */
+  omit?: Prisma.ShipmentEventOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShipmentEventInclude<ExtArgs> | null
+  /**
+   * Filter, which ShipmentEvent to fetch.
+   */
+  where?: Prisma.ShipmentEventWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ShipmentEvents to fetch.
+   */
+  orderBy?: Prisma.ShipmentEventOrderByWithRelationInput | Prisma.ShipmentEventOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for ShipmentEvents.
+   */
+  cursor?: Prisma.ShipmentEventWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ShipmentEvents from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ShipmentEvents.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of ShipmentEvents.
+   */
+  distinct?: Prisma.ShipmentEventScalarFieldEnum | Prisma.ShipmentEventScalarFieldEnum[]
+}
+
+/**
+ * ShipmentEvent findFirstOrThrow
+ */
+export type ShipmentEventFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShipmentEvent
+   */
+  select?: Prisma.ShipmentEventSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ShipmentEvent
+   */
+  omit?: Prisma.ShipmentEventOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShipmentEventInclude<ExtArgs> | null
+  /**
+   * Filter, which ShipmentEvent to fetch.
+   */
+  where?: Prisma.ShipmentEventWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ShipmentEvents to fetch.
+   */
+  orderBy?: Prisma.ShipmentEventOrderByWithRelationInput | Prisma.ShipmentEventOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for ShipmentEvents.
+   */
+  cursor?: Prisma.ShipmentEventWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ShipmentEvents from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ShipmentEvents.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of ShipmentEvents.
+   */
+  distinct?: Prisma.ShipmentEventScalarFieldEnum | Prisma.ShipmentEventScalarFieldEnum[]
+}
+
+/**
+ * ShipmentEvent findMany
+ */
+export type ShipmentEventFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShipmentEvent
+   */
+  select?: Prisma.ShipmentEventSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ShipmentEvent
+   */
+  omit?: Prisma.ShipmentEventOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShipmentEventInclude<ExtArgs> | null
+  /**
+   * Filter, which ShipmentEvents to fetch.
+   */
+  where?: Prisma.ShipmentEventWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ShipmentEvents to fetch.
+   */
+  orderBy?: Prisma.ShipmentEventOrderByWithRelationInput | Prisma.ShipmentEventOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing ShipmentEvents.
+   */
+  cursor?: Prisma.ShipmentEventWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ShipmentEvents from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ShipmentEvents.
+   */
+  skip?: number
+  distinct?: Prisma.ShipmentEventScalarFieldEnum | Prisma.ShipmentEventScalarFieldEnum[]
+}
+
+/**
+ * ShipmentEvent create
+ */
+export type ShipmentEventCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShipmentEvent
+   */
+  select?: Prisma.ShipmentEventSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ShipmentEvent
+   */
+  omit?: Prisma.ShipmentEventOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShipmentEventInclude<ExtArgs> | null
+  /**
+   * The data needed to create a ShipmentEvent.
+   */
+  data: Prisma.XOR<Prisma.ShipmentEventCreateInput, Prisma.ShipmentEventUncheckedCreateInput>
+}
+
+/**
+ * ShipmentEvent createMany
+ */
+export type ShipmentEventCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many ShipmentEvents.
+   */
+  data: Prisma.ShipmentEventCreateManyInput | Prisma.ShipmentEventCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * ShipmentEvent createManyAndReturn
+ */
+export type ShipmentEventCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShipmentEvent
+   */
+  select?: Prisma.ShipmentEventSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the ShipmentEvent
+   */
+  omit?: Prisma.ShipmentEventOmit<ExtArgs> | null
+  /**
+   * The data used to create many ShipmentEvents.
+   */
+  data: Prisma.ShipmentEventCreateManyInput | Prisma.ShipmentEventCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShipmentEventIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * ShipmentEvent update
+ */
+export type ShipmentEventUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShipmentEvent
+   */
+  select?: Prisma.ShipmentEventSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ShipmentEvent
+   */
+  omit?: Prisma.ShipmentEventOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShipmentEventInclude<ExtArgs> | null
+  /**
+   * The data needed to update a ShipmentEvent.
+   */
+  data: Prisma.XOR<Prisma.ShipmentEventUpdateInput, Prisma.ShipmentEventUncheckedUpdateInput>
+  /**
+   * Choose, which ShipmentEvent to update.
+   */
+  where: Prisma.ShipmentEventWhereUniqueInput
+}
+
+/**
+ * ShipmentEvent updateMany
+ */
+export type ShipmentEventUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update ShipmentEvents.
+   */
+  data: Prisma.XOR<Prisma.ShipmentEventUpdateManyMutationInput, Prisma.ShipmentEventUncheckedUpdateManyInput>
+  /**
+   * Filter which ShipmentEvents to update
+   */
+  where?: Prisma.ShipmentEventWhereInput
+  /**
+   * Limit how many ShipmentEvents to update.
+   */
+  limit?: number
+}
+
+/**
+ * ShipmentEvent updateManyAndReturn
+ */
+export type ShipmentEventUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShipmentEvent
+   */
+  select?: Prisma.ShipmentEventSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the ShipmentEvent
+   */
+  omit?: Prisma.ShipmentEventOmit<ExtArgs> | null
+  /**
+   * The data used to update ShipmentEvents.
+   */
+  data: Prisma.XOR<Prisma.ShipmentEventUpdateManyMutationInput, Prisma.ShipmentEventUncheckedUpdateManyInput>
+  /**
+   * Filter which ShipmentEvents to update
+   */
+  where?: Prisma.ShipmentEventWhereInput
+  /**
+   * Limit how many ShipmentEvents to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShipmentEventIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * ShipmentEvent upsert
+ */
+export type ShipmentEventUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShipmentEvent
+   */
+  select?: Prisma.ShipmentEventSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ShipmentEvent
+   */
+  omit?: Prisma.ShipmentEventOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShipmentEventInclude<ExtArgs> | null
+  /**
+   * The filter to search for the ShipmentEvent to update in case it exists.
+   */
+  where: Prisma.ShipmentEventWhereUniqueInput
+  /**
+   * In case the ShipmentEvent found by the `where` argument doesn't exist, create a new ShipmentEvent with this data.
+   */
+  create: Prisma.XOR<Prisma.ShipmentEventCreateInput, Prisma.ShipmentEventUncheckedCreateInput>
+  /**
+   * In case the ShipmentEvent was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.ShipmentEventUpdateInput, Prisma.ShipmentEventUncheckedUpdateInput>
+}
+
+/**
+ * ShipmentEvent delete
+ */
+export type ShipmentEventDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShipmentEvent
+   */
+  select?: Prisma.ShipmentEventSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ShipmentEvent
+   */
+  omit?: Prisma.ShipmentEventOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShipmentEventInclude<ExtArgs> | null
+  /**
+   * Filter which ShipmentEvent to delete.
+   */
+  where: Prisma.ShipmentEventWhereUniqueInput
+}
+
+/**
+ * ShipmentEvent deleteMany
+ */
+export type ShipmentEventDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which ShipmentEvents to delete
+   */
+  where?: Prisma.ShipmentEventWhereInput
+  /**
+   * Limit how many ShipmentEvents to delete.
+   */
+  limit?: number
+}
+
+/**
+ * ShipmentEvent without action
+ */
+export type ShipmentEventDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShipmentEvent
+   */
+  select?: Prisma.ShipmentEventSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ShipmentEvent
+   */
+  omit?: Prisma.ShipmentEventOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShipmentEventInclude<ExtArgs> | null
+}
@@ -0,0 +1,1396 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `ShippingRate` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums.js"
+import type * as Prisma from "../internal/prismaNamespace.js"
+
+/**
+ * Model ShippingRate
+ * 
+ */
+export type ShippingRateModel = runtime.Types.Result.DefaultSelection<Prisma.$ShippingRatePayload>
+
+export type AggregateShippingRate = {
+  _count: ShippingRateCountAggregateOutputType | null
+  _avg: ShippingRateAvgAggregateOutputType | null
+  _sum: ShippingRateSumAggregateOutputType | null
+  _min: ShippingRateMinAggregateOutputType | null
+  _max: ShippingRateMaxAggregateOutputType | null
+}
+
+export type ShippingRateAvgAggregateOutputType = {
+  minValue: runtime.Decimal | null
+  maxValue: runtime.Decimal | null
+  cost: runtime.Decimal | null
+}
+
+export type ShippingRateSumAggregateOutputType = {
+  minValue: runtime.Decimal | null
+  maxValue: runtime.Decimal | null
+  cost: runtime.Decimal | null
+}
+
+export type ShippingRateMinAggregateOutputType = {
+  id: string | null
+  zoneId: string | null
+  minValue: runtime.Decimal | null
+  maxValue: runtime.Decimal | null
+  cost: runtime.Decimal | null
+}
+
+export type ShippingRateMaxAggregateOutputType = {
+  id: string | null
+  zoneId: string | null
+  minValue: runtime.Decimal | null
+  maxValue: runtime.Decimal | null
+  cost: runtime.Decimal | null
+}
+
+export type ShippingRateCountAggregateOutputType = {
+  id: number
+  zoneId: number
+  minValue: number
+  maxValue: number
+  cost: number
+  _all: number
+}
+
+
+export type ShippingRateAvgAggregateInputType = {
+  minValue?: true
+  maxValue?: true
+  cost?: true
+}
+
+export type ShippingRateSumAggregateInputType = {
+  minValue?: true
+  maxValue?: true
+  cost?: true
+}
+
+export type ShippingRateMinAggregateInputType = {
+  id?: true
+  zoneId?: true
+  minValue?: true
+  maxValue?: true
+  cost?: true
+}
+
+export type ShippingRateMaxAggregateInputType = {
+  id?: true
+  zoneId?: true
+  minValue?: true
+  maxValue?: true
+  cost?: true
+}
+
+export type ShippingRateCountAggregateInputType = {
+  id?: true
+  zoneId?: true
+  minValue?: true
+  maxValue?: true
+  cost?: true
+  _all?: true
+}
+
+export type ShippingRateAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which ShippingRate to aggregate.
+   */
+  where?: Prisma.ShippingRateWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ShippingRates to fetch.
+   */
+  orderBy?: Prisma.ShippingRateOrderByWithRelationInput | Prisma.ShippingRateOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.ShippingRateWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ShippingRates from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ShippingRates.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned ShippingRates
+  **/
+  _count?: true | ShippingRateCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: ShippingRateAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: ShippingRateSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: ShippingRateMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: ShippingRateMaxAggregateInputType
+}
+
+export type GetShippingRateAggregateType<T extends ShippingRateAggregateArgs> = {
+      [P in keyof T & keyof AggregateShippingRate]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateShippingRate[P]>
+    : Prisma.GetScalarType<T[P], AggregateShippingRate[P]>
+}
+
+
+
+
+export type ShippingRateGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ShippingRateWhereInput
+  orderBy?: Prisma.ShippingRateOrderByWithAggregationInput | Prisma.ShippingRateOrderByWithAggregationInput[]
+  by: Prisma.ShippingRateScalarFieldEnum[] | Prisma.ShippingRateScalarFieldEnum
+  having?: Prisma.ShippingRateScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: ShippingRateCountAggregateInputType | true
+  _avg?: ShippingRateAvgAggregateInputType
+  _sum?: ShippingRateSumAggregateInputType
+  _min?: ShippingRateMinAggregateInputType
+  _max?: ShippingRateMaxAggregateInputType
+}
+
+export type ShippingRateGroupByOutputType = {
+  id: string
+  zoneId: string
+  minValue: runtime.Decimal
+  maxValue: runtime.Decimal | null
+  cost: runtime.Decimal
+  _count: ShippingRateCountAggregateOutputType | null
+  _avg: ShippingRateAvgAggregateOutputType | null
+  _sum: ShippingRateSumAggregateOutputType | null
+  _min: ShippingRateMinAggregateOutputType | null
+  _max: ShippingRateMaxAggregateOutputType | null
+}
+
+type GetShippingRateGroupByPayload<T extends ShippingRateGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<ShippingRateGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof ShippingRateGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], ShippingRateGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], ShippingRateGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type ShippingRateWhereInput = {
+  AND?: Prisma.ShippingRateWhereInput | Prisma.ShippingRateWhereInput[]
+  OR?: Prisma.ShippingRateWhereInput[]
+  NOT?: Prisma.ShippingRateWhereInput | Prisma.ShippingRateWhereInput[]
+  id?: Prisma.StringFilter<"ShippingRate"> | string
+  zoneId?: Prisma.StringFilter<"ShippingRate"> | string
+  minValue?: Prisma.DecimalFilter<"ShippingRate"> | runtime.Decimal | runtime.DecimalJsLike | number | string
+  maxValue?: Prisma.DecimalNullableFilter<"ShippingRate"> | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  cost?: Prisma.DecimalFilter<"ShippingRate"> | runtime.Decimal | runtime.DecimalJsLike | number | string
+  zone?: Prisma.XOR<Prisma.ShippingZoneScalarRelationFilter, Prisma.ShippingZoneWhereInput>
+}
+
+export type ShippingRateOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  zoneId?: Prisma.SortOrder
+  minValue?: Prisma.SortOrder
+  maxValue?: Prisma.SortOrderInput | Prisma.SortOrder
+  cost?: Prisma.SortOrder
+  zone?: Prisma.ShippingZoneOrderByWithRelationInput
+}
+
+export type ShippingRateWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  AND?: Prisma.ShippingRateWhereInput | Prisma.ShippingRateWhereInput[]
+  OR?: Prisma.ShippingRateWhereInput[]
+  NOT?: Prisma.ShippingRateWhereInput | Prisma.ShippingRateWhereInput[]
+  zoneId?: Prisma.StringFilter<"ShippingRate"> | string
+  minValue?: Prisma.DecimalFilter<"ShippingRate"> | runtime.Decimal | runtime.DecimalJsLike | number | string
+  maxValue?: Prisma.DecimalNullableFilter<"ShippingRate"> | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  cost?: Prisma.DecimalFilter<"ShippingRate"> | runtime.Decimal | runtime.DecimalJsLike | number | string
+  zone?: Prisma.XOR<Prisma.ShippingZoneScalarRelationFilter, Prisma.ShippingZoneWhereInput>
+}, "id">
+
+export type ShippingRateOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  zoneId?: Prisma.SortOrder
+  minValue?: Prisma.SortOrder
+  maxValue?: Prisma.SortOrderInput | Prisma.SortOrder
+  cost?: Prisma.SortOrder
+  _count?: Prisma.ShippingRateCountOrderByAggregateInput
+  _avg?: Prisma.ShippingRateAvgOrderByAggregateInput
+  _max?: Prisma.ShippingRateMaxOrderByAggregateInput
+  _min?: Prisma.ShippingRateMinOrderByAggregateInput
+  _sum?: Prisma.ShippingRateSumOrderByAggregateInput
+}
+
+export type ShippingRateScalarWhereWithAggregatesInput = {
+  AND?: Prisma.ShippingRateScalarWhereWithAggregatesInput | Prisma.ShippingRateScalarWhereWithAggregatesInput[]
+  OR?: Prisma.ShippingRateScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.ShippingRateScalarWhereWithAggregatesInput | Prisma.ShippingRateScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"ShippingRate"> | string
+  zoneId?: Prisma.StringWithAggregatesFilter<"ShippingRate"> | string
+  minValue?: Prisma.DecimalWithAggregatesFilter<"ShippingRate"> | runtime.Decimal | runtime.DecimalJsLike | number | string
+  maxValue?: Prisma.DecimalNullableWithAggregatesFilter<"ShippingRate"> | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  cost?: Prisma.DecimalWithAggregatesFilter<"ShippingRate"> | runtime.Decimal | runtime.DecimalJsLike | number | string
+}
+
+export type ShippingRateCreateInput = {
+  id?: string
+  minValue?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  maxValue?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  cost: runtime.Decimal | runtime.DecimalJsLike | number | string
+  zone: Prisma.ShippingZoneCreateNestedOneWithoutRatesInput
+}
+
+export type ShippingRateUncheckedCreateInput = {
+  id?: string
+  zoneId: string
+  minValue?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  maxValue?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  cost: runtime.Decimal | runtime.DecimalJsLike | number | string
+}
+
+export type ShippingRateUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  minValue?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  maxValue?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  cost?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  zone?: Prisma.ShippingZoneUpdateOneRequiredWithoutRatesNestedInput
+}
+
+export type ShippingRateUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  zoneId?: Prisma.StringFieldUpdateOperationsInput | string
+  minValue?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  maxValue?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  cost?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+}
+
+export type ShippingRateCreateManyInput = {
+  id?: string
+  zoneId: string
+  minValue?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  maxValue?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  cost: runtime.Decimal | runtime.DecimalJsLike | number | string
+}
+
+export type ShippingRateUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  minValue?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  maxValue?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  cost?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+}
+
+export type ShippingRateUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  zoneId?: Prisma.StringFieldUpdateOperationsInput | string
+  minValue?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  maxValue?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  cost?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+}
+
+export type ShippingRateListRelationFilter = {
+  every?: Prisma.ShippingRateWhereInput
+  some?: Prisma.ShippingRateWhereInput
+  none?: Prisma.ShippingRateWhereInput
+}
+
+export type ShippingRateOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type ShippingRateCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  zoneId?: Prisma.SortOrder
+  minValue?: Prisma.SortOrder
+  maxValue?: Prisma.SortOrder
+  cost?: Prisma.SortOrder
+}
+
+export type ShippingRateAvgOrderByAggregateInput = {
+  minValue?: Prisma.SortOrder
+  maxValue?: Prisma.SortOrder
+  cost?: Prisma.SortOrder
+}
+
+export type ShippingRateMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  zoneId?: Prisma.SortOrder
+  minValue?: Prisma.SortOrder
+  maxValue?: Prisma.SortOrder
+  cost?: Prisma.SortOrder
+}
+
+export type ShippingRateMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  zoneId?: Prisma.SortOrder
+  minValue?: Prisma.SortOrder
+  maxValue?: Prisma.SortOrder
+  cost?: Prisma.SortOrder
+}
+
+export type ShippingRateSumOrderByAggregateInput = {
+  minValue?: Prisma.SortOrder
+  maxValue?: Prisma.SortOrder
+  cost?: Prisma.SortOrder
+}
+
+export type ShippingRateCreateNestedManyWithoutZoneInput = {
+  create?: Prisma.XOR<Prisma.ShippingRateCreateWithoutZoneInput, Prisma.ShippingRateUncheckedCreateWithoutZoneInput> | Prisma.ShippingRateCreateWithoutZoneInput[] | Prisma.ShippingRateUncheckedCreateWithoutZoneInput[]
+  connectOrCreate?: Prisma.ShippingRateCreateOrConnectWithoutZoneInput | Prisma.ShippingRateCreateOrConnectWithoutZoneInput[]
+  createMany?: Prisma.ShippingRateCreateManyZoneInputEnvelope
+  connect?: Prisma.ShippingRateWhereUniqueInput | Prisma.ShippingRateWhereUniqueInput[]
+}
+
+export type ShippingRateUncheckedCreateNestedManyWithoutZoneInput = {
+  create?: Prisma.XOR<Prisma.ShippingRateCreateWithoutZoneInput, Prisma.ShippingRateUncheckedCreateWithoutZoneInput> | Prisma.ShippingRateCreateWithoutZoneInput[] | Prisma.ShippingRateUncheckedCreateWithoutZoneInput[]
+  connectOrCreate?: Prisma.ShippingRateCreateOrConnectWithoutZoneInput | Prisma.ShippingRateCreateOrConnectWithoutZoneInput[]
+  createMany?: Prisma.ShippingRateCreateManyZoneInputEnvelope
+  connect?: Prisma.ShippingRateWhereUniqueInput | Prisma.ShippingRateWhereUniqueInput[]
+}
+
+export type ShippingRateUpdateManyWithoutZoneNestedInput = {
+  create?: Prisma.XOR<Prisma.ShippingRateCreateWithoutZoneInput, Prisma.ShippingRateUncheckedCreateWithoutZoneInput> | Prisma.ShippingRateCreateWithoutZoneInput[] | Prisma.ShippingRateUncheckedCreateWithoutZoneInput[]
+  connectOrCreate?: Prisma.ShippingRateCreateOrConnectWithoutZoneInput | Prisma.ShippingRateCreateOrConnectWithoutZoneInput[]
+  upsert?: Prisma.ShippingRateUpsertWithWhereUniqueWithoutZoneInput | Prisma.ShippingRateUpsertWithWhereUniqueWithoutZoneInput[]
+  createMany?: Prisma.ShippingRateCreateManyZoneInputEnvelope
+  set?: Prisma.ShippingRateWhereUniqueInput | Prisma.ShippingRateWhereUniqueInput[]
+  disconnect?: Prisma.ShippingRateWhereUniqueInput | Prisma.ShippingRateWhereUniqueInput[]
+  delete?: Prisma.ShippingRateWhereUniqueInput | Prisma.ShippingRateWhereUniqueInput[]
+  connect?: Prisma.ShippingRateWhereUniqueInput | Prisma.ShippingRateWhereUniqueInput[]
+  update?: Prisma.ShippingRateUpdateWithWhereUniqueWithoutZoneInput | Prisma.ShippingRateUpdateWithWhereUniqueWithoutZoneInput[]
+  updateMany?: Prisma.ShippingRateUpdateManyWithWhereWithoutZoneInput | Prisma.ShippingRateUpdateManyWithWhereWithoutZoneInput[]
+  deleteMany?: Prisma.ShippingRateScalarWhereInput | Prisma.ShippingRateScalarWhereInput[]
+}
+
+export type ShippingRateUncheckedUpdateManyWithoutZoneNestedInput = {
+  create?: Prisma.XOR<Prisma.ShippingRateCreateWithoutZoneInput, Prisma.ShippingRateUncheckedCreateWithoutZoneInput> | Prisma.ShippingRateCreateWithoutZoneInput[] | Prisma.ShippingRateUncheckedCreateWithoutZoneInput[]
+  connectOrCreate?: Prisma.ShippingRateCreateOrConnectWithoutZoneInput | Prisma.ShippingRateCreateOrConnectWithoutZoneInput[]
+  upsert?: Prisma.ShippingRateUpsertWithWhereUniqueWithoutZoneInput | Prisma.ShippingRateUpsertWithWhereUniqueWithoutZoneInput[]
+  createMany?: Prisma.ShippingRateCreateManyZoneInputEnvelope
+  set?: Prisma.ShippingRateWhereUniqueInput | Prisma.ShippingRateWhereUniqueInput[]
+  disconnect?: Prisma.ShippingRateWhereUniqueInput | Prisma.ShippingRateWhereUniqueInput[]
+  delete?: Prisma.ShippingRateWhereUniqueInput | Prisma.ShippingRateWhereUniqueInput[]
+  connect?: Prisma.ShippingRateWhereUniqueInput | Prisma.ShippingRateWhereUniqueInput[]
+  update?: Prisma.ShippingRateUpdateWithWhereUniqueWithoutZoneInput | Prisma.ShippingRateUpdateWithWhereUniqueWithoutZoneInput[]
+  updateMany?: Prisma.ShippingRateUpdateManyWithWhereWithoutZoneInput | Prisma.ShippingRateUpdateManyWithWhereWithoutZoneInput[]
+  deleteMany?: Prisma.ShippingRateScalarWhereInput | Prisma.ShippingRateScalarWhereInput[]
+}
+
+export type ShippingRateCreateWithoutZoneInput = {
+  id?: string
+  minValue?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  maxValue?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  cost: runtime.Decimal | runtime.DecimalJsLike | number | string
+}
+
+export type ShippingRateUncheckedCreateWithoutZoneInput = {
+  id?: string
+  minValue?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  maxValue?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  cost: runtime.Decimal | runtime.DecimalJsLike | number | string
+}
+
+export type ShippingRateCreateOrConnectWithoutZoneInput = {
+  where: Prisma.ShippingRateWhereUniqueInput
+  create: Prisma.XOR<Prisma.ShippingRateCreateWithoutZoneInput, Prisma.ShippingRateUncheckedCreateWithoutZoneInput>
+}
+
+export type ShippingRateCreateManyZoneInputEnvelope = {
+  data: Prisma.ShippingRateCreateManyZoneInput | Prisma.ShippingRateCreateManyZoneInput[]
+  skipDuplicates?: boolean
+}
+
+export type ShippingRateUpsertWithWhereUniqueWithoutZoneInput = {
+  where: Prisma.ShippingRateWhereUniqueInput
+  update: Prisma.XOR<Prisma.ShippingRateUpdateWithoutZoneInput, Prisma.ShippingRateUncheckedUpdateWithoutZoneInput>
+  create: Prisma.XOR<Prisma.ShippingRateCreateWithoutZoneInput, Prisma.ShippingRateUncheckedCreateWithoutZoneInput>
+}
+
+export type ShippingRateUpdateWithWhereUniqueWithoutZoneInput = {
+  where: Prisma.ShippingRateWhereUniqueInput
+  data: Prisma.XOR<Prisma.ShippingRateUpdateWithoutZoneInput, Prisma.ShippingRateUncheckedUpdateWithoutZoneInput>
+}
+
+export type ShippingRateUpdateManyWithWhereWithoutZoneInput = {
+  where: Prisma.ShippingRateScalarWhereInput
+  data: Prisma.XOR<Prisma.ShippingRateUpdateManyMutationInput, Prisma.ShippingRateUncheckedUpdateManyWithoutZoneInput>
+}
+
+export type ShippingRateScalarWhereInput = {
+  AND?: Prisma.ShippingRateScalarWhereInput | Prisma.ShippingRateScalarWhereInput[]
+  OR?: Prisma.ShippingRateScalarWhereInput[]
+  NOT?: Prisma.ShippingRateScalarWhereInput | Prisma.ShippingRateScalarWhereInput[]
+  id?: Prisma.StringFilter<"ShippingRate"> | string
+  zoneId?: Prisma.StringFilter<"ShippingRate"> | string
+  minValue?: Prisma.DecimalFilter<"ShippingRate"> | runtime.Decimal | runtime.DecimalJsLike | number | string
+  maxValue?: Prisma.DecimalNullableFilter<"ShippingRate"> | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  cost?: Prisma.DecimalFilter<"ShippingRate"> | runtime.Decimal | runtime.DecimalJsLike | number | string
+}
+
+export type ShippingRateCreateManyZoneInput = {
+  id?: string
+  minValue?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  maxValue?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  cost: runtime.Decimal | runtime.DecimalJsLike | number | string
+}
+
+export type ShippingRateUpdateWithoutZoneInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  minValue?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  maxValue?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  cost?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+}
+
+export type ShippingRateUncheckedUpdateWithoutZoneInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  minValue?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  maxValue?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  cost?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+}
+
+export type ShippingRateUncheckedUpdateManyWithoutZoneInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  minValue?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  maxValue?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  cost?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+}
+
+
+
+export type ShippingRateSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  zoneId?: boolean
+  minValue?: boolean
+  maxValue?: boolean
+  cost?: boolean
+  zone?: boolean | Prisma.ShippingZoneDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["shippingRate"]>
+
+export type ShippingRateSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  zoneId?: boolean
+  minValue?: boolean
+  maxValue?: boolean
+  cost?: boolean
+  zone?: boolean | Prisma.ShippingZoneDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["shippingRate"]>
+
+export type ShippingRateSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  zoneId?: boolean
+  minValue?: boolean
+  maxValue?: boolean
+  cost?: boolean
+  zone?: boolean | Prisma.ShippingZoneDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["shippingRate"]>
+
+export type ShippingRateSelectScalar = {
+  id?: boolean
+  zoneId?: boolean
+  minValue?: boolean
+  maxValue?: boolean
+  cost?: boolean
+}
+
+export type ShippingRateOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "zoneId" | "minValue" | "maxValue" | "cost", ExtArgs["result"]["shippingRate"]>
+export type ShippingRateInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  zone?: boolean | Prisma.ShippingZoneDefaultArgs<ExtArgs>
+}
+export type ShippingRateIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  zone?: boolean | Prisma.ShippingZoneDefaultArgs<ExtArgs>
+}
+export type ShippingRateIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  zone?: boolean | Prisma.ShippingZoneDefaultArgs<ExtArgs>
+}
+
+export type $ShippingRatePayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "ShippingRate"
+  objects: {
+    zone: Prisma.$ShippingZonePayload<ExtArgs>
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    zoneId: string
+    minValue: runtime.Decimal
+    maxValue: runtime.Decimal | null
+    cost: runtime.Decimal
+  }, ExtArgs["result"]["shippingRate"]>
+  composites: {}
+}
+
+export type ShippingRateGetPayload<S extends boolean | null | undefined | ShippingRateDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$ShippingRatePayload, S>
+
+export type ShippingRateCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<ShippingRateFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: ShippingRateCountAggregateInputType | true
+  }
+
+export interface ShippingRateDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['ShippingRate'], meta: { name: 'ShippingRate' } }
+  /**
+   * Find zero or one ShippingRate that matches the filter.
+   * @param {ShippingRateFindUniqueArgs} args - Arguments to find a ShippingRate
+   * @example
+   * // Get one ShippingRate
+   * const shippingRate = await prisma.shippingRate.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends ShippingRateFindUniqueArgs>(args: Prisma.SelectSubset<T, ShippingRateFindUniqueArgs<ExtArgs>>): Prisma.Prisma__ShippingRateClient<runtime.Types.Result.GetResult<Prisma.$ShippingRatePayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one ShippingRate that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {ShippingRateFindUniqueOrThrowArgs} args - Arguments to find a ShippingRate
+   * @example
+   * // Get one ShippingRate
+   * const shippingRate = await prisma.shippingRate.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends ShippingRateFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, ShippingRateFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__ShippingRateClient<runtime.Types.Result.GetResult<Prisma.$ShippingRatePayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first ShippingRate that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ShippingRateFindFirstArgs} args - Arguments to find a ShippingRate
+   * @example
+   * // Get one ShippingRate
+   * const shippingRate = await prisma.shippingRate.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends ShippingRateFindFirstArgs>(args?: Prisma.SelectSubset<T, ShippingRateFindFirstArgs<ExtArgs>>): Prisma.Prisma__ShippingRateClient<runtime.Types.Result.GetResult<Prisma.$ShippingRatePayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first ShippingRate that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ShippingRateFindFirstOrThrowArgs} args - Arguments to find a ShippingRate
+   * @example
+   * // Get one ShippingRate
+   * const shippingRate = await prisma.shippingRate.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends ShippingRateFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, ShippingRateFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__ShippingRateClient<runtime.Types.Result.GetResult<Prisma.$ShippingRatePayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more ShippingRates that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ShippingRateFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all ShippingRates
+   * const shippingRates = await prisma.shippingRate.findMany()
+   * 
+   * // Get first 10 ShippingRates
+   * const shippingRates = await prisma.shippingRate.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const shippingRateWithIdOnly = await prisma.shippingRate.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends ShippingRateFindManyArgs>(args?: Prisma.SelectSubset<T, ShippingRateFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ShippingRatePayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a ShippingRate.
+   * @param {ShippingRateCreateArgs} args - Arguments to create a ShippingRate.
+   * @example
+   * // Create one ShippingRate
+   * const ShippingRate = await prisma.shippingRate.create({
+   *   data: {
+   *     // ... data to create a ShippingRate
+   *   }
+   * })
+   * 
+   */
+  create<T extends ShippingRateCreateArgs>(args: Prisma.SelectSubset<T, ShippingRateCreateArgs<ExtArgs>>): Prisma.Prisma__ShippingRateClient<runtime.Types.Result.GetResult<Prisma.$ShippingRatePayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many ShippingRates.
+   * @param {ShippingRateCreateManyArgs} args - Arguments to create many ShippingRates.
+   * @example
+   * // Create many ShippingRates
+   * const shippingRate = await prisma.shippingRate.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends ShippingRateCreateManyArgs>(args?: Prisma.SelectSubset<T, ShippingRateCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many ShippingRates and returns the data saved in the database.
+   * @param {ShippingRateCreateManyAndReturnArgs} args - Arguments to create many ShippingRates.
+   * @example
+   * // Create many ShippingRates
+   * const shippingRate = await prisma.shippingRate.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many ShippingRates and only return the `id`
+   * const shippingRateWithIdOnly = await prisma.shippingRate.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends ShippingRateCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, ShippingRateCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ShippingRatePayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a ShippingRate.
+   * @param {ShippingRateDeleteArgs} args - Arguments to delete one ShippingRate.
+   * @example
+   * // Delete one ShippingRate
+   * const ShippingRate = await prisma.shippingRate.delete({
+   *   where: {
+   *     // ... filter to delete one ShippingRate
+   *   }
+   * })
+   * 
+   */
+  delete<T extends ShippingRateDeleteArgs>(args: Prisma.SelectSubset<T, ShippingRateDeleteArgs<ExtArgs>>): Prisma.Prisma__ShippingRateClient<runtime.Types.Result.GetResult<Prisma.$ShippingRatePayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one ShippingRate.
+   * @param {ShippingRateUpdateArgs} args - Arguments to update one ShippingRate.
+   * @example
+   * // Update one ShippingRate
+   * const shippingRate = await prisma.shippingRate.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends ShippingRateUpdateArgs>(args: Prisma.SelectSubset<T, ShippingRateUpdateArgs<ExtArgs>>): Prisma.Prisma__ShippingRateClient<runtime.Types.Result.GetResult<Prisma.$ShippingRatePayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more ShippingRates.
+   * @param {ShippingRateDeleteManyArgs} args - Arguments to filter ShippingRates to delete.
+   * @example
+   * // Delete a few ShippingRates
+   * const { count } = await prisma.shippingRate.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends ShippingRateDeleteManyArgs>(args?: Prisma.SelectSubset<T, ShippingRateDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more ShippingRates.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ShippingRateUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many ShippingRates
+   * const shippingRate = await prisma.shippingRate.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends ShippingRateUpdateManyArgs>(args: Prisma.SelectSubset<T, ShippingRateUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more ShippingRates and returns the data updated in the database.
+   * @param {ShippingRateUpdateManyAndReturnArgs} args - Arguments to update many ShippingRates.
+   * @example
+   * // Update many ShippingRates
+   * const shippingRate = await prisma.shippingRate.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more ShippingRates and only return the `id`
+   * const shippingRateWithIdOnly = await prisma.shippingRate.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends ShippingRateUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, ShippingRateUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ShippingRatePayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one ShippingRate.
+   * @param {ShippingRateUpsertArgs} args - Arguments to update or create a ShippingRate.
+   * @example
+   * // Update or create a ShippingRate
+   * const shippingRate = await prisma.shippingRate.upsert({
+   *   create: {
+   *     // ... data to create a ShippingRate
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the ShippingRate we want to update
+   *   }
+   * })
+   */
+  upsert<T extends ShippingRateUpsertArgs>(args: Prisma.SelectSubset<T, ShippingRateUpsertArgs<ExtArgs>>): Prisma.Prisma__ShippingRateClient<runtime.Types.Result.GetResult<Prisma.$ShippingRatePayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of ShippingRates.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ShippingRateCountArgs} args - Arguments to filter ShippingRates to count.
+   * @example
+   * // Count the number of ShippingRates
+   * const count = await prisma.shippingRate.count({
+   *   where: {
+   *     // ... the filter for the ShippingRates we want to count
+   *   }
+   * })
+  **/
+  count<T extends ShippingRateCountArgs>(
+    args?: Prisma.Subset<T, ShippingRateCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], ShippingRateCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a ShippingRate.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ShippingRateAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends ShippingRateAggregateArgs>(args: Prisma.Subset<T, ShippingRateAggregateArgs>): Prisma.PrismaPromise<GetShippingRateAggregateType<T>>
+
+  /**
+   * Group by ShippingRate.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ShippingRateGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends ShippingRateGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: ShippingRateGroupByArgs['orderBy'] }
+      : { orderBy?: ShippingRateGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, ShippingRateGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetShippingRateGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the ShippingRate model
+ */
+readonly fields: ShippingRateFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for ShippingRate.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__ShippingRateClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  zone<T extends Prisma.ShippingZoneDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ShippingZoneDefaultArgs<ExtArgs>>): Prisma.Prisma__ShippingZoneClient<runtime.Types.Result.GetResult<Prisma.$ShippingZonePayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the ShippingRate model
+ */
+export interface ShippingRateFieldRefs {
+  readonly id: Prisma.FieldRef<"ShippingRate", 'String'>
+  readonly zoneId: Prisma.FieldRef<"ShippingRate", 'String'>
+  readonly minValue: Prisma.FieldRef<"ShippingRate", 'Decimal'>
+  readonly maxValue: Prisma.FieldRef<"ShippingRate", 'Decimal'>
+  readonly cost: Prisma.FieldRef<"ShippingRate", 'Decimal'>
+}
+    
+
+// Custom InputTypes
+/**
+ * ShippingRate findUnique
+ */
+export type ShippingRateFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShippingRate
+   */
+  select?: Prisma.ShippingRateSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ShippingRate
+   */
+  omit?: Prisma.ShippingRateOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShippingRateInclude<ExtArgs> | null
+  /**
+   * Filter, which ShippingRate to fetch.
+   */
+  where: Prisma.ShippingRateWhereUniqueInput
+}
+
+/**
+ * ShippingRate findUniqueOrThrow
+ */
+export type ShippingRateFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShippingRate
+   */
+  select?: Prisma.ShippingRateSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ShippingRate
+   */
+  omit?: Prisma.ShippingRateOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShippingRateInclude<ExtArgs> | null
+  /**
+   * Filter, which ShippingRate to fetch.
+   */
+  where: Prisma.ShippingRateWhereUniqueInput
+}
+
+/**
+ * ShippingRate findFirst
+ */
+export type ShippingRateFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShippingRate
+   */
+  select?: Prisma.ShippingRateSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ShippingRate
+   */
+  omit?: Prisma.ShippingRateOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShippingRateInclude<ExtArgs> | null
+  /**
+   * Filter, which ShippingRate to fetch.
+   */
+  where?: Prisma.ShippingRateWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ShippingRates to fetch.
+   */
+  orderBy?: Prisma.ShippingRateOrderByWithRelationInput | Prisma.ShippingRateOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for ShippingRates.
+   */
+  cursor?: Prisma.ShippingRateWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ShippingRates from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ShippingRates.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of ShippingRates.
+   */
+  distinct?: Prisma.ShippingRateScalarFieldEnum | Prisma.ShippingRateScalarFieldEnum[]
+}
+
+/**
+ * ShippingRate findFirstOrThrow
+ */
+export type ShippingRateFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShippingRate
+   */
+  select?: Prisma.ShippingRateSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ShippingRate
+   */
+  omit?: Prisma.ShippingRateOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShippingRateInclude<ExtArgs> | null
+  /**
+   * Filter, which ShippingRate to fetch.
+   */
+  where?: Prisma.ShippingRateWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ShippingRates to fetch.
+   */
+  orderBy?: Prisma.ShippingRateOrderByWithRelationInput | Prisma.ShippingRateOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for ShippingRates.
+   */
+  cursor?: Prisma.ShippingRateWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ShippingRates from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ShippingRates.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of ShippingRates.
+   */
+  distinct?: Prisma.ShippingRateScalarFieldEnum | Prisma.ShippingRateScalarFieldEnum[]
+}
+
+/**
+ * ShippingRate findMany
+ */
+export type ShippingRateFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShippingRate
+   */
+  select?: Prisma.ShippingRateSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ShippingRate
+   */
+  omit?: Prisma.ShippingRateOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShippingRateInclude<ExtArgs> | null
+  /**
+   * Filter, which ShippingRates to fetch.
+   */
+  where?: Prisma.ShippingRateWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ShippingRates to fetch.
+   */
+  orderBy?: Prisma.ShippingRateOrderByWithRelationInput | Prisma.ShippingRateOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing ShippingRates.
+   */
+  cursor?: Prisma.ShippingRateWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ShippingRates from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ShippingRates.
+   */
+  skip?: number
+  distinct?: Prisma.ShippingRateScalarFieldEnum | Prisma.ShippingRateScalarFieldEnum[]
+}
+
+/**
+ * ShippingRate create
+ */
+export type ShippingRateCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShippingRate
+   */
+  select?: Prisma.ShippingRateSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ShippingRate
+   */
+  omit?: Prisma.ShippingRateOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShippingRateInclude<ExtArgs> | null
+  /**
+   * The data needed to create a ShippingRate.
+   */
+  data: Prisma.XOR<Prisma.ShippingRateCreateInput, Prisma.ShippingRateUncheckedCreateInput>
+}
+
+/**
+ * ShippingRate createMany
+ */
+export type ShippingRateCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many ShippingRates.
+   */
+  data: Prisma.ShippingRateCreateManyInput | Prisma.ShippingRateCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * ShippingRate createManyAndReturn
+ */
+export type ShippingRateCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShippingRate
+   */
+  select?: Prisma.ShippingRateSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the ShippingRate
+   */
+  omit?: Prisma.ShippingRateOmit<ExtArgs> | null
+  /**
+   * The data used to create many ShippingRates.
+   */
+  data: Prisma.ShippingRateCreateManyInput | Prisma.ShippingRateCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShippingRateIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * ShippingRate update
+ */
+export type ShippingRateUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShippingRate
+   */
+  select?: Prisma.ShippingRateSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ShippingRate
+   */
+  omit?: Prisma.ShippingRateOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShippingRateInclude<ExtArgs> | null
+  /**
+   * The data needed to update a ShippingRate.
+   */
+  data: Prisma.XOR<Prisma.ShippingRateUpdateInput, Prisma.ShippingRateUncheckedUpdateInput>
+  /**
+   * Choose, which ShippingRate to update.
+   */
+  where: Prisma.ShippingRateWhereUniqueInput
+}
+
+/**
+ * ShippingRate updateMany
+ */
+export type ShippingRateUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update ShippingRates.
+   */
+  data: Prisma.XOR<Prisma.ShippingRateUpdateManyMutationInput, Prisma.ShippingRateUncheckedUpdateManyInput>
+  /**
+   * Filter which ShippingRates to update
+   */
+  where?: Prisma.ShippingRateWhereInput
+  /**
+   * Limit how many ShippingRates to update.
+   */
+  limit?: number
+}
+
+/**
+ * ShippingRate updateManyAndReturn
+ */
+export type ShippingRateUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShippingRate
+   */
+  select?: Prisma.ShippingRateSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the ShippingRate
+   */
+  omit?: Prisma.ShippingRateOmit<ExtArgs> | null
+  /**
+   * The data used to update ShippingRates.
+   */
+  data: Prisma.XOR<Prisma.ShippingRateUpdateManyMutationInput, Prisma.ShippingRateUncheckedUpdateManyInput>
+  /**
+   * Filter which ShippingRates to update
+   */
+  where?: Prisma.ShippingRateWhereInput
+  /**
+   * Limit how many ShippingRates to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShippingRateIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * ShippingRate upsert
+ */
+export type ShippingRateUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShippingRate
+   */
+  select?: Prisma.ShippingRateSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ShippingRate
+   */
+  omit?: Prisma.ShippingRateOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShippingRateInclude<ExtArgs> | null
+  /**
+   * The filter to search for the ShippingRate to update in case it exists.
+   */
+  where: Prisma.ShippingRateWhereUniqueInput
+  /**
+   * In case the ShippingRate found by the `where` argument doesn't exist, create a new ShippingRate with this data.
+   */
+  create: Prisma.XOR<Prisma.ShippingRateCreateInput, Prisma.ShippingRateUncheckedCreateInput>
+  /**
+   * In case the ShippingRate was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.ShippingRateUpdateInput, Prisma.ShippingRateUncheckedUpdateInput>
+}
+
+/**
+ * ShippingRate delete
+ */
+export type ShippingRateDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShippingRate
+   */
+  select?: Prisma.ShippingRateSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ShippingRate
+   */
+  omit?: Prisma.ShippingRateOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShippingRateInclude<ExtArgs> | null
+  /**
+   * Filter which ShippingRate to delete.
+   */
+  where: Prisma.ShippingRateWhereUniqueInput
+}
+
+/**
+ * ShippingRate deleteMany
+ */
+export type ShippingRateDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which ShippingRates to delete
+   */
+  where?: Prisma.ShippingRateWhereInput
+  /**
+   * Limit how many ShippingRates to delete.
+   */
+  limit?: number
+}
+
+/**
+ * ShippingRate without action
+ */
+export type ShippingRateDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShippingRate
+   */
+  select?: Prisma.ShippingRateSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ShippingRate
+   */
+  omit?: Prisma.ShippingRateOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShippingRateInclude<ExtArgs> | null
+}
@@ -0,0 +1,1543 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `TaxRate` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums.js"
+import type * as Prisma from "../internal/prismaNamespace.js"
+
+/**
+ * Model TaxRate
+ * 
+ */
+export type TaxRateModel = runtime.Types.Result.DefaultSelection<Prisma.$TaxRatePayload>
+
+export type AggregateTaxRate = {
+  _count: TaxRateCountAggregateOutputType | null
+  _avg: TaxRateAvgAggregateOutputType | null
+  _sum: TaxRateSumAggregateOutputType | null
+  _min: TaxRateMinAggregateOutputType | null
+  _max: TaxRateMaxAggregateOutputType | null
+}
+
+export type TaxRateAvgAggregateOutputType = {
+  rate: runtime.Decimal | null
+}
+
+export type TaxRateSumAggregateOutputType = {
+  rate: runtime.Decimal | null
+}
+
+export type TaxRateMinAggregateOutputType = {
+  id: string | null
+  name: string | null
+  country: string | null
+  categoryId: string | null
+  rate: runtime.Decimal | null
+  priceIncludesTax: boolean | null
+  isActive: boolean | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type TaxRateMaxAggregateOutputType = {
+  id: string | null
+  name: string | null
+  country: string | null
+  categoryId: string | null
+  rate: runtime.Decimal | null
+  priceIncludesTax: boolean | null
+  isActive: boolean | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type TaxRateCountAggregateOutputType = {
+  id: number
+  name: number
+  country: number
+  categoryId: number
+  rate: number
+  priceIncludesTax: number
+  isActive: number
+  createdAt: number
+  updatedAt: number
+  _all: number
+}
+
+
+export type TaxRateAvgAggregateInputType = {
+  rate?: true
+}
+
+export type TaxRateSumAggregateInputType = {
+  rate?: true
+}
+
+export type TaxRateMinAggregateInputType = {
+  id?: true
+  name?: true
+  country?: true
+  categoryId?: true
+  rate?: true
+  priceIncludesTax?: true
+  isActive?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type TaxRateMaxAggregateInputType = {
+  id?: true
+  name?: true
+  country?: true
+  categoryId?: true
+  rate?: true
+  priceIncludesTax?: true
+  isActive?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type TaxRateCountAggregateInputType = {
+  id?: true
+  name?: true
+  country?: true
+  categoryId?: true
+  rate?: true
+  priceIncludesTax?: true
+  isActive?: true
+  createdAt?: true
+  updatedAt?: true
+  _all?: true
+}
+
+export type TaxRateAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which TaxRate to aggregate.
+   */
+  where?: Prisma.TaxRateWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of TaxRates to fetch.
+   */
+  orderBy?: Prisma.TaxRateOrderByWithRelationInput | Prisma.TaxRateOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.TaxRateWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` TaxRates from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` TaxRates.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned TaxRates
+  **/
+  _count?: true | TaxRateCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: TaxRateAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: TaxRateSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: TaxRateMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: TaxRateMaxAggregateInputType
+}
+
+export type GetTaxRateAggregateType<T extends TaxRateAggregateArgs> = {
+      [P in keyof T & keyof AggregateTaxRate]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateTaxRate[P]>
+    : Prisma.GetScalarType<T[P], AggregateTaxRate[P]>
+}
+
+
+
+
+export type TaxRateGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.TaxRateWhereInput
+  orderBy?: Prisma.TaxRateOrderByWithAggregationInput | Prisma.TaxRateOrderByWithAggregationInput[]
+  by: Prisma.TaxRateScalarFieldEnum[] | Prisma.TaxRateScalarFieldEnum
+  having?: Prisma.TaxRateScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: TaxRateCountAggregateInputType | true
+  _avg?: TaxRateAvgAggregateInputType
+  _sum?: TaxRateSumAggregateInputType
+  _min?: TaxRateMinAggregateInputType
+  _max?: TaxRateMaxAggregateInputType
+}
+
+export type TaxRateGroupByOutputType = {
+  id: string
+  name: string
+  country: string
+  categoryId: string | null
+  rate: runtime.Decimal
+  priceIncludesTax: boolean
+  isActive: boolean
+  createdAt: Date
+  updatedAt: Date
+  _count: TaxRateCountAggregateOutputType | null
+  _avg: TaxRateAvgAggregateOutputType | null
+  _sum: TaxRateSumAggregateOutputType | null
+  _min: TaxRateMinAggregateOutputType | null
+  _max: TaxRateMaxAggregateOutputType | null
+}
+
+type GetTaxRateGroupByPayload<T extends TaxRateGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<TaxRateGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof TaxRateGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], TaxRateGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], TaxRateGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type TaxRateWhereInput = {
+  AND?: Prisma.TaxRateWhereInput | Prisma.TaxRateWhereInput[]
+  OR?: Prisma.TaxRateWhereInput[]
+  NOT?: Prisma.TaxRateWhereInput | Prisma.TaxRateWhereInput[]
+  id?: Prisma.StringFilter<"TaxRate"> | string
+  name?: Prisma.StringFilter<"TaxRate"> | string
+  country?: Prisma.StringFilter<"TaxRate"> | string
+  categoryId?: Prisma.StringNullableFilter<"TaxRate"> | string | null
+  rate?: Prisma.DecimalFilter<"TaxRate"> | runtime.Decimal | runtime.DecimalJsLike | number | string
+  priceIncludesTax?: Prisma.BoolFilter<"TaxRate"> | boolean
+  isActive?: Prisma.BoolFilter<"TaxRate"> | boolean
+  createdAt?: Prisma.DateTimeFilter<"TaxRate"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"TaxRate"> | Date | string
+  category?: Prisma.XOR<Prisma.CategoryNullableScalarRelationFilter, Prisma.CategoryWhereInput> | null
+}
+
+export type TaxRateOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  country?: Prisma.SortOrder
+  categoryId?: Prisma.SortOrderInput | Prisma.SortOrder
+  rate?: Prisma.SortOrder
+  priceIncludesTax?: Prisma.SortOrder
+  isActive?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  category?: Prisma.CategoryOrderByWithRelationInput
+}
+
+export type TaxRateWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  AND?: Prisma.TaxRateWhereInput | Prisma.TaxRateWhereInput[]
+  OR?: Prisma.TaxRateWhereInput[]
+  NOT?: Prisma.TaxRateWhereInput | Prisma.TaxRateWhereInput[]
+  name?: Prisma.StringFilter<"TaxRate"> | string
+  country?: Prisma.StringFilter<"TaxRate"> | string
+  categoryId?: Prisma.StringNullableFilter<"TaxRate"> | string | null
+  rate?: Prisma.DecimalFilter<"TaxRate"> | runtime.Decimal | runtime.DecimalJsLike | number | string
+  priceIncludesTax?: Prisma.BoolFilter<"TaxRate"> | boolean
+  isActive?: Prisma.BoolFilter<"TaxRate"> | boolean
+  createdAt?: Prisma.DateTimeFilter<"TaxRate"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"TaxRate"> | Date | string
+  category?: Prisma.XOR<Prisma.CategoryNullableScalarRelationFilter, Prisma.CategoryWhereInput> | null
+}, "id">
+
+export type TaxRateOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  country?: Prisma.SortOrder
+  categoryId?: Prisma.SortOrderInput | Prisma.SortOrder
+  rate?: Prisma.SortOrder
+  priceIncludesTax?: Prisma.SortOrder
+  isActive?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  _count?: Prisma.TaxRateCountOrderByAggregateInput
+  _avg?: Prisma.TaxRateAvgOrderByAggregateInput
+  _max?: Prisma.TaxRateMaxOrderByAggregateInput
+  _min?: Prisma.TaxRateMinOrderByAggregateInput
+  _sum?: Prisma.TaxRateSumOrderByAggregateInput
+}
+
+export type TaxRateScalarWhereWithAggregatesInput = {
+  AND?: Prisma.TaxRateScalarWhereWithAggregatesInput | Prisma.TaxRateScalarWhereWithAggregatesInput[]
+  OR?: Prisma.TaxRateScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.TaxRateScalarWhereWithAggregatesInput | Prisma.TaxRateScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"TaxRate"> | string
+  name?: Prisma.StringWithAggregatesFilter<"TaxRate"> | string
+  country?: Prisma.StringWithAggregatesFilter<"TaxRate"> | string
+  categoryId?: Prisma.StringNullableWithAggregatesFilter<"TaxRate"> | string | null
+  rate?: Prisma.DecimalWithAggregatesFilter<"TaxRate"> | runtime.Decimal | runtime.DecimalJsLike | number | string
+  priceIncludesTax?: Prisma.BoolWithAggregatesFilter<"TaxRate"> | boolean
+  isActive?: Prisma.BoolWithAggregatesFilter<"TaxRate"> | boolean
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"TaxRate"> | Date | string
+  updatedAt?: Prisma.DateTimeWithAggregatesFilter<"TaxRate"> | Date | string
+}
+
+export type TaxRateCreateInput = {
+  id?: string
+  name: string
+  country: string
+  rate: runtime.Decimal | runtime.DecimalJsLike | number | string
+  priceIncludesTax?: boolean
+  isActive?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  category?: Prisma.CategoryCreateNestedOneWithoutTaxRatesInput
+}
+
+export type TaxRateUncheckedCreateInput = {
+  id?: string
+  name: string
+  country: string
+  categoryId?: string | null
+  rate: runtime.Decimal | runtime.DecimalJsLike | number | string
+  priceIncludesTax?: boolean
+  isActive?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type TaxRateUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  country?: Prisma.StringFieldUpdateOperationsInput | string
+  rate?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  priceIncludesTax?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  category?: Prisma.CategoryUpdateOneWithoutTaxRatesNestedInput
+}
+
+export type TaxRateUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  country?: Prisma.StringFieldUpdateOperationsInput | string
+  categoryId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  rate?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  priceIncludesTax?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type TaxRateCreateManyInput = {
+  id?: string
+  name: string
+  country: string
+  categoryId?: string | null
+  rate: runtime.Decimal | runtime.DecimalJsLike | number | string
+  priceIncludesTax?: boolean
+  isActive?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type TaxRateUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  country?: Prisma.StringFieldUpdateOperationsInput | string
+  rate?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  priceIncludesTax?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type TaxRateUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  country?: Prisma.StringFieldUpdateOperationsInput | string
+  categoryId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  rate?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  priceIncludesTax?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type TaxRateListRelationFilter = {
+  every?: Prisma.TaxRateWhereInput
+  some?: Prisma.TaxRateWhereInput
+  none?: Prisma.TaxRateWhereInput
+}
+
+export type TaxRateOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type TaxRateCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  country?: Prisma.SortOrder
+  categoryId?: Prisma.SortOrder
+  rate?: Prisma.SortOrder
+  priceIncludesTax?: Prisma.SortOrder
+  isActive?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type TaxRateAvgOrderByAggregateInput = {
+  rate?: Prisma.SortOrder
+}
+
+export type TaxRateMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  country?: Prisma.SortOrder
+  categoryId?: Prisma.SortOrder
+  rate?: Prisma.SortOrder
+  priceIncludesTax?: Prisma.SortOrder
+  isActive?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type TaxRateMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  country?: Prisma.SortOrder
+  categoryId?: Prisma.SortOrder
+  rate?: Prisma.SortOrder
+  priceIncludesTax?: Prisma.SortOrder
+  isActive?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type TaxRateSumOrderByAggregateInput = {
+  rate?: Prisma.SortOrder
+}
+
+export type TaxRateCreateNestedManyWithoutCategoryInput = {
+  create?: Prisma.XOR<Prisma.TaxRateCreateWithoutCategoryInput, Prisma.TaxRateUncheckedCreateWithoutCategoryInput> | Prisma.TaxRateCreateWithoutCategoryInput[] | Prisma.TaxRateUncheckedCreateWithoutCategoryInput[]
+  connectOrCreate?: Prisma.TaxRateCreateOrConnectWithoutCategoryInput | Prisma.TaxRateCreateOrConnectWithoutCategoryInput[]
+  createMany?: Prisma.TaxRateCreateManyCategoryInputEnvelope
+  connect?: Prisma.TaxRateWhereUniqueInput | Prisma.TaxRateWhereUniqueInput[]
+}
+
+export type TaxRateUncheckedCreateNestedManyWithoutCategoryInput = {
+  create?: Prisma.XOR<Prisma.TaxRateCreateWithoutCategoryInput, Prisma.TaxRateUncheckedCreateWithoutCategoryInput> | Prisma.TaxRateCreateWithoutCategoryInput[] | Prisma.TaxRateUncheckedCreateWithoutCategoryInput[]
+  connectOrCreate?: Prisma.TaxRateCreateOrConnectWithoutCategoryInput | Prisma.TaxRateCreateOrConnectWithoutCategoryInput[]
+  createMany?: Prisma.TaxRateCreateManyCategoryInputEnvelope
+  connect?: Prisma.TaxRateWhereUniqueInput | Prisma.TaxRateWhereUniqueInput[]
+}
+
+export type TaxRateUpdateManyWithoutCategoryNestedInput = {
+  create?: Prisma.XOR<Prisma.TaxRateCreateWithoutCategoryInput, Prisma.TaxRateUncheckedCreateWithoutCategoryInput> | Prisma.TaxRateCreateWithoutCategoryInput[] | Prisma.TaxRateUncheckedCreateWithoutCategoryInput[]
+  connectOrCreate?: Prisma.TaxRateCreateOrConnectWithoutCategoryInput | Prisma.TaxRateCreateOrConnectWithoutCategoryInput[]
+  upsert?: Prisma.TaxRateUpsertWithWhereUniqueWithoutCategoryInput | Prisma.TaxRateUpsertWithWhereUniqueWithoutCategoryInput[]
+  createMany?: Prisma.TaxRateCreateManyCategoryInputEnvelope
+  set?: Prisma.TaxRateWhereUniqueInput | Prisma.TaxRateWhereUniqueInput[]
+  disconnect?: Prisma.TaxRateWhereUniqueInput | Prisma.TaxRateWhereUniqueInput[]
+  delete?: Prisma.TaxRateWhereUniqueInput | Prisma.TaxRateWhereUniqueInput[]
+  connect?: Prisma.TaxRateWhereUniqueInput | Prisma.TaxRateWhereUniqueInput[]
+  update?: Prisma.TaxRateUpdateWithWhereUniqueWithoutCategoryInput | Prisma.TaxRateUpdateWithWhereUniqueWithoutCategoryInput[]
+  updateMany?: Prisma.TaxRateUpdateManyWithWhereWithoutCategoryInput | Prisma.TaxRateUpdateManyWithWhereWithoutCategoryInput[]
+  deleteMany?: Prisma.TaxRateScalarWhereInput | Prisma.TaxRateScalarWhereInput[]
+}
+
+export type TaxRateUncheckedUpdateManyWithoutCategoryNestedInput = {
+  create?: Prisma.XOR<Prisma.TaxRateCreateWithoutCategoryInput, Prisma.TaxRateUncheckedCreateWithoutCategoryInput> | Prisma.TaxRateCreateWithoutCategoryInput[] | Prisma.TaxRateUncheckedCreateWithoutCategoryInput[]
+  connectOrCreate?: Prisma.TaxRateCreateOrConnectWithoutCategoryInput | Prisma.TaxRateCreateOrConnectWithoutCategoryInput[]
+  upsert?: Prisma.TaxRateUpsertWithWhereUniqueWithoutCategoryInput | Prisma.TaxRateUpsertWithWhereUniqueWithoutCategoryInput[]
+  createMany?: Prisma.TaxRateCreateManyCategoryInputEnvelope
+  set?: Prisma.TaxRateWhereUniqueInput | Prisma.TaxRateWhereUniqueInput[]
+  disconnect?: Prisma.TaxRateWhereUniqueInput | Prisma.TaxRateWhereUniqueInput[]
+  delete?: Prisma.TaxRateWhereUniqueInput | Prisma.TaxRateWhereUniqueInput[]
+  connect?: Prisma.TaxRateWhereUniqueInput | Prisma.TaxRateWhereUniqueInput[]
+  update?: Prisma.TaxRateUpdateWithWhereUniqueWithoutCategoryInput | Prisma.TaxRateUpdateWithWhereUniqueWithoutCategoryInput[]
+  updateMany?: Prisma.TaxRateUpdateManyWithWhereWithoutCategoryInput | Prisma.TaxRateUpdateManyWithWhereWithoutCategoryInput[]
+  deleteMany?: Prisma.TaxRateScalarWhereInput | Prisma.TaxRateScalarWhereInput[]
+}
+
+export type TaxRateCreateWithoutCategoryInput = {
+  id?: string
+  name: string
+  country: string
+  rate: runtime.Decimal | runtime.DecimalJsLike | number | string
+  priceIncludesTax?: boolean
+  isActive?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type TaxRateUncheckedCreateWithoutCategoryInput = {
+  id?: string
+  name: string
+  country: string
+  rate: runtime.Decimal | runtime.DecimalJsLike | number | string
+  priceIncludesTax?: boolean
+  isActive?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type TaxRateCreateOrConnectWithoutCategoryInput = {
+  where: Prisma.TaxRateWhereUniqueInput
+  create: Prisma.XOR<Prisma.TaxRateCreateWithoutCategoryInput, Prisma.TaxRateUncheckedCreateWithoutCategoryInput>
+}
+
+export type TaxRateCreateManyCategoryInputEnvelope = {
+  data: Prisma.TaxRateCreateManyCategoryInput | Prisma.TaxRateCreateManyCategoryInput[]
+  skipDuplicates?: boolean
+}
+
+export type TaxRateUpsertWithWhereUniqueWithoutCategoryInput = {
+  where: Prisma.TaxRateWhereUniqueInput
+  update: Prisma.XOR<Prisma.TaxRateUpdateWithoutCategoryInput, Prisma.TaxRateUncheckedUpdateWithoutCategoryInput>
+  create: Prisma.XOR<Prisma.TaxRateCreateWithoutCategoryInput, Prisma.TaxRateUncheckedCreateWithoutCategoryInput>
+}
+
+export type TaxRateUpdateWithWhereUniqueWithoutCategoryInput = {
+  where: Prisma.TaxRateWhereUniqueInput
+  data: Prisma.XOR<Prisma.TaxRateUpdateWithoutCategoryInput, Prisma.TaxRateUncheckedUpdateWithoutCategoryInput>
+}
+
+export type TaxRateUpdateManyWithWhereWithoutCategoryInput = {
+  where: Prisma.TaxRateScalarWhereInput
+  data: Prisma.XOR<Prisma.TaxRateUpdateManyMutationInput, Prisma.TaxRateUncheckedUpdateManyWithoutCategoryInput>
+}
+
+export type TaxRateScalarWhereInput = {
+  AND?: Prisma.TaxRateScalarWhereInput | Prisma.TaxRateScalarWhereInput[]
+  OR?: Prisma.TaxRateScalarWhereInput[]
+  NOT?: Prisma.TaxRateScalarWhereInput | Prisma.TaxRateScalarWhereInput[]
+  id?: Prisma.StringFilter<"TaxRate"> | string
+  name?: Prisma.StringFilter<"TaxRate"> | string
+  country?: Prisma.StringFilter<"TaxRate"> | string
+  categoryId?: Prisma.StringNullableFilter<"TaxRate"> | string | null
+  rate?: Prisma.DecimalFilter<"TaxRate"> | runtime.Decimal | runtime.DecimalJsLike | number | string
+  priceIncludesTax?: Prisma.BoolFilter<"TaxRate"> | boolean
+  isActive?: Prisma.BoolFilter<"TaxRate"> | boolean
+  createdAt?: Prisma.DateTimeFilter<"TaxRate"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"TaxRate"> | Date | string
+}
+
+export type TaxRateCreateManyCategoryInput = {
+  id?: string
+  name: string
+  country: string
+  rate: runtime.Decimal | runtime.DecimalJsLike | number | string
+  priceIncludesTax?: boolean
+  isActive?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type TaxRateUpdateWithoutCategoryInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  country?: Prisma.StringFieldUpdateOperationsInput | string
+  rate?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  priceIncludesTax?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type TaxRateUncheckedUpdateWithoutCategoryInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  country?: Prisma.StringFieldUpdateOperationsInput | string
+  rate?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  priceIncludesTax?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type TaxRateUncheckedUpdateManyWithoutCategoryInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  country?: Prisma.StringFieldUpdateOperationsInput | string
+  rate?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  priceIncludesTax?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type TaxRateSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  name?: boolean
+  country?: boolean
+  categoryId?: boolean
+  rate?: boolean
+  priceIncludesTax?: boolean
+  isActive?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  category?: boolean | Prisma.TaxRate$categoryArgs<ExtArgs>
+}, ExtArgs["result"]["taxRate"]>
+
+export type TaxRateSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  name?: boolean
+  country?: boolean
+  categoryId?: boolean
+  rate?: boolean
+  priceIncludesTax?: boolean
+  isActive?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  category?: boolean | Prisma.TaxRate$categoryArgs<ExtArgs>
+}, ExtArgs["result"]["taxRate"]>
+
+export type TaxRateSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  name?: boolean
+  country?: boolean
+  categoryId?: boolean
+  rate?: boolean
+  priceIncludesTax?: boolean
+  isActive?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  category?: boolean | Prisma.TaxRate$categoryArgs<ExtArgs>
+}, ExtArgs["result"]["taxRate"]>
+
+export type TaxRateSelectScalar = {
+  id?: boolean
+  name?: boolean
+  country?: boolean
+  categoryId?: boolean
+  rate?: boolean
+  priceIncludesTax?: boolean
+  isActive?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}
+
+export type TaxRateOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "name" | "country" | "categoryId" | "rate" | "priceIncludesTax" | "isActive" | "createdAt" | "updatedAt", ExtArgs["result"]["taxRate"]>
+export type TaxRateInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  category?: boolean | Prisma.TaxRate$categoryArgs<ExtArgs>
+}
+export type TaxRateIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  category?: boolean | Prisma.TaxRate$categoryArgs<ExtArgs>
+}
+export type TaxRateIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  category?: boolean | Prisma.TaxRate$categoryArgs<ExtArgs>
+}
+
+export type $TaxRatePayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "TaxRate"
+  objects: {
+    category: Prisma.$CategoryPayload<ExtArgs> | null
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    name: string
+    country: string
+    categoryId: string | null
+    rate: runtime.Decimal
+    priceIncludesTax: boolean
+    isActive: boolean
+    createdAt: Date
+    updatedAt: Date
+  }, ExtArgs["result"]["taxRate"]>
+  composites: {}
+}
+
+export type TaxRateGetPayload<S extends boolean | null | undefined | TaxRateDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$TaxRatePayload, S>
+
+export type TaxRateCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<TaxRateFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: TaxRateCountAggregateInputType | true
+  }
+
+export interface TaxRateDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['TaxRate'], meta: { name: 'TaxRate' } }
+  /**
+   * Find zero or one TaxRate that matches the filter.
+   * @param {TaxRateFindUniqueArgs} args - Arguments to find a TaxRate
+   * @example
+   * // Get one TaxRate
+   * const taxRate = await prisma.taxRate.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends TaxRateFindUniqueArgs>(args: Prisma.SelectSubset<T, TaxRateFindUniqueArgs<ExtArgs>>): Prisma.Prisma__TaxRateClient<runtime.Types.Result.GetResult<Prisma.$TaxRatePayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one TaxRate that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {TaxRateFindUniqueOrThrowArgs} args - Arguments to find a TaxRate
+   * @example
+   * // Get one TaxRate
+   * const taxRate = await prisma.taxRate.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends TaxRateFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, TaxRateFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__TaxRateClient<runtime.Types.Result.GetResult<Prisma.$TaxRatePayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first TaxRate that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {TaxRateFindFirstArgs} args - Arguments to find a TaxRate
+   * @example
+   * // Get one TaxRate
+   * const taxRate = await prisma.taxRate.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends TaxRateFindFirstArgs>(args?: Prisma.SelectSubset<T, TaxRateFindFirstArgs<ExtArgs>>): Prisma.Prisma__TaxRateClient<runtime.Types.Result.GetResult<Prisma.$TaxRatePayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first TaxRate that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {TaxRateFindFirstOrThrowArgs} args - Arguments to find a TaxRate
+   * @example
+   * // Get one TaxRate
+   * const taxRate = await prisma.taxRate.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends TaxRateFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, TaxRateFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__TaxRateClient<runtime.Types.Result.GetResult<Prisma.$TaxRatePayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more TaxRates that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {TaxRateFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all TaxRates
+   * const taxRates = await prisma.taxRate.findMany()
+   * 
+   * // Get first 10 TaxRates
+   * const taxRates = await prisma.taxRate.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const taxRateWithIdOnly = await prisma.taxRate.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends TaxRateFindManyArgs>(args?: Prisma.SelectSubset<T, TaxRateFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$TaxRatePayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a TaxRate.
+   * @param {TaxRateCreateArgs} args - Arguments to create a TaxRate.
+   * @example
+   * // Create one TaxRate
+   * const TaxRate = await prisma.taxRate.create({
+   *   data: {
+   *     // ... data to create a TaxRate
+   *   }
+   * })
+   * 
+   */
+  create<T extends TaxRateCreateArgs>(args: Prisma.SelectSubset<T, TaxRateCreateArgs<ExtArgs>>): Prisma.Prisma__TaxRateClient<runtime.Types.Result.GetResult<Prisma.$TaxRatePayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many TaxRates.
+   * @param {TaxRateCreateManyArgs} args - Arguments to create many TaxRates.
+   * @example
+   * // Create many TaxRates
+   * const taxRate = await prisma.taxRate.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends TaxRateCreateManyArgs>(args?: Prisma.SelectSubset<T, TaxRateCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many TaxRates and returns the data saved in the database.
+   * @param {TaxRateCreateManyAndReturnArgs} args - Arguments to create many TaxRates.
+   * @example
+   * // Create many TaxRates
+   * const taxRate = await prisma.taxRate.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many TaxRates and only return the `id`
+   * const taxRateWithIdOnly = await prisma.taxRate.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends TaxRateCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, TaxRateCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$TaxRatePayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a TaxRate.
+   * @param {TaxRateDeleteArgs} args - Arguments to delete one TaxRate.
+   * @example
+   * // Delete one TaxRate
+   * const TaxRate = await prisma.taxRate.delete({
+   *   where: {
+   *     // ... filter to delete one TaxRate
+   *   }
+   * })
+   * 
+   */
+  delete<T extends TaxRateDeleteArgs>(args: Prisma.SelectSubset<T, TaxRateDeleteArgs<ExtArgs>>): Prisma.Prisma__TaxRateClient<runtime.Types.Result.GetResult<Prisma.$TaxRatePayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one TaxRate.
+   * @param {TaxRateUpdateArgs} args - Arguments to update one TaxRate.
+   * @example
+   * // Update one TaxRate
+   * const taxRate = await prisma.taxRate.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends TaxRateUpdateArgs>(args: Prisma.SelectSubset<T, TaxRateUpdateArgs<ExtArgs>>): Prisma.Prisma__TaxRateClient<runtime.Types.Result.GetResult<Prisma.$TaxRatePayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more TaxRates.
+   * @param {TaxRateDeleteManyArgs} args - Arguments to filter TaxRates to delete.
+   * @example
+   * // Delete a few TaxRates
+   * const { count } = await prisma.taxRate.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends TaxRateDeleteManyArgs>(args?: Prisma.SelectSubset<T, TaxRateDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more TaxRates.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {TaxRateUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many TaxRates
+   * const taxRate = await prisma.taxRate.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends TaxRateUpdateManyArgs>(args: Prisma.SelectSubset<T, TaxRateUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more TaxRates and returns the data updated in the database.
+   * @param {TaxRateUpdateManyAndReturnArgs} args - Arguments to update many TaxRates.
+   * @example
+   * // Update many TaxRates
+   * const taxRate = await prisma.taxRate.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more TaxRates and only return the `id`
+   * const taxRateWithIdOnly = await prisma.taxRate.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends TaxRateUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, TaxRateUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$TaxRatePayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one TaxRate.
+   * @param {TaxRateUpsertArgs} args - Arguments to update or create a TaxRate.
+   * @example
+   * // Update or create a TaxRate
+   * const taxRate = await prisma.taxRate.upsert({
+   *   create: {
+   *     // ... data to create a TaxRate
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the TaxRate we want to update
+   *   }
+   * })
+   */
+  upsert<T extends TaxRateUpsertArgs>(args: Prisma.SelectSubset<T, TaxRateUpsertArgs<ExtArgs>>): Prisma.Prisma__TaxRateClient<runtime.Types.Result.GetResult<Prisma.$TaxRatePayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of TaxRates.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {TaxRateCountArgs} args - Arguments to filter TaxRates to count.
+   * @example
+   * // Count the number of TaxRates
+   * const count = await prisma.taxRate.count({
+   *   where: {
+   *     // ... the filter for the TaxRates we want to count
+   *   }
+   * })
+  **/
+  count<T extends TaxRateCountArgs>(
+    args?: Prisma.Subset<T, TaxRateCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], TaxRateCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a TaxRate.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {TaxRateAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends TaxRateAggregateArgs>(args: Prisma.Subset<T, TaxRateAggregateArgs>): Prisma.PrismaPromise<GetTaxRateAggregateType<T>>
+
+  /**
+   * Group by TaxRate.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {TaxRateGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends TaxRateGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: TaxRateGroupByArgs['orderBy'] }
+      : { orderBy?: TaxRateGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, TaxRateGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetTaxRateGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the TaxRate model
+ */
+readonly fields: TaxRateFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for TaxRate.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__TaxRateClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  category<T extends Prisma.TaxRate$categoryArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.TaxRate$categoryArgs<ExtArgs>>): Prisma.Prisma__CategoryClient<runtime.Types.Result.GetResult<Prisma.$CategoryPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the TaxRate model
+ */
+export interface TaxRateFieldRefs {
+  readonly id: Prisma.FieldRef<"TaxRate", 'String'>
+  readonly name: Prisma.FieldRef<"TaxRate", 'String'>
+  readonly country: Prisma.FieldRef<"TaxRate", 'String'>
+  readonly categoryId: Prisma.FieldRef<"TaxRate", 'String'>
+  readonly rate: Prisma.FieldRef<"TaxRate", 'Decimal'>
+  readonly priceIncludesTax: Prisma.FieldRef<"TaxRate", 'Boolean'>
+  readonly isActive: Prisma.FieldRef<"TaxRate", 'Boolean'>
+  readonly createdAt: Prisma.FieldRef<"TaxRate", 'DateTime'>
+  readonly updatedAt: Prisma.FieldRef<"TaxRate", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * TaxRate findUnique
+ */
+export type TaxRateFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TaxRate
+   */
+  select?: Prisma.TaxRateSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TaxRate
+   */
+  omit?: Prisma.TaxRateOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TaxRateInclude<ExtArgs> | null
+  /**
+   * Filter, which TaxRate to fetch.
+   */
+  where: Prisma.TaxRateWhereUniqueInput
+}
+
+/**
+ * TaxRate findUniqueOrThrow
+ */
+export type TaxRateFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TaxRate
+   */
+  select?: Prisma.TaxRateSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TaxRate
+   */
+  omit?: Prisma.TaxRateOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TaxRateInclude<ExtArgs> | null
+  /**
+   * Filter, which TaxRate to fetch.
+   */
+  where: Prisma.TaxRateWhereUniqueInput
+}
+
+/**
+ * TaxRate findFirst
+ */
+export type TaxRateFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TaxRate
+   */
+  select?: Prisma.TaxRateSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TaxRate
+   */
+  omit?: Prisma.TaxRateOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TaxRateInclude<ExtArgs> | null
+  /**
+   * Filter, which TaxRate to fetch.
+   */
+  where?: Prisma.TaxRateWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of TaxRates to fetch.
+   */
+  orderBy?: Prisma.TaxRateOrderByWithRelationInput | Prisma.TaxRateOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for TaxRates.
+   */
+  cursor?: Prisma.TaxRateWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` TaxRates from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` TaxRates.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of TaxRates.
+   */
+  distinct?: Prisma.TaxRateScalarFieldEnum | Prisma.TaxRateScalarFieldEnum[]
+}
+
+/**
+ * TaxRate findFirstOrThrow
+ */
+export type TaxRateFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TaxRate
+   */
+  select?: Prisma.TaxRateSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TaxRate
+   */
+  omit?: Prisma.TaxRateOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TaxRateInclude<ExtArgs> | null
+  /**
+   * Filter, which TaxRate to fetch.
+   */
+  where?: Prisma.TaxRateWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of TaxRates to fetch.
+   */
+  orderBy?: Prisma.TaxRateOrderByWithRelationInput | Prisma.TaxRateOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for TaxRates.
+   */
+  cursor?: Prisma.TaxRateWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` TaxRates from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` TaxRates.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of TaxRates.
+   */
+  distinct?: Prisma.TaxRateScalarFieldEnum | Prisma.TaxRateScalarFieldEnum[]
+}
+
+/**
+ * TaxRate findMany
+ */
+export type TaxRateFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TaxRate
+   */
+  select?: Prisma.TaxRateSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TaxRate
+   */
+  omit?: Prisma.TaxRateOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TaxRateInclude<ExtArgs> | null
+  /**
+   * Filter, which TaxRates to fetch.
+   */
+  where?: Prisma.TaxRateWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of TaxRates to fetch.
+   */
+  orderBy?: Prisma.TaxRateOrderByWithRelationInput | Prisma.TaxRateOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing TaxRates.
+   */
+  cursor?: Prisma.TaxRateWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` TaxRates from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` TaxRates.
+   */
+  skip?: number
+  distinct?: Prisma.TaxRateScalarFieldEnum | Prisma.TaxRateScalarFieldEnum[]
+}
+
+/**
+ * TaxRate create
+ */
+export type TaxRateCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TaxRate
+   */
+  select?: Prisma.TaxRateSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TaxRate
+   */
+  omit?: Prisma.TaxRateOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TaxRateInclude<ExtArgs> | null
+  /**
+   * The data needed to create a TaxRate.
+   */
+  data: Prisma.XOR<Prisma.TaxRateCreateInput, Prisma.TaxRateUncheckedCreateInput>
+}
+
+/**
+ * TaxRate createMany
+ */
+export type TaxRateCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many TaxRates.
+   */
+  data: Prisma.TaxRateCreateManyInput | Prisma.TaxRateCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * TaxRate createManyAndReturn
+ */
+export type TaxRateCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TaxRate
+   */
+  select?: Prisma.TaxRateSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the TaxRate
+   */
+  omit?: Prisma.TaxRateOmit<ExtArgs> | null
+  /**
+   * The data used to create many TaxRates.
+   */
+  data: Prisma.TaxRateCreateManyInput | Prisma.TaxRateCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TaxRateIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * TaxRate update
+ */
+export type TaxRateUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TaxRate
+   */
+  select?: Prisma.TaxRateSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TaxRate
+   */
+  omit?: Prisma.TaxRateOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TaxRateInclude<ExtArgs> | null
+  /**
+   * The data needed to update a TaxRate.
+   */
+  data: Prisma.XOR<Prisma.TaxRateUpdateInput, Prisma.TaxRateUncheckedUpdateInput>
+  /**
+   * Choose, which TaxRate to update.
+   */
+  where: Prisma.TaxRateWhereUniqueInput
+}
+
+/**
+ * TaxRate updateMany
+ */
+export type TaxRateUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update TaxRates.
+   */
+  data: Prisma.XOR<Prisma.TaxRateUpdateManyMutationInput, Prisma.TaxRateUncheckedUpdateManyInput>
+  /**
+   * Filter which TaxRates to update
+   */
+  where?: Prisma.TaxRateWhereInput
+  /**
+   * Limit how many TaxRates to update.
+   */
+  limit?: number
+}
+
+/**
+ * TaxRate updateManyAndReturn
+ */
+export type TaxRateUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TaxRate
+   */
+  select?: Prisma.TaxRateSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the TaxRate
+   */
+  omit?: Prisma.TaxRateOmit<ExtArgs> | null
+  /**
+   * The data used to update TaxRates.
+   */
+  data: Prisma.XOR<Prisma.TaxRateUpdateManyMutationInput, Prisma.TaxRateUncheckedUpdateManyInput>
+  /**
+   * Filter which TaxRates to update
+   */
+  where?: Prisma.TaxRateWhereInput
+  /**
+   * Limit how many TaxRates to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TaxRateIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * TaxRate upsert
+ */
+export type TaxRateUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TaxRate
+   */
+  select?: Prisma.TaxRateSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TaxRate
+   */
+  omit?: Prisma.TaxRateOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TaxRateInclude<ExtArgs> | null
+  /**
+   * The filter to search for the TaxRate to update in case it exists.
+   */
+  where: Prisma.TaxRateWhereUniqueInput
+  /**
+   * In case the TaxRate found by the `where` argument doesn't exist, create a new TaxRate with this data.
+   */
+  create: Prisma.XOR<Prisma.TaxRateCreateInput, Prisma.TaxRateUncheckedCreateInput>
+  /**
+   * In case the TaxRate was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.TaxRateUpdateInput, Prisma.TaxRateUncheckedUpdateInput>
+}
+
+/**
+ * TaxRate delete
+ */
+export type TaxRateDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TaxRate
+   */
+  select?: Prisma.TaxRateSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TaxRate
+   */
+  omit?: Prisma.TaxRateOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TaxRateInclude<ExtArgs> | null
+  /**
+   * Filter which TaxRate to delete.
+   */
+  where: Prisma.TaxRateWhereUniqueInput
+}
+
+/**
+ * TaxRate deleteMany
+ */
+export type TaxRateDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which TaxRates to delete
+   */
+  where?: Prisma.TaxRateWhereInput
+  /**
+   * Limit how many TaxRates to delete.
+   */
+  limit?: number
+}
+
+/**
+ * TaxRate.category
+ */
+export type TaxRate$categoryArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Category
+   */
+  select?: Prisma.CategorySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Category
+   */
+  omit?: Prisma.CategoryOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CategoryInclude<ExtArgs> | null
+  where?: Prisma.CategoryWhereInput
+}
+
+/**
+ * TaxRate without action
+ */
+export type TaxRateDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TaxRate
+   */
+  select?: Prisma.TaxRateSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TaxRate
+   */
+  omit?: Prisma.TaxRateOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TaxRateInclude<ExtArgs> | null
+}
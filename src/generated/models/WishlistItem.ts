@@ -0,0 +1,1551 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `WishlistItem` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums.js"
+import type * as Prisma from "../internal/prismaNamespace.js"
+
+/**
+ * Model WishlistItem
+ * 
+ */
+export type WishlistItemModel = runtime.Types.Result.DefaultSelection<Prisma.$WishlistItemPayload>
+
+export type AggregateWishlistItem = {
+  _count: WishlistItemCountAggregateOutputType | null
+  _avg: WishlistItemAvgAggregateOutputType | null
+  _sum: WishlistItemSumAggregateOutputType | null
+  _min: WishlistItemMinAggregateOutputType | null
+  _max: WishlistItemMaxAggregateOutputType | null
+}
+
+export type WishlistItemAvgAggregateOutputType = {
+  lastSeenDiscount: runtime.Decimal | null
+}
+
+export type WishlistItemSumAggregateOutputType = {
+  lastSeenDiscount: runtime.Decimal | null
+}
+
+export type WishlistItemMinAggregateOutputType = {
+  id: string | null
+  userId: string | null
+  productId: string | null
+  lastSeenDiscount: runtime.Decimal | null
+  lastSeenActive: boolean | null
+  createdAt: Date | null
+}
+
+export type WishlistItemMaxAggregateOutputType = {
+  id: string | null
+  userId: string | null
+  productId: string | null
+  lastSeenDiscount: runtime.Decimal | null
+  lastSeenActive: boolean | null
+  createdAt: Date | null
+}
+
+export type WishlistItemCountAggregateOutputType = {
+  id: number
+  userId: number
+  productId: number
+  lastSeenDiscount: number
+  lastSeenActive: number
+  createdAt: number
+  _all: number
+}
+
+
+export type WishlistItemAvgAggregateInputType = {
+  lastSeenDiscount?: true
+}
+
+export type WishlistItemSumAggregateInputType = {
+  lastSeenDiscount?: true
+}
+
+export type WishlistItemMinAggregateInputType = {
+  id?: true
+  userId?: true
+  productId?: true
+  lastSeenDiscount?: true
+  lastSeenActive?: true
+  createdAt?: true
+}
+
+export type WishlistItemMaxAggregateInputType = {
+  id?: true
+  userId?: true
+  productId?: true
+  lastSeenDiscount?: true
+  lastSeenActive?: true
+  createdAt?: true
+}
+
+export type WishlistItemCountAggregateInputType = {
+  id?: true
+  userId?: true
+  productId?: true
+  lastSeenDiscount?: true
+  lastSeenActive?: true
+  createdAt?: true
+  _all?: true
+}
+
+export type WishlistItemAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which WishlistItem to aggregate.
+   */
+  where?: Prisma.WishlistItemWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of WishlistItems to fetch.
+   */
+  orderBy?: Prisma.WishlistItemOrderByWithRelationInput | Prisma.WishlistItemOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.WishlistItemWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` WishlistItems from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` WishlistItems.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned WishlistItems
+  **/
+  _count?: true | WishlistItemCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: WishlistItemAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: WishlistItemSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: WishlistItemMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: WishlistItemMaxAggregateInputType
+}
+
+export type GetWishlistItemAggregateType<T extends WishlistItemAggregateArgs> = {
+      [P in keyof T & keyof AggregateWishlistItem]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateWishlistItem[P]>
+    : Prisma.GetScalarType<T[P], AggregateWishlistItem[P]>
+}
+
+
+
+
+export type WishlistItemGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.WishlistItemWhereInput
+  orderBy?: Prisma.WishlistItemOrderByWithAggregationInput | Prisma.WishlistItemOrderByWithAggregationInput[]
+  by: Prisma.WishlistItemScalarFieldEnum[] | Prisma.WishlistItemScalarFieldEnum
+  having?: Prisma.WishlistItemScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: WishlistItemCountAggregateInputType | true
+  _avg?: WishlistItemAvgAggregateInputType
+  _sum?: WishlistItemSumAggregateInputType
+  _min?: WishlistItemMinAggregateInputType
+  _max?: WishlistItemMaxAggregateInputType
+}
+
+export type WishlistItemGroupByOutputType = {
+  id: string
+  userId: string
+  productId: string
+  lastSeenDiscount: runtime.Decimal
+  lastSeenActive: boolean
+  createdAt: Date
+  _count: WishlistItemCountAggregateOutputType | null
+  _avg: WishlistItemAvgAggregateOutputType | null
+  _sum: WishlistItemSumAggregateOutputType | null
+  _min: WishlistItemMinAggregateOutputType | null
+  _max: WishlistItemMaxAggregateOutputType | null
+}
+
+type GetWishlistItemGroupByPayload<T extends WishlistItemGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<WishlistItemGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof WishlistItemGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], WishlistItemGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], WishlistItemGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type WishlistItemWhereInput = {
+  AND?: Prisma.WishlistItemWhereInput | Prisma.WishlistItemWhereInput[]
+  OR?: Prisma.WishlistItemWhereInput[]
+  NOT?: Prisma.WishlistItemWhereInput | Prisma.WishlistItemWhereInput[]
+  id?: Prisma.StringFilter<"WishlistItem"> | string
+  userId?: Prisma.StringFilter<"WishlistItem"> | string
+  productId?: Prisma.StringFilter<"WishlistItem"> | string
+  lastSeenDiscount?: Prisma.DecimalFilter<"WishlistItem"> | runtime.Decimal | runtime.DecimalJsLike | number | string
+  lastSeenActive?: Prisma.BoolFilter<"WishlistItem"> | boolean
+  createdAt?: Prisma.DateTimeFilter<"WishlistItem"> | Date | string
+  user?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
+  product?: Prisma.XOR<Prisma.ProductScalarRelationFilter, Prisma.ProductWhereInput>
+}
+
+export type WishlistItemOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  productId?: Prisma.SortOrder
+  lastSeenDiscount?: Prisma.SortOrder
+  lastSeenActive?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  user?: Prisma.UserOrderByWithRelationInput
+  product?: Prisma.ProductOrderByWithRelationInput
+}
+
+export type WishlistItemWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  userId_productId?: Prisma.WishlistItemUserIdProductIdCompoundUniqueInput
+  AND?: Prisma.WishlistItemWhereInput | Prisma.WishlistItemWhereInput[]
+  OR?: Prisma.WishlistItemWhereInput[]
+  NOT?: Prisma.WishlistItemWhereInput | Prisma.WishlistItemWhereInput[]
+  userId?: Prisma.StringFilter<"WishlistItem"> | string
+  productId?: Prisma.StringFilter<"WishlistItem"> | string
+  lastSeenDiscount?: Prisma.DecimalFilter<"WishlistItem"> | runtime.Decimal | runtime.DecimalJsLike | number | string
+  lastSeenActive?: Prisma.BoolFilter<"WishlistItem"> | boolean
+  createdAt?: Prisma.DateTimeFilter<"WishlistItem"> | Date | string
+  user?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
+  product?: Prisma.XOR<Prisma.ProductScalarRelationFilter, Prisma.ProductWhereInput>
+}, "id" | "userId_productId">
+
+export type WishlistItemOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  productId?: Prisma.SortOrder
+  lastSeenDiscount?: Prisma.SortOrder
+  lastSeenActive?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  _count?: Prisma.WishlistItemCountOrderByAggregateInput
+  _avg?: Prisma.WishlistItemAvgOrderByAggregateInput
+  _max?: Prisma.WishlistItemMaxOrderByAggregateInput
+  _min?: Prisma.WishlistItemMinOrderByAggregateInput
+  _sum?: Prisma.WishlistItemSumOrderByAggregateInput
+}
+
+export type WishlistItemScalarWhereWithAggregatesInput = {
+  AND?: Prisma.WishlistItemScalarWhereWithAggregatesInput | Prisma.WishlistItemScalarWhereWithAggregatesInput[]
+  OR?: Prisma.WishlistItemScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.WishlistItemScalarWhereWithAggregatesInput | Prisma.WishlistItemScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"WishlistItem"> | string
+  userId?: Prisma.StringWithAggregatesFilter<"WishlistItem"> | string
+  productId?: Prisma.StringWithAggregatesFilter<"WishlistItem"> | string
+  lastSeenDiscount?: Prisma.DecimalWithAggregatesFilter<"WishlistItem"> | runtime.Decimal | runtime.DecimalJsLike | number | string
+  lastSeenActive?: Prisma.BoolWithAggregatesFilter<"WishlistItem"> | boolean
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"WishlistItem"> | Date | string
+}
+
+export type WishlistItemCreateInput = {
+  id?: string
+  lastSeenDiscount?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  lastSeenActive?: boolean
+  createdAt?: Date | string
+  user: Prisma.UserCreateNestedOneWithoutWishlistItemsInput
+  product: Prisma.ProductCreateNestedOneWithoutWishlistItemsInput
+}
+
+export type WishlistItemUncheckedCreateInput = {
+  id?: string
+  userId: string
+  productId: string
+  lastSeenDiscount?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  lastSeenActive?: boolean
+  createdAt?: Date | string
+}
+
+export type WishlistItemUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  lastSeenDiscount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  lastSeenActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  user?: Prisma.UserUpdateOneRequiredWithoutWishlistItemsNestedInput
+  product?: Prisma.ProductUpdateOneRequiredWithoutWishlistItemsNestedInput
+}
+
+export type WishlistItemUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  productId?: Prisma.StringFieldUpdateOperationsInput | string
+  lastSeenDiscount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  lastSeenActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type WishlistItemCreateManyInput = {
+  id?: string
+  userId: string
+  productId: string
+  lastSeenDiscount?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  lastSeenActive?: boolean
+  createdAt?: Date | string
+}
+
+export type WishlistItemUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  lastSeenDiscount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  lastSeenActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type WishlistItemUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  productId?: Prisma.StringFieldUpdateOperationsInput | string
+  lastSeenDiscount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  lastSeenActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type WishlistItemListRelationFilter = {
+  every?: Prisma.WishlistItemWhereInput
+  some?: Prisma.WishlistItemWhereInput
+  none?: Prisma.WishlistItemWhereInput
+}
+
+export type WishlistItemOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type WishlistItemUserIdProductIdCompoundUniqueInput = {
+  userId: string
+  productId: string
+}
+
+export type WishlistItemCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  productId?: Prisma.SortOrder
+  lastSeenDiscount?: Prisma.SortOrder
+  lastSeenActive?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type WishlistItemAvgOrderByAggregateInput = {
+  lastSeenDiscount?: Prisma.SortOrder
+}
+
+export type WishlistItemMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  productId?: Prisma.SortOrder
+  lastSeenDiscount?: Prisma.SortOrder
+  lastSeenActive?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type WishlistItemMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  productId?: Prisma.SortOrder
+  lastSeenDiscount?: Prisma.SortOrder
+  lastSeenActive?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type WishlistItemSumOrderByAggregateInput = {
+  lastSeenDiscount?: Prisma.SortOrder
+}
+
+export type WishlistItemCreateNestedManyWithoutUserInput = {
+  create?: Prisma.XOR<Prisma.WishlistItemCreateWithoutUserInput, Prisma.WishlistItemUncheckedCreateWithoutUserInput> | Prisma.WishlistItemCreateWithoutUserInput[] | Prisma.WishlistItemUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.WishlistItemCreateOrConnectWithoutUserInput | Prisma.WishlistItemCreateOrConnectWithoutUserInput[]
+  createMany?: Prisma.WishlistItemCreateManyUserInputEnvelope
+  connect?: Prisma.WishlistItemWhereUniqueInput | Prisma.WishlistItemWhereUniqueInput[]
+}
+
+export type WishlistItemUncheckedCreateNestedManyWithoutUserInput = {
+  create?: Prisma.XOR<Prisma.WishlistItemCreateWithoutUserInput, Prisma.WishlistItemUncheckedCreateWithoutUserInput> | Prisma.WishlistItemCreateWithoutUserInput[] | Prisma.WishlistItemUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.WishlistItemCreateOrConnectWithoutUserInput | Prisma.WishlistItemCreateOrConnectWithoutUserInput[]
+  createMany?: Prisma.WishlistItemCreateManyUserInputEnvelope
+  connect?: Prisma.WishlistItemWhereUniqueInput | Prisma.WishlistItemWhereUniqueInput[]
+}
+
+export type WishlistItemUpdateManyWithoutUserNestedInput = {
+  create?: Prisma.XOR<Prisma.WishlistItemCreateWithoutUserInput, Prisma.WishlistItemUncheckedCreateWithoutUserInput> | Prisma.WishlistItemCreateWithoutUserInput[] | Prisma.WishlistItemUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.WishlistItemCreateOrConnectWithoutUserInput | Prisma.WishlistItemCreateOrConnectWithoutUserInput[]
+  upsert?: Prisma.WishlistItemUpsertWithWhereUniqueWithoutUserInput | Prisma.WishlistItemUpsertWithWhereUniqueWithoutUserInput[]
+  createMany?: Prisma.WishlistItemCreateManyUserInputEnvelope
+  set?: Prisma.WishlistItemWhereUniqueInput | Prisma.WishlistItemWhereUniqueInput[]
+  disconnect?: Prisma.WishlistItemWhereUniqueInput | Prisma.WishlistItemWhereUniqueInput[]
+  delete?: Prisma.WishlistItemWhereUniqueInput | Prisma.WishlistItemWhereUniqueInput[]
+  connect?: Prisma.WishlistItemWhereUniqueInput | Prisma.WishlistItemWhereUniqueInput[]
+  update?: Prisma.WishlistItemUpdateWithWhereUniqueWithoutUserInput | Prisma.WishlistItemUpdateWithWhereUniqueWithoutUserInput[]
+  updateMany?: Prisma.WishlistItemUpdateManyWithWhereWithoutUserInput | Prisma.WishlistItemUpdateManyWithWhereWithoutUserInput[]
+  deleteMany?: Prisma.WishlistItemScalarWhereInput | Prisma.WishlistItemScalarWhereInput[]
+}
+
+export type WishlistItemUncheckedUpdateManyWithoutUserNestedInput = {
+  create?: Prisma.XOR<Prisma.WishlistItemCreateWithoutUserInput, Prisma.WishlistItemUncheckedCreateWithoutUserInput> | Prisma.WishlistItemCreateWithoutUserInput[] | Prisma.WishlistItemUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.WishlistItemCreateOrConnectWithoutUserInput | Prisma.WishlistItemCreateOrConnectWithoutUserInput[]
+  upsert?: Prisma.WishlistItemUpsertWithWhereUniqueWithoutUserInput | Prisma.WishlistItemUpsertWithWhereUniqueWithoutUserInput[]
+  createMany?: Prisma.WishlistItemCreateManyUserInputEnvelope
+  set?: Prisma.WishlistItemWhereUniqueInput | Prisma.WishlistItemWhereUniqueInput[]
+  disconnect?: Prisma.WishlistItemWhereUniqueInput | Prisma.WishlistItemWhereUniqueInput[]
+  delete?: Prisma.WishlistItemWhereUniqueInput | Prisma.WishlistItemWhereUniqueInput[]
+  connect?: Prisma.WishlistItemWhereUniqueInput | Prisma.WishlistItemWhereUniqueInput[]
+  update?: Prisma.WishlistItemUpdateWithWhereUniqueWithoutUserInput | Prisma.WishlistItemUpdateWithWhereUniqueWithoutUserInput[]
+  updateMany?: Prisma.WishlistItemUpdateManyWithWhereWithoutUserInput | Prisma.WishlistItemUpdateManyWithWhereWithoutUserInput[]
+  deleteMany?: Prisma.WishlistItemScalarWhereInput | Prisma.WishlistItemScalarWhereInput[]
+}
+
+export type WishlistItemCreateNestedManyWithoutProductInput = {
+  create?: Prisma.XOR<Prisma.WishlistItemCreateWithoutProductInput, Prisma.WishlistItemUncheckedCreateWithoutProductInput> | Prisma.WishlistItemCreateWithoutProductInput[] | Prisma.WishlistItemUncheckedCreateWithoutProductInput[]
+  connectOrCreate?: Prisma.WishlistItemCreateOrConnectWithoutProductInput | Prisma.WishlistItemCreateOrConnectWithoutProductInput[]
+  createMany?: Prisma.WishlistItemCreateManyProductInputEnvelope
+  connect?: Prisma.WishlistItemWhereUniqueInput | Prisma.WishlistItemWhereUniqueInput[]
+}
+
+export type WishlistItemUncheckedCreateNestedManyWithoutProductInput = {
+  create?: Prisma.XOR<Prisma.WishlistItemCreateWithoutProductInput, Prisma.WishlistItemUncheckedCreateWithoutProductInput> | Prisma.WishlistItemCreateWithoutProductInput[] | Prisma.WishlistItemUncheckedCreateWithoutProductInput[]
+  connectOrCreate?: Prisma.WishlistItemCreateOrConnectWithoutProductInput | Prisma.WishlistItemCreateOrConnectWithoutProductInput[]
+  createMany?: Prisma.WishlistItemCreateManyProductInputEnvelope
+  connect?: Prisma.WishlistItemWhereUniqueInput | Prisma.WishlistItemWhereUniqueInput[]
+}
+
+export type WishlistItemUpdateManyWithoutProductNestedInput = {
+  create?: Prisma.XOR<Prisma.WishlistItemCreateWithoutProductInput, Prisma.WishlistItemUncheckedCreateWithoutProductInput> | Prisma.WishlistItemCreateWithoutProductInput[] | Prisma.WishlistItemUncheckedCreateWithoutProductInput[]
+  connectOrCreate?: Prisma.WishlistItemCreateOrConnectWithoutProductInput | Prisma.WishlistItemCreateOrConnectWithoutProductInput[]
+  upsert?: Prisma.WishlistItemUpsertWithWhereUniqueWithoutProductInput | Prisma.WishlistItemUpsertWithWhereUniqueWithoutProductInput[]
+  createMany?: Prisma.WishlistItemCreateManyProductInputEnvelope
+  set?: Prisma.WishlistItemWhereUniqueInput | Prisma.WishlistItemWhereUniqueInput[]
+  disconnect?: Prisma.WishlistItemWhereUniqueInput | Prisma.WishlistItemWhereUniqueInput[]
+  delete?: Prisma.WishlistItemWhereUniqueInput | Prisma.WishlistItemWhereUniqueInput[]
+  connect?: Prisma.WishlistItemWhereUniqueInput | Prisma.WishlistItemWhereUniqueInput[]
+  update?: Prisma.WishlistItemUpdateWithWhereUniqueWithoutProductInput | Prisma.WishlistItemUpdateWithWhereUniqueWithoutProductInput[]
+  updateMany?: Prisma.WishlistItemUpdateManyWithWhereWithoutProductInput | Prisma.WishlistItemUpdateManyWithWhereWithoutProductInput[]
+  deleteMany?: Prisma.WishlistItemScalarWhereInput | Prisma.WishlistItemScalarWhereInput[]
+}
+
+export type WishlistItemUncheckedUpdateManyWithoutProductNestedInput = {
+  create?: Prisma.XOR<Prisma.WishlistItemCreateWithoutProductInput, Prisma.WishlistItemUncheckedCreateWithoutProductInput> | Prisma.WishlistItemCreateWithoutProductInput[] | Prisma.WishlistItemUncheckedCreateWithoutProductInput[]
+  connectOrCreate?: Prisma.WishlistItemCreateOrConnectWithoutProductInput | Prisma.WishlistItemCreateOrConnectWithoutProductInput[]
+  upsert?: Prisma.WishlistItemUpsertWithWhereUniqueWithoutProductInput | Prisma.WishlistItemUpsertWithWhereUniqueWithoutProductInput[]
+  createMany?: Prisma.WishlistItemCreateManyProductInputEnvelope
+  set?: Prisma.WishlistItemWhereUniqueInput | Prisma.WishlistItemWhereUniqueInput[]
+  disconnect?: Prisma.WishlistItemWhereUniqueInput | Prisma.WishlistItemWhereUniqueInput[]
+  delete?: Prisma.WishlistItemWhereUniqueInput | Prisma.WishlistItemWhereUniqueInput[]
+  connect?: Prisma.WishlistItemWhereUniqueInput | Prisma.WishlistItemWhereUniqueInput[]
+  update?: Prisma.WishlistItemUpdateWithWhereUniqueWithoutProductInput | Prisma.WishlistItemUpdateWithWhereUniqueWithoutProductInput[]
+  updateMany?: Prisma.WishlistItemUpdateManyWithWhereWithoutProductInput | Prisma.WishlistItemUpdateManyWithWhereWithoutProductInput[]
+  deleteMany?: Prisma.WishlistItemScalarWhereInput | Prisma.WishlistItemScalarWhereInput[]
+}
+
+export type WishlistItemCreateWithoutUserInput = {
+  id?: string
+  lastSeenDiscount?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  lastSeenActive?: boolean
+  createdAt?: Date | string
+  product: Prisma.ProductCreateNestedOneWithoutWishlistItemsInput
+}
+
+export type WishlistItemUncheckedCreateWithoutUserInput = {
+  id?: string
+  productId: string
+  lastSeenDiscount?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  lastSeenActive?: boolean
+  createdAt?: Date | string
+}
+
+export type WishlistItemCreateOrConnectWithoutUserInput = {
+  where: Prisma.WishlistItemWhereUniqueInput
+  create: Prisma.XOR<Prisma.WishlistItemCreateWithoutUserInput, Prisma.WishlistItemUncheckedCreateWithoutUserInput>
+}
+
+export type WishlistItemCreateManyUserInputEnvelope = {
+  data: Prisma.WishlistItemCreateManyUserInput | Prisma.WishlistItemCreateManyUserInput[]
+  skipDuplicates?: boolean
+}
+
+export type WishlistItemUpsertWithWhereUniqueWithoutUserInput = {
+  where: Prisma.WishlistItemWhereUniqueInput
+  update: Prisma.XOR<Prisma.WishlistItemUpdateWithoutUserInput, Prisma.WishlistItemUncheckedUpdateWithoutUserInput>
+  create: Prisma.XOR<Prisma.WishlistItemCreateWithoutUserInput, Prisma.WishlistItemUncheckedCreateWithoutUserInput>
+}
+
+export type WishlistItemUpdateWithWhereUniqueWithoutUserInput = {
+  where: Prisma.WishlistItemWhereUniqueInput
+  data: Prisma.XOR<Prisma.WishlistItemUpdateWithoutUserInput, Prisma.WishlistItemUncheckedUpdateWithoutUserInput>
+}
+
+export type WishlistItemUpdateManyWithWhereWithoutUserInput = {
+  where: Prisma.WishlistItemScalarWhereInput
+  data: Prisma.XOR<Prisma.WishlistItemUpdateManyMutationInput, Prisma.WishlistItemUncheckedUpdateManyWithoutUserInput>
+}
+
+export type WishlistItemScalarWhereInput = {
+  AND?: Prisma.WishlistItemScalarWhereInput | Prisma.WishlistItemScalarWhereInput[]
+  OR?: Prisma.WishlistItemScalarWhereInput[]
+  NOT?: Prisma.WishlistItemScalarWhereInput | Prisma.WishlistItemScalarWhereInput[]
+  id?: Prisma.StringFilter<"WishlistItem"> | string
+  userId?: Prisma.StringFilter<"WishlistItem"> | string
+  productId?: Prisma.StringFilter<"WishlistItem"> | string
+  lastSeenDiscount?: Prisma.DecimalFilter<"WishlistItem"> | runtime.Decimal | runtime.DecimalJsLike | number | string
+  lastSeenActive?: Prisma.BoolFilter<"WishlistItem"> | boolean
+  createdAt?: Prisma.DateTimeFilter<"WishlistItem"> | Date | string
+}
+
+export type WishlistItemCreateWithoutProductInput = {
+  id?: string
+  lastSeenDiscount?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  lastSeenActive?: boolean
+  createdAt?: Date | string
+  user: Prisma.UserCreateNestedOneWithoutWishlistItemsInput
+}
+
+export type WishlistItemUncheckedCreateWithoutProductInput = {
+  id?: string
+  userId: string
+  lastSeenDiscount?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  lastSeenActive?: boolean
+  createdAt?: Date | string
+}
+
+export type WishlistItemCreateOrConnectWithoutProductInput = {
+  where: Prisma.WishlistItemWhereUniqueInput
+  create: Prisma.XOR<Prisma.WishlistItemCreateWithoutProductInput, Prisma.WishlistItemUncheckedCreateWithoutProductInput>
+}
+
+export type WishlistItemCreateManyProductInputEnvelope = {
+  data: Prisma.WishlistItemCreateManyProductInput | Prisma.WishlistItemCreateManyProductInput[]
+  skipDuplicates?: boolean
+}
+
+export type WishlistItemUpsertWithWhereUniqueWithoutProductInput = {
+  where: Prisma.WishlistItemWhereUniqueInput
+  update: Prisma.XOR<Prisma.WishlistItemUpdateWithoutProductInput, Prisma.WishlistItemUncheckedUpdateWithoutProductInput>
+  create: Prisma.XOR<Prisma.WishlistItemCreateWithoutProductInput, Prisma.WishlistItemUncheckedCreateWithoutProductInput>
+}
+
+export type WishlistItemUpdateWithWhereUniqueWithoutProductInput = {
+  where: Prisma.WishlistItemWhereUniqueInput
+  data: Prisma.XOR<Prisma.WishlistItemUpdateWithoutProductInput, Prisma.WishlistItemUncheckedUpdateWithoutProductInput>
+}
+
+export type WishlistItemUpdateManyWithWhereWithoutProductInput = {
+  where: Prisma.WishlistItemScalarWhereInput
+  data: Prisma.XOR<Prisma.WishlistItemUpdateManyMutationInput, Prisma.WishlistItemUncheckedUpdateManyWithoutProductInput>
+}
+
+export type WishlistItemCreateManyUserInput = {
+  id?: string
+  productId: string
+  lastSeenDiscount?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  lastSeenActive?: boolean
+  createdAt?: Date | string
+}
+
+export type WishlistItemUpdateWithoutUserInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  lastSeenDiscount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  lastSeenActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  product?: Prisma.ProductUpdateOneRequiredWithoutWishlistItemsNestedInput
+}
+
+export type WishlistItemUncheckedUpdateWithoutUserInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  productId?: Prisma.StringFieldUpdateOperationsInput | string
+  lastSeenDiscount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  lastSeenActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type WishlistItemUncheckedUpdateManyWithoutUserInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  productId?: Prisma.StringFieldUpdateOperationsInput | string
+  lastSeenDiscount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  lastSeenActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type WishlistItemCreateManyProductInput = {
+  id?: string
+  userId: string
+  lastSeenDiscount?: runtime.Decimal | runtime.DecimalJsLike | number | string
+  lastSeenActive?: boolean
+  createdAt?: Date | string
+}
+
+export type WishlistItemUpdateWithoutProductInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  lastSeenDiscount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  lastSeenActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  user?: Prisma.UserUpdateOneRequiredWithoutWishlistItemsNestedInput
+}
+
+export type WishlistItemUncheckedUpdateWithoutProductInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  lastSeenDiscount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  lastSeenActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type WishlistItemUncheckedUpdateManyWithoutProductInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  lastSeenDiscount?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  lastSeenActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type WishlistItemSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  userId?: boolean
+  productId?: boolean
+  lastSeenDiscount?: boolean
+  lastSeenActive?: boolean
+  createdAt?: boolean
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  product?: boolean | Prisma.ProductDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["wishlistItem"]>
+
+export type WishlistItemSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  userId?: boolean
+  productId?: boolean
+  lastSeenDiscount?: boolean
+  lastSeenActive?: boolean
+  createdAt?: boolean
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  product?: boolean | Prisma.ProductDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["wishlistItem"]>
+
+export type WishlistItemSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  userId?: boolean
+  productId?: boolean
+  lastSeenDiscount?: boolean
+  lastSeenActive?: boolean
+  createdAt?: boolean
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  product?: boolean | Prisma.ProductDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["wishlistItem"]>
+
+export type WishlistItemSelectScalar = {
+  id?: boolean
+  userId?: boolean
+  productId?: boolean
+  lastSeenDiscount?: boolean
+  lastSeenActive?: boolean
+  createdAt?: boolean
+}
+
+export type WishlistItemOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "userId" | "productId" | "lastSeenDiscount" | "lastSeenActive" | "createdAt", ExtArgs["result"]["wishlistItem"]>
+export type WishlistItemInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  product?: boolean | Prisma.ProductDefaultArgs<ExtArgs>
+}
+export type WishlistItemIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  product?: boolean | Prisma.ProductDefaultArgs<ExtArgs>
+}
+export type WishlistItemIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  product?: boolean | Prisma.ProductDefaultArgs<ExtArgs>
+}
+
+export type $WishlistItemPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "WishlistItem"
+  objects: {
+    user: Prisma.$UserPayload<ExtArgs>
+    product: Prisma.$ProductPayload<ExtArgs>
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    userId: string
+    productId: string
+    lastSeenDiscount: runtime.Decimal
+    lastSeenActive: boolean
+    createdAt: Date
+  }, ExtArgs["result"]["wishlistItem"]>
+  composites: {}
+}
+
+export type WishlistItemGetPayload<S extends boolean | null | undefined | WishlistItemDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$WishlistItemPayload, S>
+
+export type WishlistItemCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<WishlistItemFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: WishlistItemCountAggregateInputType | true
+  }
+
+export interface WishlistItemDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['WishlistItem'], meta: { name: 'WishlistItem' } }
+  /**
+   * Find zero or one WishlistItem that matches the filter.
+   * @param {WishlistItemFindUniqueArgs} args - Arguments to find a WishlistItem
+   * @example
+   * // Get one WishlistItem
+   * const wishlistItem = await prisma.wishlistItem.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends WishlistItemFindUniqueArgs>(args: Prisma.SelectSubset<T, WishlistItemFindUniqueArgs<ExtArgs>>): Prisma.Prisma__WishlistItemClient<runtime.Types.Result.GetResult<Prisma.$WishlistItemPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one WishlistItem that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {WishlistItemFindUniqueOrThrowArgs} args - Arguments to find a WishlistItem
+   * @example
+   * // Get one WishlistItem
+   * const wishlistItem = await prisma.wishlistItem.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends WishlistItemFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, WishlistItemFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__WishlistItemClient<runtime.Types.Result.GetResult<Prisma.$WishlistItemPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first WishlistItem that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {WishlistItemFindFirstArgs} args - Arguments to find a WishlistItem
+   * @example
+   * // Get one WishlistItem
+   * const wishlistItem = await prisma.wishlistItem.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends WishlistItemFindFirstArgs>(args?: Prisma.SelectSubset<T, WishlistItemFindFirstArgs<ExtArgs>>): Prisma.Prisma__WishlistItemClient<runtime.Types.Result.GetResult<Prisma.$WishlistItemPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first WishlistItem that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {WishlistItemFindFirstOrThrowArgs} args - Arguments to find a WishlistItem
+   * @example
+   * // Get one WishlistItem
+   * const wishlistItem = await prisma.wishlistItem.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends WishlistItemFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, WishlistItemFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__WishlistItemClient<runtime.Types.Result.GetResult<Prisma.$WishlistItemPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more WishlistItems that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {WishlistItemFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all WishlistItems
+   * const wishlistItems = await prisma.wishlistItem.findMany()
+   * 
+   * // Get first 10 WishlistItems
+   * const wishlistItems = await prisma.wishlistItem.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const wishlistItemWithIdOnly = await prisma.wishlistItem.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends WishlistItemFindManyArgs>(args?: Prisma.SelectSubset<T, WishlistItemFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$WishlistItemPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a WishlistItem.
+   * @param {WishlistItemCreateArgs} args - Arguments to create a WishlistItem.
+   * @example
+   * // Create one WishlistItem
+   * const WishlistItem = await prisma.wishlistItem.create({
+   *   data: {
+   *     // ... data to create a WishlistItem
+   *   }
+   * })
+   * 
+   */
+  create<T extends WishlistItemCreateArgs>(args: Prisma.SelectSubset<T, WishlistItemCreateArgs<ExtArgs>>): Prisma.Prisma__WishlistItemClient<runtime.Types.Result.GetResult<Prisma.$WishlistItemPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many WishlistItems.
+   * @param {WishlistItemCreateManyArgs} args - Arguments to create many WishlistItems.
+   * @example
+   * // Create many WishlistItems
+   * const wishlistItem = await prisma.wishlistItem.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends WishlistItemCreateManyArgs>(args?: Prisma.SelectSubset<T, WishlistItemCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many WishlistItems and returns the data saved in the database.
+   * @param {WishlistItemCreateManyAndReturnArgs} args - Arguments to create many WishlistItems.
+   * @example
+   * // Create many WishlistItems
+   * const wishlistItem = await prisma.wishlistItem.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many WishlistItems and only return the `id`
+   * const wishlistItemWithIdOnly = await prisma.wishlistItem.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends WishlistItemCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, WishlistItemCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$WishlistItemPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a WishlistItem.
+   * @param {WishlistItemDeleteArgs} args - Arguments to delete one WishlistItem.
+   * @example
+   * // Delete one WishlistItem
+   * const WishlistItem = await prisma.wishlistItem.delete({
+   *   where: {
+   *     // ... filter to delete one WishlistItem
+   *   }
+   * })
+   * 
+   */
+  delete<T extends WishlistItemDeleteArgs>(args: Prisma.SelectSubset<T, WishlistItemDeleteArgs<ExtArgs>>): Prisma.Prisma__WishlistItemClient<runtime.Types.Result.GetResult<Prisma.$WishlistItemPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one WishlistItem.
+   * @param {WishlistItemUpdateArgs} args - Arguments to update one WishlistItem.
+   * @example
+   * // Update one WishlistItem
+   * const wishlistItem = await prisma.wishlistItem.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends WishlistItemUpdateArgs>(args: Prisma.SelectSubset<T, WishlistItemUpdateArgs<ExtArgs>>): Prisma.Prisma__WishlistItemClient<runtime.Types.Result.GetResult<Prisma.$WishlistItemPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more WishlistItems.
+   * @param {WishlistItemDeleteManyArgs} args - Arguments to filter WishlistItems to delete.
+   * @example
+   * // Delete a few WishlistItems
+   * const { count } = await prisma.wishlistItem.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends WishlistItemDeleteManyArgs>(args?: Prisma.SelectSubset<T, WishlistItemDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more WishlistItems.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {WishlistItemUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many WishlistItems
+   * const wishlistItem = await prisma.wishlistItem.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends WishlistItemUpdateManyArgs>(args: Prisma.SelectSubset<T, WishlistItemUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more WishlistItems and returns the data updated in the database.
+   * @param {WishlistItemUpdateManyAndReturnArgs} args - Arguments to update many WishlistItems.
+   * @example
+   * // Update many WishlistItems
+   * const wishlistItem = await prisma.wishlistItem.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more WishlistItems and only return the `id`
+   * const wishlistItemWithIdOnly = await prisma.wishlistItem.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends WishlistItemUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, WishlistItemUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$WishlistItemPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one WishlistItem.
+   * @param {WishlistItemUpsertArgs} args - Arguments to update or create a WishlistItem.
+   * @example
+   * // Update or create a WishlistItem
+   * const wishlistItem = await prisma.wishlistItem.upsert({
+   *   create: {
+   *     // ... data to create a WishlistItem
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the WishlistItem we want to update
+   *   }
+   * })
+   */
+  upsert<T extends WishlistItemUpsertArgs>(args: Prisma.SelectSubset<T, WishlistItemUpsertArgs<ExtArgs>>): Prisma.Prisma__WishlistItemClient<runtime.Types.Result.GetResult<Prisma.$WishlistItemPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of WishlistItems.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {WishlistItemCountArgs} args - Arguments to filter WishlistItems to count.
+   * @example
+   * // Count the number of WishlistItems
+   * const count = await prisma.wishlistItem.count({
+   *   where: {
+   *     // ... the filter for the WishlistItems we want to count
+   *   }
+   * })
+  **/
+  count<T extends WishlistItemCountArgs>(
+    args?: Prisma.Subset<T, WishlistItemCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], WishlistItemCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a WishlistItem.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {WishlistItemAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends WishlistItemAggregateArgs>(args: Prisma.Subset<T, WishlistItemAggregateArgs>): Prisma.PrismaPromise<GetWishlistItemAggregateType<T>>
+
+  /**
+   * Group by WishlistItem.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {WishlistItemGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends WishlistItemGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: WishlistItemGroupByArgs['orderBy'] }
+      : { orderBy?: WishlistItemGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, WishlistItemGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetWishlistItemGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the WishlistItem model
+ */
+readonly fields: WishlistItemFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for WishlistItem.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__WishlistItemClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  user<T extends Prisma.UserDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.UserDefaultArgs<ExtArgs>>): Prisma.Prisma__UserClient<runtime.Types.Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  product<T extends Prisma.ProductDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ProductDefaultArgs<ExtArgs>>): Prisma.Prisma__ProductClient<runtime.Types.Result.GetResult<Prisma.$ProductPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the WishlistItem model
+ */
+export interface WishlistItemFieldRefs {
+  readonly id: Prisma.FieldRef<"WishlistItem", 'String'>
+  readonly userId: Prisma.FieldRef<"WishlistItem", 'String'>
+  readonly productId: Prisma.FieldRef<"WishlistItem", 'String'>
+  readonly lastSeenDiscount: Prisma.FieldRef<"WishlistItem", 'Decimal'>
+  readonly lastSeenActive: Prisma.FieldRef<"WishlistItem", 'Boolean'>
+  readonly createdAt: Prisma.FieldRef<"WishlistItem", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * WishlistItem findUnique
+ */
+export type WishlistItemFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WishlistItem
+   */
+  select?: Prisma.WishlistItemSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WishlistItem
+   */
+  omit?: Prisma.WishlistItemOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WishlistItemInclude<ExtArgs> | null
+  /**
+   * Filter, which WishlistItem to fetch.
+   */
+  where: Prisma.WishlistItemWhereUniqueInput
+}
+
+/**
+ * WishlistItem findUniqueOrThrow
+ */
+export type WishlistItemFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WishlistItem
+   */
+  select?: Prisma.WishlistItemSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WishlistItem
+   */
+  omit?: Prisma.WishlistItemOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WishlistItemInclude<ExtArgs> | null
+  /**
+   * Filter, which WishlistItem to fetch.
+   */
+  where: Prisma.WishlistItemWhereUniqueInput
+}
+
+/**
+ * WishlistItem findFirst
+ */
+export type WishlistItemFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WishlistItem
+   */
+  select?: Prisma.WishlistItemSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WishlistItem
+   */
+  omit?: Prisma.WishlistItemOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WishlistItemInclude<ExtArgs> | null
+  /**
+   * Filter, which WishlistItem to fetch.
+   */
+  where?: Prisma.WishlistItemWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of WishlistItems to fetch.
+   */
+  orderBy?: Prisma.WishlistItemOrderByWithRelationInput | Prisma.WishlistItemOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for WishlistItems.
+   */
+  cursor?: Prisma.WishlistItemWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` WishlistItems from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` WishlistItems.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of WishlistItems.
+   */
+  distinct?: Prisma.WishlistItemScalarFieldEnum | Prisma.WishlistItemScalarFieldEnum[]
+}
+
+/**
+ * WishlistItem findFirstOrThrow
+ */
+export type WishlistItemFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WishlistItem
+   */
+  select?: Prisma.WishlistItemSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WishlistItem
+   */
+  omit?: Prisma.WishlistItemOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WishlistItemInclude<ExtArgs> | null
+  /**
+   * Filter, which WishlistItem to fetch.
+   */
+  where?: Prisma.WishlistItemWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of WishlistItems to fetch.
+   */
+  orderBy?: Prisma.WishlistItemOrderByWithRelationInput | Prisma.WishlistItemOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for WishlistItems.
+   */
+  cursor?: Prisma.WishlistItemWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` WishlistItems from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` WishlistItems.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of WishlistItems.
+   */
+  distinct?: Prisma.WishlistItemScalarFieldEnum | Prisma.WishlistItemScalarFieldEnum[]
+}
+
+/**
+ * WishlistItem findMany
+ */
+export type WishlistItemFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WishlistItem
+   */
+  select?: Prisma.WishlistItemSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WishlistItem
+   */
+  omit?: Prisma.WishlistItemOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WishlistItemInclude<ExtArgs> | null
+  /**
+   * Filter, which WishlistItems to fetch.
+   */
+  where?: Prisma.WishlistItemWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of WishlistItems to fetch.
+   */
+  orderBy?: Prisma.WishlistItemOrderByWithRelationInput | Prisma.WishlistItemOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing WishlistItems.
+   */
+  cursor?: Prisma.WishlistItemWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` WishlistItems from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` WishlistItems.
+   */
+  skip?: number
+  distinct?: Prisma.WishlistItemScalarFieldEnum | Prisma.WishlistItemScalarFieldEnum[]
+}
+
+/**
+ * WishlistItem create
+ */
+export type WishlistItemCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WishlistItem
+   */
+  select?: Prisma.WishlistItemSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WishlistItem
+   */
+  omit?: Prisma.WishlistItemOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WishlistItemInclude<ExtArgs> | null
+  /**
+   * The data needed to create a WishlistItem.
+   */
+  data: Prisma.XOR<Prisma.WishlistItemCreateInput, Prisma.WishlistItemUncheckedCreateInput>
+}
+
+/**
+ * WishlistItem createMany
+ */
+export type WishlistItemCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many WishlistItems.
+   */
+  data: Prisma.WishlistItemCreateManyInput | Prisma.WishlistItemCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * WishlistItem createManyAndReturn
+ */
+export type WishlistItemCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WishlistItem
+   */
+  select?: Prisma.WishlistItemSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the WishlistItem
+   */
+  omit?: Prisma.WishlistItemOmit<ExtArgs> | null
+  /**
+   * The data used to create many WishlistItems.
+   */
+  data: Prisma.WishlistItemCreateManyInput | Prisma.WishlistItemCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WishlistItemIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * WishlistItem update
+ */
+export type WishlistItemUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WishlistItem
+   */
+  select?: Prisma.WishlistItemSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WishlistItem
+   */
+  omit?: Prisma.WishlistItemOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WishlistItemInclude<ExtArgs> | null
+  /**
+   * The data needed to update a WishlistItem.
+   */
+  data: Prisma.XOR<Prisma.WishlistItemUpdateInput, Prisma.WishlistItemUncheckedUpdateInput>
+  /**
+   * Choose, which WishlistItem to update.
+   */
+  where: Prisma.WishlistItemWhereUniqueInput
+}
+
+/**
+ * WishlistItem updateMany
+ */
+export type WishlistItemUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update WishlistItems.
+   */
+  data: Prisma.XOR<Prisma.WishlistItemUpdateManyMutationInput, Prisma.WishlistItemUncheckedUpdateManyInput>
+  /**
+   * Filter which WishlistItems to update
+   */
+  where?: Prisma.WishlistItemWhereInput
+  /**
+   * Limit how many WishlistItems to update.
+   */
+  limit?: number
+}
+
+/**
+ * WishlistItem updateManyAndReturn
+ */
+export type WishlistItemUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WishlistItem
+   */
+  select?: Prisma.WishlistItemSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the WishlistItem
+   */
+  omit?: Prisma.WishlistItemOmit<ExtArgs> | null
+  /**
+   * The data used to update WishlistItems.
+   */
+  data: Prisma.XOR<Prisma.WishlistItemUpdateManyMutationInput, Prisma.WishlistItemUncheckedUpdateManyInput>
+  /**
+   * Filter which WishlistItems to update
+   */
+  where?: Prisma.WishlistItemWhereInput
+  /**
+   * Limit how many WishlistItems to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WishlistItemIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * WishlistItem upsert
+ */
+export type WishlistItemUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WishlistItem
+   */
+  select?: Prisma.WishlistItemSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WishlistItem
+   */
+  omit?: Prisma.WishlistItemOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WishlistItemInclude<ExtArgs> | null
+  /**
+   * The filter to search for the WishlistItem to update in case it exists.
+   */
+  where: Prisma.WishlistItemWhereUniqueInput
+  /**
+   * In case the WishlistItem found by the `where` argument doesn't exist, create a new WishlistItem with this data.
+   */
+  create: Prisma.XOR<Prisma.WishlistItemCreateInput, Prisma.WishlistItemUncheckedCreateInput>
+  /**
+   * In case the WishlistItem was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.WishlistItemUpdateInput, Prisma.WishlistItemUncheckedUpdateInput>
+}
+
+/**
+ * WishlistItem delete
+ */
+export type WishlistItemDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WishlistItem
+   */
+  select?: Prisma.WishlistItemSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WishlistItem
+   */
+  omit?: Prisma.WishlistItemOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WishlistItemInclude<ExtArgs> | null
+  /**
+   * Filter which WishlistItem to delete.
+   */
+  where: Prisma.WishlistItemWhereUniqueInput
+}
+
+/**
+ * WishlistItem deleteMany
+ */
+export type WishlistItemDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which WishlistItems to delete
+   */
+  where?: Prisma.WishlistItemWhereInput
+  /**
+   * Limit how many WishlistItems to delete.
+   */
+  limit?: number
+}
+
+/**
+ * WishlistItem without action
+ */
+export type WishlistItemDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WishlistItem
+   */
+  select?: Prisma.WishlistItemSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WishlistItem
+   */
+  omit?: Prisma.WishlistItemOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WishlistItemInclude<ExtArgs> | null
+}
@@ -0,0 +1,16 @@
+import { IsNotEmpty, IsString, MinLength } from 'class-validator';
+
+export class ConvertGuestDto {
+  /**
+   * Token del link para crear la cuenta, enviado por email al finalizar la
+   * compra (ver POST /guest/checkout)
+   */
+  @IsString()
+  @IsNotEmpty()
+  token: string;
+
+  @IsString()
+  @IsNotEmpty({ message: 'Password is required' })
+  @MinLength(5, { message: 'Password must be at least 5 characters long' })
+  password: string;
+}
@@ -0,0 +1,54 @@
+import {
+  IsEmail,
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { PaymentProvider } from '../../generated/enums.js';
+import { CreateAddressDto } from '../../addresses/dto/create-address.dto.js';
+
+export class GuestCheckoutDto {
+  @IsEmail()
+  email: string;
+
+  @IsString()
+  @IsNotEmpty()
+  firstName: string;
+
+  @IsString()
+  @IsOptional()
+  lastName?: string;
+
+  @IsString()
+  @IsOptional()
+  phoneNumber?: string;
+
+  @ValidateNested()
+  @Type(() => CreateAddressDto)
+  address: CreateAddressDto;
+
+  @IsString()
+  @IsNotEmpty()
+  clientTransactionId: string;
+
+  /**
+   * Solo proveedores con checkout alojado o link de pago (ej: Mercado Pago,
+   * Stripe, Payphone).
+   */
+  @IsEnum(PaymentProvider)
+  paymentProvider: PaymentProvider;
+
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  installments?: number;
+
+  @IsString()
+  @IsOptional()
+  couponCode?: string;
+}
@@ -0,0 +1,143 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Patch,
+  Post,
+  Query,
+  Res,
+} from '@nestjs/common';
+import type { Response } from 'express';
+import { GuestCheckoutService } from './guest-checkout.service.js';
+import { CartService } from '../cart/cart.service.js';
+import { AddToCartDto } from '../cart/dto/add-to-cart.dto.js';
+import { UpdateCartItemDto } from '../cart/dto/update-cart-item.dto.js';
+import {
+  GuestCartToken,
+  GUEST_CART_COOKIE,
+} from '../cart/decorators/guest-cart-token.decorator.js';
+import { GuestCheckoutDto } from './dto/guest-checkout.dto.js';
+import { ConvertGuestDto } from './dto/convert-guest.dto.js';
+import { Public } from '../auth/decorators/public.decorator.js';
+
+/**
+ * Compra sin cuenta: carrito de invitado, checkout y link del pedido.
+ * El carrito se identifica con el token de POST /guest/cart, enviado en el
+ * header X-Guest-Token o en la cookie guestCartToken. Sirve también como
+ * carrito anónimo antes del login: al iniciar sesión o registrarse sus
+ * items pasan al carrito del usuario.
+ */
+@Controller('guest')
+@Public()
+export class GuestCheckoutController {
+  constructor(
+    private readonly guestCheckoutService: GuestCheckoutService,
+    private readonly cartService: CartService,
+  ) {}
+
+  @Post('cart')
+  async createCart(@Res({ passthrough: true }) response: Response) {
+    const { token } = await this.cartService.createGuestCart();
+    response.cookie(GUEST_CART_COOKIE, token, {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'lax',
+      maxAge: 30 * 24 * 60 * 60 * 1000, // 30 días
+    });
+
+    return {
+      message: 'Carrito de invitado creado',
+      data: { token },
+    };
+  }
+
+  @Get('cart')
+  async findCart(@GuestCartToken() token?: string) {
+    const guestCartId = await this.cartService.resolveGuestCart(token);
+    return this.cartService.findGuestCart(guestCartId);
+  }
+
+  @Post('cart/items')
+  async addToCart(
+    @GuestCartToken() token: string | undefined,
+    @Body() addToCartDto: AddToCartDto,
+  ) {
+    const guestCartId = await this.cartService.resolveGuestCart(token);
+    return this.cartService.addToGuestCart(guestCartId, addToCartDto);
+  }
+
+  @Patch('cart/items/:id')
+  async updateItem(
+    @Param('id') id: string,
+    @GuestCartToken() token: string | undefined,
+    @Body() updateCartItemDto: UpdateCartItemDto,
+  ) {
+    const guestCartId = await this.cartService.resolveGuestCart(token);
+    return this.cartService.updateGuestItem(id, guestCartId, updateCartItemDto);
+  }
+
+  @Delete('cart/items/:id')
+  async removeItem(@Param('id') id: string, @GuestCartToken() token?: string) {
+    const guestCartId = await this.cartService.resolveGuestCart(token);
+    return this.cartService.removeGuestItem(id, guestCartId);
+  }
+
+  @Get('cart/changes')
+  async findCartChanges(@GuestCartToken() token?: string) {
+    const guestCartId = await this.cartService.resolveGuestCart(token);
+    return this.cartService.findGuestChanges(guestCartId);
+  }
+
+  @Post('cart/changes/acknowledge')
+  async acknowledgeCartChanges(@GuestCartToken() token?: string) {
+    const guestCartId = await this.cartService.resolveGuestCart(token);
+    return this.cartService.acknowledgeGuestChanges(guestCartId);
+  }
+
+  @Post('checkout')
+  async checkout(
+    @GuestCartToken() token: string | undefined,
+    @Body() guestCheckoutDto: GuestCheckoutDto,
+    @Res({ passthrough: true }) response: Response,
+  ) {
+    const guestCartId = await this.cartService.resolveGuestCart(token);
+    const result = await this.guestCheckoutService.checkout(
+      guestCartId,
+      guestCheckoutDto,
+    );
+    response.clearCookie(GUEST_CART_COOKIE);
+
+    return result;
+  }
+
+  @Get('orders/:id')
+  findOrder(@Param('id') id: string, @Query('token') token?: string) {
+    return this.guestCheckoutService.getOrder(id, token);
+  }
+
+  /**
+   * Crea la cuenta del invitado desde el link del email e inicia la sesión.
+   */
+  @Post('account')
+  async convertToUser(
+    @Body() convertGuestDto: ConvertGuestDto,
+    @GuestCartToken() guestCartToken: string | undefined,
+    @Res({ passthrough: true }) response: Response,
+  ) {
+    const result = await this.guestCheckoutService.convertToUser(
+      convertGuestDto,
+      guestCartToken,
+    );
+    response.clearCookie(GUEST_CART_COOKIE);
+    response.cookie('refreshToken', result.data.refreshToken, {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'strict',
+      maxAge: 7 * 24 * 60 * 60 * 1000, // 7 días
+    });
+
+    return result;
+  }
+}
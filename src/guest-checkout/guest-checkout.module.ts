@@ -0,0 +1,28 @@
+import { Module } from '@nestjs/common';
+import { JwtModule } from '@nestjs/jwt';
+import { GuestCheckoutController } from './guest-checkout.controller.js';
+import { GuestCheckoutService } from './guest-checkout.service.js';
+import { PrismaModule } from '../prisma/prisma.module.js';
+import { CartModule } from '../cart/cart.module.js';
+import { CouponsModule } from '../coupons/coupons.module.js';
+import { PaymentsModule } from '../payments/payments.module.js';
+import { OrdersModule } from '../orders/orders.module.js';
+import { AuthModule } from '../auth/auth.module.js';
+import { EmailModule } from '../email/email.module.js';
+
+@Module({
+  imports: [
+    PrismaModule,
+    CartModule,
+    CouponsModule,
+    PaymentsModule,
+    OrdersModule,
+    AuthModule,
+    EmailModule,
+    // Tokens del link del pedido, firmados con GUEST_TOKEN_SECRET
+    JwtModule.register({}),
+  ],
+  controllers: [GuestCheckoutController],
+  providers: [GuestCheckoutService],
+})
+export class GuestCheckoutModule {}
@@ -0,0 +1,304 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import type { StringValue } from 'ms';
+import { PrismaService } from '../prisma/prisma.service.js';
+import { CartService } from '../cart/cart.service.js';
+import { CouponsService } from '../coupons/coupons.service.js';
+import { PaymentsService } from '../payments/payments.service.js';
+import { PaymentProviderRegistry } from '../payments/providers/payment-provider.registry.js';
+import { OrdersService } from '../orders/orders.service.js';
+import { AuthService } from '../auth/auth.service.js';
+import { EmailService } from '../email/email.service.js';
+import { UserRole } from '../generated/enums.js';
+import { getGuestTokenSecret } from '../common/helpers/guest-token.helper.js';
+import { assertNoCartChanges } from '../cart/helpers/cart-changes.helper.js';
+import { GuestCheckoutDto } from './dto/guest-checkout.dto.js';
+import { ConvertGuestDto } from './dto/convert-guest.dto.js';
+
+// Tipos de token de los links del email (distinguen del token del carrito)
+const GUEST_ORDER_TOKEN_TYPE = 'guest-order';
+const GUEST_ACCOUNT_TOKEN_TYPE = 'guest-account';
+
+/**
+ * Servicio de compra como invitado.
+ * Responsabilidad única: crear la orden de un comprador sin cuenta y darle
+ * acceso a ella con un link firmado.
+ *
+ * Al finalizar la compra se crea (o reutiliza) un usuario invitado con el
+ * email indicado, sin contraseña y sin acceso al login: la orden, la
+ * transacción y los proveedores de pago funcionan igual que para cualquier
+ * usuario. Los links del pedido y para crear la cuenta solo se envían al
+ * email, así que acceder a ellos demuestra que el comprador es su dueño.
+ */
+@Injectable()
+export class GuestCheckoutService {
+  constructor(
+    private prisma: PrismaService,
+    private jwtService: JwtService,
+    private configService: ConfigService,
+    private cartService: CartService,
+    private couponsService: CouponsService,
+    private paymentsService: PaymentsService,
+    private providerRegistry: PaymentProviderRegistry,
+    private ordersService: OrdersService,
+    private authService: AuthService,
+    private emailService: EmailService,
+  ) {}
+
+  /**
+   * Crea la orden y el pago con los items del carrito de invitado.
+   * Solo admite proveedores con checkout alojado o link de pago: devuelve la
+   * URL a la que redirigir al comprador. Los links para ver el pedido y crear
+   * la cuenta se envían solo por email.
+   */
+  async checkout(guestCartId: string, dto: GuestCheckoutDto) {
+    const { capabilities, displayName } = this.providerRegistry.get(
+      dto.paymentProvider,
+    );
+    if (!capabilities.redirect && !capabilities.paymentLinks) {
+      throw new BadRequestException(
+        `El pago con ${displayName} no está disponible para compras como invitado`,
+      );
+    }
+
+    const itemsCount = await this.prisma.guestCartItem.count({
+      where: { guestCartId },
+    });
+    if (itemsCount === 0) {
+      throw new BadRequestException('El carrito está vacío');
+    }
+
+    const { changes } = await this.cartService.findGuestChanges(guestCartId);
+    assertNoCartChanges(changes);
+
+    const user = await this.findOrCreateGuestUser(dto);
+    const address = await this.prisma.address.create({
+      data: { ...dto.address, isDefault: false, userId: user.id },
+    });
+
+    // Los items pasan al carrito del invitado para usar el mismo cálculo del
+    // total y la misma creación de la orden que un usuario registrado
+    await this.cartService.clearCart(user.id);
+    await this.cartService.mergeGuestCart(guestCartId, user.id);
+
+    if (dto.couponCode) {
+      await this.couponsService.applyToCart(user.id, dto.couponCode);
+    }
+
+    const result = await this.paymentsService.createTransactionAndOrder(
+      user.id,
+      {
+        clientTransactionId: dto.clientTransactionId,
+        addressId: address.id,
+        paymentProvider: dto.paymentProvider,
+        installments: dto.installments,
+      },
+    );
+    const { order, transaction } = result;
+
+    let paymentUrl = 'initPoint' in result ? result.initPoint : undefined;
+    if (!paymentUrl && capabilities.paymentLinks) {
+      ({ paymentLink: paymentUrl } = await this.ordersService.getPaymentLink(
+        order.id,
+        user.id,
+        false,
+      ));
+    }
+
+    await this.cartService.deleteGuestCart(guestCartId);
+
+    const orderToken = await this.signGuestToken(
+      GUEST_ORDER_TOKEN_TYPE,
+      order.id,
+    );
+    const accountToken = await this.signGuestToken(
+      GUEST_ACCOUNT_TOKEN_TYPE,
+      user.id,
+    );
+
+    try {
+      await this.emailService.sendGuestOrderEmail({
+        to: user.email,
+        firstName: user.firstName,
+        orderId: order.id,
+        total: Number(order.total).toFixed(2),
+        orderUrl: this.getFrontendUrl(
+          `/guest/orders/${order.id}?token=${encodeURIComponent(orderToken)}`,
+        ),
+        accountUrl: this.getFrontendUrl(
+          `/guest/account?token=${encodeURIComponent(accountToken)}`,
+        ),
+      });
+    } catch (emailError) {
+      console.error(
+        `[Compra como invitado] No se pudo enviar el link del pedido a ${user.email}:`,
+        emailError,
+      );
+    }
+
+    return {
+      message: 'Pedido creado exitosamente',
+      data: {
+        order,
+        transaction: {
+          id: transaction.id,
+          clientTransactionId: transaction.clientTransactionId,
+          amount: transaction.amount,
+          status: transaction.status,
+          paymentProvider: transaction.paymentProvider,
+          installments: transaction.installments,
+        },
+        paymentUrl,
+      },
+    };
+  }
+
+  /**
+   * Detalle de un pedido de invitado, con el token del link del pedido.
+   */
+  async getOrder(orderId: string, token?: string) {
+    await this.verifyGuestToken(GUEST_ORDER_TOKEN_TYPE, token, orderId);
+
+    const order = await this.prisma.order.findUnique({
+      where: { id: orderId },
+      include: {
+        user: { select: { firstName: true, email: true, isGuest: true } },
+        address: true,
+        items: {
+          include: {
+            product: {
+              include: {
+                images: {
+                  orderBy: { order: 'asc' },
+                  take: 1,
+                },
+              },
+            },
+            variant: true,
+          },
+        },
+        payments: {
+          select: {
+            clientTransactionId: true,
+            amount: true,
+            status: true,
+            paymentProvider: true,
+            installments: true,
+            createdAt: true,
+          },
+          orderBy: { createdAt: 'desc' },
+        },
+        shipment: true,
+      },
+    });
+
+    if (!order) {
+      throw new NotFoundException('Orden no encontrada');
+    }
+
+    return order;
+  }
+
+  /**
+   * Completa la cuenta del invitado con una contraseña, con el token del
+   * link para crear la cuenta que recibió por email.
+   * Si se envía el token de un carrito de invitado, sus items pasan al
+   * carrito de la cuenta.
+   */
+  async convertToUser(dto: ConvertGuestDto, guestCartToken?: string) {
+    const userId = await this.verifyGuestToken(
+      GUEST_ACCOUNT_TOKEN_TYPE,
+      dto.token,
+    );
+
+    return this.authService.convertGuest(userId, dto.password, guestCartToken);
+  }
+
+  /**
+   * Usuario invitado para el email indicado. Se reutiliza el de compras
+   * anteriores como invitado sin modificar sus datos, ya que la petición no
+   * demuestra que el comprador sea el dueño del email; si el email pertenece
+   * a una cuenta, el comprador debe iniciar sesión.
+   */
+  private async findOrCreateGuestUser(dto: GuestCheckoutDto) {
+    const existing = await this.prisma.user.findUnique({
+      where: { email: dto.email },
+    });
+
+    if (existing && !existing.isGuest) {
+      throw new ConflictException(
+        `Ya existe una cuenta con el email ${dto.email}. Inicia sesión para finalizar la compra.`,
+      );
+    }
+
+    if (existing) {
+      return existing;
+    }
+
+    return this.prisma.user.create({
+      data: {
+        email: dto.email,
+        firstName: dto.firstName,
+        lastName: dto.lastName,
+        phoneNumber: dto.phoneNumber,
+        country: dto.address.country,
+        role: UserRole.USER,
+        isGuest: true,
+      },
+    });
+  }
+
+  private signGuestToken(type: string, sub: string) {
+    return this.jwtService.signAsync(
+      { sub, type },
+      {
+        secret: getGuestTokenSecret(this.configService),
+        expiresIn: (this.configService.get<string>(
+          'GUEST_ORDER_LINK_EXPIRES_IN',
+        ) || '30d') as StringValue,
+      },
+    );
+  }
+
+  /**
+   * Valida el token de un link del email y devuelve su sujeto (la orden o el
+   * usuario invitado). Con sub, además exige que el token sea de ese sujeto.
+   */
+  private async verifyGuestToken(
+    type: string,
+    token?: string,
+    sub?: string,
+  ): Promise<string> {
+    let payload: { sub?: string; type?: string } = {};
+
+    if (token) {
+      try {
+        payload = await this.jwtService.verifyAsync(token, {
+          secret: getGuestTokenSecret(this.configService),
+        });
+      } catch {
+        payload = {};
+      }
+    }
+
+    if (payload.type !== type || !payload.sub || (sub && payload.sub !== sub)) {
+      throw new UnauthorizedException('El link no es válido o expiró');
+    }
+
+    return payload.sub;
+  }
+
+  private getFrontendUrl(path: string) {
+    const frontendUrl =
+      this.configService.get<string>('FRONTEND_URL') || 'http://localhost:3000';
+
+    return `${frontendUrl}${path}`;
+  }
+}
@@ -0,0 +1,25 @@
+import {
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUUID,
+  NotEquals,
+} from 'class-validator';
+
+export class AdjustStockDto {
+  /**
+   * Cantidad a sumar (positiva) o restar (negativa) del stock actual.
+   */
+  @IsInt()
+  @NotEquals(0, { message: 'La cantidad del ajuste no puede ser 0' })
+  quantity: number;
+
+  @IsString()
+  @IsNotEmpty({ message: 'El motivo del ajuste es requerido' })
+  reason: string;
+
+  @IsUUID()
+  @IsOptional()
+  variantId?: string;
+}
@@ -0,0 +1,48 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { InventoryService } from './inventory.service.js';
+import { AdjustStockDto } from './dto/adjust-stock.dto.js';
+import { AdminGuard } from '../auth/guards/admin.guard.js';
+import { CurrentUser } from '../auth/decorators/current-user.decorator.js';
+import type { LoggedInUserData } from '../interfaces/authenticated-user.interface.js';
+
+@Controller('inventory')
+@UseGuards(AdminGuard)
+export class InventoryController {
+  constructor(private readonly inventoryService: InventoryService) {}
+
+  @Post('products/:productId/adjust')
+  adjustStock(
+    @Param('productId') productId: string,
+    @Body() adjustStockDto: AdjustStockDto,
+    @CurrentUser() user: LoggedInUserData,
+  ) {
+    return this.inventoryService.adjustStock(
+      productId,
+      adjustStockDto,
+      user.id,
+    );
+  }
+
+  @Get('products/:productId/movements')
+  getMovements(
+    @Param('productId') productId: string,
+    @Query('page') page?: string,
+    @Query('limit') limit?: string,
+  ) {
+    const pageNumber = page ? parseInt(page, 10) : 1;
+    const limitNumber = limit ? parseInt(limit, 10) : 20;
+    return this.inventoryService.getMovements(
+      productId,
+      pageNumber,
+      limitNumber,
+    );
+  }
+}
@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { InventoryService } from './inventory.service.js';
+import { InventoryController } from './inventory.controller.js';
+import { PrismaModule } from '../prisma/prisma.module.js';
+import { AuthModule } from '../auth/auth.module.js';
+import { UsersModule } from '../users/users.module.js';
+
+@Module({
+  imports: [PrismaModule, AuthModule, UsersModule],
+  controllers: [InventoryController],
+  providers: [InventoryService],
+  exports: [InventoryService],
+})
+export class InventoryModule {}
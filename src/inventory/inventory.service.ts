@@ -0,0 +1,281 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+} from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service.js';
+import { AdjustStockDto } from './dto/adjust-stock.dto.js';
+import { StockMovementType } from '../generated/enums.js';
+import type { Prisma } from '../generated/client.js';
+import { createPaginationResponse } from '../common/helpers/pagination.helper.js';
+
+/**
+ * Item a reservar o liberar del inventario.
+ */
+export interface StockItem {
+  productId: string;
+  variantId?: string | null;
+  quantity: number;
+}
+
+/**
+ * Servicio de inventario.
+ * Responsabilidad única: mantener el stock de productos y registrar
+ * cada movimiento (ajustes, reservas por órdenes y liberaciones).
+ */
+@Injectable()
+export class InventoryService {
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Verifica que haya stock suficiente de un producto o de una de sus variantes.
+   * Lanza BadRequestException si la cantidad solicitada supera el disponible.
+   */
+  async assertAvailable(
+    productId: string,
+    quantity: number,
+    variantId?: string | null,
+  ): Promise<void> {
+    const { name, stock } = await this.getStockSource(
+      this.prisma,
+      productId,
+      variantId,
+    );
+
+    if (stock < quantity) {
+      throw new BadRequestException(
+        `Stock insuficiente para "${name}". Disponible: ${stock}`,
+      );
+    }
+  }
+
+  /**
+   * Obtiene el nombre y stock del que se descuenta un item:
+   * la variante si se indica, o el producto en caso contrario.
+   */
+  private async getStockSource(
+    client: Prisma.TransactionClient,
+    productId: string,
+    variantId?: string | null,
+  ): Promise<{ name: string; stock: number }> {
+    if (variantId) {
+      const variant = await client.productVariant.findFirst({
+        where: { id: variantId, productId },
+        select: {
+          sku: true,
+          stock: true,
+          product: { select: { name: true } },
+        },
+      });
+
+      if (!variant) {
+        throw new NotFoundException('Variante de producto no encontrada');
+      }
+
+      return {
+        name: `${variant.product.name} (${variant.sku})`,
+        stock: variant.stock,
+      };
+    }
+
+    const product = await client.product.findUnique({
+      where: { id: productId },
+      select: { name: true, stock: true },
+    });
+
+    if (!product) {
+      throw new NotFoundException('Producto no encontrado');
+    }
+
+    return product;
+  }
+
+  /**
+   * Suma (o resta, si es negativa) una cantidad al stock de un item.
+   * Con `onlyIfAvailable` el descuento solo se aplica si hay stock suficiente.
+   *
+   * @returns true si el stock se actualizó
+   */
+  private async applyStockDelta(
+    client: Prisma.TransactionClient,
+    item: StockItem,
+    delta: number,
+    onlyIfAvailable = false,
+  ): Promise<boolean> {
+    const stockCondition =
+      onlyIfAvailable && delta < 0 ? { stock: { gte: -delta } } : {};
+    const data = { stock: { increment: delta } };
+
+    const result = item.variantId
+      ? await client.productVariant.updateMany({
+          where: {
+            id: item.variantId,
+            productId: item.productId,
+            ...stockCondition,
+          },
+          data,
+        })
+      : await client.product.updateMany({
+          where: { id: item.productId, ...stockCondition },
+          data,
+        });
+
+    return result.count > 0;
+  }
+
+  /**
+   * Reserva el stock de los items de una orden dentro de una transacción.
+   * El descuento es condicional (stock >= cantidad) para que dos compras
+   * simultáneas no puedan dejar el stock en negativo.
+   *
+   * @param tx Cliente de la transacción en curso
+   * @param orderId Orden a la que se asocia la reserva
+   * @param items Productos y cantidades a reservar
+   */
+  async reserveForOrder(
+    tx: Prisma.TransactionClient,
+    orderId: string,
+    items: StockItem[],
+  ): Promise<void> {
+    for (const item of items) {
+      const reserved = await this.applyStockDelta(
+        tx,
+        item,
+        -item.quantity,
+        true,
+      );
+
+      if (!reserved) {
+        const { name, stock } = await this.getStockSource(
+          tx,
+          item.productId,
+          item.variantId,
+        );
+        throw new BadRequestException(
+          `Stock insuficiente para "${name}". Disponible: ${stock}`,
+        );
+      }
+    }
+
+    await tx.stockMovement.createMany({
+      data: items.map((item) => ({
+        productId: item.productId,
+        variantId: item.variantId ?? null,
+        orderId,
+        type: StockMovementType.reservation,
+        quantity: -item.quantity,
+      })),
+    });
+  }
+
+  /**
+   * Devuelve al inventario el stock reservado por una orden.
+   * Es idempotente: solo libera si la orden aún tiene la reserva activa.
+   *
+   * @param orderId Orden cuya reserva se libera
+   * @param reason Motivo de la liberación (cancelación, expiración, etc.)
+   */
+  async releaseForOrder(orderId: string, reason: string): Promise<void> {
+    await this.prisma.$transaction(async (tx) => {
+      const claimed = await tx.order.updateMany({
+        where: { id: orderId, stockReserved: true },
+        data: { stockReserved: false },
+      });
+
+      if (claimed.count === 0) {
+        return;
+      }
+
+      const items = await tx.orderItem.findMany({
+        where: { orderId },
+        select: { productId: true, variantId: true, quantity: true },
+      });
+
+      for (const item of items) {
+        await this.applyStockDelta(tx, item, item.quantity);
+      }
+
+      await tx.stockMovement.createMany({
+        data: items.map((item) => ({
+          productId: item.productId,
+          variantId: item.variantId,
+          orderId,
+          type: StockMovementType.release,
+          quantity: item.quantity,
+          reason,
+        })),
+      });
+    });
+  }
+
+  /**
+   * Ajuste manual de stock realizado por un administrador.
+   * Si se indica variantId el ajuste aplica al stock de esa variante.
+   */
+  async adjustStock(productId: string, dto: AdjustStockDto, userId: string) {
+    return this.prisma.$transaction(async (tx) => {
+      const item: StockItem = {
+        productId,
+        variantId: dto.variantId,
+        quantity: dto.quantity,
+      };
+
+      // Valida que el producto (y la variante) existan
+      await this.getStockSource(tx, productId, dto.variantId);
+
+      // Un ajuste negativo no puede dejar el stock por debajo de 0
+      const adjusted = await this.applyStockDelta(tx, item, dto.quantity, true);
+
+      if (!adjusted) {
+        throw new BadRequestException(
+          'El ajuste dejaría el stock del producto en negativo',
+        );
+      }
+
+      const movement = await tx.stockMovement.create({
+        data: {
+          productId,
+          variantId: dto.variantId ?? null,
+          userId,
+          type: StockMovementType.adjustment,
+          quantity: dto.quantity,
+          reason: dto.reason,
+        },
+      });
+
+      const updatedProduct = await tx.product.findUniqueOrThrow({
+        where: { id: productId },
+        select: {
+          id: true,
+          name: true,
+          stock: true,
+          variants: { select: { id: true, sku: true, stock: true } },
+        },
+      });
+
+      return {
+        message: 'Stock ajustado exitosamente',
+        data: { product: updatedProduct, movement },
+      };
+    });
+  }
+
+  /**
+   * Historial de movimientos de stock de un producto (paginado).
+   */
+  async getMovements(productId: string, page: number = 1, limit: number = 20) {
+    const skip = (page - 1) * limit;
+
+    const [movements, total] = await Promise.all([
+      this.prisma.stockMovement.findMany({
+        where: { productId },
+        orderBy: { createdAt: 'desc' },
+        skip,
+        take: limit,
+      }),
+      this.prisma.stockMovement.count({ where: { productId } }),
+    ]);
+
+    return createPaginationResponse(movements, total, page, limit);
+  }
+}
@@ -0,0 +1,14 @@
+import { IsEnum, IsOptional, IsString } from 'class-validator';
+import { OrderStatus } from '../../generated/enums.js';
+
+export class UpdateOrderStatusDto {
+  @IsEnum(OrderStatus)
+  status: OrderStatus;
+
+  /**
+   * Nota que queda registrada en el historial de estados.
+   */
+  @IsOptional()
+  @IsString()
+  note?: string;
+}
@@ -0,0 +1,79 @@
+import { BadRequestException, ForbiddenException } from '@nestjs/common';
+import { OrderStatus, OrderStatusActor } from '../../generated/enums.js';
+
+/**
+ * Quién origina un cambio de estado y por qué.
+ */
+export interface OrderStatusChangeContext {
+  actor: OrderStatusActor;
+  /** Usuario que realiza el cambio (null para procesos automáticos) */
+  actorId?: string | null;
+  note?: string;
+}
+
+const { admin, customer, system } = OrderStatusActor;
+
+/**
+ * Grafo de transiciones permitidas: para cada estado, los estados a los que
+ * puede pasar y qué actores pueden realizar ese cambio.
+ * `delivered` y `cancelled` son estados finales.
+ */
+export const ORDER_STATUS_TRANSITIONS: Record<
+  OrderStatus,
+  Partial<Record<OrderStatus, OrderStatusActor[]>>
+> = {
+  [OrderStatus.created]: {
+    [OrderStatus.pending]: [system],
+    [OrderStatus.processing]: [system, admin],
+    [OrderStatus.paid_pending_review]: [system, customer],
+    [OrderStatus.cancelled]: [system, admin],
+  },
+  [OrderStatus.pending]: {
+    [OrderStatus.processing]: [system, admin],
+    [OrderStatus.paid_pending_review]: [system, customer],
+    [OrderStatus.cancelled]: [system, admin],
+  },
+  [OrderStatus.paid_pending_review]: {
+    [OrderStatus.processing]: [system, admin],
+    // Depósito rechazado: la orden vuelve a esperar el pago
+    [OrderStatus.pending]: [system, admin],
+    [OrderStatus.cancelled]: [system, admin],
+  },
+  [OrderStatus.processing]: {
+    [OrderStatus.shipping]: [admin],
+    [OrderStatus.cancelled]: [admin],
+  },
+  [OrderStatus.shipping]: {
+    [OrderStatus.delivered]: [system, admin],
+  },
+  [OrderStatus.delivered]: {},
+  [OrderStatus.cancelled]: {},
+};
+
+/**
+ * Verifica que un actor pueda mover una orden de un estado a otro.
+ * Lanza BadRequestException si la transición no existe y
+ * ForbiddenException si existe pero el actor no puede realizarla.
+ */
+export function assertOrderStatusTransition(
+  from: OrderStatus,
+  to: OrderStatus,
+  actor: OrderStatusActor,
+): void {
+  const allowedActors = ORDER_STATUS_TRANSITIONS[from][to];
+
+  if (!allowedActors) {
+    const allowedTargets = Object.keys(ORDER_STATUS_TRANSITIONS[from]);
+    throw new BadRequestException(
+      allowedTargets.length > 0
+        ? `No se puede cambiar una orden de "${from}" a "${to}". Estados permitidos: ${allowedTargets.join(', ')}`
+        : `La orden está en estado final "${from}" y no puede cambiar de estado`,
+    );
+  }
+
+  if (!allowedActors.includes(actor)) {
+    throw new ForbiddenException(
+      `No tienes permiso para cambiar una orden de "${from}" a "${to}"`,
+    );
+  }
+}
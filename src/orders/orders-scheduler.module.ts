@@ -3,9 +3,17 @@ import { ScheduleModule } from '@nestjs/schedule';
 import { OrdersSchedulerService } from './orders-scheduler.service.js';
 import { PrismaModule } from '../prisma/prisma.module.js';
 import { EmailModule } from '../email/email.module.js';
+import { OrdersModule } from './orders.module.js';
+import { PaymentsModule } from '../payments/payments.module.js';
 
 @Module({
-  imports: [ScheduleModule.forRoot(), PrismaModule, EmailModule],
+  imports: [
+    ScheduleModule.forRoot(),
+    PrismaModule,
+    EmailModule,
+    OrdersModule,
+    PaymentsModule,
+  ],
   providers: [OrdersSchedulerService],
 })
 export class OrdersSchedulerModule {}
@@ -1,91 +1,146 @@
 import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
 import { PrismaService } from '../prisma/prisma.service.js';
 import { EmailService } from '../email/email.service.js';
-import { OrderStatus } from '../generated/enums.js';
+import {
+  CryptoPaymentStatus,
+  OrderStatus,
+  OrderStatusActor,
+  PaymentStatus,
+  PaymentStatusSource,
+  type PaymentProvider,
+} from '../generated/enums.js';
+import { OrdersService } from './orders.service.js';
+import { PaymentsService } from '../payments/payments.service.js';
+import { PaymentOrderService } from '../payments/services/payment-order.service.js';
+import { PaymentProviderRegistry } from '../payments/providers/payment-provider.registry.js';
+import { escapeHtml } from '../common/helpers/html.helper.js';
+
+// Días que una orden pendiente espera el pago antes de cancelarse y
+// devolver su stock reservado (default: 5)
+const DEFAULT_PENDING_ORDER_GRACE_DAYS = 5;
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Última transacción sin completar de una orden (pendiente o rechazada),
+ * con lo necesario para el recordatorio.
+ */
+interface PendingPayment {
+  clientTransactionId: string;
+  paymentProvider: PaymentProvider;
+  paymentMethodId: string | null;
+  installments: number;
+  payphoneData: unknown;
+  cryptoPayment: {
+    asset: string;
+    network: string;
+    depositAddress: string;
+    memo: string | null;
+    cryptoAmount: number | { toString: () => string };
+    expiresAt: Date;
+    status: CryptoPaymentStatus;
+  } | null;
+}
+
+/**
+ * Cómo pagar una orden pendiente según su medio de pago.
+ */
+interface PaymentReminderAction {
+  paymentLink: string;
+  actionLabel: string;
+  instructions: string;
+}
 
 @Injectable()
 export class OrdersSchedulerService {
   private readonly logger = new Logger(OrdersSchedulerService.name);
+  private readonly frontendUrl: string;
 
   constructor(
     private prisma: PrismaService,
     private emailService: EmailService,
-  ) {}
+    private configService: ConfigService,
+    private ordersService: OrdersService,
+    private paymentsService: PaymentsService,
+    private paymentOrderService: PaymentOrderService,
+    private providerRegistry: PaymentProviderRegistry,
+  ) {
+    this.frontendUrl =
+      this.configService.get<string>('FRONTEND_URL') || 'http://localhost:3000';
+  }
 
   /**
-   * Ejecuta cada hora para verificar órdenes pendientes y enviar recordatorios
-   * DESHABILITADO: Las órdenes ahora solo se crean después del pago confirmado,
-   * por lo que no hay órdenes pendientes que requieran recordatorios.
+   * Ejecuta cada hora para recordar el pago de las órdenes pendientes.
+   * Cada orden recibe un recordatorio por día desde el primer día; al
+   * vencer el plazo de pago (PENDING_ORDER_GRACE_DAYS) la orden se cancela,
+   * lo que también libera su reserva de stock.
    */
-  // @Cron(CronExpression.EVERY_HOUR)
+  @Cron(CronExpression.EVERY_HOUR)
   async handlePendingOrdersReminders() {
-    this.logger.log('Iniciando verificación de órdenes pendientes...');
+    const graceDays =
+      Number(this.configService.get<string>('PENDING_ORDER_GRACE_DAYS')) ||
+      DEFAULT_PENDING_ORDER_GRACE_DAYS;
+    const now = Date.now();
+    const graceLimit = new Date(now - graceDays * DAY);
 
     try {
-      const now = new Date();
-      const oneDayAgo = new Date(now.getTime() - 24 * 60 * 60 * 1000);
-      const fiveDaysAgo = new Date(now.getTime() - 5 * 24 * 60 * 60 * 1000);
-
-      // Primero, eliminar órdenes pendientes con más de 5 días
-      const ordersToDelete = await this.prisma.order.findMany({
+      // Primero, cancelar las órdenes que superaron el plazo de pago
+      const expiredOrders = await this.prisma.order.findMany({
         where: {
           status: OrderStatus.pending,
-          createdAt: {
-            lte: fiveDaysAgo, // Más de 5 días de antigüedad
-          },
-        },
-        select: {
-          id: true,
+          createdAt: { lte: graceLimit },
+          payments: { none: { status: PaymentStatus.completed } },
         },
+        select: { id: true },
       });
 
-      this.logger.log(
-        `Encontradas ${ordersToDelete.length} órdenes pendientes con más de 5 días para eliminar`,
-      );
+      if (expiredOrders.length > 0) {
+        this.logger.log(
+          `Cancelando ${expiredOrders.length} órdenes pendientes con el plazo de pago vencido`,
+        );
+      }
 
-      for (const order of ordersToDelete) {
-        await this.deletePendingOrder(order.id);
+      for (const order of expiredOrders) {
+        await this.cancelPendingOrder(
+          order.id,
+          `Plazo de pago vencido (${graceDays} días)`,
+        );
       }
 
-      // Luego, buscar órdenes pendientes que tienen entre 1 y 5 días para enviar recordatorios
+      // Luego, recordar el pago de las órdenes dentro del plazo. Se usa la
+      // última transacción aunque esté rechazada: el cliente puede reintentar
+      // el pago en el mismo checkout mientras siga vigente
       const pendingOrders = await this.prisma.order.findMany({
         where: {
           status: OrderStatus.pending,
-          createdAt: {
-            lte: oneDayAgo, // Más de 1 día
-            gt: fiveDaysAgo, // Pero menos de 5 días
-          },
+          createdAt: { lte: new Date(now - DAY), gt: graceLimit },
+          payments: { none: { status: PaymentStatus.completed } },
         },
         include: {
-          user: true,
+          user: { select: { email: true, firstName: true } },
           payments: {
             where: {
-              paymentProvider: 'PAYPHONE',
-            },
-            orderBy: {
-              createdAt: 'desc',
+              status: { in: [PaymentStatus.pending, PaymentStatus.failed] },
             },
+            orderBy: { createdAt: 'desc' },
             take: 1,
+            include: { cryptoPayment: true },
           },
         },
       });
 
-      this.logger.log(
-        `Encontradas ${pendingOrders.length} órdenes pendientes para enviar recordatorios`,
-      );
-
       for (const order of pendingOrders) {
-        const daysSinceCreation = Math.floor(
-          (now.getTime() - order.createdAt.getTime()) / (24 * 60 * 60 * 1000),
-        );
+        const dayNumber = Math.floor((now - order.createdAt.getTime()) / DAY);
 
-        // Enviar recordatorio según los días transcurridos (1-5 días)
-        if (daysSinceCreation >= 1 && daysSinceCreation <= 5) {
-          await this.sendPaymentReminder(order, daysSinceCreation);
+        // Un recordatorio por día: ya se envió el de hoy
+        if (order.paymentRemindersSent >= dayNumber) {
+          continue;
         }
-      }
 
-      this.logger.log('Proceso de recordatorios completado');
+        await this.sendPaymentReminder(order, dayNumber);
+      }
     } catch (error) {
       this.logger.error(
         `Error al procesar recordatorios de órdenes pendientes: ${error}`,
@@ -94,55 +149,54 @@ export class OrdersSchedulerService {
   }
 
   /**
-   * Envía un recordatorio de pago al usuario
+   * Envía un recordatorio de pago al usuario con el link o las
+   * instrucciones de su medio de pago.
    */
   private async sendPaymentReminder(
     order: {
       id: string;
+      userId: string;
       total: number | { toString: () => string };
-      createdAt: Date;
       user: {
         email: string;
         firstName: string;
       };
-      payments: Array<{
-        payphoneData: unknown;
-      }>;
+      payments: PendingPayment[];
     },
     dayNumber: number,
   ) {
     try {
-      // Obtener el link de pago de la transacción
-      let paymentLink = '';
-      if (order.payments && order.payments.length > 0) {
-        const paymentData = order.payments[0].payphoneData as {
-          payWithCard?: string;
-        } | null;
-        if (paymentData?.payWithCard) {
-          paymentLink = paymentData.payWithCard;
-        }
+      const [payment] = order.payments;
+      if (!payment) {
+        this.logger.debug(
+          `La orden ${order.id} no tiene una transacción sin completar para recordar`,
+        );
+        return;
       }
 
-      // Si no hay link de pago, no enviar recordatorio
-      if (!paymentLink) {
+      const action = await this.getReminderAction(order, payment);
+      if (!action) {
         this.logger.warn(
-          `No se encontró link de pago para la orden ${order.id}`,
+          `No se pudo obtener cómo pagar la orden ${order.id} (${payment.paymentProvider})`,
         );
         return;
       }
 
-      const totalUSD =
-        typeof order.total === 'number'
-          ? order.total.toFixed(2)
-          : Number(order.total.toString()).toFixed(2);
-
       await this.emailService.sendPaymentReminderEmail({
         to: order.user.email,
         firstName: order.user.firstName,
         orderId: order.id,
-        total: totalUSD,
-        paymentLink,
+        total: Number(order.total.toString()).toFixed(2),
         dayNumber,
+        ...action,
+      });
+
+      await this.prisma.order.update({
+        where: { id: order.id },
+        data: {
+          paymentRemindersSent: dayNumber,
+          lastPaymentReminderAt: new Date(),
+        },
       });
 
       this.logger.log(
@@ -156,34 +210,208 @@ export class OrdersSchedulerService {
   }
 
   /**
-   * Elimina una orden pendiente y su transacción relacionada
+   * Link e instrucciones del recordatorio según el medio de pago:
+   * - Checkout con redirección (Mercado Pago, Stripe): link del checkout
+   * - Link de pago (Payphone): link de pago
+   * - Cripto: dirección y monto de la cotización, si sigue vigente
+   * - Depósito bancario: subir el comprobante desde la orden
+   *
+   * Los links vencidos se regeneran con una nueva transacción.
+   */
+  private async getReminderAction(
+    order: { id: string; userId: string },
+    payment: PendingPayment,
+  ): Promise<PaymentReminderAction | null> {
+    const { capabilities, displayName } = this.providerRegistry.get(
+      payment.paymentProvider,
+    );
+    const orderUrl = `${this.frontendUrl}/orders/${order.id}`;
+
+    if (capabilities.redirect || capabilities.paymentLinks) {
+      const paymentLink = await this.resolvePaymentLink(
+        order,
+        payment,
+        capabilities.redirect,
+      );
+
+      return paymentLink
+        ? {
+            paymentLink,
+            actionLabel: 'Pagar Ahora',
+            instructions: `<p>Completa el pago con ${escapeHtml(displayName)} desde el siguiente link.</p>`,
+          }
+        : null;
+    }
+
+    if (payment.cryptoPayment) {
+      const crypto = payment.cryptoPayment;
+      const quoteActive =
+        crypto.status === CryptoPaymentStatus.awaiting_payment &&
+        crypto.expiresAt > new Date();
+
+      return {
+        paymentLink: orderUrl,
+        actionLabel: quoteActive ? 'Ver mi orden' : 'Obtener nueva cotización',
+        instructions: quoteActive
+          ? `<p>Envía exactamente <strong>${escapeHtml(crypto.cryptoAmount.toString())} ${escapeHtml(crypto.asset)}</strong> por la red ${escapeHtml(crypto.network)} a la dirección <strong>${escapeHtml(crypto.depositAddress)}</strong>${crypto.memo ? ` con el memo <strong>${escapeHtml(crypto.memo)}</strong>` : ''} antes del ${crypto.expiresAt.toISOString().slice(0, 16).replace('T', ' ')} UTC.</p>`
+          : '<p>La cotización de tu pago con criptomonedas venció. Genera una nueva desde tu orden para completar el pago.</p>',
+      };
+    }
+
+    if (capabilities.manualReview) {
+      return {
+        paymentLink: orderUrl,
+        actionLabel: 'Subir comprobante',
+        instructions: `<p>Realiza el depósito o la transferencia por el total de la orden y sube el comprobante desde tu orden para que podamos revisarlo.</p>`,
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * Link de pago vigente de la transacción. Si no tiene link o venció, se
+   * regenera la transacción de la orden (regenerateForOrder) con el mismo
+   * proveedor y cuotas, y se obtiene el link nuevo.
+   */
+  private async resolvePaymentLink(
+    order: { id: string; userId: string },
+    payment: PendingPayment,
+    isRedirect: boolean,
+  ): Promise<string | null> {
+    const providerData = (payment.payphoneData ?? {}) as {
+      initPoint?: string;
+      payWithCard?: string;
+      expiresAt?: string;
+    };
+    const currentLink = isRedirect
+      ? providerData.initPoint
+      : providerData.payWithCard;
+    const expired =
+      !!providerData.expiresAt &&
+      new Date(providerData.expiresAt).getTime() <= Date.now();
+
+    if (currentLink && !expired) {
+      return currentLink;
+    }
+
+    const regenerated =
+      await this.paymentsService.regenerateTransactionForOrder(
+        order.id,
+        order.userId,
+        payment.paymentProvider,
+        payment.paymentMethodId ?? undefined,
+        undefined,
+        payment.installments,
+      );
+    this.logger.log(
+      `Link de pago de la orden ${order.id} regenerado (${payment.paymentProvider})`,
+    );
+
+    if ('initPoint' in regenerated) {
+      return regenerated.initPoint ?? null;
+    }
+
+    // Los proveedores de links generan el link al consultarlo
+    const { paymentLink } = await this.ordersService.getPaymentLink(
+      order.id,
+      order.userId,
+      false,
+    );
+    return paymentLink ?? null;
+  }
+
+  /**
+   * Cancela una orden pendiente sin pago: vence los links de pago que
+   * siguen vigentes (también los de transacciones rechazadas, cuyo checkout
+   * admite reintentos), marca sus transacciones pendientes como fallidas,
+   * vence la cotización cripto y cancela la orden, lo que devuelve el stock
+   * reservado y el uso del cupón y avisa al usuario.
+   *
+   * Si un link no puede vencerse la orden no se cancela y se reintenta en
+   * la próxima ejecución. Un pago que igual llegue después de cancelar se
+   * reembolsa o queda para revisión (PaymentOrderService).
    */
-  private async deletePendingOrder(orderId: string) {
+  private async cancelPendingOrder(orderId: string, note: string) {
     try {
-      // Eliminar la transacción de pago relacionada primero
-      await this.prisma.paymentTransaction.deleteMany({
+      const openPayments = await this.prisma.paymentTransaction.findMany({
         where: {
           orderId,
+          status: { in: [PaymentStatus.pending, PaymentStatus.failed] },
+        },
+        select: {
+          id: true,
+          clientTransactionId: true,
+          status: true,
+          paymentProvider: true,
+          payphoneData: true,
         },
       });
 
-      // Eliminar los items de la orden
-      await this.prisma.orderItem.deleteMany({
+      for (const payment of openPayments) {
+        await this.expirePaymentLink(payment);
+      }
+
+      const pendingPayments = openPayments.filter(
+        (payment) => payment.status === PaymentStatus.pending,
+      );
+
+      for (const payment of pendingPayments) {
+        await this.paymentOrderService.updatePaymentStatus(
+          payment.clientTransactionId,
+          PaymentStatus.failed,
+          { source: PaymentStatusSource.system, note },
+        );
+      }
+
+      await this.prisma.cryptoPayment.updateMany({
         where: {
-          orderId,
+          transactionId: { in: pendingPayments.map((p) => p.id) },
+          status: CryptoPaymentStatus.awaiting_payment,
         },
+        data: { status: CryptoPaymentStatus.expired },
       });
 
-      // Eliminar la orden
-      await this.prisma.order.delete({
-        where: {
-          id: orderId,
-        },
+      // updateStatus libera el stock y el cupón y notifica la cancelación
+      await this.ordersService.updateStatus(orderId, OrderStatus.cancelled, {
+        actor: OrderStatusActor.system,
+        note,
       });
 
-      this.logger.log(`Orden ${orderId} eliminada exitosamente`);
+      this.logger.log(`Orden pendiente ${orderId} cancelada: ${note}`);
     } catch (error) {
-      this.logger.error(`Error al eliminar la orden ${orderId}: ${error}`);
+      this.logger.error(`Error al cancelar la orden ${orderId}: ${error}`);
+    }
+  }
+
+  /**
+   * Vence en el proveedor el checkout de una transacción con redirección,
+   * salvo que su link ya haya vencido.
+   */
+  private async expirePaymentLink(payment: {
+    clientTransactionId: string;
+    paymentProvider: PaymentProvider;
+    payphoneData: unknown;
+  }) {
+    if (!this.providerRegistry.supports(payment.paymentProvider, 'redirect')) {
+      return;
+    }
+
+    const providerData = (payment.payphoneData ?? {}) as Record<
+      string,
+      unknown
+    >;
+    const expiresAt = providerData.expiresAt as string | undefined;
+    if (expiresAt && new Date(expiresAt).getTime() <= Date.now()) {
+      return;
     }
+
+    await this.providerRegistry
+      .require(payment.paymentProvider, 'redirect')
+      .expireCheckout(providerData);
+
+    this.logger.log(
+      `Link de pago de la transacción ${payment.clientTransactionId} vencido`,
+    );
   }
 }
@@ -12,16 +12,22 @@ import {
 import { OrdersService } from './orders.service.js';
 import { CreateOrderDto } from './dto/create-order.dto.js';
 import { OrdersQueryDto } from './dto/orders-query.dto.js';
+import { UpdateOrderStatusDto } from './dto/update-order-status.dto.js';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard.js';
 import { AdminGuard } from '../auth/guards/admin.guard.js';
 import { CurrentUser } from '../auth/decorators/current-user.decorator.js';
 import type { LoggedInUserData } from '../interfaces/authenticated-user.interface.js';
-import { OrderStatus } from '../generated/enums.js';
+import { OrderStatus, OrderStatusActor } from '../generated/enums.js';
+import { PaymentRefundService } from '../payments/services/payment-refund.service.js';
+import { CreateRefundDto } from '../payments/dto/create-refund.dto.js';
 
 @Controller('orders')
 @UseGuards(JwtAuthGuard)
 export class OrdersController {
-  constructor(private readonly ordersService: OrdersService) {}
+  constructor(
+    private readonly ordersService: OrdersService,
+    private readonly paymentRefundService: PaymentRefundService,
+  ) {}
 
   @Post()
   create(
@@ -61,6 +67,23 @@ export class OrdersController {
     );
   }
 
+  /**
+   * Pagos recibidos en órdenes canceladas pendientes de reembolso manual.
+   */
+  @Get('refunds/pending-review')
+  @UseGuards(AdminGuard)
+  findPaymentsRequiringReview(
+    @Query('page') page?: string,
+    @Query('limit') limit?: string,
+  ) {
+    const pageNumber = page ? parseInt(page, 10) : 1;
+    const limitNumber = limit ? parseInt(limit, 10) : 20;
+    return this.paymentRefundService.findPaymentsRequiringReview(
+      pageNumber,
+      limitNumber,
+    );
+  }
+
   @Get(':id')
   findOne(
     @Param('id') id: string,
@@ -77,16 +100,39 @@ export class OrdersController {
   @UseGuards(AdminGuard)
   updateStatus(
     @Param('id') id: string,
-    @Body('status') status: OrderStatus,
+    @Body() updateOrderStatusDto: UpdateOrderStatusDto,
     @CurrentUser() user: LoggedInUserData,
   ) {
     // Validar que solo admins pueden cambiar a cancelled
-    if (status === OrderStatus.cancelled && user.type !== 'ADMIN') {
+    if (
+      updateOrderStatusDto.status === OrderStatus.cancelled &&
+      user.type !== 'ADMIN'
+    ) {
       throw new ForbiddenException(
         'Solo administradores pueden cancelar órdenes',
       );
     }
-    return this.ordersService.updateStatus(id, status);
+    return this.ordersService.updateStatus(id, updateOrderStatusDto.status, {
+      actor: OrderStatusActor.admin,
+      actorId: user.id,
+      note: updateOrderStatusDto.note,
+    });
+  }
+
+  @Post(':id/refunds')
+  @UseGuards(AdminGuard)
+  refund(
+    @Param('id') id: string,
+    @Body() createRefundDto: CreateRefundDto,
+    @CurrentUser() user: LoggedInUserData,
+  ) {
+    return this.paymentRefundService.refundOrder(id, createRefundDto, user.id);
+  }
+
+  @Get(':id/refunds')
+  @UseGuards(AdminGuard)
+  getRefunds(@Param('id') id: string) {
+    return this.paymentRefundService.getOrderRefunds(id);
   }
 
   @Get(':id/payment-link')
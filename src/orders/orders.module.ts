@@ -7,6 +7,8 @@ import { UsersModule } from '../users/users.module.js';
 import { PaymentsModule } from '../payments/payments.module.js';
 import { EmailModule } from '../email/email.module.js';
 import { OrderNotificationService } from './services/order-notification.service.js';
+import { InventoryModule } from '../inventory/inventory.module.js';
+import { CouponsModule } from '../coupons/coupons.module.js';
 
 @Module({
   imports: [
@@ -14,7 +16,9 @@ import { OrderNotificationService } from './services/order-notification.service.
     AuthModule,
     UsersModule,
     EmailModule,
-    forwardRef(() => PaymentsModule), // Necesario para acceder a PayphoneProvider
+    InventoryModule,
+    CouponsModule,
+    forwardRef(() => PaymentsModule), // Necesario para acceder a PaymentProviderRegistry
   ],
   controllers: [OrdersController],
   providers: [OrdersService, OrderNotificationService],
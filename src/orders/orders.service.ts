@@ -2,97 +2,166 @@ import {
   Injectable,
   NotFoundException,
   BadRequestException,
+  ConflictException,
 } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service.js';
 import { CreateOrderDto } from './dto/create-order.dto.js';
-import { OrderStatus } from '../generated/enums.js';
-import { PayphoneProvider } from '../payments/providers/payphone.provider.js';
+import { OrderStatus, OrderStatusActor } from '../generated/enums.js';
+import { PaymentProviderRegistry } from '../payments/providers/payment-provider.registry.js';
 import { createPaginationResponse } from '../common/helpers/pagination.helper.js';
 import { OrderNotificationService } from './services/order-notification.service.js';
+import { InventoryService } from '../inventory/inventory.service.js';
+import {
+  calculateCartTotal,
+  clearCart,
+  validateAddress,
+  type CartTotal,
+} from '../payments/helpers/cart.helper.js';
+import { CouponsService } from '../coupons/coupons.service.js';
+import { assertCartUnchanged } from '../cart/helpers/cart-changes.helper.js';
+import {
+  assertOrderStatusTransition,
+  type OrderStatusChangeContext,
+} from './helpers/order-status.helper.js';
+
+/**
+ * Relaciones devueltas al cambiar el estado de una orden
+ * (las necesarias para la notificación por email).
+ */
+const orderStatusUpdateInclude = {
+  address: true,
+  user: {
+    select: {
+      id: true,
+      email: true,
+      firstName: true,
+      lastName: true,
+    },
+  },
+  items: {
+    include: {
+      product: true,
+      variant: true,
+    },
+  },
+  shipment: true,
+} as const;
 
 @Injectable()
 export class OrdersService {
   constructor(
     private prisma: PrismaService,
-    private payphoneProvider: PayphoneProvider,
+    private providerRegistry: PaymentProviderRegistry,
     private orderNotificationService: OrderNotificationService,
+    private inventoryService: InventoryService,
+    private couponsService: CouponsService,
   ) {}
 
+  /**
+   * Crea la orden con los items del carrito (estado "created", pasa a
+   * "processing" cuando se confirma el pago) y vacía el carrito.
+   *
+   * @throws ConflictException si el carrito tiene cambios sin aceptar
+   */
   async create(userId: string, createOrderDto: CreateOrderDto) {
-    // Verificar que la dirección existe y pertenece al usuario
-    const address = await this.prisma.address.findFirst({
-      where: { id: createOrderDto.addressId, userId },
-    });
+    await assertCartUnchanged(this.prisma, userId);
 
-    if (!address) {
-      throw new NotFoundException('Dirección no encontrada');
-    }
+    const order = await this.createFromCart(
+      userId,
+      createOrderDto.addressId,
+      OrderStatus.created,
+    );
 
-    // Obtener items del carrito
-    const cartItems = await this.prisma.cartItem.findMany({
-      where: { userId },
-      include: {
-        product: true,
-      },
-    });
-
-    if (cartItems.length === 0) {
-      throw new BadRequestException('El carrito está vacío');
-    }
+    await clearCart(this.prisma, userId);
 
-    // Calcular el total
-    let total = 0;
-    const orderItems = cartItems.map((item) => {
-      const price = Number(item.product.price);
-      const discount = Number(item.product.discount || 0);
-      const finalPrice = price * (1 - discount / 100);
-      const itemTotal = finalPrice * item.quantity;
-      total += itemTotal;
-
-      return {
-        productId: item.productId,
-        quantity: item.quantity,
-        price: finalPrice,
-      };
-    });
+    return order;
+  }
 
-    // Crear la orden con estado "created" inicialmente
-    // Cambiará a "processing" cuando se confirme el pago
-    const order = await this.prisma.order.create({
-      data: {
-        userId,
-        addressId: createOrderDto.addressId,
-        total,
-        status: OrderStatus.created,
-        items: {
-          create: orderItems,
+  /**
+   * Crea una orden con los items del carrito del usuario. Todos los flujos
+   * que crean órdenes desde el carrito pasan por aquí: el total (envío,
+   * impuestos y cupón) sale de calculateCartTotal, y el stock y el uso del
+   * cupón se reservan en la misma transacción, así si algo falla no se crea
+   * la orden. El carrito no se vacía: cada flujo lo hace cuando la compra
+   * avanza.
+   *
+   * @param status Estado inicial de la orden
+   * @param cartTotal Total del carrito, si el llamador ya lo calculó
+   */
+  async createFromCart(
+    userId: string,
+    addressId: string,
+    status: OrderStatus,
+    cartTotal?: CartTotal,
+  ) {
+    await validateAddress(this.prisma, addressId, userId);
+
+    // Calcular el total desde el carrito (lanza error si está vacío)
+    const totals =
+      cartTotal ?? (await calculateCartTotal(this.prisma, userId, addressId));
+    const { total, items: orderItems } = totals;
+
+    return this.prisma.$transaction(async (tx) => {
+      const createdOrder = await tx.order.create({
+        data: {
+          userId,
+          addressId,
+          total,
+          status,
+          stockReserved: true,
+          statusHistory: {
+            create: {
+              newStatus: status,
+              actor: OrderStatusActor.customer,
+              changedById: userId,
+            },
+          },
+          couponId: totals.coupon?.id,
+          couponCode: totals.coupon?.code,
+          discountAmount: totals.discount,
+          shippingCost: totals.shippingCost,
+          subtotal: totals.subtotal,
+          taxAmount: totals.tax,
+          taxableAmount: totals.taxableAmount,
+          items: {
+            create: orderItems,
+          },
         },
-      },
-      include: {
-        address: true,
-        items: {
-          include: {
-            product: {
-              include: {
-                images: {
-                  orderBy: {
-                    order: 'asc',
+        include: {
+          address: true,
+          items: {
+            include: {
+              product: {
+                include: {
+                  images: {
+                    orderBy: {
+                      order: 'asc',
+                    },
+                    take: 1,
                   },
-                  take: 1,
                 },
               },
+              variant: true,
             },
           },
         },
-      },
-    });
+      });
 
-    // Limpiar el carrito
-    await this.prisma.cartItem.deleteMany({
-      where: { userId },
-    });
+      // Reservar stock y el uso del cupón en la misma transacción: si falla no se crea la orden
+      await this.inventoryService.reserveForOrder(
+        tx,
+        createdOrder.id,
+        orderItems,
+      );
+      await this.couponsService.redeemForOrder(
+        tx,
+        createdOrder.id,
+        userId,
+        totals,
+      );
 
-    return order;
+      return createdOrder;
+    });
   }
 
   async findAll(
@@ -156,6 +225,7 @@ export class OrdersService {
                   },
                 },
               },
+              variant: true,
             },
           },
           payments: {
@@ -210,6 +280,7 @@ export class OrdersService {
                 subcategory: true,
               },
             },
+            variant: true,
           },
         },
         payments: {
@@ -217,6 +288,15 @@ export class OrdersService {
             createdAt: 'desc',
           },
         },
+        shipment: true,
+        statusHistory: {
+          include: {
+            changedBy: {
+              select: { id: true, firstName: true, lastName: true },
+            },
+          },
+          orderBy: { createdAt: 'asc' },
+        },
       },
     });
 
@@ -227,22 +307,21 @@ export class OrdersService {
     return order;
   }
 
-  async updateStatus(id: string, status: OrderStatus, userId?: string) {
-    const where: { id: string; userId?: string } = { id };
-    if (userId) {
-      where.userId = userId;
-    }
-
-    const order = await this.prisma.order.findFirst({
-      where,
-      include: {
-        user: {
-          select: {
-            email: true,
-            firstName: true,
-          },
-        },
-      },
+  /**
+   * Cambia el estado de una orden validando la transición contra el grafo
+   * de estados y registrando el cambio en el historial.
+   *
+   * @param id Orden a actualizar
+   * @param status Nuevo estado
+   * @param context Actor que realiza el cambio y nota opcional (default: sistema)
+   */
+  async updateStatus(
+    id: string,
+    status: OrderStatus,
+    context: OrderStatusChangeContext = { actor: OrderStatusActor.system },
+  ) {
+    const order = await this.prisma.order.findUnique({
+      where: { id },
     });
 
     if (!order) {
@@ -251,121 +330,80 @@ export class OrdersService {
 
     const previousStatus = order.status;
 
-    // order.id is guaranteed to be non-null after findFirst check
-    const updatedOrder = await this.prisma.order.update({
-      where: { id },
-      data: { status },
-      include: {
-        address: true,
-        user: {
-          select: {
-            id: true,
-            email: true,
-            firstName: true,
-            lastName: true,
-          },
-        },
-        items: {
-          include: {
-            product: true,
-          },
+    // Repetir el estado actual no es una transición: no se registra ni se notifica
+    if (previousStatus === status) {
+      return this.prisma.order.findUniqueOrThrow({
+        where: { id },
+        include: orderStatusUpdateInclude,
+      });
+    }
+
+    assertOrderStatusTransition(previousStatus, status, context.actor);
+
+    const updatedOrder = await this.prisma.$transaction(async (tx) => {
+      // Actualización condicional: si otro proceso cambió el estado, no se pisa
+      const updated = await tx.order.updateMany({
+        where: { id, status: previousStatus },
+        data: { status },
+      });
+
+      if (updated.count === 0) {
+        throw new ConflictException(
+          'El estado de la orden cambió mientras se procesaba. Intenta nuevamente.',
+        );
+      }
+
+      await tx.orderStatusHistory.create({
+        data: {
+          orderId: id,
+          previousStatus,
+          newStatus: status,
+          actor: context.actor,
+          changedById: context.actorId ?? null,
+          note: context.note,
         },
-      },
+      });
+
+      return tx.order.findUniqueOrThrow({
+        where: { id },
+        include: orderStatusUpdateInclude,
+      });
     });
 
-    // Enviar notificación por email si el estado cambió
-    if (previousStatus !== status) {
-      await this.orderNotificationService.sendOrderStatusEmail(
-        updatedOrder,
-        status,
-        previousStatus,
-      );
+    // Devolver al inventario el stock reservado y el uso del cupón de una orden cancelada
+    if (status === OrderStatus.cancelled) {
+      await this.inventoryService.releaseForOrder(id, 'Orden cancelada');
+      await this.couponsService.releaseForOrder(id);
     }
 
+    // Enviar notificación por email del nuevo estado
+    await this.orderNotificationService.sendOrderStatusEmail(
+      updatedOrder,
+      status,
+      previousStatus,
+    );
+
     return updatedOrder;
   }
 
+  /**
+   * Crea la orden de una transacción de pago desde el carrito y lo vacía.
+   */
   async createFromPaymentTransaction(
     userId: string,
     addressId: string,
     initialStatus: OrderStatus = OrderStatus.created,
   ) {
-    // Verificar que la dirección existe y pertenece al usuario
-    const address = await this.prisma.address.findFirst({
-      where: { id: addressId, userId },
-    });
-
-    if (!address) {
-      throw new NotFoundException('Dirección no encontrada');
-    }
+    const order = await this.createFromCart(userId, addressId, initialStatus);
 
-    // Obtener items del carrito
-    const cartItems = await this.prisma.cartItem.findMany({
-      where: { userId },
-      include: {
-        product: true,
-      },
-    });
-
-    if (cartItems.length === 0) {
-      throw new BadRequestException('El carrito está vacío');
-    }
-
-    // Calcular el total
-    let total = 0;
-    const orderItems = cartItems.map((item) => {
-      const price = Number(item.product.price);
-      const discount = Number(item.product.discount || 0);
-      const finalPrice = price * (1 - discount / 100);
-      const itemTotal = finalPrice * item.quantity;
-      total += itemTotal;
-
-      return {
-        productId: item.productId,
-        quantity: item.quantity,
-        price: finalPrice,
-      };
-    });
-
-    // Crear la orden con el estado inicial especificado
-    const order = await this.prisma.order.create({
-      data: {
-        userId,
-        addressId,
-        total,
-        status: initialStatus,
-        items: {
-          create: orderItems,
-        },
-      },
-      include: {
-        address: true,
-        items: {
-          include: {
-            product: {
-              include: {
-                images: {
-                  orderBy: {
-                    order: 'asc',
-                  },
-                  take: 1,
-                },
-              },
-            },
-          },
-        },
-      },
-    });
-
-    // Limpiar el carrito
-    await this.prisma.cartItem.deleteMany({
-      where: { userId },
-    });
+    await clearCart(this.prisma, userId);
 
     return order;
   }
 
   async getPaymentLink(orderId: string, userId: string, isAdmin: boolean) {
+    const provider = this.providerRegistry.getDefault('paymentLinks');
+
     // Buscar la orden
     const order = await this.prisma.order.findFirst({
       where: {
@@ -375,7 +413,7 @@ export class OrdersService {
       include: {
         payments: {
           where: {
-            paymentProvider: 'PAYPHONE',
+            paymentProvider: provider.code,
           },
           orderBy: {
             createdAt: 'desc',
@@ -417,18 +455,23 @@ export class OrdersService {
         );
       }
 
-      // Generar nuevo link de pago usando PayphoneProvider directamente
+      // Generar nuevo link de pago con el proveedor de links por defecto
       const amount = Number(order.total);
       if (!amount || amount <= 0) {
         throw new BadRequestException('El monto de la orden no es válido');
       }
 
       try {
-        const result = await this.payphoneProvider.processPayment(
+        const result = await provider.processPayment(
           amount,
           payment.clientTransactionId,
           {
             reference: `Orden ${order.id}`,
+            installments: payment.installments,
+            taxBreakdown: {
+              taxableAmount: Number(order.taxableAmount),
+              taxAmount: Number(order.taxAmount),
+            },
           },
         );
 
@@ -2,6 +2,7 @@ import { Injectable } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { EmailService } from '../../email/email.service.js';
 import { OrderStatus } from '../../generated/enums.js';
+import { escapeHtml } from '../../common/helpers/html.helper.js';
 
 /**
  * Información de la orden necesaria para enviar notificaciones.
@@ -18,6 +19,11 @@ export interface OrderNotificationData {
     quantity: number;
     price: number | { toNumber(): number };
   }>;
+  shipment?: {
+    carrier: string;
+    trackingNumber: string;
+    trackingUrl: string | null;
+  } | null;
 }
 
 /**
@@ -76,6 +82,24 @@ export class OrderNotificationService {
     return configs[status] || null;
   }
 
+  /**
+   * Genera el bloque HTML con el transportista y el link de seguimiento.
+   * Devuelve un string vacío si la orden no tiene envío registrado.
+   */
+  private formatTrackingInfo(
+    shipment: OrderNotificationData['shipment'],
+  ): string {
+    if (!shipment) {
+      return '';
+    }
+
+    const trackingLink = shipment.trackingUrl
+      ? `<p style="margin: 10px 0 0 0;"><a href="${escapeHtml(shipment.trackingUrl)}" style="color: #4CAF50; font-weight: bold;">Seguir mi envío</a></p>`
+      : '';
+
+    return `<div style="background-color: #fafafa; border-radius: 8px; padding: 15px; margin: 20px 0; font-size: 14px; color: #333333;"><p style="margin: 0 0 5px 0;"><strong>Transportista:</strong> ${escapeHtml(shipment.carrier)}</p><p style="margin: 0;"><strong>Número de seguimiento:</strong> ${escapeHtml(shipment.trackingNumber)}</p>${trackingLink}</div>`;
+  }
+
   /**
    * Formatea los items de la orden para mostrar en el email.
    */
@@ -127,6 +151,7 @@ export class OrderNotificationService {
       items: this.formatOrderItems(order.items),
       orderUrl: `${this.frontendUrl}/orders/${order.id}`,
       frontendUrl: this.frontendUrl,
+      trackingInfo: this.formatTrackingInfo(order.shipment),
     };
 
     try {
@@ -1,34 +1,21 @@
 import {
   IsString,
   IsNotEmpty,
-  IsInt,
-  Min,
-  Max,
   IsBoolean,
   IsOptional,
+  IsEnum,
 } from 'class-validator';
+import { PaymentProvider } from '../../generated/enums.js';
 
 export class CreatePaymentMethodDto {
-  @IsString()
-  @IsNotEmpty({ message: 'El token del gateway es requerido' })
-  gatewayToken: string;
-
-  @IsString()
-  @IsNotEmpty({ message: 'La marca de la tarjeta es requerida' })
-  cardBrand: string;
+  @IsEnum(PaymentProvider)
+  provider: PaymentProvider;
 
+  // Token generado en el navegador con el SDK del proveedor: los datos de la
+  // tarjeta nunca llegan al backend
   @IsString()
-  @IsNotEmpty({ message: 'Los últimos 4 dígitos son requeridos' })
-  last4Digits: string;
-
-  @IsInt()
-  @Min(1)
-  @Max(12)
-  expirationMonth: number;
-
-  @IsInt()
-  @Min(2024)
-  expirationYear: number;
+  @IsNotEmpty({ message: 'El token de la tarjeta es requerido' })
+  cardToken: string;
 
   @IsBoolean()
   @IsOptional()
@@ -0,0 +1,17 @@
+/**
+ * Indica si una tarjeta está vencida. Las tarjetas son válidas hasta el
+ * último día de su mes de vencimiento.
+ */
+export function isCardExpired(
+  expirationMonth: number,
+  expirationYear: number,
+  now: Date = new Date(),
+): boolean {
+  const currentYear = now.getFullYear();
+  const currentMonth = now.getMonth() + 1;
+
+  return (
+    expirationYear < currentYear ||
+    (expirationYear === currentYear && expirationMonth < currentMonth)
+  );
+}
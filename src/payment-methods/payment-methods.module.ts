@@ -2,9 +2,10 @@ import { Module } from '@nestjs/common';
 import { PaymentMethodsService } from './payment-methods.service.js';
 import { PaymentMethodsController } from './payment-methods.controller.js';
 import { PrismaModule } from '../prisma/prisma.module.js';
+import { PaymentsModule } from '../payments/payments.module.js';
 
 @Module({
-  imports: [PrismaModule],
+  imports: [PrismaModule, PaymentsModule],
   controllers: [PaymentMethodsController],
   providers: [PaymentMethodsService],
   exports: [PaymentMethodsService],
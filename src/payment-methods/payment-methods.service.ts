@@ -1,12 +1,62 @@
-import { Injectable, NotFoundException } from '@nestjs/common';
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service.js';
 import { CreatePaymentMethodDto } from './dto/create-payment-method.dto.js';
+import { PaymentProviderRegistry } from '../payments/providers/payment-provider.registry.js';
+import { isCardExpired } from './helpers/card-expiration.helper.js';
+
+/**
+ * Datos de la tarjeta que se exponen al cliente: los IDs del proveedor
+ * solo se usan internamente para cobrar.
+ */
+const paymentMethodSelect = {
+  id: true,
+  provider: true,
+  cardBrand: true,
+  last4Digits: true,
+  expirationMonth: true,
+  expirationYear: true,
+  isDefault: true,
+  createdAt: true,
+  updatedAt: true,
+};
 
 @Injectable()
 export class PaymentMethodsService {
-  constructor(private prisma: PrismaService) {}
+  private readonly logger = new Logger(PaymentMethodsService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private providerRegistry: PaymentProviderRegistry,
+  ) {}
 
+  /**
+   * Guarda una tarjeta en la bóveda del proveedor. Solo se almacenan los IDs
+   * de cliente y tarjeta del proveedor; marca, últimos dígitos y vencimiento
+   * se toman de la respuesta del proveedor, no de lo que envía el cliente.
+   */
   async create(userId: string, createDto: CreatePaymentMethodDto) {
+    const provider = this.providerRegistry.require(
+      createDto.provider,
+      'savedCards',
+    );
+
+    const user = await this.prisma.user.findUniqueOrThrow({
+      where: { id: userId },
+      select: { email: true },
+    });
+
+    // Reutilizar el cliente del usuario en el proveedor si ya guardó otra tarjeta
+    const existingMethod = await this.prisma.paymentMethod.findFirst({
+      where: { userId, provider: createDto.provider },
+      select: { providerCustomerId: true },
+    });
+
+    const card = await provider.saveCard({
+      cardToken: createDto.cardToken,
+      customerId: existingMethod?.providerCustomerId,
+      email: user.email,
+    });
+
     // Si se marca como predeterminada, desmarcar las demás
     if (createDto.isDefault) {
       await this.prisma.paymentMethod.updateMany({
@@ -15,33 +65,55 @@ export class PaymentMethodsService {
       });
     }
 
-    const paymentMethod = await this.prisma.paymentMethod.create({
-      data: {
+    const cardData = {
+      providerCustomerId: card.customerId,
+      cardBrand: card.cardBrand,
+      last4Digits: card.last4Digits,
+      expirationMonth: card.expirationMonth,
+      expirationYear: card.expirationYear,
+      isDefault: createDto.isDefault || false,
+    };
+
+    // El proveedor devuelve la misma tarjeta si ya estaba guardada
+    const paymentMethod = await this.prisma.paymentMethod.upsert({
+      where: {
+        provider_providerCardId: {
+          provider: createDto.provider,
+          providerCardId: card.cardId,
+        },
+      },
+      create: {
         userId,
-        gatewayToken: createDto.gatewayToken,
-        cardBrand: createDto.cardBrand,
-        last4Digits: createDto.last4Digits,
-        expirationMonth: createDto.expirationMonth,
-        expirationYear: createDto.expirationYear,
-        isDefault: createDto.isDefault || false,
+        provider: createDto.provider,
+        providerCardId: card.cardId,
+        ...cardData,
       },
+      update: cardData,
+      select: paymentMethodSelect,
     });
 
     return {
       message: 'Método de pago creado exitosamente',
-      data: paymentMethod,
+      data: { ...paymentMethod, isExpired: false },
     };
   }
 
   async findAll(userId: string) {
     const paymentMethods = await this.prisma.paymentMethod.findMany({
       where: { userId },
+      select: paymentMethodSelect,
       orderBy: [{ isDefault: 'desc' }, { createdAt: 'desc' }],
     });
 
     return {
       message: 'Métodos de pago obtenidos exitosamente',
-      data: paymentMethods,
+      data: paymentMethods.map((paymentMethod) => ({
+        ...paymentMethod,
+        isExpired: isCardExpired(
+          paymentMethod.expirationMonth,
+          paymentMethod.expirationYear,
+        ),
+      })),
     };
   }
 
@@ -67,6 +139,7 @@ export class PaymentMethodsService {
     const updated = await this.prisma.paymentMethod.update({
       where: { id: paymentMethodId },
       data: { isDefault: true },
+      select: paymentMethodSelect,
     });
 
     return {
@@ -87,6 +160,20 @@ export class PaymentMethodsService {
       throw new NotFoundException('Método de pago no encontrado');
     }
 
+    // Si falla en el proveedor igual se elimina: la tarjeta ya no se podrá usar
+    try {
+      await this.providerRegistry
+        .require(paymentMethod.provider, 'savedCards')
+        .deleteCard(
+          paymentMethod.providerCustomerId,
+          paymentMethod.providerCardId,
+        );
+    } catch (error) {
+      this.logger.warn(
+        `No se pudo eliminar la tarjeta ${paymentMethod.id} en ${paymentMethod.provider}: ${error}`,
+      );
+    }
+
     await this.prisma.paymentMethod.delete({
       where: { id: paymentMethodId },
     });
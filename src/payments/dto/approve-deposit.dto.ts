@@ -0,0 +1,10 @@
+import { IsOptional, IsString } from 'class-validator';
+
+export class ApproveDepositDto {
+  /**
+   * Observación opcional de la revisión.
+   */
+  @IsString()
+  @IsOptional()
+  note?: string;
+}
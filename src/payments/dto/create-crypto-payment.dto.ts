@@ -0,0 +1,27 @@
+import {
+  IsEnum,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUUID,
+} from 'class-validator';
+import { CryptoAsset } from '../../generated/enums.js';
+
+export class CreateCryptoPaymentDto {
+  @IsUUID()
+  addressId: string;
+
+  @IsString()
+  @IsNotEmpty()
+  clientTransactionId: string;
+
+  @IsEnum(CryptoAsset)
+  asset: CryptoAsset;
+
+  /**
+   * Orden existente, para reintentar el pago de una orden pendiente.
+   */
+  @IsUUID()
+  @IsOptional()
+  orderId?: string;
+}
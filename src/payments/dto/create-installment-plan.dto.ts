@@ -0,0 +1,64 @@
+import {
+  IsBoolean,
+  IsDateString,
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Max,
+  Min,
+} from 'class-validator';
+import { PaymentProvider } from '../../generated/enums.js';
+
+export class CreateInstallmentPlanDto {
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @IsEnum(PaymentProvider)
+  provider: PaymentProvider;
+
+  @IsInt()
+  @Min(2)
+  @Max(48)
+  installments: number;
+
+  /**
+   * Recargo total sobre el monto, en porcentaje. 0 = cuotas sin interés.
+   */
+  @IsNumber()
+  @Min(0)
+  @IsOptional()
+  interestRate?: number;
+
+  /**
+   * Monto mínimo del carrito para ofrecer el plan.
+   */
+  @IsNumber()
+  @Min(0)
+  @IsOptional()
+  minAmount?: number;
+
+  /**
+   * Si se indica, el plan solo se ofrece cuando todos los productos del
+   * carrito son de esta categoría (ej: promociones por categoría).
+   */
+  @IsUUID()
+  @IsOptional()
+  categoryId?: string;
+
+  @IsDateString()
+  @IsOptional()
+  startsAt?: string;
+
+  @IsDateString()
+  @IsOptional()
+  expiresAt?: string;
+
+  @IsBoolean()
+  @IsOptional()
+  isActive?: boolean;
+}
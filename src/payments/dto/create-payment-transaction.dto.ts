@@ -1,9 +1,11 @@
 import {
   IsEnum,
+  IsInt,
   IsNotEmpty,
   IsOptional,
   IsString,
   IsUUID,
+  Min,
   ValidateIf,
 } from 'class-validator';
 import { PaymentProvider } from '../../generated/enums.js';
@@ -38,4 +40,16 @@ export class CreatePaymentTransactionDto {
 
   @IsOptional()
   payphoneData?: Record<string, unknown>;
+
+  // Token con el código de seguridad de la tarjeta guardada (paymentMethodId),
+  // para los proveedores que lo exigen al cobrar (ej: Mercado Pago)
+  @IsString()
+  @IsOptional()
+  cardToken?: string;
+
+  // Cantidad de cuotas elegida (ver GET /payments/installments); 1 si no se indica
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  installments?: number;
 }
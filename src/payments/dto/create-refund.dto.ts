@@ -0,0 +1,52 @@
+import { Type } from 'class-transformer';
+import {
+  IsArray,
+  IsBoolean,
+  IsInt,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+
+export class RefundItemDto {
+  @IsUUID()
+  orderItemId: string;
+
+  @IsInt()
+  @Min(1)
+  quantity: number;
+}
+
+/**
+ * Reembolso de una orden. Si se envían items, el monto se calcula a partir
+ * de ellos; si se envía amount, se reembolsa ese monto; si no se envía
+ * ninguno, se reembolsa todo el saldo pendiente del pago.
+ */
+export class CreateRefundDto {
+  @IsString()
+  @IsNotEmpty()
+  reason: string;
+
+  @IsNumber()
+  @Min(0.01)
+  @IsOptional()
+  amount?: number;
+
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => RefundItemDto)
+  @IsOptional()
+  items?: RefundItemDto[];
+
+  /**
+   * Registra un reembolso realizado fuera del proveedor (transferencia, efectivo).
+   * Siempre es manual para CASH_DEPOSIT y CRYPTO.
+   */
+  @IsBoolean()
+  @IsOptional()
+  manual?: boolean;
+}
@@ -0,0 +1,10 @@
+import { IsNotEmpty, IsString } from 'class-validator';
+
+export class RejectDepositDto {
+  /**
+   * Motivo del rechazo; se le informa al cliente por email.
+   */
+  @IsString()
+  @IsNotEmpty()
+  reason: string;
+}
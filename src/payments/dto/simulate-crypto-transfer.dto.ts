@@ -0,0 +1,19 @@
+import { IsInt, IsNumber, IsOptional, IsPositive, Min } from 'class-validator';
+
+export class SimulateCryptoTransferDto {
+  /**
+   * Monto transferido; por defecto, el monto cotizado.
+   */
+  @IsNumber()
+  @IsPositive()
+  @IsOptional()
+  amount?: number;
+
+  /**
+   * Confirmaciones de la red; por defecto, las requeridas para acreditar.
+   */
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  confirmations?: number;
+}
@@ -0,0 +1,6 @@
+import { PartialType } from '@nestjs/mapped-types';
+import { CreateInstallmentPlanDto } from './create-installment-plan.dto.js';
+
+export class UpdateInstallmentPlanDto extends PartialType(
+  CreateInstallmentPlanDto,
+) {}
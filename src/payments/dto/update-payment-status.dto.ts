@@ -0,0 +1,14 @@
+import { IsEnum, IsNotEmpty, IsString } from 'class-validator';
+import { PaymentStatus } from '../../generated/enums.js';
+
+export class UpdatePaymentStatusDto {
+  @IsEnum(PaymentStatus)
+  status: PaymentStatus;
+
+  /**
+   * Motivo del cambio manual; queda registrado en la auditoría.
+   */
+  @IsString()
+  @IsNotEmpty()
+  note: string;
+}
@@ -1,15 +1,46 @@
 import { BadRequestException, NotFoundException } from '@nestjs/common';
 import { PrismaService } from '../../prisma/prisma.service.js';
+import {
+  assertCouponUsable,
+  calculateCouponDiscount,
+  couponScopeInclude,
+  roundAmount,
+  type CouponCartLine,
+} from '../../coupons/helpers/coupon.helper.js';
+import { calculateShippingCost } from '../../shipping/helpers/shipping.helper.js';
+import {
+  calculateLineTax,
+  findTaxRules,
+  type TaxRule,
+} from '../../taxes/helpers/tax.helper.js';
 
 /**
  * Representa el resultado del cálculo del total del carrito.
  */
 export interface CartTotal {
+  /** Suma de los items con el descuento propio de cada producto */
+  subtotal: number;
+  /** Descuento del cupón aplicado al carrito (0 si no hay cupón) */
+  discount: number;
+  /** Costo de envío (0 si no se indicó dirección) */
+  shippingCost: number;
+  /** Impuesto total, incluido o no en los precios (0 si no se indicó dirección) */
+  tax: number;
+  /** Base imponible: monto de los items gravados sin impuesto */
+  taxableAmount: number;
+  /**
+   * Monto a cobrar: subtotal - discount + shippingCost, más el impuesto
+   * de los items cuyos precios no lo incluyen
+   */
   total: number;
+  coupon: { id: string; code: string } | null;
   items: Array<{
     productId: string;
+    variantId: string | null;
     quantity: number;
     price: number;
+    taxRate: number;
+    taxAmount: number;
   }>;
 }
 
@@ -20,13 +51,18 @@ export interface CartItemWithProduct {
   id: string;
   userId: string;
   productId: string;
+  variantId: string | null;
   quantity: number;
   product: {
     id: string;
     name: string;
     price: number | { toNumber(): number };
     discount: number | { toNumber(): number } | null;
+    weight?: number | { toNumber(): number } | null;
   };
+  variant: {
+    price: number | { toNumber(): number } | null;
+  } | null;
 }
 
 /**
@@ -46,42 +82,140 @@ export function calculateFinalPrice(
   return priceNum * (1 - discountNum / 100);
 }
 
+/**
+ * Calcula el precio final de un item del carrito.
+ * Si el item tiene variante con precio propio, ese precio reemplaza al del producto;
+ * el descuento del producto se aplica en ambos casos.
+ */
+export function calculateCartItemPrice(
+  item: Pick<CartItemWithProduct, 'product' | 'variant'>,
+): number {
+  return calculateFinalPrice(
+    item.variant?.price ?? item.product.price,
+    item.product.discount,
+  );
+}
+
 /**
  * Calcula el total del carrito para un usuario.
- * Retorna el total y los items con sus precios finales.
+ * Retorna el subtotal, el descuento del cupón aplicado (si hay uno),
+ * el costo de envío y el impuesto según la dirección indicada, el total
+ * a cobrar y los items con sus precios finales e impuesto.
+ *
+ * El impuesto de cada línea se calcula sobre su monto con la parte
+ * proporcional del descuento del cupón; el envío no lleva impuesto.
+ *
+ * @param addressId Dirección de envío; sin ella no se calcula envío ni impuesto
  */
 export async function calculateCartTotal(
   prisma: PrismaService,
   userId: string,
+  addressId?: string,
 ): Promise<CartTotal> {
   const cartItems = await prisma.cartItem.findMany({
     where: { userId },
-    include: { product: true },
+    include: { product: true, variant: true },
   });
 
   if (cartItems.length === 0) {
     throw new BadRequestException('El carrito está vacío');
   }
 
-  let total = 0;
+  let subtotal = 0;
+  let weight = 0;
   const items: CartTotal['items'] = [];
+  const couponLines: CouponCartLine[] = [];
 
   cartItems.forEach((item) => {
-    const finalPrice = calculateFinalPrice(
-      item.product.price,
-      item.product.discount,
-    );
+    const finalPrice = calculateCartItemPrice(item);
     const itemTotal = finalPrice * item.quantity;
-    total += itemTotal;
+    subtotal += itemTotal;
+    weight += Number(item.product.weight ?? 0) * item.quantity;
 
     items.push({
       productId: item.productId,
+      variantId: item.variantId,
       quantity: item.quantity,
       price: finalPrice,
+      taxRate: 0,
+      taxAmount: 0,
+    });
+    couponLines.push({
+      productId: item.productId,
+      categoryId: item.product.categoryId,
+      lineTotal: itemTotal,
+    });
+  });
+
+  const cartCoupon = await prisma.cartCoupon.findUnique({
+    where: { userId },
+    include: { coupon: { include: couponScopeInclude } },
+  });
+
+  // El cupón se revalida en cada cálculo: pudo expirar o agotarse desde que se aplicó
+  let discount = 0;
+  if (cartCoupon) {
+    await assertCouponUsable(prisma, cartCoupon.coupon, userId);
+    discount = calculateCouponDiscount(
+      cartCoupon.coupon,
+      couponLines,
+      subtotal,
+    );
+  }
+
+  const discountedSubtotal = Math.max(subtotal - discount, 0);
+
+  let shippingCost = 0;
+  let taxRules: TaxRule[] = [];
+  if (addressId) {
+    const address = await prisma.address.findUnique({
+      where: { id: addressId },
+    });
+
+    if (!address) {
+      throw new NotFoundException('Dirección no encontrada');
+    }
+
+    ({ cost: shippingCost } = await calculateShippingCost(
+      prisma,
+      address,
+      discountedSubtotal,
+      weight,
+    ));
+    taxRules = await findTaxRules(prisma, address.country);
+  }
+
+  // El descuento del cupón se reparte entre las líneas en proporción a su monto
+  const discountFactor = subtotal > 0 ? discountedSubtotal / subtotal : 0;
+  let tax = 0;
+  let addedTax = 0;
+  let taxableAmount = 0;
+
+  couponLines.forEach((line, index) => {
+    const lineTax = calculateLineTax(taxRules, {
+      categoryId: line.categoryId,
+      amount: line.lineTotal * discountFactor,
     });
+
+    items[index].taxRate = lineTax.rate;
+    items[index].taxAmount = lineTax.taxAmount;
+    tax += lineTax.taxAmount;
+    addedTax += lineTax.addedTax;
+    taxableAmount += lineTax.taxableAmount;
   });
 
-  return { total, items };
+  return {
+    subtotal: roundAmount(subtotal),
+    discount,
+    shippingCost,
+    tax: roundAmount(tax),
+    taxableAmount: roundAmount(taxableAmount),
+    total: roundAmount(discountedSubtotal + addedTax + shippingCost),
+    coupon: cartCoupon
+      ? { id: cartCoupon.coupon.id, code: cartCoupon.coupon.code }
+      : null,
+    items,
+  };
 }
 
 /**
@@ -108,7 +242,8 @@ export async function validateAddress(
 }
 
 /**
- * Limpia el carrito de un usuario eliminando todos los items.
+ * Limpia el carrito de un usuario eliminando todos los items
+ * y el cupón aplicado.
  */
 export async function clearCart(
   prisma: PrismaService,
@@ -117,4 +252,7 @@ export async function clearCart(
   await prisma.cartItem.deleteMany({
     where: { userId },
   });
+  await prisma.cartCoupon.deleteMany({
+    where: { userId },
+  });
 }
@@ -0,0 +1,39 @@
+import { ConfigService } from '@nestjs/config';
+import { describe, expect, it } from '@jest/globals';
+import { selectChainAdapter } from './chain-adapter.helper.js';
+import { FakeChainAdapter } from '../providers/fake-chain.adapter.js';
+
+function configWith(values: Record<string, string>) {
+  return { get: (key: string) => values[key] } as ConfigService;
+}
+
+describe('selectChainAdapter', () => {
+  const fakeChainAdapter = new FakeChainAdapter();
+
+  it('usa el adaptador local por defecto en desarrollo y pruebas', () => {
+    expect(
+      selectChainAdapter(
+        configWith({ NODE_ENV: 'development' }),
+        fakeChainAdapter,
+      ),
+    ).toBe(fakeChainAdapter);
+    expect(
+      selectChainAdapter(configWith({ NODE_ENV: 'test' }), fakeChainAdapter),
+    ).toBe(fakeChainAdapter);
+  });
+
+  it('no usa el adaptador local en producción, aunque esté configurado', () => {
+    expect(
+      selectChainAdapter(
+        configWith({ NODE_ENV: 'production' }),
+        fakeChainAdapter,
+      ),
+    ).toBeNull();
+    expect(
+      selectChainAdapter(
+        configWith({ NODE_ENV: 'production', CRYPTO_CHAIN_ADAPTER: 'fake' }),
+        fakeChainAdapter,
+      ),
+    ).toBeNull();
+  });
+});
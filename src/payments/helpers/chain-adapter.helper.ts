@@ -0,0 +1,43 @@
+import { Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import type { IChainAdapter } from '../interfaces/chain-adapter.interface.js';
+import { FakeChainAdapter } from '../providers/fake-chain.adapter.js';
+
+// Entornos en los que se puede usar el adaptador local, sin red real
+const FAKE_CHAIN_ADAPTER_ENVIRONMENTS = ['development', 'test'];
+
+const logger = new Logger('ChainAdapter');
+
+/**
+ * Elige el adaptador de blockchain según CRYPTO_CHAIN_ADAPTER.
+ * El adaptador local ("fake", el default en desarrollo y pruebas) no observa
+ * ninguna red: fuera de esos entornos no se usa y, sin un adaptador real,
+ * devuelve null y los pagos cripto verificados en la blockchain quedan
+ * deshabilitados.
+ */
+export function selectChainAdapter(
+  configService: ConfigService,
+  fakeChainAdapter: FakeChainAdapter,
+): IChainAdapter | null {
+  const nodeEnv = configService.get<string>('NODE_ENV') ?? 'development';
+  const allowsFake = FAKE_CHAIN_ADAPTER_ENVIRONMENTS.includes(nodeEnv);
+  const adapter =
+    configService.get<string>('CRYPTO_CHAIN_ADAPTER') ??
+    (allowsFake ? 'fake' : undefined);
+
+  if (adapter === 'fake' && allowsFake) {
+    return fakeChainAdapter;
+  }
+
+  if (adapter === 'fake') {
+    logger.warn(
+      `El adaptador de blockchain local no se puede usar con NODE_ENV=${nodeEnv}: los pagos cripto verificados en la blockchain quedan deshabilitados`,
+    );
+  } else if (adapter) {
+    logger.error(
+      `Adaptador de blockchain desconocido "${adapter}" en CRYPTO_CHAIN_ADAPTER: los pagos cripto verificados en la blockchain quedan deshabilitados`,
+    );
+  }
+
+  return null;
+}
@@ -0,0 +1,77 @@
+/**
+ * Helper para cotizar montos en USD a criptomonedas.
+ * La cotización queda fija en el pago cripto hasta que vence.
+ */
+
+import { CryptoAsset } from '../../generated/enums.js';
+
+interface CoinGeckoPriceResponse {
+  bitcoin?: { usd?: number };
+}
+
+interface CachedRate {
+  rate: number;
+  timestamp: number;
+}
+
+// Cache en memoria (1 minuto): la cotización se bloquea por transacción
+let cachedBtcRate: CachedRate | null = null;
+const CACHE_DURATION = 60 * 1000; // 1 minuto en milisegundos
+
+/**
+ * Decimales con los que se expresa el monto de cada activo.
+ */
+export const CRYPTO_DECIMALS: Record<CryptoAsset, number> = {
+  [CryptoAsset.USDT]: 6,
+  [CryptoAsset.BTC]: 8,
+};
+
+/**
+ * Obtiene el precio en USD de una unidad del activo.
+ * USDT es una stablecoin y se cotiza 1:1. Para BTC no hay tasa de fallback:
+ * sin precio actualizado no se puede bloquear una cotización.
+ */
+export async function getCryptoUsdRate(asset: CryptoAsset): Promise<number> {
+  if (asset === CryptoAsset.USDT) {
+    return 1;
+  }
+
+  if (cachedBtcRate && Date.now() - cachedBtcRate.timestamp < CACHE_DURATION) {
+    return cachedBtcRate.rate;
+  }
+
+  const response = await fetch(
+    'https://api.coingecko.com/api/v3/simple/price?ids=bitcoin&vs_currencies=usd',
+  );
+
+  if (!response.ok) {
+    throw new Error(
+      `Error al obtener la cotización de BTC: ${response.status}`,
+    );
+  }
+
+  const data = (await response.json()) as CoinGeckoPriceResponse;
+  const rate = data.bitcoin?.usd ?? 0;
+
+  if (rate <= 0) {
+    throw new Error('Cotización de BTC inválida recibida de la API');
+  }
+
+  cachedBtcRate = { rate, timestamp: Date.now() };
+  return rate;
+}
+
+/**
+ * Convierte un monto en USD a unidades del activo.
+ * Redondea hacia arriba para que el pago nunca quede por debajo del total.
+ */
+export function convertUsdToCrypto(
+  amountUsd: number,
+  rate: number,
+  asset: CryptoAsset,
+): number {
+  const factor = 10 ** CRYPTO_DECIMALS[asset];
+  // toFixed evita que el error de punto flotante sume una unidad mínima de más
+  const units = Number(((amountUsd / rate) * factor).toFixed(4));
+  return Math.ceil(units) / factor;
+}
@@ -0,0 +1,83 @@
+import { createHmac } from 'crypto';
+import { describe, expect, it } from '@jest/globals';
+import { verifyMercadoPagoSignature } from './mercadopago-signature.helper.js';
+
+const SECRET = 'mp_webhook_secret';
+const DATA_ID = '123456789';
+const REQUEST_ID = 'request-1';
+
+/**
+ * Header x-signature firmado como lo hace Mercado Pago.
+ */
+function sign(ts: number = Math.floor(Date.now() / 1000)): string {
+  const hash = createHmac('sha256', SECRET)
+    .update(`id:${DATA_ID};request-id:${REQUEST_ID};ts:${ts};`)
+    .digest('hex');
+  return `ts=${ts},v1=${hash}`;
+}
+
+describe('verifyMercadoPagoSignature', () => {
+  it('acepta una firma válida', () => {
+    expect(
+      verifyMercadoPagoSignature({
+        signature: sign(),
+        requestId: REQUEST_ID,
+        dataId: DATA_ID,
+        secret: SECRET,
+      }),
+    ).toBe(true);
+  });
+
+  it('acepta un ts en milisegundos', () => {
+    expect(
+      verifyMercadoPagoSignature({
+        signature: sign(Date.now()),
+        requestId: REQUEST_ID,
+        dataId: DATA_ID,
+        secret: SECRET,
+      }),
+    ).toBe(true);
+  });
+
+  it('rechaza la firma de otro pago', () => {
+    expect(
+      verifyMercadoPagoSignature({
+        signature: sign(),
+        requestId: REQUEST_ID,
+        dataId: '987654321',
+        secret: SECRET,
+      }),
+    ).toBe(false);
+  });
+
+  it('rechaza una firma fuera de la tolerancia de 300 segundos', () => {
+    const now = Math.floor(Date.now() / 1000);
+
+    expect(
+      verifyMercadoPagoSignature({
+        signature: sign(now - 301),
+        requestId: REQUEST_ID,
+        dataId: DATA_ID,
+        secret: SECRET,
+      }),
+    ).toBe(false);
+    expect(
+      verifyMercadoPagoSignature({
+        signature: sign(now + 301),
+        requestId: REQUEST_ID,
+        dataId: DATA_ID,
+        secret: SECRET,
+      }),
+    ).toBe(false);
+  });
+
+  it('rechaza las peticiones sin firma', () => {
+    expect(
+      verifyMercadoPagoSignature({
+        requestId: REQUEST_ID,
+        dataId: DATA_ID,
+        secret: SECRET,
+      }),
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,94 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+/**
+ * Helper para validar la firma de los webhooks de Mercado Pago.
+ *
+ * MP envía el header `x-signature` con el formato `ts=<timestamp>,v1=<hash>`,
+ * donde el hash es un HMAC-SHA256 (hex) con la clave secreta del webhook sobre
+ * la plantilla `id:<data.id>;request-id:<x-request-id>;ts:<ts>;`.
+ */
+
+// Antigüedad máxima de la firma, la misma que se acepta en Stripe
+const DEFAULT_TOLERANCE_SECONDS = 300;
+
+export interface MercadoPagoSignatureParams {
+  /** Header x-signature */
+  signature?: string;
+  /** Header x-request-id */
+  requestId?: string;
+  /** data.id de la notificación (query param) */
+  dataId: string;
+  /** Clave secreta configurada en el panel de Mercado Pago */
+  secret: string;
+  /** Segundos de tolerancia entre el ts firmado y la hora actual */
+  toleranceSeconds?: number;
+}
+
+/**
+ * Extrae ts y v1 del header x-signature.
+ */
+function parseSignatureHeader(signature: string): {
+  ts?: string;
+  v1?: string;
+} {
+  const parts: Record<string, string> = {};
+
+  for (const part of signature.split(',')) {
+    const [key, value] = part.split('=', 2).map((s) => s?.trim());
+    if (key && value) {
+      parts[key] = value;
+    }
+  }
+
+  return { ts: parts.ts, v1: parts.v1 };
+}
+
+/**
+ * Verifica la firma de un webhook de Mercado Pago.
+ * Los valores que no vienen en la notificación se omiten de la plantilla,
+ * como indica la documentación de MP. Rechaza las firmas fuera de la
+ * tolerancia para evitar reenvíos de notificaciones capturadas.
+ *
+ * @returns true si la firma es válida
+ */
+export function verifyMercadoPagoSignature({
+  signature,
+  requestId,
+  dataId,
+  secret,
+  toleranceSeconds = DEFAULT_TOLERANCE_SECONDS,
+}: MercadoPagoSignatureParams): boolean {
+  if (!signature) {
+    return false;
+  }
+
+  const { ts, v1 } = parseSignatureHeader(signature);
+  if (!ts || !v1) {
+    return false;
+  }
+
+  // MP envía el ts en segundos, aunque algunas notificaciones lo envían en milisegundos
+  const timestamp = Number(ts);
+  const timestampSeconds = timestamp > 1e12 ? timestamp / 1000 : timestamp;
+  const age = Math.abs(Date.now() / 1000 - timestampSeconds);
+  if (!Number.isFinite(age) || age > toleranceSeconds) {
+    return false;
+  }
+
+  // MP indica usar data.id en minúsculas si es alfanumérico
+  const manifest = [
+    dataId ? `id:${dataId.toLowerCase()};` : '',
+    requestId ? `request-id:${requestId};` : '',
+    `ts:${ts};`,
+  ].join('');
+
+  const expected = createHmac('sha256', secret).update(manifest).digest('hex');
+
+  const expectedBuffer = Buffer.from(expected, 'hex');
+  const receivedBuffer = Buffer.from(v1, 'hex');
+
+  return (
+    expectedBuffer.length === receivedBuffer.length &&
+    timingSafeEqual(expectedBuffer, receivedBuffer)
+  );
+}
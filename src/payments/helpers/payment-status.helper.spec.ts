@@ -0,0 +1,51 @@
+import { BadRequestException } from '@nestjs/common';
+import { describe, expect, it } from '@jest/globals';
+import { assertPaymentStatusTransition } from './payment-status.helper.js';
+import { PaymentStatus } from '../../generated/enums.js';
+
+describe('assertPaymentStatusTransition', () => {
+  it('permite completar o rechazar un pago pendiente', () => {
+    expect(() =>
+      assertPaymentStatusTransition(
+        PaymentStatus.pending,
+        PaymentStatus.completed,
+      ),
+    ).not.toThrow();
+    expect(() =>
+      assertPaymentStatusTransition(
+        PaymentStatus.pending,
+        PaymentStatus.failed,
+      ),
+    ).not.toThrow();
+  });
+
+  it('permite completar un pago recibido después de marcarlo como fallido', () => {
+    expect(() =>
+      assertPaymentStatusTransition(
+        PaymentStatus.failed,
+        PaymentStatus.completed,
+      ),
+    ).not.toThrow();
+  });
+
+  it('rechaza cualquier cambio de un pago completado o reembolsado', () => {
+    expect(() =>
+      assertPaymentStatusTransition(
+        PaymentStatus.completed,
+        PaymentStatus.failed,
+      ),
+    ).toThrow(BadRequestException);
+    expect(() =>
+      assertPaymentStatusTransition(
+        PaymentStatus.completed,
+        PaymentStatus.refunded,
+      ),
+    ).toThrow(BadRequestException);
+    expect(() =>
+      assertPaymentStatusTransition(
+        PaymentStatus.refunded,
+        PaymentStatus.completed,
+      ),
+    ).toThrow(BadRequestException);
+  });
+});
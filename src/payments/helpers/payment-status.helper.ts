@@ -0,0 +1,38 @@
+import { BadRequestException } from '@nestjs/common';
+import { PaymentStatus } from '../../generated/enums.js';
+
+/**
+ * Transiciones permitidas al cambiar el estado de un pago: para cada estado,
+ * los estados a los que puede pasar.
+ * Un pago completado solo cambia al reembolsarse, y eso lo registra
+ * PaymentRefundService junto con el reembolso; `refunded` es final.
+ */
+export const PAYMENT_STATUS_TRANSITIONS: Record<
+  PaymentStatus,
+  PaymentStatus[]
+> = {
+  [PaymentStatus.pending]: [PaymentStatus.completed, PaymentStatus.failed],
+  // Pago confirmado después de expirar la transacción, o reabierto por un administrador
+  [PaymentStatus.failed]: [PaymentStatus.completed, PaymentStatus.pending],
+  [PaymentStatus.completed]: [],
+  [PaymentStatus.partially_refunded]: [],
+  [PaymentStatus.refunded]: [],
+};
+
+/**
+ * Verifica que un pago pueda pasar de un estado a otro.
+ * Lanza BadRequestException si la transición no está permitida.
+ */
+export function assertPaymentStatusTransition(
+  from: PaymentStatus,
+  to: PaymentStatus,
+): void {
+  if (!PAYMENT_STATUS_TRANSITIONS[from].includes(to)) {
+    const allowedTargets = PAYMENT_STATUS_TRANSITIONS[from];
+    throw new BadRequestException(
+      allowedTargets.length > 0
+        ? `No se puede cambiar un pago de "${from}" a "${to}". Estados permitidos: ${allowedTargets.join(', ')}`
+        : `El pago en estado "${from}" no puede cambiar de estado`,
+    );
+  }
+}
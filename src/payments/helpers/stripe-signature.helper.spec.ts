@@ -0,0 +1,122 @@
+import { createHmac } from 'crypto';
+import { describe, expect, it } from '@jest/globals';
+import { verifyStripeSignature } from './stripe-signature.helper.js';
+
+const SECRET = 'whsec_test_secret';
+const PAYLOAD = Buffer.from(
+  JSON.stringify({ id: 'evt_1', type: 'checkout.session.completed' }),
+);
+
+/**
+ * Header Stripe-Signature firmado como lo hace Stripe.
+ */
+function sign(
+  payload: Buffer,
+  timestamp = Math.floor(Date.now() / 1000),
+  secret = SECRET,
+): string {
+  const hash = createHmac('sha256', secret)
+    .update(`${timestamp}.`)
+    .update(payload)
+    .digest('hex');
+  return `t=${timestamp},v1=${hash}`;
+}
+
+describe('verifyStripeSignature', () => {
+  it('acepta una firma válida', () => {
+    expect(
+      verifyStripeSignature({
+        signature: sign(PAYLOAD),
+        payload: PAYLOAD,
+        secret: SECRET,
+      }),
+    ).toBe(true);
+  });
+
+  it('acepta la firma con la clave nueva durante la rotación', () => {
+    const timestamp = Math.floor(Date.now() / 1000);
+    const oldHash = sign(PAYLOAD, timestamp, 'whsec_old').split('v1=')[1];
+
+    expect(
+      verifyStripeSignature({
+        signature: `${sign(PAYLOAD, timestamp)},v1=${oldHash}`,
+        payload: PAYLOAD,
+        secret: SECRET,
+      }),
+    ).toBe(true);
+  });
+
+  it('rechaza un cuerpo modificado', () => {
+    const tampered = Buffer.from(PAYLOAD.toString().replace('evt_1', 'evt_2'));
+
+    expect(
+      verifyStripeSignature({
+        signature: sign(PAYLOAD),
+        payload: tampered,
+        secret: SECRET,
+      }),
+    ).toBe(false);
+  });
+
+  it('rechaza una firma modificada', () => {
+    const signature = sign(PAYLOAD).replace(/v1=./, (match) =>
+      match.endsWith('0') ? 'v1=1' : 'v1=0',
+    );
+
+    expect(
+      verifyStripeSignature({ signature, payload: PAYLOAD, secret: SECRET }),
+    ).toBe(false);
+  });
+
+  it('rechaza una firma con otra clave', () => {
+    expect(
+      verifyStripeSignature({
+        signature: sign(PAYLOAD, undefined, 'whsec_other'),
+        payload: PAYLOAD,
+        secret: SECRET,
+      }),
+    ).toBe(false);
+  });
+
+  it('rechaza una firma fuera de la tolerancia de 300 segundos', () => {
+    const now = Math.floor(Date.now() / 1000);
+
+    expect(
+      verifyStripeSignature({
+        signature: sign(PAYLOAD, now - 301),
+        payload: PAYLOAD,
+        secret: SECRET,
+      }),
+    ).toBe(false);
+    expect(
+      verifyStripeSignature({
+        signature: sign(PAYLOAD, now + 301),
+        payload: PAYLOAD,
+        secret: SECRET,
+      }),
+    ).toBe(false);
+    expect(
+      verifyStripeSignature({
+        signature: sign(PAYLOAD, now - 290),
+        payload: PAYLOAD,
+        secret: SECRET,
+      }),
+    ).toBe(true);
+  });
+
+  it('rechaza las peticiones sin firma o sin cuerpo', () => {
+    expect(verifyStripeSignature({ payload: PAYLOAD, secret: SECRET })).toBe(
+      false,
+    );
+    expect(
+      verifyStripeSignature({ signature: sign(PAYLOAD), secret: SECRET }),
+    ).toBe(false);
+    expect(
+      verifyStripeSignature({
+        signature: 'v1=abc',
+        payload: PAYLOAD,
+        secret: SECRET,
+      }),
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,87 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+/**
+ * Helper para validar la firma de los webhooks de Stripe.
+ *
+ * Stripe envía el header `Stripe-Signature` con el formato
+ * `t=<timestamp>,v1=<hash>[,v1=<hash>...]`, donde cada hash es un HMAC-SHA256
+ * (hex) con la clave del endpoint (whsec_...) sobre `<timestamp>.<cuerpo>`.
+ * Hay más de un v1 mientras se rota la clave.
+ */
+
+// Antigüedad máxima de la firma, igual que las librerías oficiales de Stripe
+const DEFAULT_TOLERANCE_SECONDS = 300;
+
+export interface StripeSignatureParams {
+  /** Header Stripe-Signature */
+  signature?: string;
+  /** Cuerpo de la petición sin parsear */
+  payload?: Buffer;
+  /** Clave secreta del endpoint configurada en Stripe */
+  secret: string;
+  /** Segundos de tolerancia entre el timestamp firmado y la hora actual */
+  toleranceSeconds?: number;
+}
+
+/**
+ * Extrae el timestamp y las firmas v1 del header Stripe-Signature.
+ */
+function parseSignatureHeader(signature: string): {
+  timestamp?: string;
+  signatures: string[];
+} {
+  let timestamp: string | undefined;
+  const signatures: string[] = [];
+
+  for (const part of signature.split(',')) {
+    const [key, value] = part.split('=', 2).map((s) => s?.trim());
+    if (key === 't' && value) {
+      timestamp = value;
+    } else if (key === 'v1' && value) {
+      signatures.push(value);
+    }
+  }
+
+  return { timestamp, signatures };
+}
+
+/**
+ * Verifica la firma de un webhook de Stripe.
+ * Rechaza las firmas fuera de la tolerancia para evitar reenvíos de
+ * notificaciones capturadas.
+ *
+ * @returns true si alguna de las firmas v1 es válida
+ */
+export function verifyStripeSignature({
+  signature,
+  payload,
+  secret,
+  toleranceSeconds = DEFAULT_TOLERANCE_SECONDS,
+}: StripeSignatureParams): boolean {
+  if (!signature || !payload) {
+    return false;
+  }
+
+  const { timestamp, signatures } = parseSignatureHeader(signature);
+  if (!timestamp || signatures.length === 0) {
+    return false;
+  }
+
+  const age = Math.abs(Date.now() / 1000 - Number(timestamp));
+  if (!Number.isFinite(age) || age > toleranceSeconds) {
+    return false;
+  }
+
+  const expected = createHmac('sha256', secret)
+    .update(`${timestamp}.`)
+    .update(payload)
+    .digest();
+
+  return signatures.some((received) => {
+    const receivedBuffer = Buffer.from(received, 'hex');
+    return (
+      receivedBuffer.length === expected.length &&
+      timingSafeEqual(expected, receivedBuffer)
+    );
+  });
+}
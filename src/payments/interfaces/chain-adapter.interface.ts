@@ -0,0 +1,63 @@
+import type { CryptoAsset } from '../../generated/enums.js';
+
+/**
+ * Token de inyección del adaptador de blockchain activo (null si no hay uno
+ * configurado para el entorno, ver selectChainAdapter).
+ */
+export const CHAIN_ADAPTER = Symbol('CHAIN_ADAPTER');
+
+/**
+ * Destino al que el cliente debe enviar el pago.
+ */
+export interface ChainDepositTarget {
+  /** Red en la que se recibe el pago (ej: TRC20, BTC) */
+  network: string;
+  address: string;
+  /** Memo/referencia requerido por la red, si la dirección es compartida */
+  memo?: string;
+}
+
+/**
+ * Transferencia entrante detectada en la blockchain.
+ */
+export interface ChainTransfer {
+  txHash: string;
+  /** Monto recibido en unidades del activo (ej: 25.5 USDT) */
+  amount: number;
+  confirmations: number;
+}
+
+/**
+ * Interfaz para observar pagos en una blockchain.
+ *
+ * Cada implementación se encarga de generar el destino del pago y de
+ * detectar la transacción que lo confirma. Para agregar una red real:
+ * 1. Implementar esta interfaz
+ * 2. Agregarla a selectChainAdapter con su valor de CRYPTO_CHAIN_ADAPTER
+ */
+export interface IChainAdapter {
+  /**
+   * Confirmaciones necesarias para dar por acreditado un pago
+   */
+  getRequiredConfirmations(asset: CryptoAsset): number;
+
+  /**
+   * Genera la dirección (o dirección + memo) de depósito de una transacción
+   * @param reference - clientTransactionId de la transacción
+   */
+  createDepositTarget(
+    asset: CryptoAsset,
+    reference: string,
+  ): Promise<ChainDepositTarget>;
+
+  /**
+   * Busca la transferencia entrante a un destino de depósito
+   * @param since - Fecha desde la que se aceptan transferencias
+   * @returns La transferencia detectada o null si todavía no llegó
+   */
+  findIncomingTransfer(
+    asset: CryptoAsset,
+    target: ChainDepositTarget,
+    since: Date,
+  ): Promise<ChainTransfer | null>;
+}
@@ -1,20 +1,204 @@
+import type { PaymentProvider } from '../../generated/enums.js';
+
+/**
+ * Token de inyección con la lista de proveedores de pago registrados.
+ */
+export const PAYMENT_PROVIDERS = Symbol('PAYMENT_PROVIDERS');
+
+/**
+ * Funcionalidades que un proveedor de pago puede ofrecer.
+ */
+export interface PaymentProviderCapabilities {
+  /** Checkout alojado: al crear la transacción se crea el cobro y se redirige al cliente */
+  redirect: boolean;
+  /** Links de pago generados a pedido */
+  paymentLinks: boolean;
+  /** Confirmación del pago consultándolo en el proveedor */
+  confirmation: boolean;
+  /** Cobro enviando una solicitud al teléfono del cliente */
+  phone: boolean;
+  /** El pago se confirma revisando un comprobante */
+  manualReview: boolean;
+  /** Reembolsos automáticos en el proveedor */
+  refunds: boolean;
+  /** Cobro con tarjetas guardadas del cliente */
+  savedCards: boolean;
+  /** Notificaciones de webhook firmadas */
+  webhooks: boolean;
+  /** Búsqueda de pagos por referencia para la conciliación */
+  reconciliation: boolean;
+}
+
+export type PaymentCapability = keyof PaymentProviderCapabilities;
+
+/**
+ * Desglose de impuesto de un cobro.
+ */
+export interface PaymentTaxBreakdown {
+  /** Base imponible de los items gravados, sin impuesto */
+  taxableAmount: number;
+  /** Valor del impuesto */
+  taxAmount: number;
+}
+
+/**
+ * Moneda y monto en que el proveedor realiza el cobro, cuando difiere de la
+ * moneda base de la transacción (ej: Mercado Pago cobra en ARS).
+ */
+export interface ProviderCharge {
+  currency: string;
+  amount: number;
+  /** Tasa usada desde la moneda base */
+  exchangeRate: number;
+  /** Registro del historial de tasas usado */
+  exchangeRateId: string | null;
+}
+
+/**
+ * Datos para reembolsar un pago en el proveedor.
+ */
+export interface RefundPaymentParams {
+  /** ID único de la transacción (clientTransactionId) */
+  clientTransactionId: string;
+  /** Monto a reembolsar, en la misma moneda del monto de la transacción */
+  amount: number;
+  /** Monto total cobrado en la transacción */
+  totalAmount: number;
+  /** ID del pago en el proveedor, si se conoce */
+  providerPaymentId?: string;
+  /** Datos del proveedor guardados en la transacción */
+  providerData?: Record<string, unknown>;
+}
+
+/**
+ * Resultado de un reembolso en el proveedor.
+ */
+export interface RefundPaymentResult {
+  refundId?: string;
+  status: 'pending' | 'completed';
+  data?: Record<string, unknown>;
+}
+
+/**
+ * Estado de un pago según el proveedor, consultado por la referencia
+ * (clientTransactionId) de la transacción.
+ */
+export interface ProviderPaymentLookup {
+  status: 'pending' | 'completed' | 'failed';
+  /** Monto cobrado en la moneda de la transacción, si el proveedor lo informa */
+  amount?: number;
+  /** ID del pago en el proveedor */
+  providerPaymentId?: string;
+  data?: Record<string, unknown>;
+}
+
+/**
+ * Resultado de confirmar un pago con el proveedor.
+ */
+export interface PaymentConfirmationResult {
+  /** Código de estado propio del proveedor, si lo tiene */
+  statusCode?: number;
+  status: 'pending' | 'completed' | 'failed';
+  /** clientTransactionId al que el proveedor asocia el pago */
+  clientTransactionId?: string;
+  /** Monto cobrado en la moneda de la transacción, si el proveedor lo informa */
+  amount?: number;
+  /** Moneda y monto del cobro, si se convirtió desde la moneda base */
+  charge?: ProviderCharge;
+  /** Cuotas con que se pagó, si el comprador las elige en el proveedor */
+  installments?: number;
+  data?: Record<string, unknown>;
+}
+
+/**
+ * Datos de una notificación de webhook para validar su firma.
+ */
+export interface WebhookSignatureParams {
+  headers: Record<string, string | undefined>;
+  /** ID del recurso notificado (ej: el pago) */
+  resourceId: string;
+  /** Cuerpo sin parsear, para los proveedores que firman el payload completo */
+  rawBody?: Buffer;
+}
+
+/**
+ * Pago notificado por un webhook, ya consultado en el proveedor.
+ */
+export interface ProviderWebhookResult {
+  clientTransactionId: string;
+  status: 'pending' | 'completed' | 'failed';
+  /** Monto cobrado en la moneda de la transacción, si el proveedor lo informa */
+  amount?: number;
+  /** Cuotas con que se pagó, si el comprador las elige en el proveedor */
+  installments?: number;
+  data?: Record<string, unknown>;
+}
+
+/**
+ * Datos para guardar una tarjeta en la bóveda del proveedor.
+ */
+export interface SaveCardParams {
+  /** Token de la tarjeta generado en el navegador con el SDK del proveedor */
+  cardToken: string;
+  /** Cliente del usuario en el proveedor, si ya tiene uno */
+  customerId?: string;
+  /** Email del usuario, para crear o encontrar su cliente en el proveedor */
+  email: string;
+}
+
+/**
+ * Tarjeta guardada en el proveedor, con los datos que informa el proveedor.
+ */
+export interface SavedCardResult {
+  customerId: string;
+  cardId: string;
+  cardBrand: string;
+  last4Digits: string;
+  expirationMonth: number;
+  expirationYear: number;
+}
+
+/**
+ * Datos para cobrar con una tarjeta guardada.
+ */
+export interface SavedCardChargeParams {
+  amount: number;
+  clientTransactionId: string;
+  customerId: string;
+  cardId: string;
+  /** Token generado con el código de seguridad, para los proveedores que lo exigen */
+  cardToken?: string;
+  /** Cantidad de cuotas elegida (1 si no se indica) */
+  installments?: number;
+  description?: string;
+}
+
 /**
  * Interfaz base para diferentes proveedores de pago
  *
  * Esta interfaz define el contrato que deben implementar todos los proveedores de pago
- * (Payphone, Mercado Pago, Crypto, etc.) para mantener la arquitectura escalable.
+ * (Payphone, Mercado Pago, Stripe, Crypto, etc.) para mantener la arquitectura escalable.
  *
- * En el futuro, cada proveedor implementará esta interfaz con su lógica específica.
+ * Cada proveedor declara sus capacidades e implementa los métodos que
+ * corresponden a ellas. Para agregar un proveedor:
+ * 1. Implementar esta interfaz
+ * 2. Agregarlo a la lista PAYMENT_PROVIDERS en PaymentsModule
  */
 export interface IPaymentProvider {
+  /** Proveedor del enum con el que se registra */
+  readonly code: PaymentProvider;
+  /** Nombre para mostrar en notas y mensajes */
+  readonly displayName: string;
+  readonly capabilities: PaymentProviderCapabilities;
+
   /**
-   * Procesa un pago inicial
+   * Procesa un pago inicial (capacidades redirect y paymentLinks)
    * @param amount - Monto a pagar
    * @param clientTransactionId - ID único de la transacción
    * @param metadata - Datos adicionales específicos del proveedor
    * @returns URL de redirección o datos para procesar el pago
    */
-  processPayment(
+  processPayment?(
     amount: number,
     clientTransactionId: string,
     metadata?: Record<string, unknown>,
@@ -22,33 +206,110 @@ export interface IPaymentProvider {
     paymentId?: string;
     redirectUrl?: string;
     paymentData?: Record<string, unknown>;
+    /** Moneda y monto del cobro, si se convirtió desde la moneda base */
+    charge?: ProviderCharge;
   }>;
 
   /**
-   * Confirma el estado de un pago
+   * Vence el checkout de una transacción que ya no se pagará, para que su
+   * link deje de aceptar pagos (capacidad redirect)
+   * @param providerData - Datos del proveedor guardados en la transacción
+   */
+  expireCheckout?(providerData: Record<string, unknown>): Promise<void>;
+
+  /**
+   * Confirma el estado de un pago (capacidad confirmation)
    * @param paymentId - ID del pago en el proveedor
    * @param clientTransactionId - ID único de la transacción
-   * @returns Estado del pago y datos adicionales
+   * @returns Estado del pago, transacción y monto que informa el proveedor
    */
-  confirmPayment(
+  confirmPayment?(
     paymentId: string,
     clientTransactionId: string,
-  ): Promise<{
-    statusCode: number;
-    status: 'pending' | 'completed' | 'failed';
-    data?: Record<string, unknown>;
-  }>;
+  ): Promise<PaymentConfirmationResult>;
 
   /**
-   * Procesa un pago por teléfono (si el proveedor lo soporta)
+   * Procesa un pago por teléfono (capacidad phone)
    * @param phoneNumber - Número de teléfono
    * @param amount - Monto a pagar
    * @param clientTransactionId - ID único de la transacción
+   * @param taxBreakdown - Desglose de impuestos del monto
    * @returns Datos de la transacción
    */
   processPhonePayment?(
     phoneNumber: string,
     amount: number,
     clientTransactionId: string,
+    taxBreakdown?: PaymentTaxBreakdown,
   ): Promise<Record<string, unknown>>;
+
+  /**
+   * Reembolsa total o parcialmente un pago completado (capacidad refunds)
+   * @param params - Transacción, monto a reembolsar y monto total cobrado
+   * @returns ID y estado del reembolso en el proveedor
+   */
+  refundPayment?(params: RefundPaymentParams): Promise<RefundPaymentResult>;
+
+  /**
+   * Valida la firma de una notificación de webhook (capacidad webhooks)
+   * @returns true si la notificación viene del proveedor
+   */
+  verifyWebhookSignature?(params: WebhookSignatureParams): boolean;
+
+  /**
+   * Consulta el pago notificado por un webhook (capacidad webhooks)
+   * @param resourceId - ID del recurso notificado
+   * @returns Transacción y estado del pago, o null si no corresponde a ninguna
+   */
+  handleWebhook?(resourceId: string): Promise<ProviderWebhookResult | null>;
+
+  /**
+   * Guarda una tarjeta tokenizada en el cliente del usuario (capacidad savedCards)
+   * @param params - Token de la tarjeta y cliente o email del usuario
+   * @returns IDs de cliente y tarjeta, y los datos de la tarjeta según el proveedor
+   */
+  saveCard?(params: SaveCardParams): Promise<SavedCardResult>;
+
+  /**
+   * Elimina una tarjeta guardada del proveedor (capacidad savedCards)
+   */
+  deleteCard?(customerId: string, cardId: string): Promise<void>;
+
+  /**
+   * Cobra con una tarjeta guardada, sin redirección (capacidad savedCards)
+   * @returns Estado del cobro, transacción y monto que informa el proveedor
+   */
+  chargeSavedCard?(
+    params: SavedCardChargeParams,
+  ): Promise<PaymentConfirmationResult>;
+
+  /**
+   * Busca en el proveedor el pago de una transacción (capacidad reconciliation)
+   * @param clientTransactionId - ID único de la transacción
+   * @returns Estado y monto del pago, o null si el proveedor no tiene pagos para ella
+   */
+  findPaymentByReference?(
+    clientTransactionId: string,
+  ): Promise<ProviderPaymentLookup | null>;
 }
+
+/**
+ * Métodos que un proveedor debe implementar por cada capacidad.
+ */
+interface CapabilityMethods {
+  redirect: 'processPayment' | 'expireCheckout';
+  paymentLinks: 'processPayment';
+  confirmation: 'confirmPayment';
+  phone: 'processPhonePayment';
+  manualReview: never;
+  refunds: 'refundPayment';
+  savedCards: 'saveCard' | 'deleteCard' | 'chargeSavedCard';
+  webhooks: 'verifyWebhookSignature' | 'handleWebhook';
+  reconciliation: 'findPaymentByReference';
+}
+
+/**
+ * Proveedor que ofrece una capacidad, con sus métodos garantizados.
+ */
+export type PaymentProviderWith<C extends PaymentCapability> =
+  IPaymentProvider & Required<Pick<IPaymentProvider, CapabilityMethods[C]>>;
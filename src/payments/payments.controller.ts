@@ -3,24 +3,37 @@ import {
   Post,
   Get,
   Delete,
+  Patch,
   Body,
   Param,
   Req,
+  Headers,
+  Query,
   UseGuards,
   UseInterceptors,
   UploadedFile,
   BadRequestException,
+  InternalServerErrorException,
+  type RawBodyRequest,
 } from '@nestjs/common';
 import { FileInterceptor } from '@nestjs/platform-express';
 import type { Request } from 'express';
 import { PaymentsService } from './payments.service.js';
 import { CreatePaymentTransactionDto } from './dto/create-payment-transaction.dto.js';
+import { UpdatePaymentStatusDto } from './dto/update-payment-status.dto.js';
+import { ApproveDepositDto } from './dto/approve-deposit.dto.js';
+import { RejectDepositDto } from './dto/reject-deposit.dto.js';
+import { CreateCryptoPaymentDto } from './dto/create-crypto-payment.dto.js';
+import { SimulateCryptoTransferDto } from './dto/simulate-crypto-transfer.dto.js';
+import { CreateInstallmentPlanDto } from './dto/create-installment-plan.dto.js';
+import { UpdateInstallmentPlanDto } from './dto/update-installment-plan.dto.js';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard.js';
 import { CurrentUser } from '../auth/decorators/current-user.decorator.js';
 import type { LoggedInUserData } from '../interfaces/authenticated-user.interface.js';
-import { PaymentStatus, OrderStatus } from '../generated/enums.js';
+import { WebhookEventStatus } from '../generated/enums.js';
 import { PaymentProvider } from '../generated/enums.js';
 import { Public } from '../auth/decorators/public.decorator.js';
+import { AdminGuard } from '../auth/guards/admin.guard.js';
 
 @Controller('payments')
 export class PaymentsController {
@@ -88,39 +101,271 @@ export class PaymentsController {
     );
   }
 
+  /**
+   * Cuotas disponibles para el total del carrito con un proveedor.
+   * Con addressId el total incluye envío e impuestos.
+   */
+  @Get('installments')
+  @UseGuards(JwtAuthGuard)
+  getInstallmentOptions(
+    @CurrentUser() user: LoggedInUserData,
+    @Query('provider') provider?: PaymentProvider,
+    @Query('addressId') addressId?: string,
+  ) {
+    return this.paymentsService.getInstallmentOptions(
+      user.id,
+      provider || PaymentProvider.PAYPHONE,
+      addressId,
+    );
+  }
+
+  @Get('installment-plans')
+  @UseGuards(JwtAuthGuard, AdminGuard)
+  findInstallmentPlans(@Query('provider') provider?: PaymentProvider) {
+    return this.paymentsService.findInstallmentPlans(provider);
+  }
+
+  @Get('installment-plans/:id')
+  @UseGuards(JwtAuthGuard, AdminGuard)
+  findInstallmentPlan(@Param('id') id: string) {
+    return this.paymentsService.findInstallmentPlan(id);
+  }
+
+  @Post('installment-plans')
+  @UseGuards(JwtAuthGuard, AdminGuard)
+  createInstallmentPlan(@Body() dto: CreateInstallmentPlanDto) {
+    return this.paymentsService.createInstallmentPlan(dto);
+  }
+
+  @Patch('installment-plans/:id')
+  @UseGuards(JwtAuthGuard, AdminGuard)
+  updateInstallmentPlan(
+    @Param('id') id: string,
+    @Body() dto: UpdateInstallmentPlanDto,
+  ) {
+    return this.paymentsService.updateInstallmentPlan(id, dto);
+  }
+
+  @Delete('installment-plans/:id')
+  @UseGuards(JwtAuthGuard, AdminGuard)
+  removeInstallmentPlan(@Param('id') id: string) {
+    return this.paymentsService.removeInstallmentPlan(id);
+  }
+
   @Post('webhooks/mercadopago')
   @Public()
-  async mercadopagoWebhook(@Req() req: Request) {
+  async mercadopagoWebhook(
+    @Req() req: Request,
+    @Headers('x-signature') signature?: string,
+    @Headers('x-request-id') requestId?: string,
+  ) {
     const dataId = String(req.query?.['data.id'] ?? req.body?.data?.id ?? '');
     const type = req.query?.type;
     if (!dataId || type !== 'payment') {
       return { received: true };
     }
+
+    // Rechazar (401) las notificaciones que no vienen firmadas por Mercado Pago
+    this.paymentsService.assertValidWebhookSignature(
+      PaymentProvider.MERCADOPAGO,
+      {
+        headers: { 'x-signature': signature, 'x-request-id': requestId },
+        resourceId: dataId,
+      },
+    );
+
+    const payload = (req.body ?? {}) as {
+      id?: string | number;
+      action?: string;
+    };
     try {
-      await this.paymentsService.handleMercadoPagoWebhook(dataId);
+      await this.paymentsService.receiveWebhook(PaymentProvider.MERCADOPAGO, {
+        // Sin id de notificación, el evento se identifica por pago y acción
+        eventId: String(
+          payload.id ?? `${type}:${dataId}:${payload.action ?? ''}`,
+        ),
+        type,
+        resourceId: dataId,
+        payload,
+      });
     } catch {
-      // Acusar recibo con 200 aunque falle el procesamiento para que MP no reintente en bucle
+      // Responder 5xx para que MP reintente; los duplicados ya procesados responden 200
+      throw new InternalServerErrorException(
+        'No se pudo procesar la notificación de Mercado Pago',
+      );
     }
     return { received: true };
   }
 
-  @Post('update-status')
+  /**
+   * Webhook de Stripe para los eventos de Checkout Sessions.
+   * La firma se calcula sobre el cuerpo sin parsear (rawBody).
+   */
+  @Post('webhooks/stripe')
   @Public()
+  async stripeWebhook(
+    @Req() req: RawBodyRequest<Request>,
+    @Headers('stripe-signature') signature?: string,
+  ) {
+    const event = (req.body ?? {}) as {
+      id?: string;
+      type?: string;
+      data?: { object?: { id?: string } };
+    };
+    const sessionId = event.data?.object?.id;
+    if (
+      !event.id ||
+      !sessionId ||
+      !event.type?.startsWith('checkout.session.')
+    ) {
+      return { received: true };
+    }
+
+    // Rechazar (401) las notificaciones que no vienen firmadas por Stripe
+    this.paymentsService.assertValidWebhookSignature(PaymentProvider.STRIPE, {
+      headers: { 'stripe-signature': signature },
+      resourceId: sessionId,
+      rawBody: req.rawBody,
+    });
+
+    try {
+      await this.paymentsService.receiveWebhook(PaymentProvider.STRIPE, {
+        eventId: event.id,
+        type: event.type,
+        resourceId: sessionId,
+        payload: event as Record<string, unknown>,
+      });
+    } catch {
+      // Responder 5xx para que Stripe reintente; los duplicados ya procesados responden 200
+      throw new InternalServerErrorException(
+        'No se pudo procesar la notificación de Stripe',
+      );
+    }
+    return { received: true };
+  }
+
+  @Get('webhooks/events')
+  @UseGuards(JwtAuthGuard, AdminGuard)
+  findWebhookEvents(
+    @Query('status') status?: WebhookEventStatus,
+    @Query('page') page?: string,
+    @Query('limit') limit?: string,
+  ) {
+    const pageNumber = page ? parseInt(page, 10) : 1;
+    const limitNumber = limit ? parseInt(limit, 10) : 20;
+    return this.paymentsService.findWebhookEvents(
+      status,
+      pageNumber,
+      limitNumber,
+    );
+  }
+
+  @Post('webhooks/events/:id/replay')
+  @UseGuards(JwtAuthGuard, AdminGuard)
+  replayWebhookEvent(@Param('id') id: string) {
+    return this.paymentsService.replayWebhookEvent(id);
+  }
+
+  /**
+   * Ejecuta la conciliación de pagos pendientes sin esperar al job programado.
+   */
+  @Post('reconciliation/run')
+  @UseGuards(JwtAuthGuard, AdminGuard)
+  runReconciliation() {
+    return this.paymentsService.runReconciliation();
+  }
+
+  @Get('reconciliation/runs')
+  @UseGuards(JwtAuthGuard, AdminGuard)
+  findReconciliationRuns(
+    @Query('page') page?: string,
+    @Query('limit') limit?: string,
+  ) {
+    const pageNumber = page ? parseInt(page, 10) : 1;
+    const limitNumber = limit ? parseInt(limit, 10) : 20;
+    return this.paymentsService.findReconciliationRuns(pageNumber, limitNumber);
+  }
+
+  @Get('reconciliation/runs/:id')
+  @UseGuards(JwtAuthGuard, AdminGuard)
+  findReconciliationRun(@Param('id') id: string) {
+    return this.paymentsService.findReconciliationRun(id);
+  }
+
+  /**
+   * Cambio manual del estado de un pago (solo administradores).
+   * Los clientes no pueden cambiar estados: el pago se confirma con el proveedor
+   * mediante verify-payphone-payment, verify-mercadopago-payment o webhooks.
+   */
+  @Patch('transactions/:clientTransactionId/status')
+  @UseGuards(JwtAuthGuard, AdminGuard)
   async updatePaymentStatus(
-    @Body()
-    body: {
-      clientTransactionId: string;
-      status: PaymentStatus;
-      payphoneData?: Record<string, unknown>;
-    },
+    @Param('clientTransactionId') clientTransactionId: string,
+    @Body() updatePaymentStatusDto: UpdatePaymentStatusDto,
+    @CurrentUser() user: LoggedInUserData,
   ) {
     return this.paymentsService.updatePaymentStatus(
-      body.clientTransactionId,
-      body.status,
-      body.payphoneData,
+      clientTransactionId,
+      updatePaymentStatusDto,
+      user.id,
     );
   }
 
+  /**
+   * Cola de comprobantes de depósito (efectivo y cripto) pendientes de revisión.
+   */
+  @Get('deposits/pending')
+  @UseGuards(JwtAuthGuard, AdminGuard)
+  findPendingDeposits(
+    @Query('provider') provider?: PaymentProvider,
+    @Query('page') page?: string,
+    @Query('limit') limit?: string,
+  ) {
+    const pageNumber = page ? parseInt(page, 10) : 1;
+    const limitNumber = limit ? parseInt(limit, 10) : 20;
+    return this.paymentsService.findPendingDeposits(
+      provider,
+      pageNumber,
+      limitNumber,
+    );
+  }
+
+  @Post('deposits/:clientTransactionId/approve')
+  @UseGuards(JwtAuthGuard, AdminGuard)
+  approveDeposit(
+    @Param('clientTransactionId') clientTransactionId: string,
+    @Body() approveDepositDto: ApproveDepositDto,
+    @CurrentUser() user: LoggedInUserData,
+  ) {
+    return this.paymentsService.approveDeposit(
+      clientTransactionId,
+      user.id,
+      approveDepositDto.note,
+    );
+  }
+
+  @Post('deposits/:clientTransactionId/reject')
+  @UseGuards(JwtAuthGuard, AdminGuard)
+  rejectDeposit(
+    @Param('clientTransactionId') clientTransactionId: string,
+    @Body() rejectDepositDto: RejectDepositDto,
+    @CurrentUser() user: LoggedInUserData,
+  ) {
+    return this.paymentsService.rejectDeposit(
+      clientTransactionId,
+      user.id,
+      rejectDepositDto.reason,
+    );
+  }
+
+  @Get('transactions/:clientTransactionId/status-history')
+  @UseGuards(JwtAuthGuard, AdminGuard)
+  getPaymentStatusHistory(
+    @Param('clientTransactionId') clientTransactionId: string,
+  ) {
+    return this.paymentsService.getPaymentStatusHistory(clientTransactionId);
+  }
+
   @Post('phone-payment')
   @UseGuards(JwtAuthGuard)
   async processPhonePayment(
@@ -148,15 +393,11 @@ export class PaymentsController {
   @UseGuards(JwtAuthGuard)
   async createOrderFromTransaction(
     @CurrentUser() user: LoggedInUserData,
-    @Body()
-    body: {
-      clientTransactionId: string;
-      initialStatus?: OrderStatus;
-    },
+    @Body() body: { clientTransactionId: string },
   ) {
-    return this.paymentsService.createOrderFromPaymentTransaction(
+    return this.paymentsService.createOrderFromUserTransaction(
+      user.id,
       body.clientTransactionId,
-      body.initialStatus || OrderStatus.pending,
     );
   }
 
@@ -213,6 +454,49 @@ export class PaymentsController {
       body.orderId, // Pasar orderId si existe
     );
   }
+  /**
+   * Inicia un pago cripto con dirección de depósito y cotización fija.
+   * La transacción se completa sola al confirmarse la transferencia.
+   */
+  @Post('crypto/checkout')
+  @UseGuards(JwtAuthGuard)
+  createCryptoPayment(
+    @CurrentUser() user: LoggedInUserData,
+    @Body() createCryptoPaymentDto: CreateCryptoPaymentDto,
+  ) {
+    return this.paymentsService.createCryptoPayment(
+      user.id,
+      createCryptoPaymentDto.addressId,
+      createCryptoPaymentDto.clientTransactionId,
+      createCryptoPaymentDto.asset,
+      createCryptoPaymentDto.orderId,
+    );
+  }
+
+  @Get('crypto/:clientTransactionId')
+  @UseGuards(JwtAuthGuard)
+  getCryptoPayment(
+    @CurrentUser() user: LoggedInUserData,
+    @Param('clientTransactionId') clientTransactionId: string,
+  ) {
+    return this.paymentsService.getCryptoPayment(user.id, clientTransactionId);
+  }
+
+  /**
+   * Simula la transferencia de un pago cripto (solo con el adaptador local).
+   */
+  @Post('crypto/:clientTransactionId/simulate-transfer')
+  @UseGuards(JwtAuthGuard, AdminGuard)
+  simulateCryptoTransfer(
+    @Param('clientTransactionId') clientTransactionId: string,
+    @Body() simulateCryptoTransferDto: SimulateCryptoTransferDto,
+  ) {
+    return this.paymentsService.simulateCryptoTransfer(
+      clientTransactionId,
+      simulateCryptoTransferDto.amount,
+      simulateCryptoTransferDto.confirmations,
+    );
+  }
 
   @Post('regenerate-transaction')
   @UseGuards(JwtAuthGuard)
@@ -224,6 +508,7 @@ export class PaymentsController {
       paymentProvider?: PaymentProvider;
       paymentMethodId?: string;
       payphoneData?: Record<string, unknown>;
+      installments?: number;
     },
   ) {
     return await this.paymentsService.regenerateTransactionForOrder(
@@ -232,6 +517,7 @@ export class PaymentsController {
       body.paymentProvider || PaymentProvider.PAYPHONE,
       body.paymentMethodId,
       body.payphoneData,
+      body.installments,
     );
   }
 
@@ -273,4 +559,52 @@ export class PaymentsController {
       body.externalReference,
     );
   }
+
+  /**
+   * Confirma con Payphone el estado de un pago y actualiza la transacción/orden.
+   * Se usa cuando el usuario regresa desde la cajita o el link de pago.
+   */
+  @Post('verify-payphone-payment')
+  @Public()
+  async verifyPayphonePayment(
+    @Body()
+    body: {
+      paymentId: string;
+      clientTransactionId: string;
+    },
+  ) {
+    if (!body.paymentId || !body.clientTransactionId) {
+      throw new BadRequestException(
+        'paymentId y clientTransactionId son requeridos',
+      );
+    }
+    return this.paymentsService.verifyAndUpdatePayphonePayment(
+      String(body.paymentId),
+      body.clientTransactionId,
+    );
+  }
+
+  /**
+   * Confirma con Stripe el estado de un pago y actualiza la transacción/orden.
+   * Se usa cuando el usuario regresa del checkout con el session_id.
+   */
+  @Post('verify-stripe-payment')
+  @Public()
+  async verifyStripePayment(
+    @Body()
+    body: {
+      sessionId: string;
+      clientTransactionId: string;
+    },
+  ) {
+    if (!body.sessionId || !body.clientTransactionId) {
+      throw new BadRequestException(
+        'sessionId y clientTransactionId son requeridos',
+      );
+    }
+    return this.paymentsService.verifyAndUpdateStripePayment(
+      body.sessionId,
+      body.clientTransactionId,
+    );
+  }
 }
@@ -1,19 +1,41 @@
 import { Module, forwardRef } from '@nestjs/common';
 import { HttpModule } from '@nestjs/axios';
+import { ConfigService } from '@nestjs/config';
 import { PaymentsController } from './payments.controller.js';
 import { PaymentsService } from './payments.service.js';
 import { PayphoneProvider } from './providers/payphone.provider.js';
 import { MercadoPagoProvider } from './providers/mercadopago.provider.js';
+import { StripeProvider } from './providers/stripe.provider.js';
+import { CashDepositProvider } from './providers/cash-deposit.provider.js';
+import { CryptoProvider } from './providers/crypto.provider.js';
+import { PaymentProviderRegistry } from './providers/payment-provider.registry.js';
+import {
+  PAYMENT_PROVIDERS,
+  type IPaymentProvider,
+} from './interfaces/payment-provider.interface.js';
+import { FakeChainAdapter } from './providers/fake-chain.adapter.js';
+import { CHAIN_ADAPTER } from './interfaces/chain-adapter.interface.js';
+import { selectChainAdapter } from './helpers/chain-adapter.helper.js';
 import { PrismaModule } from '../prisma/prisma.module.js';
 import { OrdersModule } from '../orders/orders.module.js';
 import { EmailModule } from '../email/email.module.js';
 import { CloudinaryModule } from '../cloudinary/cloudinary.module.js';
+import { InventoryModule } from '../inventory/inventory.module.js';
+import { CouponsModule } from '../coupons/coupons.module.js';
+import { AuthModule } from '../auth/auth.module.js';
+import { UsersModule } from '../users/users.module.js';
+import { CurrenciesModule } from '../currencies/currencies.module.js';
 // Servicios especializados
 import { PaymentTransactionService } from './services/payment-transaction.service.js';
 import { PaymentOrderService } from './services/payment-order.service.js';
 import { PaymentWebhookService } from './services/payment-webhook.service.js';
 import { PaymentCashDepositService } from './services/payment-cash-deposit.service.js';
 import { PaymentCryptoService } from './services/payment-crypto.service.js';
+import { PaymentRefundService } from './services/payment-refund.service.js';
+import { PaymentReconciliationService } from './services/payment-reconciliation.service.js';
+import { PaymentDepositReviewService } from './services/payment-deposit-review.service.js';
+import { PaymentCryptoWatcherService } from './services/payment-crypto-watcher.service.js';
+import { PaymentInstallmentService } from './services/payment-installment.service.js';
 
 @Module({
   imports: [
@@ -22,18 +44,50 @@ import { PaymentCryptoService } from './services/payment-crypto.service.js';
     EmailModule,
     HttpModule,
     CloudinaryModule,
+    InventoryModule,
+    CouponsModule,
+    AuthModule,
+    UsersModule,
+    CurrenciesModule,
   ],
   controllers: [PaymentsController],
   providers: [
-    // Proveedores de pago
+    // Proveedores de pago: para agregar uno, sumarlo también a PAYMENT_PROVIDERS
     PayphoneProvider,
     MercadoPagoProvider,
+    StripeProvider,
+    CashDepositProvider,
+    CryptoProvider,
+    {
+      provide: PAYMENT_PROVIDERS,
+      useFactory: (...providers: IPaymentProvider[]) => providers,
+      inject: [
+        PayphoneProvider,
+        MercadoPagoProvider,
+        StripeProvider,
+        CashDepositProvider,
+        CryptoProvider,
+      ],
+    },
+    PaymentProviderRegistry,
+    // Adaptador de blockchain para pagos cripto, según CRYPTO_CHAIN_ADAPTER
+    FakeChainAdapter,
+    {
+      provide: CHAIN_ADAPTER,
+      useFactory: selectChainAdapter,
+      inject: [ConfigService, FakeChainAdapter],
+    },
     // Servicios especializados
     PaymentTransactionService,
     PaymentOrderService,
     PaymentWebhookService,
     PaymentCashDepositService,
     PaymentCryptoService,
+    PaymentRefundService,
+    PaymentReconciliationService,
+    PaymentDepositReviewService,
+    PaymentCryptoWatcherService,
+    PaymentInstallmentService,
     // Facade principal
     PaymentsService,
   ],
@@ -41,9 +95,11 @@ import { PaymentCryptoService } from './services/payment-crypto.service.js';
     PaymentsService,
     PayphoneProvider,
     MercadoPagoProvider,
+    PaymentProviderRegistry,
     // Exportar servicios especializados para uso directo si es necesario
     PaymentTransactionService,
     PaymentOrderService,
+    PaymentRefundService,
   ],
 })
 export class PaymentsModule {}
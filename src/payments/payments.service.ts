@@ -6,18 +6,32 @@ import {
 } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service.js';
 import { CreatePaymentTransactionDto } from './dto/create-payment-transaction.dto.js';
+import { UpdatePaymentStatusDto } from './dto/update-payment-status.dto.js';
+import { CreateInstallmentPlanDto } from './dto/create-installment-plan.dto.js';
+import { UpdateInstallmentPlanDto } from './dto/update-installment-plan.dto.js';
 import {
   PaymentStatus,
   OrderStatus,
   PaymentProvider,
+  WebhookEventStatus,
+  PaymentStatusSource,
+  CryptoAsset,
 } from '../generated/enums.js';
 import { OrdersService } from '../orders/orders.service.js';
-import { PayphoneProvider } from './providers/payphone.provider.js';
+import { PaymentProviderRegistry } from './providers/payment-provider.registry.js';
+import type { WebhookSignatureParams } from './interfaces/payment-provider.interface.js';
 import { PaymentTransactionService } from './services/payment-transaction.service.js';
 import { PaymentOrderService } from './services/payment-order.service.js';
-import { PaymentWebhookService } from './services/payment-webhook.service.js';
+import {
+  PaymentWebhookService,
+  type WebhookNotification,
+} from './services/payment-webhook.service.js';
 import { PaymentCashDepositService } from './services/payment-cash-deposit.service.js';
 import { PaymentCryptoService } from './services/payment-crypto.service.js';
+import { PaymentReconciliationService } from './services/payment-reconciliation.service.js';
+import { PaymentDepositReviewService } from './services/payment-deposit-review.service.js';
+import { PaymentCryptoWatcherService } from './services/payment-crypto-watcher.service.js';
+import { PaymentInstallmentService } from './services/payment-installment.service.js';
 import type * as runtime from '@prisma/client/runtime/client';
 
 /**
@@ -31,12 +45,16 @@ export class PaymentsService {
     private prisma: PrismaService,
     @Inject(forwardRef(() => OrdersService))
     private ordersService: OrdersService,
-    private payphoneProvider: PayphoneProvider,
+    private providerRegistry: PaymentProviderRegistry,
     private transactionService: PaymentTransactionService,
     private orderService: PaymentOrderService,
     private webhookService: PaymentWebhookService,
     private cashDepositService: PaymentCashDepositService,
     private cryptoService: PaymentCryptoService,
+    private reconciliationService: PaymentReconciliationService,
+    private depositReviewService: PaymentDepositReviewService,
+    private cryptoWatcherService: PaymentCryptoWatcherService,
+    private installmentService: PaymentInstallmentService,
   ) {}
 
   // ============================================
@@ -93,6 +111,7 @@ export class PaymentsService {
     paymentProvider: PaymentProvider = PaymentProvider.PAYPHONE,
     paymentMethodId?: string,
     payphoneData?: Record<string, unknown>,
+    installments?: number,
   ) {
     return this.transactionService.regenerateForOrder(
       orderId,
@@ -100,9 +119,42 @@ export class PaymentsService {
       paymentProvider,
       paymentMethodId,
       payphoneData,
+      installments,
     );
   }
 
+  // ============================================
+  // CUOTAS - Delegado a PaymentInstallmentService
+  // ============================================
+
+  async getInstallmentOptions(
+    userId: string,
+    provider: PaymentProvider,
+    addressId?: string,
+  ) {
+    return this.installmentService.getCartOptions(userId, provider, addressId);
+  }
+
+  async findInstallmentPlans(provider?: PaymentProvider) {
+    return this.installmentService.findAll(provider);
+  }
+
+  async findInstallmentPlan(id: string) {
+    return this.installmentService.findOne(id);
+  }
+
+  async createInstallmentPlan(dto: CreateInstallmentPlanDto) {
+    return this.installmentService.create(dto);
+  }
+
+  async updateInstallmentPlan(id: string, dto: UpdateInstallmentPlanDto) {
+    return this.installmentService.update(id, dto);
+  }
+
+  async removeInstallmentPlan(id: string) {
+    return this.installmentService.remove(id);
+  }
+
   async verifyMultipleTransactions(
     clientTransactionIds: string[],
     userId: string,
@@ -124,36 +176,160 @@ export class PaymentsService {
     );
   }
 
+  /**
+   * Crea la orden de una transacción del usuario. La orden siempre se crea
+   * pendiente: solo la confirmación del proveedor la marca como pagada.
+   */
+  async createOrderFromUserTransaction(
+    userId: string,
+    clientTransactionId: string,
+  ) {
+    return this.orderService.createOrderFromTransaction(
+      clientTransactionId,
+      OrderStatus.pending,
+      userId,
+    );
+  }
+
+  /**
+   * Cambio manual del estado de un pago por un administrador.
+   */
   async updatePaymentStatus(
     clientTransactionId: string,
-    status: PaymentStatus,
-    payphoneData?: Record<string, unknown>,
+    updatePaymentStatusDto: UpdatePaymentStatusDto,
+    adminId: string,
   ) {
     return this.orderService.updatePaymentStatus(
       clientTransactionId,
-      status,
-      payphoneData,
+      updatePaymentStatusDto.status,
+      {
+        source: PaymentStatusSource.admin,
+        changedById: adminId,
+        note: updatePaymentStatusDto.note,
+      },
     );
   }
 
+  async getPaymentStatusHistory(clientTransactionId: string) {
+    return this.orderService.getPaymentStatusHistory(clientTransactionId);
+  }
+
   // ============================================
   // WEBHOOKS - Delegado a PaymentWebhookService
   // ============================================
 
-  async handleMercadoPagoWebhook(dataId: string): Promise<void> {
-    return this.webhookService.handleMercadoPagoWebhook(dataId);
+  assertValidWebhookSignature(
+    provider: PaymentProvider,
+    params: WebhookSignatureParams,
+  ): void {
+    return this.webhookService.assertValidWebhookSignature(provider, params);
+  }
+
+  async receiveWebhook(
+    provider: PaymentProvider,
+    notification: WebhookNotification,
+  ): Promise<void> {
+    return this.webhookService.receiveWebhook(provider, notification);
+  }
+
+  async findWebhookEvents(
+    status?: WebhookEventStatus,
+    page?: number,
+    limit?: number,
+  ) {
+    return this.webhookService.findWebhookEvents(status, page, limit);
+  }
+
+  async replayWebhookEvent(id: string) {
+    return this.webhookService.replayWebhookEvent(id);
+  }
+
+  // ============================================
+  // CONCILIACIÓN - Delegado a PaymentReconciliationService
+  // ============================================
+
+  async runReconciliation() {
+    const run = await this.reconciliationService.reconcile();
+    return { message: 'Conciliación ejecutada', data: run };
+  }
+
+  async findReconciliationRuns(page?: number, limit?: number) {
+    return this.reconciliationService.findRuns(page, limit);
+  }
+
+  async findReconciliationRun(id: string) {
+    return this.reconciliationService.findRun(id);
+  }
+
+  // ============================================
+  // REVISIÓN DE DEPÓSITOS - Delegado a PaymentDepositReviewService
+  // ============================================
+
+  async findPendingDeposits(
+    provider?: PaymentProvider,
+    page?: number,
+    limit?: number,
+  ) {
+    return this.depositReviewService.findPendingDeposits(provider, page, limit);
+  }
+
+  async approveDeposit(
+    clientTransactionId: string,
+    adminId: string,
+    note?: string,
+  ) {
+    return this.depositReviewService.approveDeposit(
+      clientTransactionId,
+      adminId,
+      note,
+    );
+  }
+
+  async rejectDeposit(
+    clientTransactionId: string,
+    adminId: string,
+    reason: string,
+  ) {
+    return this.depositReviewService.rejectDeposit(
+      clientTransactionId,
+      adminId,
+      reason,
+    );
   }
 
   async verifyAndUpdateMercadoPagoPayment(
     paymentId: string,
     externalReference: string,
   ) {
-    return this.webhookService.verifyAndUpdateMercadoPagoPayment(
+    return this.webhookService.verifyAndUpdatePayment(
+      PaymentProvider.MERCADOPAGO,
       paymentId,
       externalReference,
     );
   }
 
+  async verifyAndUpdatePayphonePayment(
+    paymentId: string,
+    clientTransactionId: string,
+  ) {
+    return this.webhookService.verifyAndUpdatePayment(
+      PaymentProvider.PAYPHONE,
+      paymentId,
+      clientTransactionId,
+    );
+  }
+
+  async verifyAndUpdateStripePayment(
+    sessionId: string,
+    clientTransactionId: string,
+  ) {
+    return this.webhookService.verifyAndUpdatePayment(
+      PaymentProvider.STRIPE,
+      sessionId,
+      clientTransactionId,
+    );
+  }
+
   // ============================================
   // DEPÓSITOS EN EFECTIVO - Delegado a PaymentCashDepositService
   // ============================================
@@ -194,6 +370,38 @@ export class PaymentsService {
     );
   }
 
+  async createCryptoPayment(
+    userId: string,
+    addressId: string,
+    clientTransactionId: string,
+    asset: CryptoAsset,
+    existingOrderId?: string,
+  ) {
+    return this.cryptoService.createCryptoPayment(
+      userId,
+      addressId,
+      clientTransactionId,
+      asset,
+      existingOrderId,
+    );
+  }
+
+  async getCryptoPayment(userId: string, clientTransactionId: string) {
+    return this.cryptoService.getCryptoPayment(userId, clientTransactionId);
+  }
+
+  async simulateCryptoTransfer(
+    clientTransactionId: string,
+    amount?: number,
+    confirmations?: number,
+  ) {
+    return this.cryptoWatcherService.simulateTransfer(
+      clientTransactionId,
+      amount,
+      confirmations,
+    );
+  }
+
   // ============================================
   // PAGOS POR TELÉFONO - Mantenido en facade por complejidad
   // ============================================
@@ -246,11 +454,16 @@ export class PaymentsService {
     }
 
     try {
-      const payphoneResponseData =
-        await this.payphoneProvider.processPhonePayment(
+      const payphoneResponseData = await this.providerRegistry
+        .require(transaction.paymentProvider, 'phone')
+        .processPhonePayment(
           phoneNumber,
           Number(transaction.amount),
           clientTransactionId,
+          {
+            taxableAmount: Number(transaction.taxableAmount),
+            taxAmount: Number(transaction.taxAmount),
+          },
         );
       const updatedTransaction = await this.prisma.paymentTransaction.update({
         where: { clientTransactionId },
@@ -302,10 +515,8 @@ export class PaymentsService {
     clientTransactionId: string,
     metadata?: Record<string, unknown>,
   ) {
-    return this.payphoneProvider.processPayment(
-      amount,
-      clientTransactionId,
-      metadata,
-    );
+    return this.providerRegistry
+      .getDefault('paymentLinks')
+      .processPayment(amount, clientTransactionId, metadata);
   }
 }
@@ -0,0 +1,28 @@
+import { Injectable } from '@nestjs/common';
+import { PaymentProvider } from '../../generated/enums.js';
+import type {
+  IPaymentProvider,
+  PaymentProviderCapabilities,
+} from '../interfaces/payment-provider.interface.js';
+
+/**
+ * Proveedor de pago por depósito o transferencia bancaria.
+ * No se integra con ningún servicio: el cliente sube el comprobante
+ * (PaymentCashDepositService) y un administrador lo revisa.
+ */
+@Injectable()
+export class CashDepositProvider implements IPaymentProvider {
+  readonly code = PaymentProvider.CASH_DEPOSIT;
+  readonly displayName = 'Depósito bancario';
+  readonly capabilities: PaymentProviderCapabilities = {
+    redirect: false,
+    paymentLinks: false,
+    confirmation: false,
+    phone: false,
+    manualReview: true,
+    refunds: false,
+    savedCards: false,
+    webhooks: false,
+    reconciliation: false,
+  };
+}
@@ -0,0 +1,30 @@
+import { Injectable } from '@nestjs/common';
+import { PaymentProvider } from '../../generated/enums.js';
+import type {
+  IPaymentProvider,
+  PaymentProviderCapabilities,
+} from '../interfaces/payment-provider.interface.js';
+
+/**
+ * Proveedor de pago con criptomonedas.
+ * Los pagos con comprobante los revisa un administrador; los pagos con
+ * dirección de depósito se verifican en la blockchain mediante el
+ * adaptador CHAIN_ADAPTER (PaymentCryptoWatcherService).
+ * Los reembolsos se envían manualmente a la billetera del cliente.
+ */
+@Injectable()
+export class CryptoProvider implements IPaymentProvider {
+  readonly code = PaymentProvider.CRYPTO;
+  readonly displayName = 'Cripto';
+  readonly capabilities: PaymentProviderCapabilities = {
+    redirect: false,
+    paymentLinks: false,
+    confirmation: false,
+    phone: false,
+    manualReview: true,
+    refunds: false,
+    savedCards: false,
+    webhooks: false,
+    reconciliation: false,
+  };
+}
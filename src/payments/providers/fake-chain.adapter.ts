@@ -0,0 +1,80 @@
+import { Injectable } from '@nestjs/common';
+import { createHash, randomBytes } from 'crypto';
+import { CryptoAsset } from '../../generated/enums.js';
+import type {
+  ChainDepositTarget,
+  ChainTransfer,
+  IChainAdapter,
+} from '../interfaces/chain-adapter.interface.js';
+
+/**
+ * Adaptador de blockchain local, sin conexión a ninguna red.
+ *
+ * Genera direcciones deterministas por transacción y guarda en memoria las
+ * transferencias simuladas con simulateTransfer. Sirve para desarrollo y
+ * pruebas del flujo completo de pago cripto.
+ */
+@Injectable()
+export class FakeChainAdapter implements IChainAdapter {
+  private readonly transfers = new Map<
+    string,
+    { transfer: ChainTransfer; receivedAt: Date }
+  >();
+
+  getRequiredConfirmations(asset: CryptoAsset): number {
+    return asset === CryptoAsset.BTC ? 2 : 1;
+  }
+
+  createDepositTarget(
+    asset: CryptoAsset,
+    reference: string,
+  ): Promise<ChainDepositTarget> {
+    const hash = createHash('sha256')
+      .update(`${asset}:${reference}`)
+      .digest('hex');
+
+    return Promise.resolve({
+      network: asset === CryptoAsset.BTC ? 'BTC' : 'TRC20',
+      address: `fake-${asset.toLowerCase()}-${hash.slice(0, 32)}`,
+    });
+  }
+
+  findIncomingTransfer(
+    _asset: CryptoAsset,
+    target: ChainDepositTarget,
+    since: Date,
+  ): Promise<ChainTransfer | null> {
+    const entry = this.transfers.get(target.address);
+
+    if (!entry || entry.receivedAt < since) {
+      return Promise.resolve(null);
+    }
+
+    return Promise.resolve(entry.transfer);
+  }
+
+  /**
+   * Registra (o actualiza) una transferencia simulada a una dirección.
+   * Volver a llamarla con más confirmaciones simula el avance de la red.
+   */
+  simulateTransfer(
+    address: string,
+    amount: number,
+    confirmations: number,
+  ): ChainTransfer {
+    const existing = this.transfers.get(address);
+    const transfer: ChainTransfer = {
+      txHash:
+        existing?.transfer.txHash ?? `0x${randomBytes(32).toString('hex')}`,
+      amount,
+      confirmations,
+    };
+
+    this.transfers.set(address, {
+      transfer,
+      receivedAt: existing?.receivedAt ?? new Date(),
+    });
+
+    return transfer;
+  }
+}
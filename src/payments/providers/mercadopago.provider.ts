@@ -1,11 +1,53 @@
 import { Injectable, BadRequestException } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import { MercadoPagoConfig, Payment, Preference } from 'mercadopago';
-import type { IPaymentProvider } from '../interfaces/payment-provider.interface.js';
 import {
-  convertUsdToArs,
-  getUsdToArsRate,
-} from '../helpers/currency.helper.js';
+  Customer,
+  CustomerCard,
+  MercadoPagoConfig,
+  Payment,
+  PaymentRefund,
+  Preference,
+} from 'mercadopago';
+import { PaymentProvider } from '../../generated/enums.js';
+import type {
+  IPaymentProvider,
+  PaymentConfirmationResult,
+  PaymentProviderCapabilities,
+  ProviderCharge,
+  ProviderPaymentLookup,
+  ProviderWebhookResult,
+  RefundPaymentParams,
+  RefundPaymentResult,
+  SaveCardParams,
+  SavedCardChargeParams,
+  SavedCardResult,
+  WebhookSignatureParams,
+} from '../interfaces/payment-provider.interface.js';
+import { CurrenciesService } from '../../currencies/currencies.service.js';
+import { verifyMercadoPagoSignature } from '../helpers/mercadopago-signature.helper.js';
+
+// Horas que una preferencia puede pagarse si no se configura
+// MERCADOPAGO_PREFERENCE_TTL_HOURS (default: 2 días)
+const DEFAULT_PREFERENCE_TTL_HOURS = 48;
+
+/**
+ * Convierte el estado de un pago de Mercado Pago al estado de la transacción.
+ */
+function mapMercadoPagoStatus(
+  status: string | undefined,
+): 'pending' | 'completed' | 'failed' {
+  switch (status) {
+    case 'approved':
+      return 'completed';
+    case 'rejected':
+    case 'cancelled':
+    case 'refunded':
+    case 'charged_back':
+      return 'failed';
+    default:
+      return 'pending';
+  }
+}
 
 /**
  * Implementación del proveedor de pago Mercado Pago.
@@ -13,7 +55,39 @@ import {
  */
 @Injectable()
 export class MercadoPagoProvider implements IPaymentProvider {
-  constructor(private configService: ConfigService) {}
+  readonly code = PaymentProvider.MERCADOPAGO;
+  readonly displayName = 'Mercado Pago';
+  readonly capabilities: PaymentProviderCapabilities = {
+    redirect: true,
+    paymentLinks: false,
+    confirmation: true,
+    phone: false,
+    manualReview: false,
+    refunds: true,
+    savedCards: true,
+    webhooks: true,
+    reconciliation: true,
+  };
+
+  constructor(
+    private configService: ConfigService,
+    private currenciesService: CurrenciesService,
+  ) {}
+
+  /**
+   * Convierte el monto de la moneda base a ARS, la moneda en que cobra MP.
+   * Se redondea al entero más cercano: MP no acepta decimales en ARS.
+   */
+  private async convertToArs(amount: number): Promise<ProviderCharge> {
+    const quote = await this.currenciesService.getRate('ARS');
+
+    return {
+      currency: 'ARS',
+      amount: Math.round(amount * quote.rate),
+      exchangeRate: quote.rate,
+      exchangeRateId: quote.exchangeRateId,
+    };
+  }
 
   /**
    * Valida que una URL de configuración sea válida y no sea un placeholder no resuelto.
@@ -54,6 +128,11 @@ export class MercadoPagoProvider implements IPaymentProvider {
     }
   }
 
+  /**
+   * Crea la preferencia de Checkout Pro.
+   * metadata.installments es la cantidad de cuotas sugerida y
+   * metadata.maxInstallments el máximo que puede elegir el comprador.
+   */
   async processPayment(
     amount: number,
     clientTransactionId: string,
@@ -62,6 +141,7 @@ export class MercadoPagoProvider implements IPaymentProvider {
     paymentId?: string;
     redirectUrl?: string;
     paymentData?: Record<string, unknown>;
+    charge?: ProviderCharge;
   }> {
     const accessToken =
       this.configService.get<string>('MERCADO_PAGO_ACCESS_TOKEN') ||
@@ -93,6 +173,15 @@ export class MercadoPagoProvider implements IPaymentProvider {
     const preference = new Preference(client);
 
     const title = (metadata?.reference as string) || 'Compra en Mercado Copado';
+    const installments = Number(metadata?.installments ?? 1);
+    const maxInstallments = Number(metadata?.maxInstallments ?? installments);
+
+    // La preferencia vence: un link regenerado no deja pagar el anterior
+    const ttlHours =
+      Number(
+        this.configService.get<string>('MERCADOPAGO_PREFERENCE_TTL_HOURS'),
+      ) || DEFAULT_PREFERENCE_TTL_HOURS;
+    const expiresAt = new Date(Date.now() + ttlHours * 60 * 60 * 1000);
 
     // Construir URLs de redirección
     const successUrl = `${frontendUrl}/pay-response?from=mercadopago`;
@@ -107,14 +196,14 @@ export class MercadoPagoProvider implements IPaymentProvider {
       pendingUrl,
     });
 
-    // Convertir monto de USD a ARS para Mercado Pago
-    const amountInArs = await convertUsdToArs(amount);
-    const exchangeRate = await getUsdToArsRate();
+    // Convertir monto de la moneda base a ARS para Mercado Pago
+    const charge = await this.convertToArs(amount);
+    const amountInArs = charge.amount;
 
     console.log('[MercadoPagoProvider] Conversión de moneda:', {
       amountUsd: amount,
       amountArs: amountInArs,
-      exchangeRate,
+      exchangeRate: charge.exchangeRate,
     });
 
     // Construir el body para la preferencia
@@ -138,6 +227,17 @@ export class MercadoPagoProvider implements IPaymentProvider {
       // El usuario será redirigido manualmente después del pago
       notification_url: `${backendUrl}/payments/webhooks/mercadopago`,
       external_reference: clientTransactionId,
+      expires: true,
+      expiration_date_to: expiresAt.toISOString(),
+      // MP copia la metadata al pago: permite conciliar el monto en USD
+      metadata: { amount_usd: amount },
+      // Cuotas que puede elegir el comprador en Checkout Pro
+      ...(maxInstallments > 1 && {
+        payment_methods: {
+          installments: maxInstallments,
+          default_installments: Math.min(installments, maxInstallments),
+        },
+      }),
     };
 
     console.log(
@@ -188,15 +288,55 @@ export class MercadoPagoProvider implements IPaymentProvider {
       paymentData: {
         preferenceId,
         initPoint,
+        expiresAt: expiresAt.toISOString(),
         // Metadata de conversión para referencia
         amountUsd: amount,
         amountArs: amountInArs,
-        exchangeRate,
+        exchangeRate: charge.exchangeRate,
         currency: 'ARS',
       },
+      charge,
     };
   }
 
+  /**
+   * Vence la preferencia de Checkout Pro adelantando su fecha de
+   * expiración, para que su link ya no acepte pagos.
+   */
+  async expireCheckout(providerData: Record<string, unknown>): Promise<void> {
+    const preferenceId = providerData.preferenceId as string | undefined;
+
+    if (!preferenceId) {
+      return;
+    }
+
+    const preference = new Preference(this.getClient());
+
+    try {
+      const current = await preference.get({ preferenceId });
+      await preference.update({
+        id: preferenceId,
+        updatePreferenceRequest: {
+          items: current.items ?? [],
+          expires: true,
+          expiration_date_to: new Date().toISOString(),
+        },
+      });
+    } catch (error: any) {
+      const errorMessage =
+        error?.message || error?.cause?.message || 'Error desconocido';
+
+      console.error('[MercadoPagoProvider] Error al vencer la preferencia:', {
+        preferenceId,
+        errorMessage,
+      });
+
+      throw new BadRequestException(
+        `Error al vencer la preferencia de Mercado Pago: ${errorMessage}`,
+      );
+    }
+  }
+
   /**
    * Obtiene el estado y external_reference de un pago de Mercado Pago.
    * Usado por el webhook para actualizar la transacción y orden.
@@ -204,6 +344,9 @@ export class MercadoPagoProvider implements IPaymentProvider {
   async getPayment(paymentId: string): Promise<{
     status?: string;
     external_reference?: string;
+    amount_usd?: number;
+    transaction_amount?: number;
+    installments?: number;
   }> {
     const accessToken =
       this.configService.get<string>('MERCADO_PAGO_ACCESS_TOKEN') ||
@@ -219,28 +362,379 @@ export class MercadoPagoProvider implements IPaymentProvider {
     const payment = new Payment(client);
     const response = await payment.get({ id: paymentId });
 
+    const metadata = response.metadata as { amount_usd?: number } | undefined;
+
     return {
       status: response.status,
       external_reference: response.external_reference,
+      amount_usd:
+        metadata?.amount_usd !== undefined
+          ? Number(metadata.amount_usd)
+          : undefined,
+      transaction_amount: response.transaction_amount,
+      installments: response.installments,
     };
   }
 
-  confirmPayment(
-    _paymentId: string,
-    _clientTransactionId: string,
-  ): Promise<{
-    statusCode: number;
-    status: 'pending' | 'completed' | 'failed';
-    data?: Record<string, unknown>;
-  }> {
-    void _paymentId;
-    void _clientTransactionId;
-    return Promise.resolve({
-      statusCode: 2,
-      status: 'pending',
+  /**
+   * Valida la firma x-signature de un webhook con la clave
+   * MERCADO_PAGO_WEBHOOK_SECRET. Sin clave configurada se rechaza todo.
+   */
+  verifyWebhookSignature({ headers, resourceId }: WebhookSignatureParams) {
+    const secret = this.configService.get<string>(
+      'MERCADO_PAGO_WEBHOOK_SECRET',
+    );
+
+    if (!secret) {
+      console.error(
+        '[MercadoPagoProvider] MERCADO_PAGO_WEBHOOK_SECRET no está configurado; se rechaza el webhook',
+      );
+      return false;
+    }
+
+    return verifyMercadoPagoSignature({
+      signature: headers['x-signature'],
+      requestId: headers['x-request-id'],
+      dataId: resourceId,
+      secret,
+    });
+  }
+
+  /**
+   * Consulta el pago notificado por el webhook (payment.updated).
+   */
+  async handleWebhook(
+    resourceId: string,
+  ): Promise<ProviderWebhookResult | null> {
+    const { status, external_reference, amount_usd, installments } =
+      await this.getPayment(resourceId);
+
+    if (!external_reference) {
+      return null;
+    }
+
+    return {
+      clientTransactionId: external_reference,
+      status: mapMercadoPagoStatus(status),
+      amount: amount_usd,
+      installments,
+      // Guardar el ID del pago de MP para poder reembolsarlo después
+      data: { mercadopagoPaymentId: resourceId, mercadopagoStatus: status },
+    };
+  }
+
+  /**
+   * Busca los pagos de una transacción por external_reference.
+   * Si hay un pago aprobado se usa ese; si no, el más reciente.
+   * El monto en USD se obtiene de la metadata del pago (los pagos creados
+   * antes de registrarla no lo informan).
+   */
+  async findPaymentByReference(
+    clientTransactionId: string,
+  ): Promise<ProviderPaymentLookup | null> {
+    const accessToken =
+      this.configService.get<string>('MERCADO_PAGO_ACCESS_TOKEN') ||
+      this.configService.get<string>('VITE_MERCADO_PAGO_ACCESS_TOKEN');
+
+    if (!accessToken) {
+      throw new BadRequestException(
+        'MERCADO_PAGO_ACCESS_TOKEN no está configurado. Agrega MERCADO_PAGO_ACCESS_TOKEN en tu archivo .env del backend.',
+      );
+    }
+
+    const client = new MercadoPagoConfig({ accessToken });
+    const search = await new Payment(client).search({
+      options: {
+        external_reference: clientTransactionId,
+        sort: 'date_created',
+        criteria: 'desc',
+      },
+    });
+
+    const results = search.results ?? [];
+    const payment =
+      results.find((result) => result.status === 'approved') ?? results[0];
+
+    if (!payment) {
+      return null;
+    }
+
+    const status = mapMercadoPagoStatus(payment.status);
+    const metadata = payment.metadata as { amount_usd?: number } | undefined;
+
+    return {
+      status,
+      amount:
+        metadata?.amount_usd !== undefined
+          ? Number(metadata.amount_usd)
+          : undefined,
+      providerPaymentId: payment.id?.toString(),
       data: {
-        note: 'Mercado Pago: confirmación vía webhook o redirect.',
+        mercadopagoPaymentId: payment.id?.toString(),
+        mercadopagoStatus: payment.status,
+        amountArs: payment.transaction_amount,
       },
+    };
+  }
+
+  /**
+   * Reembolsa total o parcialmente un pago de Mercado Pago.
+   * El cobro se hizo en ARS, por lo que un reembolso parcial se calcula
+   * como la proporción del monto cobrado en lugar de reconvertir USD.
+   */
+  async refundPayment(
+    params: RefundPaymentParams,
+  ): Promise<RefundPaymentResult> {
+    const accessToken =
+      this.configService.get<string>('MERCADO_PAGO_ACCESS_TOKEN') ||
+      this.configService.get<string>('VITE_MERCADO_PAGO_ACCESS_TOKEN');
+
+    if (!accessToken) {
+      throw new BadRequestException(
+        'MERCADO_PAGO_ACCESS_TOKEN no está configurado. Agrega MERCADO_PAGO_ACCESS_TOKEN en tu archivo .env del backend.',
+      );
+    }
+
+    const client = new MercadoPagoConfig({ accessToken });
+    const payment = new Payment(client);
+
+    // Si no se guardó el ID del pago, buscar el pago aprobado por external_reference
+    let paymentId = params.providerPaymentId;
+    if (!paymentId) {
+      const search = await payment.search({
+        options: {
+          external_reference: params.clientTransactionId,
+          status: 'approved',
+        },
+      });
+      paymentId = search.results?.[0]?.id?.toString();
+    }
+
+    if (!paymentId) {
+      throw new BadRequestException(
+        'No se encontró un pago aprobado de Mercado Pago para esta transacción',
+      );
+    }
+
+    const isFullRefund = params.amount >= params.totalAmount;
+    let amountInArs: number | undefined;
+
+    if (!isFullRefund) {
+      const mpPayment = await payment.get({ id: paymentId });
+      const chargedAmount = mpPayment.transaction_amount ?? 0;
+      amountInArs =
+        Math.round(
+          ((chargedAmount * params.amount) / params.totalAmount) * 100,
+        ) / 100;
+    }
+
+    try {
+      const refund = await new PaymentRefund(client).create({
+        payment_id: paymentId,
+        ...(amountInArs !== undefined && { body: { amount: amountInArs } }),
+      });
+
+      return {
+        refundId: refund.id?.toString(),
+        status: refund.status === 'approved' ? 'completed' : 'pending',
+        data: {
+          paymentId,
+          refundStatus: refund.status,
+          amountArs: refund.amount,
+        },
+      };
+    } catch (error: any) {
+      const errorMessage =
+        error?.message || error?.cause?.message || 'Error desconocido';
+
+      console.error('[MercadoPagoProvider] Error al crear reembolso:', {
+        paymentId,
+        errorMessage,
+      });
+
+      throw new BadRequestException(
+        `Error al reembolsar el pago de Mercado Pago: ${errorMessage}`,
+      );
+    }
+  }
+
+  /**
+   * Confirma un pago consultándolo en Mercado Pago.
+   * Se usa cuando el usuario regresa de la redirección de Checkout Pro.
+   */
+  async confirmPayment(paymentId: string): Promise<PaymentConfirmationResult> {
+    const payment = await this.getPayment(paymentId);
+    const status = mapMercadoPagoStatus(payment.status);
+
+    return {
+      status,
+      clientTransactionId: payment.external_reference,
+      amount: payment.amount_usd,
+      installments: payment.installments,
+      data: {
+        mercadopagoPaymentId: paymentId,
+        mercadopagoStatus: payment.status,
+        amountArs: payment.transaction_amount,
+      },
+    };
+  }
+
+  /**
+   * Cliente del SDK con el access token configurado.
+   */
+  private getClient(): MercadoPagoConfig {
+    const accessToken =
+      this.configService.get<string>('MERCADO_PAGO_ACCESS_TOKEN') ||
+      this.configService.get<string>('VITE_MERCADO_PAGO_ACCESS_TOKEN');
+
+    if (!accessToken) {
+      throw new BadRequestException(
+        'MERCADO_PAGO_ACCESS_TOKEN no está configurado. Agrega MERCADO_PAGO_ACCESS_TOKEN en tu archivo .env del backend.',
+      );
+    }
+
+    return new MercadoPagoConfig({ accessToken });
+  }
+
+  /**
+   * Guarda una tarjeta tokenizada con MercadoPago.js en el cliente del usuario.
+   * Si el usuario aún no tiene cliente, se busca por email (MP no permite
+   * dos clientes con el mismo email) o se crea.
+   */
+  async saveCard(params: SaveCardParams): Promise<SavedCardResult> {
+    const client = this.getClient();
+    const customers = new Customer(client);
+
+    try {
+      let customerId = params.customerId;
+      if (!customerId) {
+        const search = await customers.search({
+          options: { email: params.email },
+        });
+        customerId =
+          search.results?.[0]?.id ??
+          (await customers.create({ body: { email: params.email } })).id;
+      }
+
+      if (!customerId) {
+        throw new Error('Mercado Pago no devolvió el cliente');
+      }
+
+      const card = await new CustomerCard(client).create({
+        customerId,
+        body: { token: params.cardToken },
+      });
+
+      if (
+        !card.id ||
+        !card.last_four_digits ||
+        !card.expiration_month ||
+        !card.expiration_year
+      ) {
+        throw new Error('Mercado Pago no devolvió los datos de la tarjeta');
+      }
+
+      return {
+        customerId,
+        cardId: card.id,
+        cardBrand: card.payment_method?.id ?? 'desconocida',
+        last4Digits: card.last_four_digits,
+        expirationMonth: card.expiration_month,
+        expirationYear: card.expiration_year,
+      };
+    } catch (error: any) {
+      const errorMessage =
+        error?.message || error?.cause?.message || 'Error desconocido';
+
+      console.error('[MercadoPagoProvider] Error al guardar la tarjeta:', {
+        errorMessage,
+      });
+
+      throw new BadRequestException(
+        `Error al guardar la tarjeta en Mercado Pago: ${errorMessage}`,
+      );
+    }
+  }
+
+  /**
+   * Elimina una tarjeta guardada del cliente en Mercado Pago.
+   */
+  async deleteCard(customerId: string, cardId: string): Promise<void> {
+    await new CustomerCard(this.getClient()).remove({ customerId, cardId });
+  }
+
+  /**
+   * Cobra con una tarjeta guardada. MP exige un token generado en el
+   * navegador con el id de la tarjeta y su código de seguridad.
+   * El cobro se hace en ARS, igual que en Checkout Pro.
+   */
+  async chargeSavedCard(
+    params: SavedCardChargeParams,
+  ): Promise<PaymentConfirmationResult> {
+    if (!params.cardToken) {
+      throw new BadRequestException(
+        'Mercado Pago requiere el token con el código de seguridad de la tarjeta (cardToken)',
+      );
+    }
+
+    const client = this.getClient();
+    const card = await new CustomerCard(client).get({
+      customerId: params.customerId,
+      cardId: params.cardId,
     });
+    const charge = await this.convertToArs(params.amount);
+    const backendUrl = this.validateAndGetUrl(
+      this.configService.get<string>('BACKEND_URL'),
+      'BACKEND_URL',
+      'http://localhost:4000',
+    );
+
+    try {
+      const payment = await new Payment(client).create({
+        body: {
+          transaction_amount: charge.amount,
+          token: params.cardToken,
+          installments: params.installments ?? 1,
+          payment_method_id: card.payment_method?.id,
+          issuer_id: card.issuer?.id,
+          description: params.description || 'Compra en Mercado Copado',
+          external_reference: params.clientTransactionId,
+          notification_url: `${backendUrl}/payments/webhooks/mercadopago`,
+          payer: { type: 'customer', id: params.customerId },
+          metadata: { amount_usd: params.amount },
+        },
+        // Evita cobrar dos veces la misma transacción si se reintenta la petición
+        requestOptions: { idempotencyKey: params.clientTransactionId },
+      });
+
+      return {
+        status: mapMercadoPagoStatus(payment.status),
+        clientTransactionId: payment.external_reference,
+        amount: params.amount,
+        charge,
+        installments: payment.installments,
+        data: {
+          mercadopagoPaymentId: payment.id?.toString(),
+          mercadopagoStatus: payment.status,
+          mercadopagoStatusDetail: payment.status_detail,
+          amountArs: payment.transaction_amount,
+        },
+      };
+    } catch (error: any) {
+      const errorMessage =
+        error?.message || error?.cause?.message || 'Error desconocido';
+
+      console.error(
+        '[MercadoPagoProvider] Error al cobrar con tarjeta guardada:',
+        {
+          clientTransactionId: params.clientTransactionId,
+          errorMessage,
+        },
+      );
+
+      throw new BadRequestException(
+        `Error al cobrar con la tarjeta guardada: ${errorMessage}`,
+      );
+    }
   }
 }
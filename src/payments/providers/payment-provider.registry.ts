@@ -0,0 +1,114 @@
+import { Injectable, Inject, BadRequestException } from '@nestjs/common';
+import type { PaymentProvider } from '../../generated/enums.js';
+import {
+  PAYMENT_PROVIDERS,
+  type IPaymentProvider,
+  type PaymentCapability,
+  type PaymentProviderWith,
+} from '../interfaces/payment-provider.interface.js';
+
+/**
+ * Descripción de cada capacidad para los mensajes de error.
+ */
+const CAPABILITY_LABELS: Record<PaymentCapability, string> = {
+  redirect: 'checkout con redirección',
+  paymentLinks: 'links de pago',
+  confirmation: 'confirmación de pagos',
+  phone: 'pagos por teléfono',
+  manualReview: 'revisión de comprobantes',
+  refunds: 'reembolsos automáticos',
+  savedCards: 'tarjetas guardadas',
+  webhooks: 'webhooks',
+  reconciliation: 'conciliación de pagos',
+};
+
+/**
+ * Registro de proveedores de pago.
+ * Responsabilidad única: resolver el proveedor de cada PaymentProvider y
+ * validar que ofrezca la capacidad que se le pide.
+ */
+@Injectable()
+export class PaymentProviderRegistry {
+  private readonly providers = new Map<PaymentProvider, IPaymentProvider>();
+
+  constructor(@Inject(PAYMENT_PROVIDERS) providers: IPaymentProvider[]) {
+    for (const provider of providers) {
+      this.providers.set(provider.code, provider);
+    }
+  }
+
+  /**
+   * Obtiene un proveedor registrado.
+   */
+  get(code: PaymentProvider): IPaymentProvider {
+    const provider = this.providers.get(code);
+
+    if (!provider) {
+      throw new BadRequestException(
+        `El proveedor de pago ${code} no está disponible`,
+      );
+    }
+
+    return provider;
+  }
+
+  /**
+   * Indica si un proveedor ofrece una capacidad.
+   */
+  supports(code: PaymentProvider, capability: PaymentCapability): boolean {
+    return this.providers.get(code)?.capabilities[capability] ?? false;
+  }
+
+  /**
+   * Obtiene un proveedor que ofrezca la capacidad indicada.
+   * Lanza BadRequestException si no está registrado o no la ofrece.
+   */
+  require<C extends PaymentCapability>(
+    code: PaymentProvider,
+    capability: C,
+  ): PaymentProviderWith<C> {
+    const provider = this.get(code);
+
+    if (!provider.capabilities[capability]) {
+      throw new BadRequestException(
+        `El proveedor ${provider.displayName} no soporta ${CAPABILITY_LABELS[capability]}`,
+      );
+    }
+
+    return provider as PaymentProviderWith<C>;
+  }
+
+  /**
+   * Primer proveedor registrado que ofrece una capacidad, para los flujos
+   * que no dependen de un proveedor en particular (ej: links de pago).
+   */
+  getDefault<C extends PaymentCapability>(
+    capability: C,
+  ): PaymentProviderWith<C> {
+    const [provider] = this.list(capability);
+
+    if (!provider) {
+      throw new BadRequestException(
+        `No hay proveedores de pago con ${CAPABILITY_LABELS[capability]}`,
+      );
+    }
+
+    return provider;
+  }
+
+  /**
+   * Proveedores registrados, opcionalmente filtrados por capacidad.
+   */
+  list<C extends PaymentCapability>(capability?: C): PaymentProviderWith<C>[] {
+    return [...this.providers.values()].filter(
+      (provider) => !capability || provider.capabilities[capability],
+    ) as PaymentProviderWith<C>[];
+  }
+
+  /**
+   * Códigos de los proveedores que ofrecen una capacidad.
+   */
+  codesWith(capability: PaymentCapability): PaymentProvider[] {
+    return this.list(capability).map((provider) => provider.code);
+  }
+}
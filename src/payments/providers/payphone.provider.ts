@@ -1,24 +1,77 @@
-import { Injectable } from '@nestjs/common';
+import { Injectable, BadRequestException } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { HttpService } from '@nestjs/axios';
 import { firstValueFrom } from 'rxjs';
-import type { IPaymentProvider } from '../interfaces/payment-provider.interface.js';
+import { PaymentProvider } from '../../generated/enums.js';
+import type {
+  IPaymentProvider,
+  PaymentConfirmationResult,
+  PaymentProviderCapabilities,
+  PaymentTaxBreakdown,
+  ProviderPaymentLookup,
+  RefundPaymentParams,
+  RefundPaymentResult,
+} from '../interfaces/payment-provider.interface.js';
 
 /**
  * Implementación del proveedor de pago Payphone
  *
- * Esta clase implementa la interfaz IPaymentProvider para Payphone.
- * En el futuro, se crearán clases similares para Mercado Pago y Crypto:
- * - MercadoPagoProvider
- * - CryptoProvider
+ * Esta clase implementa la interfaz IPaymentProvider para Payphone:
+ * links de pago, cobros por teléfono, reversos y consulta de ventas.
  */
 @Injectable()
 export class PayphoneProvider implements IPaymentProvider {
+  readonly code = PaymentProvider.PAYPHONE;
+  readonly displayName = 'Payphone';
+  readonly capabilities: PaymentProviderCapabilities = {
+    redirect: false,
+    paymentLinks: true,
+    confirmation: true,
+    phone: true,
+    manualReview: false,
+    refunds: true,
+    savedCards: false,
+    webhooks: false,
+    reconciliation: true,
+  };
+
   constructor(
     private configService: ConfigService,
     private httpService: HttpService,
   ) {}
 
+  /**
+   * Calcula los montos en centavos que exige Payphone:
+   * amount = amountWithTax + amountWithoutTax + tax.
+   * Todo lo que no es base gravada ni impuesto (items exentos, envío)
+   * va en amountWithoutTax, para que la suma coincida exactamente.
+   */
+  private buildAmounts(amount: number, taxBreakdown?: PaymentTaxBreakdown) {
+    const amountInCents = Math.round(amount * 100);
+    const amountWithTax = Math.round((taxBreakdown?.taxableAmount ?? 0) * 100);
+    const tax = Math.round((taxBreakdown?.taxAmount ?? 0) * 100);
+
+    if (amountWithTax + tax > amountInCents) {
+      throw new BadRequestException(
+        'El desglose de impuestos supera el monto a cobrar',
+      );
+    }
+
+    return {
+      amount: amountInCents,
+      amountWithTax,
+      amountWithoutTax: amountInCents - amountWithTax - tax,
+      tax,
+    };
+  }
+
+  /**
+   * Prepara un link de pago.
+   * Si metadata.taxBreakdown trae el desglose de impuestos, se envía a Payphone
+   * separando la base gravada y el impuesto.
+   * Payphone no recibe las cuotas en el link: las elegidas
+   * (metadata.installments) se indican en la referencia del cobro.
+   */
   async processPayment(
     amount: number,
     clientTransactionId: string,
@@ -52,15 +105,22 @@ export class PayphoneProvider implements IPaymentProvider {
       this.configService.get<string>('FRONTEND_URL') || 'http://localhost:3000';
     const responseUrl = `${frontendUrl}/pay-response?id=${clientTransactionId}&clientTransactionId=${clientTransactionId}`;
 
-    // Convertir el monto a centavos usando Math.round como en el frontend
-    const amountInCents = Math.round(amount * 100);
+    // Montos en centavos usando Math.round como en el frontend
+    const amounts = this.buildAmounts(
+      amount,
+      metadata?.taxBreakdown as PaymentTaxBreakdown | undefined,
+    );
+
+    const installments = Number(metadata?.installments ?? 1);
+    const reference =
+      (metadata?.reference as string | undefined) || 'Compra en Mercado Copado';
 
     const payphoneData = {
       clientTransactionId,
-      reference: metadata?.reference || 'Compra en Mercado Copado',
-      amount: amountInCents,
+      reference:
+        installments > 1 ? `${reference} - ${installments} cuotas` : reference,
+      ...amounts,
       responseUrl,
-      amountWithoutTax: amountInCents,
       storeId,
     };
 
@@ -152,11 +212,7 @@ export class PayphoneProvider implements IPaymentProvider {
   async confirmPayment(
     paymentId: string,
     clientTransactionId: string,
-  ): Promise<{
-    statusCode: number;
-    status: 'pending' | 'completed' | 'failed';
-    data?: Record<string, unknown>;
-  }> {
+  ): Promise<PaymentConfirmationResult> {
     // Para confirmar pagos, usar TOKEN_PAYPHONE
     const payphoneToken =
       this.configService.get<string>('TOKEN_PAYPHONE') ||
@@ -171,6 +227,8 @@ export class PayphoneProvider implements IPaymentProvider {
       const response = await firstValueFrom(
         this.httpService.post<{
           statusCode: number;
+          clientTransactionId?: string;
+          amount?: number;
         }>(
           'https://pay.payphonetodoesposible.com/api/button/V2/Confirm',
           {
@@ -197,6 +255,12 @@ export class PayphoneProvider implements IPaymentProvider {
       return {
         statusCode: response.data.statusCode,
         status,
+        clientTransactionId: response.data.clientTransactionId,
+        // Payphone devuelve el monto en centavos
+        amount:
+          response.data.amount !== undefined
+            ? response.data.amount / 100
+            : undefined,
         data: response.data,
       };
     } catch (error: unknown) {
@@ -212,6 +276,7 @@ export class PayphoneProvider implements IPaymentProvider {
     phoneNumber: string,
     amount: number,
     clientTransactionId: string,
+    taxBreakdown?: PaymentTaxBreakdown,
   ): Promise<Record<string, unknown>> {
     // Para pagos por teléfono, usar TOKEN_PAYPHONE
     const payphoneToken =
@@ -234,8 +299,7 @@ export class PayphoneProvider implements IPaymentProvider {
       phoneNumber,
       countryCode: '593', // Código de país para Ecuador
       reference: `Compra en Mercado Copado - Transacción ${clientTransactionId.slice(0, 8)}`,
-      amount: amount * 100,
-      amountWithoutTax: amount * 100,
+      ...this.buildAmounts(amount, taxBreakdown),
       storeId,
     };
 
@@ -304,4 +368,144 @@ export class PayphoneProvider implements IPaymentProvider {
       );
     }
   }
+
+  /**
+   * Consulta en Payphone las ventas de una transacción por su clientTransactionId.
+   * Si hay una venta aprobada se usa esa; si no, la última registrada.
+   */
+  async findPaymentByReference(
+    clientTransactionId: string,
+  ): Promise<ProviderPaymentLookup | null> {
+    const payphoneToken =
+      this.configService.get<string>('TOKEN_PAYPHONE') ||
+      this.configService.get<string>('VITE_TOKEN_PAYPHONE') ||
+      this.configService.get<string>('PAYPHONE_TOKEN');
+
+    if (!payphoneToken) {
+      throw new Error('TOKEN_PAYPHONE no está configurado');
+    }
+
+    type PayphoneSale = {
+      transactionId?: number;
+      statusCode?: number;
+      amount?: number;
+    };
+
+    let sales: PayphoneSale[];
+    try {
+      const response = await firstValueFrom(
+        this.httpService.get<PayphoneSale[] | PayphoneSale>(
+          `https://pay.payphonetodoesposible.com/api/Sale/client/${encodeURIComponent(clientTransactionId)}`,
+          {
+            headers: {
+              Authorization: `Bearer ${payphoneToken}`,
+            },
+          },
+        ),
+      );
+      sales = Array.isArray(response.data) ? response.data : [response.data];
+    } catch (error: unknown) {
+      // Payphone responde 404 cuando no hay ventas para el clientTransactionId
+      const axiosError = error as { response?: { status?: number } };
+      if (axiosError.response?.status === 404) {
+        return null;
+      }
+      throw new Error(
+        error instanceof Error
+          ? error.message
+          : 'Error al consultar la venta en Payphone',
+      );
+    }
+
+    // statusCode 3 = aprobada, 2 = cancelada
+    const sale =
+      sales.find((candidate) => candidate?.statusCode === 3) ??
+      sales[sales.length - 1];
+
+    if (!sale) {
+      return null;
+    }
+
+    return {
+      status:
+        sale.statusCode === 3
+          ? 'completed'
+          : sale.statusCode === 2
+            ? 'failed'
+            : 'pending',
+      // Payphone informa el monto en centavos
+      amount: sale.amount !== undefined ? sale.amount / 100 : undefined,
+      providerPaymentId: sale.transactionId?.toString(),
+      data: sale as Record<string, unknown>,
+    };
+  }
+
+  /**
+   * Reversa un pago de Payphone usando el clientTransactionId.
+   * Payphone solo permite reversar el monto completo de la transacción.
+   */
+  async refundPayment(
+    params: RefundPaymentParams,
+  ): Promise<RefundPaymentResult> {
+    if (params.amount < params.totalAmount) {
+      throw new BadRequestException(
+        'Payphone solo permite reversar el monto completo. Registra el reembolso parcial de forma manual.',
+      );
+    }
+
+    const payphoneToken =
+      this.configService.get<string>('TOKEN_PAYPHONE') ||
+      this.configService.get<string>('VITE_TOKEN_PAYPHONE') ||
+      this.configService.get<string>('PAYPHONE_TOKEN');
+
+    if (!payphoneToken) {
+      throw new Error('TOKEN_PAYPHONE no está configurado');
+    }
+
+    try {
+      const response = await firstValueFrom(
+        this.httpService.post<unknown>(
+          'https://pay.payphonetodoesposible.com/api/Reverse/Client',
+          { clientId: params.clientTransactionId },
+          {
+            headers: {
+              Authorization: `Bearer ${payphoneToken}`,
+              'Content-Type': 'application/json',
+            },
+          },
+        ),
+      );
+
+      // Payphone responde true cuando la reversa fue aceptada
+      if (response.data !== true) {
+        throw new Error('Payphone no aceptó la reversa del pago');
+      }
+
+      return {
+        status: 'completed',
+        data: { reversed: true },
+      };
+    } catch (error: unknown) {
+      const axiosError = error as {
+        response?: {
+          data?: {
+            errors?: Array<{
+              errorDescriptions?: Array<string>;
+            }>;
+            message?: string;
+          };
+        };
+      };
+      const errorMessage =
+        axiosError.response?.data?.errors?.[0]?.errorDescriptions?.[0] ||
+        axiosError.response?.data?.message;
+
+      throw new Error(
+        errorMessage ||
+          (error instanceof Error
+            ? error.message
+            : 'Error al reversar el pago con Payphone'),
+      );
+    }
+  }
 }
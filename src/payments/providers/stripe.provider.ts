@@ -0,0 +1,373 @@
+import { Injectable, BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { HttpService } from '@nestjs/axios';
+import { firstValueFrom } from 'rxjs';
+import { PaymentProvider } from '../../generated/enums.js';
+import type {
+  IPaymentProvider,
+  PaymentConfirmationResult,
+  PaymentProviderCapabilities,
+  ProviderWebhookResult,
+  RefundPaymentParams,
+  RefundPaymentResult,
+  WebhookSignatureParams,
+} from '../interfaces/payment-provider.interface.js';
+import { verifyStripeSignature } from '../helpers/stripe-signature.helper.js';
+
+// Con STRIPE_API_URL=http://localhost:12111 se usa stripe-mock en local
+const DEFAULT_STRIPE_API_URL = 'https://api.stripe.com';
+
+/**
+ * Checkout Session de Stripe (solo los campos que se usan).
+ */
+interface StripeCheckoutSession {
+  id: string;
+  url?: string | null;
+  status?: 'open' | 'complete' | 'expired' | null;
+  payment_status?: 'paid' | 'unpaid' | 'no_payment_required';
+  client_reference_id?: string | null;
+  amount_total?: number | null;
+  currency?: string | null;
+  payment_intent?: string | { id: string } | null;
+  expires_at?: number | null;
+}
+
+/**
+ * Reembolso de Stripe (solo los campos que se usan).
+ */
+interface StripeRefund {
+  id: string;
+  status?: string | null;
+  amount?: number;
+}
+
+/**
+ * Convierte el estado de una Checkout Session al estado de la transacción.
+ */
+function mapStripeSessionStatus(
+  session: StripeCheckoutSession,
+): 'pending' | 'completed' | 'failed' {
+  if (session.payment_status === 'paid') {
+    return 'completed';
+  }
+  if (session.status === 'expired') {
+    return 'failed';
+  }
+  return 'pending';
+}
+
+/**
+ * Codifica un objeto como application/x-www-form-urlencoded con la notación
+ * de corchetes que usa la API de Stripe (ej: line_items[0][quantity]=1).
+ */
+function encodeStripeForm(
+  params: Record<string, unknown>,
+  form = new URLSearchParams(),
+  prefix?: string,
+): URLSearchParams {
+  for (const [key, value] of Object.entries(params)) {
+    if (value === undefined || value === null) continue;
+
+    const name = prefix ? `${prefix}[${key}]` : key;
+    if (typeof value === 'object') {
+      encodeStripeForm(value as Record<string, unknown>, form, name);
+    } else {
+      form.append(name, String(value as string | number | boolean));
+    }
+  }
+
+  return form;
+}
+
+/**
+ * Implementación del proveedor de pago Stripe.
+ * Cobra con tarjeta mediante Checkout Sessions (checkout alojado por Stripe)
+ * y confirma los pagos por webhook o al regresar de la redirección.
+ */
+@Injectable()
+export class StripeProvider implements IPaymentProvider {
+  readonly code = PaymentProvider.STRIPE;
+  readonly displayName = 'Stripe';
+  readonly capabilities: PaymentProviderCapabilities = {
+    redirect: true,
+    paymentLinks: false,
+    confirmation: true,
+    phone: false,
+    manualReview: false,
+    refunds: true,
+    savedCards: false,
+    webhooks: true,
+    reconciliation: false,
+  };
+
+  constructor(
+    private configService: ConfigService,
+    private httpService: HttpService,
+  ) {}
+
+  /**
+   * Ejecuta una petición a la API de Stripe con la clave secreta.
+   * Los errores de Stripe se devuelven como BadRequestException.
+   */
+  private async request<T>(
+    method: 'get' | 'post',
+    path: string,
+    params?: Record<string, unknown>,
+  ): Promise<T> {
+    const secretKey = this.configService.get<string>('STRIPE_SECRET_KEY');
+
+    if (!secretKey) {
+      throw new BadRequestException(
+        'STRIPE_SECRET_KEY no está configurado. Agrega STRIPE_SECRET_KEY en tu archivo .env del backend.',
+      );
+    }
+
+    const baseUrl =
+      this.configService.get<string>('STRIPE_API_URL') ||
+      DEFAULT_STRIPE_API_URL;
+    const headers = { Authorization: `Bearer ${secretKey}` };
+
+    try {
+      const response = await firstValueFrom(
+        method === 'get'
+          ? this.httpService.get<T>(`${baseUrl}${path}`, { headers })
+          : this.httpService.post<T>(
+              `${baseUrl}${path}`,
+              encodeStripeForm(params ?? {}).toString(),
+              {
+                headers: {
+                  ...headers,
+                  'Content-Type': 'application/x-www-form-urlencoded',
+                },
+              },
+            ),
+      );
+      return response.data;
+    } catch (error: unknown) {
+      const axiosError = error as {
+        response?: { data?: { error?: { message?: string } } };
+      };
+      const errorMessage =
+        axiosError.response?.data?.error?.message ||
+        (error instanceof Error ? error.message : 'Error desconocido');
+
+      console.error('[StripeProvider] Error en la API de Stripe:', {
+        method,
+        path,
+        errorMessage,
+      });
+
+      throw new BadRequestException(`Error de Stripe: ${errorMessage}`);
+    }
+  }
+
+  private getCheckoutSession(sessionId: string) {
+    return this.request<StripeCheckoutSession>(
+      'get',
+      `/v1/checkout/sessions/${encodeURIComponent(sessionId)}`,
+    );
+  }
+
+  /**
+   * Datos de la sesión que se guardan en la transacción.
+   * El payment_intent es el que se usa para reembolsar.
+   */
+  private getSessionData(session: StripeCheckoutSession) {
+    const paymentIntent = session.payment_intent;
+
+    return {
+      stripeSessionId: session.id,
+      stripePaymentIntentId:
+        typeof paymentIntent === 'string' ? paymentIntent : paymentIntent?.id,
+      stripePaymentStatus: session.payment_status,
+    };
+  }
+
+  /**
+   * Crea una Checkout Session y devuelve la URL del checkout de Stripe.
+   * El monto se cobra en USD, la moneda de las transacciones.
+   */
+  async processPayment(
+    amount: number,
+    clientTransactionId: string,
+    metadata?: Record<string, unknown>,
+  ): Promise<{
+    paymentId?: string;
+    redirectUrl?: string;
+    paymentData?: Record<string, unknown>;
+  }> {
+    const frontendUrl =
+      this.configService.get<string>('FRONTEND_URL') || 'http://localhost:3000';
+    const title = (metadata?.reference as string) || 'Compra en Mercado Copado';
+    // Stripe reemplaza {CHECKOUT_SESSION_ID} por el id de la sesión al redirigir
+    const returnUrl = `${frontendUrl}/pay-response?from=stripe&session_id={CHECKOUT_SESSION_ID}`;
+
+    const session = await this.request<StripeCheckoutSession>(
+      'post',
+      '/v1/checkout/sessions',
+      {
+        mode: 'payment',
+        line_items: [
+          {
+            quantity: 1,
+            price_data: {
+              currency: 'usd',
+              unit_amount: Math.round(amount * 100),
+              product_data: { name: title },
+            },
+          },
+        ],
+        client_reference_id: clientTransactionId,
+        metadata: { clientTransactionId },
+        payment_intent_data: { metadata: { clientTransactionId } },
+        success_url: returnUrl,
+        cancel_url: returnUrl,
+      },
+    );
+
+    if (!session.url) {
+      throw new BadRequestException(
+        'La respuesta de Stripe no contiene la URL del checkout.',
+      );
+    }
+
+    return {
+      paymentId: session.id,
+      redirectUrl: session.url,
+      paymentData: {
+        sessionId: session.id,
+        initPoint: session.url,
+        ...(session.expires_at && {
+          expiresAt: new Date(session.expires_at * 1000).toISOString(),
+        }),
+        amountUsd: amount,
+        currency: 'USD',
+      },
+    };
+  }
+
+  /**
+   * Vence la Checkout Session si sigue abierta, para que su link ya no
+   * acepte pagos.
+   */
+  async expireCheckout(providerData: Record<string, unknown>): Promise<void> {
+    const sessionId = (providerData.sessionId ??
+      providerData.stripeSessionId) as string | undefined;
+
+    if (!sessionId) {
+      return;
+    }
+
+    const session = await this.getCheckoutSession(sessionId);
+    if (session.status !== 'open') {
+      return;
+    }
+
+    await this.request<StripeCheckoutSession>(
+      'post',
+      `/v1/checkout/sessions/${encodeURIComponent(sessionId)}/expire`,
+    );
+  }
+
+  /**
+   * Confirma un pago consultando la Checkout Session en Stripe.
+   * Se usa cuando el usuario regresa del checkout con el session_id.
+   */
+  async confirmPayment(sessionId: string): Promise<PaymentConfirmationResult> {
+    const session = await this.getCheckoutSession(sessionId);
+
+    return {
+      status: mapStripeSessionStatus(session),
+      clientTransactionId: session.client_reference_id ?? undefined,
+      amount:
+        session.amount_total != null ? session.amount_total / 100 : undefined,
+      data: this.getSessionData(session),
+    };
+  }
+
+  /**
+   * Valida el header Stripe-Signature con la clave STRIPE_WEBHOOK_SECRET.
+   * Sin clave configurada se rechaza todo.
+   */
+  verifyWebhookSignature({ headers, rawBody }: WebhookSignatureParams) {
+    const secret = this.configService.get<string>('STRIPE_WEBHOOK_SECRET');
+
+    if (!secret) {
+      console.error(
+        '[StripeProvider] STRIPE_WEBHOOK_SECRET no está configurado; se rechaza el webhook',
+      );
+      return false;
+    }
+
+    return verifyStripeSignature({
+      signature: headers['stripe-signature'],
+      payload: rawBody,
+      secret,
+    });
+  }
+
+  /**
+   * Consulta la Checkout Session notificada por el webhook
+   * (checkout.session.completed, async_payment_succeeded, etc.).
+   */
+  async handleWebhook(
+    resourceId: string,
+  ): Promise<ProviderWebhookResult | null> {
+    const session = await this.getCheckoutSession(resourceId);
+
+    if (!session.client_reference_id) {
+      return null;
+    }
+
+    return {
+      clientTransactionId: session.client_reference_id,
+      status: mapStripeSessionStatus(session),
+      amount:
+        session.amount_total != null ? session.amount_total / 100 : undefined,
+      data: this.getSessionData(session),
+    };
+  }
+
+  /**
+   * Reembolsa total o parcialmente el payment_intent del pago.
+   * Si la transacción no lo tiene guardado se obtiene de la sesión.
+   */
+  async refundPayment(
+    params: RefundPaymentParams,
+  ): Promise<RefundPaymentResult> {
+    let paymentIntentId =
+      (params.providerData?.stripePaymentIntentId as string | undefined) ??
+      params.providerPaymentId;
+    const sessionId = params.providerData?.stripeSessionId as
+      | string
+      | undefined;
+
+    if (!paymentIntentId && sessionId) {
+      const session = await this.getCheckoutSession(sessionId);
+      paymentIntentId = this.getSessionData(session).stripePaymentIntentId;
+    }
+
+    if (!paymentIntentId) {
+      throw new BadRequestException(
+        'No se encontró el pago de Stripe de esta transacción',
+      );
+    }
+
+    const isFullRefund = params.amount >= params.totalAmount;
+    const refund = await this.request<StripeRefund>('post', '/v1/refunds', {
+      payment_intent: paymentIntentId,
+      ...(!isFullRefund && { amount: Math.round(params.amount * 100) }),
+      metadata: { clientTransactionId: params.clientTransactionId },
+    });
+
+    return {
+      refundId: refund.id,
+      status: refund.status === 'succeeded' ? 'completed' : 'pending',
+      data: {
+        paymentIntentId,
+        refundStatus: refund.status,
+        amountCents: refund.amount,
+      },
+    };
+  }
+}
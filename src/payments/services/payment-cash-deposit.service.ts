@@ -9,10 +9,12 @@ import {
   PaymentStatus,
   OrderStatus,
   PaymentProvider,
+  OrderStatusActor,
 } from '../../generated/enums.js';
 import { OrdersService } from '../../orders/orders.service.js';
 import { CloudinaryService } from '../../cloudinary/cloudinary.service.js';
 import { calculateCartTotal, validateAddress } from '../helpers/cart.helper.js';
+import { assertCartUnchanged } from '../../cart/helpers/cart-changes.helper.js';
 
 /**
  * Servicio especializado en pagos por depósito en efectivo.
@@ -39,38 +41,35 @@ export class PaymentCashDepositService {
   ) {
     await validateAddress(this.prisma, addressId, userId);
 
-    let order;
-    let transaction;
-
-    if (existingOrderId) {
-      const result = await this.processExistingOrderDeposit(
-        userId,
-        addressId,
-        clientTransactionId,
-        existingOrderId,
-      );
-      order = result.order;
-      transaction = result.transaction;
-    } else {
-      const result = await this.processNewOrderDeposit(
-        userId,
-        addressId,
-        clientTransactionId,
-      );
-      order = result.order;
-      transaction = result.transaction;
-    }
+    const { order, transaction } = existingOrderId
+      ? await this.processExistingOrderDeposit(
+          userId,
+          addressId,
+          clientTransactionId,
+          existingOrderId,
+        )
+      : await this.processNewOrderDeposit(
+          userId,
+          addressId,
+          clientTransactionId,
+        );
 
     const depositImageUrl =
       await this.cloudinaryService.uploadImage(depositImageFile);
 
     await this.prisma.order.update({
       where: { id: order.id },
-      data: {
-        depositImageUrl,
-        status: OrderStatus.paid_pending_review,
-      },
+      data: { depositImageUrl },
     });
+    await this.ordersService.updateStatus(
+      order.id,
+      OrderStatus.paid_pending_review,
+      {
+        actor: OrderStatusActor.customer,
+        actorId: userId,
+        note: 'Comprobante de depósito subido',
+      },
+    );
 
     return {
       transaction,
@@ -133,7 +132,8 @@ export class PaymentCashDepositService {
     addressId: string,
     clientTransactionId: string,
   ) {
-    const { total } = await calculateCartTotal(this.prisma, userId);
+    await assertCartUnchanged(this.prisma, userId);
+    const { total } = await calculateCartTotal(this.prisma, userId, addressId);
 
     const transaction = await this.prisma.paymentTransaction.create({
       data: {
@@ -0,0 +1,178 @@
+import { Test } from '@nestjs/testing';
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { PaymentCryptoWatcherService } from './payment-crypto-watcher.service.js';
+import { PaymentOrderService } from './payment-order.service.js';
+import { PrismaService } from '../../prisma/prisma.service.js';
+import { FakeChainAdapter } from '../providers/fake-chain.adapter.js';
+import { CHAIN_ADAPTER } from '../interfaces/chain-adapter.interface.js';
+import {
+  CryptoAsset,
+  CryptoPaymentStatus,
+  PaymentStatus,
+  PaymentStatusSource,
+} from '../../generated/enums.js';
+
+const HOUR = 60 * 60 * 1000;
+
+/**
+ * Pago cripto en memoria, con la forma que devuelve Prisma al watcher.
+ */
+function createCryptoPayment(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'crypto-1',
+    transactionId: 'transaction-1',
+    asset: CryptoAsset.BTC,
+    network: 'BTC',
+    depositAddress: 'fake-btc-address',
+    memo: null,
+    amountUsd: 100,
+    rate: 50000,
+    cryptoAmount: 0.002,
+    expiresAt: new Date(Date.now() + HOUR),
+    status: CryptoPaymentStatus.awaiting_payment as CryptoPaymentStatus,
+    txHash: null,
+    receivedAmount: null,
+    confirmations: 0,
+    detectedAt: null,
+    confirmedAt: null,
+    createdAt: new Date(Date.now() - HOUR),
+    updatedAt: new Date(Date.now() - HOUR),
+    transaction: {
+      clientTransactionId: 'client-tx-1',
+      status: PaymentStatus.pending as PaymentStatus,
+      payphoneData: null,
+    },
+    ...overrides,
+  };
+}
+
+describe('PaymentCryptoWatcherService', () => {
+  let service: PaymentCryptoWatcherService;
+  let chainAdapter: FakeChainAdapter;
+  let payment: ReturnType<typeof createCryptoPayment>;
+
+  const updatePaymentStatus = jest.fn<
+    (
+      clientTransactionId: string,
+      status: PaymentStatus,
+      ...context: unknown[]
+    ) => Promise<void>
+  >((_clientTransactionId, status) => {
+    payment.transaction.status = status;
+    return Promise.resolve();
+  });
+
+  const prisma = {
+    cryptoPayment: {
+      findMany: jest.fn(() =>
+        Promise.resolve(
+          (
+            [
+              CryptoPaymentStatus.awaiting_payment,
+              CryptoPaymentStatus.confirming,
+            ] as CryptoPaymentStatus[]
+          ).includes(payment.status)
+            ? [payment]
+            : [],
+        ),
+      ),
+      update: jest.fn(({ data }: { data: Record<string, unknown> }) => {
+        Object.assign(payment, data);
+        return Promise.resolve(payment);
+      }),
+    },
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    payment = createCryptoPayment();
+
+    const module = await Test.createTestingModule({
+      providers: [
+        PaymentCryptoWatcherService,
+        FakeChainAdapter,
+        { provide: CHAIN_ADAPTER, useExisting: FakeChainAdapter },
+        { provide: PrismaService, useValue: prisma },
+        { provide: PaymentOrderService, useValue: { updatePaymentStatus } },
+      ],
+    }).compile();
+
+    service = module.get(PaymentCryptoWatcherService);
+    chainAdapter = module.get(FakeChainAdapter);
+  });
+
+  it('pasa de awaiting_payment a confirming y luego a confirmed', async () => {
+    // BTC requiere 2 confirmaciones en el adaptador local
+    chainAdapter.simulateTransfer(payment.depositAddress, 0.002, 1);
+    await service.handleCryptoPayments();
+
+    expect(payment.status).toBe(CryptoPaymentStatus.confirming);
+    expect(payment.confirmations).toBe(1);
+    expect(payment.txHash).toEqual(expect.any(String));
+    expect(updatePaymentStatus).not.toHaveBeenCalled();
+
+    chainAdapter.simulateTransfer(payment.depositAddress, 0.002, 2);
+    await service.handleCryptoPayments();
+
+    expect(payment.status).toBe(CryptoPaymentStatus.confirmed);
+    expect(payment.confirmedAt).toBeInstanceOf(Date);
+    expect(updatePaymentStatus).toHaveBeenCalledTimes(1);
+    expect(updatePaymentStatus).toHaveBeenCalledWith(
+      'client-tx-1',
+      PaymentStatus.completed,
+      expect.objectContaining({ source: PaymentStatusSource.provider }),
+      expect.objectContaining({
+        cryptoAsset: CryptoAsset.BTC,
+        cryptoTxHash: payment.txHash,
+        cryptoAmount: 0.002,
+      }),
+    );
+  });
+
+  it('deja en underpaid una transferencia menor al monto cotizado', async () => {
+    chainAdapter.simulateTransfer(payment.depositAddress, 0.0015, 2);
+    await service.handleCryptoPayments();
+
+    expect(payment.status).toBe(CryptoPaymentStatus.underpaid);
+    expect(payment.receivedAmount).toBe(0.0015);
+    expect(updatePaymentStatus).not.toHaveBeenCalled();
+
+    // Un pago incompleto ya no se vuelve a revisar automáticamente
+    await service.handleCryptoPayments();
+    expect(prisma.cryptoPayment.update).toHaveBeenCalledTimes(1);
+  });
+
+  it('expira la cotización vencida sin transferencia y marca el pago como fallido', async () => {
+    payment.expiresAt = new Date(Date.now() - 1000);
+    await service.handleCryptoPayments();
+
+    expect(payment.status).toBe(CryptoPaymentStatus.expired);
+    expect(updatePaymentStatus).toHaveBeenCalledWith(
+      'client-tx-1',
+      PaymentStatus.failed,
+      expect.objectContaining({ source: PaymentStatusSource.system }),
+    );
+  });
+
+  it('no expira una cotización vigente sin transferencia', async () => {
+    await service.handleCryptoPayments();
+
+    expect(payment.status).toBe(CryptoPaymentStatus.awaiting_payment);
+    expect(prisma.cryptoPayment.update).not.toHaveBeenCalled();
+    expect(updatePaymentStatus).not.toHaveBeenCalled();
+  });
+
+  it('acepta una transferencia detectada después del vencimiento de la cotización', async () => {
+    payment.expiresAt = new Date(Date.now() - 1000);
+    chainAdapter.simulateTransfer(payment.depositAddress, 0.002, 2);
+    await service.handleCryptoPayments();
+
+    expect(payment.status).toBe(CryptoPaymentStatus.confirmed);
+    expect(updatePaymentStatus).toHaveBeenCalledWith(
+      'client-tx-1',
+      PaymentStatus.completed,
+      expect.anything(),
+      expect.anything(),
+    );
+  });
+});
@@ -0,0 +1,252 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  BadRequestException,
+  Inject,
+} from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { PrismaService } from '../../prisma/prisma.service.js';
+import {
+  CryptoPaymentStatus,
+  PaymentStatus,
+  PaymentStatusSource,
+} from '../../generated/enums.js';
+import type { CryptoPayment } from '../../generated/client.js';
+import {
+  CHAIN_ADAPTER,
+  type IChainAdapter,
+} from '../interfaces/chain-adapter.interface.js';
+import { FakeChainAdapter } from '../providers/fake-chain.adapter.js';
+import { PaymentOrderService } from './payment-order.service.js';
+
+type WatchedCryptoPayment = CryptoPayment & {
+  transaction: {
+    clientTransactionId: string;
+    status: PaymentStatus;
+    payphoneData: unknown;
+  };
+};
+
+const watchedTransactionSelect = {
+  clientTransactionId: true,
+  status: true,
+  payphoneData: true,
+};
+
+/**
+ * Servicio que observa la blockchain para los pagos cripto.
+ * Responsabilidad única: detectar la transferencia de cada pago, esperar las
+ * confirmaciones de la red y completar la transacción, o expirarla si la
+ * cotización vence sin pago.
+ */
+@Injectable()
+export class PaymentCryptoWatcherService {
+  private readonly logger = new Logger(PaymentCryptoWatcherService.name);
+  private running = false;
+
+  constructor(
+    private prisma: PrismaService,
+    @Inject(CHAIN_ADAPTER)
+    private chainAdapter: IChainAdapter | null,
+    private paymentOrderService: PaymentOrderService,
+  ) {}
+
+  /**
+   * Ejecuta cada minuto la revisión de los pagos cripto en curso.
+   * Sin adaptador de blockchain configurado no hay pagos que observar.
+   */
+  @Cron(CronExpression.EVERY_MINUTE)
+  async handleCryptoPayments() {
+    if (this.running || !this.chainAdapter) {
+      return;
+    }
+    this.running = true;
+
+    try {
+      const payments = await this.prisma.cryptoPayment.findMany({
+        where: {
+          status: {
+            in: [
+              CryptoPaymentStatus.awaiting_payment,
+              CryptoPaymentStatus.confirming,
+            ],
+          },
+        },
+        include: { transaction: { select: watchedTransactionSelect } },
+      });
+
+      for (const payment of payments) {
+        try {
+          await this.checkPayment(payment);
+        } catch (error) {
+          this.logger.error(
+            `Error al verificar el pago cripto ${payment.id}: ${error}`,
+          );
+        }
+      }
+    } catch (error) {
+      this.logger.error(`Error al revisar pagos cripto: ${error}`);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Simula la transferencia de un pago con el adaptador local y lo verifica
+   * en el momento. Solo disponible cuando no hay una red real configurada.
+   */
+  async simulateTransfer(
+    clientTransactionId: string,
+    amount?: number,
+    confirmations?: number,
+  ) {
+    if (!(this.chainAdapter instanceof FakeChainAdapter)) {
+      throw new BadRequestException(
+        'La simulación solo está disponible con el adaptador de blockchain local',
+      );
+    }
+
+    const payment = await this.prisma.cryptoPayment.findFirst({
+      where: { transaction: { clientTransactionId } },
+      include: { transaction: { select: watchedTransactionSelect } },
+    });
+
+    if (!payment) {
+      throw new NotFoundException(
+        `Pago cripto para la transacción "${clientTransactionId}" no encontrado`,
+      );
+    }
+
+    this.chainAdapter.simulateTransfer(
+      payment.depositAddress,
+      amount ?? Number(payment.cryptoAmount),
+      confirmations ??
+        this.chainAdapter.getRequiredConfirmations(payment.asset),
+    );
+
+    await this.checkPayment(payment);
+
+    return this.prisma.cryptoPayment.findUniqueOrThrow({
+      where: { id: payment.id },
+      include: {
+        transaction: {
+          select: { clientTransactionId: true, status: true, orderId: true },
+        },
+      },
+    });
+  }
+
+  /**
+   * Verifica un pago contra la blockchain y actualiza su estado.
+   * Una transferencia detectada se acepta aunque la cotización ya haya
+   * vencido: el cliente pagó con la dirección que se le dio.
+   */
+  private async checkPayment(payment: WatchedCryptoPayment) {
+    const { clientTransactionId } = payment.transaction;
+
+    // La transacción se resolvió por otra vía (ej: cambio manual de un administrador)
+    if (
+      !this.chainAdapter ||
+      payment.transaction.status !== PaymentStatus.pending
+    ) {
+      return;
+    }
+
+    const transfer = await this.chainAdapter.findIncomingTransfer(
+      payment.asset,
+      {
+        network: payment.network,
+        address: payment.depositAddress,
+        memo: payment.memo ?? undefined,
+      },
+      payment.createdAt,
+    );
+
+    if (!transfer) {
+      if (
+        payment.status === CryptoPaymentStatus.awaiting_payment &&
+        payment.expiresAt <= new Date()
+      ) {
+        // Primero la transacción: si otro proceso la resolvió, el cambio se
+        // rechaza y la cotización no queda vencida
+        await this.paymentOrderService.updatePaymentStatus(
+          clientTransactionId,
+          PaymentStatus.failed,
+          {
+            source: PaymentStatusSource.system,
+            note: 'La cotización del pago cripto venció sin recibir la transferencia',
+          },
+        );
+        await this.prisma.cryptoPayment.update({
+          where: { id: payment.id },
+          data: { status: CryptoPaymentStatus.expired },
+        });
+      }
+      return;
+    }
+
+    const transferData = {
+      txHash: transfer.txHash,
+      receivedAmount: transfer.amount,
+      confirmations: transfer.confirmations,
+      detectedAt: payment.detectedAt ?? new Date(),
+    };
+
+    // Monto insuficiente: queda para revisión manual
+    if (transfer.amount < Number(payment.cryptoAmount)) {
+      await this.prisma.cryptoPayment.update({
+        where: { id: payment.id },
+        data: { ...transferData, status: CryptoPaymentStatus.underpaid },
+      });
+      this.logger.warn(
+        `Pago cripto ${clientTransactionId} incompleto: recibido ${transfer.amount} de ${Number(payment.cryptoAmount)} ${payment.asset}`,
+      );
+      return;
+    }
+
+    const requiredConfirmations = this.chainAdapter.getRequiredConfirmations(
+      payment.asset,
+    );
+
+    if (transfer.confirmations < requiredConfirmations) {
+      await this.prisma.cryptoPayment.update({
+        where: { id: payment.id },
+        data: { ...transferData, status: CryptoPaymentStatus.confirming },
+      });
+      return;
+    }
+
+    await this.prisma.cryptoPayment.update({
+      where: { id: payment.id },
+      data: {
+        ...transferData,
+        status: CryptoPaymentStatus.confirmed,
+        confirmedAt: new Date(),
+      },
+    });
+
+    await this.paymentOrderService.updatePaymentStatus(
+      clientTransactionId,
+      PaymentStatus.completed,
+      {
+        source: PaymentStatusSource.provider,
+        note: `Transferencia confirmada en ${payment.network}: ${transfer.txHash}`,
+      },
+      {
+        ...((payment.transaction.payphoneData as Record<
+          string,
+          unknown
+        > | null) ?? {}),
+        cryptoAsset: payment.asset,
+        cryptoNetwork: payment.network,
+        cryptoTxHash: transfer.txHash,
+        cryptoAmount: transfer.amount,
+      },
+    );
+
+    this.logger.log(
+      `Pago cripto ${clientTransactionId} confirmado (${transfer.txHash})`,
+    );
+  }
+}
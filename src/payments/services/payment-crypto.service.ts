@@ -1,18 +1,34 @@
 import {
   Injectable,
   NotFoundException,
+  ServiceUnavailableException,
   Inject,
   forwardRef,
 } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { PrismaService } from '../../prisma/prisma.service.js';
 import {
   PaymentStatus,
   OrderStatus,
   PaymentProvider,
+  OrderStatusActor,
+  CryptoAsset,
 } from '../../generated/enums.js';
 import { OrdersService } from '../../orders/orders.service.js';
 import { CloudinaryService } from '../../cloudinary/cloudinary.service.js';
 import { calculateCartTotal, validateAddress } from '../helpers/cart.helper.js';
+import { assertCartUnchanged } from '../../cart/helpers/cart-changes.helper.js';
+import {
+  convertUsdToCrypto,
+  getCryptoUsdRate,
+} from '../helpers/crypto-rate.helper.js';
+import {
+  CHAIN_ADAPTER,
+  type IChainAdapter,
+} from '../interfaces/chain-adapter.interface.js';
+
+// Minutos que se mantiene la cotización de un pago cripto
+const DEFAULT_QUOTE_TTL_MINUTES = 30;
 
 /**
  * Servicio especializado en pagos por criptomonedas (USDT BEP-20/TRC-20).
@@ -25,52 +41,150 @@ export class PaymentCryptoService {
     @Inject(forwardRef(() => OrdersService))
     private ordersService: OrdersService,
     private cloudinaryService: CloudinaryService,
+    private configService: ConfigService,
+    @Inject(CHAIN_ADAPTER)
+    private chainAdapter: IChainAdapter | null,
   ) {}
 
   /**
-   * Procesa un pago por criptomonedas.
+   * Inicia un pago cripto verificado en la blockchain.
+   * Cotiza el total en el activo elegido con una tasa fija hasta que vence
+   * la cotización y genera la dirección de depósito de la transacción.
+   * El pago se acredita automáticamente al detectar la transferencia.
+   * Requiere un adaptador de blockchain configurado (CRYPTO_CHAIN_ADAPTER).
    */
-  async processCryptoDeposit(
+  async createCryptoPayment(
     userId: string,
     addressId: string,
     clientTransactionId: string,
-    depositImageFile: Express.Multer.File,
+    asset: CryptoAsset,
     existingOrderId?: string,
   ) {
-    await validateAddress(this.prisma, addressId, userId);
+    if (!this.chainAdapter) {
+      throw new ServiceUnavailableException(
+        'Los pagos cripto con verificación automática no están disponibles. Paga con comprobante o elige otro medio de pago.',
+      );
+    }
 
-    let order;
-    let transaction;
+    await validateAddress(this.prisma, addressId, userId);
 
-    if (existingOrderId) {
-      const result = await this.processExistingOrderDeposit(
-        userId,
-        addressId,
-        clientTransactionId,
-        existingOrderId,
+    // Cotizar antes de crear la orden: sin cotización no hay pago posible
+    let rate: number;
+    try {
+      rate = await getCryptoUsdRate(asset);
+    } catch (error) {
+      console.error('[PaymentCryptoService] Error al cotizar:', error);
+      throw new ServiceUnavailableException(
+        `No se pudo obtener la cotización de ${asset}. Intenta nuevamente en unos minutos.`,
       );
-      order = result.order;
-      transaction = result.transaction;
-    } else {
-      const result = await this.processNewOrderDeposit(
-        userId,
-        addressId,
-        clientTransactionId,
+    }
+
+    const { order, transaction } = existingOrderId
+      ? await this.processExistingOrderDeposit(
+          userId,
+          addressId,
+          clientTransactionId,
+          existingOrderId,
+        )
+      : await this.processNewOrderDeposit(
+          userId,
+          addressId,
+          clientTransactionId,
+        );
+
+    const amountUsd = Number(transaction.amount);
+    const target = await this.chainAdapter.createDepositTarget(
+      asset,
+      clientTransactionId,
+    );
+    const ttlMinutes =
+      Number(this.configService.get<string>('CRYPTO_QUOTE_TTL_MINUTES')) ||
+      DEFAULT_QUOTE_TTL_MINUTES;
+
+    const cryptoPayment = await this.prisma.cryptoPayment.create({
+      data: {
+        transactionId: transaction.id,
+        asset,
+        network: target.network,
+        depositAddress: target.address,
+        memo: target.memo,
+        amountUsd,
+        rate,
+        cryptoAmount: convertUsdToCrypto(amountUsd, rate, asset),
+        expiresAt: new Date(Date.now() + ttlMinutes * 60 * 1000),
+      },
+    });
+
+    return {
+      transaction,
+      order,
+      cryptoPayment,
+    };
+  }
+
+  /**
+   * Estado de un pago cripto del usuario.
+   */
+  async getCryptoPayment(userId: string, clientTransactionId: string) {
+    const cryptoPayment = await this.prisma.cryptoPayment.findFirst({
+      where: { transaction: { clientTransactionId, userId } },
+      include: {
+        transaction: {
+          select: { clientTransactionId: true, status: true, orderId: true },
+        },
+      },
+    });
+
+    if (!cryptoPayment) {
+      throw new NotFoundException(
+        `Pago cripto para la transacción "${clientTransactionId}" no encontrado`,
       );
-      order = result.order;
-      transaction = result.transaction;
     }
 
+    return cryptoPayment;
+  }
+
+  /**
+   * Procesa un pago por criptomonedas.
+   */
+  async processCryptoDeposit(
+    userId: string,
+    addressId: string,
+    clientTransactionId: string,
+    depositImageFile: Express.Multer.File,
+    existingOrderId?: string,
+  ) {
+    await validateAddress(this.prisma, addressId, userId);
+
+    const { order, transaction } = existingOrderId
+      ? await this.processExistingOrderDeposit(
+          userId,
+          addressId,
+          clientTransactionId,
+          existingOrderId,
+        )
+      : await this.processNewOrderDeposit(
+          userId,
+          addressId,
+          clientTransactionId,
+        );
+
     const depositImageUrl =
       await this.cloudinaryService.uploadImage(depositImageFile);
 
     await this.prisma.order.update({
       where: { id: order.id },
-      data: {
-        depositImageUrl,
-        status: OrderStatus.paid_pending_review,
-      },
+      data: { depositImageUrl },
     });
+    await this.ordersService.updateStatus(
+      order.id,
+      OrderStatus.paid_pending_review,
+      {
+        actor: OrderStatusActor.customer,
+        actorId: userId,
+        note: 'Comprobante de pago cripto subido',
+      },
+    );
 
     return {
       transaction,
@@ -133,7 +247,8 @@ export class PaymentCryptoService {
     addressId: string,
     clientTransactionId: string,
   ) {
-    const { total } = await calculateCartTotal(this.prisma, userId);
+    await assertCartUnchanged(this.prisma, userId);
+    const { total } = await calculateCartTotal(this.prisma, userId, addressId);
 
     const transaction = await this.prisma.paymentTransaction.create({
       data: {
@@ -0,0 +1,284 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+  Inject,
+  forwardRef,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PrismaService } from '../../prisma/prisma.service.js';
+import {
+  PaymentStatus,
+  OrderStatus,
+  OrderStatusActor,
+  PaymentProvider,
+  PaymentStatusSource,
+} from '../../generated/enums.js';
+import { OrdersService } from '../../orders/orders.service.js';
+import { EmailService } from '../../email/email.service.js';
+import { PaymentOrderService } from './payment-order.service.js';
+import { PaymentProviderRegistry } from '../providers/payment-provider.registry.js';
+import { createPaginationResponse } from '../../common/helpers/pagination.helper.js';
+import { escapeHtml } from '../../common/helpers/html.helper.js';
+
+/**
+ * Servicio de revisión de depósitos.
+ * Responsabilidad única: gestionar la cola de comprobantes de depósito en
+ * efectivo y cripto, y aprobarlos o rechazarlos.
+ */
+@Injectable()
+export class PaymentDepositReviewService {
+  private readonly logger = new Logger(PaymentDepositReviewService.name);
+  private readonly frontendUrl: string;
+
+  constructor(
+    private prisma: PrismaService,
+    @Inject(forwardRef(() => OrdersService))
+    private ordersService: OrdersService,
+    private paymentOrderService: PaymentOrderService,
+    private providerRegistry: PaymentProviderRegistry,
+    private emailService: EmailService,
+    private configService: ConfigService,
+  ) {
+    this.frontendUrl =
+      this.configService.get<string>('FRONTEND_URL') || 'http://localhost:3000';
+  }
+
+  /**
+   * Depósitos con comprobante pendientes de revisión (paginados),
+   * del más antiguo al más reciente.
+   */
+  async findPendingDeposits(
+    provider?: PaymentProvider,
+    page: number = 1,
+    limit: number = 20,
+  ) {
+    // Proveedores cuyo pago se confirma revisando un comprobante
+    const depositProviders = this.providerRegistry.codesWith('manualReview');
+
+    if (provider && !depositProviders.includes(provider)) {
+      throw new BadRequestException(
+        `Proveedor inválido. Valores permitidos: ${depositProviders.join(', ')}`,
+      );
+    }
+
+    const where = {
+      status: PaymentStatus.pending,
+      paymentProvider: provider ?? { in: depositProviders },
+      order: { status: OrderStatus.paid_pending_review },
+    };
+    const skip = (page - 1) * limit;
+
+    const [deposits, total] = await Promise.all([
+      this.prisma.paymentTransaction.findMany({
+        where,
+        select: {
+          id: true,
+          clientTransactionId: true,
+          amount: true,
+          paymentProvider: true,
+          createdAt: true,
+          user: {
+            select: { id: true, email: true, firstName: true, lastName: true },
+          },
+          order: {
+            select: {
+              id: true,
+              total: true,
+              status: true,
+              depositImageUrl: true,
+              createdAt: true,
+            },
+          },
+        },
+        orderBy: { createdAt: 'asc' },
+        skip,
+        take: limit,
+      }),
+      this.prisma.paymentTransaction.count({ where }),
+    ]);
+
+    return createPaginationResponse(deposits, total, page, limit);
+  }
+
+  /**
+   * Aprueba un depósito: la transacción pasa a completada y la orden a
+   * procesamiento (el cliente recibe los emails de orden confirmada).
+   */
+  async approveDeposit(
+    clientTransactionId: string,
+    adminId: string,
+    note?: string,
+  ) {
+    const transaction = await this.claimForReview(
+      clientTransactionId,
+      adminId,
+      note ?? null,
+    );
+
+    try {
+      await this.paymentOrderService.updatePaymentStatus(
+        clientTransactionId,
+        PaymentStatus.completed,
+        {
+          source: PaymentStatusSource.admin,
+          changedById: adminId,
+          note: note ?? 'Depósito aprobado',
+        },
+      );
+    } catch (error) {
+      await this.releaseReview(transaction.id);
+      throw error;
+    }
+
+    return {
+      message: 'Depósito aprobado exitosamente',
+      data: await this.findReviewedDeposit(transaction.id),
+    };
+  }
+
+  /**
+   * Rechaza un depósito: la transacción pasa a fallida y la orden vuelve a
+   * pendiente para que el cliente pueda subir otro comprobante o pagar por
+   * otro medio. El cliente recibe el motivo por email.
+   */
+  async rejectDeposit(
+    clientTransactionId: string,
+    adminId: string,
+    reason: string,
+  ) {
+    const transaction = await this.claimForReview(
+      clientTransactionId,
+      adminId,
+      reason,
+    );
+    const orderId = transaction.orderId as string;
+
+    try {
+      await this.paymentOrderService.updatePaymentStatus(
+        clientTransactionId,
+        PaymentStatus.failed,
+        {
+          source: PaymentStatusSource.admin,
+          changedById: adminId,
+          note: reason,
+        },
+      );
+    } catch (error) {
+      await this.releaseReview(transaction.id);
+      throw error;
+    }
+
+    const order = await this.ordersService.updateStatus(
+      orderId,
+      OrderStatus.pending,
+      {
+        actor: OrderStatusActor.admin,
+        actorId: adminId,
+        note: `Depósito rechazado: ${reason}`,
+      },
+    );
+
+    try {
+      await this.emailService.sendDepositRejectedEmail({
+        to: transaction.user.email,
+        firstName: transaction.user.firstName,
+        orderId,
+        total: Number(order.total).toFixed(2),
+        reason: escapeHtml(reason),
+        orderUrl: `${this.frontendUrl}/orders/${orderId}`,
+      });
+    } catch (error) {
+      this.logger.error(
+        `Error al enviar el rechazo del depósito ${clientTransactionId}: ${error}`,
+      );
+    }
+
+    return {
+      message: 'Depósito rechazado exitosamente',
+      data: await this.findReviewedDeposit(transaction.id),
+    };
+  }
+
+  /**
+   * Verifica que el depósito esté pendiente de revisión y registra al revisor.
+   * La actualización es condicional para que dos administradores no revisen
+   * el mismo comprobante a la vez.
+   */
+  private async claimForReview(
+    clientTransactionId: string,
+    adminId: string,
+    reviewNote: string | null,
+  ) {
+    const transaction = await this.prisma.paymentTransaction.findUnique({
+      where: { clientTransactionId },
+      include: {
+        user: { select: { email: true, firstName: true } },
+        order: { select: { status: true } },
+      },
+    });
+
+    if (
+      !transaction ||
+      !this.providerRegistry.supports(
+        transaction.paymentProvider,
+        'manualReview',
+      )
+    ) {
+      throw new NotFoundException(
+        `Depósito con clientTransactionId "${clientTransactionId}" no encontrado`,
+      );
+    }
+
+    if (
+      transaction.status !== PaymentStatus.pending ||
+      transaction.reviewedAt
+    ) {
+      throw new ConflictException('El depósito ya fue revisado');
+    }
+
+    if (transaction.order?.status !== OrderStatus.paid_pending_review) {
+      throw new BadRequestException(
+        'El depósito no tiene un comprobante pendiente de revisión',
+      );
+    }
+
+    const claimed = await this.prisma.paymentTransaction.updateMany({
+      where: {
+        id: transaction.id,
+        status: PaymentStatus.pending,
+        reviewedAt: null,
+      },
+      data: { reviewedById: adminId, reviewedAt: new Date(), reviewNote },
+    });
+
+    if (claimed.count === 0) {
+      throw new ConflictException('El depósito ya fue revisado');
+    }
+
+    return transaction;
+  }
+
+  /**
+   * Deshace el registro de revisión si no se pudo cambiar el estado del pago,
+   * para que el depósito vuelva a la cola.
+   */
+  private async releaseReview(transactionId: string) {
+    await this.prisma.paymentTransaction.update({
+      where: { id: transactionId },
+      data: { reviewedById: null, reviewedAt: null, reviewNote: null },
+    });
+  }
+
+  private async findReviewedDeposit(transactionId: string) {
+    return this.prisma.paymentTransaction.findUniqueOrThrow({
+      where: { id: transactionId },
+      include: {
+        order: { select: { id: true, status: true, depositImageUrl: true } },
+        reviewedBy: { select: { id: true, email: true, firstName: true } },
+      },
+    });
+  }
+}
@@ -0,0 +1,278 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+} from '@nestjs/common';
+import { PrismaService } from '../../prisma/prisma.service.js';
+import { PaymentProvider } from '../../generated/enums.js';
+import type { InstallmentPlan } from '../../generated/client.js';
+import { PaymentProviderRegistry } from '../providers/payment-provider.registry.js';
+import { CreateInstallmentPlanDto } from '../dto/create-installment-plan.dto.js';
+import { UpdateInstallmentPlanDto } from '../dto/update-installment-plan.dto.js';
+import { calculateCartTotal, validateAddress } from '../helpers/cart.helper.js';
+import { roundAmount } from '../../coupons/helpers/coupon.helper.js';
+
+/**
+ * Opción de pago en cuotas para un monto.
+ */
+export interface InstallmentOption {
+  installments: number;
+  /** Plan que ofrece la opción; null para el pago en una cuota */
+  installmentPlanId: string | null;
+  name: string;
+  /** Recargo total sobre el monto, en porcentaje */
+  interestRate: number;
+  interestFree: boolean;
+  installmentAmount: number;
+  totalAmount: number;
+}
+
+/**
+ * Cuotas elegidas para una transacción, ya validadas.
+ */
+export interface InstallmentSelection {
+  installments: number;
+  installmentPlanId: string | null;
+  /** Máximo de cuotas disponible, para los proveedores que dejan elegir */
+  maxInstallments: number;
+}
+
+/**
+ * Servicio especializado en pagos en cuotas.
+ * Responsabilidad única: administrar los planes de cuotas y resolver los
+ * disponibles para un monto y unos productos.
+ *
+ * Un plan se ofrece si está activo y vigente, el monto alcanza su mínimo y,
+ * si es de una categoría, todos los productos son de esa categoría. Con
+ * varios planes de la misma cantidad de cuotas se ofrece el de menor recargo.
+ */
+@Injectable()
+export class PaymentInstallmentService {
+  constructor(
+    private prisma: PrismaService,
+    private providerRegistry: PaymentProviderRegistry,
+  ) {}
+
+  /**
+   * Cuotas disponibles para el total del carrito del usuario.
+   */
+  async getCartOptions(
+    userId: string,
+    provider: PaymentProvider,
+    addressId?: string,
+  ) {
+    this.providerRegistry.get(provider);
+
+    if (addressId) {
+      await validateAddress(this.prisma, addressId, userId);
+    }
+
+    const { total, items } = await calculateCartTotal(
+      this.prisma,
+      userId,
+      addressId,
+    );
+    const options = await this.getOptions(
+      provider,
+      total,
+      items.map((item) => item.productId),
+    );
+
+    return {
+      provider,
+      amount: total,
+      maxInstallments: Math.max(...options.map((o) => o.installments)),
+      options,
+    };
+  }
+
+  /**
+   * Opciones de cuotas para un monto, incluido el pago en una cuota.
+   */
+  async getOptions(
+    provider: PaymentProvider,
+    amount: number,
+    productIds: string[],
+  ): Promise<InstallmentOption[]> {
+    const plans = await this.findApplicablePlans(provider, amount, productIds);
+
+    const best = new Map<number, InstallmentPlan>();
+    for (const plan of plans) {
+      const current = best.get(plan.installments);
+      if (
+        !current ||
+        Number(plan.interestRate) < Number(current.interestRate)
+      ) {
+        best.set(plan.installments, plan);
+      }
+    }
+
+    const options = [...best.values()].map((plan) =>
+      this.toOption(amount, plan),
+    );
+
+    return [this.toOption(amount, null), ...options].sort(
+      (a, b) => a.installments - b.installments,
+    );
+  }
+
+  /**
+   * Valida las cuotas pedidas para una transacción.
+   * Sin cuotas pedidas se paga en una cuota.
+   *
+   * @throws BadRequestException si no hay un plan con esa cantidad de cuotas
+   */
+  async resolveSelection(
+    provider: PaymentProvider,
+    amount: number,
+    productIds: string[],
+    installments = 1,
+  ): Promise<InstallmentSelection> {
+    const options = await this.getOptions(provider, amount, productIds);
+    const option = options.find((o) => o.installments === installments);
+
+    if (!option) {
+      throw new BadRequestException(
+        `El pago en ${installments} cuotas no está disponible para esta compra`,
+      );
+    }
+
+    return {
+      installments,
+      installmentPlanId: option.installmentPlanId,
+      maxInstallments: Math.max(...options.map((o) => o.installments)),
+    };
+  }
+
+  findAll(provider?: PaymentProvider) {
+    return this.prisma.installmentPlan.findMany({
+      where: provider ? { provider } : {},
+      include: { category: { select: { id: true, name: true } } },
+      orderBy: [{ provider: 'asc' }, { installments: 'asc' }],
+    });
+  }
+
+  async findOne(id: string) {
+    const plan = await this.prisma.installmentPlan.findUnique({
+      where: { id },
+      include: {
+        category: { select: { id: true, name: true } },
+        _count: { select: { transactions: true } },
+      },
+    });
+
+    if (!plan) {
+      throw new NotFoundException(`Plan de cuotas con id ${id} no encontrado`);
+    }
+
+    return plan;
+  }
+
+  create(dto: CreateInstallmentPlanDto) {
+    this.providerRegistry.get(dto.provider);
+    this.assertValidDates(dto.startsAt, dto.expiresAt);
+
+    return this.prisma.installmentPlan.create({ data: dto });
+  }
+
+  async update(id: string, dto: UpdateInstallmentPlanDto) {
+    const plan = await this.findOne(id);
+
+    if (dto.provider) {
+      this.providerRegistry.get(dto.provider);
+    }
+    this.assertValidDates(
+      dto.startsAt ?? plan.startsAt ?? undefined,
+      dto.expiresAt ?? plan.expiresAt ?? undefined,
+    );
+
+    return this.prisma.installmentPlan.update({
+      where: { id },
+      data: dto,
+    });
+  }
+
+  async remove(id: string) {
+    const plan = await this.findOne(id);
+
+    // Los planes ya usados se desactivan para conservar el historial de pagos
+    if (plan._count.transactions > 0) {
+      await this.prisma.installmentPlan.update({
+        where: { id },
+        data: { isActive: false },
+      });
+      return {
+        message: 'El plan tiene pagos registrados, por lo que fue desactivado',
+      };
+    }
+
+    await this.prisma.installmentPlan.delete({ where: { id } });
+
+    return { message: 'Plan de cuotas eliminado exitosamente' };
+  }
+
+  private async findApplicablePlans(
+    provider: PaymentProvider,
+    amount: number,
+    productIds: string[],
+  ) {
+    const now = new Date();
+    const plans = await this.prisma.installmentPlan.findMany({
+      where: {
+        provider,
+        isActive: true,
+        AND: [
+          { OR: [{ startsAt: null }, { startsAt: { lte: now } }] },
+          { OR: [{ expiresAt: null }, { expiresAt: { gt: now } }] },
+          { OR: [{ minAmount: null }, { minAmount: { lte: amount } }] },
+        ],
+      },
+    });
+
+    if (!plans.some((plan) => plan.categoryId)) {
+      return plans;
+    }
+
+    const products = await this.prisma.product.findMany({
+      where: { id: { in: productIds } },
+      select: { categoryId: true },
+    });
+    const categoryIds = new Set(products.map((p) => p.categoryId));
+
+    return plans.filter(
+      (plan) =>
+        !plan.categoryId ||
+        (categoryIds.size === 1 && categoryIds.has(plan.categoryId)),
+    );
+  }
+
+  private toOption(
+    amount: number,
+    plan: InstallmentPlan | null,
+  ): InstallmentOption {
+    const installments = plan?.installments ?? 1;
+    const interestRate = plan ? Number(plan.interestRate) : 0;
+    const totalAmount = roundAmount(amount * (1 + interestRate / 100));
+
+    return {
+      installments,
+      installmentPlanId: plan?.id ?? null,
+      name: plan?.name ?? 'Pago en una cuota',
+      interestRate,
+      interestFree: interestRate === 0,
+      installmentAmount: roundAmount(totalAmount / installments),
+      totalAmount,
+    };
+  }
+
+  private assertValidDates(
+    startsAt?: string | Date,
+    expiresAt?: string | Date,
+  ) {
+    if (startsAt && expiresAt && new Date(startsAt) >= new Date(expiresAt)) {
+      throw new BadRequestException(
+        'La fecha de expiración debe ser posterior a la fecha de inicio',
+      );
+    }
+  }
+}
@@ -1,7 +1,9 @@
 import {
   Injectable,
+  Logger,
   NotFoundException,
   BadRequestException,
+  ConflictException,
   Inject,
   forwardRef,
 } from '@nestjs/common';
@@ -9,12 +11,29 @@ import { PrismaService } from '../../prisma/prisma.service.js';
 import {
   PaymentStatus,
   OrderStatus,
-  PaymentProvider,
+  OrderStatusActor,
+  type PaymentProvider,
+  PaymentStatusSource,
 } from '../../generated/enums.js';
 import { OrdersService } from '../../orders/orders.service.js';
 import { OrderNotificationService } from '../../orders/services/order-notification.service.js';
+import { PaymentRefundService } from './payment-refund.service.js';
+import { PaymentProviderRegistry } from '../providers/payment-provider.registry.js';
+import { assertPaymentStatusTransition } from '../helpers/payment-status.helper.js';
 import type * as runtime from '@prisma/client/runtime/client';
 
+/**
+ * Origen de un cambio de estado de pago, para el registro de auditoría.
+ * El estado solo cambia tras confirmarlo con el proveedor (consulta o
+ * webhook firmado) o por la acción de un administrador.
+ */
+export interface PaymentStatusChangeContext {
+  source: PaymentStatusSource;
+  /** Administrador que realiza el cambio */
+  changedById?: string | null;
+  note?: string;
+}
+
 /**
  * Servicio especializado en operaciones de órdenes relacionadas con pagos.
  * Responsabilidad única: gestionar la creación de órdenes desde transacciones
@@ -22,26 +41,32 @@ import type * as runtime from '@prisma/client/runtime/client';
  */
 @Injectable()
 export class PaymentOrderService {
+  private readonly logger = new Logger(PaymentOrderService.name);
+
   constructor(
     private prisma: PrismaService,
     @Inject(forwardRef(() => OrdersService))
     private ordersService: OrdersService,
     @Inject(forwardRef(() => OrderNotificationService))
     private orderNotificationService: OrderNotificationService,
+    private paymentRefundService: PaymentRefundService,
+    private providerRegistry: PaymentProviderRegistry,
   ) {}
 
   /**
    * Crea una orden desde una transacción de pago existente.
+   * Con userId, la transacción debe pertenecer a ese usuario.
    */
   async createOrderFromTransaction(
     clientTransactionId: string,
     initialStatus: OrderStatus = OrderStatus.pending,
+    userId?: string,
   ) {
     const transaction = await this.prisma.paymentTransaction.findUnique({
       where: { clientTransactionId },
     });
 
-    if (!transaction) {
+    if (!transaction || (userId && transaction.userId !== userId)) {
       throw new NotFoundException('Transacción no encontrada');
     }
 
@@ -86,12 +111,18 @@ export class PaymentOrderService {
   }
 
   /**
-   * Actualiza el estado de una transacción de pago.
+   * Actualiza el estado de una transacción de pago y registra quién lo cambió.
    * Si el pago se completa, también actualiza la orden y envía email.
+   *
+   * Solo se aplican las transiciones de PAYMENT_STATUS_TRANSITIONS, y el
+   * cambio se reclama sobre el estado leído: si otro proceso (webhook,
+   * conciliación, scheduler) lo cambió antes, se lanza ConflictException en
+   * lugar de sobrescribirlo.
    */
   async updatePaymentStatus(
     clientTransactionId: string,
     status: PaymentStatus,
+    context: PaymentStatusChangeContext,
     payphoneData?: Record<string, unknown>,
   ) {
     const transaction = await this.prisma.paymentTransaction.findUnique({
@@ -120,6 +151,8 @@ export class PaymentOrderService {
       return transaction;
     }
 
+    assertPaymentStatusTransition(transaction.status, status);
+
     const updateData: {
       status: PaymentStatus;
       payphoneData?: runtime.InputJsonValue;
@@ -132,38 +165,97 @@ export class PaymentOrderService {
           : {}),
     };
 
-    const updatedTransaction = await this.prisma.paymentTransaction.update({
-      where: { clientTransactionId },
-      data: updateData,
-      include: {
-        order: {
-          include: {
-            user: true,
-            items: {
-              include: {
-                product: true,
+    const updatedTransaction = await this.prisma.$transaction(async (tx) => {
+      const claimed = await tx.paymentTransaction.updateMany({
+        where: { clientTransactionId, status: transaction.status },
+        data: updateData,
+      });
+
+      if (claimed.count === 0) {
+        throw new ConflictException(
+          `El estado de la transacción "${clientTransactionId}" cambió mientras se procesaba`,
+        );
+      }
+
+      const updated = await tx.paymentTransaction.findUniqueOrThrow({
+        where: { clientTransactionId },
+        include: {
+          order: {
+            include: {
+              user: true,
+              items: {
+                include: {
+                  product: true,
+                },
               },
             },
           },
         },
-      },
+      });
+
+      await tx.paymentStatusChange.create({
+        data: {
+          transactionId: transaction.id,
+          previousStatus: transaction.status,
+          newStatus: status,
+          source: context.source,
+          changedById: context.changedById ?? null,
+          note: context.note,
+        },
+      });
+
+      return updated;
     });
 
     if (status === PaymentStatus.completed) {
-      await this.handlePaymentCompleted(transaction);
+      await this.handlePaymentCompleted(transaction, context);
     }
 
     return updatedTransaction;
   }
 
+  /**
+   * Historial de cambios de estado de una transacción (auditoría).
+   */
+  async getPaymentStatusHistory(clientTransactionId: string) {
+    const transaction = await this.prisma.paymentTransaction.findUnique({
+      where: { clientTransactionId },
+      select: {
+        id: true,
+        clientTransactionId: true,
+        status: true,
+        statusChanges: {
+          include: {
+            changedBy: {
+              select: { id: true, email: true, firstName: true },
+            },
+          },
+          orderBy: { createdAt: 'asc' },
+        },
+      },
+    });
+
+    if (!transaction) {
+      throw new NotFoundException(
+        `Transacción con clientTransactionId "${clientTransactionId}" no encontrada`,
+      );
+    }
+
+    return transaction;
+  }
+
   /**
    * Maneja las acciones cuando un pago se completa.
    */
-  private async handlePaymentCompleted(transaction: {
-    orderId: string | null;
-    paymentProvider: PaymentProvider;
-    amount: number | { toNumber(): number };
-  }) {
+  private async handlePaymentCompleted(
+    transaction: {
+      id: string;
+      orderId: string | null;
+      paymentProvider: PaymentProvider;
+      amount: number | { toNumber(): number };
+    },
+    context: PaymentStatusChangeContext,
+  ) {
     if (!transaction.orderId) {
       throw new BadRequestException(
         'La transacción no tiene una orden asociada. Por favor, contacta al soporte.',
@@ -188,12 +280,25 @@ export class PaymentOrderService {
       );
     }
 
+    // La orden se canceló antes de recibir el pago (ej: venció el plazo de pago)
+    if (order.status === OrderStatus.cancelled) {
+      await this.handlePaymentOnCancelledOrder(transaction, order.id);
+      return;
+    }
+
     const newOrderStatus = this.determineOrderStatus(
       transaction.paymentProvider,
+      context,
     );
 
     // Actualizar estado de la orden (esto también enviará el email de notificación)
-    await this.ordersService.updateStatus(order.id, newOrderStatus);
+    await this.ordersService.updateStatus(
+      order.id,
+      newOrderStatus,
+      context.source === PaymentStatusSource.admin
+        ? { actor: OrderStatusActor.admin, actorId: context.changedById }
+        : { actor: OrderStatusActor.system, note: 'Pago confirmado' },
+    );
 
     // Enviar email de confirmación de orden (adicional al de estado)
     await this.orderNotificationService.sendOrderConfirmationEmail({
@@ -203,16 +308,62 @@ export class PaymentOrderService {
   }
 
   /**
-   * Determina el estado de la orden basado en el proveedor de pago.
+   * Resuelve un pago recibido en una orden cancelada, que ya devolvió su
+   * stock y no puede volver a procesarse: se reembolsa automáticamente si
+   * el proveedor lo permite y, si no (o si el reembolso falla), la
+   * transacción queda marcada para que un administrador la revise.
    */
-  private determineOrderStatus(paymentProvider: PaymentProvider): OrderStatus {
-    switch (paymentProvider) {
-      case PaymentProvider.PAYPHONE:
-      case PaymentProvider.MERCADOPAGO:
-        return OrderStatus.processing;
-      case PaymentProvider.CASH_DEPOSIT:
-      default:
-        return OrderStatus.paid_pending_review;
+  private async handlePaymentOnCancelledOrder(
+    transaction: { id: string; paymentProvider: PaymentProvider },
+    orderId: string,
+  ) {
+    if (
+      this.providerRegistry.supports(transaction.paymentProvider, 'refunds')
+    ) {
+      try {
+        await this.paymentRefundService.refundOrder(
+          orderId,
+          { reason: 'Pago recibido en una orden cancelada' },
+          null,
+        );
+        this.logger.warn(
+          `Pago recibido en la orden cancelada ${orderId}: reembolsado automáticamente`,
+        );
+        return;
+      } catch (error) {
+        this.logger.error(
+          `Error al reembolsar el pago de la orden cancelada ${orderId}: ${error}`,
+        );
+      }
     }
+
+    await this.prisma.paymentTransaction.update({
+      where: { id: transaction.id },
+      data: { requiresReview: true },
+    });
+    this.logger.warn(
+      `Pago recibido en la orden cancelada ${orderId}: requiere revisión manual`,
+    );
+  }
+
+  /**
+   * Determina el estado de la orden según las capacidades del proveedor.
+   * Los pagos con comprobante (manualReview) quedan en revisión hasta que
+   * un administrador los aprueba, salvo que el propio proveedor los haya
+   * verificado (ej: cripto confirmado en la blockchain); el resto se
+   * confirma automáticamente.
+   */
+  private determineOrderStatus(
+    paymentProvider: PaymentProvider,
+    context: PaymentStatusChangeContext,
+  ): OrderStatus {
+    if (!this.providerRegistry.supports(paymentProvider, 'manualReview')) {
+      return OrderStatus.processing;
+    }
+
+    return context.source === PaymentStatusSource.admin ||
+      context.source === PaymentStatusSource.provider
+      ? OrderStatus.processing
+      : OrderStatus.paid_pending_review;
   }
 }
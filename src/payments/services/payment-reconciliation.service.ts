@@ -0,0 +1,326 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  ConflictException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { PrismaService } from '../../prisma/prisma.service.js';
+import {
+  OrderStatus,
+  PaymentStatus,
+  PaymentStatusSource,
+  ReconciliationResult,
+} from '../../generated/enums.js';
+import type { PaymentTransaction } from '../../generated/client.js';
+import { PaymentProviderRegistry } from '../providers/payment-provider.registry.js';
+import { PaymentOrderService } from './payment-order.service.js';
+import { createPaginationResponse } from '../../common/helpers/pagination.helper.js';
+
+// Minutos que debe tener una transacción pendiente antes de conciliarla
+const DEFAULT_MIN_AGE_MINUTES = 30;
+// Horas tras las que una transacción sin pago en el proveedor se da por
+// abandonada (salvo que su orden siga esperando el pago)
+const DEFAULT_EXPIRE_AFTER_HOURS = 24;
+
+/**
+ * Resultado de conciliar una transacción.
+ */
+interface ReconciliationOutcome {
+  result: ReconciliationResult;
+  newStatus?: PaymentStatus;
+  providerStatus?: string;
+  providerAmount?: number;
+  note?: string;
+}
+
+/**
+ * Servicio de conciliación de pagos.
+ * Responsabilidad única: comparar las transacciones pendientes con lo que
+ * registran los proveedores con capacidad de conciliación, resolver su
+ * estado y guardar un reporte de cada ejecución.
+ */
+@Injectable()
+export class PaymentReconciliationService {
+  private readonly logger = new Logger(PaymentReconciliationService.name);
+  private running = false;
+
+  constructor(
+    private prisma: PrismaService,
+    private configService: ConfigService,
+    private providerRegistry: PaymentProviderRegistry,
+    private paymentOrderService: PaymentOrderService,
+  ) {}
+
+  /**
+   * Ejecuta cada 30 minutos la conciliación de transacciones pendientes.
+   */
+  @Cron(CronExpression.EVERY_30_MINUTES)
+  async handleReconciliation() {
+    try {
+      const run = await this.reconcile();
+      if (run.checkedCount > 0) {
+        this.logger.log(
+          `Conciliación ${run.id}: ${run.checkedCount} revisadas, ${run.updatedCount} actualizadas, ${run.mismatchedCount} con monto distinto, ${run.missingCount} sin pago, ${run.errorCount} con error`,
+        );
+      }
+    } catch (error) {
+      this.logger.error(`Error en la conciliación de pagos: ${error}`);
+    }
+  }
+
+  /**
+   * Concilia las transacciones de los proveedores que permiten consultar
+   * pagos y siguen pendientes después del tiempo mínimo, y guarda el reporte.
+   *
+   * - matched: el proveedor registra el pago con el mismo monto; si ya está
+   *   aprobado o rechazado, la transacción se actualiza.
+   * - mismatched_amount: el monto cobrado no coincide; queda para revisión.
+   * - missing: el proveedor no registra pagos; si la transacción superó el
+   *   tiempo de expiración se marca como fallida. Las de órdenes que siguen
+   *   esperando el pago no se expiran: su checkout sigue vigente y el
+   *   scheduler de órdenes las vence al cancelar la orden.
+   */
+  async reconcile() {
+    if (this.running) {
+      throw new ConflictException('Ya hay una conciliación en curso');
+    }
+    this.running = true;
+
+    try {
+      const minAgeMinutes =
+        Number(
+          this.configService.get<string>('RECONCILIATION_MIN_AGE_MINUTES'),
+        ) || DEFAULT_MIN_AGE_MINUTES;
+      const expireAfterHours =
+        Number(
+          this.configService.get<string>('RECONCILIATION_EXPIRE_AFTER_HOURS'),
+        ) || DEFAULT_EXPIRE_AFTER_HOURS;
+      const now = Date.now();
+      const expireBefore = new Date(now - expireAfterHours * 60 * 60 * 1000);
+
+      const transactions = await this.prisma.paymentTransaction.findMany({
+        where: {
+          status: PaymentStatus.pending,
+          paymentProvider: {
+            in: this.providerRegistry.codesWith('reconciliation'),
+          },
+          createdAt: { lte: new Date(now - minAgeMinutes * 60 * 1000) },
+        },
+        include: { order: { select: { status: true } } },
+        orderBy: { createdAt: 'asc' },
+      });
+
+      const run = await this.prisma.reconciliationRun.create({ data: {} });
+      const counts = {
+        checkedCount: transactions.length,
+        matchedCount: 0,
+        mismatchedCount: 0,
+        missingCount: 0,
+        updatedCount: 0,
+        expiredCount: 0,
+        errorCount: 0,
+      };
+
+      for (const transaction of transactions) {
+        const outcome = await this.reconcileTransaction(
+          transaction,
+          expireBefore,
+        );
+
+        await this.prisma.reconciliationItem.create({
+          data: {
+            runId: run.id,
+            transactionId: transaction.id,
+            provider: transaction.paymentProvider,
+            result: outcome.result,
+            localStatus: transaction.status,
+            newStatus: outcome.newStatus,
+            providerStatus: outcome.providerStatus,
+            localAmount: transaction.amount,
+            providerAmount: outcome.providerAmount,
+            note: outcome.note,
+          },
+        });
+
+        switch (outcome.result) {
+          case ReconciliationResult.matched:
+            counts.matchedCount++;
+            if (outcome.newStatus) counts.updatedCount++;
+            break;
+          case ReconciliationResult.mismatched_amount:
+            counts.mismatchedCount++;
+            break;
+          case ReconciliationResult.missing:
+            counts.missingCount++;
+            if (outcome.newStatus) counts.expiredCount++;
+            break;
+          case ReconciliationResult.error:
+            counts.errorCount++;
+            break;
+        }
+      }
+
+      return this.prisma.reconciliationRun.update({
+        where: { id: run.id },
+        data: { ...counts, finishedAt: new Date() },
+      });
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Reportes de conciliación (paginados), del más reciente al más antiguo.
+   */
+  async findRuns(page: number = 1, limit: number = 20) {
+    const skip = (page - 1) * limit;
+
+    const [runs, total] = await Promise.all([
+      this.prisma.reconciliationRun.findMany({
+        orderBy: { startedAt: 'desc' },
+        skip,
+        take: limit,
+      }),
+      this.prisma.reconciliationRun.count(),
+    ]);
+
+    return createPaginationResponse(runs, total, page, limit);
+  }
+
+  /**
+   * Detalle de un reporte de conciliación con el resultado de cada transacción.
+   */
+  async findRun(id: string) {
+    const run = await this.prisma.reconciliationRun.findUnique({
+      where: { id },
+      include: {
+        items: {
+          include: {
+            transaction: {
+              select: {
+                clientTransactionId: true,
+                orderId: true,
+                userId: true,
+                status: true,
+              },
+            },
+          },
+          orderBy: { createdAt: 'asc' },
+        },
+      },
+    });
+
+    if (!run) {
+      throw new NotFoundException(
+        `Reporte de conciliación con id ${id} no encontrado`,
+      );
+    }
+
+    return run;
+  }
+
+  /**
+   * Consulta el pago de una transacción en su proveedor y resuelve su estado.
+   * Los errores se registran en el reporte sin interrumpir la conciliación.
+   */
+  private async reconcileTransaction(
+    transaction: PaymentTransaction & { order: { status: OrderStatus } | null },
+    expireBefore: Date,
+  ): Promise<ReconciliationOutcome> {
+    const { clientTransactionId } = transaction;
+
+    try {
+      const provider = this.providerRegistry.require(
+        transaction.paymentProvider,
+        'reconciliation',
+      );
+      const providerName = provider.displayName;
+      const payment =
+        await provider.findPaymentByReference(clientTransactionId);
+
+      if (!payment) {
+        if (
+          transaction.createdAt > expireBefore ||
+          transaction.order?.status === OrderStatus.pending
+        ) {
+          return { result: ReconciliationResult.missing };
+        }
+
+        await this.paymentOrderService.updatePaymentStatus(
+          clientTransactionId,
+          PaymentStatus.failed,
+          {
+            source: PaymentStatusSource.system,
+            note: `Transacción expirada: ${providerName} no registra ningún pago`,
+          },
+        );
+
+        return {
+          result: ReconciliationResult.missing,
+          newStatus: PaymentStatus.failed,
+          note: 'Transacción abandonada marcada como fallida',
+        };
+      }
+
+      const providerInfo = {
+        providerStatus: payment.status,
+        providerAmount: payment.amount,
+      };
+
+      if (
+        payment.amount !== undefined &&
+        Math.abs(payment.amount - Number(transaction.amount)) >= 0.01
+      ) {
+        return {
+          result: ReconciliationResult.mismatched_amount,
+          ...providerInfo,
+          note: 'El monto cobrado no coincide con la transacción; requiere revisión manual',
+        };
+      }
+
+      if (payment.status === 'pending') {
+        return { result: ReconciliationResult.matched, ...providerInfo };
+      }
+
+      const newStatus =
+        payment.status === 'completed'
+          ? PaymentStatus.completed
+          : PaymentStatus.failed;
+
+      // Las transacciones creadas sin orden la necesitan para completar el pago
+      if (newStatus === PaymentStatus.completed && !transaction.orderId) {
+        await this.paymentOrderService.createOrderFromTransaction(
+          clientTransactionId,
+          OrderStatus.pending,
+        );
+      }
+
+      await this.paymentOrderService.updatePaymentStatus(
+        clientTransactionId,
+        newStatus,
+        {
+          source: PaymentStatusSource.provider,
+          note: `Conciliación con ${providerName}`,
+        },
+        {
+          ...((transaction.payphoneData as Record<string, unknown> | null) ??
+            {}),
+          ...payment.data,
+        },
+      );
+
+      return {
+        result: ReconciliationResult.matched,
+        newStatus,
+        ...providerInfo,
+      };
+    } catch (error) {
+      return {
+        result: ReconciliationResult.error,
+        note: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+}
@@ -0,0 +1,308 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+} from '@nestjs/common';
+import { PrismaService } from '../../prisma/prisma.service.js';
+import { CreateRefundDto } from '../dto/create-refund.dto.js';
+import { PaymentStatus } from '../../generated/enums.js';
+import { PaymentProviderRegistry } from '../providers/payment-provider.registry.js';
+import type { RefundPaymentResult } from '../interfaces/payment-provider.interface.js';
+import { roundAmount } from '../../coupons/helpers/coupon.helper.js';
+import { createPaginationResponse } from '../../common/helpers/pagination.helper.js';
+import type * as runtime from '@prisma/client/runtime/client';
+
+/**
+ * Servicio especializado en reembolsos.
+ * Responsabilidad única: devolver total o parcialmente el dinero de una orden
+ * a través del proveedor de pago y registrar el reembolso en la transacción.
+ */
+@Injectable()
+export class PaymentRefundService {
+  constructor(
+    private prisma: PrismaService,
+    private providerRegistry: PaymentProviderRegistry,
+  ) {}
+
+  /**
+   * Reembolsa una orden de forma total, por monto o por items.
+   *
+   * @param orderId Orden a reembolsar
+   * @param dto Monto o items a reembolsar y motivo
+   * @param adminId Administrador que emite el reembolso (null si es automático)
+   */
+  async refundOrder(
+    orderId: string,
+    dto: CreateRefundDto,
+    adminId: string | null,
+  ) {
+    const order = await this.prisma.order.findUnique({
+      where: { id: orderId },
+      include: {
+        items: { include: { refundItems: true } },
+        payments: {
+          where: {
+            status: {
+              in: [PaymentStatus.completed, PaymentStatus.partially_refunded],
+            },
+          },
+          orderBy: { createdAt: 'desc' },
+          take: 1,
+        },
+      },
+    });
+
+    if (!order) {
+      throw new NotFoundException('Orden no encontrada');
+    }
+
+    const transaction = order.payments[0];
+    if (!transaction) {
+      throw new BadRequestException(
+        'La orden no tiene un pago completado para reembolsar',
+      );
+    }
+
+    const chargedAmount = Number(transaction.amount);
+    const remainingAmount = roundAmount(
+      chargedAmount - Number(transaction.refundedAmount),
+    );
+
+    const refundItems = dto.items?.length
+      ? this.calculateItemsRefund(order, dto.items)
+      : [];
+    const amount = refundItems.length
+      ? roundAmount(refundItems.reduce((sum, item) => sum + item.amount, 0))
+      : roundAmount(dto.amount ?? remainingAmount);
+
+    if (amount <= 0) {
+      throw new BadRequestException('El monto a reembolsar debe ser mayor a 0');
+    }
+
+    if (amount > remainingAmount) {
+      throw new BadRequestException(
+        `El monto a reembolsar supera el saldo disponible del pago ($${remainingAmount.toFixed(2)})`,
+      );
+    }
+
+    // Los proveedores sin API de reembolsos (ej: depósitos) se registran manualmente
+    const isManual =
+      dto.manual === true ||
+      !this.providerRegistry.supports(transaction.paymentProvider, 'refunds');
+
+    // Reservar el monto antes de llamar al proveedor: la condición se evalúa
+    // en la base, así dos reembolsos simultáneos no superan lo cobrado
+    const claim = await this.prisma.paymentTransaction.updateMany({
+      where: {
+        id: transaction.id,
+        status: {
+          in: [PaymentStatus.completed, PaymentStatus.partially_refunded],
+        },
+        refundedAmount: { lte: roundAmount(chargedAmount - amount) },
+      },
+      data: { refundedAmount: { increment: amount } },
+    });
+
+    if (claim.count === 0) {
+      throw new BadRequestException(
+        'El saldo del pago cambió mientras se procesaba el reembolso. Intenta nuevamente.',
+      );
+    }
+
+    let providerResult: RefundPaymentResult | undefined;
+    if (!isManual) {
+      const providerData = transaction.payphoneData as Record<
+        string,
+        unknown
+      > | null;
+
+      try {
+        providerResult = await this.providerRegistry
+          .require(transaction.paymentProvider, 'refunds')
+          .refundPayment({
+            clientTransactionId: transaction.clientTransactionId,
+            amount,
+            totalAmount: chargedAmount,
+            providerPaymentId: providerData?.mercadopagoPaymentId as
+              | string
+              | undefined,
+            providerData: providerData ?? undefined,
+          });
+      } catch (error) {
+        // El proveedor no devolvió el dinero: liberar el monto reservado
+        await this.prisma.paymentTransaction.update({
+          where: { id: transaction.id },
+          data: { refundedAmount: { decrement: amount } },
+        });
+        throw error;
+      }
+    }
+
+    // Un reembolso aceptado por el proveedor se registra como definitivo
+    // aunque todavía no se haya acreditado (su estado queda en providerData)
+    const refund = await this.prisma.$transaction(async (tx) => {
+      const createdRefund = await tx.refund.create({
+        data: {
+          transactionId: transaction.id,
+          orderId,
+          amount,
+          reason: dto.reason,
+          isManual,
+          providerRefundId: providerResult?.refundId,
+          ...(providerResult?.data && {
+            providerData: providerResult.data as runtime.InputJsonValue,
+          }),
+          processedById: adminId,
+          items: {
+            create: refundItems,
+          },
+        },
+        include: { items: true },
+      });
+
+      // El estado se calcula en la base con el monto ya acumulado, que
+      // incluye los reembolsos simultáneos
+      await tx.paymentTransaction.updateMany({
+        where: { id: transaction.id, refundedAmount: { gte: chargedAmount } },
+        // Un pago devuelto por completo ya no requiere revisión
+        data: { status: PaymentStatus.refunded, requiresReview: false },
+      });
+      await tx.paymentTransaction.updateMany({
+        where: { id: transaction.id, refundedAmount: { lt: chargedAmount } },
+        data: { status: PaymentStatus.partially_refunded },
+      });
+
+      return createdRefund;
+    });
+
+    return {
+      message: isManual
+        ? 'Reembolso registrado manualmente'
+        : 'Reembolso procesado exitosamente',
+      data: refund,
+    };
+  }
+
+  /**
+   * Lista los reembolsos de una orden.
+   */
+  async getOrderRefunds(orderId: string) {
+    return this.prisma.refund.findMany({
+      where: { orderId },
+      include: {
+        items: {
+          include: {
+            orderItem: { include: { product: true, variant: true } },
+          },
+        },
+        processedBy: {
+          select: { id: true, email: true, firstName: true, lastName: true },
+        },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  /**
+   * Pagos recibidos en órdenes canceladas que no pudieron reembolsarse
+   * automáticamente (paginados), del más antiguo al más reciente. Se
+   * resuelven reembolsando la orden por completo.
+   */
+  async findPaymentsRequiringReview(page: number = 1, limit: number = 20) {
+    const where = { requiresReview: true };
+    const skip = (page - 1) * limit;
+
+    const [payments, total] = await Promise.all([
+      this.prisma.paymentTransaction.findMany({
+        where,
+        select: {
+          id: true,
+          clientTransactionId: true,
+          amount: true,
+          refundedAmount: true,
+          status: true,
+          paymentProvider: true,
+          createdAt: true,
+          user: {
+            select: { id: true, email: true, firstName: true, lastName: true },
+          },
+          order: {
+            select: { id: true, total: true, status: true, createdAt: true },
+          },
+        },
+        orderBy: { createdAt: 'asc' },
+        skip,
+        take: limit,
+      }),
+      this.prisma.paymentTransaction.count({ where }),
+    ]);
+
+    return createPaginationResponse(payments, total, page, limit);
+  }
+
+  /**
+   * Calcula el monto a reembolsar por cada item solicitado.
+   * Suma las cantidades de un mismo item pedido varias veces, valida que no
+   * se reembolse más cantidad de la comprada y aplica proporcionalmente el
+   * descuento del cupón de la orden.
+   */
+  private calculateItemsRefund(
+    order: {
+      discountAmount: number | { toNumber(): number };
+      items: Array<{
+        id: string;
+        quantity: number;
+        price: number | { toNumber(): number };
+        refundItems: Array<{ quantity: number }>;
+      }>;
+    },
+    requestedItems: CreateRefundDto['items'] = [],
+  ): Array<{ orderItemId: string; quantity: number; amount: number }> {
+    const itemsSubtotal = order.items.reduce(
+      (sum, item) => sum + Number(item.price) * item.quantity,
+      0,
+    );
+    const discountFactor =
+      itemsSubtotal > 0
+        ? (itemsSubtotal - Number(order.discountAmount)) / itemsSubtotal
+        : 1;
+
+    const requestedQuantities = new Map<string, number>();
+    for (const { orderItemId, quantity } of requestedItems) {
+      requestedQuantities.set(
+        orderItemId,
+        (requestedQuantities.get(orderItemId) ?? 0) + quantity,
+      );
+    }
+
+    return [...requestedQuantities].map(([orderItemId, quantity]) => {
+      const orderItem = order.items.find((item) => item.id === orderItemId);
+
+      if (!orderItem) {
+        throw new NotFoundException(
+          `El item ${orderItemId} no pertenece a la orden`,
+        );
+      }
+
+      const alreadyRefunded = orderItem.refundItems.reduce(
+        (sum, item) => sum + item.quantity,
+        0,
+      );
+      const refundableQuantity = orderItem.quantity - alreadyRefunded;
+
+      if (quantity > refundableQuantity) {
+        throw new BadRequestException(
+          `Solo quedan ${refundableQuantity} unidades reembolsables del item ${orderItem.id}`,
+        );
+      }
+
+      return {
+        orderItemId: orderItem.id,
+        quantity,
+        amount: roundAmount(
+          Number(orderItem.price) * quantity * discountFactor,
+        ),
+      };
+    });
+  }
+}
@@ -2,6 +2,8 @@ import {
   Injectable,
   NotFoundException,
   BadRequestException,
+  Inject,
+  forwardRef,
 } from '@nestjs/common';
 import { PrismaService } from '../../prisma/prisma.service.js';
 import { CreatePaymentTransactionDto } from '../dto/create-payment-transaction.dto.js';
@@ -9,14 +11,25 @@ import {
   PaymentStatus,
   OrderStatus,
   PaymentProvider,
+  OrderStatusActor,
+  PaymentStatusSource,
 } from '../../generated/enums.js';
-import { MercadoPagoProvider } from '../providers/mercadopago.provider.js';
+import type { PaymentMethod } from '../../generated/client.js';
+import { PaymentProviderRegistry } from '../providers/payment-provider.registry.js';
+import type { ProviderCharge } from '../interfaces/payment-provider.interface.js';
 import {
   calculateCartTotal,
   validateAddress,
   clearCart,
-  calculateFinalPrice,
 } from '../helpers/cart.helper.js';
+import { OrdersService } from '../../orders/orders.service.js';
+import { isCardExpired } from '../../payment-methods/helpers/card-expiration.helper.js';
+import { assertCartUnchanged } from '../../cart/helpers/cart-changes.helper.js';
+import { PaymentOrderService } from './payment-order.service.js';
+import {
+  PaymentInstallmentService,
+  type InstallmentSelection,
+} from './payment-installment.service.js';
 import type * as runtime from '@prisma/client/runtime/client';
 
 /**
@@ -27,15 +40,29 @@ import type * as runtime from '@prisma/client/runtime/client';
 export class PaymentTransactionService {
   constructor(
     private prisma: PrismaService,
-    private mercadopagoProvider: MercadoPagoProvider,
+    private providerRegistry: PaymentProviderRegistry,
+    @Inject(forwardRef(() => OrdersService))
+    private ordersService: OrdersService,
+    private paymentOrderService: PaymentOrderService,
+    private installmentService: PaymentInstallmentService,
   ) {}
 
   /**
    * Crea una transacción de pago.
    * Si tiene orderId, crea para una orden existente.
    * Si no tiene orderId, crea una transacción sin orden.
+   * Si paymentMethodId es una tarjeta guardada, se cobra en el momento.
    */
   async create(userId: string, dto: CreatePaymentTransactionDto) {
+    if (dto.paymentMethodId) {
+      const savedCard = await this.prisma.paymentMethod.findFirst({
+        where: { id: dto.paymentMethodId, userId },
+      });
+      if (savedCard) {
+        return this.createWithSavedCard(userId, dto, savedCard);
+      }
+    }
+
     if (dto.orderId) {
       return this.createForExistingOrder(userId, dto);
     }
@@ -68,15 +95,26 @@ export class PaymentTransactionService {
       throw new NotFoundException('Orden no encontrada');
     }
 
+    const installments = await this.installmentService.resolveSelection(
+      dto.paymentProvider || PaymentProvider.PAYPHONE,
+      Number(order.total),
+      order.items.map((item) => item.productId),
+      dto.installments,
+    );
+
     const transaction = await this.prisma.paymentTransaction.create({
       data: {
         orderId: dto.orderId,
         userId,
         clientTransactionId: dto.clientTransactionId,
         amount: order.total,
+        taxAmount: order.taxAmount,
+        taxableAmount: order.taxableAmount,
         status: PaymentStatus.pending,
         paymentProvider: (dto.paymentProvider ||
           PaymentProvider.PAYPHONE) as any,
+        installments: installments.installments,
+        installmentPlanId: installments.installmentPlanId,
       },
       include: {
         order: {
@@ -95,8 +133,136 @@ export class PaymentTransactionService {
     return transaction;
   }
 
+  /**
+   * Crea la transacción y la cobra con una tarjeta guardada, sin redirección.
+   * Sin orderId, la orden se crea desde el carrito antes de cobrar; si el
+   * cobro falla queda pendiente para reintentar el pago.
+   */
+  private async createWithSavedCard(
+    userId: string,
+    dto: CreatePaymentTransactionDto,
+    paymentMethod: PaymentMethod,
+  ) {
+    if (
+      isCardExpired(paymentMethod.expirationMonth, paymentMethod.expirationYear)
+    ) {
+      throw new BadRequestException(
+        'La tarjeta guardada está vencida. Agrega una nueva tarjeta para pagar.',
+      );
+    }
+
+    const provider = this.providerRegistry.require(
+      paymentMethod.provider,
+      'savedCards',
+    );
+
+    let amounts: { total: number; tax: number; taxableAmount: number };
+    let productIds: string[];
+    if (dto.orderId) {
+      const order = await this.prisma.order.findFirst({
+        where: { id: dto.orderId, userId, status: OrderStatus.pending },
+        include: { items: { select: { productId: true } } },
+      });
+
+      if (!order) {
+        throw new NotFoundException(
+          'Orden no encontrada o no está en estado pendiente',
+        );
+      }
+
+      amounts = {
+        total: Number(order.total),
+        tax: Number(order.taxAmount),
+        taxableAmount: Number(order.taxableAmount),
+      };
+      productIds = order.items.map((item) => item.productId);
+    } else {
+      if (!dto.addressId) {
+        throw new BadRequestException('addressId es requerido');
+      }
+
+      await validateAddress(this.prisma, dto.addressId, userId);
+      await assertCartUnchanged(this.prisma, userId);
+      const cartTotal = await calculateCartTotal(
+        this.prisma,
+        userId,
+        dto.addressId,
+      );
+      amounts = cartTotal;
+      productIds = cartTotal.items.map((item) => item.productId);
+    }
+
+    const installments = await this.installmentService.resolveSelection(
+      paymentMethod.provider,
+      amounts.total,
+      productIds,
+      dto.installments,
+    );
+
+    const transaction = await this.prisma.paymentTransaction.create({
+      data: {
+        userId,
+        orderId: dto.orderId ?? null,
+        clientTransactionId: dto.clientTransactionId,
+        amount: amounts.total,
+        taxAmount: amounts.tax,
+        taxableAmount: amounts.taxableAmount,
+        status: PaymentStatus.pending,
+        paymentProvider: paymentMethod.provider,
+        addressId: dto.addressId || null,
+        paymentMethodId: paymentMethod.id,
+        installments: installments.installments,
+        installmentPlanId: installments.installmentPlanId,
+      },
+    });
+
+    // Completar el pago requiere una orden: se crea desde el carrito
+    if (!transaction.orderId) {
+      await this.paymentOrderService.createOrderFromTransaction(
+        transaction.clientTransactionId,
+        OrderStatus.pending,
+      );
+    }
+
+    const result = await provider.chargeSavedCard({
+      amount: amounts.total,
+      clientTransactionId: transaction.clientTransactionId,
+      customerId: paymentMethod.providerCustomerId,
+      cardId: paymentMethod.providerCardId,
+      cardToken: dto.cardToken,
+      installments: installments.installments,
+    });
+
+    if (result.charge) {
+      await this.saveCharge(transaction.clientTransactionId, result.charge);
+    }
+
+    if (result.status !== 'pending') {
+      await this.paymentOrderService.updatePaymentStatus(
+        transaction.clientTransactionId,
+        result.status === 'completed'
+          ? PaymentStatus.completed
+          : PaymentStatus.failed,
+        {
+          source: PaymentStatusSource.provider,
+          note: `Cobro con tarjeta guardada ${paymentMethod.cardBrand} ****${paymentMethod.last4Digits} en ${provider.displayName}`,
+        },
+        result.data,
+      );
+    } else if (result.data) {
+      await this.prisma.paymentTransaction.update({
+        where: { id: transaction.id },
+        data: { payphoneData: result.data as runtime.InputJsonValue },
+      });
+    }
+
+    return this.getByClientTransactionId(transaction.clientTransactionId);
+  }
+
   /**
    * Crea una transacción sin orden asociada.
+   *
+   * @throws ConflictException si el carrito tiene cambios sin aceptar
    */
   async createWithoutOrder(userId: string, dto: CreatePaymentTransactionDto) {
     if (!dto.addressId) {
@@ -104,9 +270,10 @@ export class PaymentTransactionService {
     }
 
     const provider = dto.paymentProvider || PaymentProvider.PAYPHONE;
+    const { capabilities } = this.providerRegistry.get(provider);
     if (
-      provider !== PaymentProvider.PAYPHONE &&
-      provider !== PaymentProvider.MERCADOPAGO &&
+      !capabilities.redirect &&
+      !capabilities.paymentLinks &&
       !dto.paymentMethodId
     ) {
       throw new BadRequestException(
@@ -115,31 +282,47 @@ export class PaymentTransactionService {
     }
 
     await validateAddress(this.prisma, dto.addressId, userId);
-    const { total } = await calculateCartTotal(this.prisma, userId);
+    await assertCartUnchanged(this.prisma, userId);
+    const { total, tax, taxableAmount, items } = await calculateCartTotal(
+      this.prisma,
+      userId,
+      dto.addressId,
+    );
+    const installments = await this.installmentService.resolveSelection(
+      provider,
+      total,
+      items.map((item) => item.productId),
+      dto.installments,
+    );
 
     const transaction = await this.prisma.paymentTransaction.create({
       data: {
         userId,
         clientTransactionId: dto.clientTransactionId,
         amount: total,
+        taxAmount: tax,
+        taxableAmount,
         status: PaymentStatus.pending,
         paymentProvider: (dto.paymentProvider ||
           PaymentProvider.PAYPHONE) as any,
         addressId: dto.addressId || null,
         paymentMethodId: dto.paymentMethodId || null,
+        installments: installments.installments,
+        installmentPlanId: installments.installmentPlanId,
       },
       include: {
         user: true,
       },
     });
 
-    if (provider === PaymentProvider.MERCADOPAGO) {
-      const result = await this.mercadopagoProvider.processPayment(
-        total,
-        dto.clientTransactionId,
-        { reference: 'Compra en Mercado Copado' },
-      );
-      return { ...transaction, preferenceId: result.paymentId };
+    const checkout = await this.startRedirectCheckout(
+      provider,
+      total,
+      dto.clientTransactionId,
+      installments,
+    );
+    if (checkout) {
+      return { ...transaction, preferenceId: checkout.preferenceId };
     }
 
     return transaction;
@@ -147,64 +330,42 @@ export class PaymentTransactionService {
 
   /**
    * Crea una transacción y una orden juntas (para pagos por link).
+   *
+   * @throws ConflictException si el carrito tiene cambios sin aceptar
    */
   async createWithOrder(userId: string, dto: CreatePaymentTransactionDto) {
     if (!dto.addressId) {
       throw new BadRequestException('addressId es requerido');
     }
 
-    await validateAddress(this.prisma, dto.addressId, userId);
-
-    const cartItems = await this.prisma.cartItem.findMany({
-      where: { userId },
-      include: { product: true },
-    });
-
-    if (cartItems.length === 0) {
-      throw new BadRequestException('El carrito está vacío');
-    }
-
-    let total = 0;
-    const orderItems = cartItems.map((item) => {
-      const finalPrice = calculateFinalPrice(
-        item.product.price,
-        item.product.discount,
-      );
-      total += finalPrice * item.quantity;
+    const provider = dto.paymentProvider || PaymentProvider.PAYPHONE;
+    this.providerRegistry.get(provider);
 
-      return {
-        productId: item.productId,
-        quantity: item.quantity,
-        price: finalPrice,
-      };
-    });
+    await validateAddress(this.prisma, dto.addressId, userId);
 
-    const order = await this.prisma.order.create({
-      data: {
-        userId,
-        addressId: dto.addressId,
-        total,
-        status: OrderStatus.pending,
-        items: {
-          create: orderItems,
-        },
-      },
-      include: {
-        address: true,
-        items: {
-          include: {
-            product: {
-              include: {
-                images: {
-                  orderBy: { order: 'asc' },
-                  take: 1,
-                },
-              },
-            },
-          },
-        },
-      },
-    });
+    // Los cambios de precio o stock desde que se agregaron los productos
+    // deben aceptarse antes de pagar (ver CartService.acknowledgeChanges)
+    await assertCartUnchanged(this.prisma, userId);
+
+    const cartTotal = await calculateCartTotal(
+      this.prisma,
+      userId,
+      dto.addressId,
+    );
+    const { total, items: orderItems } = cartTotal;
+    const installments = await this.installmentService.resolveSelection(
+      provider,
+      total,
+      orderItems.map((item) => item.productId),
+      dto.installments,
+    );
+
+    const order = await this.ordersService.createFromCart(
+      userId,
+      dto.addressId,
+      OrderStatus.pending,
+      cartTotal,
+    );
 
     const transaction = await this.prisma.paymentTransaction.create({
       data: {
@@ -212,11 +373,15 @@ export class PaymentTransactionService {
         orderId: order.id,
         clientTransactionId: dto.clientTransactionId,
         amount: total,
+        taxAmount: cartTotal.tax,
+        taxableAmount: cartTotal.taxableAmount,
         status: PaymentStatus.pending,
         paymentProvider: (dto.paymentProvider ||
           PaymentProvider.PAYPHONE) as any,
         addressId: dto.addressId || null,
         paymentMethodId: dto.paymentMethodId || null,
+        installments: installments.installments,
+        installmentPlanId: installments.installmentPlanId,
         ...(dto.payphoneData
           ? {
               payphoneData: dto.payphoneData as runtime.InputJsonValue,
@@ -229,33 +394,55 @@ export class PaymentTransactionService {
       },
     });
 
-    const provider = dto.paymentProvider || PaymentProvider.PAYPHONE;
-
-    if (provider === PaymentProvider.MERCADOPAGO) {
-      const result = await this.mercadopagoProvider.processPayment(
+    let checkout: Awaited<ReturnType<typeof this.startRedirectCheckout>>;
+    try {
+      checkout = await this.startRedirectCheckout(
+        provider,
         total,
         dto.clientTransactionId,
-        { reference: 'Compra en Mercado Copado' },
+        installments,
       );
-
-      if (!dto.orderId) {
-        await clearCart(this.prisma, userId);
-      }
-
-      return {
-        transaction,
-        order,
-        preferenceId: result.paymentId,
-        initPoint:
-          (result.paymentData?.initPoint as string) || result.redirectUrl,
-      };
+    } catch (error) {
+      await this.cancelUnpayableOrder(order.id, dto.clientTransactionId);
+      throw error;
     }
 
     if (!dto.orderId) {
       await clearCart(this.prisma, userId);
     }
 
-    return { transaction, order };
+    return checkout
+      ? { transaction, order, ...checkout }
+      : { transaction, order };
+  }
+
+  /**
+   * Cancela la orden recién creada cuyo checkout no pudo iniciarse: la
+   * transacción queda fallida y la cancelación devuelve el stock reservado
+   * y el uso del cupón. El carrito se conserva para reintentar la compra.
+   */
+  private async cancelUnpayableOrder(
+    orderId: string,
+    clientTransactionId: string,
+  ) {
+    const note = 'No se pudo iniciar el checkout del proveedor de pago';
+
+    try {
+      await this.paymentOrderService.updatePaymentStatus(
+        clientTransactionId,
+        PaymentStatus.failed,
+        { source: PaymentStatusSource.system, note },
+      );
+      await this.ordersService.updateStatus(orderId, OrderStatus.cancelled, {
+        actor: OrderStatusActor.system,
+        note,
+      });
+    } catch (error) {
+      console.error(
+        `[PaymentTransactionService] Error al cancelar la orden ${orderId} sin checkout:`,
+        error,
+      );
+    }
   }
 
   /**
@@ -357,13 +544,17 @@ export class PaymentTransactionService {
     paymentProvider: PaymentProvider = PaymentProvider.PAYPHONE,
     paymentMethodId?: string,
     payphoneData?: Record<string, unknown>,
+    installmentCount?: number,
   ) {
+    this.providerRegistry.get(paymentProvider);
+
     const order = await this.prisma.order.findFirst({
       where: {
         id: orderId,
         userId,
         status: OrderStatus.pending,
       },
+      include: { items: { select: { productId: true } } },
     });
 
     if (!order) {
@@ -372,6 +563,13 @@ export class PaymentTransactionService {
       );
     }
 
+    const installments = await this.installmentService.resolveSelection(
+      paymentProvider,
+      Number(order.total),
+      order.items.map((item) => item.productId),
+      installmentCount,
+    );
+
     await this.prisma.paymentTransaction.deleteMany({
       where: {
         orderId,
@@ -393,6 +591,8 @@ export class PaymentTransactionService {
         orderId,
         clientTransactionId: newClientTransactionId,
         amount: Number(order.total),
+        taxAmount: order.taxAmount,
+        taxableAmount: order.taxableAmount,
         status: PaymentStatus.pending,
         paymentProvider: paymentProvider as any,
         addressId: order.addressId,
@@ -402,6 +602,8 @@ export class PaymentTransactionService {
           paymentMethodId !== 'payphone-default'
             ? paymentMethodId
             : null,
+        installments: installments.installments,
+        installmentPlanId: installments.installmentPlanId,
         ...(finalPayphoneData
           ? {
               payphoneData: finalPayphoneData,
@@ -410,23 +612,96 @@ export class PaymentTransactionService {
       },
     });
 
-    // Para Mercado Pago, generar la preferencia con el init_point
-    if (paymentProvider === PaymentProvider.MERCADOPAGO) {
-      const result = await this.mercadopagoProvider.processPayment(
-        Number(order.total),
-        newClientTransactionId,
-        { reference: 'Compra en Mercado Copado' },
-      );
+    // Para checkouts con redirección (ej: Mercado Pago), generar el cobro con el init_point
+    const checkout = await this.startRedirectCheckout(
+      paymentProvider,
+      Number(order.total),
+      newClientTransactionId,
+      installments,
+    );
 
-      return {
-        transaction,
-        preferenceId: result.paymentId,
-        initPoint:
-          (result.paymentData?.initPoint as string) || result.redirectUrl,
-      };
+    return checkout ? { transaction, ...checkout } : transaction;
+  }
+
+  /**
+   * Crea el cobro en los proveedores con checkout alojado (capacidad redirect).
+   * Las cuotas elegidas y el máximo disponible se envían al proveedor.
+   * Devuelve null para los proveedores que no lo necesitan.
+   */
+  private async startRedirectCheckout(
+    paymentProvider: PaymentProvider,
+    amount: number,
+    clientTransactionId: string,
+    installments: InstallmentSelection,
+  ) {
+    if (!this.providerRegistry.supports(paymentProvider, 'redirect')) {
+      return null;
     }
 
-    return transaction;
+    const result = await this.providerRegistry
+      .require(paymentProvider, 'redirect')
+      .processPayment(amount, clientTransactionId, {
+        reference: 'Compra en Mercado Copado',
+        installments: installments.installments,
+        maxInstallments: installments.maxInstallments,
+      });
+
+    if (result.charge) {
+      await this.saveCharge(clientTransactionId, result.charge);
+    }
+    if (result.paymentData) {
+      await this.saveCheckoutData(clientTransactionId, result.paymentData);
+    }
+
+    return {
+      preferenceId: result.paymentId,
+      initPoint:
+        (result.paymentData?.initPoint as string) || result.redirectUrl,
+    };
+  }
+
+  /**
+   * Guarda la moneda, el monto y la tasa con que el proveedor realiza el
+   * cobro, para poder auditar los cobros en otra moneda.
+   */
+  private async saveCharge(
+    clientTransactionId: string,
+    charge: ProviderCharge,
+  ) {
+    await this.prisma.paymentTransaction.update({
+      where: { clientTransactionId },
+      data: {
+        chargedCurrency: charge.currency,
+        chargedAmount: charge.amount,
+        exchangeRate: charge.exchangeRate,
+        exchangeRateId: charge.exchangeRateId,
+      },
+    });
+  }
+
+  /**
+   * Guarda los datos del checkout del proveedor (link y vencimiento) en la
+   * transacción, para volver a ofrecer el link en los recordatorios de pago.
+   */
+  private async saveCheckoutData(
+    clientTransactionId: string,
+    paymentData: Record<string, unknown>,
+  ) {
+    const transaction = await this.prisma.paymentTransaction.findUnique({
+      where: { clientTransactionId },
+      select: { payphoneData: true },
+    });
+
+    await this.prisma.paymentTransaction.update({
+      where: { clientTransactionId },
+      data: {
+        payphoneData: {
+          ...((transaction?.payphoneData as Record<string, unknown> | null) ??
+            {}),
+          ...paymentData,
+        } as runtime.InputJsonValue,
+      },
+    });
   }
 
   /**
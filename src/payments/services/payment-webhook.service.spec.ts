@@ -0,0 +1,305 @@
+import { createHmac } from 'crypto';
+import { Test } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { HttpService } from '@nestjs/axios';
+import { UnauthorizedException } from '@nestjs/common';
+import { of, type Observable } from 'rxjs';
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { PaymentWebhookService } from './payment-webhook.service.js';
+import { PaymentOrderService } from './payment-order.service.js';
+import { PaymentRefundService } from './payment-refund.service.js';
+import { PaymentProviderRegistry } from '../providers/payment-provider.registry.js';
+import { StripeProvider } from '../providers/stripe.provider.js';
+import { PAYMENT_PROVIDERS } from '../interfaces/payment-provider.interface.js';
+import { PrismaService } from '../../prisma/prisma.service.js';
+import { OrdersService } from '../../orders/orders.service.js';
+import { OrderNotificationService } from '../../orders/services/order-notification.service.js';
+import {
+  OrderStatus,
+  OrderStatusActor,
+  PaymentProvider,
+  PaymentStatus,
+  PaymentStatusSource,
+  WebhookEventStatus,
+} from '../../generated/enums.js';
+
+const WEBHOOK_SECRET = 'whsec_test_secret';
+
+/**
+ * Evento checkout.session.completed tal como lo envía Stripe.
+ */
+const stripeEvent = {
+  id: 'evt_1',
+  type: 'checkout.session.completed',
+  data: { object: { id: 'cs_test_1' } },
+};
+
+describe('PaymentWebhookService (Stripe checkout.session.completed)', () => {
+  let service: PaymentWebhookService;
+  let session: Record<string, unknown>;
+  let transaction: {
+    id: string;
+    clientTransactionId: string;
+    orderId: string;
+    status: PaymentStatus;
+    paymentProvider: PaymentProvider;
+    amount: number;
+    installments: number;
+    payphoneData: Record<string, unknown> | null;
+  };
+  let webhookEvent: Record<string, unknown> | null;
+
+  const order = {
+    id: 'order-1',
+    status: OrderStatus.pending,
+    total: 100,
+    user: { email: 'cliente@example.com', firstName: 'Ana' },
+    items: [],
+  };
+
+  const ordersService = {
+    updateStatus: jest.fn<(...args: unknown[]) => Promise<void>>(() =>
+      Promise.resolve(),
+    ),
+  };
+  const orderNotificationService = {
+    sendOrderConfirmationEmail: jest.fn(() => Promise.resolve()),
+  };
+  const httpService = {
+    get: jest.fn<(...args: unknown[]) => Observable<{ data: unknown }>>(() =>
+      of({ data: session }),
+    ),
+  };
+  const config: Record<string, string> = {
+    STRIPE_SECRET_KEY: 'sk_test',
+    STRIPE_WEBHOOK_SECRET: WEBHOOK_SECRET,
+  };
+
+  const prisma = {
+    $transaction: jest.fn((fn: (tx: unknown) => Promise<unknown>) =>
+      fn(prisma),
+    ),
+    webhookEvent: {
+      findUnique: jest.fn(() => Promise.resolve(webhookEvent)),
+      create: jest.fn(({ data }: { data: Record<string, unknown> }) => {
+        webhookEvent = {
+          id: 'event-1',
+          status: WebhookEventStatus.received,
+          ...data,
+        };
+        return Promise.resolve(webhookEvent);
+      }),
+      update: jest.fn(({ data }: { data: Record<string, unknown> }) => {
+        webhookEvent = { ...webhookEvent, ...data };
+        return Promise.resolve(webhookEvent);
+      }),
+    },
+    paymentTransaction: {
+      findUnique: jest.fn(() => Promise.resolve({ ...transaction, order })),
+      findUniqueOrThrow: jest.fn(() =>
+        Promise.resolve({ ...transaction, order }),
+      ),
+      update: jest.fn(({ data }: { data: Record<string, unknown> }) => {
+        Object.assign(transaction, data);
+        return Promise.resolve({ ...transaction, order });
+      }),
+      updateMany: jest.fn(
+        ({
+          where,
+          data,
+        }: {
+          where: { status: PaymentStatus };
+          data: Record<string, unknown>;
+        }) => {
+          if (transaction.status !== where.status) {
+            return Promise.resolve({ count: 0 });
+          }
+          Object.assign(transaction, data);
+          return Promise.resolve({ count: 1 });
+        },
+      ),
+    },
+    paymentStatusChange: {
+      create: jest.fn<(...args: unknown[]) => Promise<object>>(() =>
+        Promise.resolve({}),
+      ),
+    },
+    order: {
+      findUnique: jest.fn(() => Promise.resolve(order)),
+    },
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    webhookEvent = null;
+    session = {
+      id: 'cs_test_1',
+      status: 'complete',
+      payment_status: 'paid',
+      client_reference_id: 'client-tx-1',
+      amount_total: 10000,
+      payment_intent: 'pi_test_1',
+    };
+    transaction = {
+      id: 'transaction-1',
+      clientTransactionId: 'client-tx-1',
+      orderId: order.id,
+      status: PaymentStatus.pending,
+      paymentProvider: PaymentProvider.STRIPE,
+      amount: 100,
+      installments: 1,
+      payphoneData: { sessionId: 'cs_test_1' },
+    };
+
+    const module = await Test.createTestingModule({
+      providers: [
+        PaymentWebhookService,
+        PaymentOrderService,
+        PaymentProviderRegistry,
+        StripeProvider,
+        {
+          provide: PAYMENT_PROVIDERS,
+          useFactory: (stripe: StripeProvider) => [stripe],
+          inject: [StripeProvider],
+        },
+        {
+          provide: ConfigService,
+          useValue: { get: (key: string) => config[key] },
+        },
+        { provide: HttpService, useValue: httpService },
+        { provide: PrismaService, useValue: prisma },
+        { provide: OrdersService, useValue: ordersService },
+        {
+          provide: OrderNotificationService,
+          useValue: orderNotificationService,
+        },
+        { provide: PaymentRefundService, useValue: {} },
+      ],
+    }).compile();
+
+    service = module.get(PaymentWebhookService);
+  });
+
+  it('valida la firma del evento sobre el cuerpo sin parsear', () => {
+    const rawBody = Buffer.from(JSON.stringify(stripeEvent));
+    const timestamp = Math.floor(Date.now() / 1000);
+    const hash = createHmac('sha256', WEBHOOK_SECRET)
+      .update(`${timestamp}.`)
+      .update(rawBody)
+      .digest('hex');
+
+    expect(() =>
+      service.assertValidWebhookSignature(PaymentProvider.STRIPE, {
+        headers: { 'stripe-signature': `t=${timestamp},v1=${hash}` },
+        resourceId: 'cs_test_1',
+        rawBody,
+      }),
+    ).not.toThrow();
+    expect(() =>
+      service.assertValidWebhookSignature(PaymentProvider.STRIPE, {
+        headers: { 'stripe-signature': `t=${timestamp},v1=${hash}` },
+        resourceId: 'cs_test_1',
+        rawBody: Buffer.from('{}'),
+      }),
+    ).toThrow(UnauthorizedException);
+  });
+
+  it('completa la transacción y pasa la orden a processing', async () => {
+    await service.receiveWebhook(PaymentProvider.STRIPE, {
+      eventId: stripeEvent.id,
+      type: stripeEvent.type,
+      resourceId: 'cs_test_1',
+      payload: stripeEvent,
+    });
+
+    expect(httpService.get).toHaveBeenCalledWith(
+      'https://api.stripe.com/v1/checkout/sessions/cs_test_1',
+      expect.anything(),
+    );
+    expect(transaction.status).toBe(PaymentStatus.completed);
+    expect(transaction.payphoneData).toMatchObject({
+      sessionId: 'cs_test_1',
+      stripeSessionId: 'cs_test_1',
+      stripePaymentIntentId: 'pi_test_1',
+    });
+    expect(prisma.paymentStatusChange.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        previousStatus: PaymentStatus.pending,
+        newStatus: PaymentStatus.completed,
+        source: PaymentStatusSource.webhook,
+      }),
+    });
+    expect(ordersService.updateStatus).toHaveBeenCalledWith(
+      order.id,
+      OrderStatus.processing,
+      expect.objectContaining({ actor: OrderStatusActor.system }),
+    );
+    expect(
+      orderNotificationService.sendOrderConfirmationEmail,
+    ).toHaveBeenCalledTimes(1);
+    expect(webhookEvent?.status).toBe(WebhookEventStatus.processed);
+  });
+
+  it('no vuelve a procesar una entrega duplicada del evento', async () => {
+    webhookEvent = {
+      id: 'event-1',
+      provider: PaymentProvider.STRIPE,
+      eventId: stripeEvent.id,
+      status: WebhookEventStatus.processed,
+    };
+
+    await service.receiveWebhook(PaymentProvider.STRIPE, {
+      eventId: stripeEvent.id,
+      type: stripeEvent.type,
+      resourceId: 'cs_test_1',
+      payload: stripeEvent,
+    });
+
+    expect(httpService.get).not.toHaveBeenCalled();
+    expect(ordersService.updateStatus).not.toHaveBeenCalled();
+  });
+
+  it('ignora el evento de una transacción ya completada', async () => {
+    transaction.status = PaymentStatus.completed;
+
+    await service.receiveWebhook(PaymentProvider.STRIPE, {
+      eventId: stripeEvent.id,
+      type: stripeEvent.type,
+      resourceId: 'cs_test_1',
+      payload: stripeEvent,
+    });
+
+    expect(prisma.paymentTransaction.updateMany).not.toHaveBeenCalled();
+    expect(ordersService.updateStatus).not.toHaveBeenCalled();
+    expect(webhookEvent?.status).toBe(WebhookEventStatus.processed);
+  });
+
+  it('no completa la transacción si el monto cobrado no coincide', async () => {
+    session = { ...session, amount_total: 100 };
+
+    await service.receiveWebhook(PaymentProvider.STRIPE, {
+      eventId: stripeEvent.id,
+      type: stripeEvent.type,
+      resourceId: 'cs_test_1',
+      payload: stripeEvent,
+    });
+
+    expect(transaction.status).toBe(PaymentStatus.pending);
+    expect(ordersService.updateStatus).not.toHaveBeenCalled();
+  });
+
+  it('no cambia la orden si la sesión todavía no está pagada', async () => {
+    session = { ...session, status: 'open', payment_status: 'unpaid' };
+
+    await service.receiveWebhook(PaymentProvider.STRIPE, {
+      eventId: stripeEvent.id,
+      type: stripeEvent.type,
+      resourceId: 'cs_test_1',
+      payload: stripeEvent,
+    });
+
+    expect(transaction.status).toBe(PaymentStatus.pending);
+    expect(ordersService.updateStatus).not.toHaveBeenCalled();
+    expect(webhookEvent?.status).toBe(WebhookEventStatus.processed);
+  });
+});
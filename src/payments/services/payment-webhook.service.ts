@@ -1,18 +1,56 @@
-import { Injectable } from '@nestjs/common';
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  UnauthorizedException,
+} from '@nestjs/common';
 import { PrismaService } from '../../prisma/prisma.service.js';
-import { PaymentStatus } from '../../generated/enums.js';
-import { MercadoPagoProvider } from '../providers/mercadopago.provider.js';
+import {
+  PaymentProvider,
+  PaymentStatus,
+  PaymentStatusSource,
+  WebhookEventStatus,
+} from '../../generated/enums.js';
+import {
+  Prisma,
+  type PaymentTransaction,
+  type WebhookEvent,
+} from '../../generated/client.js';
+import { PaymentProviderRegistry } from '../providers/payment-provider.registry.js';
+import type { WebhookSignatureParams } from '../interfaces/payment-provider.interface.js';
 import { PaymentOrderService } from './payment-order.service.js';
+import { createPaginationResponse } from '../../common/helpers/pagination.helper.js';
 
 /**
- * Resultado de la verificación de un pago de Mercado Pago.
+ * Resultado de la verificación de un pago con el proveedor.
  */
-export interface MercadoPagoVerificationResult {
+export interface PaymentVerificationResult {
   status: string;
   updated: boolean;
   message?: string;
 }
 
+/**
+ * Estados de una transacción cuyo pago ya fue confirmado.
+ */
+const PROCESSED_PAYMENT_STATUSES: PaymentStatus[] = [
+  PaymentStatus.completed,
+  PaymentStatus.refunded,
+  PaymentStatus.partially_refunded,
+];
+
+/**
+ * Notificación recibida en el webhook de un proveedor.
+ */
+export interface WebhookNotification {
+  /** ID de la notificación en el proveedor; se repite en los reintentos */
+  eventId: string;
+  type: string;
+  /** ID del recurso notificado (ej: data.id del pago en Mercado Pago) */
+  resourceId: string;
+  payload: Record<string, unknown>;
+}
+
 /**
  * Servicio especializado en manejo de webhooks de proveedores de pago.
  * Responsabilidad única: procesar notificaciones de webhooks.
@@ -21,97 +59,360 @@ export interface MercadoPagoVerificationResult {
 export class PaymentWebhookService {
   constructor(
     private prisma: PrismaService,
-    private mercadopagoProvider: MercadoPagoProvider,
+    private providerRegistry: PaymentProviderRegistry,
     private paymentOrderService: PaymentOrderService,
   ) {}
 
   /**
-   * Procesa el webhook de Mercado Pago (payment.updated).
-   * Obtiene el pago desde MP, busca la transacción por external_reference y,
-   * si status===approved, actualiza transacción a completed y orden a processing.
-   * Siempre debe responderse 200 para acusar recibo (el controller captura errores).
+   * Valida la firma de un webhook con el proveedor que lo envía.
+   * Lanza UnauthorizedException si la firma no es válida.
+   */
+  assertValidWebhookSignature(
+    provider: PaymentProvider,
+    params: WebhookSignatureParams,
+  ): void {
+    const isValid = this.providerRegistry
+      .require(provider, 'webhooks')
+      .verifyWebhookSignature(params);
+
+    if (!isValid) {
+      throw new UnauthorizedException('Firma de webhook inválida');
+    }
+  }
+
+  /**
+   * Registra una notificación de webhook y la procesa.
+   * Las entregas duplicadas (mismo eventId) no se vuelven a procesar, salvo
+   * que el procesamiento anterior haya fallado.
+   */
+  async receiveWebhook(
+    provider: PaymentProvider,
+    notification: WebhookNotification,
+  ): Promise<void> {
+    const existing = await this.prisma.webhookEvent.findUnique({
+      where: {
+        provider_eventId: {
+          provider,
+          eventId: notification.eventId,
+        },
+      },
+    });
+
+    let event: WebhookEvent;
+
+    if (existing) {
+      if (existing.status !== WebhookEventStatus.failed) {
+        return;
+      }
+
+      // Reclamar el reintento para que dos entregas simultáneas no lo procesen dos veces
+      const claimed = await this.prisma.webhookEvent.updateMany({
+        where: { id: existing.id, status: WebhookEventStatus.failed },
+        data: { status: WebhookEventStatus.received },
+      });
+
+      if (claimed.count === 0) {
+        return;
+      }
+
+      event = existing;
+    } else {
+      try {
+        event = await this.prisma.webhookEvent.create({
+          data: {
+            provider,
+            eventId: notification.eventId,
+            type: notification.type,
+            resourceId: notification.resourceId,
+            payload: notification.payload as Prisma.InputJsonValue,
+          },
+        });
+      } catch (error) {
+        // Otra entrega del mismo evento ya lo registró
+        if (
+          error instanceof Prisma.PrismaClientKnownRequestError &&
+          error.code === 'P2002'
+        ) {
+          return;
+        }
+        throw error;
+      }
+    }
+
+    await this.processEvent(event);
+  }
+
+  /**
+   * Eventos de webhook registrados (paginados), para auditoría.
+   */
+  async findWebhookEvents(
+    status?: WebhookEventStatus,
+    page: number = 1,
+    limit: number = 20,
+  ) {
+    const where = status ? { status } : {};
+    const skip = (page - 1) * limit;
+
+    const [events, total] = await Promise.all([
+      this.prisma.webhookEvent.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip,
+        take: limit,
+      }),
+      this.prisma.webhookEvent.count({ where }),
+    ]);
+
+    return createPaginationResponse(events, total, page, limit);
+  }
+
+  /**
+   * Vuelve a procesar un evento registrado, sin importar su estado.
+   * El procesamiento es idempotente: un pago ya completado no se modifica.
+   */
+  async replayWebhookEvent(id: string) {
+    const event = await this.prisma.webhookEvent.findUnique({
+      where: { id },
+    });
+
+    if (!event) {
+      throw new NotFoundException(
+        `Evento de webhook con id ${id} no encontrado`,
+      );
+    }
+
+    try {
+      await this.processEvent(event);
+    } catch (error) {
+      throw new BadRequestException(
+        `Error al reprocesar el evento: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+
+    return {
+      message: 'Evento reprocesado exitosamente',
+      data: await this.prisma.webhookEvent.findUnique({ where: { id } }),
+    };
+  }
+
+  /**
+   * Procesa un evento y registra el resultado (processed o failed).
+   */
+  private async processEvent(event: WebhookEvent): Promise<void> {
+    try {
+      await this.handleWebhookEvent(event.provider, event.resourceId);
+
+      await this.prisma.webhookEvent.update({
+        where: { id: event.id },
+        data: {
+          status: WebhookEventStatus.processed,
+          attempts: { increment: 1 },
+          lastError: null,
+          processedAt: new Date(),
+        },
+      });
+    } catch (error) {
+      await this.prisma.webhookEvent.update({
+        where: { id: event.id },
+        data: {
+          status: WebhookEventStatus.failed,
+          attempts: { increment: 1 },
+          lastError: error instanceof Error ? error.message : String(error),
+        },
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Consulta en el proveedor el pago notificado y, si fue aprobado, completa
+   * la transacción. Los rechazos no se aplican: el cliente puede reintentar
+   * el pago en el mismo checkout. Las transacciones ya procesadas y los
+   * pagos que no corresponden a la transacción se ignoran.
    */
-  async handleMercadoPagoWebhook(dataId: string): Promise<void> {
-    // TODO: validar x-signature según doc MP (ts, v1, plantilla id:...;request-id:...;ts:...)
-    const { status, external_reference } =
-      await this.mercadopagoProvider.getPayment(dataId);
+  private async handleWebhookEvent(
+    code: PaymentProvider,
+    resourceId: string,
+  ): Promise<void> {
+    const provider = this.providerRegistry.require(code, 'webhooks');
+    const result = await provider.handleWebhook(resourceId);
 
-    if (!external_reference) return;
+    if (!result) return;
 
     const transaction = await this.prisma.paymentTransaction.findUnique({
-      where: { clientTransactionId: external_reference },
+      where: { clientTransactionId: result.clientTransactionId },
     });
 
-    if (!transaction) return;
+    if (
+      !transaction ||
+      transaction.paymentProvider !== code ||
+      PROCESSED_PAYMENT_STATUSES.includes(transaction.status)
+    ) {
+      return;
+    }
 
-    if (status === 'approved') {
+    if (
+      result.status === 'completed' &&
+      this.matchesTransaction(
+        transaction,
+        result,
+        resourceId,
+        provider.displayName,
+      )
+    ) {
+      await this.recordInstallments(transaction, result.installments);
       await this.paymentOrderService.updatePaymentStatus(
-        external_reference,
+        result.clientTransactionId,
         PaymentStatus.completed,
+        {
+          source: PaymentStatusSource.webhook,
+          note: `Pago ${resourceId} aprobado en ${provider.displayName}`,
+        },
+        {
+          ...((transaction.payphoneData as Record<string, unknown> | null) ??
+            {}),
+          ...result.data,
+        },
+      );
+    }
+  }
+
+  /**
+   * Verifica que el pago consultado en el proveedor corresponda a la
+   * transacción (referencia y, si se aprobó, monto): evita usar un pago
+   * propio para marcar como pagada (o fallida) otra transacción.
+   */
+  private matchesTransaction(
+    transaction: Pick<PaymentTransaction, 'clientTransactionId' | 'amount'>,
+    result: {
+      status: 'pending' | 'completed' | 'failed';
+      clientTransactionId?: string;
+      amount?: number;
+    },
+    paymentId: string,
+    providerName: string,
+  ): boolean {
+    const { clientTransactionId } = transaction;
+    const expectedCents = Math.round(Number(transaction.amount) * 100);
+    const referenceMismatch =
+      result.status === 'completed'
+        ? result.clientTransactionId !== clientTransactionId
+        : result.clientTransactionId !== undefined &&
+          result.clientTransactionId !== clientTransactionId;
+    const amountMismatch =
+      result.status === 'completed' &&
+      result.amount !== undefined &&
+      Math.round(result.amount * 100) !== expectedCents;
+
+    if (referenceMismatch || amountMismatch) {
+      console.warn(
+        `[PaymentWebhookService] El pago de ${providerName} no coincide con la transacción:`,
+        { paymentId, clientTransactionId, expectedCents, result },
       );
+      return false;
     }
+
+    return true;
   }
 
   /**
-   * Verifica el estado de un pago de Mercado Pago y actualiza la transacción/orden.
-   * Se usa cuando el usuario regresa de la redirección de MP (solución alternativa a webhooks
-   * para entornos de desarrollo local donde no se puede recibir webhooks).
+   * Registra las cuotas con que se pagó, si el proveedor las informa.
+   * En Mercado Pago el comprador puede elegir otra cantidad en el checkout:
+   * en ese caso el plan elegido al crear la transacción ya no corresponde.
+   */
+  private async recordInstallments(
+    transaction: { id: string; installments: number },
+    installments?: number,
+  ) {
+    if (!installments || installments === transaction.installments) return;
+
+    await this.prisma.paymentTransaction.update({
+      where: { id: transaction.id },
+      data: { installments, installmentPlanId: null },
+    });
+  }
+
+  /**
+   * Confirma un pago consultando al proveedor y actualiza la transacción/orden.
+   * Se usa cuando el usuario regresa del checkout del proveedor (redirección
+   * de Mercado Pago, cajita o link de Payphone); en desarrollo local también
+   * reemplaza a los webhooks, que no se pueden recibir.
    *
-   * @param paymentId ID del pago en Mercado Pago
-   * @param externalReference clientTransactionId de la transacción
+   * @param code Proveedor de la transacción
+   * @param paymentId ID del pago en el proveedor
+   * @param clientTransactionId clientTransactionId de la transacción
    * @returns Estado de la verificación y si se actualizó la orden
    */
-  async verifyAndUpdateMercadoPagoPayment(
+  async verifyAndUpdatePayment(
+    code: PaymentProvider,
     paymentId: string,
-    externalReference: string,
-  ): Promise<MercadoPagoVerificationResult> {
-    console.log('[PaymentWebhookService] Verificando pago de MP:', {
-      paymentId,
-      externalReference,
+    clientTransactionId: string,
+  ): Promise<PaymentVerificationResult> {
+    const transaction = await this.prisma.paymentTransaction.findUnique({
+      where: { clientTransactionId },
     });
 
-    try {
-      // 1. Obtener estado del pago desde Mercado Pago
-      const { status } = await this.mercadopagoProvider.getPayment(paymentId);
+    if (!transaction) {
+      return {
+        status: 'not_found',
+        updated: false,
+        message: 'Transacción no encontrada',
+      };
+    }
 
-      console.log('[PaymentWebhookService] Estado de pago en MP:', status);
+    if (transaction.paymentProvider !== code) {
+      return {
+        status: 'mismatch',
+        updated: false,
+        message: 'El pago no corresponde a la transacción indicada',
+      };
+    }
 
-      // 2. Buscar la transacción por external_reference (clientTransactionId)
-      const transaction = await this.prisma.paymentTransaction.findUnique({
-        where: { clientTransactionId: externalReference },
-      });
+    if (PROCESSED_PAYMENT_STATUSES.includes(transaction.status)) {
+      return {
+        status: 'already_completed',
+        updated: false,
+        message: 'El pago ya fue procesado anteriormente',
+      };
+    }
 
-      if (!transaction) {
-        console.warn(
-          '[PaymentWebhookService] Transacción no encontrada:',
-          externalReference,
-        );
-        return {
-          status: 'not_found',
-          updated: false,
-          message: 'Transacción no encontrada',
-        };
-      }
+    try {
+      const provider = this.providerRegistry.require(code, 'confirmation');
+      const result = await provider.confirmPayment(
+        paymentId,
+        clientTransactionId,
+      );
 
-      // 3. Si ya está completada, no hacer nada
-      if (transaction.status === PaymentStatus.completed) {
+      if (
+        !this.matchesTransaction(
+          transaction,
+          result,
+          paymentId,
+          provider.displayName,
+        )
+      ) {
         return {
-          status: 'already_completed',
+          status: 'mismatch',
           updated: false,
-          message: 'El pago ya fue procesado anteriormente',
+          message: 'El pago no corresponde a la transacción indicada',
         };
       }
 
-      // 4. Actualizar según el estado de MP
-      if (status === 'approved') {
+      const providerData = {
+        ...((transaction.payphoneData as Record<string, unknown> | null) ?? {}),
+        ...result.data,
+      };
+
+      if (result.status === 'completed') {
+        await this.recordInstallments(transaction, result.installments);
         await this.paymentOrderService.updatePaymentStatus(
-          externalReference,
+          clientTransactionId,
           PaymentStatus.completed,
-        );
-
-        console.log(
-          '[PaymentWebhookService] Pago actualizado a completed:',
-          externalReference,
+          {
+            source: PaymentStatusSource.provider,
+            note: `Pago ${paymentId} confirmado con ${provider.displayName}`,
+          },
+          providerData,
         );
 
         return {
@@ -121,41 +422,32 @@ export class PaymentWebhookService {
         };
       }
 
-      if (status === 'pending' || status === 'in_process') {
-        return {
-          status: 'pending',
-          updated: false,
-          message: 'El pago está pendiente de confirmación',
-        };
-      }
-
-      // Estados de rechazo o fallo
-      if (
-        status === 'rejected' ||
-        status === 'cancelled' ||
-        status === 'refunded'
-      ) {
+      if (result.status === 'failed') {
         await this.paymentOrderService.updatePaymentStatus(
-          externalReference,
+          clientTransactionId,
           PaymentStatus.failed,
+          {
+            source: PaymentStatusSource.provider,
+            note: `Pago ${paymentId} rechazado en ${provider.displayName}`,
+          },
+          providerData,
         );
 
         return {
-          status: status || 'rejected',
+          status: 'rejected',
           updated: true,
           message: 'El pago fue rechazado o cancelado',
         };
       }
 
-      // Estado desconocido
       return {
-        status: status || 'unknown',
+        status: 'pending',
         updated: false,
-        message: 'Estado de pago desconocido',
+        message: 'El pago está pendiente de confirmación',
       };
     } catch (error) {
       console.error(
-        '[PaymentWebhookService] Error verificando pago de MP:',
+        `[PaymentWebhookService] Error verificando pago ${paymentId}:`,
         error,
       );
 
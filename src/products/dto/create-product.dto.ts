@@ -5,9 +5,14 @@ import {
   IsNumber,
   IsOptional,
   IsBoolean,
+  IsInt,
+  IsArray,
+  ValidateNested,
   Min,
 } from 'class-validator';
 import { Transform } from 'class-transformer';
+import { CreateProductVariantDto } from './create-product-variant.dto.js';
+import { parseJsonArrayOf } from '../../common/helpers/form-data.helper.js';
 
 export class CreateProductDto {
   @IsString()
@@ -39,6 +44,19 @@ export class CreateProductDto {
   @IsOptional()
   country?: string;
 
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  stock?: number;
+
+  /**
+   * Peso en kg, usado para calcular el costo de envío.
+   */
+  @IsNumber()
+  @Min(0)
+  @IsOptional()
+  weight?: number;
+
   @IsBoolean()
   @IsOptional()
   @Transform(({ value }) => {
@@ -48,4 +66,10 @@ export class CreateProductDto {
     return value as boolean;
   })
   isActive?: boolean;
+
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Transform(parseJsonArrayOf(CreateProductVariantDto))
+  @IsOptional()
+  variants?: CreateProductVariantDto[];
 }
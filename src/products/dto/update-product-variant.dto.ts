@@ -0,0 +1,16 @@
+import { PartialType } from '@nestjs/mapped-types';
+import { IsOptional, IsUUID } from 'class-validator';
+import { CreateProductVariantDto } from './create-product-variant.dto.js';
+
+/**
+ * Variante enviada al actualizar un producto.
+ * Con id se actualiza la variante existente (sin tocar su stock, que se
+ * ajusta desde inventario); sin id se crea una variante nueva.
+ */
+export class UpdateProductVariantDto extends PartialType(
+  CreateProductVariantDto,
+) {
+  @IsUUID()
+  @IsOptional()
+  id?: string;
+}
@@ -1,8 +1,14 @@
-import { PartialType } from '@nestjs/mapped-types';
+import { OmitType, PartialType } from '@nestjs/mapped-types';
 import { Transform } from 'class-transformer';
+import { IsArray, IsOptional, ValidateNested } from 'class-validator';
 import { CreateProductDto } from './create-product.dto.js';
+import { UpdateProductVariantDto } from './update-product-variant.dto.js';
+import { parseJsonArrayOf } from '../../common/helpers/form-data.helper.js';
 
-export class UpdateProductDto extends PartialType(CreateProductDto) {
+// El stock no se edita aquí: se modifica con ajustes de inventario auditados
+export class UpdateProductDto extends PartialType(
+  OmitType(CreateProductDto, ['stock', 'variants'] as const),
+) {
   @Transform(({ value }) => {
     if (value === undefined || value === null) {
       return undefined;
@@ -21,4 +27,10 @@ export class UpdateProductDto extends PartialType(CreateProductDto) {
     return Boolean(value);
   })
   isActive?: boolean;
+
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Transform(parseJsonArrayOf(UpdateProductVariantDto))
+  @IsOptional()
+  variants?: UpdateProductVariantDto[];
 }
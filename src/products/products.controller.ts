@@ -14,9 +14,11 @@ import {
 import { ProductsService } from './products.service.js';
 import { CreateProductDto } from './dto/create-product.dto.js';
 import { UpdateProductDto } from './dto/update-product.dto.js';
+import { UpdateProductVariantDto } from './dto/update-product-variant.dto.js';
 import { AdminGuard } from '../auth/guards/admin.guard.js';
 import { Public } from '../auth/decorators/public.decorator.js';
 import { FilesInterceptor } from '@nestjs/platform-express';
+import { parseJsonArrayField } from '../common/helpers/form-data.helper.js';
 
 @Controller('products')
 export class ProductsController {
@@ -41,6 +43,7 @@ export class ProductsController {
     @Query('includeInactive') includeInactive?: string,
     @Query('page') page?: string,
     @Query('limit') limit?: string,
+    @Query('sortBy') sortBy?: string,
   ) {
     const pageNumber = page ? parseInt(page, 10) : undefined;
     const limitNumber = limit ? parseInt(limit, 10) : undefined;
@@ -51,6 +54,7 @@ export class ProductsController {
       includeInactive === 'true',
       pageNumber,
       limitNumber,
+      sortBy,
     );
   }
 
@@ -72,7 +76,7 @@ export class ProductsController {
   @Patch(':id')
   @UseGuards(AdminGuard)
   @UseInterceptors(FilesInterceptor('images', 10))
-  update(
+  async update(
     @Param('id') id: string,
     @Body() body: any,
     @UploadedFiles() files: Express.Multer.File[],
@@ -88,11 +92,26 @@ export class ProductsController {
             body.isActive === 1 ||
             body.isActive === '1'
           : undefined,
+      // Las variantes llegan como JSON serializado en FormData
+      variants: await parseJsonArrayField(
+        body.variants,
+        'variants',
+        UpdateProductVariantDto,
+      ),
     };
 
     return this.productsService.update(id, updateProductDto, files);
   }
 
+  @Delete(':id/variants/:variantId')
+  @UseGuards(AdminGuard)
+  removeVariant(
+    @Param('id') productId: string,
+    @Param('variantId') variantId: string,
+  ) {
+    return this.productsService.removeVariant(productId, variantId);
+  }
+
   @Delete(':id/image/:imageId')
   @UseGuards(AdminGuard)
   removeImage(
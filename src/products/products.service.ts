@@ -8,6 +8,9 @@ import { CreateProductDto } from './dto/create-product.dto.js';
 import { UpdateProductDto } from './dto/update-product.dto.js';
 import { CloudinaryService } from '../cloudinary/cloudinary.service.js';
 import { createPaginationResponse } from '../common/helpers/pagination.helper.js';
+import { StockMovementType } from '../generated/enums.js';
+import { CreateProductVariantDto } from './dto/create-product-variant.dto.js';
+import { UpdateProductVariantDto } from './dto/update-product-variant.dto.js';
 
 @Injectable()
 export class ProductsService {
@@ -50,6 +53,8 @@ export class ProductsService {
       imageUrls = await this.cloudinaryService.uploadMultipleImages(files);
     }
 
+    const stock = createProductDto.stock ?? 0;
+
     // Crear el producto
     const product = await this.prisma.product.create({
       data: {
@@ -58,22 +63,172 @@ export class ProductsService {
         price: createProductDto.price,
         discount: createProductDto.discount || 0,
         country: createProductDto.country,
+        weight: createProductDto.weight,
         categoryId: createProductDto.categoryId,
         subcategoryId: createProductDto.subcategoryId,
+        stock,
         images: {
           create: imageUrls.map((url, index) => ({
             url,
             order: index,
           })),
         },
+        ...(stock > 0 && {
+          stockMovements: {
+            create: {
+              type: StockMovementType.initial,
+              quantity: stock,
+              reason: 'Stock inicial',
+            },
+          },
+        }),
       },
-      include: {
-        category: true,
-        subcategory: true,
-        images: true,
+    });
+
+    if (createProductDto.variants?.length) {
+      await this.createVariants(product.id, createProductDto.variants);
+    }
+
+    return this.findOne(product.id);
+  }
+
+  /**
+   * Crea variantes para un producto registrando su stock inicial.
+   */
+  private async createVariants(
+    productId: string,
+    variants: Array<CreateProductVariantDto | UpdateProductVariantDto>,
+  ) {
+    await this.assertSkusAvailable(variants.map((variant) => variant.sku));
+
+    for (const variant of variants) {
+      const variantStock = variant.stock ?? 0;
+      await this.prisma.productVariant.create({
+        data: {
+          productId,
+          sku: variant.sku as string,
+          size: variant.size,
+          color: variant.color,
+          price: variant.price,
+          stock: variantStock,
+          imageUrl: variant.imageUrl,
+          isActive: variant.isActive ?? true,
+          ...(variantStock > 0 && {
+            stockMovements: {
+              create: {
+                productId,
+                type: StockMovementType.initial,
+                quantity: variantStock,
+                reason: 'Stock inicial',
+              },
+            },
+          }),
+        },
+      });
+    }
+  }
+
+  /**
+   * Verifica que los SKU no estén repetidos ni usados por otra variante.
+   */
+  private async assertSkusAvailable(
+    skus: Array<string | undefined>,
+    excludeVariantIds: string[] = [],
+  ) {
+    if (skus.some((sku) => !sku)) {
+      throw new BadRequestException('Cada variante nueva requiere un SKU');
+    }
+
+    const definedSkus = skus as string[];
+    if (new Set(definedSkus).size !== definedSkus.length) {
+      throw new BadRequestException('Hay SKUs repetidos en las variantes');
+    }
+
+    const existing = await this.prisma.productVariant.findFirst({
+      where: {
+        sku: { in: definedSkus },
+        id: { notIn: excludeVariantIds },
       },
+      select: { sku: true },
     });
-    return product;
+
+    if (existing) {
+      throw new BadRequestException(
+        `El SKU ${existing.sku} ya está en uso por otra variante`,
+      );
+    }
+  }
+
+  /**
+   * Sincroniza las variantes enviadas al actualizar un producto:
+   * las que traen id se actualizan y las que no, se crean.
+   */
+  private async syncVariants(
+    productId: string,
+    variants: UpdateProductVariantDto[],
+  ) {
+    const toUpdate = variants.filter((variant) => variant.id);
+    const toCreate = variants.filter((variant) => !variant.id);
+
+    if (toUpdate.length > 0) {
+      const ids = toUpdate.map((variant) => variant.id as string);
+      const owned = await this.prisma.productVariant.count({
+        where: { id: { in: ids }, productId },
+      });
+
+      if (owned !== ids.length) {
+        throw new NotFoundException(
+          'Alguna de las variantes no pertenece al producto',
+        );
+      }
+
+      const changedSkus = toUpdate
+        .filter((variant) => variant.sku)
+        .map((variant) => variant.sku);
+      if (changedSkus.length > 0) {
+        await this.assertSkusAvailable(changedSkus, ids);
+      }
+
+      for (const variant of toUpdate) {
+        // El stock de variantes existentes solo cambia con ajustes de inventario
+        await this.prisma.productVariant.update({
+          where: { id: variant.id },
+          data: {
+            sku: variant.sku,
+            size: variant.size,
+            color: variant.color,
+            price: variant.price,
+            imageUrl: variant.imageUrl,
+            isActive: variant.isActive,
+          },
+        });
+      }
+    }
+
+    if (toCreate.length > 0) {
+      await this.createVariants(productId, toCreate);
+    }
+  }
+
+  /**
+   * Agrega el indicador de disponibilidad según el stock del producto.
+   * Si el producto tiene variantes activas, el stock es el de sus variantes.
+   */
+  private withStockStatus<
+    T extends {
+      stock: number;
+      variants?: Array<{ stock: number; isActive: boolean }>;
+    },
+  >(product: T) {
+    const activeVariants = (product.variants || []).filter(
+      (variant) => variant.isActive,
+    );
+    const outOfStock =
+      activeVariants.length > 0
+        ? activeVariants.every((variant) => variant.stock <= 0)
+        : product.stock <= 0;
+
+    return { ...product, outOfStock };
   }
 
   async findAll(
@@ -83,6 +238,7 @@ export class ProductsService {
     includeInactive?: boolean,
     page?: number,
     limit?: number,
+    sortBy?: string,
   ) {
     const where: {
       categoryId?: string;
@@ -117,9 +273,24 @@ export class ProductsService {
     // Construir el objeto where solo si tiene propiedades
     const whereClause = Object.keys(where).length > 0 ? where : undefined;
 
+    // Orden por calificación: mejor promedio primero y, a igual promedio, más reseñas
+    const orderBy =
+      sortBy === 'rating'
+        ? [
+            { averageRating: 'desc' as const },
+            { reviewCount: 'desc' as const },
+            { createdAt: 'desc' as const },
+          ]
+        : { createdAt: 'desc' as const };
+
+    const variantsInclude = {
+      ...(!includeInactive && { where: { isActive: true } }),
+      orderBy: { createdAt: 'asc' as const },
+    };
+
     // Si no se especifica paginación, retornar todos los productos (comportamiento anterior)
     if (page === undefined || limit === undefined) {
-      return this.prisma.product.findMany({
+      const products = await this.prisma.product.findMany({
         ...(whereClause && { where: whereClause }),
         include: {
           category: true,
@@ -129,11 +300,11 @@ export class ProductsService {
               order: 'asc',
             },
           },
+          variants: variantsInclude,
         },
-        orderBy: {
-          createdAt: 'desc',
-        },
+        orderBy,
       });
+      return products.map((product) => this.withStockStatus(product));
     }
 
     // Con paginación
@@ -152,10 +323,9 @@ export class ProductsService {
               order: 'asc',
             },
           },
+          variants: variantsInclude,
         },
-        orderBy: {
-          createdAt: 'desc',
-        },
+        orderBy,
         skip,
         take: limitNumber,
       }),
@@ -164,7 +334,12 @@ export class ProductsService {
       }),
     ]);
 
-    return createPaginationResponse(products, total, pageNumber, limitNumber);
+    return createPaginationResponse(
+      products.map((product) => this.withStockStatus(product)),
+      total,
+      pageNumber,
+      limitNumber,
+    );
   }
 
   async findOne(id: string) {
@@ -178,6 +353,9 @@ export class ProductsService {
             order: 'asc',
           },
         },
+        variants: {
+          orderBy: { createdAt: 'asc' },
+        },
       },
     });
 
@@ -185,7 +363,7 @@ export class ProductsService {
       throw new NotFoundException(`Producto con id ${id} no encontrado`);
     }
 
-    return product;
+    return this.withStockStatus(product);
   }
 
   async findRelated(id: string, limit: number = 4) {
@@ -276,6 +454,9 @@ export class ProductsService {
     if (updateProductDto.discount !== undefined) {
       updateData.discount = updateProductDto.discount;
     }
+    if (updateProductDto.weight !== undefined) {
+      updateData.weight = updateProductDto.weight;
+    }
     if (updateProductDto.categoryId) {
       updateData.categoryId = updateProductDto.categoryId;
     }
@@ -310,21 +491,48 @@ export class ProductsService {
     }
 
     // Actualizar el producto
-    const updatedProduct = await this.prisma.product.update({
+    await this.prisma.product.update({
       where: { id },
       data: updateData,
-      include: {
-        category: true,
-        subcategory: true,
-        images: {
-          orderBy: {
-            order: 'asc',
-          },
-        },
-      },
     });
 
-    return updatedProduct;
+    if (updateProductDto.variants?.length) {
+      await this.syncVariants(id, updateProductDto.variants);
+    }
+
+    return this.findOne(id);
+  }
+
+  async removeVariant(productId: string, variantId: string) {
+    const variant = await this.prisma.productVariant.findFirst({
+      where: { id: variantId, productId },
+    });
+
+    if (!variant) {
+      throw new NotFoundException('Variante no encontrada');
+    }
+
+    const orderItemsCount = await this.prisma.orderItem.count({
+      where: { variantId },
+    });
+
+    // Las variantes con órdenes se desactivan para conservar el historial
+    if (orderItemsCount > 0) {
+      await this.prisma.productVariant.update({
+        where: { id: variantId },
+        data: { isActive: false },
+      });
+      return {
+        message:
+          'La variante tiene órdenes relacionadas, por lo que fue desactivada',
+      };
+    }
+
+    await this.prisma.productVariant.delete({
+      where: { id: variantId },
+    });
+
+    return { message: 'Variante eliminada exitosamente' };
   }
 
   async removeImage(productId: string, imageId: string) {
@@ -0,0 +1,14 @@
+import { IsEnum, IsOptional, IsString } from 'class-validator';
+import { ReviewStatus } from '../../generated/enums.js';
+
+export class ModerateReviewDto {
+  @IsEnum(ReviewStatus)
+  status: ReviewStatus;
+
+  /**
+   * Motivo de la decisión (por ejemplo, por qué se rechazó la reseña).
+   */
+  @IsString()
+  @IsOptional()
+  note?: string;
+}
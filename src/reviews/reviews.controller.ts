@@ -0,0 +1,82 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  UseGuards,
+  Query,
+  UseInterceptors,
+  UploadedFiles,
+} from '@nestjs/common';
+import { FilesInterceptor } from '@nestjs/platform-express';
+import { ReviewsService } from './reviews.service.js';
+import { CreateReviewDto } from './dto/create-review.dto.js';
+import { ModerateReviewDto } from './dto/moderate-review.dto.js';
+import { AdminGuard } from '../auth/guards/admin.guard.js';
+import { Public } from '../auth/decorators/public.decorator.js';
+import { CurrentUser } from '../auth/decorators/current-user.decorator.js';
+import type { LoggedInUserData } from '../interfaces/authenticated-user.interface.js';
+import { ReviewStatus } from '../generated/enums.js';
+
+@Controller('reviews')
+export class ReviewsController {
+  constructor(private readonly reviewsService: ReviewsService) {}
+
+  @Post()
+  @UseInterceptors(FilesInterceptor('images', 5))
+  create(
+    @CurrentUser() user: LoggedInUserData,
+    @Body() createReviewDto: CreateReviewDto,
+    @UploadedFiles() files: Express.Multer.File[],
+  ) {
+    return this.reviewsService.create(user.id, createReviewDto, files);
+  }
+
+  @Get('product/:productId')
+  @Public()
+  findByProduct(
+    @Param('productId') productId: string,
+    @Query('page') page?: string,
+    @Query('limit') limit?: string,
+  ) {
+    const pageNumber = page ? parseInt(page, 10) : 1;
+    const limitNumber = limit ? parseInt(limit, 10) : 10;
+    return this.reviewsService.findByProduct(
+      productId,
+      pageNumber,
+      limitNumber,
+    );
+  }
+
+  @Get()
+  @UseGuards(AdminGuard)
+  findAll(
+    @Query('status') status?: ReviewStatus,
+    @Query('page') page?: string,
+    @Query('limit') limit?: string,
+  ) {
+    const pageNumber = page ? parseInt(page, 10) : 1;
+    const limitNumber = limit ? parseInt(limit, 10) : 10;
+    return this.reviewsService.findAll(status, pageNumber, limitNumber);
+  }
+
+  @Patch(':id/moderate')
+  @UseGuards(AdminGuard)
+  moderate(
+    @Param('id') id: string,
+    @Body() moderateReviewDto: ModerateReviewDto,
+    @CurrentUser() user: LoggedInUserData,
+  ) {
+    return this.reviewsService.moderate(id, moderateReviewDto, user.id);
+  }
+
+  @Delete(':id')
+  remove(@Param('id') id: string, @CurrentUser() user: LoggedInUserData) {
+    // Los clientes solo pueden eliminar sus propias reseñas
+    const userId = user.type === 'ADMIN' ? undefined : user.id;
+    return this.reviewsService.remove(id, userId);
+  }
+}
@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { ReviewsService } from './reviews.service.js';
+import { ReviewsController } from './reviews.controller.js';
+import { PrismaModule } from '../prisma/prisma.module.js';
+import { CloudinaryModule } from '../cloudinary/cloudinary.module.js';
+import { AuthModule } from '../auth/auth.module.js';
+import { UsersModule } from '../users/users.module.js';
+
+@Module({
+  imports: [PrismaModule, CloudinaryModule, AuthModule, UsersModule],
+  controllers: [ReviewsController],
+  providers: [ReviewsService],
+  exports: [ReviewsService],
+})
+export class ReviewsModule {}
@@ -0,0 +1,226 @@
+import {
+  Injectable,
+  NotFoundException,
+  ForbiddenException,
+  ConflictException,
+} from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service.js';
+import { CloudinaryService } from '../cloudinary/cloudinary.service.js';
+import { CreateReviewDto } from './dto/create-review.dto.js';
+import { ModerateReviewDto } from './dto/moderate-review.dto.js';
+import { OrderStatus, ReviewStatus } from '../generated/enums.js';
+import type { Prisma } from '../generated/client.js';
+import { createPaginationResponse } from '../common/helpers/pagination.helper.js';
+import { roundAmount } from '../coupons/helpers/coupon.helper.js';
+
+const reviewInclude = {
+  user: { select: { id: true, firstName: true, lastName: true } },
+  images: { orderBy: { order: 'asc' as const } },
+};
+
+/**
+ * Servicio de reseñas de productos.
+ * Responsabilidad única: registrar las reseñas de compradores verificados,
+ * moderarlas y mantener la calificación promedio de cada producto.
+ */
+@Injectable()
+export class ReviewsService {
+  constructor(
+    private prisma: PrismaService,
+    private cloudinaryService: CloudinaryService,
+  ) {}
+
+  /**
+   * Crea una reseña. Solo puede reseñar quien tenga una orden entregada
+   * con el producto, y una sola vez por producto.
+   * La reseña queda pendiente hasta que un administrador la apruebe.
+   */
+  async create(
+    userId: string,
+    createReviewDto: CreateReviewDto,
+    files: Express.Multer.File[],
+  ) {
+    const { productId, rating, comment } = createReviewDto;
+
+    const product = await this.prisma.product.findUnique({
+      where: { id: productId },
+      select: { id: true },
+    });
+
+    if (!product) {
+      throw new NotFoundException(`Producto con id ${productId} no encontrado`);
+    }
+
+    const purchasedItem = await this.prisma.orderItem.findFirst({
+      where: {
+        productId,
+        order: { userId, status: OrderStatus.delivered },
+      },
+      select: { id: true },
+    });
+
+    if (!purchasedItem) {
+      throw new ForbiddenException(
+        'Solo puedes reseñar productos de pedidos que ya recibiste',
+      );
+    }
+
+    const existing = await this.prisma.review.findUnique({
+      where: { productId_userId: { productId, userId } },
+    });
+
+    if (existing) {
+      throw new ConflictException('Ya dejaste una reseña para este producto');
+    }
+
+    // Subir fotos a Cloudinary
+    let imageUrls: string[] = [];
+    if (files && files.length > 0) {
+      imageUrls = await this.cloudinaryService.uploadMultipleImages(files);
+    }
+
+    const review = await this.prisma.review.create({
+      data: {
+        productId,
+        userId,
+        rating,
+        comment,
+        images: {
+          create: imageUrls.map((url, index) => ({ url, order: index })),
+        },
+      },
+      include: reviewInclude,
+    });
+
+    return {
+      message: 'Reseña enviada. Se publicará cuando sea aprobada',
+      data: review,
+    };
+  }
+
+  /**
+   * Reseñas aprobadas de un producto (paginadas).
+   */
+  async findByProduct(productId: string, page: number = 1, limit: number = 10) {
+    const where = { productId, status: ReviewStatus.approved };
+    const skip = (page - 1) * limit;
+
+    const [reviews, total] = await Promise.all([
+      this.prisma.review.findMany({
+        where,
+        include: reviewInclude,
+        orderBy: { createdAt: 'desc' },
+        skip,
+        take: limit,
+      }),
+      this.prisma.review.count({ where }),
+    ]);
+
+    return createPaginationResponse(reviews, total, page, limit);
+  }
+
+  /**
+   * Listado de reseñas para moderación (paginado).
+   */
+  async findAll(status?: ReviewStatus, page: number = 1, limit: number = 10) {
+    const where = status ? { status } : {};
+    const skip = (page - 1) * limit;
+
+    const [reviews, total] = await Promise.all([
+      this.prisma.review.findMany({
+        where,
+        include: {
+          ...reviewInclude,
+          product: { select: { id: true, name: true } },
+        },
+        orderBy: { createdAt: 'desc' },
+        skip,
+        take: limit,
+      }),
+      this.prisma.review.count({ where }),
+    ]);
+
+    return createPaginationResponse(reviews, total, page, limit);
+  }
+
+  /**
+   * Aprueba o rechaza una reseña y recalcula la calificación del producto.
+   */
+  async moderate(
+    id: string,
+    moderateReviewDto: ModerateReviewDto,
+    adminId: string,
+  ) {
+    const review = await this.findOne(id);
+
+    return this.prisma.$transaction(async (tx) => {
+      const moderated = await tx.review.update({
+        where: { id },
+        data: {
+          status: moderateReviewDto.status,
+          moderationNote: moderateReviewDto.note ?? null,
+          moderatedById: adminId,
+          moderatedAt: new Date(),
+        },
+        include: reviewInclude,
+      });
+
+      await this.refreshProductRating(tx, review.productId);
+
+      return moderated;
+    });
+  }
+
+  /**
+   * Elimina una reseña. Si se indica userId, la reseña debe pertenecer al usuario.
+   */
+  async remove(id: string, userId?: string) {
+    const review = await this.findOne(id);
+
+    if (userId && review.userId !== userId) {
+      throw new NotFoundException(`Reseña con id ${id} no encontrada`);
+    }
+
+    await this.prisma.$transaction(async (tx) => {
+      await tx.review.delete({ where: { id } });
+      await this.refreshProductRating(tx, review.productId);
+    });
+
+    return { message: 'Reseña eliminada exitosamente' };
+  }
+
+  private async findOne(id: string) {
+    const review = await this.prisma.review.findUnique({
+      where: { id },
+    });
+
+    if (!review) {
+      throw new NotFoundException(`Reseña con id ${id} no encontrada`);
+    }
+
+    return review;
+  }
+
+  /**
+   * Recalcula el promedio y la cantidad de reseñas aprobadas de un producto.
+   * Se guardan en el producto para poder ordenar el catálogo por calificación.
+   */
+  private async refreshProductRating(
+    tx: Prisma.TransactionClient,
+    productId: string,
+  ) {
+    const { _avg, _count } = await tx.review.aggregate({
+      where: { productId, status: ReviewStatus.approved },
+      _avg: { rating: true },
+      _count: { _all: true },
+    });
+
+    await tx.product.update({
+      where: { id: productId },
+      data: {
+        averageRating: roundAmount(_avg.rating ?? 0),
+        reviewCount: _count._all,
+      },
+    });
+  }
+}
@@ -0,0 +1,20 @@
+import {
+  IsDateString,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+} from 'class-validator';
+
+export class CreateShipmentEventDto {
+  @IsString()
+  @IsNotEmpty()
+  description: string;
+
+  @IsString()
+  @IsOptional()
+  location?: string;
+
+  @IsDateString()
+  @IsOptional()
+  occurredAt?: string;
+}
@@ -0,0 +1,28 @@
+import {
+  IsDateString,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUrl,
+} from 'class-validator';
+
+export class CreateShipmentDto {
+  @IsString()
+  @IsNotEmpty()
+  carrier: string;
+
+  @IsString()
+  @IsNotEmpty()
+  trackingNumber: string;
+
+  @IsUrl()
+  @IsOptional()
+  trackingUrl?: string;
+
+  /**
+   * Fecha de despacho. Por defecto, el momento del registro.
+   */
+  @IsDateString()
+  @IsOptional()
+  shippedAt?: string;
+}
@@ -0,0 +1,12 @@
+import { PartialType } from '@nestjs/mapped-types';
+import { IsDateString, IsOptional } from 'class-validator';
+import { CreateShipmentDto } from './create-shipment.dto.js';
+
+export class UpdateShipmentDto extends PartialType(CreateShipmentDto) {
+  /**
+   * Fecha de entrega. Al registrarla la orden pasa a "delivered".
+   */
+  @IsDateString()
+  @IsOptional()
+  deliveredAt?: string;
+}
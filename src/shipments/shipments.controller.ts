@@ -0,0 +1,62 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  UseGuards,
+} from '@nestjs/common';
+import { ShipmentsService } from './shipments.service.js';
+import { CreateShipmentDto } from './dto/create-shipment.dto.js';
+import { UpdateShipmentDto } from './dto/update-shipment.dto.js';
+import { CreateShipmentEventDto } from './dto/create-shipment-event.dto.js';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard.js';
+import { AdminGuard } from '../auth/guards/admin.guard.js';
+import { CurrentUser } from '../auth/decorators/current-user.decorator.js';
+import type { LoggedInUserData } from '../interfaces/authenticated-user.interface.js';
+
+@Controller('orders/:orderId/shipment')
+@UseGuards(JwtAuthGuard)
+export class ShipmentsController {
+  constructor(private readonly shipmentsService: ShipmentsService) {}
+
+  @Post()
+  @UseGuards(AdminGuard)
+  create(
+    @Param('orderId') orderId: string,
+    @Body() createShipmentDto: CreateShipmentDto,
+    @CurrentUser() user: LoggedInUserData,
+  ) {
+    return this.shipmentsService.create(orderId, createShipmentDto, user.id);
+  }
+
+  @Patch()
+  @UseGuards(AdminGuard)
+  update(
+    @Param('orderId') orderId: string,
+    @Body() updateShipmentDto: UpdateShipmentDto,
+    @CurrentUser() user: LoggedInUserData,
+  ) {
+    return this.shipmentsService.update(orderId, updateShipmentDto, user.id);
+  }
+
+  @Post('events')
+  @UseGuards(AdminGuard)
+  addEvent(
+    @Param('orderId') orderId: string,
+    @Body() createShipmentEventDto: CreateShipmentEventDto,
+  ) {
+    return this.shipmentsService.addEvent(orderId, createShipmentEventDto);
+  }
+
+  @Get()
+  findOne(
+    @Param('orderId') orderId: string,
+    @CurrentUser() user: LoggedInUserData,
+  ) {
+    // Los clientes solo pueden ver el envío de sus propias órdenes
+    const userId = user.type === 'ADMIN' ? undefined : user.id;
+    return this.shipmentsService.findByOrder(orderId, userId);
+  }
+}
@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { ShipmentsService } from './shipments.service.js';
+import { ShipmentsController } from './shipments.controller.js';
+import { PrismaModule } from '../prisma/prisma.module.js';
+import { AuthModule } from '../auth/auth.module.js';
+import { UsersModule } from '../users/users.module.js';
+import { OrdersModule } from '../orders/orders.module.js';
+
+@Module({
+  imports: [PrismaModule, AuthModule, UsersModule, OrdersModule],
+  controllers: [ShipmentsController],
+  providers: [ShipmentsService],
+  exports: [ShipmentsService],
+})
+export class ShipmentsModule {}
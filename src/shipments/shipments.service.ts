@@ -0,0 +1,179 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+} from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service.js';
+import { OrdersService } from '../orders/orders.service.js';
+import { CreateShipmentDto } from './dto/create-shipment.dto.js';
+import { UpdateShipmentDto } from './dto/update-shipment.dto.js';
+import { CreateShipmentEventDto } from './dto/create-shipment-event.dto.js';
+import { OrderStatus, OrderStatusActor } from '../generated/enums.js';
+
+const shipmentInclude = {
+  events: {
+    orderBy: { occurredAt: 'desc' as const },
+  },
+};
+
+/**
+ * Servicio de envíos.
+ * Responsabilidad única: registrar el envío de una orden (transportista y
+ * número de seguimiento) y sus eventos hasta la entrega.
+ */
+@Injectable()
+export class ShipmentsService {
+  constructor(
+    private prisma: PrismaService,
+    private ordersService: OrdersService,
+  ) {}
+
+  /**
+   * Registra el envío de una orden y la pasa a "shipping".
+   * El cambio de estado dispara el email de envío con el link de seguimiento.
+   */
+  async create(orderId: string, dto: CreateShipmentDto, adminId: string) {
+    const order = await this.prisma.order.findUnique({
+      where: { id: orderId },
+      include: { shipment: true },
+    });
+
+    if (!order) {
+      throw new NotFoundException('Orden no encontrada');
+    }
+
+    if (order.shipment) {
+      throw new ConflictException('La orden ya tiene un envío registrado');
+    }
+
+    if (
+      order.status !== OrderStatus.processing &&
+      order.status !== OrderStatus.shipping
+    ) {
+      throw new BadRequestException(
+        `No se puede registrar el envío de una orden en estado "${order.status}"`,
+      );
+    }
+
+    const shippedAt = dto.shippedAt ? new Date(dto.shippedAt) : new Date();
+
+    const shipment = await this.prisma.shipment.create({
+      data: {
+        orderId,
+        carrier: dto.carrier,
+        trackingNumber: dto.trackingNumber,
+        trackingUrl: dto.trackingUrl,
+        shippedAt,
+        events: {
+          create: {
+            description: `Paquete despachado con ${dto.carrier}`,
+            occurredAt: shippedAt,
+          },
+        },
+      },
+      include: shipmentInclude,
+    });
+
+    if (order.status === OrderStatus.processing) {
+      await this.ordersService.updateStatus(orderId, OrderStatus.shipping, {
+        actor: OrderStatusActor.admin,
+        actorId: adminId,
+        note: `Envío ${dto.carrier} ${dto.trackingNumber}`,
+      });
+    }
+
+    return shipment;
+  }
+
+  /**
+   * Actualiza los datos del envío. Si se informa la fecha de entrega,
+   * registra el evento y pasa la orden a "delivered".
+   */
+  async update(orderId: string, dto: UpdateShipmentDto, adminId: string) {
+    const shipment = await this.findShipmentOrFail(orderId);
+    const { deliveredAt, shippedAt, ...data } = dto;
+    const isNewDelivery = deliveredAt !== undefined && !shipment.deliveredAt;
+
+    const updatedShipment = await this.prisma.shipment.update({
+      where: { id: shipment.id },
+      data: {
+        ...data,
+        ...(shippedAt && { shippedAt: new Date(shippedAt) }),
+        ...(deliveredAt && { deliveredAt: new Date(deliveredAt) }),
+        ...(isNewDelivery && {
+          events: {
+            create: {
+              description: 'Paquete entregado',
+              occurredAt: new Date(deliveredAt),
+            },
+          },
+        }),
+      },
+      include: shipmentInclude,
+    });
+
+    if (isNewDelivery && shipment.order.status === OrderStatus.shipping) {
+      await this.ordersService.updateStatus(orderId, OrderStatus.delivered, {
+        actor: OrderStatusActor.admin,
+        actorId: adminId,
+      });
+    }
+
+    return updatedShipment;
+  }
+
+  /**
+   * Agrega un evento de seguimiento al envío (en tránsito, en sucursal, etc.).
+   */
+  async addEvent(orderId: string, dto: CreateShipmentEventDto) {
+    const shipment = await this.findShipmentOrFail(orderId);
+
+    await this.prisma.shipmentEvent.create({
+      data: {
+        shipmentId: shipment.id,
+        description: dto.description,
+        location: dto.location,
+        ...(dto.occurredAt && { occurredAt: new Date(dto.occurredAt) }),
+      },
+    });
+
+    return this.prisma.shipment.findUniqueOrThrow({
+      where: { id: shipment.id },
+      include: shipmentInclude,
+    });
+  }
+
+  /**
+   * Envío de una orden con sus eventos (del más reciente al más antiguo).
+   * Si se indica userId, solo devuelve envíos de órdenes de ese usuario.
+   */
+  async findByOrder(orderId: string, userId?: string) {
+    const shipment = await this.prisma.shipment.findFirst({
+      where: {
+        orderId,
+        ...(userId && { order: { userId } }),
+      },
+      include: shipmentInclude,
+    });
+
+    if (!shipment) {
+      throw new NotFoundException('La orden no tiene un envío registrado');
+    }
+
+    return shipment;
+  }
+
+  private async findShipmentOrFail(orderId: string) {
+    const shipment = await this.prisma.shipment.findUnique({
+      where: { orderId },
+      include: { order: { select: { status: true } } },
+    });
+
+    if (!shipment) {
+      throw new NotFoundException('La orden no tiene un envío registrado');
+    }
+
+    return shipment;
+  }
+}
@@ -0,0 +1,78 @@
+import { Type } from 'class-transformer';
+import {
+  IsArray,
+  IsBoolean,
+  IsEnum,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { ShippingRateBasis } from '../../generated/enums.js';
+
+export class ShippingRateDto {
+  /**
+   * Valor mínimo (inclusive) de peso en kg o subtotal, según la zona.
+   */
+  @IsNumber()
+  @Min(0)
+  minValue: number;
+
+  /**
+   * Valor máximo (exclusivo). Sin valor = sin límite superior.
+   */
+  @IsNumber()
+  @Min(0)
+  @IsOptional()
+  maxValue?: number;
+
+  @IsNumber()
+  @Min(0)
+  cost: number;
+}
+
+export class CreateShippingZoneDto {
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @IsString()
+  @IsNotEmpty()
+  country: string;
+
+  /**
+   * Provincias/estados cubiertos. Vacío = todo el país.
+   */
+  @IsArray()
+  @IsString({ each: true })
+  @IsOptional()
+  states?: string[];
+
+  /**
+   * Prefijos de código postal cubiertos. Vacío = cualquier código postal.
+   */
+  @IsArray()
+  @IsString({ each: true })
+  @IsOptional()
+  zipCodePrefixes?: string[];
+
+  @IsEnum(ShippingRateBasis)
+  @IsOptional()
+  rateBasis?: ShippingRateBasis;
+
+  @IsNumber()
+  @Min(0)
+  @IsOptional()
+  freeShippingThreshold?: number;
+
+  @IsBoolean()
+  @IsOptional()
+  isActive?: boolean;
+
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => ShippingRateDto)
+  rates: ShippingRateDto[];
+}
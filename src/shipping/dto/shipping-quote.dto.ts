@@ -0,0 +1,7 @@
+import { IsNotEmpty, IsUUID } from 'class-validator';
+
+export class ShippingQuoteDto {
+  @IsUUID()
+  @IsNotEmpty()
+  addressId: string;
+}
@@ -0,0 +1,7 @@
+import { PartialType } from '@nestjs/mapped-types';
+import { CreateShippingZoneDto } from './create-shipping-zone.dto.js';
+
+/**
+ * Si se envían rates, reemplazan por completo las tarifas de la zona.
+ */
+export class UpdateShippingZoneDto extends PartialType(CreateShippingZoneDto) {}
@@ -0,0 +1,144 @@
+import { BadRequestException } from '@nestjs/common';
+import type { Prisma } from '../../generated/client.js';
+import { ShippingRateBasis } from '../../generated/enums.js';
+import { roundAmount } from '../../coupons/helpers/coupon.helper.js';
+
+/**
+ * Datos de la dirección usados para encontrar la zona de envío.
+ */
+export interface ShippingDestination {
+  country: string;
+  state: string;
+  zipCode: string;
+}
+
+/**
+ * Resultado de cotizar un envío.
+ */
+export interface ShippingQuote {
+  cost: number;
+  zoneId: string | null;
+  zoneName: string | null;
+  freeShipping: boolean;
+}
+
+interface ZoneCandidate {
+  states: string[];
+  zipCodePrefixes: string[];
+}
+
+const normalize = (value: string) => value.trim().toLowerCase();
+
+/**
+ * Puntaje de coincidencia de una zona con la dirección: las zonas más
+ * específicas (código postal > provincia > país) tienen prioridad.
+ * Devuelve -1 si la zona no cubre la dirección.
+ */
+function getZoneMatchScore(
+  zone: ZoneCandidate,
+  destination: ShippingDestination,
+): number {
+  let score = 1;
+
+  if (zone.zipCodePrefixes.length > 0) {
+    const zipCode = normalize(destination.zipCode);
+    const matchesZip = zone.zipCodePrefixes.some((prefix) =>
+      zipCode.startsWith(normalize(prefix)),
+    );
+    if (!matchesZip) return -1;
+    score += 2;
+  }
+
+  if (zone.states.length > 0) {
+    const state = normalize(destination.state);
+    const matchesState = zone.states.some((s) => normalize(s) === state);
+    if (!matchesState) return -1;
+    score += 1;
+  }
+
+  return score;
+}
+
+/**
+ * Calcula el costo de envío para una dirección.
+ * Busca la zona activa más específica que cubra la dirección y aplica la
+ * tarifa según el peso total o el subtotal del pedido. Si el subtotal
+ * alcanza el umbral de envío gratis de la zona, el costo es 0.
+ *
+ * Si no hay ninguna zona configurada el envío no se cobra; si hay zonas
+ * pero ninguna cubre la dirección, se rechaza el envío.
+ *
+ * @param client Cliente de Prisma (o de una transacción)
+ * @param destination País, provincia y código postal de la dirección
+ * @param subtotal Monto de los productos (después de descuentos)
+ * @param weight Peso total del pedido en kg
+ */
+export async function calculateShippingCost(
+  client: Prisma.TransactionClient,
+  destination: ShippingDestination,
+  subtotal: number,
+  weight: number,
+): Promise<ShippingQuote> {
+  const zones = await client.shippingZone.findMany({
+    where: {
+      isActive: true,
+      country: { equals: destination.country.trim(), mode: 'insensitive' },
+    },
+    include: { rates: { orderBy: { minValue: 'asc' } } },
+  });
+
+  const [zone] = zones
+    .map((candidate) => ({
+      candidate,
+      score: getZoneMatchScore(candidate, destination),
+    }))
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score)
+    .map(({ candidate }) => candidate);
+
+  if (!zone) {
+    const configuredZones = await client.shippingZone.count({
+      where: { isActive: true },
+    });
+
+    if (configuredZones === 0) {
+      return { cost: 0, zoneId: null, zoneName: null, freeShipping: false };
+    }
+
+    throw new BadRequestException(
+      'No realizamos envíos a la dirección seleccionada',
+    );
+  }
+
+  if (
+    zone.freeShippingThreshold !== null &&
+    subtotal >= Number(zone.freeShippingThreshold)
+  ) {
+    return {
+      cost: 0,
+      zoneId: zone.id,
+      zoneName: zone.name,
+      freeShipping: true,
+    };
+  }
+
+  const value = zone.rateBasis === ShippingRateBasis.weight ? weight : subtotal;
+  const rate = zone.rates.find(
+    (r) =>
+      value >= Number(r.minValue) &&
+      (r.maxValue === null || value < Number(r.maxValue)),
+  );
+
+  if (!rate) {
+    throw new BadRequestException(
+      `No hay una tarifa de envío configurada para este pedido en la zona ${zone.name}`,
+    );
+  }
+
+  return {
+    cost: roundAmount(Number(rate.cost)),
+    zoneId: zone.id,
+    zoneName: zone.name,
+    freeShipping: false,
+  };
+}
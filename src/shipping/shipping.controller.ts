@@ -0,0 +1,65 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  UseGuards,
+} from '@nestjs/common';
+import { ShippingService } from './shipping.service.js';
+import { CreateShippingZoneDto } from './dto/create-shipping-zone.dto.js';
+import { UpdateShippingZoneDto } from './dto/update-shipping-zone.dto.js';
+import { ShippingQuoteDto } from './dto/shipping-quote.dto.js';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard.js';
+import { AdminGuard } from '../auth/guards/admin.guard.js';
+import { CurrentUser } from '../auth/decorators/current-user.decorator.js';
+import type { LoggedInUserData } from '../interfaces/authenticated-user.interface.js';
+
+@Controller('shipping')
+@UseGuards(JwtAuthGuard)
+export class ShippingController {
+  constructor(private readonly shippingService: ShippingService) {}
+
+  @Post('quote')
+  quote(
+    @CurrentUser() user: LoggedInUserData,
+    @Body() shippingQuoteDto: ShippingQuoteDto,
+  ) {
+    return this.shippingService.quote(user.id, shippingQuoteDto.addressId);
+  }
+
+  @Post('zones')
+  @UseGuards(AdminGuard)
+  createZone(@Body() createShippingZoneDto: CreateShippingZoneDto) {
+    return this.shippingService.createZone(createShippingZoneDto);
+  }
+
+  @Get('zones')
+  @UseGuards(AdminGuard)
+  findAllZones() {
+    return this.shippingService.findAllZones();
+  }
+
+  @Get('zones/:id')
+  @UseGuards(AdminGuard)
+  findOneZone(@Param('id') id: string) {
+    return this.shippingService.findOneZone(id);
+  }
+
+  @Patch('zones/:id')
+  @UseGuards(AdminGuard)
+  updateZone(
+    @Param('id') id: string,
+    @Body() updateShippingZoneDto: UpdateShippingZoneDto,
+  ) {
+    return this.shippingService.updateZone(id, updateShippingZoneDto);
+  }
+
+  @Delete('zones/:id')
+  @UseGuards(AdminGuard)
+  removeZone(@Param('id') id: string) {
+    return this.shippingService.removeZone(id);
+  }
+}
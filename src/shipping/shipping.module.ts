@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { ShippingService } from './shipping.service.js';
+import { ShippingController } from './shipping.controller.js';
+import { PrismaModule } from '../prisma/prisma.module.js';
+import { AuthModule } from '../auth/auth.module.js';
+import { UsersModule } from '../users/users.module.js';
+
+@Module({
+  imports: [PrismaModule, AuthModule, UsersModule],
+  controllers: [ShippingController],
+  providers: [ShippingService],
+  exports: [ShippingService],
+})
+export class ShippingModule {}
@@ -0,0 +1,119 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+} from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service.js';
+import {
+  CreateShippingZoneDto,
+  ShippingRateDto,
+} from './dto/create-shipping-zone.dto.js';
+import { UpdateShippingZoneDto } from './dto/update-shipping-zone.dto.js';
+import {
+  calculateCartTotal,
+  validateAddress,
+} from '../payments/helpers/cart.helper.js';
+
+const zoneInclude = {
+  rates: { orderBy: { minValue: 'asc' as const } },
+};
+
+/**
+ * Servicio de envíos por zona.
+ * Responsabilidad única: administrar zonas y tarifas de envío y cotizar
+ * el costo de envío de un carrito a una dirección.
+ */
+@Injectable()
+export class ShippingService {
+  constructor(private prisma: PrismaService) {}
+
+  async createZone(createShippingZoneDto: CreateShippingZoneDto) {
+    const { rates, ...data } = createShippingZoneDto;
+    this.assertValidRates(rates);
+
+    return this.prisma.shippingZone.create({
+      data: {
+        ...data,
+        rates: { create: rates },
+      },
+      include: zoneInclude,
+    });
+  }
+
+  findAllZones() {
+    return this.prisma.shippingZone.findMany({
+      include: zoneInclude,
+      orderBy: [{ country: 'asc' }, { name: 'asc' }],
+    });
+  }
+
+  async findOneZone(id: string) {
+    const zone = await this.prisma.shippingZone.findUnique({
+      where: { id },
+      include: zoneInclude,
+    });
+
+    if (!zone) {
+      throw new NotFoundException(`Zona de envío con id ${id} no encontrada`);
+    }
+
+    return zone;
+  }
+
+  async updateZone(id: string, updateShippingZoneDto: UpdateShippingZoneDto) {
+    await this.findOneZone(id);
+    const { rates, ...data } = updateShippingZoneDto;
+
+    if (rates) {
+      this.assertValidRates(rates);
+    }
+
+    return this.prisma.shippingZone.update({
+      where: { id },
+      data: {
+        ...data,
+        ...(rates && {
+          rates: { deleteMany: {}, create: rates },
+        }),
+      },
+      include: zoneInclude,
+    });
+  }
+
+  async removeZone(id: string) {
+    await this.findOneZone(id);
+
+    return this.prisma.shippingZone.delete({
+      where: { id },
+    });
+  }
+
+  /**
+   * Cotiza el envío del carrito del usuario a una de sus direcciones.
+   */
+  async quote(userId: string, addressId: string) {
+    await validateAddress(this.prisma, addressId, userId);
+    return calculateCartTotal(this.prisma, userId, addressId);
+  }
+
+  /**
+   * Valida que cada tarifa tenga un rango coherente (mínimo < máximo).
+   */
+  private assertValidRates(rates: ShippingRateDto[]) {
+    if (rates.length === 0) {
+      throw new BadRequestException(
+        'La zona de envío debe tener al menos una tarifa',
+      );
+    }
+
+    const invalidRate = rates.find(
+      (rate) => rate.maxValue !== undefined && rate.maxValue <= rate.minValue,
+    );
+
+    if (invalidRate) {
+      throw new BadRequestException(
+        'El valor máximo de una tarifa debe ser mayor al valor mínimo',
+      );
+    }
+  }
+}
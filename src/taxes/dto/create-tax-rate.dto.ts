@@ -0,0 +1,46 @@
+import {
+  IsBoolean,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Max,
+  Min,
+} from 'class-validator';
+
+export class CreateTaxRateDto {
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @IsString()
+  @IsNotEmpty()
+  country: string;
+
+  /**
+   * Categoría a la que aplica. Sin categoría = tasa general del país.
+   */
+  @IsUUID()
+  @IsOptional()
+  categoryId?: string;
+
+  /**
+   * Porcentaje del impuesto (ej: 15 para IVA 15%).
+   */
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  rate: number;
+
+  /**
+   * Si los precios de los productos ya incluyen el impuesto.
+   */
+  @IsBoolean()
+  @IsOptional()
+  priceIncludesTax?: boolean;
+
+  @IsBoolean()
+  @IsOptional()
+  isActive?: boolean;
+}
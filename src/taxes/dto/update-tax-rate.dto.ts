@@ -0,0 +1,4 @@
+import { PartialType } from '@nestjs/mapped-types';
+import { CreateTaxRateDto } from './create-tax-rate.dto.js';
+
+export class UpdateTaxRateDto extends PartialType(CreateTaxRateDto) {}
@@ -0,0 +1,94 @@
+import type { Prisma } from '../../generated/client.js';
+import { roundAmount } from '../../coupons/helpers/coupon.helper.js';
+
+/**
+ * Tasa de impuesto aplicable a una línea del pedido.
+ */
+export interface TaxRule {
+  categoryId: string | null;
+  /** Porcentaje (ej: 15 para IVA 15%) */
+  rate: number;
+  priceIncludesTax: boolean;
+}
+
+/**
+ * Línea del pedido sobre la que se calcula el impuesto.
+ */
+export interface TaxLine {
+  categoryId: string;
+  /** Monto de la línea después de descuentos */
+  amount: number;
+}
+
+/**
+ * Impuesto calculado para una línea.
+ */
+export interface TaxLineResult {
+  rate: number;
+  /** Base imponible (monto sin impuesto) */
+  taxableAmount: number;
+  taxAmount: number;
+  /** Impuesto que se suma al precio (precios sin impuesto incluido) */
+  addedTax: number;
+}
+
+/**
+ * Obtiene las tasas de impuesto activas de un país.
+ */
+export async function findTaxRules(
+  client: Prisma.TransactionClient,
+  country: string,
+): Promise<TaxRule[]> {
+  const taxRates = await client.taxRate.findMany({
+    where: {
+      isActive: true,
+      country: { equals: country.trim(), mode: 'insensitive' },
+    },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  return taxRates.map((taxRate) => ({
+    categoryId: taxRate.categoryId,
+    rate: Number(taxRate.rate),
+    priceIncludesTax: taxRate.priceIncludesTax,
+  }));
+}
+
+/**
+ * Calcula el impuesto de una línea.
+ * La tasa de la categoría del producto tiene prioridad sobre la tasa
+ * general del país; sin tasa aplicable la línea no lleva impuesto.
+ *
+ * Con precios que incluyen impuesto, el impuesto se desglosa del monto;
+ * en caso contrario se calcula sobre el monto y se suma al total.
+ */
+export function calculateLineTax(
+  rules: TaxRule[],
+  line: TaxLine,
+): TaxLineResult {
+  const rule =
+    rules.find((r) => r.categoryId === line.categoryId) ??
+    rules.find((r) => r.categoryId === null);
+
+  if (!rule || rule.rate <= 0) {
+    return { rate: 0, taxableAmount: 0, taxAmount: 0, addedTax: 0 };
+  }
+
+  if (rule.priceIncludesTax) {
+    const taxableAmount = roundAmount(line.amount / (1 + rule.rate / 100));
+    return {
+      rate: rule.rate,
+      taxableAmount,
+      taxAmount: roundAmount(line.amount - taxableAmount),
+      addedTax: 0,
+    };
+  }
+
+  const taxAmount = roundAmount((line.amount * rule.rate) / 100);
+  return {
+    rate: rule.rate,
+    taxableAmount: roundAmount(line.amount),
+    taxAmount,
+    addedTax: taxAmount,
+  };
+}
@@ -0,0 +1,46 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  UseGuards,
+  Query,
+} from '@nestjs/common';
+import { TaxesService } from './taxes.service.js';
+import { CreateTaxRateDto } from './dto/create-tax-rate.dto.js';
+import { UpdateTaxRateDto } from './dto/update-tax-rate.dto.js';
+import { AdminGuard } from '../auth/guards/admin.guard.js';
+
+@Controller('taxes')
+@UseGuards(AdminGuard)
+export class TaxesController {
+  constructor(private readonly taxesService: TaxesService) {}
+
+  @Post()
+  create(@Body() createTaxRateDto: CreateTaxRateDto) {
+    return this.taxesService.create(createTaxRateDto);
+  }
+
+  @Get()
+  findAll(@Query('country') country?: string) {
+    return this.taxesService.findAll(country);
+  }
+
+  @Get(':id')
+  findOne(@Param('id') id: string) {
+    return this.taxesService.findOne(id);
+  }
+
+  @Patch(':id')
+  update(@Param('id') id: string, @Body() updateTaxRateDto: UpdateTaxRateDto) {
+    return this.taxesService.update(id, updateTaxRateDto);
+  }
+
+  @Delete(':id')
+  remove(@Param('id') id: string) {
+    return this.taxesService.remove(id);
+  }
+}
@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { TaxesService } from './taxes.service.js';
+import { TaxesController } from './taxes.controller.js';
+import { PrismaModule } from '../prisma/prisma.module.js';
+import { AuthModule } from '../auth/auth.module.js';
+import { UsersModule } from '../users/users.module.js';
+
+@Module({
+  imports: [PrismaModule, AuthModule, UsersModule],
+  controllers: [TaxesController],
+  providers: [TaxesService],
+  exports: [TaxesService],
+})
+export class TaxesModule {}
@@ -0,0 +1,108 @@
+import {
+  Injectable,
+  NotFoundException,
+  ConflictException,
+} from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service.js';
+import { CreateTaxRateDto } from './dto/create-tax-rate.dto.js';
+import { UpdateTaxRateDto } from './dto/update-tax-rate.dto.js';
+
+const taxRateInclude = {
+  category: { select: { id: true, name: true } },
+};
+
+/**
+ * Servicio de impuestos.
+ * Responsabilidad única: administrar las tasas de impuesto por país y
+ * categoría que se aplican al calcular el total del carrito.
+ */
+@Injectable()
+export class TaxesService {
+  constructor(private prisma: PrismaService) {}
+
+  async create(createTaxRateDto: CreateTaxRateDto) {
+    const country = createTaxRateDto.country.trim();
+    await this.assertUniqueScope(country, createTaxRateDto.categoryId);
+
+    return this.prisma.taxRate.create({
+      data: { ...createTaxRateDto, country },
+      include: taxRateInclude,
+    });
+  }
+
+  findAll(country?: string) {
+    return this.prisma.taxRate.findMany({
+      where: country
+        ? { country: { equals: country.trim(), mode: 'insensitive' } }
+        : {},
+      include: taxRateInclude,
+      orderBy: [{ country: 'asc' }, { name: 'asc' }],
+    });
+  }
+
+  async findOne(id: string) {
+    const taxRate = await this.prisma.taxRate.findUnique({
+      where: { id },
+      include: taxRateInclude,
+    });
+
+    if (!taxRate) {
+      throw new NotFoundException(
+        `Tasa de impuesto con id ${id} no encontrada`,
+      );
+    }
+
+    return taxRate;
+  }
+
+  async update(id: string, updateTaxRateDto: UpdateTaxRateDto) {
+    const taxRate = await this.findOne(id);
+    const country = updateTaxRateDto.country?.trim() ?? taxRate.country;
+    const categoryId =
+      updateTaxRateDto.categoryId !== undefined
+        ? updateTaxRateDto.categoryId
+        : taxRate.categoryId;
+
+    await this.assertUniqueScope(country, categoryId, id);
+
+    return this.prisma.taxRate.update({
+      where: { id },
+      data: { ...updateTaxRateDto, country },
+      include: taxRateInclude,
+    });
+  }
+
+  async remove(id: string) {
+    await this.findOne(id);
+
+    return this.prisma.taxRate.delete({
+      where: { id },
+    });
+  }
+
+  /**
+   * Un país solo puede tener una tasa general y una tasa por categoría;
+   * si hubiera varias, el impuesto a aplicar sería ambiguo.
+   */
+  private async assertUniqueScope(
+    country: string,
+    categoryId?: string | null,
+    excludeId?: string,
+  ) {
+    const existing = await this.prisma.taxRate.findFirst({
+      where: {
+        country: { equals: country, mode: 'insensitive' },
+        categoryId: categoryId ?? null,
+        ...(excludeId && { id: { not: excludeId } }),
+      },
+    });
+
+    if (existing) {
+      throw new ConflictException(
+        categoryId
+          ? `Ya existe una tasa de impuesto para esta categoría en ${country}`
+          : `Ya existe una tasa de impuesto general para ${country}`,
+      );
+    }
+  }
+}
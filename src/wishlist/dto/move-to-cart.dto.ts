@@ -0,0 +1,15 @@
+import { IsNumber, IsOptional, IsUUID, Min } from 'class-validator';
+
+export class MoveToCartDto {
+  /**
+   * Variante elegida. Obligatoria si el producto tiene variantes activas.
+   */
+  @IsUUID()
+  @IsOptional()
+  variantId?: string;
+
+  @IsNumber()
+  @Min(1)
+  @IsOptional()
+  quantity?: number;
+}
@@ -0,0 +1,179 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { PrismaService } from '../prisma/prisma.service.js';
+import { EmailService } from '../email/email.service.js';
+import { calculateFinalPrice } from '../payments/helpers/cart.helper.js';
+import { escapeHtml } from '../common/helpers/html.helper.js';
+
+interface WishlistChange {
+  itemId: string;
+  discount: number;
+  isActive: boolean;
+  /** Línea HTML para el email; null si el cambio no se notifica */
+  alert: string | null;
+}
+
+@Injectable()
+export class WishlistSchedulerService {
+  private readonly logger = new Logger(WishlistSchedulerService.name);
+  private readonly frontendUrl: string;
+
+  constructor(
+    private prisma: PrismaService,
+    private emailService: EmailService,
+    private configService: ConfigService,
+  ) {
+    this.frontendUrl =
+      this.configService.get<string>('FRONTEND_URL') || 'http://localhost:3000';
+  }
+
+  /**
+   * Ejecuta una vez al día para avisar a los usuarios cuando un producto de
+   * su lista de deseos aumenta su descuento o vuelve a estar activo.
+   * Cada usuario recibe un solo email con todas sus novedades.
+   */
+  @Cron(CronExpression.EVERY_DAY_AT_10AM)
+  async handleWishlistAlerts() {
+    try {
+      const items = await this.prisma.wishlistItem.findMany({
+        include: {
+          user: { select: { email: true, firstName: true } },
+          product: {
+            select: {
+              id: true,
+              name: true,
+              price: true,
+              discount: true,
+              isActive: true,
+            },
+          },
+        },
+      });
+
+      const changesByUser = new Map<
+        string,
+        {
+          user: { email: string; firstName: string };
+          changes: WishlistChange[];
+        }
+      >();
+
+      for (const item of items) {
+        const discount = Number(item.product.discount);
+        const lastSeenDiscount = Number(item.lastSeenDiscount);
+        const { isActive } = item.product;
+
+        if (discount === lastSeenDiscount && isActive === item.lastSeenActive) {
+          continue;
+        }
+
+        const entry = changesByUser.get(item.userId) ?? {
+          user: item.user,
+          changes: [],
+        };
+        entry.changes.push({
+          itemId: item.id,
+          discount,
+          isActive,
+          alert: this.buildAlert(
+            item.product,
+            !item.lastSeenActive,
+            lastSeenDiscount,
+          ),
+        });
+        changesByUser.set(item.userId, entry);
+      }
+
+      if (changesByUser.size === 0) {
+        return;
+      }
+
+      this.logger.log(
+        `Procesando novedades de lista de deseos para ${changesByUser.size} usuarios`,
+      );
+
+      for (const { user, changes } of changesByUser.values()) {
+        await this.notifyUser(user, changes);
+      }
+    } catch (error) {
+      this.logger.error(
+        `Error al procesar alertas de lista de deseos: ${error}`,
+      );
+    }
+  }
+
+  /**
+   * Genera la línea del email para un producto, o null si el cambio no
+   * amerita aviso (bajó el descuento o el producto se desactivó).
+   */
+  private buildAlert(
+    product: {
+      id: string;
+      name: string;
+      price: number | { toNumber(): number };
+      discount: number | { toNumber(): number };
+      isActive: boolean;
+    },
+    wasInactive: boolean,
+    lastSeenDiscount: number,
+  ): string | null {
+    if (!product.isActive) {
+      return null;
+    }
+
+    const discount = Number(product.discount);
+    const productUrl = escapeHtml(`${this.frontendUrl}/products/${product.id}`);
+    const name = `<a href="${productUrl}" style="color: #4caf50; font-weight: bold;">${escapeHtml(product.name)}</a>`;
+
+    if (discount > lastSeenDiscount) {
+      const finalPrice = calculateFinalPrice(product.price, product.discount);
+      return `<p style="margin: 0 0 10px 0;">${name}: ahora con ${discount}% de descuento, a $${finalPrice.toFixed(2)}</p>`;
+    }
+
+    if (wasInactive) {
+      return `<p style="margin: 0 0 10px 0;">${name}: vuelve a estar disponible</p>`;
+    }
+
+    return null;
+  }
+
+  /**
+   * Envía el email con las novedades y actualiza la referencia de cada item.
+   * Si el envío falla la referencia no se actualiza, así el aviso se
+   * reintenta en la próxima ejecución.
+   */
+  private async notifyUser(
+    user: { email: string; firstName: string },
+    changes: WishlistChange[],
+  ) {
+    const alerts = changes
+      .map((change) => change.alert)
+      .filter((alert): alert is string => alert !== null);
+
+    try {
+      if (alerts.length > 0) {
+        await this.emailService.sendWishlistAlertEmail({
+          to: user.email,
+          firstName: user.firstName,
+          productsList: alerts.join(''),
+          wishlistUrl: `${this.frontendUrl}/wishlist`,
+        });
+      }
+
+      for (const change of changes) {
+        await this.prisma.wishlistItem.update({
+          where: { id: change.itemId },
+          data: {
+            lastSeenDiscount: change.discount,
+            lastSeenActive: change.isActive,
+          },
+        });
+      }
+    } catch (error) {
+      this.logger.error(
+        `Error al enviar alerta de lista de deseos a ${user.email}: ${error}`,
+      );
+    }
+  }
+}
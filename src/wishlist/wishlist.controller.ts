@@ -0,0 +1,51 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Delete,
+  UseGuards,
+} from '@nestjs/common';
+import { WishlistService } from './wishlist.service.js';
+import { AddToWishlistDto } from './dto/add-to-wishlist.dto.js';
+import { MoveToCartDto } from './dto/move-to-cart.dto.js';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard.js';
+import { CurrentUser } from '../auth/decorators/current-user.decorator.js';
+import type { LoggedInUserData } from '../interfaces/authenticated-user.interface.js';
+
+@Controller('wishlist')
+@UseGuards(JwtAuthGuard)
+export class WishlistController {
+  constructor(private readonly wishlistService: WishlistService) {}
+
+  @Get()
+  findAll(@CurrentUser() user: LoggedInUserData) {
+    return this.wishlistService.findAll(user.id);
+  }
+
+  @Post()
+  add(
+    @CurrentUser() user: LoggedInUserData,
+    @Body() addToWishlistDto: AddToWishlistDto,
+  ) {
+    return this.wishlistService.add(user.id, addToWishlistDto);
+  }
+
+  @Post(':productId/move-to-cart')
+  moveToCart(
+    @CurrentUser() user: LoggedInUserData,
+    @Param('productId') productId: string,
+    @Body() moveToCartDto: MoveToCartDto,
+  ) {
+    return this.wishlistService.moveToCart(user.id, productId, moveToCartDto);
+  }
+
+  @Delete(':productId')
+  remove(
+    @CurrentUser() user: LoggedInUserData,
+    @Param('productId') productId: string,
+  ) {
+    return this.wishlistService.remove(user.id, productId);
+  }
+}
@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { WishlistService } from './wishlist.service.js';
+import { WishlistController } from './wishlist.controller.js';
+import { WishlistSchedulerService } from './wishlist-scheduler.service.js';
+import { PrismaModule } from '../prisma/prisma.module.js';
+import { CartModule } from '../cart/cart.module.js';
+import { EmailModule } from '../email/email.module.js';
+
+@Module({
+  imports: [PrismaModule, CartModule, EmailModule],
+  controllers: [WishlistController],
+  providers: [WishlistService, WishlistSchedulerService],
+  exports: [WishlistService],
+})
+export class WishlistModule {}
@@ -0,0 +1,118 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+} from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service.js';
+import { CartService } from '../cart/cart.service.js';
+import { AddToWishlistDto } from './dto/add-to-wishlist.dto.js';
+import { MoveToCartDto } from './dto/move-to-cart.dto.js';
+
+const wishlistInclude = {
+  product: {
+    include: {
+      images: {
+        orderBy: { order: 'asc' as const },
+        take: 1,
+      },
+    },
+  },
+};
+
+/**
+ * Servicio de lista de deseos.
+ * Responsabilidad única: guardar los productos que el usuario quiere comprar
+ * más adelante y pasarlos al carrito cuando lo decida.
+ */
+@Injectable()
+export class WishlistService {
+  constructor(
+    private prisma: PrismaService,
+    private cartService: CartService,
+  ) {}
+
+  findAll(userId: string) {
+    return this.prisma.wishlistItem.findMany({
+      where: { userId },
+      include: wishlistInclude,
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  /**
+   * Agrega un producto a la lista de deseos. Si ya estaba, no hace nada.
+   * Guarda el descuento y el estado actuales del producto como referencia
+   * para las notificaciones de baja de precio y reactivación.
+   */
+  async add(userId: string, addToWishlistDto: AddToWishlistDto) {
+    const product = await this.prisma.product.findUnique({
+      where: { id: addToWishlistDto.productId },
+    });
+
+    if (!product) {
+      throw new NotFoundException('Producto no encontrado');
+    }
+
+    return this.prisma.wishlistItem.upsert({
+      where: { userId_productId: { userId, productId: product.id } },
+      create: {
+        userId,
+        productId: product.id,
+        lastSeenDiscount: product.discount,
+        lastSeenActive: product.isActive,
+      },
+      update: {},
+      include: wishlistInclude,
+    });
+  }
+
+  async remove(userId: string, productId: string) {
+    const { count } = await this.prisma.wishlistItem.deleteMany({
+      where: { userId, productId },
+    });
+
+    if (count === 0) {
+      throw new NotFoundException('El producto no está en tu lista de deseos');
+    }
+
+    return { message: 'Producto eliminado de la lista de deseos' };
+  }
+
+  /**
+   * Pasa un producto de la lista de deseos al carrito.
+   * El carrito valida variante y stock; si falla, el producto sigue en la lista.
+   */
+  async moveToCart(
+    userId: string,
+    productId: string,
+    moveToCartDto: MoveToCartDto,
+  ) {
+    const item = await this.prisma.wishlistItem.findUnique({
+      where: { userId_productId: { userId, productId } },
+      include: { product: { select: { isActive: true } } },
+    });
+
+    if (!item) {
+      throw new NotFoundException('El producto no está en tu lista de deseos');
+    }
+
+    if (!item.product.isActive) {
+      throw new BadRequestException('El producto no está disponible');
+    }
+
+    const cartItem = await this.cartService.addToCart(userId, {
+      productId,
+      variantId: moveToCartDto.variantId,
+      quantity: moveToCartDto.quantity ?? 1,
+    });
+
+    await this.prisma.wishlistItem.delete({
+      where: { id: item.id },
+    });
+
+    return {
+      message: 'Producto movido al carrito',
+      data: cartItem,
+    };
+  }
+}